@@ -36,6 +36,13 @@ const parseNumber = (value: string | undefined, defaultValue: number): number =>
     return isNaN(parsed) ? defaultValue : parsed;
 };
 
+// Helper function to parse a decimal number from environment variable
+const parseDecimal = (value: string | undefined, defaultValue: number): number => {
+    if (!value) return defaultValue;
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? defaultValue : parsed;
+};
+
 // Application configuration
 export const config: ApiConfig = {
     // Server configuration
@@ -121,6 +128,9 @@ export const config: ApiConfig = {
                 'application/json',
                 'text/csv',
                 'text/plain',
+                'text/markdown',
+                'text/html',
+                'application/x-ndjson',
                 'application/xml',
                 'application/pdf',
                 'image/jpeg',
@@ -129,6 +139,87 @@ export const config: ApiConfig = {
             ]
         ),
         uploadPath: process.env.UPLOAD_PATH || './uploads'
+    },
+
+    // Answer generation; 'template' answers offline, 'openai' calls an OpenAI-compatible API
+    llm: {
+        provider: process.env.LLM_PROVIDER === 'openai' ? 'openai' : 'template',
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        ...(process.env.LLM_API_KEY && { apiKey: process.env.LLM_API_KEY }),
+        model: process.env.LLM_MODEL || 'llama3',
+        timeoutMs: parseNumber(process.env.LLM_TIMEOUT_MS, 30000)
+    },
+
+    // Durable MCP records; each MCP keeps a write-ahead log and snapshots in a sub-directory named
+    // after it. Without a directory, records are held in memory and lost on restart.
+    mcpStorage: {
+        ...(process.env.MCP_STORAGE_DIR && { storageDir: process.env.MCP_STORAGE_DIR })
+    },
+
+    // Conversational query sessions; without a storage directory they are lost on restart
+    querySessions: {
+        ttlMs: parseNumber(process.env.QUERY_SESSION_TTL_MS, 30 * 60 * 1000),
+        ...(process.env.QUERY_SESSION_DIR && { storageDir: process.env.QUERY_SESSION_DIR })
+    },
+
+    // Live query subscriptions over WebSocket; a subscriber that falls further behind than
+    // maxPendingChanges is sent the whole result again
+    liveQueries: {
+        maxPendingChanges: parseNumber(process.env.LIVE_QUERY_MAX_PENDING, 1000),
+        resumeWindowMs: parseNumber(process.env.LIVE_QUERY_RESUME_WINDOW_MS, 2 * 60 * 1000)
+    },
+
+    // Change data capture; without a directory the change log and consumer offsets are lost on
+    // restart. An NDJSON file, when set, mirrors every change.
+    changes: {
+        maxEvents: parseNumber(process.env.CDC_MAX_EVENTS, 100000),
+        ...(process.env.CDC_DIR && { storageDir: process.env.CDC_DIR }),
+        ...(process.env.CDC_NDJSON_FILE && { ndjsonFile: process.env.CDC_NDJSON_FILE })
+    },
+
+    // Outbound webhooks; a delivery is retried maxAttempts times with doubling waits before it
+    // is dead-lettered. Without a directory, subscriptions are lost on restart.
+    webhooks: {
+        maxAttempts: parseNumber(process.env.WEBHOOK_MAX_ATTEMPTS, 6),
+        initialBackoffMs: parseNumber(process.env.WEBHOOK_INITIAL_BACKOFF_MS, 1000),
+        timeoutMs: parseNumber(process.env.WEBHOOK_TIMEOUT_MS, 10000),
+        ...(process.env.WEBHOOK_DIR && { storageDir: process.env.WEBHOOK_DIR })
+    },
+
+    // Tier migrations between MCPs and the orchestrator that raises alerts about them. Without a
+    // checkpoint directory an interrupted migration cannot resume after a restart; automatic
+    // reclassification and migration of MCPs stays off unless MIGRATION_AUTO is set.
+    migrations: {
+        maxConcurrent: parseNumber(process.env.MIGRATION_MAX_CONCURRENT, 3),
+        automatic: process.env.MIGRATION_AUTO === 'true',
+        ...(process.env.MIGRATION_CHECKPOINT_DIR && { checkpointDir: process.env.MIGRATION_CHECKPOINT_DIR })
+    },
+
+    // Records that fail to ingest; failures in retryStages are replayed automatically up to
+    // maxRetries times before they wait for an admin. Without a directory they are lost on restart.
+    ingestionDeadLetters: {
+        maxRetries: parseNumber(process.env.INGEST_RETRY_MAX, 3),
+        initialBackoffMs: parseNumber(process.env.INGEST_RETRY_BACKOFF_MS, 30 * 1000),
+        maxBackoffMs: parseNumber(process.env.INGEST_RETRY_MAX_BACKOFF_MS, 30 * 60 * 1000),
+        retryStages: parseArray(process.env.INGEST_RETRY_STAGES, ['route', 'store']) as Array<'classify' | 'route' | 'store'>,
+        ...(process.env.INGEST_DEAD_LETTER_DIR && { storageDir: process.env.INGEST_DEAD_LETTER_DIR })
+    },
+
+    // Decision log for atomic batches; without a directory a transaction interrupted mid-commit
+    // is not finished after a restart
+    transactions: {
+        ...(process.env.TRANSACTION_LOG_DIR && { logDir: process.env.TRANSACTION_LOG_DIR })
+    },
+
+    // Queries interpreted below the threshold are sent back with candidate readings
+    clarification: {
+        confidenceThreshold: parseDecimal(process.env.RAG2_CONFIDENCE_THRESHOLD, 0.7),
+        ttlMs: parseNumber(process.env.CLARIFICATION_TTL_MS, 10 * 60 * 1000)
+    },
+
+    // Extra or replacement query language packs (*.json); en, es, de and fr are built in
+    languages: {
+        ...(process.env.LANGUAGE_PACK_DIR && { packDir: process.env.LANGUAGE_PACK_DIR })
     }
 };
 
@@ -172,6 +263,10 @@ export const logConfig = () => {
         redis: {
             ...config.redis,
             password: config.redis.password ? '[REDACTED]' : undefined
+        },
+        llm: {
+            ...config.llm,
+            apiKey: config.llm.apiKey ? '[REDACTED]' : undefined
         }
     };
 
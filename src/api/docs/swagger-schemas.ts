@@ -164,6 +164,15 @@ export const swaggerSchemas = {
           schema: {
             type: 'object',
             description: 'Data schema definition'
+          },
+          ttl: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Time to live in milliseconds; the record is hidden and purged once it elapses'
+          },
+          expiresAt: {
+            oneOf: [{ type: 'integer' }, { type: 'string', format: 'date-time' }],
+            description: 'Absolute expiry as epoch milliseconds or an ISO 8601 timestamp'
           }
         }
       },
@@ -293,6 +302,11 @@ export const swaggerSchemas = {
             type: 'boolean',
             default: true,
             description: 'Generate processing report'
+          },
+          atomic: {
+            type: 'boolean',
+            default: false,
+            description: 'Store every item or none in a single transaction'
           }
         }
       }
@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 import { ApiResponse, CustomApiError } from '../../types/api.types';
 import { logger, logError } from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { VersionConflictError } from '../../core/mcp/versioning';
 
 /**
  * Global error handling middleware
@@ -22,6 +23,15 @@ export const errorHandler = (
   let message = 'An internal server error occurred';
   let details: any = undefined;
 
+  // Optimistic concurrency failures from the MCP layer surface as 409 Conflict
+  if (error instanceof VersionConflictError) {
+    error = new ConflictError(error.message, {
+      recordId: error.recordId,
+      expectedVersion: error.expectedVersion,
+      currentVersion: error.actualVersion
+    });
+  }
+
   // Handle different error types
   if (error instanceof CustomApiError) {
     statusCode = error.statusCode;
@@ -239,8 +249,8 @@ export class NotFoundError extends CustomApiError {
  * Conflict error class (e.g., duplicate resources)
  */
 export class ConflictError extends CustomApiError {
-  constructor(message: string = 'Resource conflict') {
-    super(message, 409, 'CONFLICT');
+  constructor(message: string = 'Resource conflict', details?: any) {
+    super(message, 409, 'CONFLICT', details);
     this.name = 'ConflictError';
   }
 }
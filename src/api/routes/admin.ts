@@ -419,6 +419,7 @@ export function createAdminRoutes(
           storageUsed: mcpStats.storageUsed,
           networkIO: mcpStats.networkIO || { inbound: 0, outbound: 0 },
         },
+        expiry: mcpStats.expiry,
       };
 
       const response: ApiResponse<SystemMetrics> = {
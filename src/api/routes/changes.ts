@@ -0,0 +1,117 @@
+/**
+ * Change Feed Routes
+ * REST endpoints for reading MCP changes from an offset and tracking consumer group offsets
+ */
+
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { ApiResponse, AuthenticatedRequest } from '../../types/api.types';
+import { requireAdmin } from '../middleware/auth';
+import { OperationalError, ValidationError } from '../middleware/errorHandler';
+import { ChangeFeed, ChangeOffsetExpiredError, InvalidChangeOffsetError } from '../../mcp/cdc/ChangeFeed';
+import { v4 as uuidv4 } from 'uuid';
+import { asyncAuthHandler } from '../utils/asyncHandler';
+import { validate } from '../middleware/validation';
+
+const groupName = z.string().min(1).max(200).regex(/^[\w.:-]+$/, 'Invalid consumer group');
+
+const readChangesSchema = z.object({
+  since: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  group: groupName.optional(),
+  // Commit the group's offset past the returned changes
+  commit: z.enum(['true', 'false']).transform(value => value === 'true').default(false)
+});
+
+const commitOffsetSchema = z.object({
+  seq: z.number().int().min(0)
+});
+
+export function createChangeRoutes(feed: ChangeFeed): Router {
+  const router = Router();
+
+  // Changes carry records of every user and domain
+  router.use(requireAdmin as any);
+
+  const withOffset = async <T>(work: () => Promise<T>): Promise<T> => {
+    try {
+      return await work();
+    } catch (error) {
+      if (error instanceof ChangeOffsetExpiredError) {
+        throw new OperationalError(error.message, 410, 'CHANGE_OFFSET_EXPIRED', { firstSequence: error.firstSequence });
+      }
+      if (error instanceof InvalidChangeOffsetError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * GET /api/v1/changes?since=&limit=&group=&commit=
+   * Changes after `since`, or after the group's committed offset when `since` is left out
+   */
+  router.get('/', validate(readChangesSchema, 'query'), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { since, limit, group, commit } = req.query as unknown as z.infer<typeof readChangesSchema>;
+    if (since === undefined && !group) {
+      throw new ValidationError('Either since or group is required');
+    }
+    if (commit && !group) {
+      throw new ValidationError('Committing requires a group');
+    }
+
+    const page = await withOffset(async () => {
+      const result = await feed.read(since ?? await feed.startOf(group!), limit);
+      if (commit && result.changes.length > 0) {
+        await feed.commit(group!, result.nextSince);
+      }
+      return result;
+    });
+
+    return res.json({
+      success: true,
+      data: page,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/v1/changes/offsets
+   * Committed offset of every consumer group
+   */
+  router.get('/offsets', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+
+    return res.json({
+      success: true,
+      data: { offsets: await feed.offsets() },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * PUT /api/v1/changes/offsets/:group
+   * Commit a consumer group's offset: the sequence number of the last change it processed
+   */
+  router.put('/offsets/:group', validate(commitOffsetSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const group = groupName.safeParse(req.params.group);
+    if (!group.success) {
+      throw new ValidationError('Invalid consumer group');
+    }
+    const { seq } = req.body as z.infer<typeof commitOffsetSchema>;
+    const offset = await withOffset(() => feed.commit(group.data, seq));
+
+    return res.json({
+      success: true,
+      data: offset,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  return router;
+}
@@ -0,0 +1,167 @@
+/**
+ * Ingestion Dead-Letter Routes
+ * Admin endpoints for inspecting, editing, replaying and discarding records that failed to ingest
+ */
+
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { ApiResponse, AuthenticatedRequest } from '../../types/api.types';
+import { requireAdmin } from '../middleware/auth';
+import { NotFoundError, OperationalError, ValidationError } from '../middleware/errorHandler';
+import { RAG1Controller } from '../../rag/ingest/rag1';
+import { DeadLetterNotFoundError, DeadLetterReplayInProgressError } from '../../rag/ingest/dead_letters';
+import { v4 as uuidv4 } from 'uuid';
+import { asyncAuthHandler } from '../utils/asyncHandler';
+import { validate } from '../middleware/validation';
+
+const filterSchema = z.object({
+  stage: z.enum(['classify', 'route', 'store']).optional(),
+  status: z.enum(['scheduled', 'exhausted']).optional(),
+  batchId: z.string().min(1).max(100).optional()
+});
+
+const listSchema = filterSchema.extend({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+const updateSchema = z.object({
+  data: z.any().optional(),
+  metadata: z.record(z.string(), z.any()).optional()
+}).refine(changes => changes.data !== undefined || changes.metadata !== undefined, {
+  message: 'Either data or metadata is required'
+});
+
+// Either named entries or a filter; an empty filter replays every entry
+const replaySchema = filterSchema.extend({
+  ids: z.array(z.string().min(1).max(100)).min(1).max(1000).optional()
+});
+
+export function createDeadLetterRoutes(rag1Controller: RAG1Controller): Router {
+  const router = Router();
+  const deadLetters = rag1Controller.getDeadLetters();
+
+  // Dead letters carry the full record of every user
+  router.use(requireAdmin as any);
+
+  const withDeadLetter = async <T>(work: () => T | Promise<T>): Promise<T> => {
+    try {
+      return await work();
+    } catch (error) {
+      if (error instanceof DeadLetterNotFoundError) {
+        throw new NotFoundError(error.message);
+      }
+      if (error instanceof DeadLetterReplayInProgressError) {
+        throw new OperationalError(error.message, 409, 'DEAD_LETTER_REPLAYING');
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * GET /api/v1/admin/ingestion/dead-letters?stage=&status=&batchId=&offset=&limit=
+   * Failed records, oldest first, with counts by stage and status
+   */
+  router.get('/', validate(listSchema, 'query'), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { offset, limit, ...filter } = req.query as unknown as z.infer<typeof listSchema>;
+
+    return res.json({
+      success: true,
+      data: {
+        deadLetters: deadLetters.list({ ...filter, offset, limit }),
+        total: deadLetters.list(filter).length,
+        stats: deadLetters.stats()
+      },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/v1/admin/ingestion/dead-letters/replay
+   * Replay the listed entries, or every entry matching stage, status and batchId
+   */
+  router.post('/replay', validate(replaySchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { ids, ...filter } = req.body as z.infer<typeof replaySchema>;
+    if (ids && Object.values(filter).some(value => value !== undefined)) {
+      throw new ValidationError('Replay either ids or a filter, not both');
+    }
+    const outcome = await withDeadLetter(() => deadLetters.replayMany({ ids, ...filter }));
+
+    return res.json({
+      success: true,
+      data: outcome,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/v1/admin/ingestion/dead-letters/:id
+   * One failed record with its error, stage and attempts
+   */
+  router.get('/:id', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const deadLetter = await withDeadLetter(() => deadLetters.get(req.params.id));
+
+    return res.json({
+      success: true,
+      data: deadLetter,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * PATCH /api/v1/admin/ingestion/dead-letters/:id
+   * Replace the data or metadata the next replay ingests
+   */
+  router.patch('/:id', validate(updateSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const changes = req.body as z.infer<typeof updateSchema>;
+    const deadLetter = await withDeadLetter(() => deadLetters.update(req.params.id, changes));
+
+    return res.json({
+      success: true,
+      data: deadLetter,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/v1/admin/ingestion/dead-letters/:id/replay
+   * Ingest the record again now; it leaves the queue if that succeeds
+   */
+  router.post('/:id/replay', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const result = await withDeadLetter(() => deadLetters.replay(req.params.id));
+
+    return res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * DELETE /api/v1/admin/ingestion/dead-letters/:id
+   * Drop a failed record without ingesting it
+   */
+  router.delete('/:id', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    await withDeadLetter(() => deadLetters.discard(req.params.id));
+
+    return res.json({
+      success: true,
+      data: { deadLetterId: req.params.id, deleted: true },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  return router;
+}
@@ -20,6 +20,7 @@ import { requirePermission } from '../middleware/auth';
 import { config } from '../../api/config/config';
 import { asyncHandler, asyncAuthHandler } from '../utils/asyncHandler';
 import { RAG1Controller } from '../../rag/ingest/rag1';
+import { ChunkingOptions, detectFormat } from '../../rag/ingest/documents';
 import { v4 as uuidv4 } from 'uuid';
 
 // File upload configuration
@@ -63,7 +64,11 @@ export function createIngestionRoutes(rag1Controller: RAG1Controller): Router {
       type: z.string().optional(),
       priority: z.enum(['low', 'medium', 'high', 'critical']).default('medium'),
       tags: z.array(z.string()).optional(),
-      schema: z.record(z.string(), z.any()).optional()
+      schema: z.record(z.string(), z.any()).optional(),
+      ttl: z.number().int().positive().optional(),
+      expiresAt: z.union([z.number().int().positive(), z.string().datetime()])
+        .transform(value => typeof value === 'number' ? value : Date.parse(value))
+        .optional()
     }).optional(),
     routing: z.object({
       preferredMCPs: z.array(z.string()).optional(),
@@ -72,12 +77,22 @@ export function createIngestionRoutes(rag1Controller: RAG1Controller): Router {
     }).optional()
   });
 
+  const chunkingSchema = z.object({
+    strategy: z.enum(['fixed', 'heading', 'sentence']).optional(),
+    size: z.number().int().min(1).max(8192).optional(),
+    overlap: z.number().int().min(0).max(8191).optional()
+  }).refine(
+    chunking => chunking.overlap === undefined || chunking.overlap < (chunking.size ?? 200),
+    { message: 'Overlap must be smaller than the chunk size' }
+  );
+
   const batchIngestionSchema = z.object({
     items: z.array(ingestionSchema).min(1).max(100),
     options: z.object({
       parallelProcessing: z.boolean().default(true),
       failFast: z.boolean().default(false),
-      generateReport: z.boolean().default(true)
+      generateReport: z.boolean().default(true),
+      atomic: z.boolean().default(false)
     }).optional()
   });
 
@@ -238,7 +253,8 @@ router.post('/batch',
           totalItems: items.length,
           successful: successCount,
           failed: items.length - successCount,
-          results: batchResult.results
+          results: batchResult.results,
+          transactionId: batchResult.transactionId
         },
         message: `Batch ingestion completed: ${successCount}/${items.length} successful`,
         timestamp: new Date().toISOString(),
@@ -498,9 +514,48 @@ router.post('/validate',
           }
         }
 
+        let chunking: ChunkingOptions = {};
+        if (req.body.chunking) {
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(req.body.chunking);
+          } catch (error) {
+            parsed = undefined;
+          }
+          const validation = chunkingSchema.safeParse(parsed);
+          if (!validation.success) {
+            return res.status(400).json({
+              success: false,
+              error: 'Invalid chunking options',
+              details: validation.error?.format(),
+              timestamp: new Date().toISOString(),
+              requestId
+            } as ApiResponse);
+          }
+          chunking = validation.data;
+        }
+
         const fileResults = await Promise.all(
           files.map(async (file) => {
             try {
+              // Text formats are chunked into linked records; anything else is stored whole
+              if (detectFormat(file.mimetype, file.originalname)) {
+                const document = await rag1Controller.ingestDocument(file.buffer, {
+                  ...metadata,
+                  fileName: file.originalname,
+                  mimeType: file.mimetype,
+                }, chunking);
+
+                return {
+                  fileName: file.originalname,
+                  success: document.success,
+                  documentId: document.documentId,
+                  format: document.format,
+                  chunkCount: document.chunkCount,
+                  ...(document.error && { error: document.error })
+                };
+              }
+
               const data = file.buffer;
               const fileIngestion = await rag1Controller.ingest(data, {
                 ...metadata,
@@ -555,6 +610,128 @@ router.post('/validate',
     })
   );
 
+  /**
+   * @swagger
+   * /api/v1/ingest/documents/{id}:
+   *   get:
+   *     summary: Get an ingested document with its chunks and reassembled text
+   *     tags: [Ingestion]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Document retrieved
+   *       404:
+   *         description: Document not found
+   */
+  router.get('/documents/:id',
+    requirePermission(['ingest:read']),
+    asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const { id } = req.params;
+      const requestId = req.headers['x-request-id'] as string || uuidv4();
+
+      try {
+        const document = await rag1Controller.getDocument(id);
+
+        if (!document) {
+          return res.status(404).json({
+            success: false,
+            error: 'Document not found',
+            message: `Document with ID ${id} does not exist`,
+            timestamp: new Date().toISOString(),
+            requestId
+          } as ApiResponse);
+        }
+
+        return res.json({
+          success: true,
+          data: document,
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+
+      } catch (error) {
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to retrieve document',
+          message: (error as Error).message,
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+      }
+    })
+  );
+
+  /**
+   * @swagger
+   * /api/v1/ingest/documents/{id}:
+   *   delete:
+   *     summary: Delete an ingested document and all of its chunks
+   *     tags: [Ingestion]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Document and chunks deleted
+   *       404:
+   *         description: Document not found
+   */
+  router.delete('/documents/:id',
+    requirePermission(['ingest:write']),
+    asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+      const { id } = req.params;
+      const requestId = req.headers['x-request-id'] as string || uuidv4();
+
+      try {
+        const deletedRecords = await rag1Controller.deleteDocument(id);
+
+        if (deletedRecords === 0) {
+          return res.status(404).json({
+            success: false,
+            error: 'Document not found',
+            message: `Document with ID ${id} does not exist`,
+            timestamp: new Date().toISOString(),
+            requestId
+          } as ApiResponse);
+        }
+
+        return res.json({
+          success: true,
+          data: { documentId: id, deletedRecords },
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+
+      } catch (error) {
+        logger.error('Document deletion failed', {
+          requestId,
+          documentId: id,
+          error: (error as Error).message
+        });
+
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to delete document',
+          message: (error as Error).message,
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+      }
+    })
+  );
+
   /**
    * @swagger
    * /api/v1/ingest/stream:
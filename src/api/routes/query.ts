@@ -10,15 +10,26 @@ import {
   ApiResponse, 
   QueryRequest, 
   QueryResponse, 
+  AnswerRequest,
+  ExplainRequest,
+  ClarifyRequest,
   AuthenticatedRequest,
   PaginatedResponse
 } from '../../types/api.types';
 import { logger } from '../../utils/logger';
 import { requirePermission, optionalAuth } from '../middleware/auth';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
 import { config } from '../../api/config/config';
 import { RAG2Controller } from '../../rag/query/rag2';
 import { v4 as uuidv4 } from 'uuid';
 import { asyncHandler, asyncAuthHandler } from '../utils/asyncHandler';
+import { validate } from '../middleware/validation';
+import { QueryResult, StructuredCondition, StructuredQuery } from '../../types/query.types';
+import { DataRecord, QuerySort } from '../../types/mcp.types';
+import { InvalidCursorError } from '../../core/mcp/pagination';
+import { LLMProviderError } from '../../rag/query/llm';
+import { ClarificationNotFoundError, UnknownCandidateError } from '../../rag/query/clarification';
+import { isValidTimeZone } from '../../rag/query/temporal';
 
 // Query-specific rate limiting
 const queryRateLimit = rateLimit({
@@ -39,6 +50,8 @@ const querySchema = z.object({
   context: z.object({
     user: z.string().optional(),
     session: z.string().optional(),
+    language: z.string().min(2).max(35).optional(),
+    timeZone: z.string().max(64).refine(isValidTimeZone, 'Unknown IANA time zone').optional(),
     filters: z.record(z.string(), z.any()).optional(),
     preferences: z.object({
       maxResults: z.number().min(1).max(1000).optional(),
@@ -50,10 +63,46 @@ const querySchema = z.object({
   options: z.object({
     explain: z.boolean().optional(),
     cache: z.boolean().optional(),
-    realtime: z.boolean().optional()
+    realtime: z.boolean().optional(),
+    pageSize: z.number().int().min(1).max(1000).optional(),
+    cursor: z.string().min(1).max(4096).optional(),
+    fusion: z.object({
+      method: z.enum(['rrf', 'weighted']).optional(),
+      rrfK: z.number().min(0).optional(),
+      weights: z.object({
+        fulltext: z.number().min(0).optional(),
+        vector: z.number().min(0).optional(),
+        structured: z.number().min(0).optional()
+      }).optional(),
+      retrievers: z.array(z.enum(['fulltext', 'vector', 'structured'])).min(1).optional(),
+      candidates: z.number().int().min(1).max(1000).optional(),
+      limit: z.number().int().min(1).max(1000).optional(),
+      rerankDepth: z.number().int().min(0).max(1000).optional()
+    }).optional(),
+    clarify: z.boolean().optional()
   }).optional()
 });
 
+const clarifySchema = z.object({
+  clarificationId: z.string().uuid('Invalid clarification ID'),
+  candidateId: z.string().min(1, 'Candidate ID is required').max(20),
+  options: z.object({
+    pageSize: z.number().int().min(1).max(1000).optional()
+  }).optional()
+});
+
+const answerSchema = querySchema.extend({
+  answer: z.object({
+    contextTokens: z.number().int().min(1).max(100000).optional(),
+    maxTokens: z.number().int().min(1).max(32000).optional(),
+    temperature: z.number().min(0).max(2).optional()
+  }).optional()
+});
+
+const explainSchema = querySchema.extend({
+  analyze: z.boolean().optional()
+});
+
 const bulkQuerySchema = z.object({
   queries: z.array(z.string().min(1)).min(1).max(10),
   context: z.object({
@@ -66,9 +115,152 @@ const bulkQuerySchema = z.object({
   }).optional()
 });
 
+const fieldPath = z.string().min(1).max(200);
+const timestampValue = z.union([z.string().min(1), z.number()]);
+
+const predicateSchema = z.object({
+  field: fieldPath,
+  op: z.enum([
+    'eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin',
+    'contains', 'startsWith', 'endsWith', 'regex', 'exists', 'between'
+  ]),
+  value: z.any().optional()
+}).refine(
+  predicate => predicate.op === 'exists' || predicate.value !== undefined,
+  { message: 'Value is required for this operator' }
+).refine(
+  predicate => !['in', 'nin'].includes(predicate.op) || Array.isArray(predicate.value),
+  { message: 'Operators "in" and "nin" require an array value' }
+).refine(
+  predicate => predicate.op !== 'between' || (Array.isArray(predicate.value) && predicate.value.length === 2),
+  { message: 'Operator "between" requires a [min, max] array' }
+);
+
+const conditionSchema: z.ZodType<StructuredCondition> = z.lazy(() => z.union([
+  z.object({ and: z.array(conditionSchema).min(1) }),
+  z.object({ or: z.array(conditionSchema).min(1) }),
+  predicateSchema
+]));
+
+const structuredQuerySchema = z.object({
+  from: z.union([z.string().min(1), z.array(z.string().min(1)).min(1).max(10)]),
+  select: z.array(fieldPath).max(100).optional(),
+  where: conditionSchema.optional(),
+  groupBy: z.array(fieldPath).max(10).optional(),
+  aggregate: z.array(z.object({
+    fn: z.enum(['count', 'sum', 'avg', 'min', 'max']),
+    field: fieldPath.optional(),
+    as: z.string().min(1).max(100).optional()
+  }).refine(
+    aggregate => aggregate.fn === 'count' || aggregate.field !== undefined,
+    { message: 'Field is required for this aggregate' }
+  )).max(20).optional(),
+  orderBy: z.array(z.object({
+    field: fieldPath,
+    direction: z.enum(['asc', 'desc']).optional()
+  })).max(10).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  offset: z.number().int().min(0).optional(),
+  timeRange: z.object({
+    from: timestampValue.optional(),
+    to: timestampValue.optional()
+  }).optional()
+});
+
+const listRecordsSchema = z.object({
+  filter: z.string().max(4000).optional(),
+  // Comma-separated fields; a leading '-' sorts descending
+  sort: z.string().max(500).regex(/^-?[\w.]+(,-?[\w.]+)*$/, 'Invalid sort specification').optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  cursor: z.string().min(1).max(4096).optional()
+});
+
+const recordWriteSchema = z.object({
+  data: z.any().refine(data => data !== undefined, { message: 'Data is required' }),
+  type: z.string().min(1).max(100).optional(),
+  ifVersion: z.number().int().min(0).optional(),
+  ttl: z.number().int().positive().optional(),
+  expiresAt: z.union([z.number().int().positive(), z.string().datetime()])
+    .transform(value => typeof value === 'number' ? value : Date.parse(value))
+    .optional()
+});
+
+const similaritySearchSchema = z.object({
+  query: z.string().min(1).max(10000).optional(),
+  vector: z.array(z.number().finite()).min(1).max(4096).optional(),
+  k: z.number().int().min(1).max(1000).default(10),
+  filter: z.record(z.string(), z.any()).optional(),
+  minScore: z.number().optional(),
+  efSearch: z.number().int().min(1).max(10000).optional()
+}).refine(body => (body.query === undefined) !== (body.vector === undefined), {
+  message: 'Provide exactly one of query or vector'
+});
+
+function formatETag(record: DataRecord): string {
+  return `"${record.version ?? 0}"`;
+}
+
+/**
+ * Version named by an If-Match header: '"3"' or 'W/"3"'; '*' only requires the record to exist
+ */
+function parseIfMatch(header: string | undefined): number | '*' | undefined {
+  if (!header) return undefined;
+  if (header.trim() === '*') return '*';
+
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  if (!match) {
+    throw new ValidationError('If-Match must be a single version ETag such as "3"');
+  }
+  return parseInt(match[1], 10);
+}
+
+function parseSort(sort?: string): QuerySort[] {
+  if (!sort) return [];
+  return sort.split(',').map(field => field.startsWith('-')
+    ? { field: field.slice(1), direction: 'desc' as const }
+    : { field, direction: 'asc' as const });
+}
+
+// Transform QueryResult to QueryResponse
+function toQueryResponse(result: QueryResult): QueryResponse {
+  return {
+    id: result.executionId,
+    results: result.data.primary || [],
+    executionPlan: {
+      parsedQuery: {
+        intent: [],
+        entities: {},
+        filters: {}
+      },
+      targetMCPs: result.data.metadata.sources.map(s => s.mcpId),
+      queryStrategy: 'default',
+      estimatedCost: 0
+    },
+    metadata: {
+      totalResults: result.data.metadata.totalRecords,
+      executionTime: result.duration,
+      mcpResponseTimes: result.data.metadata.sources.reduce((acc, s) => ({ ...acc, [s.mcpId]: s.queryTime }), {}),
+      cacheHit: result.caching.cached,
+      aggregationStrategy: result.data.metadata.aggregationApplied || 'default'
+    },
+    nextCursor: result.nextCursor || null,
+    ...(result.language && { language: result.language }),
+    ...(result.clarification && { needsClarification: true, clarification: result.clarification })
+  };
+}
+
 export function createQueryRoutes(rag2Controller: RAG2Controller): Router {
   const router = Router();
 
+  const resolveRecordMCP = async (mcpId: string) => {
+    try {
+      return await rag2Controller.resolveSingleMCP(mcpId);
+    } catch (error) {
+      const message = (error as Error).message;
+      throw message.startsWith('MCP not found') ? new NotFoundError(message) : new ValidationError(message);
+    }
+  };
+
   /**
    * POST /api/query/natural
    * Main endpoint for natural language queries
@@ -88,9 +280,161 @@ export function createQueryRoutes(rag2Controller: RAG2Controller): Router {
       }
 
       const queryRequest = validationResult.data as QueryRequest;
-      const result = await rag2Controller.query(queryRequest.query, queryRequest.context, queryRequest.options);
+      // Ambiguous queries are sent back with candidate readings unless the client opts out
+      const result = await rag2Controller.query(queryRequest.query, queryRequest.context, { clarify: true, ...queryRequest.options });
+      const queryResponse = toQueryResponse(result);
       
-      // Transform QueryResult to QueryResponse
+      return res.json({
+        success: true,
+        data: queryResponse,
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse<QueryResponse>);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid cursor',
+          message: error.message,
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+      }
+      logger.error('Natural query processing failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to process natural language query',
+        details: (error as Error).message,
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    }
+  })
+);
+
+  /**
+   * POST /api/query/clarify
+   * Run the reading picked from a needsClarification response; the parser learns from the choice
+   */
+  router.post('/clarify', queryRateLimit, optionalAuth, validate(clarifySchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const clarifyRequest = req.body as ClarifyRequest;
+
+    let result;
+    try {
+      result = await rag2Controller.resolveClarification(clarifyRequest.clarificationId, clarifyRequest.candidateId, clarifyRequest.options);
+    } catch (error) {
+      if (error instanceof ClarificationNotFoundError) {
+        throw new NotFoundError(error.message);
+      }
+      if (error instanceof UnknownCandidateError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+
+    return res.json({
+      success: true,
+      data: toQueryResponse(result),
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse<QueryResponse>);
+  }));
+
+  /**
+   * POST /api/query/answer
+   * Answer a question in prose from retrieved records, with citations to the records used
+   */
+  router.post('/answer', queryRateLimit, optionalAuth, validate(answerSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    try {
+      const answerRequest = req.body as AnswerRequest;
+      const result = await rag2Controller.answer(answerRequest.query, answerRequest.context, {
+        ...answerRequest.options,
+        answer: answerRequest.answer
+      });
+
+      return res.json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    } catch (error) {
+      if (error instanceof LLMProviderError) {
+        logger.error('Answer generation failed:', error);
+        return res.status(502).json({
+          success: false,
+          error: 'Answer generation failed',
+          message: error.message,
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+      }
+      logger.error('Answer query processing failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Internal server error',
+        message: 'Failed to answer question',
+        details: (error as Error).message,
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    }
+  })
+);
+
+  /**
+   * POST /api/query/explain
+   * Show how a query would run - interpretation, MCPs, phases, indexes, estimated cost and
+   * fallbacks - without running it; `analyze: true` runs it and adds actual timings
+   */
+  router.post('/explain', queryRateLimit, optionalAuth, validate(explainSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const explainRequest = req.body as ExplainRequest;
+
+    let explanation;
+    try {
+      explanation = await rag2Controller.explain(explainRequest.query, explainRequest.context, {
+        analyze: explainRequest.analyze,
+        pageSize: explainRequest.options?.pageSize,
+        fusion: explainRequest.options?.fusion
+      });
+    } catch (error) {
+      // Nothing ran, so a failure here is the query's: it could not be interpreted or planned
+      throw new ValidationError(`Query could not be explained: ${(error as Error).message}`);
+    }
+
+    return res.json({
+      success: true,
+      data: explanation,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/query/structured
+   * JSON query DSL, executed through the same planner and aggregator as natural language queries
+   */
+  router.post('/structured', queryRateLimit, optionalAuth, validate(structuredQuerySchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    try {
+      const structuredQuery = req.body as StructuredQuery;
+      const result = await rag2Controller.queryStructured(structuredQuery);
+
+      if (!result.success && result.data.metadata.sources.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'Structured query failed',
+          message: result.errors?.[0]?.error || 'No MCP could answer the query',
+          details: result.errors,
+          timestamp: new Date().toISOString(),
+          requestId
+        } as ApiResponse);
+      }
+
       const queryResponse: QueryResponse = {
         id: result.executionId,
         results: result.data.primary || [],
@@ -98,10 +442,10 @@ export function createQueryRoutes(rag2Controller: RAG2Controller): Router {
           parsedQuery: {
             intent: [],
             entities: {},
-            filters: {}
+            filters: structuredQuery.where ? { where: structuredQuery.where } : {}
           },
           targetMCPs: result.data.metadata.sources.map(s => s.mcpId),
-          queryStrategy: 'default',
+          queryStrategy: 'structured',
           estimatedCost: 0
         },
         metadata: {
@@ -109,10 +453,10 @@ export function createQueryRoutes(rag2Controller: RAG2Controller): Router {
           executionTime: result.duration,
           mcpResponseTimes: result.data.metadata.sources.reduce((acc, s) => ({ ...acc, [s.mcpId]: s.queryTime }), {}),
           cacheHit: result.caching.cached,
-          aggregationStrategy: result.data.metadata.aggregationApplied || 'default'
+          aggregationStrategy: result.data.metadata.aggregationApplied || 'merge'
         }
       };
-      
+
       return res.json({
         success: true,
         data: queryResponse,
@@ -120,11 +464,11 @@ export function createQueryRoutes(rag2Controller: RAG2Controller): Router {
         requestId
       } as ApiResponse<QueryResponse>);
     } catch (error) {
-      logger.error('Natural query processing failed:', error);
+      logger.error('Structured query processing failed:', error);
       return res.status(500).json({
         success: false,
         error: 'Internal server error',
-        message: 'Failed to process natural language query',
+        message: 'Failed to process structured query',
         details: (error as Error).message,
         timestamp: new Date().toISOString(),
         requestId
@@ -133,6 +477,183 @@ export function createQueryRoutes(rag2Controller: RAG2Controller): Router {
   })
 );
 
+  /**
+   * GET /api/query/records/:mcpId
+   * Cursor-paged record listing for one MCP with server-side sort, e.g.
+   * ?filter={"level":"error"}&sort=-timestamp&limit=100&cursor=...
+   */
+  router.get('/records/:mcpId', queryRateLimit, optionalAuth, asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const validationResult = listRecordsSchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid list parameters',
+        details: validationResult.error.format(),
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    }
+
+    const { filter, sort, limit, cursor } = validationResult.data;
+    let filters: Record<string, any> = {};
+    try {
+      filters = filter ? JSON.parse(filter) : {};
+      if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+        throw new Error('Filter must be a JSON object');
+      }
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid filter',
+        message: (error as Error).message,
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    }
+
+    try {
+      const page = await rag2Controller.listRecords(req.params.mcpId, filters, {
+        sort: parseSort(sort),
+        limit,
+        cursor
+      });
+
+      return res.json({
+        success: true,
+        data: { records: page.records, nextCursor: page.nextCursor },
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    } catch (error) {
+      const message = (error as Error).message;
+      // Cursor, filter syntax and ambiguous MCP references are caller errors
+      const status = message.startsWith('MCP not found')
+        ? 404
+        : error instanceof InvalidCursorError || /filter|operator|matches \d+ MCPs/.test(message) ? 400 : 500;
+      return res.status(status).json({
+        success: false,
+        error: status === 404 ? 'MCP not found' : status === 400 ? 'Invalid list request' : 'Failed to list records',
+        message,
+        timestamp: new Date().toISOString(),
+        requestId
+      } as ApiResponse);
+    }
+  })
+);
+
+  /**
+   * POST /api/query/records/:mcpId/similar
+   * k-nearest-neighbour search by text or embedding over an MCP with a vector index
+   */
+  router.post('/records/:mcpId/similar', queryRateLimit, optionalAuth, validate(similaritySearchSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const mcp = await resolveRecordMCP(req.params.mcpId);
+    if (!mcp.getConfiguration().vectorIndex) {
+      throw new ValidationError(`MCP ${req.params.mcpId} has no vector index`);
+    }
+
+    const { query, vector, k, filter, minScore, efSearch } = req.body as z.infer<typeof similaritySearchSchema>;
+    let matches;
+    try {
+      matches = await mcp.similaritySearch((query ?? vector)!, { k, filter, minScore, efSearch });
+    } catch (error) {
+      // Dimension mismatches and malformed filters are rejected before the search runs
+      throw new ValidationError((error as Error).message);
+    }
+
+    return res.json({
+      success: true,
+      data: { matches },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  })
+);
+
+  /**
+   * GET /api/query/records/:mcpId/:id
+   * Fetch one record; the ETag header carries its version for conditional writes
+   */
+  router.get('/records/:mcpId/:id', optionalAuth, asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const mcp = await resolveRecordMCP(req.params.mcpId);
+    const record = await mcp.retrieve(req.params.id);
+    if (!record) {
+      throw new NotFoundError(`Record ${req.params.id} not found in ${req.params.mcpId}`);
+    }
+
+    res.set('ETag', formatETag(record));
+    return res.json({
+      success: true,
+      data: record,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse<DataRecord>);
+  })
+);
+
+  /**
+   * PUT /api/query/records/:mcpId/:id
+   * Create or replace a record's data. If-Match (or body.ifVersion) makes the write
+   * conditional; a stale version fails with 409 Conflict.
+   */
+  router.put('/records/:mcpId/:id', requirePermission(['ingest:write']), validate(recordWriteSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const mcp = await resolveRecordMCP(req.params.mcpId);
+
+    const ifMatch = parseIfMatch(req.header('If-Match'));
+    const existing = await mcp.retrieve(req.params.id);
+    if (ifMatch === '*' && !existing) {
+      throw new NotFoundError(`Record ${req.params.id} not found in ${req.params.mcpId}`);
+    }
+
+    const { data, type, ifVersion, ttl, expiresAt } = req.body as z.infer<typeof recordWriteSchema>;
+    const record: DataRecord = {
+      id: req.params.id,
+      domain: existing?.domain || mcp.metadata.domain,
+      type: type || existing?.type || 'record',
+      timestamp: existing?.timestamp || Date.now(),
+      ttl,
+      expiresAt,
+      data,
+      metadata: { ...existing?.metadata, source: 'api', updatedAt: Date.now() }
+    };
+
+    // A wildcard still pins the version that was read, so a replacement in between is a conflict
+    const expectedVersion = ifMatch === '*' ? existing?.version : typeof ifMatch === 'number' ? ifMatch : ifVersion;
+    const stored = await mcp.update(record, { ifVersion: expectedVersion });
+    if (!stored) {
+      throw new Error(`Failed to store record ${req.params.id}`);
+    }
+
+    res.set('ETag', formatETag(record));
+    return res.status(existing ? 200 : 201).json({
+      success: true,
+      data: record,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse<DataRecord>);
+  })
+);
+
+  /**
+   * GET /api/query/records/:mcpId/:id/history
+   * Superseded versions of a record, newest first, within the MCP's versionRetention
+   */
+  router.get('/records/:mcpId/:id/history', optionalAuth, asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const mcp = await resolveRecordMCP(req.params.mcpId);
+
+    return res.json({
+      success: true,
+      data: await mcp.getHistory(req.params.id),
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse<DataRecord[]>);
+  })
+);
+
   /**
    * POST /api/query/test
    * Test endpoint for query interpretation without execution
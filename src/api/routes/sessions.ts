@@ -0,0 +1,145 @@
+/**
+ * RAG₂ Query Session Routes
+ * REST endpoints for multi-turn conversational querying
+ */
+
+import { Router, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { z } from 'zod';
+import { ApiResponse, AuthenticatedRequest } from '../../types/api.types';
+import { optionalAuth } from '../middleware/auth';
+import { NotFoundError } from '../middleware/errorHandler';
+import { config } from '../../api/config/config';
+import { QuerySessionManager, SessionNotFoundError } from '../../rag/query/sessions';
+import { v4 as uuidv4 } from 'uuid';
+import { asyncAuthHandler } from '../utils/asyncHandler';
+import { validate } from '../middleware/validation';
+
+const sessionRateLimit = rateLimit({
+  windowMs: config.rateLimit.query.windowMs,
+  max: config.rateLimit.query.max,
+  message: {
+    success: false,
+    error: 'Too many query requests, please try again later.',
+    code: 'QUERY_RATE_LIMIT_EXCEEDED'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const createSessionSchema = z.object({
+  ttlMs: z.number().int().min(1000).max(7 * 24 * 60 * 60 * 1000).optional(),
+  metadata: z.record(z.string(), z.any()).optional()
+});
+
+const sessionQuerySchema = z.object({
+  query: z.string().min(1, 'Query is required').max(1000, 'Query too long'),
+  options: z.object({
+    pageSize: z.number().int().min(1).max(1000).optional(),
+    maxResults: z.number().int().min(1).max(1000).optional()
+  }).optional()
+});
+
+export function createSessionRoutes(sessions: QuerySessionManager): Router {
+  const router = Router();
+
+  // Sessions of other users answer as missing, so their IDs cannot be probed
+  const withSession = async <T>(work: () => T | Promise<T>): Promise<T> => {
+    try {
+      return await work();
+    } catch (error) {
+      if (error instanceof SessionNotFoundError) {
+        throw new NotFoundError(error.message);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * POST /api/query/sessions
+   * Start a conversational session; queries in it can refer back to earlier ones
+   */
+  router.post('/', optionalAuth, validate(createSessionSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { ttlMs, metadata } = req.body as z.infer<typeof createSessionSchema>;
+    const session = await sessions.createSession({ userId: req.user?.id, ttlMs, metadata });
+
+    return res.status(201).json({
+      success: true,
+      data: session,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/query/sessions
+   * The caller's live sessions, most recently used first
+   */
+  router.get('/', optionalAuth, asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+
+    return res.json({
+      success: true,
+      data: { sessions: sessions.listSessions(req.user?.id) },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/query/sessions/:id
+   * A session with its turns
+   */
+  router.get('/:id', optionalAuth, asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const session = await withSession(() => sessions.getSession(req.params.id, req.user?.id));
+
+    return res.json({
+      success: true,
+      data: session,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * DELETE /api/query/sessions/:id
+   * End a session and discard its turns
+   */
+  router.delete('/:id', optionalAuth, asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    await withSession(() => sessions.deleteSession(req.params.id, req.user?.id));
+
+    return res.json({
+      success: true,
+      data: { sessionId: req.params.id, deleted: true },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/query/sessions/:id/query
+   * Ask the next question; follow-ups such as "now only the admins" refine the previous turn
+   */
+  router.post('/:id/query', sessionRateLimit, optionalAuth, validate(sessionQuerySchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { query, options } = req.body as z.infer<typeof sessionQuerySchema>;
+    const { session, turn, result } = await withSession(() => sessions.query(req.params.id, query, options, req.user?.id));
+
+    return res.json({
+      success: true,
+      data: {
+        session,
+        turn,
+        results: result.data.primary,
+        nextCursor: result.nextCursor || null
+      },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  return router;
+}
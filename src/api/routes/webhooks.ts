@@ -0,0 +1,209 @@
+/**
+ * Webhook Routes
+ * Admin endpoints for webhook subscriptions, their delivery log and dead letters
+ */
+
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { ApiResponse, AuthenticatedRequest } from '../../types/api.types';
+import { requireAdmin } from '../middleware/auth';
+import { NotFoundError, OperationalError, ValidationError } from '../middleware/errorHandler';
+import { WebhookSubscription } from '../../core/storage/webhook_store';
+import { InvalidWebhookError, WebhookDisabledError, WebhookDispatcher, WebhookNotFoundError } from '../../monitoring/WebhookDispatcher';
+import { v4 as uuidv4 } from 'uuid';
+import { asyncAuthHandler } from '../utils/asyncHandler';
+import { validate } from '../middleware/validation';
+
+const subscriptionSchema = z.object({
+  url: z.string().url().max(2000),
+  events: z.array(z.string().min(1).max(100)).min(1).max(50),
+  secret: z.string().min(16).max(256).optional(),
+  enabled: z.boolean().optional(),
+  description: z.string().max(500).optional()
+});
+
+const updateSubscriptionSchema = subscriptionSchema.partial();
+
+const listSchema = z.object({
+  subscriptionId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+// The secret is shown once, when the subscription is created
+const withoutSecret = ({ secret: _secret, ...subscription }: WebhookSubscription) => subscription;
+
+export function createWebhookRoutes(webhooks: WebhookDispatcher): Router {
+  const router = Router();
+
+  router.use(requireAdmin as any);
+
+  const withWebhook = async <T>(work: () => T | Promise<T>): Promise<T> => {
+    try {
+      return await work();
+    } catch (error) {
+      if (error instanceof WebhookNotFoundError) {
+        throw new NotFoundError(error.message);
+      }
+      if (error instanceof InvalidWebhookError) {
+        throw new ValidationError(error.message);
+      }
+      if (error instanceof WebhookDisabledError) {
+        throw new OperationalError(error.message, 409, 'WEBHOOK_DISABLED');
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * GET /api/v1/admin/webhooks
+   * Every subscription, without secrets
+   */
+  router.get('/', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    return res.json({
+      success: true,
+      data: { subscriptions: webhooks.listSubscriptions().map(withoutSecret) },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/v1/admin/webhooks
+   * Subscribe a URL to event types; the response carries the signing secret
+   */
+  router.post('/', validate(subscriptionSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const input = req.body as z.infer<typeof subscriptionSchema>;
+    const subscription = await withWebhook(() => webhooks.createSubscription(input));
+    return res.status(201).json({
+      success: true,
+      data: subscription,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/v1/admin/webhooks/deliveries?subscriptionId=&limit=
+   * Delivery attempts, newest first
+   */
+  router.get('/deliveries', validate(listSchema, 'query'), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { subscriptionId, limit } = req.query as unknown as z.infer<typeof listSchema>;
+    return res.json({
+      success: true,
+      data: { deliveries: webhooks.deliveries({ subscriptionId, limit }) },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/v1/admin/webhooks/dead-letters?subscriptionId=
+   * Deliveries that used up their retries
+   */
+  router.get('/dead-letters', validate(listSchema, 'query'), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const { subscriptionId, limit } = req.query as unknown as z.infer<typeof listSchema>;
+    return res.json({
+      success: true,
+      data: { deadLetters: webhooks.listDeadLetters(subscriptionId).slice(0, limit) },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/v1/admin/webhooks/dead-letters/:id/redeliver
+   * Deliver a dead letter again, starting over with its retries; 409 while the subscription is disabled
+   */
+  router.post('/dead-letters/:id/redeliver', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const delivery = await withWebhook(() => webhooks.redeliver(req.params.id));
+    return res.json({
+      success: true,
+      data: delivery,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * DELETE /api/v1/admin/webhooks/dead-letters/:id
+   * Drop a dead letter without delivering it
+   */
+  router.delete('/dead-letters/:id', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    await withWebhook(() => webhooks.discardDeadLetter(req.params.id));
+    return res.json({
+      success: true,
+      data: { deadLetterId: req.params.id, deleted: true },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * GET /api/v1/admin/webhooks/:id
+   * One subscription, without its secret
+   */
+  router.get('/:id', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const subscription = await withWebhook(() => webhooks.getSubscription(req.params.id));
+    return res.json({
+      success: true,
+      data: withoutSecret(subscription),
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * PATCH /api/v1/admin/webhooks/:id
+   * Change the URL, event types, secret, description or enabled state
+   */
+  router.patch('/:id', validate(updateSubscriptionSchema), asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const changes = req.body as z.infer<typeof updateSubscriptionSchema>;
+    const subscription = await withWebhook(() => webhooks.updateSubscription(req.params.id, changes));
+    return res.json({
+      success: true,
+      data: withoutSecret(subscription),
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * DELETE /api/v1/admin/webhooks/:id
+   * Remove a subscription and its dead letters
+   */
+  router.delete('/:id', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    await withWebhook(() => webhooks.deleteSubscription(req.params.id));
+    return res.json({
+      success: true,
+      data: { subscriptionId: req.params.id, deleted: true },
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  /**
+   * POST /api/v1/admin/webhooks/:id/test
+   * Send a webhook.test event now and report how the receiver answered
+   */
+  router.post('/:id/test', asyncAuthHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const requestId = req.headers['x-request-id'] as string || uuidv4();
+    const delivery = await withWebhook(() => webhooks.sendTest(req.params.id));
+    return res.json({
+      success: true,
+      data: delivery,
+      timestamp: new Date().toISOString(),
+      requestId
+    } as ApiResponse);
+  }));
+
+  return router;
+}
@@ -22,6 +22,10 @@ import { healthCheck } from './middleware/healthCheck';
 // Route imports  
 import { createIngestionRoutes } from './routes/ingestion';
 import { createQueryRoutes } from './routes/query';
+import { createSessionRoutes } from './routes/sessions';
+import { createChangeRoutes } from './routes/changes';
+import { createWebhookRoutes } from './routes/webhooks';
+import { createDeadLetterRoutes } from './routes/deadLetters';
 import { createAdminRoutes } from './routes/admin';
 import authRoutes from './routes/auth';
 import healthRoutes from './routes/health';
@@ -30,6 +34,20 @@ import healthRoutes from './routes/health';
 import { MCPRegistry } from '../mcp/registry/MCPRegistry';
 import { RAG1Controller } from '../rag/ingest/rag1';
 import { RAG2Controller } from '../rag/query/rag2';
+import { createLLMProvider } from '../rag/query/llm';
+import { QuerySessionManager } from '../rag/query/sessions';
+import { LiveQueryManager } from '../rag/query/live';
+import { ChangeFeed } from '../mcp/cdc/ChangeFeed';
+import { NdjsonFileSink } from '../mcp/cdc/NdjsonFileSink';
+import { FileChangeLog, MemoryChangeLog } from '../core/storage/change_log';
+import { FileWebhookStore } from '../core/storage/webhook_store';
+import { WebhookDispatcher } from '../monitoring/WebhookDispatcher';
+import { MCPOrchestrator } from '../mcp/MCPOrchestrator';
+import { MCPMigrationEngine } from '../mcp/migration/MCPMigrationEngine';
+import { FileMigrationCheckpointStore } from '../mcp/migration/MigrationCheckpointStore';
+import { TierClassifier } from '../mcp/classification/TierClassifier';
+import { metricsCollector } from '../monitoring/MetricsCollector';
+import { FileSessionStore } from '../core/storage/session_store';
 import { UserMCP } from '../core/specialized/user_mcp';
 import { ChatMCP } from '../core/specialized/chat_mcp';
 import { StatsMCP } from '../core/specialized/stats_mcp';
@@ -53,6 +71,12 @@ class ApiServer {
     private mcpRegistry: MCPRegistry;
     private rag1Controller: RAG1Controller;
     private rag2Controller: RAG2Controller;
+    private querySessions: QuerySessionManager;
+    private liveQueries: LiveQueryManager;
+    private changeFeed: ChangeFeed;
+    private webhooks: WebhookDispatcher;
+    private migrationEngine: MCPMigrationEngine;
+    private orchestrator: MCPOrchestrator;
     private isInitialized = false;
 
     constructor() {
@@ -69,9 +93,53 @@ class ApiServer {
             pingTimeout: config.websocket.pingTimeout,
             pingInterval: config.websocket.pingInterval
         });
-        this.mcpRegistry = new MCPRegistry();
-        this.rag1Controller = new RAG1Controller(this.mcpRegistry);
-        this.rag2Controller = new RAG2Controller(this.mcpRegistry);
+        this.mcpRegistry = new MCPRegistry({
+            storage: config.mcpStorage.storageDir ? { engine: 'file', dataDir: config.mcpStorage.storageDir } : undefined
+        });
+        this.rag1Controller = new RAG1Controller(this.mcpRegistry, {
+            deadLetterDir: config.ingestionDeadLetters.storageDir,
+            transactionLogDir: config.transactions.logDir,
+            retryPolicy: {
+                maxRetries: config.ingestionDeadLetters.maxRetries,
+                initialBackoffMs: config.ingestionDeadLetters.initialBackoffMs,
+                maxBackoffMs: config.ingestionDeadLetters.maxBackoffMs,
+                retryStages: config.ingestionDeadLetters.retryStages
+            }
+        });
+        this.rag2Controller = new RAG2Controller(this.mcpRegistry, {
+            nlp: {
+                confidence_threshold: config.clarification.confidenceThreshold,
+                clarification_ttl: config.clarification.ttlMs,
+                entity_extraction_model: 'built-in',
+                intent_recognition_model: 'built-in',
+                language_models: ['en']
+            }
+        });
+        this.rag2Controller.setLLMProvider(createLLMProvider(config.llm));
+        this.querySessions = new QuerySessionManager(this.rag2Controller, {
+            ttlMs: config.querySessions.ttlMs,
+            store: config.querySessions.storageDir ? new FileSessionStore(config.querySessions.storageDir) : undefined
+        });
+        this.liveQueries = new LiveQueryManager(this.rag2Controller, this.mcpRegistry, config.liveQueries);
+        this.changeFeed = new ChangeFeed(this.mcpRegistry, config.changes.storageDir
+            ? new FileChangeLog(config.changes.storageDir, config.changes.maxEvents)
+            : new MemoryChangeLog(config.changes.maxEvents));
+        this.webhooks = new WebhookDispatcher({
+            maxAttempts: config.webhooks.maxAttempts,
+            initialBackoffMs: config.webhooks.initialBackoffMs,
+            timeoutMs: config.webhooks.timeoutMs,
+            store: config.webhooks.storageDir ? new FileWebhookStore(config.webhooks.storageDir) : undefined
+        });
+        this.migrationEngine = new MCPMigrationEngine(
+            this.mcpRegistry,
+            new TierClassifier(),
+            config.migrations.maxConcurrent,
+            config.migrations.checkpointDir ? new FileMigrationCheckpointStore(config.migrations.checkpointDir) : undefined
+        );
+        this.orchestrator = new MCPOrchestrator({
+            autoClassification: { enabled: config.migrations.automatic, interval: 3600000, minConfidence: 0.7, minBenefit: 0.3 },
+            autoMigration: { enabled: config.migrations.automatic, maxConcurrent: config.migrations.maxConcurrent, scheduleOptimization: true }
+        }, { registry: this.mcpRegistry, migrationEngine: this.migrationEngine });
         this.initializeMiddleware();
         this.initializeSwagger();
         this.initializeErrorHandling();
@@ -215,7 +283,11 @@ class ApiServer {
         // Protected API routes with dependency injection
         if (this.rag1Controller && this.rag2Controller) {
             this.app.use(`${apiV1}/ingest`, authMiddleware, createIngestionRoutes(this.rag1Controller));
+            this.app.use(`${apiV1}/query/sessions`, authMiddleware, createSessionRoutes(this.querySessions));
+            this.app.use(`${apiV1}/changes`, authMiddleware, createChangeRoutes(this.changeFeed));
             this.app.use(`${apiV1}/query`, authMiddleware, createQueryRoutes(this.rag2Controller));
+            this.app.use(`${apiV1}/admin/webhooks`, authMiddleware, createWebhookRoutes(this.webhooks));
+            this.app.use(`${apiV1}/admin/ingestion/dead-letters`, authMiddleware, createDeadLetterRoutes(this.rag1Controller));
             this.app.use(`${apiV1}/admin`, authMiddleware, createAdminRoutes(this.mcpRegistry, this.rag1Controller, this.rag2Controller));
         } else {
             // Fallback routes if controllers not initialized
@@ -253,7 +325,7 @@ class ApiServer {
 
     private createHttpServer(): void {
         // Setup WebSocket handlers
-        setupWebSocket(this.io);
+        setupWebSocket(this.io, { sessions: this.querySessions, liveQueries: this.liveQueries, changes: this.changeFeed });
     }
 
     /**
@@ -270,6 +342,19 @@ class ApiServer {
             
             // Step 1: Initialize MCP Registry
             logger.info('📋 Initializing MCP Registry...');
+            // Capture changes from the start, initial MCPs included
+            await this.changeFeed.initialize();
+            if (config.changes.ndjsonFile) {
+                await this.changeFeed.addSink(new NdjsonFileSink(config.changes.ndjsonFile));
+            }
+            await this.webhooks.initialize();
+            this.webhooks.connect({
+                ingestion: this.rag1Controller,
+                migrations: this.migrationEngine,
+                orchestrator: this.orchestrator,
+                changes: this.changeFeed,
+                metrics: metricsCollector
+            });
 
             // Step 2: Register MCP factories for specialized MCPs
             logger.info('🏭 Registering specialized MCP factories...');
@@ -279,12 +364,21 @@ class ApiServer {
             logger.info('🗂️ Creating initial specialized MCPs...');
             await this.createInitialMCPs();
 
+            // Raises alerts about migrations and MCP health over the same registry
+            await this.orchestrator.initialize();
+
             // Step 4: Initialize RAG₁ Controller
             logger.info('🧠 Initializing RAG₁ Intelligent Ingestion Controller...');
             await this.rag1Controller.initialize();
 
             // Step 5: Initialize RAG₂ Controller  
             logger.info('🔍 Initializing RAG₂ Natural Language Query Controller...');
+            if (config.languages.packDir) {
+                const languages = await this.rag2Controller.loadLanguagePacks(config.languages.packDir);
+                logger.info(`🌐 Loaded query language packs: ${languages.join(', ')}`);
+            }
+            await this.querySessions.initialize();
+            this.liveQueries.initialize();
 
             // Step 6: Initialize routes with controllers
             logger.info('🛣️ Initializing API routes with RAG controllers...');
@@ -304,7 +398,7 @@ class ApiServer {
      */
     private registerMCPFactories(): void {
         // Register UserMCP factory
-        this.mcpRegistry.registerMCPFactory(MCPType.USER, (metadata: any, config: any) => {
+        this.mcpRegistry.registerMCPFactory(MCPType.USER, (metadata: any, _type: MCPType, config: any) => {
             // UserMCP expects hot/cold type from mcp.types
             const mcpConfig = config as MCPConfiguration;
             const temperatureType = metadata.tier === 'hot' ? MCPType.HOT : MCPType.COLD;
@@ -313,7 +407,7 @@ class ApiServer {
         });
 
         // Register ChatMCP factory
-        this.mcpRegistry.registerMCPFactory(MCPType.CHAT, (metadata: any, config: any) => {
+        this.mcpRegistry.registerMCPFactory(MCPType.CHAT, (metadata: any, _type: MCPType, config: any) => {
             // ChatMCP expects hot/cold type from mcp.types
             const mcpConfig = config as MCPConfiguration;
             const temperatureType = metadata.tier === 'hot' ? MCPType.HOT : MCPType.COLD;
@@ -322,7 +416,7 @@ class ApiServer {
         });
 
         // Register StatsMCP factory
-        this.mcpRegistry.registerMCPFactory(MCPType.STATS, (metadata: any, config: any) => {
+        this.mcpRegistry.registerMCPFactory(MCPType.STATS, (metadata: any, _type: MCPType, config: any) => {
             // StatsMCP expects hot/cold type from mcp.types
             const mcpConfig = config as MCPConfiguration;
             const temperatureType = metadata.tier === 'warm' ? MCPType.COLD : MCPType.HOT;
@@ -331,7 +425,7 @@ class ApiServer {
         });
 
         // Register LogsMCP factory
-        this.mcpRegistry.registerMCPFactory(MCPType.LOGS, (metadata: any, config: any) => {
+        this.mcpRegistry.registerMCPFactory(MCPType.LOGS, (metadata: any, _type: MCPType, config: any) => {
             // ChatMCP expects hot/cold type from mcp.types
             const mcpConfig = config as MCPConfiguration;
             const temperatureType = metadata.tier === 'cold' ? MCPType.COLD : MCPType.HOT;
@@ -601,6 +695,30 @@ class ApiServer {
                     await this.rag1Controller.shutdown();
                 }
 
+                if (this.querySessions) {
+                    await this.querySessions.shutdown();
+                }
+
+                if (this.liveQueries) {
+                    await this.liveQueries.shutdown();
+                }
+
+                if (this.changeFeed) {
+                    await this.changeFeed.shutdown();
+                }
+
+                if (this.orchestrator) {
+                    await this.orchestrator.shutdown();
+                }
+
+                if (this.migrationEngine) {
+                    await this.migrationEngine.shutdown();
+                }
+
+                if (this.webhooks) {
+                    await this.webhooks.shutdown();
+                }
+
                 if (this.mcpRegistry) {
                     logger.info('🔄 Shutting down MCP Registry...');
                     await this.mcpRegistry.shutdown();
@@ -638,6 +756,22 @@ class ApiServer {
                 await this.rag1Controller.shutdown();
             }
 
+            if (this.querySessions) {
+                await this.querySessions.shutdown();
+            }
+
+            if (this.liveQueries) {
+                await this.liveQueries.shutdown();
+            }
+
+            if (this.changeFeed) {
+                await this.changeFeed.shutdown();
+            }
+
+            if (this.webhooks) {
+                await this.webhooks.shutdown();
+            }
+
             if (this.mcpRegistry) {
                 logger.info('🔄 Shutting down MCP Registry...');
                 await this.mcpRegistry.shutdown();
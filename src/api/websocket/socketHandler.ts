@@ -7,13 +7,18 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import { validateToken } from '../middleware/auth';
 import { WebSocketMessage, RealtimeQuerySubscription, User } from '../../types/api.types';
 import { logger } from '../../utils/logger';
-import { v4 as uuidv4 } from 'uuid';
+import { QuerySessionManager } from '../../rag/query/sessions';
+import { LiveQueryManager, LiveQueryUpdate } from '../../rag/query/live';
+import { ChangeFeed } from '../../mcp/cdc/ChangeFeed';
+import { ChangeEvent } from '../../core/storage/change_log';
 
 // Store active connections and subscriptions
 const activeConnections = new Map<string, {
   socket: Socket;
   user: User | undefined;
   subscriptions: Set<string>;
+  conversationId?: string;
+  stopChanges?: () => Promise<void>;
   joinedAt: Date;
   lastActivity: Date;
 }>();
@@ -29,6 +34,12 @@ const rateLimits = new Map<string, {
 const MAX_MESSAGES_PER_MINUTE = 60;
 const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
 
+// A live query update not acknowledged in time is sent again with later changes
+const QUERY_UPDATE_ACK_TIMEOUT = 30 * 1000;
+
+// A batch of changes not acknowledged in time is delivered again
+const CHANGES_ACK_TIMEOUT = 30 * 1000;
+
 /**
  * Check rate limit for a socket
  */
@@ -96,18 +107,33 @@ async function authenticateSocket(socket: Socket, token?: string): Promise<User
 }
 
 /**
- * Handle query subscription
+ * Handle query subscription: a live query whose initial result is sent back, followed by
+ * query_update events as matching records change. A resumeToken from the last update
+ * applied picks up a subscription dropped by a reconnect.
  */
-function handleQuerySubscription(socket: Socket, data: any): void {
+async function handleQuerySubscription(socket: Socket, data: any = {}): Promise<void> {
   const connection = activeConnections.get(socket.id);
   if (!connection) return;
 
   try {
+    if (!liveQueries) {
+      throw new Error('Live queries are not available');
+    }
+    const query = data.structured ?? data.query;
+    if (!query || (typeof query === 'string' && query.trim() === '')) {
+      throw new Error('Query is required');
+    }
+
+    const live = await liveQueries.subscribe({
+      query,
+      context: data.context,
+      userId: connection.user?.id,
+      resumeToken: data.resumeToken
+    }, (update: LiveQueryUpdate) => broadcastQueryUpdate(update.subscriptionId, update));
+
     const subscription: RealtimeQuerySubscription = {
-      id: uuidv4(),
-      query: data.query,
-      filters: data.filters,
-      updateInterval: data.updateInterval || 5000, // 5 seconds default
+      id: live.subscriptionId,
+      query: typeof query === 'string' ? query : JSON.stringify(query),
       clientId: socket.id
     };
 
@@ -122,8 +148,10 @@ function handleQuerySubscription(socket: Socket, data: any): void {
       type: 'query',
       payload: {
         subscriptionId: subscription.id,
-        status: 'subscribed',
-        message: 'Query subscription created successfully'
+        status: live.resumed ? 'resumed' : 'subscribed',
+        ...(live.records && { results: live.records }),
+        seq: live.seq,
+        resumeToken: live.resumeToken
       },
       requestId: data.requestId,
       timestamp: new Date().toISOString()
@@ -133,12 +161,10 @@ function handleQuerySubscription(socket: Socket, data: any): void {
       socketId: socket.id,
       subscriptionId: subscription.id,
       query: subscription.query,
+      resumed: live.resumed,
       userId: connection.user?.id
     });
 
-    // TODO: Implement actual query execution and result streaming
-    // This would integrate with your RAG₂ system for real-time queries
-
   } catch (error) {
     sendMessage(socket, {
       type: 'error',
@@ -164,6 +190,11 @@ function handleUnsubscribe(socket: Socket, data: any): void {
     // Remove subscription
     activeSubscriptions.delete(subscriptionId);
     connection.subscriptions.delete(subscriptionId);
+    try {
+      liveQueries?.unsubscribe(subscriptionId, connection.user?.id);
+    } catch {
+      // Already dropped
+    }
 
     // Leave subscription room
     socket.leave(`subscription:${subscriptionId}`);
@@ -187,6 +218,84 @@ function handleUnsubscribe(socket: Socket, data: any): void {
   }
 }
 
+/**
+ * Stream the change feed to an admin socket as 'changes' events, each acknowledged before the
+ * next is sent. Starts after `since`, or from the group's committed offset, or from now; with a
+ * group, acknowledged batches commit its offset.
+ */
+async function handleSubscribeChanges(socket: Socket, data: any = {}): Promise<void> {
+  const connection = activeConnections.get(socket.id);
+  if (!connection) return;
+
+  try {
+    if (!changeFeed) {
+      throw new Error('The change feed is not available');
+    }
+    if (connection.user?.role !== 'admin') {
+      throw new Error('Admin access required for the change feed');
+    }
+    const group = typeof data.group === 'string' && data.group.length > 0 ? data.group : undefined;
+    const since = Number.isInteger(data.since)
+      ? data.since as number
+      : group ? await changeFeed.startOf(group) : changeFeed.lastSequence();
+    // Fails here rather than in the stream when `since` is no longer retained
+    await changeFeed.read(since, 0);
+
+    const feed = changeFeed;
+    await connection.stopChanges?.();
+    connection.stopChanges = feed.follow(since, async (changes: ChangeEvent[]) => {
+      await socket.timeout(CHANGES_ACK_TIMEOUT).emitWithAck('changes', {
+        changes,
+        timestamp: new Date().toISOString()
+      });
+    }, { group });
+
+    sendMessage(socket, {
+      type: 'changes',
+      payload: { status: 'subscribed', since, group: group || null },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+
+    logger.info('Change feed subscription created', {
+      socketId: socket.id,
+      since,
+      group,
+      userId: connection.user?.id
+    });
+
+  } catch (error) {
+    sendMessage(socket, {
+      type: 'error',
+      payload: {
+        error: 'Failed to subscribe to changes',
+        message: (error as Error).message
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Stop streaming the change feed
+ */
+async function handleUnsubscribeChanges(socket: Socket, data: any = {}): Promise<void> {
+  const connection = activeConnections.get(socket.id);
+  if (!connection?.stopChanges) return;
+
+  const stop = connection.stopChanges;
+  connection.stopChanges = undefined;
+  await stop();
+
+  sendMessage(socket, {
+    type: 'changes',
+    payload: { status: 'unsubscribed' },
+    requestId: data.requestId,
+    timestamp: new Date().toISOString()
+  });
+}
+
 /**
  * Handle ingestion status updates
  */
@@ -211,6 +320,132 @@ function handleIngestionStatus(socket: Socket, data: any): void {
   });
 }
 
+/**
+ * Start a conversation, or resume one by sessionId
+ */
+async function handleStartConversation(socket: Socket, data: any = {}): Promise<void> {
+  const connection = activeConnections.get(socket.id);
+  if (!connection) return;
+
+  try {
+    if (!querySessions) {
+      throw new Error('Conversational sessions are not available');
+    }
+
+    const session = data.sessionId
+      ? querySessions.getSession(data.sessionId, connection.user?.id)
+      : await querySessions.createSession({ userId: connection.user?.id, ttlMs: data.ttlMs });
+    connection.conversationId = session.id;
+
+    sendMessage(socket, {
+      type: 'conversation',
+      payload: {
+        status: data.sessionId ? 'resumed' : 'started',
+        sessionId: session.id,
+        turns: session.turns,
+        expiresAt: session.expiresAt
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendMessage(socket, {
+      type: 'error',
+      payload: {
+        error: 'Failed to start conversation',
+        message: (error as Error).message
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Ask the next question in the socket's conversation
+ */
+async function handleConversationQuery(socket: Socket, data: any = {}): Promise<void> {
+  const connection = activeConnections.get(socket.id);
+  if (!connection) return;
+
+  try {
+    if (!querySessions || !connection.conversationId) {
+      throw new Error('No conversation started; send start_conversation first');
+    }
+    if (typeof data.query !== 'string' || data.query.trim() === '') {
+      throw new Error('Query is required');
+    }
+
+    const { session, turn, result } = await querySessions.query(
+      connection.conversationId,
+      data.query,
+      data.options,
+      connection.user?.id
+    );
+
+    sendMessage(socket, {
+      type: 'conversation',
+      payload: {
+        status: 'answered',
+        session,
+        turn,
+        results: result.data.primary,
+        nextCursor: result.nextCursor || null
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendMessage(socket, {
+      type: 'error',
+      payload: {
+        error: 'Conversation query failed',
+        message: (error as Error).message
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Leave the socket's conversation; the session itself stays resumable unless deleteSession is set
+ */
+async function handleEndConversation(socket: Socket, data: any = {}): Promise<void> {
+  const connection = activeConnections.get(socket.id);
+  if (!connection?.conversationId) return;
+
+  const sessionId = connection.conversationId;
+  connection.conversationId = undefined;
+
+  try {
+    if (data.deleteSession && querySessions) {
+      await querySessions.deleteSession(sessionId, connection.user?.id);
+    }
+
+    sendMessage(socket, {
+      type: 'conversation',
+      payload: {
+        status: 'ended',
+        sessionId,
+        deleted: !!data.deleteSession
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendMessage(socket, {
+      type: 'error',
+      payload: {
+        error: 'Failed to end conversation',
+        message: (error as Error).message
+      },
+      requestId: data.requestId,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
 /**
  * Clean up disconnected socket
  */
@@ -218,10 +453,17 @@ function cleanupSocket(socketId: string): void {
   const connection = activeConnections.get(socketId);
   if (!connection) return;
 
-  // Remove all subscriptions
+  // Remove all subscriptions; live queries stay resumable for a while unless another
+  // socket has already resumed them
   for (const subscriptionId of connection.subscriptions) {
-    activeSubscriptions.delete(subscriptionId);
+    if (activeSubscriptions.get(subscriptionId)?.clientId === socketId) {
+      activeSubscriptions.delete(subscriptionId);
+      liveQueries?.detach(subscriptionId);
+    }
   }
+  connection.stopChanges?.().catch(error => {
+    logger.error('Failed to stop change feed stream', { socketId, error: (error as Error).message });
+  });
 
   // Remove connection
   activeConnections.delete(socketId);
@@ -235,16 +477,23 @@ function cleanupSocket(socketId: string): void {
 }
 
 /**
- * Broadcast to subscription rooms
+ * Broadcast to subscription rooms; resolves once a subscriber acknowledges the update
  */
-export function broadcastQueryUpdate(subscriptionId: string, data: any): void {
+export async function broadcastQueryUpdate(subscriptionId: string, data: any): Promise<void> {
   const io = getIOInstance();
-  if (io) {
-    io.to(`subscription:${subscriptionId}`).emit('query_update', {
+  if (!io) {
+    throw new Error('WebSocket server is not running');
+  }
+
+  const acknowledgements = await io.to(`subscription:${subscriptionId}`)
+    .timeout(QUERY_UPDATE_ACK_TIMEOUT)
+    .emitWithAck('query_update', {
       subscriptionId,
       data,
       timestamp: new Date().toISOString()
     });
+  if (acknowledgements.length === 0) {
+    throw new Error(`No subscriber for ${subscriptionId}`);
   }
 }
 
@@ -278,6 +527,9 @@ export function broadcastSystemNotification(notification: any): void {
 // Store IO instance for broadcasting
 let ioInstance: SocketIOServer | null = null;
 let cleanupInterval: NodeJS.Timeout | null = null;
+let querySessions: QuerySessionManager | null = null;
+let liveQueries: LiveQueryManager | null = null;
+let changeFeed: ChangeFeed | null = null;
 
 function getIOInstance(): SocketIOServer | null {
   return ioInstance;
@@ -307,6 +559,9 @@ export function cleanupWebSocket(): void {
     ioInstance.close();
     ioInstance = null;
   }
+  querySessions = null;
+  liveQueries = null;
+  changeFeed = null;
 
   // Clear all data structures
   activeConnections.clear();
@@ -317,8 +572,14 @@ export function cleanupWebSocket(): void {
 /**
  * Main WebSocket setup function
  */
-export function setupWebSocket(io: SocketIOServer): void {
+export function setupWebSocket(
+  io: SocketIOServer,
+  services: { sessions?: QuerySessionManager; liveQueries?: LiveQueryManager; changes?: ChangeFeed } = {}
+): void {
   ioInstance = io;
+  querySessions = services.sessions || null;
+  liveQueries = services.liveQueries || null;
+  changeFeed = services.changes || null;
   
   logger.info('🔌 Setting up enhanced WebSocket handlers...');
 
@@ -361,6 +622,8 @@ export function setupWebSocket(io: SocketIOServer): void {
         features: [
           'Real-time query subscriptions',
           'Ingestion status updates',
+          'Conversational query sessions',
+          'Change data capture stream',
           'System notifications'
         ]
       },
@@ -410,6 +673,48 @@ export function setupWebSocket(io: SocketIOServer): void {
       }
     });
 
+    // Conversational query handlers
+    socket.on('start_conversation', (data) => {
+      const connection = activeConnections.get(socket.id);
+      if (connection) {
+        connection.lastActivity = new Date();
+        handleStartConversation(socket, data);
+      }
+    });
+
+    socket.on('conversation_query', (data) => {
+      const connection = activeConnections.get(socket.id);
+      if (connection) {
+        connection.lastActivity = new Date();
+        handleConversationQuery(socket, data);
+      }
+    });
+
+    socket.on('end_conversation', (data) => {
+      const connection = activeConnections.get(socket.id);
+      if (connection) {
+        connection.lastActivity = new Date();
+        handleEndConversation(socket, data);
+      }
+    });
+
+    // Change feed stream
+    socket.on('subscribe_changes', (data) => {
+      const connection = activeConnections.get(socket.id);
+      if (connection) {
+        connection.lastActivity = new Date();
+        handleSubscribeChanges(socket, data);
+      }
+    });
+
+    socket.on('unsubscribe_changes', (data) => {
+      const connection = activeConnections.get(socket.id);
+      if (connection) {
+        connection.lastActivity = new Date();
+        handleUnsubscribeChanges(socket, data);
+      }
+    });
+
     // Get connection info
     socket.on('get_info', (callback) => {
       const connection = activeConnections.get(socket.id);
@@ -423,6 +728,7 @@ export function setupWebSocket(io: SocketIOServer): void {
             role: connection.user.role
           } : null,
           activeSubscriptions: Array.from(connection.subscriptions),
+          conversationId: connection.conversationId || null,
           joinedAt: connection.joinedAt,
           lastActivity: connection.lastActivity
         });
@@ -483,6 +789,7 @@ export function setupWebSocket(io: SocketIOServer): void {
       'Rate limiting',
       'Query subscriptions',
       'Ingestion updates',
+      'Conversational sessions',
       'System notifications',
       'Connection management',
       'Automatic cleanup'
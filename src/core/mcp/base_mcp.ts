@@ -18,8 +18,37 @@ import {
   MCPStatus,
   AccessPattern,
   HealthStatus,
-  MCPTier
+  MCPTier,
+  QueryPage,
+  QueryPageOptions,
+  QueryAccessPlan,
+  QuerySort,
+  WriteOptions,
+  ExpiryStats,
+  Embedder,
+  SimilarityMatch,
+  SimilaritySearchOptions
 } from '../../types/mcp.types';
+import { createStorageEngine, StorageEngine, StorageStats } from '../storage';
+import { compileFilter } from './filter_matcher';
+import { IndexDefinition, IndexKey, KeyRange, OrderedIndex, compareIndexValues, intersectRanges } from './ordered_index';
+import { collectConjuncts, planIndexScan, selectIndex } from './index_selector';
+import {
+  CursorPosition,
+  TopK,
+  comparePositions,
+  decodePosition,
+  encodePosition,
+  queryFingerprint,
+  sortKeyFor
+} from './pagination';
+import { VersionConflictError, VersionHistory } from './versioning';
+import { HnswIndex, VectorHit } from './hnsw_index';
+import { HashingEmbedder } from './embedding';
+import { extractText } from './text_analysis';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
 
 export abstract class BaseMCP extends EventEmitter {
   public metadata: MCPMetadata;
@@ -27,6 +56,21 @@ export abstract class BaseMCP extends EventEmitter {
   protected capabilities: MCPCapabilities;
   protected records: Map<string, DataRecord> = new Map();
   protected indices: Map<string, Map<any, Set<string>>> = new Map();
+  protected orderedIndexes: Map<string, OrderedIndex> = new Map();
+  protected storage: StorageEngine;
+  private storageReady: Promise<void> | null = null;
+  // Logged to storage, not yet applied to the record map
+  private unappliedWrites: Set<Promise<void>> = new Set();
+  protected versionHistory: VersionHistory;
+  // Tail of the pending write chain per record ID
+  private recordLocks: Map<string, Promise<void>> = new Map();
+  // Records carrying an expiresAt, in expiry order, for the sweeper
+  private expiryIndex = new OrderedIndex({ name: 'expiresAt', fields: ['expiresAt'], unique: false, sparse: true });
+  private expiryTimer: NodeJS.Timeout | null = null;
+  private purgedCount = 0;
+  // Embedding index for similaritySearch, present when config.vectorIndex is set
+  protected vectorIndex: HnswIndex | null = null;
+  private embedder: Embedder | null = null;
   
   constructor(
     domain: MCPDomain,
@@ -118,11 +162,18 @@ export abstract class BaseMCP extends EventEmitter {
       encryptionEnabled: config.encryptionEnabled || false,
       autoIndexing: config.autoIndexing || false,
       consistencyLevel: config.consistencyLevel || 'eventual',
-      customProperties: config.customProperties || {}
+      customProperties: config.customProperties || {},
+      storage: config.storage,
+      versionRetention: config.versionRetention || 0,
+      expirySweepIntervalMs: config.expirySweepIntervalMs || 60000,
+      vectorIndex: config.vectorIndex
     };
 
     this.capabilities = this.defineCapabilities();
+    this.versionHistory = new VersionHistory(this.config.versionRetention || 0);
     this.initializeIndices();
+    this.initializeVectorIndex();
+    this.storage = createStorageEngine(this.config.storage);
   }
 
   // Getter properties for compatibility
@@ -164,51 +215,126 @@ export abstract class BaseMCP extends EventEmitter {
   // Core MCP Operations
   async initialize(): Promise<void> {
     this.metadata.healthStatus = 'healthy';
+    await this.ensureStorage();
     this.optimizeForDomain();
     this.emit('initialized', this.metadata);
   }
 
-  async store(record: DataRecord): Promise<boolean> {
+  /**
+   * Store a record and assign it the next version.
+   * With options.ifVersion the write applies only if the stored version still matches;
+   * otherwise a VersionConflictError is thrown rather than reported through 'error'.
+   */
+  async store(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
     const startTime = Date.now();
     
     try {
+      await this.ensureStorage();
+
       // Validate record size and capacity
       if (this.records.size >= this.config.maxRecords) {
         await this.performCleanup();
       }
-
-      // Update record metadata
-      if (!record.metadata) {
-        record.metadata = {};
-      }
-      record.metadata.accessPattern = this.createAccessPattern(record);
-      
-      // Store record
-      this.records.set(record.id, record);
-      
-      // Update indices
-      await this.updateIndices(record);
-      
-      // Update metadata
-      this.updateMetrics(startTime, 'write');
-      this.metadata.recordCount = this.records.size;
-      this.metadata.lastAccessed = Date.now();
-      this.metadata.updatedAt = Date.now();
-      
-      this.emit('record_stored', { recordId: record.id, mcpId: this.metadata.id });
-      return true;
       
+      return await this.withRecordLock(record.id, () => this.applyStore(record, options, startTime));
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
       this.handleError('store', error as Error);
       return false;
     }
   }
 
+  private async applyStore(record: DataRecord, options: WriteOptions, startTime: number): Promise<boolean> {
+    // An expired record no longer exists as far as writers are concerned
+    const existing = this.records.get(record.id);
+    if (existing && this.isExpired(existing)) {
+      await this.purgeRecord(existing);
+    }
+    
+    const currentVersion = this.records.get(record.id)?.version ?? 0;
+    if (options.ifVersion !== undefined && options.ifVersion !== currentVersion) {
+      throw new VersionConflictError(record.id, options.ifVersion, currentVersion);
+    }
+
+    // Update record metadata
+    if (!record.metadata) {
+      record.metadata = {};
+    }
+    record.metadata.accessPattern = this.createAccessPattern(record);
+    
+    // A ttl restarts on every write
+    const expiresAt = record.ttl !== undefined
+      ? Date.now() + record.ttl
+      : record.expiresAt ?? this.defaultExpiresAt(record);
+    if (expiresAt !== undefined) {
+      record.expiresAt = expiresAt;
+    }
+    
+    // Embed before logging so the vector is persisted with the record
+    await this.prepareEmbedding(record);
+    
+    // Unique indexes reject the write before it is logged
+    const indexKeys = await this.computeIndexKeys(record);
+    
+    // Log the write before applying it
+    record.version = currentVersion + 1;
+    let previous: DataRecord | undefined;
+    try {
+      await this.logAndApply(() => this.storage.put(record), () => {
+        previous = this.records.get(record.id);
+        this.records.set(record.id, record);
+        this.versionHistory.push(record);
+      });
+    } catch (error) {
+      record.version = currentVersion || undefined;
+      throw error;
+    }
+    
+    // Update indices
+    if (previous) {
+      this.onRecordUnindexed(previous);
+    }
+    await this.updateIndices(record, indexKeys);
+    
+    // Update metadata
+    this.updateMetrics(startTime, 'write');
+    this.metadata.recordCount = this.records.size;
+    this.metadata.lastAccessed = Date.now();
+    this.metadata.updatedAt = Date.now();
+    
+    // Listeners get the record as queries would return it, e.g. decompressed
+    this.emit('record_stored', { recordId: record.id, mcpId: this.metadata.id, version: record.version, record: await this.toQueryView(record) });
+    await this.snapshotIfDue();
+    return true;
+  }
+
+  /**
+   * Run writes to the same record one at a time so version checks and increments are atomic
+   */
+  private async withRecordLock<T>(id: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.recordLocks.get(id) || Promise.resolve();
+    const result = previous.then(operation);
+    const tail = result.then(() => undefined, () => undefined);
+    this.recordLocks.set(id, tail);
+    
+    try {
+      return await result;
+    } finally {
+      if (this.recordLocks.get(id) === tail) {
+        this.recordLocks.delete(id);
+      }
+    }
+  }
+
   async retrieve(id: string): Promise<DataRecord | null> {
     const startTime = Date.now();
     
     try {
-      const record = this.records.get(id);
+      await this.ensureStorage();
+      const stored = this.records.get(id);
+      const record = stored && !this.isExpired(stored) ? stored : undefined;
       
       if (record) {
         // Update access pattern
@@ -247,31 +373,12 @@ export abstract class BaseMCP extends EventEmitter {
     const startTime = Date.now();
     
     try {
+      await this.ensureStorage();
       const results: DataRecord[] = [];
       
-      // Use indices when possible
-      const indexedResults = await this.queryUsingIndices(filters);
-      if (indexedResults.length > 0) {
-        results.push(...indexedResults);
-      } else {
-        // Fallback to full scan
-        for (const record of this.records.values()) {
-          if (this.matchesFilters(record, filters)) {
-            results.push(record);
-          }
-        }
-      }
-      
-      // Update access patterns for retrieved records
-      results.forEach(record => {
-        if (!record.metadata) {
-          record.metadata = {};
-        }
-        if (!record.metadata.accessPattern) {
-          record.metadata.accessPattern = this.createAccessPattern(record);
-        }
-        record.metadata.accessPattern.lastAccessed = Date.now();
-        record.metadata.accessPattern.frequency++;
+      const scan = await this.scanMatches(filters, (view, record) => {
+        this.touchRecord(record);
+        results.push(view);
       });
       
       this.updateMetrics(startTime, 'read');
@@ -281,7 +388,8 @@ export abstract class BaseMCP extends EventEmitter {
       this.emit('query_executed', { 
         resultCount: results.length, 
         mcpId: this.metadata.id,
-        filters 
+        filters,
+        ...scan
       });
       
       return results;
@@ -292,33 +400,154 @@ export abstract class BaseMCP extends EventEmitter {
     }
   }
 
-  async delete(id: string): Promise<boolean> {
+  /**
+   * Return one sorted page of matches and a cursor for the next.
+   * Only the requested page is held in memory; ties are broken by record ID.
+   * Malformed filters and cursors throw instead of returning an empty page.
+   */
+  async queryPage(filters: Record<string, any>, options: QueryPageOptions = {}): Promise<QueryPage> {
     const startTime = Date.now();
+    const sort = options.sort || [];
+    const limit = Math.max(1, Math.floor(options.limit ?? 100));
+    const fingerprint = queryFingerprint(filters, sort);
+    const after = options.cursor ? decodePosition(options.cursor, fingerprint) : null;
+    compileFilter(filters);
     
     try {
-      const record = this.records.get(id);
-      if (!record) return false;
+      await this.ensureStorage();
+      type Entry = CursorPosition & { view: DataRecord; record: DataRecord };
+      const fallbacks = this.getFieldFallbacks();
+      const compare = (a: CursorPosition, b: CursorPosition) => comparePositions(a, b, sort);
+      // One extra entry tells us whether another page follows
+      let top = new TopK<Entry>(limit + 1, compare);
+      const offer = (view: DataRecord, record: DataRecord, sortKey = sortKeyFor(view, sort, fallbacks)) => {
+        const entry = { sortKey, id: record.id, view, record };
+        if (after && compare(entry, after) <= 0) return;
+        top.offer(entry);
+      };
       
-      // Remove from indices
-      await this.removeFromIndices(record);
+      // Resume from the cursor in an index kept in page order, or else scan every match
+      let scan = await this.scanInSortOrder(filters, sort, after, offer, () => top.boundary);
+      if (!scan) {
+        top = new TopK<Entry>(limit + 1, compare);
+        scan = await this.scanMatches(filters, offer);
+      }
       
-      // Remove record
-      this.records.delete(id);
+      const entries = top.sorted();
+      const page = entries.slice(0, limit);
+      page.forEach(entry => this.touchRecord(entry.record));
       
-      // Update metadata
-      this.updateMetrics(startTime, 'delete');
-      this.metadata.recordCount = this.records.size;
-      this.metadata.updatedAt = Date.now();
+      const last = page[page.length - 1];
+      const nextCursor = entries.length > limit && last
+        ? encodePosition(fingerprint, { sortKey: last.sortKey, id: last.id })
+        : null;
       
-      this.emit('record_deleted', { recordId: id, mcpId: this.metadata.id });
-      return true;
+      this.updateMetrics(startTime, 'read');
+      this.metadata.accessFrequency++;
+      this.metadata.lastAccessed = Date.now();
+      
+      this.emit('query_executed', {
+        resultCount: page.length,
+        mcpId: this.metadata.id,
+        filters,
+        ...scan,
+        paged: true
+      });
+      
+      return { records: page.map(entry => entry.view), nextCursor };
+      
+    } catch (error) {
+      this.handleError('queryPage', error as Error);
+      return { records: [], nextCursor: null };
+    }
+  }
+
+  /**
+   * The index a filter query would scan and how many records it would visit, without running it.
+   * Malformed filters throw.
+   */
+  async explainQuery(filters: Record<string, any>): Promise<QueryAccessPlan> {
+    compileFilter(filters);
+    await this.ensureStorage();
+    
+    const selection = selectIndex(this.orderedIndexes.values(), filters, this.records.size);
+    return {
+      indexUsed: selection?.indexName || null,
+      fieldsUsed: selection?.fieldsUsed || [],
+      estimatedScan: selection ? selection.cost : this.records.size,
+      totalRecords: this.records.size
+    };
+  }
+
+  /**
+   * Iterate every match in sort order, fetching `batchSize` records at a time
+   */
+  async *queryIterator(
+    filters: Record<string, any>,
+    options: { sort?: QuerySort[]; batchSize?: number } = {}
+  ): AsyncGenerator<DataRecord, void, undefined> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.queryPage(filters, { sort: options.sort, limit: options.batchSize ?? 500, cursor });
+      yield* page.records;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Delete a record; options.ifVersion makes the delete conditional like store
+   */
+  async delete(id: string, options: WriteOptions = {}): Promise<boolean> {
+    const startTime = Date.now();
+    
+    try {
+      await this.ensureStorage();
+      return await this.withRecordLock(id, async () => {
+        let record = this.records.get(id);
+        if (record && this.isExpired(record)) {
+          await this.purgeRecord(record);
+          record = undefined;
+        }
+        if (options.ifVersion !== undefined && options.ifVersion !== (record?.version ?? 0)) {
+          throw new VersionConflictError(id, options.ifVersion, record?.version ?? 0);
+        }
+        if (!record) return false;
+        
+        // Log the deletion before applying it
+        await this.logAndApply(() => this.storage.delete(id), () => {
+          this.records.delete(id);
+          this.versionHistory.remove(id);
+        });
+        
+        // Remove from indices
+        await this.removeFromIndices(record);
+        
+        // Update metadata
+        this.updateMetrics(startTime, 'delete');
+        this.metadata.recordCount = this.records.size;
+        this.metadata.updatedAt = Date.now();
+        
+        this.emit('record_deleted', { recordId: id, mcpId: this.metadata.id });
+        await this.snapshotIfDue();
+        return true;
+      });
       
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
       this.handleError('delete', error as Error);
       return false;
     }
   }
 
+  /**
+   * Superseded versions of a record, newest first, as far back as versionRetention allows
+   */
+  async getHistory(id: string): Promise<DataRecord[]> {
+    return Promise.all(this.versionHistory.previous(id).map(version => this.toQueryView(version)));
+  }
+
   // Metadata and Status
   getMetadata(): MCPMetadata {
     return { ...this.metadata };
@@ -375,6 +604,8 @@ export abstract class BaseMCP extends EventEmitter {
     diskUsage: number;
     networkIO?: { inbound: number; outbound: number };
     queryLatency?: { p50: number; p95: number; p99: number };
+    expiry?: ExpiryStats;
+    vectorIndex?: ReturnType<HnswIndex['getStats']>;
   }> {
     const health = await this.getHealth();
     return {
@@ -389,18 +620,206 @@ export abstract class BaseMCP extends EventEmitter {
       cacheHitRate: this.metadata.metrics.cacheHitRatio, // Alias for compatibility
       errorRate: this.metadata.metrics.errorRate,
       storageUsed: this.metadata.totalSize || 0,
-      indexCount: this.indices.size,
+      indexCount: this.indices.size + this.orderedIndexes.size,
       memoryUsage: health.memoryUsage,
       cpuUsage: health.cpuUsage,
       diskUsage: health.diskUsage,
       networkIO: { inbound: 0, outbound: 0 },
-      queryLatency: { p50: 0, p95: 0, p99: 0 }
+      queryLatency: { p50: 0, p95: 0, p99: 0 },
+      expiry: this.getExpiryStats(),
+      ...(this.vectorIndex && { vectorIndex: this.vectorIndex.getStats() })
     };
   }
 
+  // Vector Search
+  /**
+   * Records most similar to a text or embedding query, best first.
+   * A filter is resolved through the regular query path; when it leaves no more candidates than
+   * the graph search would visit anyway, they are scored exactly instead.
+   */
+  async similaritySearch(query: string | number[], options: SimilaritySearchOptions = {}): Promise<SimilarityMatch[]> {
+    const startTime = Date.now();
+    if (!this.vectorIndex || !this.embedder) {
+      throw new Error(`Vector search is not enabled for MCP ${this.metadata.name}`);
+    }
+    if (Array.isArray(query) && query.length !== this.vectorIndex.dimensions) {
+      throw new Error(`Expected a ${this.vectorIndex.dimensions}-dimensional query vector, got ${query.length}`);
+    }
+    if (options.filter) {
+      compileFilter(options.filter);
+    }
+    const k = Math.max(1, Math.floor(options.k ?? 10));
+    const efSearch = Math.max(k, options.efSearch ?? this.config.vectorIndex?.efSearch ?? 64);
+    
+    try {
+      await this.ensureStorage();
+      const vector = typeof query === 'string' ? (await this.embedder.embed([query]))[0] : query;
+      
+      let hits: VectorHit[];
+      if (options.filter) {
+        const allowed = new Set<string>();
+        await this.scanMatches(options.filter, (_view, record) => allowed.add(record.id));
+        hits = allowed.size <= efSearch
+          ? this.vectorIndex.searchAmong(vector, allowed, k)
+          : this.vectorIndex.search(vector, k, { efSearch, accept: id => allowed.has(id) });
+      } else {
+        const now = Date.now();
+        hits = this.vectorIndex.search(vector, k, {
+          efSearch,
+          accept: id => {
+            const record = this.records.get(id);
+            return !!record && !this.isExpired(record, now);
+          }
+        });
+      }
+      
+      const matches: SimilarityMatch[] = [];
+      for (const hit of hits) {
+        const record = this.records.get(hit.id);
+        if (!record || (options.minScore !== undefined && hit.score < options.minScore)) continue;
+        this.touchRecord(record);
+        matches.push({ record: await this.toQueryView(record), score: hit.score });
+      }
+      
+      this.updateMetrics(startTime, 'read');
+      this.metadata.accessFrequency++;
+      this.metadata.lastAccessed = Date.now();
+      
+      this.emit('query_executed', {
+        resultCount: matches.length,
+        mcpId: this.metadata.id,
+        filters: options.filter || {},
+        vectorSearch: true
+      });
+      
+      return matches;
+      
+    } catch (error) {
+      this.handleError('similaritySearch', error as Error);
+      return [];
+    }
+  }
+
+  // Expiry
+  /**
+   * Physically remove every record whose expiry has passed, emitting 'record_expired' for each
+   */
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    await this.ensureStorage();
+    const due = Array.from(this.expiryIndex.scan({ upper: { key: [now], inclusive: true } }), entry => entry.id);
+    
+    let purged = 0;
+    for (const id of due) {
+      const removed = await this.withRecordLock(id, async () => {
+        const record = this.records.get(id);
+        // Skip records rewritten with a later expiry since the scan
+        if (!record || !this.isExpired(record, now)) return false;
+        await this.purgeRecord(record);
+        return true;
+      });
+      if (removed) purged++;
+    }
+    return purged;
+  }
+
+  getExpiryStats(now: number = Date.now()): ExpiryStats {
+    const stats: ExpiryStats = {
+      scheduled: 0,
+      expired: 0,
+      expiringWithinHour: 0,
+      expiringWithinDay: 0,
+      purged: this.purgedCount,
+      nextExpiresAt: null
+    };
+    
+    // Entries come in expiry order, so stop once past the one-day horizon
+    for (const { key } of this.expiryIndex.scan({ upper: { key: [now + DAY_MS], inclusive: true } })) {
+      const expiresAt = key[0];
+      if (typeof expiresAt !== 'number') continue;
+      if (expiresAt <= now) {
+        stats.expired++;
+        continue;
+      }
+      stats.nextExpiresAt = stats.nextExpiresAt ?? expiresAt;
+      stats.expiringWithinDay++;
+      if (expiresAt <= now + HOUR_MS) stats.expiringWithinHour++;
+    }
+    
+    stats.scheduled = this.expiryIndex.recordCount - stats.expired;
+    if (stats.nextExpiresAt === null && stats.scheduled > 0) {
+      for (const { key } of this.expiryIndex.scan({ lower: { key: [now], inclusive: false } })) {
+        stats.nextExpiresAt = key[0];
+        break;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Whether a record is past its expiry; expired records are invisible to reads and writes
+   */
+  protected isExpired(record: DataRecord, now: number = Date.now()): boolean {
+    return typeof record.expiresAt === 'number' && record.expiresAt <= now;
+  }
+
+  /**
+   * Called whenever a record enters the indexes (write or recovery); specialized MCPs maintain
+   * their own indexes here. Receives the stored form of the record.
+   */
+  protected onRecordIndexed(_record: DataRecord): void {
+    // No specialized indexes by default
+  }
+
+  /**
+   * Called whenever a record leaves the indexes: deleted, expired, or about to be overwritten
+   */
+  protected onRecordUnindexed(_record: DataRecord): void {
+    // No specialized indexes by default
+  }
+
+  /**
+   * Expiry for records stored without ttl or expiresAt; tiers with retention policies override this
+   */
+  protected defaultExpiresAt(_record: DataRecord): number | undefined {
+    return undefined;
+  }
+
+  private async purgeRecord(record: DataRecord): Promise<void> {
+    await this.logAndApply(() => this.storage.delete(record.id), () => {
+      this.records.delete(record.id);
+      this.versionHistory.remove(record.id);
+    });
+    await this.removeFromIndices(record);
+    this.purgedCount++;
+    
+    this.metadata.recordCount = this.records.size;
+    this.metadata.updatedAt = Date.now();
+    
+    this.emit('record_expired', {
+      recordId: record.id,
+      mcpId: this.metadata.id,
+      expiresAt: record.expiresAt,
+      timestamp: Date.now()
+    });
+  }
+
+  private startExpirySweeper(): void {
+    if (this.expiryTimer) return;
+    
+    this.expiryTimer = setInterval(() => {
+      this.purgeExpired().catch(error => {
+        // A timer has no caller to throw to, so only report when someone is listening
+        if (this.listenerCount('error') > 0) {
+          this.handleError('purgeExpired', error as Error);
+        }
+      });
+    }, this.config.expirySweepIntervalMs || 60000);
+    this.expiryTimer.unref();
+  }
+
   // Migration Support
   async prepareForMigration(): Promise<DataRecord[]> {
-    return Array.from(this.records.values());
+    return Array.from(this.records.values()).filter(record => !this.isExpired(record));
   }
 
   async acceptMigration(records: DataRecord[]): Promise<boolean> {
@@ -415,6 +834,84 @@ export abstract class BaseMCP extends EventEmitter {
     }
   }
 
+  // Durable Storage
+  getStorageStats(): StorageStats {
+    return this.storage.getStats();
+  }
+
+  async snapshot(): Promise<void> {
+    await this.ensureStorage();
+    await this.snapshotRecords();
+  }
+
+  /**
+   * Log a mutation, then apply it to the record map. Until it is applied the write is tracked,
+   * so a snapshot never covers a logged entry whose effect is missing from the map.
+   */
+  private async logAndApply(log: () => Promise<void>, apply: () => void): Promise<void> {
+    const write = log().then(apply);
+    this.unappliedWrites.add(write);
+    try {
+      await write;
+    } finally {
+      this.unappliedWrites.delete(write);
+    }
+  }
+
+  private async snapshotRecords(): Promise<void> {
+    // The engine takes the snapshot's sequence and record set in the same step, so that step
+    // has to fall between writes
+    while (this.unappliedWrites.size > 0) {
+      await Promise.allSettled(Array.from(this.unappliedWrites));
+    }
+    await this.storage.snapshot(this.records.values());
+  }
+
+  protected async ensureStorage(): Promise<void> {
+    // Recover once, lazily, so MCPs used without initialize() still see persisted data
+    if (!this.storageReady) {
+      this.storageReady = this.recoverFromStorage().catch(error => {
+        this.storageReady = null;
+        throw error;
+      });
+    }
+    return this.storageReady;
+  }
+
+  private async recoverFromStorage(): Promise<void> {
+    const recovered = await this.storage.open();
+    
+    for (const record of recovered) {
+      this.records.set(record.id, record);
+      await this.updateIndices(record);
+    }
+    
+    if (recovered.length > 0) {
+      this.metadata.recordCount = this.records.size;
+      this.metadata.updatedAt = Date.now();
+      this.emit('storage_recovered', { mcpId: this.metadata.id, recordCount: recovered.length });
+    }
+  }
+
+  private async snapshotIfDue(): Promise<void> {
+    if (!this.storage.shouldSnapshot()) return;
+    
+    try {
+      await this.snapshotRecords();
+      this.emit('snapshot_created', { mcpId: this.metadata.id, ...this.storage.getStats() });
+    } catch (error) {
+      this.handleError('snapshot', error as Error);
+    }
+  }
+
+  /**
+   * Form of a stored record that filters are evaluated against and queries return.
+   * Tiers that encode records at rest override this to decode them.
+   */
+  protected async toQueryView(record: DataRecord): Promise<DataRecord> {
+    return record;
+  }
+
   // Private Helper Methods
   private createAccessPattern(record: DataRecord): AccessPattern {
     return {
@@ -428,69 +925,198 @@ export abstract class BaseMCP extends EventEmitter {
 
   private initializeIndices(): void {
     // Initialize common indices
-    this.indices.set('domain', new Map());
-    this.indices.set('timestamp', new Map());
+    for (const field of new Set(['id', 'domain', 'timestamp', this.getEventTimeField()])) {
+      this.orderedIndexes.set(field, new OrderedIndex({ name: field, fields: [field], unique: false, sparse: true }, this.getFieldFallbacks()));
+    }
+  }
+
+  private initializeVectorIndex(): void {
+    const options = this.config.vectorIndex;
+    if (!options) return;
+    
+    this.embedder = options.embedder || new HashingEmbedder({ dimensions: options.dimensions });
+    this.vectorIndex = new HnswIndex({
+      dimensions: this.embedder.dimensions,
+      metric: options.metric,
+      m: options.m,
+      efConstruction: options.efConstruction,
+      efSearch: options.efSearch
+    });
+    this.capabilities.vectorSearch = true;
   }
 
-  private async updateIndices(record: DataRecord): Promise<void> {
-    // Domain index
-    if (record.metadata?.domain) {
-      this.addToIndex('domain', record.metadata.domain, record.id);
+  /**
+   * Give the record an embedding of its text unless the caller supplied one
+   */
+  private async prepareEmbedding(record: DataRecord): Promise<void> {
+    if (!this.vectorIndex || !this.embedder) return;
+    
+    if (!record.embedding) {
+      const text = extractText(await this.toQueryView(record), this.config.vectorIndex?.textFields);
+      record.embedding = (await this.embedder.embed([text]))[0];
     }
+    if (record.embedding.length !== this.vectorIndex.dimensions) {
+      throw new Error(`Record ${record.id} has a ${record.embedding.length}-dimensional embedding, expected ${this.vectorIndex.dimensions}`);
+    }
+  }
+
+  /**
+   * Keys for every ordered index, checking unique constraints along the way
+   */
+  private async computeIndexKeys(record: DataRecord): Promise<Map<string, IndexKey[]>> {
+    const keys = new Map<string, IndexKey[]>();
+    let view: DataRecord | null = null;
     
-    // Timestamp index (by day)
-    const day = Math.floor(record.timestamp / (24 * 60 * 60 * 1000));
-    this.addToIndex('timestamp', day, record.id);
+    for (const index of this.orderedIndexes.values()) {
+      // Envelope fields can be read off the stored record; anything else needs the query view
+      const envelopeOnly = index.definition.fields.every(field => {
+        const root = field.split('.')[0];
+        return root !== 'data' && (record as any)[root] !== undefined;
+      });
+      if (!envelopeOnly && !view) {
+        view = await this.toQueryView(record);
+      }
+      
+      const indexKeys = index.keysFor(envelopeOnly ? record : view);
+      index.checkUnique(record.id, indexKeys);
+      keys.set(index.name, indexKeys);
+    }
+    return keys;
   }
 
-  private addToIndex(indexName: string, key: any, recordId: string): void {
-    const index = this.indices.get(indexName);
-    if (!index) return;
+  private async updateIndices(record: DataRecord, indexKeys?: Map<string, IndexKey[]>): Promise<void> {
+    const keys = indexKeys || await this.computeIndexKeys(record);
+    for (const [indexName, recordKeys] of keys) {
+      this.orderedIndexes.get(indexName)?.put(record.id, recordKeys);
+    }
     
-    if (!index.has(key)) {
-      index.set(key, new Set());
+    // Recovered records embedded under a different configuration are left out rather than failing recovery
+    if (this.vectorIndex && record.embedding?.length === this.vectorIndex.dimensions) {
+      this.vectorIndex.add(record.id, record.embedding);
+    }
+    this.onRecordIndexed(record);
+    
+    this.expiryIndex.put(record.id, this.expiryIndex.keysFor(record));
+    if (record.expiresAt !== undefined) {
+      this.startExpirySweeper();
     }
-    index.get(key)!.add(recordId);
   }
 
-  private async removeFromIndices(record: DataRecord): Promise<void> {
-    // Remove from all indices
-    for (const [indexName, index] of this.indices) {
-      for (const [key, recordIds] of index) {
-        recordIds.delete(record.id);
-        if (recordIds.size === 0) {
-          index.delete(key);
-        }
+  /**
+   * Visit the query view of every record matching the filter, scanning the cheapest index if one applies
+   */
+  private async scanMatches(
+    filters: Record<string, any>,
+    visit: (view: DataRecord, record: DataRecord) => void
+  ): Promise<{ indexUsed: string | null; scannedRecords: number }> {
+    const predicate = compileFilter(filters, { fallbacks: this.getFieldFallbacks() });
+    
+    // Scan the cheapest matching index, otherwise fall back to a full scan
+    const selection = selectIndex(this.orderedIndexes.values(), filters, this.records.size);
+    const candidates = selection
+      ? Array.from(selection.candidateIds, id => this.records.get(id)).filter((r): r is DataRecord => !!r)
+      : this.records.values();
+    
+    const now = Date.now();
+    let scannedRecords = 0;
+    for (const record of candidates) {
+      scannedRecords++;
+      if (this.isExpired(record, now)) continue;
+      const view = await this.toQueryView(record);
+      if (predicate(view)) {
+        visit(view, record);
       }
     }
+    
+    return { indexUsed: selection?.indexName || null, scannedRecords };
   }
 
-  private async queryUsingIndices(filters: Record<string, any>): Promise<DataRecord[]> {
-    const results: DataRecord[] = [];
+  /**
+   * Visit matches in page order by walking the single-field index over the sort field, or over
+   * record IDs when there is no sort, starting at the cursor and stopping once no later entry can
+   * come before the page's boundary. Returns null, leaving the page to a full scan, when no such
+   * index holds every record, another index narrows the filter, or a sort value is an array.
+   */
+  private async scanInSortOrder(
+    filters: Record<string, any>,
+    sort: QuerySort[],
+    after: CursorPosition | null,
+    visit: (view: DataRecord, record: DataRecord, sortKey: any[]) => void,
+    boundary: () => CursorPosition | undefined
+  ): Promise<{ indexUsed: string | null; scannedRecords: number } | null> {
+    if (sort.length > 1) return null;
+    const field = sort.length === 0 ? 'id' : sort[0].field;
+    const direction = sort[0]?.direction === 'desc' ? -1 : 1;
+    const indexes = Array.from(this.orderedIndexes.values());
+    const index = indexes.find(candidate => candidate.definition.fields.length === 1 && candidate.definition.fields[0] === field);
+    // A sparse index leaves out records without the field, which still sort first
+    if (!index || index.recordCount !== this.records.size) return null;
     
-    // Try to use indices for common filter patterns
-    if (filters.domain) {
-      const index = this.indices.get('domain');
-      const recordIds = index?.get(filters.domain);
-      if (recordIds) {
-        for (const id of recordIds) {
-          const record = this.records.get(id);
-          if (record && this.matchesFilters(record, filters)) {
-            results.push(record);
-          }
-        }
+    const conjuncts = collectConjuncts(filters);
+    if (indexes.some(candidate => candidate !== index && planIndexScan(candidate, conjuncts))) return null;
+    
+    // Keep to the filter's own range on the sort field, and resume at the cursor within it
+    const plan = planIndexScan(index, conjuncts);
+    let range: KeyRange = plan && plan.ranges.length === 1 ? plan.ranges[0] : {};
+    if (after) {
+      const resume = { key: [sort.length > 0 ? after.sortKey[0] : after.id], inclusive: true };
+      range = intersectRanges(range, direction > 0 ? { lower: resume } : { upper: resume });
+    }
+    
+    const fallbacks = this.getFieldFallbacks();
+    const predicate = compileFilter(filters, { fallbacks });
+    const now = Date.now();
+    let scannedRecords = 0;
+    for (const { key, id } of direction > 0 ? index.scan(range) : index.scanDescending(range)) {
+      const last = boundary();
+      if (last && compareIndexValues(key[0], sort.length > 0 ? last.sortKey[0] : last.id) * direction > 0) break;
+      
+      const record = this.records.get(id);
+      if (!record || this.isExpired(record, now)) continue;
+      scannedRecords++;
+      const view = await this.toQueryView(record);
+      const sortKey = sortKeyFor(view, sort, fallbacks);
+      // Array values are indexed once per element but sort as a whole
+      if (Array.isArray(sortKey[0])) return null;
+      if (predicate(view)) {
+        visit(view, record, sortKey);
       }
     }
     
-    return results;
+    return { indexUsed: index.name, scannedRecords };
   }
 
-  private matchesFilters(record: DataRecord, filters: Record<string, any>): boolean {
-    for (const [key, value] of Object.entries(filters)) {
-      if (key === 'domain' && record.metadata?.domain !== value) return false;
-      // Add more filter matching logic as needed
+  /**
+   * Update access patterns on the stored record
+   */
+  private touchRecord(record: DataRecord): void {
+    if (!record.metadata) {
+      record.metadata = {};
+    }
+    if (!record.metadata.accessPattern) {
+      record.metadata.accessPattern = this.createAccessPattern(record);
+    }
+    record.metadata.accessPattern.lastAccessed = Date.now();
+    record.metadata.accessPattern.frequency++;
+  }
+
+  private async removeFromIndices(record: DataRecord): Promise<void> {
+    for (const index of this.orderedIndexes.values()) {
+      index.remove(record.id);
+    }
+    this.expiryIndex.remove(record.id);
+    this.vectorIndex?.remove(record.id);
+    this.onRecordUnindexed(record);
+    
+    // Remove from all hash indices
+    for (const [indexName, index] of this.indices) {
+      for (const [key, recordIds] of index) {
+        recordIds.delete(record.id);
+        if (recordIds.size === 0) {
+          index.delete(key);
+        }
+      }
     }
-    return true;
   }
 
   private updateMetrics(startTime: number, operation: string): void {
@@ -587,9 +1213,9 @@ export abstract class BaseMCP extends EventEmitter {
     return this.metadata.type === 'hot' ? MCPType.HOT : MCPType.COLD;
   }
 
-  public async update(record: DataRecord): Promise<boolean> {
+  public async update(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
     // Update is essentially a store operation
-    return this.store(record);
+    return this.store(record, options);
   }
 
   public async create(record: DataRecord): Promise<boolean> {
@@ -612,8 +1238,22 @@ export abstract class BaseMCP extends EventEmitter {
   public async shutdown(): Promise<void> {
     // Clean up resources
     this.metadata.healthStatus = 'unhealthy';
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (this.storageReady) {
+      await this.snapshotRecords();
+      await this.storage.close();
+      this.storageReady = null;
+    }
     this.records.clear();
     this.indices.clear();
+    this.versionHistory.clear();
+    // Keep index definitions; entries are rebuilt if storage is reopened
+    this.orderedIndexes.forEach(index => index.clear());
+    this.expiryIndex.clear();
+    this.vectorIndex?.clear();
     this.emit('shutdown', this.metadata);
   }
 
@@ -690,21 +1330,38 @@ export abstract class BaseMCP extends EventEmitter {
   }
 
   // Index management methods
+  /**
+   * Create an ordered secondary index. Fields are keyed in the given order;
+   * options.unique rejects duplicate keys on store, options.sparse skips records missing every field.
+   */
   async createIndex(indexName: string, fields: string[], options: any = {}): Promise<boolean> {
     try {
-      // Create a new index
-      const index = new Map<any, Set<string>>();
-      this.indices.set(indexName, index);
+      if (!indexName || !fields || fields.length === 0) {
+        throw new Error('Invalid index definition: name and fields are required');
+      }
+      
+      const existing = this.orderedIndexes.get(indexName);
+      if (existing) {
+        return existing.definition.fields.join(',') === fields.join(',');
+      }
+      
+      await this.ensureStorage();
+      const index = new OrderedIndex({
+        name: indexName,
+        fields: [...fields],
+        unique: options.unique === true,
+        sparse: options.sparse === true
+      });
       
       // Build index for existing records
       for (const record of this.records.values()) {
-        const key = this.buildIndexKey(record, fields);
-        if (key !== null) {
-          this.addToIndex(indexName, key, record.id);
-        }
+        const keys = index.keysFor(await this.toQueryView(record));
+        index.checkUnique(record.id, keys);
+        index.put(record.id, keys);
       }
       
-      this.emit('index_created', { indexName, fields, mcpId: this.metadata.id });
+      this.orderedIndexes.set(indexName, index);
+      this.emit('index_created', { indexName, fields, options: index.definition, mcpId: this.metadata.id });
       return true;
     } catch (error) {
       this.handleError('createIndex', error as Error);
@@ -712,6 +1369,39 @@ export abstract class BaseMCP extends EventEmitter {
     }
   }
 
+  async dropIndex(indexName: string): Promise<boolean> {
+    const dropped = this.orderedIndexes.delete(indexName);
+    if (dropped) {
+      this.emit('index_dropped', { indexName, mcpId: this.metadata.id });
+    }
+    return dropped;
+  }
+
+  /**
+   * Field holding the time a record's event happened, which time-range filters apply to. This is
+   * the ingestion timestamp unless the tier's payload carries its own time.
+   */
+  getEventTimeField(): string {
+    return 'timestamp';
+  }
+
+  /**
+   * Fields read in place of others a record does not carry. A record without a payload event time
+   * is placed in time by its ingestion timestamp, as the tier's own time lookups place it.
+   */
+  getFieldFallbacks(): Record<string, string> {
+    const field = this.getEventTimeField();
+    return field === 'timestamp' ? {} : { [field]: 'timestamp' };
+  }
+
+  getIndexes(): Array<IndexDefinition & { entries: number; records: number }> {
+    return Array.from(this.orderedIndexes.values(), index => ({
+      ...index.definition,
+      entries: index.size,
+      records: index.recordCount
+    }));
+  }
+
   async clearCache(): Promise<void> {
     try {
       // Clear any cached data - in this base implementation, we don't have a separate cache
@@ -734,35 +1424,4 @@ export abstract class BaseMCP extends EventEmitter {
       return false;
     }
   }
-
-  // Helper method to build index keys from records
-  private buildIndexKey(record: DataRecord, fields: string[]): any {
-    if (fields.length === 1) {
-      const field = fields[0];
-      if (field === 'domain') return record.domain;
-      if (field === 'type') return record.type;
-      if (field === 'timestamp') return Math.floor(record.timestamp / (24 * 60 * 60 * 1000));
-      // Check metadata fields
-      if (record.metadata && field in record.metadata) {
-        return record.metadata[field];
-      }
-      // Check data fields
-      if (typeof record.data === 'object' && field in record.data) {
-        return record.data[field];
-      }
-      return null;
-    } else {
-      // Composite key for multi-field indexes
-      const keyParts: any[] = [];
-      for (const field of fields) {
-        if (field === 'domain') keyParts.push(record.domain);
-        else if (field === 'type') keyParts.push(record.type);
-        else if (field === 'timestamp') keyParts.push(Math.floor(record.timestamp / (24 * 60 * 60 * 1000)));
-        else if (record.metadata && field in record.metadata) keyParts.push(record.metadata[field]);
-        else if (typeof record.data === 'object' && field in record.data) keyParts.push(record.data[field]);
-        else keyParts.push(null);
-      }
-      return keyParts.join('|');
-    }
-  }
-}
\ No newline at end of file
+}
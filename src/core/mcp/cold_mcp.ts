@@ -4,17 +4,27 @@
  */
 
 import { BaseMCP } from './base_mcp';
+import { VersionConflictError } from './versioning';
 import {
   MCPCapabilities,
   DataRecord,
   MCPDomain,
   MCPType,
   MCPConfig,
-  AccessPattern
+  AccessPattern,
+  WriteOptions
 } from '../../types/mcp.types';
+import {
+  CompressionAlgorithm,
+  compressPayload,
+  decompressPayload,
+  isCompressedPayload,
+  resolveCodec
+} from '../storage/compression';
 
 interface ColdMCPConfig extends MCPConfig {
   compressionLevel: 1 | 2 | 3 | 4 | 5; // 1=fastest, 5=best compression
+  compressionAlgorithm?: CompressionAlgorithm; // Overrides the codec picked by compressionLevel
   batchSize: number;
   archivalStrategy: 'time-based' | 'size-based' | 'access-based';
   retentionPolicy: {
@@ -33,11 +43,22 @@ interface ColdMCPConfig extends MCPConfig {
   };
 }
 
+const MAX_CACHED_PAYLOADS = 1000;
+
+interface BufferedWrite {
+  record: DataRecord;
+  resolve: (stored: boolean) => void;
+  reject: (error: Error) => void;
+}
+
 export class ColdMCP extends BaseMCP {
-  private compressionCache: Map<string, Buffer> = new Map();
-  private batchBuffer: DataRecord[] = [];
+  // Decoded payloads by record ID, least recently used first; an entry serves only while the
+  // stored payload it was decoded from is still the record's current one
+  private compressionCache: Map<string, { payload: any; data: any }> = new Map();
+  // Buffered writes with their waiting callers, who are answered once the batch is logged
+  private batchBuffer: BufferedWrite[] = [];
+  private batchScheduled = false;
   private archiveIndex: Map<string, { location: string; compressed: boolean; size: number }> = new Map();
-  private retentionQueue: Map<string, Set<string>> = new Map(); // date -> recordIds
   private coldConfig: ColdMCPConfig;
   private compressionRatio: number = 0;
   
@@ -88,7 +109,7 @@ export class ColdMCP extends BaseMCP {
     return {
       queryTypes: ['select', 'insert', 'delete', 'search'], // No update for immutable archive
       dataTypes: ['string', 'number', 'boolean', 'object', 'array', 'binary'],
-      maxConnections: this.coldConfig.connectionPoolSize,
+      maxConnections: this.config.connectionPoolSize, // coldConfig is not assigned yet during super()
       consistencyLevels: ['eventual', 'weak'],
       transactionSupport: false, // Simplified for archival
       backupSupport: true,
@@ -105,7 +126,6 @@ export class ColdMCP extends BaseMCP {
   protected optimizeForDomain(): void {
     this.setupCompressionEngine();
     this.initializeBatchProcessor();
-    this.startRetentionManager();
     this.enableCostOptimization();
   }
 
@@ -124,25 +144,57 @@ export class ColdMCP extends BaseMCP {
   }
 
   // Enhanced store method with compression and batching
-  override async store(record: DataRecord): Promise<boolean> {
+  override async store(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
+    // Conditional writes bypass batching so the version check sees every earlier write
+    return this.write(record, options, options.ifVersion !== undefined);
+  }
+
+  // Updates of single records are read back right away, so they are written through as well
+  override async update(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
+    return this.write(record, options, true);
+  }
+
+  private async write(record: DataRecord, options: WriteOptions, writeThrough: boolean): Promise<boolean> {
     const startTime = Date.now();
     
     try {
       // Add metadata for archival
       this.enrichRecordForArchival(record);
       
-      // Add to batch buffer
-      this.batchBuffer.push(record);
+      // Written through after anything still buffered, and versioned on return
+      if (writeThrough) {
+        await this.processBatch();
+        const [compressed] = await this.compressBatch([record]);
+        const success = await super.store(compressed, options);
+        if (success) {
+          record.version = compressed.version;
+          record.expiresAt = compressed.expiresAt;
+        }
+        this.updatePerformanceMetrics('store', Date.now() - startTime);
+        return success;
+      }
+      
+      // Add to batch buffer; writes arriving before it is flushed join the same batch
+      const stored = new Promise<boolean>((resolve, reject) => {
+        this.batchBuffer.push({ record, resolve, reject });
+      });
       
       // Process batch if full
       if (this.batchBuffer.length >= this.coldConfig.batchSize) {
         await this.processBatch();
+      } else {
+        this.scheduleBatch();
       }
       
+      // Acknowledged only once the record is logged and applied
+      const success = await stored;
       this.updatePerformanceMetrics('store', Date.now() - startTime);
-      return true;
+      return success;
       
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
       this.handleColdError('store', error as Error);
       return false;
     }
@@ -163,18 +215,14 @@ export class ColdMCP extends BaseMCP {
       const record = await super.retrieve(id);
       
       if (record) {
-        // Decompress if compressed
-        if (record.metadata?.compressed) {
-          record.data = await this.decompress(record.data);
-          record.metadata.compressed = false;
-        }
-        
         // Update access patterns for future archival decisions
         this.updateArchivalAccessPattern(record);
       }
       
       this.updatePerformanceMetrics('retrieve', Date.now() - startTime);
-      return record;
+      
+      // Hand out a decompressed copy; the stored record stays compressed
+      return record ? await this.decompressRecord(record) : null;
       
     } catch (error) {
       this.handleColdError('retrieve', error as Error);
@@ -182,41 +230,62 @@ export class ColdMCP extends BaseMCP {
     }
   }
 
+  // Filters match against, and queries return, decompressed copies
+  protected override async toQueryView(record: DataRecord): Promise<DataRecord> {
+    return this.decompressRecord(record);
+  }
+
   // Batch processing for efficiency
   private async processBatch(): Promise<void> {
     if (this.batchBuffer.length === 0) return;
     
-    const batch = [...this.batchBuffer];
+    const batch = this.batchBuffer;
     this.batchBuffer = [];
     
+    let compressedBatch: DataRecord[];
     try {
       // Compress batch
-      const compressedBatch = await this.compressBatch(batch);
-      
-      // Store compressed batch
-      for (const record of compressedBatch) {
-        await super.store(record);
-        
-        // Schedule for retention management
-        this.scheduleForRetention(record);
+      compressedBatch = await this.compressBatch(batch.map(entry => entry.record));
+    } catch (error) {
+      batch.forEach(entry => entry.reject(error as Error));
+      return;
+    }
+    
+    // Store compressed batch, answering each writer with its own outcome
+    for (let i = 0; i < batch.length; i++) {
+      const record = compressedBatch[i];
+      try {
+        const success = await super.store(record);
+        if (success) {
+          batch[i].record.version = record.version;
+          batch[i].record.expiresAt = record.expiresAt;
+        }
         
         // Update archival index if needed
         if (record.metadata?.archived) {
           this.updateArchiveIndex(record);
         }
+        batch[i].resolve(success);
+      } catch (error) {
+        batch[i].reject(error as Error);
       }
-      
-      this.emit('batch_processed', {
-        batchSize: batch.length,
-        compressionRatio: this.compressionRatio,
-        timestamp: Date.now()
-      });
-      
-    } catch (error) {
-      // Return records to buffer on failure
-      this.batchBuffer.unshift(...batch);
-      throw error;
     }
+    
+    this.emit('batch_processed', {
+      batchSize: batch.length,
+      compressionRatio: this.compressionRatio,
+      timestamp: Date.now()
+    });
+  }
+
+  // Flush once the writes queued in the current turn have joined the buffer
+  private scheduleBatch(): void {
+    if (this.batchScheduled) return;
+    this.batchScheduled = true;
+    setImmediate(() => {
+      this.batchScheduled = false;
+      this.processBatch();
+    });
   }
 
   // Compression Methods
@@ -226,12 +295,11 @@ export class ColdMCP extends BaseMCP {
     let totalCompressedSize = 0;
     
     for (const record of batch) {
-      const originalSize = this.calculateRecordSize(record);
-      totalOriginalSize += originalSize;
-      
       const compressed = await this.compressRecord(record);
-      const compressedSize = this.calculateRecordSize(compressed);
-      totalCompressedSize += compressedSize;
+      
+      // Measured payload sizes, not estimates
+      totalOriginalSize += compressed.metadata?.originalSize ?? this.calculateRecordSize(record);
+      totalCompressedSize += compressed.metadata?.compressedSize ?? this.calculateRecordSize(record);
       
       compressedBatch.push(compressed);
     }
@@ -243,18 +311,16 @@ export class ColdMCP extends BaseMCP {
   }
 
   private async compressRecord(record: DataRecord): Promise<DataRecord> {
+    if (!this.coldConfig.compressionEnabled || isCompressedPayload(record.data)) {
+      return record;
+    }
+    
     try {
-      // Simulate compression based on level
-      const data = JSON.stringify(record.data);
-      const compressionFactor = this.getCompressionFactor();
-      
-      // Simulate compressed data (in reality, would use actual compression library)
-      const compressedData = {
-        ...record.data,
-        _compressed: true,
-        _originalSize: data.length,
-        _compressedSize: Math.floor(data.length * compressionFactor)
-      };
+      const compressedData = await compressPayload(
+        record.data,
+        this.coldConfig.compressionLevel,
+        this.coldConfig.compressionAlgorithm
+      );
       
       return {
         ...record,
@@ -263,34 +329,51 @@ export class ColdMCP extends BaseMCP {
           ...record.metadata,
           compressed: true,
           compressionLevel: this.coldConfig.compressionLevel,
-          originalSize: data.length,
-          compressedSize: Math.floor(data.length * compressionFactor)
+          compressionAlgorithm: compressedData.algorithm,
+          originalSize: compressedData._originalSize,
+          compressedSize: compressedData._compressedSize
         }
       };
     } catch (error) {
-      // Return original record if compression fails
+      // Store uncompressed if encoding fails
+      this.handleColdError('compress', error as Error);
       return record;
     }
   }
 
   private async decompress(data: any): Promise<any> {
-    if (!data._compressed) return data;
-    
-    // Simulate decompression
-    const { _compressed, _originalSize, _compressedSize, ...originalData } = data;
-    return originalData;
+    if (isCompressedPayload(data)) {
+      return decompressPayload(data);
+    }
+    if (data && data._compressed) {
+      // Legacy simulated format: payload kept inline next to the markers
+      const { _compressed, _originalSize, _compressedSize, ...originalData } = data;
+      return originalData;
+    }
+    return data;
   }
 
-  private getCompressionFactor(): number {
-    // Compression factors based on level (1=worst compression, 5=best compression)
-    const factors = {
-      1: 0.8,  // 20% compression
-      2: 0.6,  // 40% compression
-      3: 0.4,  // 60% compression
-      4: 0.3,  // 70% compression
-      5: 0.2   // 80% compression
+  private async decompressRecord(record: DataRecord): Promise<DataRecord> {
+    if (!record.metadata?.compressed) return record;
+    
+    return {
+      ...record,
+      data: await this.decodedPayload(record),
+      metadata: { ...record.metadata, compressed: false }
     };
-    return factors[this.coldConfig.compressionLevel] || 0.4;
+  }
+
+  // Scans decode every candidate, so repeated queries reuse the payloads decoded last time
+  private async decodedPayload(record: DataRecord): Promise<any> {
+    const cached = this.compressionCache.get(record.id);
+    this.compressionCache.delete(record.id);
+    
+    const data = cached && cached.payload === record.data ? cached.data : await this.decompress(record.data);
+    this.compressionCache.set(record.id, { payload: record.data, data });
+    if (this.compressionCache.size > MAX_CACHED_PAYLOADS) {
+      this.compressionCache.delete(this.compressionCache.keys().next().value!);
+    }
+    return data;
   }
 
   // Archival Management
@@ -321,20 +404,13 @@ export class ColdMCP extends BaseMCP {
     return 'archive';
   }
 
-  private scheduleForRetention(record: DataRecord): void {
+  // Records stored without their own expiry expire when their retention category runs out
+  protected override defaultExpiresAt(record: DataRecord): number | undefined {
     const retentionCategory = record.metadata?.archivalInfo?.retentionCategory || 'archive';
     const retentionDays = this.coldConfig.retentionPolicy.tierRetention[retentionCategory] || 
                          this.coldConfig.retentionPolicy.defaultRetention;
     
-    if (retentionDays > 0) {
-      const expirationDate = new Date(Date.now() + (retentionDays * 24 * 60 * 60 * 1000));
-      const dateKey = expirationDate.toISOString().split('T')[0];
-      
-      if (!this.retentionQueue.has(dateKey)) {
-        this.retentionQueue.set(dateKey, new Set());
-      }
-      this.retentionQueue.get(dateKey)!.add(record.id);
-    }
+    return retentionDays > 0 ? Date.now() + (retentionDays * 24 * 60 * 60 * 1000) : undefined;
   }
 
   private updateArchiveIndex(record: DataRecord): void {
@@ -351,7 +427,7 @@ export class ColdMCP extends BaseMCP {
       const record = await super.retrieve(id);
       
       if (record && archiveInfo.compressed) {
-        record.data = await this.decompress(record.data);
+        return await this.decompressRecord(record);
       }
       
       return record;
@@ -416,46 +492,6 @@ export class ColdMCP extends BaseMCP {
     }
   }
 
-  // Retention Management
-  private startRetentionManager(): void {
-    // Run retention cleanup daily at 2 AM
-    setInterval(() => {
-      this.performRetentionCleanup();
-    }, 86400000); // 24 hours
-  }
-
-  private async performRetentionCleanup(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-    let deletedCount = 0;
-    let reclaimedSpace = 0;
-    
-    for (const [expirationDate, recordIds] of this.retentionQueue) {
-      if (expirationDate <= today) {
-        for (const recordId of recordIds) {
-          try {
-            const record = await this.retrieve(recordId);
-            if (record) {
-              reclaimedSpace += this.calculateRecordSize(record);
-              await this.delete(recordId);
-              deletedCount++;
-            }
-          } catch (error) {
-            console.error(`Failed to delete expired record ${recordId}:`, error);
-          }
-        }
-        this.retentionQueue.delete(expirationDate);
-      }
-    }
-    
-    if (deletedCount > 0) {
-      this.emit('retention_cleanup', {
-        deletedRecords: deletedCount,
-        reclaimedSpaceBytes: reclaimedSpace,
-        timestamp: Date.now()
-      });
-    }
-  }
-
   // Background Optimization
   private startBackgroundOptimization(): void {
     // Run optimization tasks during off-peak hours
@@ -559,6 +595,7 @@ export class ColdMCP extends BaseMCP {
     // Initialize compression engine
     this.emit('compression_engine_initialized', {
       level: this.coldConfig.compressionLevel,
+      algorithm: resolveCodec(this.coldConfig.compressionLevel, this.coldConfig.compressionAlgorithm).algorithm,
       batchSize: this.coldConfig.batchSize
     });
   }
@@ -581,8 +618,7 @@ export class ColdMCP extends BaseMCP {
   }
 
   private initializeCompression(): void {
-    // Initialize compression algorithms
-    // In production, would set up actual compression libraries
+    // Codecs come from Node's zlib; nothing to set up beyond resolving the configured level
   }
 
   private configureBatchProcessing(): void {
@@ -632,7 +668,29 @@ export class ColdMCP extends BaseMCP {
       .reduce((total, record) => total + this.calculateRecordSize(record), 0);
     
     const compressedRecords = Array.from(this.records.values())
-      .filter(record => record.metadata?.compressed).length;
+      .filter(record => record.metadata?.compressed);
+    
+    // Measured from the encoded payloads currently held
+    const byAlgorithm: Record<string, { records: number; originalBytes: number; compressedBytes: number; ratio: number }> = {};
+    let originalBytes = 0;
+    let compressedBytes = 0;
+    for (const record of compressedRecords) {
+      const algorithm = record.metadata?.compressionAlgorithm || 'unknown';
+      const original = record.metadata?.originalSize || 0;
+      const compressed = record.metadata?.compressedSize || 0;
+      
+      if (!byAlgorithm[algorithm]) {
+        byAlgorithm[algorithm] = { records: 0, originalBytes: 0, compressedBytes: 0, ratio: 1 };
+      }
+      const entry = byAlgorithm[algorithm];
+      entry.records++;
+      entry.originalBytes += original;
+      entry.compressedBytes += compressed;
+      entry.ratio = entry.originalBytes > 0 ? entry.compressedBytes / entry.originalBytes : 1;
+      
+      originalBytes += original;
+      compressedBytes += compressed;
+    }
     
     const archivedRecords = this.archiveIndex.size;
     
@@ -640,12 +698,20 @@ export class ColdMCP extends BaseMCP {
       storage: {
         totalRecords: this.records.size,
         totalSizeBytes: totalSize,
-        compressionRatio: this.compressionRatio,
-        compressedRecords,
+        compressionRatio: originalBytes > 0 ? compressedBytes / originalBytes : 1,
+        lastBatchCompressionRatio: this.compressionRatio,
+        compressedRecords: compressedRecords.length,
         archivedRecords
       },
+      compression: {
+        algorithm: resolveCodec(this.coldConfig.compressionLevel, this.coldConfig.compressionAlgorithm).algorithm,
+        originalBytes,
+        compressedBytes,
+        savedBytes: originalBytes - compressedBytes,
+        byAlgorithm
+      },
       retention: {
-        pendingExpiration: this.retentionQueue.size,
+        pendingExpiration: this.getExpiryStats().scheduled,
         retentionCategories: Object.keys(this.coldConfig.retentionPolicy.tierRetention)
       },
       costOptimization: {
@@ -676,7 +742,6 @@ export class ColdMCP extends BaseMCP {
     // Clear caches
     this.compressionCache.clear();
     this.archiveIndex.clear();
-    this.retentionQueue.clear();
     
     await super.shutdown();
   }
@@ -0,0 +1,74 @@
+/**
+ * Text Embedding
+ * Default embedder for the vector index, usable without a model or network access
+ *
+ * HashingEmbedder maps each word and adjacent word pair to a signed bucket of a fixed-size
+ * vector (feature hashing), weights it by sublinear term frequency and normalizes the result.
+ * Texts sharing vocabulary land close together; synonyms do not, which is what a learned
+ * embedder plugged in through the Embedder interface is for.
+ */
+
+import { Embedder } from '../../types/mcp.types';
+import { tokenize } from './text_analysis';
+
+const BIGRAM_WEIGHT = 0.5;
+
+export interface HashingEmbedderOptions {
+  /** Vector length (default 256) */
+  dimensions?: number;
+  /** Also hash adjacent word pairs (default true) */
+  bigrams?: boolean;
+}
+
+export class HashingEmbedder implements Embedder {
+  readonly name = 'hashing';
+  readonly dimensions: number;
+  private readonly bigrams: boolean;
+
+  constructor(options: HashingEmbedderOptions = {}) {
+    this.dimensions = options.dimensions ?? 256;
+    this.bigrams = options.bigrams ?? true;
+    if (!Number.isInteger(this.dimensions) || this.dimensions <= 0) {
+      throw new Error(`Embedding dimensions must be a positive integer, got ${options.dimensions}`);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  embedText(text: string): number[] {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [token, count] of counts) {
+      this.addFeature(vector, token, 1 + Math.log(count));
+    }
+    if (this.bigrams) {
+      for (let i = 1; i < tokens.length; i++) {
+        this.addFeature(vector, `${tokens[i - 1]} ${tokens[i]}`, BIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // An independent hash picks the sign, so colliding features tend to cancel out rather than add up
+    const sign = (fnv1a(feature, 0x9e3779b9) & 1) === 0 ? 1 : -1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,292 @@
+/**
+ * MCP Filter Matcher
+ * Evaluates Mongo-style query filters against data records
+ *
+ * Supported syntax:
+ *   { field: value }                       equality (any element when the field holds an array)
+ *   { field: { $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex, $options, $prefix } }
+ *   { $and: [filter, ...] }, { $or: [filter, ...] }
+ *
+ * Field names resolve against the record envelope (id, domain, type, timestamp, ...) first
+ * and then against `record.data`; dotted paths walk nested objects and arrays.
+ */
+
+export type RecordPredicate = (record: any) => boolean;
+
+export interface FilterOptions {
+  /** Field read in place of another that a record does not carry, keyed by the field it stands in for */
+  fallbacks?: Record<string, string>;
+}
+
+// Regex operands are matched against every candidate record, so they are kept short and
+// free of the nested repetition that makes backtracking run in exponential time
+export const MAX_REGEX_LENGTH = 256;
+
+const FIELD_OPERATORS = new Set([
+  '$eq', '$ne', '$gt', '$gte', '$lt', '$lte', '$in', '$nin', '$exists', '$regex', '$options', '$prefix'
+]);
+
+export function isOperatorObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    !(value instanceof Date) && !(value instanceof RegExp) &&
+    Object.keys(value).some(key => key.startsWith('$'));
+}
+
+/**
+ * Resolve a dotted field path on a record.
+ * Walking through an array collects the path from every element.
+ */
+export function resolveFieldPath(record: any, path: string): any {
+  const segments = path.split('.');
+  const root = record !== null && typeof record === 'object' && record[segments[0]] === undefined &&
+    record.data !== null && typeof record.data === 'object'
+    ? record.data
+    : record;
+
+  return walkPath(root, segments);
+}
+
+/**
+ * Resolve a field path, reading its fallback field when the record does not carry it
+ */
+export function resolveFieldValue(record: any, path: string, fallbacks?: Record<string, string>): any {
+  const value = resolveFieldPath(record, path);
+  const fallback = fallbacks?.[path];
+  return value === undefined && fallback ? resolveFieldPath(record, fallback) : value;
+}
+
+function walkPath(current: any, segments: string[]): any {
+  for (let i = 0; i < segments.length; i++) {
+    if (current === null || current === undefined) return undefined;
+
+    const segment = segments[i];
+    if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+      const collected = current
+        .map(item => walkPath(item, segments.slice(i)))
+        .filter(value => value !== undefined);
+      return collected.length > 0 ? collected.flat() : undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Compile a filter once so repeated evaluation does not re-parse operators or regexes
+ */
+export function compileFilter(filter: Record<string, any> | undefined | null, options: FilterOptions = {}): RecordPredicate {
+  if (!filter || typeof filter !== 'object') {
+    return () => true;
+  }
+
+  const predicates: RecordPredicate[] = [];
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition)) {
+        throw new Error(`${key} requires an array of filters`);
+      }
+      const children = condition.map(child => compileFilter(child, options));
+      predicates.push(key === '$and'
+        ? record => children.every(child => child(record))
+        : record => children.some(child => child(record)));
+      continue;
+    }
+    if (key.startsWith('$')) {
+      throw new Error(`Unsupported filter operator: ${key}`);
+    }
+
+    const test = compileCondition(condition);
+    predicates.push(record => test(resolveFieldValue(record, key, options.fallbacks)));
+  }
+
+  return record => predicates.every(predicate => predicate(record));
+}
+
+export function matchesFilter(record: any, filter: Record<string, any> | undefined | null): boolean {
+  return compileFilter(filter)(record);
+}
+
+/**
+ * Order two values for range predicates; null when the types cannot be compared
+ */
+export function compareValues(a: any, b: any): number | null {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  if (typeof left === 'boolean' && typeof right === 'boolean') {
+    return Number(left) - Number(right);
+  }
+  return null;
+}
+
+function compileCondition(condition: any): (value: any) => boolean {
+  if (!isOperatorObject(condition)) {
+    return value => matchesEquality(value, condition);
+  }
+
+  const tests: Array<(value: any) => boolean> = [];
+
+  for (const [operator, operand] of Object.entries(condition)) {
+    if (!FIELD_OPERATORS.has(operator)) {
+      throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+
+    switch (operator) {
+      case '$eq':
+        tests.push(value => matchesEquality(value, operand));
+        break;
+      case '$ne':
+        tests.push(value => !matchesEquality(value, operand));
+        break;
+      case '$gt':
+        tests.push(value => someValue(value, v => (compareValues(v, operand) ?? NaN) > 0));
+        break;
+      case '$gte':
+        tests.push(value => someValue(value, v => (compareValues(v, operand) ?? NaN) >= 0));
+        break;
+      case '$lt':
+        tests.push(value => someValue(value, v => (compareValues(v, operand) ?? NaN) < 0));
+        break;
+      case '$lte':
+        tests.push(value => someValue(value, v => (compareValues(v, operand) ?? NaN) <= 0));
+        break;
+      case '$in': {
+        const candidates = toArray(operand);
+        tests.push(value => candidates.some(candidate => matchesEquality(value, candidate)));
+        break;
+      }
+      case '$nin': {
+        const candidates = toArray(operand);
+        tests.push(value => !candidates.some(candidate => matchesEquality(value, candidate)));
+        break;
+      }
+      case '$exists':
+        tests.push(value => (value !== undefined) === (operand !== false));
+        break;
+      case '$regex': {
+        const pattern = operand instanceof RegExp
+          ? operand
+          : compileRegex(String(operand), typeof condition.$options === 'string' ? condition.$options : '');
+        tests.push(value => someValue(value, v => typeof v === 'string' && pattern.test(v)));
+        break;
+      }
+      case '$prefix': {
+        const prefix = String(operand);
+        tests.push(value => someValue(value, v => typeof v === 'string' && v.startsWith(prefix)));
+        break;
+      }
+      case '$options':
+        // Consumed by $regex
+        break;
+    }
+  }
+
+  return value => tests.every(test => test(value));
+}
+
+/**
+ * Compile a $regex operand, refusing patterns too long or too prone to backtracking to match safely
+ */
+export function compileRegex(source: string, flags = ''): RegExp {
+  if (source.length > MAX_REGEX_LENGTH) {
+    throw new Error(`$regex filter is longer than ${MAX_REGEX_LENGTH} characters`);
+  }
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(source, flags);
+  } catch {
+    throw new Error(`Invalid regular expression in $regex filter: ${source}`);
+  }
+  if (repeatsAmbiguousGroup(source)) {
+    throw new Error('$regex filter repeats a group that holds a quantifier or alternation');
+  }
+  return pattern;
+}
+
+/**
+ * Whether a pattern repeats a group that can match the same text more than one way, as in
+ * (a+)+, (\w*,?){2,}, (a|aa)+ or (a?){30}
+ */
+function repeatsAmbiguousGroup(pattern: string): boolean {
+  // One entry per open group: whether anything inside it is quantified, and whether it alternates
+  const groups: Array<{ quantified: boolean; alternates: boolean }> = [];
+  let closedGroup: { quantified: boolean; alternates: boolean } | null = null;
+  let afterQuantifier = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const bounds = char === '{' ? /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i)) : null;
+    // A ? straight after another quantifier makes it lazy rather than quantifying again
+    const isQuantifier: boolean = char === '+' || char === '*' || (char === '?' && !afterQuantifier) || !!bounds;
+
+    if (isQuantifier) {
+      const max = !bounds ? (char === '?' ? 1 : Infinity) : !bounds[2] ? Number(bounds[1]) : bounds[3] ? Number(bounds[3]) : Infinity;
+      if (max > 1 && closedGroup && (closedGroup.quantified || closedGroup.alternates)) return true;
+      if (groups.length > 0) groups[groups.length - 1].quantified = true;
+      if (bounds) i += bounds[0].length - 1;
+    }
+    afterQuantifier = isQuantifier;
+    closedGroup = null;
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; quantifier characters inside it are literals
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++;
+      }
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternates: false });
+      // Skip a group modifier such as ?: or ?<name>; its ? quantifies nothing
+      const modifier = /^\?(<[=!]|<[^>]*>|[:=!])/.exec(pattern.slice(i + 1));
+      if (modifier) i += modifier[0].length;
+    } else if (char === '|' && groups.length > 0) {
+      groups[groups.length - 1].alternates = true;
+    } else if (char === ')' && groups.length > 0) {
+      const group = groups.pop()!;
+      if (group.quantified && groups.length > 0) groups[groups.length - 1].quantified = true;
+      closedGroup = group;
+    }
+  }
+  return false;
+}
+
+function matchesEquality(value: any, expected: any): boolean {
+  // null matches both explicit nulls and missing fields
+  if (expected === null) {
+    return value === null || value === undefined;
+  }
+  if (expected instanceof RegExp) {
+    return someValue(value, v => typeof v === 'string' && expected.test(v));
+  }
+  if (valuesEqual(value, expected)) {
+    return true;
+  }
+  return Array.isArray(value) && value.some(item => valuesEqual(item, expected));
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return compareValues(a, b) === 0;
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+function someValue(value: any, test: (value: any) => boolean): boolean {
+  return Array.isArray(value) ? value.some(test) : test(value);
+}
+
+function toArray(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,406 @@
+/**
+ * HNSW Vector Index
+ * Approximate k-nearest-neighbour search over embeddings (hierarchical navigable small world graph)
+ *
+ * Every vector is a node on layers 0..level, with levels drawn so each layer holds roughly 1/m of
+ * the nodes below it. A search descends greedily through the sparse upper layers and then runs a
+ * best-first search on layer 0 with a candidate list of efSearch. Removed nodes stay in the graph
+ * as tombstones so their links keep it navigable; once tombstones outnumber live nodes the graph
+ * is rebuilt from the live ones.
+ */
+
+import { VectorMetric } from '../../types/mcp.types';
+
+export interface HnswOptions {
+  dimensions: number;
+  metric?: VectorMetric;
+  /** Links per node on the upper layers; layer 0 keeps twice as many (default 16) */
+  m?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  /** Seed for level assignment, so the same inserts always build the same graph */
+  seed?: number;
+}
+
+export interface VectorHit {
+  id: string;
+  score: number;
+}
+
+export interface VectorSearchOptions {
+  efSearch?: number;
+  /** Only IDs passing this may be returned; rejected nodes are still traversed */
+  accept?: (id: string) => boolean;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Scored {
+  node: number;
+  score: number;
+}
+
+// Tiny graphs are cheap to keep however many tombstones they carry
+const MIN_TOMBSTONES_FOR_REBUILD = 64;
+
+export class HnswIndex {
+  readonly dimensions: number;
+  readonly metric: VectorMetric;
+  private readonly m: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelFactor: number;
+  private random: () => number;
+
+  private nodes: HnswNode[] = [];
+  private nodeById: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private tombstones = 0;
+
+  constructor(options: HnswOptions) {
+    if (!Number.isInteger(options.dimensions) || options.dimensions <= 0) {
+      throw new Error(`Vector dimensions must be a positive integer, got ${options.dimensions}`);
+    }
+    this.dimensions = options.dimensions;
+    this.metric = options.metric || 'cosine';
+    this.m = Math.max(2, options.m ?? 16);
+    this.efConstruction = Math.max(this.m, options.efConstruction ?? 200);
+    this.efSearch = Math.max(1, options.efSearch ?? 64);
+    this.levelFactor = 1 / Math.log(this.m);
+    this.random = mulberry32(options.seed ?? 0x5eed);
+  }
+
+  /** Live vectors */
+  get size(): number {
+    return this.nodeById.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodeById.has(id);
+  }
+
+  /**
+   * Insert a vector, replacing any previous vector for the ID
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    const prepared = this.prepare(vector, id);
+    this.remove(id);
+    this.insert(id, prepared);
+  }
+
+  remove(id: string): boolean {
+    const index = this.nodeById.get(id);
+    if (index === undefined) return false;
+
+    this.nodes[index].deleted = true;
+    this.nodeById.delete(id);
+    this.tombstones++;
+
+    if (this.tombstones >= MIN_TOMBSTONES_FOR_REBUILD && this.tombstones > this.nodeById.size) {
+      this.rebuild();
+    }
+    return true;
+  }
+
+  /**
+   * Approximate top-k by similarity, best first
+   */
+  search(query: ArrayLike<number>, k: number, options: VectorSearchOptions = {}): VectorHit[] {
+    const prepared = this.prepare(query, 'query');
+    if (k <= 0 || this.nodeById.size === 0) return [];
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(prepared, current, layer);
+    }
+
+    const accept = options.accept;
+    const ef = Math.max(options.efSearch ?? this.efSearch, k);
+    const found = this.searchLayer(prepared, [current], ef, 0, node => {
+      const entry = this.nodes[node];
+      return !entry.deleted && (!accept || accept(entry.id));
+    });
+
+    return found.slice(0, k).map(({ node, score }) => ({ id: this.nodes[node].id, score }));
+  }
+
+  /**
+   * Exact top-k among the given IDs; cheaper than the graph when a filter leaves few candidates
+   */
+  searchAmong(query: ArrayLike<number>, ids: Iterable<string>, k: number): VectorHit[] {
+    const prepared = this.prepare(query, 'query');
+    const hits: VectorHit[] = [];
+    for (const id of ids) {
+      const index = this.nodeById.get(id);
+      if (index !== undefined) {
+        hits.push({ id, score: similarity(prepared, this.nodes[index].vector) });
+      }
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, Math.max(0, k));
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.nodeById.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.tombstones = 0;
+  }
+
+  getStats(): { vectors: number; tombstones: number; layers: number; dimensions: number; metric: VectorMetric } {
+    return {
+      vectors: this.nodeById.size,
+      tombstones: this.tombstones,
+      layers: this.maxLevel + 1,
+      dimensions: this.dimensions,
+      metric: this.metric
+    };
+  }
+
+  private insert(id: string, vector: Float32Array): void {
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+    const index = this.nodes.length;
+    this.nodes.push({ id, vector, neighbors: Array.from({ length: level + 1 }, () => []), deleted: false });
+    this.nodeById.set(id, index);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(vector, current, layer);
+    }
+
+    let entries = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entries, this.efConstruction, layer);
+      const selected = this.selectNeighbors(candidates, this.m);
+      this.nodes[index].neighbors[layer] = selected.map(candidate => candidate.node);
+
+      for (const { node } of selected) {
+        const links = this.nodes[node].neighbors[layer];
+        links.push(index);
+        if (links.length > this.maxLinks(layer)) {
+          this.pruneLinks(node, layer);
+        }
+      }
+      entries = candidates.map(candidate => candidate.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = index;
+    }
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  private pruneLinks(node: number, layer: number): void {
+    const vector = this.nodes[node].vector;
+    const candidates = this.nodes[node].neighbors[layer]
+      .map(neighbor => ({ node: neighbor, score: similarity(vector, this.nodes[neighbor].vector) }))
+      .sort((a, b) => b.score - a.score);
+    this.nodes[node].neighbors[layer] = this.selectNeighbors(candidates, this.maxLinks(layer)).map(c => c.node);
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates closer to the base than to any neighbour
+   * already chosen, so links point in diverse directions; top up with the rest if short.
+   * Candidates arrive best first.
+   */
+  private selectNeighbors(candidates: Scored[], limit: number): Scored[] {
+    const selected: Scored[] = [];
+    const skipped: Scored[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= limit) break;
+      const vector = this.nodes[candidate.node].vector;
+      const diverse = selected.every(chosen => similarity(vector, this.nodes[chosen.node].vector) < candidate.score);
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= limit) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private greedyClosest(query: Float32Array, start: number, layer: number): number {
+    let current = start;
+    let best = similarity(query, this.nodes[current].vector);
+
+    for (let improved = true; improved;) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[layer] || []) {
+        const score = similarity(query, this.nodes[neighbor].vector);
+        if (score > best) {
+          best = score;
+          current = neighbor;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer; returns up to ef results passing `accept`, best first
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    layer: number,
+    accept?: (node: number) => boolean
+  ): Scored[] {
+    const visited = new Set<number>(entries);
+    // Candidates pop best first; results keep the worst on top so it can be evicted
+    const candidates = new BinaryHeap<Scored>((a, b) => b.score - a.score);
+    const results = new BinaryHeap<Scored>((a, b) => a.score - b.score);
+
+    for (const node of entries) {
+      const scored = { node, score: similarity(query, this.nodes[node].vector) };
+      candidates.push(scored);
+      if (!accept || accept(node)) results.push(scored);
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.score < results.peek()!.score) break;
+
+      for (const neighbor of this.nodes[current.node].neighbors[layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const score = similarity(query, this.nodes[neighbor].vector);
+        if (results.size < ef || score > results.peek()!.score) {
+          candidates.push({ node: neighbor, score });
+          if (!accept || accept(neighbor)) {
+            results.push({ node: neighbor, score });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.drain().reverse();
+  }
+
+  private rebuild(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    this.clear();
+    for (const node of live) {
+      this.insert(node.id, node.vector);
+    }
+  }
+
+  private prepare(vector: ArrayLike<number>, label: string): Float32Array {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a ${this.dimensions}-dimensional vector for ${label}, got ${vector.length}`);
+    }
+
+    const prepared = Float32Array.from(vector);
+    if (prepared.some(value => !Number.isFinite(value))) {
+      throw new Error(`Vector for ${label} contains non-finite values`);
+    }
+    if (this.metric === 'cosine') {
+      // Unit vectors turn cosine similarity into a plain dot product
+      const norm = Math.sqrt(similarity(prepared, prepared));
+      if (norm > 0) {
+        for (let i = 0; i < prepared.length; i++) prepared[i] /= norm;
+      }
+    }
+    return prepared;
+  }
+}
+
+function similarity(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Binary heap; the item the comparator orders first sits on top
+ */
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.items[index], this.items[parent]) >= 0) break;
+      [this.items[index], this.items[parent]] = [this.items[parent], this.items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let first = index;
+        if (left < this.items.length && this.compare(this.items[left], this.items[first]) < 0) first = left;
+        if (right < this.items.length && this.compare(this.items[right], this.items[first]) < 0) first = right;
+        if (first === index) break;
+        [this.items[index], this.items[first]] = [this.items[first], this.items[index]];
+        index = first;
+      }
+    }
+    return top;
+  }
+
+  /** Remove every item, in heap order */
+  drain(): T[] {
+    const drained: T[] = [];
+    while (this.items.length > 0) {
+      drained.push(this.pop()!);
+    }
+    return drained;
+  }
+}
@@ -4,13 +4,15 @@
  */
 
 import { BaseMCP } from './base_mcp';
+import { VersionConflictError } from './versioning';
 import {
   MCPCapabilities,
   DataRecord,
   MCPDomain,
   MCPType,
   MCPConfig,
-  AccessPattern
+  AccessPattern,
+  WriteOptions
 } from '../../types/mcp.types';
 
 interface HotMCPConfig extends MCPConfig {
@@ -98,12 +100,12 @@ export class HotMCP extends BaseMCP {
   }
 
   // Enhanced store method with aggressive caching
-  override async store(record: DataRecord): Promise<boolean> {
+  override async store(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
     const startTime = Date.now();
     
     try {
       // Store in main storage first
-      const success = await super.store(record);
+      const success = await super.store(record, options);
       
       if (success) {
         // Immediately cache the record
@@ -120,6 +122,9 @@ export class HotMCP extends BaseMCP {
       
       return success;
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
       this.handleHotError('store', error as Error);
       return false;
     }
@@ -131,7 +136,9 @@ export class HotMCP extends BaseMCP {
     
     // L1 Cache check (hot cache)
     const cached = this.cache.get(id);
-    if (cached) {
+    if (cached && this.isExpired(cached.data)) {
+      this.cache.delete(id);
+    } else if (cached) {
       cached.lastAccess = Date.now();
       cached.accessCount++;
       this.updatePerformanceMetrics('retrieve_cache_hit', Date.now() - startTime);
@@ -140,7 +147,9 @@ export class HotMCP extends BaseMCP {
     
     // L2 Cache check (preload cache)
     const preloaded = this.preloadCache.get(id);
-    if (preloaded) {
+    if (preloaded && this.isExpired(preloaded)) {
+      this.preloadCache.delete(id);
+    } else if (preloaded) {
       this.promoteToHotCache(id, preloaded);
       this.updatePerformanceMetrics('retrieve_preload_hit', Date.now() - startTime);
       return preloaded;
@@ -175,7 +184,7 @@ export class HotMCP extends BaseMCP {
     const cachedResult = this.queryOptimizer.get(queryKey);
     if (cachedResult && cachedResult.expiry > Date.now()) {
       this.updatePerformanceMetrics('query_cache_hit', Date.now() - startTime);
-      return cachedResult.data;
+      return cachedResult.data.filter((record: DataRecord) => !this.isExpired(record));
     }
     
     try {
@@ -260,7 +269,17 @@ export class HotMCP extends BaseMCP {
 
   // Query Optimization
   private generateQueryKey(filters: Record<string, any>): string {
-    return JSON.stringify(filters, Object.keys(filters).sort());
+    // Sort keys at every depth so nested operator objects are part of the key
+    const normalize = (value: any): any => {
+      if (Array.isArray(value)) return value.map(normalize);
+      if (value instanceof RegExp) return value.toString();
+      if (!value || typeof value !== 'object' || value instanceof Date) return value;
+      return Object.keys(value).sort().reduce((acc, key) => {
+        acc[key] = normalize(value[key]);
+        return acc;
+      }, {} as Record<string, any>);
+    };
+    return JSON.stringify(normalize(filters));
   }
 
   private cacheQueryResult(queryKey: string, results: DataRecord[]): void {
@@ -0,0 +1,214 @@
+/**
+ * Cost-Based Index Selector
+ * Turns filter predicates into ordered-index scans and picks the cheapest one
+ */
+
+import { isOperatorObject } from './filter_matcher';
+import { IndexKey, KeyRange, OrderedIndex, compareIndexValues } from './ordered_index';
+
+export interface IndexScanPlan {
+  indexName: string;
+  /** Leading index fields the scan constrains */
+  fieldsUsed: string[];
+  ranges: KeyRange[];
+}
+
+export interface IndexSelection extends IndexScanPlan {
+  candidateIds: Set<string>;
+  /** Distinct records the scan visits */
+  cost: number;
+}
+
+// Cap on point lookups produced by $in fan-out across compound fields
+const MAX_POINT_RANGES = 64;
+
+/**
+ * Field conditions that must all hold: top-level keys plus the contents of $and
+ */
+export function collectConjuncts(filters: Record<string, any>): Array<[string, any]> {
+  const conjuncts: Array<[string, any]> = [];
+
+  for (const [key, condition] of Object.entries(filters || {})) {
+    if (key === '$and' && Array.isArray(condition)) {
+      condition.forEach(child => conjuncts.push(...collectConjuncts(child)));
+    } else if (!key.startsWith('$')) {
+      conjuncts.push([key, condition]);
+    }
+  }
+  return conjuncts;
+}
+
+/**
+ * Plan a scan of one index: equality on leading fields, then at most one range or prefix
+ */
+export function planIndexScan(index: OrderedIndex, conjuncts: Array<[string, any]>): IndexScanPlan | null {
+  const conditionsByField = new Map<string, any[]>();
+  for (const [field, condition] of conjuncts) {
+    conditionsByField.set(field, [...(conditionsByField.get(field) || []), condition]);
+  }
+
+  let prefixes: IndexKey[] = [[]];
+  const fieldsUsed: string[] = [];
+
+  for (const field of index.definition.fields) {
+    const conditions = conditionsByField.get(field);
+    if (!conditions) break;
+
+    const values = equalityValues(conditions);
+    if (values && prefixes.length * values.length <= MAX_POINT_RANGES) {
+      prefixes = prefixes.flatMap(prefix => values.map(value => [...prefix, value]));
+      fieldsUsed.push(field);
+      continue;
+    }
+
+    const bounds = !values ? rangeBounds(conditions) : null;
+    if (bounds) {
+      fieldsUsed.push(field);
+      return {
+        indexName: index.name,
+        fieldsUsed,
+        ranges: prefixes.map(prefix => ({
+          lower: bounds.lower
+            ? { key: [...prefix, bounds.lower.value], inclusive: bounds.lower.inclusive }
+            : prefix.length > 0 ? { key: prefix, inclusive: true } : undefined,
+          upper: bounds.upper
+            ? { key: [...prefix, bounds.upper.value], inclusive: bounds.upper.inclusive }
+            : prefix.length > 0 ? { key: prefix, inclusive: true } : undefined
+        }))
+      };
+    }
+    break;
+  }
+
+  if (fieldsUsed.length === 0) return null;
+
+  return {
+    indexName: index.name,
+    fieldsUsed,
+    ranges: prefixes.map(prefix => ({
+      lower: { key: prefix, inclusive: true },
+      upper: { key: prefix, inclusive: true }
+    }))
+  };
+}
+
+/**
+ * Pick the index whose scan visits the fewest records, or null when a full scan is as cheap
+ */
+export function selectIndex(
+  indexes: Iterable<OrderedIndex>,
+  filters: Record<string, any>,
+  fullScanCost: number
+): IndexSelection | null {
+  const conjuncts = collectConjuncts(filters);
+  if (conjuncts.length === 0) return null;
+
+  let best: IndexSelection | null = null;
+
+  for (const index of indexes) {
+    const plan = planIndexScan(index, conjuncts);
+    if (!plan) continue;
+
+    // Stop scanning once this index is no cheaper than the best so far
+    const budget = best ? best.cost : fullScanCost - 1;
+    const candidateIds = index.collect(plan.ranges, budget);
+    if (!candidateIds) continue;
+
+    const cost = candidateIds.size;
+    if (!best || cost < best.cost || (cost === best.cost && plan.fieldsUsed.length > best.fieldsUsed.length)) {
+      best = { ...plan, candidateIds, cost };
+    }
+  }
+
+  return best;
+}
+
+function isScalar(value: any): boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ||
+    value instanceof Date;
+}
+
+/**
+ * Values an equality-style condition admits; null when it is not a point lookup.
+ * null itself is excluded because it also matches missing fields.
+ */
+function equalityValues(conditions: any[]): any[] | null {
+  for (const condition of conditions) {
+    if (!isOperatorObject(condition)) {
+      if (isScalar(condition)) return [condition];
+      continue;
+    }
+    if ('$eq' in condition && isScalar(condition.$eq)) {
+      return [condition.$eq];
+    }
+    if (Array.isArray(condition.$in) && condition.$in.length > 0 && condition.$in.every(isScalar)) {
+      return condition.$in;
+    }
+  }
+  return null;
+}
+
+function rangeBounds(conditions: any[]): {
+  lower?: { value: any; inclusive: boolean };
+  upper?: { value: any; inclusive: boolean };
+} | null {
+  let lower: { value: any; inclusive: boolean } | undefined;
+  let upper: { value: any; inclusive: boolean } | undefined;
+
+  const tighten = (bound: 'lower' | 'upper', value: any, inclusive: boolean) => {
+    if (!isScalar(value)) return;
+    const current = bound === 'lower' ? lower : upper;
+    const result = current ? compareIndexValues(value, current.value) : 0;
+    const tighter = !current || (bound === 'lower' ? result > 0 : result < 0) ||
+      (result === 0 && !inclusive);
+    if (!tighter) return;
+    if (bound === 'lower') lower = { value, inclusive };
+    else upper = { value, inclusive };
+  };
+
+  for (const condition of conditions) {
+    if (!isOperatorObject(condition)) continue;
+
+    if ('$gt' in condition) tighten('lower', condition.$gt, false);
+    if ('$gte' in condition) tighten('lower', condition.$gte, true);
+    if ('$lt' in condition) tighten('upper', condition.$lt, false);
+    if ('$lte' in condition) tighten('upper', condition.$lte, true);
+
+    const prefix = typeof condition.$prefix === 'string'
+      ? condition.$prefix
+      : literalRegexPrefix(condition.$regex, condition.$options);
+    if (prefix) {
+      tighten('lower', prefix, true);
+      tighten('upper', `${prefix}\uffff`, true);
+    }
+  }
+
+  return lower || upper ? { lower, upper } : null;
+}
+
+/**
+ * Literal prefix of an anchored, case-sensitive regex such as '^abc\\.d'
+ */
+function literalRegexPrefix(pattern: any, options: any): string | null {
+  if (typeof pattern !== 'string' || !pattern.startsWith('^') || pattern.includes('|')) return null;
+  if (typeof options === 'string' && options.includes('i')) return null;
+
+  let prefix = '';
+  for (let i = 1; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      if (next === undefined || /[a-zA-Z0-9]/.test(next)) break;
+      prefix += next;
+      i++;
+      continue;
+    }
+    if ('.*+?^${}()[]'.includes(char)) {
+      // A quantifier applies to the previous character, which is then optional
+      if ('*+?{'.includes(char)) prefix = prefix.slice(0, -1);
+      break;
+    }
+    prefix += char;
+  }
+  return prefix.length > 0 ? prefix : null;
+}
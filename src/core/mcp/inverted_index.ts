@@ -0,0 +1,299 @@
+/**
+ * Inverted Index
+ * Full-text index with BM25 ranking, phrase and prefix queries, and highlight snippets
+ *
+ * Text is analyzed into stemmed, stop-word-free terms; each term keeps the positions it
+ * occurs at per document, so phrases can be verified without rereading the text.
+ *
+ * Query syntax: plain words are optional and ranked by BM25, "quoted phrases" must appear
+ * with their words adjacent, and a trailing * matches every indexed term with that prefix.
+ */
+
+import { analyze, stem, tokenSpans, tokenize } from './text_analysis';
+
+export interface InvertedIndexOptions {
+  /** Term frequency saturation (default 1.2) */
+  k1?: number;
+  /** Document length normalization, 0-1 (default 0.75) */
+  b?: number;
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[][];
+  prefixes: string[];
+}
+
+export interface TextHit {
+  id: string;
+  score: number;
+}
+
+export interface HighlightOptions {
+  /** Approximate snippet length in characters (default 160) */
+  fragmentSize?: number;
+  /** Snippets per text (default 3) */
+  maxFragments?: number;
+  preTag?: string;
+  postTag?: string;
+}
+
+// A short prefix could otherwise expand to most of the vocabulary
+const MAX_PREFIX_EXPANSIONS = 64;
+
+/**
+ * Split a query into ranked terms, required phrases and prefixes, analyzed like indexed text
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const phrases: string[][] = [];
+  const prefixes: string[] = [];
+  const terms: string[] = [];
+
+  const remainder = query.replace(/"([^"]*)"/g, (_match, phrase: string) => {
+    const phraseTerms = analyze(phrase);
+    if (phraseTerms.length > 0) phrases.push(phraseTerms);
+    return ' ';
+  });
+
+  for (const word of remainder.split(/\s+/)) {
+    if (word.endsWith('*')) {
+      // Prefixes are matched against stemmed terms, so they are not stemmed themselves
+      const prefix = tokenize(word.slice(0, -1))[0];
+      if (prefix) prefixes.push(prefix);
+    } else {
+      terms.push(...analyze(word));
+    }
+  }
+
+  return { terms: Array.from(new Set(terms)), phrases, prefixes: Array.from(new Set(prefixes)) };
+}
+
+export class InvertedIndex {
+  private readonly k1: number;
+  private readonly b: number;
+
+  // term -> document ID -> positions of the term in the document
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  private documentLengths: Map<string, number> = new Map();
+  private documentTerms: Map<string, string[]> = new Map();
+  private totalLength = 0;
+  // Vocabulary in sort order for prefix expansion, rebuilt lazily after it changes
+  private sortedTerms: string[] | null = null;
+
+  constructor(options: InvertedIndexOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /** Indexed documents */
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  /**
+   * Index a document's text, replacing whatever was indexed for the ID before
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const terms = analyze(text);
+    terms.forEach((term, position) => {
+      let documents = this.postings.get(term);
+      if (!documents) {
+        documents = new Map();
+        this.postings.set(term, documents);
+        this.sortedTerms = null;
+      }
+      const positions = documents.get(id);
+      if (positions) {
+        positions.push(position);
+      } else {
+        documents.set(id, [position]);
+      }
+    });
+
+    this.documentLengths.set(id, terms.length);
+    this.documentTerms.set(id, Array.from(new Set(terms)));
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): boolean {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return false;
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(id);
+      if (documents && documents.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.documentLengths.delete(id);
+    this.documentTerms.delete(id);
+    return true;
+  }
+
+  /**
+   * Documents matching the query, best first. Every phrase must match; when the query also has
+   * words or prefixes, at least one of them must match too.
+   */
+  search(query: string | ParsedSearchQuery, options: { limit?: number; accept?: (id: string) => boolean } = {}): TextHit[] {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const rankedTerms = [...parsed.terms, ...parsed.prefixes.flatMap(prefix => this.expandPrefix(prefix))];
+    const candidates = this.candidatesFor(parsed, rankedTerms);
+
+    const hits: TextHit[] = [];
+    for (const id of candidates) {
+      if (options.accept && !options.accept(id)) continue;
+      if (!parsed.phrases.every(phrase => this.containsPhrase(id, phrase))) continue;
+
+      let score = 0;
+      for (const term of new Set([...rankedTerms, ...parsed.phrases.flat()])) {
+        score += this.termScore(term, id);
+      }
+      hits.push({ id, score });
+    }
+
+    hits.sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    return options.limit !== undefined ? hits.slice(0, Math.max(0, options.limit)) : hits;
+  }
+
+  /**
+   * Whether `search` would return the document for the query, without ranking the others
+   */
+  matches(id: string, query: string | ParsedSearchQuery): boolean {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return false;
+
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    if (!parsed.phrases.every(phrase => this.containsPhrase(id, phrase))) return false;
+    if (parsed.terms.length === 0 && parsed.prefixes.length === 0) {
+      return parsed.phrases.length > 0;
+    }
+    return terms.some(term => parsed.terms.includes(term) || parsed.prefixes.some(prefix => term.startsWith(prefix)));
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documentLengths.clear();
+    this.documentTerms.clear();
+    this.totalLength = 0;
+    this.sortedTerms = null;
+  }
+
+  getStats(): { documents: number; terms: number; averageLength: number } {
+    return {
+      documents: this.documentLengths.size,
+      terms: this.postings.size,
+      averageLength: this.documentLengths.size > 0 ? this.totalLength / this.documentLengths.size : 0
+    };
+  }
+
+  private candidatesFor(parsed: ParsedSearchQuery, rankedTerms: string[]): Set<string> {
+    const candidates = new Set<string>();
+
+    if (rankedTerms.length > 0 || parsed.phrases.length === 0) {
+      for (const term of rankedTerms) {
+        this.postings.get(term)?.forEach((_positions, id) => candidates.add(id));
+      }
+      return candidates;
+    }
+
+    // Phrase-only queries start from the rarest phrase term
+    const rarest = parsed.phrases.flat().reduce((best, term) =>
+      (this.postings.get(term)?.size ?? 0) < (this.postings.get(best)?.size ?? 0) ? term : best);
+    this.postings.get(rarest)?.forEach((_positions, id) => candidates.add(id));
+    return candidates;
+  }
+
+  private containsPhrase(id: string, phrase: string[]): boolean {
+    const positionSets = phrase.map(term => new Set(this.postings.get(term)?.get(id) || []));
+    if (positionSets.some(positions => positions.size === 0)) return false;
+
+    for (const start of positionSets[0]) {
+      if (positionSets.every((positions, offset) => positions.has(start + offset))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private termScore(term: string, id: string): number {
+    const documents = this.postings.get(term);
+    const frequency = documents?.get(id)?.length ?? 0;
+    if (!documents || frequency === 0) return 0;
+
+    const documentCount = this.documentLengths.size;
+    const idf = Math.log(1 + (documentCount - documents.size + 0.5) / (documents.size + 0.5));
+    const averageLength = this.totalLength / documentCount || 1;
+    const lengthRatio = (this.documentLengths.get(id) || 0) / averageLength;
+    return idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + this.b * lengthRatio));
+  }
+
+  private expandPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+
+    // Binary search for the first term >= prefix, then walk while terms share it
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.sortedTerms[mid] < prefix) low = mid + 1; else high = mid;
+    }
+
+    const expansions: string[] = [];
+    for (let i = low; i < this.sortedTerms.length && expansions.length < MAX_PREFIX_EXPANSIONS; i++) {
+      if (!this.sortedTerms[i].startsWith(prefix)) break;
+      expansions.push(this.sortedTerms[i]);
+    }
+    return expansions;
+  }
+}
+
+/**
+ * Snippets of `text` around the words the query matched, with those words wrapped in tags
+ */
+export function highlight(text: string, query: string | ParsedSearchQuery, options: HighlightOptions = {}): string[] {
+  const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+  const fragmentSize = options.fragmentSize ?? 160;
+  const maxFragments = options.maxFragments ?? 3;
+  const preTag = options.preTag ?? '<mark>';
+  const postTag = options.postTag ?? '</mark>';
+
+  const wanted = new Set([...parsed.terms, ...parsed.phrases.flat()]);
+  const matches = tokenSpans(text).filter(span =>
+    wanted.has(stem(span.token)) || parsed.prefixes.some(prefix => span.token.startsWith(prefix)));
+
+  const fragments: string[] = [];
+  let next = 0;
+  while (next < matches.length && fragments.length < maxFragments) {
+    // Open the window a little before the match, on a word boundary
+    let start = Math.max(0, matches[next].start - Math.floor(fragmentSize / 4));
+    if (start > 0) {
+      const boundary = text.lastIndexOf(' ', start);
+      start = boundary >= 0 ? boundary + 1 : 0;
+    }
+    let end = Math.min(text.length, start + fragmentSize);
+    if (end < text.length) {
+      const boundary = text.indexOf(' ', Math.max(end, matches[next].end));
+      end = boundary >= 0 ? boundary : text.length;
+    }
+
+    let fragment = '';
+    let cursor = start;
+    while (next < matches.length && matches[next].end <= end) {
+      const match = matches[next++];
+      fragment += text.slice(cursor, match.start) + preTag + text.slice(match.start, match.end) + postTag;
+      cursor = match.end;
+    }
+    fragment += text.slice(cursor, end);
+
+    fragments.push(`${start > 0 ? '…' : ''}${fragment.trim()}${end < text.length ? '…' : ''}`);
+  }
+  return fragments;
+}
@@ -0,0 +1,327 @@
+/**
+ * Ordered Secondary Index
+ * Skip-list index over (compound key, record ID) entries supporting point, range and prefix scans
+ */
+
+import { resolveFieldValue } from './filter_matcher';
+
+export type IndexKey = any[];
+
+export interface IndexDefinition {
+  name: string;
+  /** Indexed fields in key order; dotted paths resolve like query filters */
+  fields: string[];
+  /** Reject records whose key is already held by another record */
+  unique: boolean;
+  /** Skip records that have none of the indexed fields */
+  sparse: boolean;
+}
+
+/**
+ * Scan bounds; a bound key may be a prefix of the index key
+ */
+export interface KeyRange {
+  lower?: { key: IndexKey; inclusive: boolean };
+  upper?: { key: IndexKey; inclusive: boolean };
+}
+
+/**
+ * The keys two ranges both admit
+ */
+export function intersectRanges(a: KeyRange, b: KeyRange): KeyRange {
+  const tighter = (x: KeyRange['lower'], y: KeyRange['lower'], direction: 1 | -1) => {
+    if (!x || !y) return x || y;
+    const result = compareIndexKeys(x.key, y.key) * direction;
+    if (result !== 0) return result > 0 ? x : y;
+    return { key: x.key, inclusive: x.inclusive && y.inclusive };
+  };
+  return { lower: tighter(a.lower, b.lower, 1), upper: tighter(a.upper, b.upper, -1) };
+}
+
+export class UniqueIndexViolationError extends Error {
+  constructor(
+    public readonly indexName: string,
+    public readonly key: IndexKey,
+    public readonly existingId: string
+  ) {
+    super(`Unique index "${indexName}" already holds ${JSON.stringify(key)} for record ${existingId}`);
+    this.name = 'UniqueIndexViolationError';
+  }
+}
+
+interface SkipNode {
+  key: IndexKey;
+  id: string;
+  next: Array<SkipNode | null>;
+}
+
+const MAX_LEVEL = 24;
+const PROMOTION_PROBABILITY = 0.5;
+
+/**
+ * Total order across value types: undefined < null < boolean < number/Date < string < other
+ */
+export function compareIndexValues(a: any, b: any): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  switch (rankA) {
+    case 0:
+    case 1:
+      return 0;
+    case 2:
+      return Number(a) - Number(b);
+    case 3: {
+      const left = a instanceof Date ? a.getTime() : a;
+      const right = b instanceof Date ? b.getTime() : b;
+      return left < right ? -1 : left > right ? 1 : 0;
+    }
+    case 4:
+      return a < b ? -1 : a > b ? 1 : 0;
+    default: {
+      const left = JSON.stringify(a);
+      const right = JSON.stringify(b);
+      return left < right ? -1 : left > right ? 1 : 0;
+    }
+  }
+}
+
+export function compareIndexKeys(a: IndexKey, b: IndexKey): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const result = compareIndexValues(a[i], b[i]);
+    if (result !== 0) return result;
+  }
+  return a.length - b.length;
+}
+
+function typeRank(value: any): number {
+  if (value === undefined) return 0;
+  if (value === null) return 1;
+  if (typeof value === 'boolean') return 2;
+  if (typeof value === 'number' || value instanceof Date) return 3;
+  if (typeof value === 'string') return 4;
+  return 5;
+}
+
+export class OrderedIndex {
+  readonly definition: IndexDefinition;
+  private head: SkipNode = { key: [], id: '', next: new Array(MAX_LEVEL).fill(null) };
+  private level = 1;
+  private entryCount = 0;
+  // Keys each record was indexed under, so removal does not depend on the record's current state
+  private recordKeys: Map<string, IndexKey[]> = new Map();
+  // Fields read in place of indexed ones a record does not carry, as filters read them
+  private fallbacks: Record<string, string>;
+
+  constructor(definition: IndexDefinition, fallbacks: Record<string, string> = {}) {
+    this.definition = definition;
+    this.fallbacks = fallbacks;
+  }
+
+  get name(): string {
+    return this.definition.name;
+  }
+
+  /** Number of (key, record) entries; multikey records contribute one entry per key */
+  get size(): number {
+    return this.entryCount;
+  }
+
+  get recordCount(): number {
+    return this.recordKeys.size;
+  }
+
+  /**
+   * Keys a record is indexed under. Array values fan out into one key per element.
+   */
+  keysFor(record: any): IndexKey[] {
+    const values = this.definition.fields.map(field => resolveFieldValue(record, field, this.fallbacks));
+
+    if (this.definition.sparse && values.every(value => value === undefined)) {
+      return [];
+    }
+
+    let keys: IndexKey[] = [[]];
+    for (const value of values) {
+      const components = Array.isArray(value) && value.length > 0 ? Array.from(new Set(value)) : [value];
+      keys = keys.flatMap(prefix => components.map(component => [...prefix, component]));
+    }
+    return keys;
+  }
+
+  /**
+   * Throw if a unique index already holds one of the record's keys for another record.
+   * Keys with a missing component are not subject to uniqueness.
+   */
+  checkUnique(id: string, keys: IndexKey[]): void {
+    if (!this.definition.unique) return;
+
+    for (const key of keys) {
+      if (key.some(component => component === undefined)) continue;
+      for (const entry of this.scan({ lower: { key, inclusive: true }, upper: { key, inclusive: true } })) {
+        if (entry.id !== id) {
+          throw new UniqueIndexViolationError(this.definition.name, key, entry.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Replace the entries held for a record
+   */
+  put(id: string, keys: IndexKey[]): void {
+    this.remove(id);
+    if (keys.length === 0) return;
+
+    for (const key of keys) {
+      this.insertEntry(key, id);
+    }
+    this.recordKeys.set(id, keys);
+  }
+
+  remove(id: string): boolean {
+    const keys = this.recordKeys.get(id);
+    if (!keys) return false;
+
+    for (const key of keys) {
+      this.removeEntry(key, id);
+    }
+    this.recordKeys.delete(id);
+    return true;
+  }
+
+  /**
+   * Iterate entries within a key range in key order
+   */
+  *scan(range: KeyRange = {}): Generator<{ key: IndexKey; id: string }> {
+    let node = this.head;
+
+    // Descend to the last node that still lies below the lower bound
+    if (range.lower) {
+      for (let i = this.level - 1; i >= 0; i--) {
+        while (node.next[i] && !this.aboveLower(node.next[i]!.key, range)) {
+          node = node.next[i]!;
+        }
+      }
+    }
+
+    let current = node.next[0];
+    while (current) {
+      if (!this.belowUpper(current.key, range)) return;
+      yield { key: current.key, id: current.id };
+      current = current.next[0];
+    }
+  }
+
+  /**
+   * Iterate entries within a key range in descending key order. Each step searches from the top
+   * for the entry before the last one, so it costs a logarithmic descent rather than a pointer hop.
+   */
+  *scanDescending(range: KeyRange = {}): Generator<{ key: IndexKey; id: string }> {
+    // Descend to the last node that still lies within the upper bound
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && this.belowUpper(node.next[i]!.key, range)) {
+        node = node.next[i]!;
+      }
+    }
+
+    while (node !== this.head) {
+      if (!this.aboveLower(node.key, range)) return;
+      yield { key: node.key, id: node.id };
+      node = this.findPredecessors(node.key, node.id)[0];
+    }
+  }
+
+  /**
+   * Collect record IDs across ranges, giving up once more than `limit` distinct IDs are found
+   */
+  collect(ranges: KeyRange[], limit: number = Infinity): Set<string> | null {
+    const ids = new Set<string>();
+    for (const range of ranges) {
+      for (const entry of this.scan(range)) {
+        ids.add(entry.id);
+        if (ids.size > limit) return null;
+      }
+    }
+    return ids;
+  }
+
+  clear(): void {
+    this.head = { key: [], id: '', next: new Array(MAX_LEVEL).fill(null) };
+    this.level = 1;
+    this.entryCount = 0;
+    this.recordKeys.clear();
+  }
+
+  private aboveLower(key: IndexKey, range: KeyRange): boolean {
+    if (!range.lower) return true;
+    const result = compareIndexKeys(key.slice(0, range.lower.key.length), range.lower.key);
+    return result > 0 || (result === 0 && range.lower.inclusive);
+  }
+
+  private belowUpper(key: IndexKey, range: KeyRange): boolean {
+    if (!range.upper) return true;
+    const result = compareIndexKeys(key.slice(0, range.upper.key.length), range.upper.key);
+    return result < 0 || (result === 0 && range.upper.inclusive);
+  }
+
+  private compareEntry(node: SkipNode, key: IndexKey, id: string): number {
+    const result = compareIndexKeys(node.key, key);
+    if (result !== 0) return result;
+    return node.id < id ? -1 : node.id > id ? 1 : 0;
+  }
+
+  private findPredecessors(key: IndexKey, id: string): SkipNode[] {
+    const update: SkipNode[] = new Array(MAX_LEVEL);
+    let node = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      while (node.next[i] && this.compareEntry(node.next[i]!, key, id) < 0) {
+        node = node.next[i]!;
+      }
+      update[i] = node;
+    }
+    return update;
+  }
+
+  private insertEntry(key: IndexKey, id: string): void {
+    const update = this.findPredecessors(key, id);
+    const existing = update[0].next[0];
+    if (existing && this.compareEntry(existing, key, id) === 0) return;
+
+    let nodeLevel = 1;
+    while (nodeLevel < MAX_LEVEL && Math.random() < PROMOTION_PROBABILITY) {
+      nodeLevel++;
+    }
+    if (nodeLevel > this.level) {
+      for (let i = this.level; i < nodeLevel; i++) {
+        update[i] = this.head;
+      }
+      this.level = nodeLevel;
+    }
+
+    const node: SkipNode = { key, id, next: new Array(nodeLevel).fill(null) };
+    for (let i = 0; i < nodeLevel; i++) {
+      node.next[i] = update[i].next[i];
+      update[i].next[i] = node;
+    }
+    this.entryCount++;
+  }
+
+  private removeEntry(key: IndexKey, id: string): void {
+    const update = this.findPredecessors(key, id);
+    const target = update[0].next[0];
+    if (!target || this.compareEntry(target, key, id) !== 0) return;
+
+    for (let i = 0; i < this.level; i++) {
+      if (update[i].next[i] !== target) break;
+      update[i].next[i] = target.next[i];
+    }
+    while (this.level > 1 && !this.head.next[this.level - 1]) {
+      this.level--;
+    }
+    this.entryCount--;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Query Pagination
+ * Keyset cursors, sort keys and bounded top-k selection for paged MCP queries
+ *
+ * A cursor records the sort key and ID of the last record on a page, so the next page
+ * resumes strictly after it regardless of inserts or deletes in between. Cursors are tied
+ * to the filter and sort they were issued for and are rejected if either changes.
+ */
+
+import { createHash } from 'crypto';
+import { QuerySort } from '../../types/mcp.types';
+import { resolveFieldValue } from './filter_matcher';
+import { compareIndexValues } from './ordered_index';
+
+export interface CursorPosition {
+  sortKey: any[];
+  id: string;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string = 'Cursor is malformed or was issued for a different query') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const CURSOR_VERSION = 1;
+
+/**
+ * Short digest identifying a query shape; cursors carry it so they cannot be replayed elsewhere
+ */
+export function queryFingerprint(...parts: any[]): string {
+  return createHash('sha1').update(JSON.stringify(parts)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(fingerprint: string, payload: any): string {
+  return Buffer.from(JSON.stringify({ v: CURSOR_VERSION, f: fingerprint, p: payload })).toString('base64url');
+}
+
+/**
+ * Decode a cursor issued by encodeCursor for the same fingerprint
+ */
+export function decodeCursor<T = any>(cursor: string, fingerprint: string): T {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+  if (!decoded || decoded.v !== CURSOR_VERSION || decoded.f !== fingerprint || decoded.p === undefined) {
+    throw new InvalidCursorError();
+  }
+  return decoded.p as T;
+}
+
+export function decodePosition(cursor: string, fingerprint: string): CursorPosition {
+  const payload = decodeCursor<{ k?: any; i?: any }>(cursor, fingerprint);
+  if (!Array.isArray(payload.k) || typeof payload.i !== 'string') {
+    throw new InvalidCursorError();
+  }
+  return { sortKey: payload.k, id: payload.i };
+}
+
+export function encodePosition(fingerprint: string, position: CursorPosition): string {
+  return encodeCursor(fingerprint, { k: position.sortKey, i: position.id });
+}
+
+/**
+ * Sort key values for a record; Dates are stored as epoch milliseconds and missing fields as
+ * null, so keys compare the same after a round trip through a JSON cursor. Fields fall back as
+ * they do in filters.
+ */
+export function sortKeyFor(record: any, sort: QuerySort[], fallbacks?: Record<string, string>): any[] {
+  return sort.map(({ field }) => {
+    const value = resolveFieldValue(record, field, fallbacks);
+    if (value === undefined) return null;
+    return value instanceof Date ? value.getTime() : value;
+  });
+}
+
+/**
+ * Order positions by the sort fields, then by record ID so every position is distinct
+ */
+export function comparePositions(a: CursorPosition, b: CursorPosition, sort: QuerySort[]): number {
+  for (let i = 0; i < sort.length; i++) {
+    const result = compareIndexValues(a.sortKey[i], b.sortKey[i]);
+    if (result !== 0) {
+      return sort[i].direction === 'desc' ? -result : result;
+    }
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Keeps the first `limit` items of a stream in sort order without materializing the rest
+ */
+export class TopK<T> {
+  // Max-heap on the comparator: the root is the item that leaves first
+  private heap: T[] = [];
+
+  constructor(
+    private readonly limit: number,
+    private readonly compare: (a: T, b: T) => number
+  ) {}
+
+  offer(item: T): void {
+    if (this.limit <= 0) return;
+
+    if (this.heap.length < this.limit) {
+      this.heap.push(item);
+      this.siftUp(this.heap.length - 1);
+    } else if (this.compare(item, this.heap[0]) < 0) {
+      this.heap[0] = item;
+      this.siftDown(0);
+    }
+  }
+
+  /** The item that leaves first once `limit` items are held; anything after it cannot get in */
+  get boundary(): T | undefined {
+    return this.limit > 0 && this.heap.length >= this.limit ? this.heap[0] : undefined;
+  }
+
+  /** Retained items in sort order */
+  sorted(): T[] {
+    return [...this.heap].sort(this.compare);
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.heap[index], this.heap[parent]) <= 0) return;
+      [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let largest = index;
+      if (left < length && this.compare(this.heap[left], this.heap[largest]) > 0) largest = left;
+      if (right < length && this.compare(this.heap[right], this.heap[largest]) > 0) largest = right;
+      if (largest === index) return;
+      [this.heap[index], this.heap[largest]] = [this.heap[largest], this.heap[index]];
+      index = largest;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Text Analysis
+ * Tokenization, stemming and text extraction shared by embedders and text indexes
+ */
+
+import { resolveFieldPath } from './filter_matcher';
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Nested data deeper than this is unlikely to be prose
+const MAX_TEXT_DEPTH = 6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'if',
+  'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there',
+  'these', 'they', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'you'
+]);
+
+/**
+ * Lowercased word tokens with common English stop words removed
+ */
+export function tokenize(text: string): string[] {
+  const matches = text.toLowerCase().match(TOKEN_PATTERN) || [];
+  return matches.filter(token => !STOP_WORDS.has(token));
+}
+
+/**
+ * Stemmed tokens, the form terms take in full-text indexes
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
+
+/**
+ * Every word token with its character offsets, stop words included, for highlighting
+ */
+export function tokenSpans(text: string): Array<{ token: string; start: number; end: number }> {
+  return Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    token: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+}
+
+/**
+ * Text of a record for indexing: the given field paths, or every string in its data
+ */
+export function extractText(record: any, fields?: string[]): string {
+  const parts: string[] = [];
+  if (fields && fields.length > 0) {
+    for (const field of fields) {
+      collectStrings(resolveFieldPath(record, field), parts, 0);
+    }
+  } else {
+    collectStrings(record?.data, parts, 0);
+  }
+  return parts.join(' ');
+}
+
+function collectStrings(value: any, parts: string[], depth: number): void {
+  if (depth > MAX_TEXT_DEPTH || value === null || value === undefined) return;
+
+  if (typeof value === 'string') {
+    parts.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectStrings(item, parts, depth + 1));
+  } else if (typeof value === 'object' && !(value instanceof Date)) {
+    Object.values(value).forEach(item => collectStrings(item, parts, depth + 1));
+  }
+}
+
+// Porter stemmer (M.F. Porter, 1980), applied to plain ASCII words only
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+  entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+  iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log'
+};
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: ''
+};
+
+const CONSONANT = '[^aeiou]';
+const VOWEL = '[aeiouy]';
+const CONSONANTS = CONSONANT + '[^aeiouy]*';
+const VOWELS = VOWEL + '[aeiou]*';
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+/**
+ * Reduce an English word to its stem, e.g. "connections" and "connected" to "connect"
+ */
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word;
+
+  // A leading y is a consonant; upper-casing keeps the vowel patterns from matching it
+  const leadingY = word[0] === 'y';
+  let w = leadingY ? 'Y' + word.slice(1) : word;
+  let match: RegExpExecArray | null;
+
+  // Step 1a: plurals
+  if ((match = /^(.+?)(ss|i)es$/.exec(w))) {
+    w = match[1] + match[2];
+  } else if ((match = /^(.+?)([^s])s$/.exec(w))) {
+    w = match[1] + match[2];
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = /^(.+?)eed$/.exec(w))) {
+    if (MEASURE_GT_0.test(match[1])) w = w.slice(0, -1);
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) {
+      w += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (ENDS_CVC.test(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c: y -> i
+  if ((match = /^(.+?)y$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1] + 'i';
+  }
+
+  // Step 2: double suffixes
+  match = /^(.+?)(ational|tional|enci|anci|izer|bli|alli|entli|eli|ousli|ization|ation|ator|alism|iveness|fulness|ousness|aliti|iviti|biliti|logi)$/.exec(w);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3: -ic-, -full, -ness
+  match = /^(.+?)(icate|ative|alize|iciti|ical|ful|ness)$/.exec(w);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: remaining suffixes
+  if ((match = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1])) w = match[1];
+  } else if ((match = /^(.+?)(s|t)(ion)$/.exec(w))) {
+    if (MEASURE_GT_1.test(match[1] + match[2])) w = match[1] + match[2];
+  }
+
+  // Step 5: final -e and -ll
+  if ((match = /^(.+?)e$/.exec(w))) {
+    const base = match[1];
+    if (MEASURE_GT_1.test(base) || (MEASURE_EQ_1.test(base) && !ENDS_CVC.test(base))) w = base;
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return leadingY ? 'y' + w.slice(1) : w;
+}
@@ -0,0 +1,456 @@
+/**
+ * Multi-MCP Transactions
+ * Two-phase commit across BaseMCP instances with compensating rollback
+ *
+ * Writes are staged on the Transaction and reach no MCP until commit. Commit prepares
+ * by reading every target record and checking version expectations, durably logs the
+ * decision with before-images, then applies each write conditionally on the prepared
+ * version. If a participant rejects a write, the writes already applied are undone from
+ * their before-images. A restarted coordinator reads the log and finishes any
+ * transaction that was mid-commit or mid-rollback.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { DataRecord, WriteOptions } from '../../types/mcp.types';
+import {
+  LoggedOperation,
+  MemoryTransactionLog,
+  ParticipantRef,
+  TransactionLog,
+  TransactionLogEntry
+} from '../storage/transaction_log';
+import { BaseMCP } from './base_mcp';
+import { VersionConflictError, copyRecord } from './versioning';
+
+export type TransactionStatus = 'active' | 'committing' | 'committed' | 'aborted' | 'failed';
+
+export class TransactionError extends Error {
+  constructor(
+    message: string,
+    public readonly txId: string,
+    /** 'aborted' when every applied write was undone, 'failed' when some could not be */
+    public readonly outcome: 'aborted' | 'failed',
+    public readonly reason?: Error
+  ) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+export interface TransactionCoordinatorConfig {
+  log?: TransactionLog;
+  /** Find a participant after a restart, when MCP IDs from the log may no longer exist */
+  resolveMCP?: (ref: ParticipantRef) => BaseMCP | null | Promise<BaseMCP | null>;
+}
+
+export interface RecoveryReport {
+  committed: string[];
+  aborted: string[];
+  failed: string[];
+  /** Transactions left in doubt because a participant could not be found */
+  unresolved: string[];
+}
+
+interface StagedWrite {
+  mcp: BaseMCP;
+  op: 'put' | 'delete';
+  id: string;
+  record?: DataRecord;
+  ifVersion?: number;
+}
+
+interface PreparedOperation extends LoggedOperation {
+  mcp: BaseMCP;
+}
+
+export class Transaction {
+  readonly id: string = uuidv4();
+  private _status: TransactionStatus = 'active';
+  // Keyed by participant and record ID; a later write to the same record replaces the earlier one
+  private writes: Map<string, StagedWrite> = new Map();
+
+  constructor(private readonly coordinator: TransactionCoordinator) {}
+
+  get status(): TransactionStatus {
+    return this._status;
+  }
+
+  get size(): number {
+    return this.writes.size;
+  }
+
+  /**
+   * Stage a record write; options.ifVersion is checked against the record's state at commit
+   */
+  store(mcp: BaseMCP, record: DataRecord, options: WriteOptions = {}): this {
+    this.stage({ mcp, op: 'put', id: record.id, record: copyRecord(record), ifVersion: options.ifVersion });
+    return this;
+  }
+
+  delete(mcp: BaseMCP, id: string, options: WriteOptions = {}): this {
+    this.stage({ mcp, op: 'delete', id, ifVersion: options.ifVersion });
+    return this;
+  }
+
+  /**
+   * Read a record as this transaction would leave it
+   */
+  async retrieve(mcp: BaseMCP, id: string): Promise<DataRecord | null> {
+    const staged = this.writes.get(writeKey(mcp, id));
+    if (staged) {
+      return staged.op === 'put' ? copyRecord(staged.record!) : null;
+    }
+    return mcp.retrieve(id);
+  }
+
+  commit(): Promise<void> {
+    return this.coordinator.commit(this);
+  }
+
+  rollback(): Promise<void> {
+    return this.coordinator.rollback(this);
+  }
+
+  /** @internal */
+  stagedWrites(): StagedWrite[] {
+    return Array.from(this.writes.values());
+  }
+
+  /** @internal */
+  setStatus(status: TransactionStatus): void {
+    this._status = status;
+  }
+
+  private stage(write: StagedWrite): void {
+    if (this._status !== 'active') {
+      throw new Error(`Transaction ${this.id} is ${this._status}`);
+    }
+
+    const key = writeKey(write.mcp, write.id);
+    const previous = this.writes.get(key);
+    // The first expectation is the one about the record's state before the transaction
+    this.writes.delete(key);
+    this.writes.set(key, { ...write, ifVersion: previous?.ifVersion ?? write.ifVersion });
+  }
+}
+
+export class TransactionCoordinator extends EventEmitter {
+  private readonly log: TransactionLog;
+  private readonly resolveMCP?: TransactionCoordinatorConfig['resolveMCP'];
+  private logReady: Promise<void> | null = null;
+  // Participants seen by this process, for recovery without a resolver
+  private participants: Map<string, BaseMCP> = new Map();
+  // Tail of the pending commit chain per participant record
+  private recordLocks: Map<string, Promise<void>> = new Map();
+
+  constructor(config: TransactionCoordinatorConfig = {}) {
+    super();
+    this.log = config.log || new MemoryTransactionLog();
+    this.resolveMCP = config.resolveMCP;
+  }
+
+  begin(): Transaction {
+    return new Transaction(this);
+  }
+
+  /**
+   * Run `work` in a transaction, committing if it resolves and rolling back if it throws
+   */
+  async run<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    const tx = this.begin();
+    let result: T;
+    try {
+      result = await work(tx);
+    } catch (error) {
+      await this.rollback(tx);
+      throw error;
+    }
+    await this.commit(tx);
+    return result;
+  }
+
+  async commit(tx: Transaction): Promise<void> {
+    if (tx.status !== 'active') {
+      throw new Error(`Transaction ${tx.id} is ${tx.status}`);
+    }
+    tx.setStatus('committing');
+
+    const writes = tx.stagedWrites();
+    writes.forEach(write => this.participants.set(write.mcp.metadata.id, write.mcp));
+
+    const release = await this.lockRecords(writes.map(write => writeKey(write.mcp, write.id)));
+    try {
+      // Phase 1: prepare - nothing has been written, so a failure here needs no undo
+      let operations: PreparedOperation[];
+      try {
+        await this.ensureLog();
+        operations = await this.prepare(writes);
+      } catch (error) {
+        tx.setStatus('aborted');
+        this.emit('transaction_aborted', { txId: tx.id, error: (error as Error).message, timestamp: Date.now() });
+        throw error;
+      }
+
+      if (operations.length > 0) {
+        await this.log.append({
+          txId: tx.id,
+          state: 'committing',
+          timestamp: Date.now(),
+          operations: operations.map(({ mcp, ...logged }) => logged)
+        });
+      }
+
+      // Phase 2: apply, undoing the applied prefix if a participant rejects a write
+      const applied: PreparedOperation[] = [];
+      try {
+        for (const operation of operations) {
+          await this.apply(operation);
+          applied.push(operation);
+        }
+      } catch (error) {
+        const outcome = await this.abort(tx.id, applied, error as Error);
+        tx.setStatus(outcome);
+        throw new TransactionError(
+          `Transaction ${tx.id} ${outcome === 'aborted' ? 'rolled back' : 'failed to roll back'}: ${(error as Error).message}`,
+          tx.id,
+          outcome,
+          error as Error
+        );
+      }
+
+      if (operations.length > 0) {
+        await this.log.append({ txId: tx.id, state: 'committed', timestamp: Date.now() });
+      }
+      tx.setStatus('committed');
+      this.emit('transaction_committed', { txId: tx.id, writes: operations.length, timestamp: Date.now() });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Discard an uncommitted transaction; its writes never reached any MCP
+   */
+  async rollback(tx: Transaction): Promise<void> {
+    if (tx.status !== 'active') {
+      throw new Error(`Transaction ${tx.id} is ${tx.status}`);
+    }
+    tx.setStatus('aborted');
+    this.emit('transaction_aborted', { txId: tx.id, timestamp: Date.now() });
+  }
+
+  /**
+   * Finish transactions a previous process left mid-commit or mid-rollback.
+   * Committing transactions are rolled forward; aborting ones are undone.
+   */
+  async recover(): Promise<RecoveryReport> {
+    await this.ensureLog();
+    const report: RecoveryReport = { committed: [], aborted: [], failed: [], unresolved: [] };
+
+    for (const entry of await this.log.inDoubt()) {
+      const operations = await this.resolveOperations(entry);
+      if (!operations) {
+        report.unresolved.push(entry.txId);
+        continue;
+      }
+
+      const applied: PreparedOperation[] = [];
+      const pending: PreparedOperation[] = [];
+      const diverged: PreparedOperation[] = [];
+      for (const operation of operations) {
+        const state = await this.applicationState(operation);
+        (state === 'applied' ? applied : state === 'pending' ? pending : diverged).push(operation);
+      }
+
+      let outcome: 'committed' | 'aborted' | 'failed';
+      if (entry.state === 'committing' && diverged.length === 0) {
+        try {
+          for (const operation of pending) {
+            await this.apply(operation);
+            applied.push(operation);
+          }
+          await this.log.append({ txId: entry.txId, state: 'committed', timestamp: Date.now() });
+          outcome = 'committed';
+        } catch (error) {
+          outcome = await this.abort(entry.txId, applied, error as Error);
+        }
+      } else {
+        const reason = diverged.length > 0
+          ? new Error(`Records changed outside the transaction: ${diverged.map(op => op.id).join(', ')}`)
+          : new Error('Recovered mid-rollback');
+        outcome = await this.abort(entry.txId, applied, reason, entry.state === 'aborting');
+      }
+
+      report[outcome].push(entry.txId);
+      this.emit('transaction_recovered', { txId: entry.txId, outcome, timestamp: Date.now() });
+    }
+
+    return report;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.logReady) {
+      await this.logReady.catch(() => undefined);
+      await this.log.close();
+      this.logReady = null;
+    }
+    this.participants.clear();
+  }
+
+  private ensureLog(): Promise<void> {
+    if (!this.logReady) {
+      this.logReady = this.log.open();
+    }
+    return this.logReady;
+  }
+
+  private async prepare(writes: StagedWrite[]): Promise<PreparedOperation[]> {
+    const operations: PreparedOperation[] = [];
+
+    for (const write of writes) {
+      const current = await write.mcp.retrieve(write.id);
+      const currentVersion = current?.version ?? 0;
+      if (write.ifVersion !== undefined && write.ifVersion !== currentVersion) {
+        throw new VersionConflictError(write.id, write.ifVersion, currentVersion);
+      }
+      // Deleting a record that does not exist is already done
+      if (write.op === 'delete' && !current) continue;
+
+      operations.push({
+        mcp: write.mcp,
+        participant: participantRef(write.mcp),
+        op: write.op,
+        id: write.id,
+        record: write.record,
+        expectedVersion: currentVersion,
+        before: current ? copyRecord(current) : null
+      });
+    }
+
+    return operations;
+  }
+
+  private async apply(operation: PreparedOperation): Promise<void> {
+    const { mcp, id } = operation;
+    const options: WriteOptions = { ifVersion: operation.expectedVersion };
+
+    const success = operation.op === 'put'
+      ? await mcp.store(copyRecord(operation.record!), options)
+      : await mcp.delete(id, options);
+    if (!success) {
+      throw new Error(`${mcp.metadata.name} rejected ${operation.op} of record ${id}`);
+    }
+  }
+
+  /**
+   * Undo applied writes newest first and log the outcome
+   */
+  private async abort(
+    txId: string,
+    applied: PreparedOperation[],
+    reason: Error,
+    alreadyLogged: boolean = false
+  ): Promise<'aborted' | 'failed'> {
+    if (applied.length > 0 && !alreadyLogged) {
+      await this.log.append({ txId, state: 'aborting', timestamp: Date.now(), error: reason.message });
+    }
+
+    const failures: string[] = [];
+    for (const operation of [...applied].reverse()) {
+      try {
+        await this.compensate(operation);
+      } catch (error) {
+        failures.push(`${operation.participant.name}/${operation.id}: ${(error as Error).message}`);
+      }
+    }
+
+    // The 'committing' entry is already logged, so the outcome must be too or recovery would roll forward
+    const outcome = failures.length > 0 ? 'failed' : 'aborted';
+    await this.log.append({
+      txId,
+      state: outcome,
+      timestamp: Date.now(),
+      error: failures.length > 0 ? `Could not undo ${failures.join('; ')}` : reason.message
+    });
+
+    this.emit(outcome === 'aborted' ? 'transaction_aborted' : 'transaction_failed', {
+      txId,
+      error: reason.message,
+      uncompensated: failures,
+      timestamp: Date.now()
+    });
+    return outcome;
+  }
+
+  private async compensate(operation: PreparedOperation): Promise<void> {
+    const { mcp, id, before } = operation;
+    const appliedVersion = operation.op === 'put' ? operation.expectedVersion + 1 : 0;
+
+    const success = before
+      ? await mcp.store(copyRecord(before), { ifVersion: appliedVersion })
+      : await mcp.delete(id, { ifVersion: appliedVersion });
+    if (!success) {
+      throw new Error(`${mcp.metadata.name} rejected the undo of record ${id}`);
+    }
+  }
+
+  /**
+   * Whether a logged write reached its participant, judged by the record's version
+   */
+  private async applicationState(operation: PreparedOperation): Promise<'applied' | 'pending' | 'diverged'> {
+    const current = await operation.mcp.retrieve(operation.id);
+    const version = current?.version ?? 0;
+
+    if (version === operation.expectedVersion) return 'pending';
+    if (operation.op === 'put' && version === operation.expectedVersion + 1) return 'applied';
+    if (operation.op === 'delete' && !current) return 'applied';
+    return 'diverged';
+  }
+
+  private async resolveOperations(entry: TransactionLogEntry): Promise<PreparedOperation[] | null> {
+    const operations: PreparedOperation[] = [];
+
+    for (const logged of entry.operations || []) {
+      const mcp = this.participants.get(logged.participant.mcpId) ||
+        (this.resolveMCP ? await this.resolveMCP(logged.participant) : null);
+      if (!mcp) return null;
+      operations.push({ ...logged, mcp });
+    }
+    return operations;
+  }
+
+  /**
+   * Hold every key for the duration of a commit; keys are taken in sorted order so
+   * overlapping transactions cannot deadlock
+   */
+  private async lockRecords(keys: string[]): Promise<() => void> {
+    const releases: Array<() => void> = [];
+
+    for (const key of Array.from(new Set(keys)).sort()) {
+      const previous = this.recordLocks.get(key) || Promise.resolve();
+      let release!: () => void;
+      const held = new Promise<void>(resolve => { release = resolve; });
+      const tail = previous.then(() => held);
+      this.recordLocks.set(key, tail);
+
+      await previous;
+      releases.push(() => {
+        release();
+        if (this.recordLocks.get(key) === tail) {
+          this.recordLocks.delete(key);
+        }
+      });
+    }
+
+    return () => releases.forEach(release => release());
+  }
+}
+
+function writeKey(mcp: BaseMCP, id: string): string {
+  return `${mcp.metadata.id}:${id}`;
+}
+
+function participantRef(mcp: BaseMCP): ParticipantRef {
+  return { mcpId: mcp.metadata.id, name: mcp.metadata.name, domain: mcp.metadata.domain };
+}
@@ -0,0 +1,66 @@
+/**
+ * Record Versioning
+ * Optimistic concurrency errors and bounded retention of previous record versions
+ */
+
+import { DataRecord } from '../../types/mcp.types';
+
+export class VersionConflictError extends Error {
+  constructor(
+    public readonly recordId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`Record ${recordId} is at version ${actualVersion}, expected ${expectedVersion}`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Keeps copies of the last `retention` superseded versions of each record
+ */
+export class VersionHistory {
+  // Newest first; index 0 is the copy of the current version
+  private versions: Map<string, DataRecord[]> = new Map();
+
+  constructor(private readonly retention: number) {}
+
+  get enabled(): boolean {
+    return this.retention > 0;
+  }
+
+  /**
+   * Record a newly written version. Copies are taken at write time so later
+   * in-place edits of the live record do not rewrite history.
+   */
+  push(record: DataRecord): void {
+    if (!this.enabled) return;
+
+    const versions = this.versions.get(record.id) || [];
+    versions.unshift(copyRecord(record));
+    versions.length = Math.min(versions.length, this.retention + 1);
+    this.versions.set(record.id, versions);
+  }
+
+  /** Superseded versions, newest first */
+  previous(id: string): DataRecord[] {
+    return (this.versions.get(id) || []).slice(1);
+  }
+
+  remove(id: string): void {
+    this.versions.delete(id);
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
+
+export function copyRecord(record: DataRecord): DataRecord {
+  try {
+    return structuredClone(record);
+  } catch {
+    // Records holding functions or class instances fall back to a shallow copy
+    return { ...record, metadata: record.metadata ? { ...record.metadata } : undefined };
+  }
+}
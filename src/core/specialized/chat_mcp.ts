@@ -4,7 +4,9 @@
  */
 
 import { BaseMCP } from '../mcp/base_mcp';
-import { MCPConfig, DataRecord, MCPType, MCPDomain, MCPCapabilities } from '../../types/mcp.types';
+import { InvertedIndex, highlight, parseSearchQuery } from '../mcp/inverted_index';
+import { extractText } from '../mcp/text_analysis';
+import { MCPConfig, DataRecord, MCPType, MCPDomain, MCPCapabilities, TextSearchHit } from '../../types/mcp.types';
 
 interface ChatMessage {
   id: string;
@@ -73,6 +75,7 @@ export class ChatMCP extends BaseMCP {
   private contentTypeIndex: Map<string, Set<string>> = new Map(); // contentType -> messageIds
   private hashtagIndex: Map<string, Set<string>> = new Map(); // hashtag -> messageIds
   private mentionIndex: Map<string, Set<string>> = new Map(); // userId -> messageIds
+  private textIndex = new InvertedIndex(); // message text -> messageIds, BM25-ranked
   private lastIndexCreationResult?: {
     success: boolean;
     indexName: string;
@@ -86,7 +89,6 @@ export class ChatMCP extends BaseMCP {
 
   constructor(domain: MCPDomain, type: MCPType, config: Partial<MCPConfig> = {}) {
     super(domain, type, config);
-    this.setupChatSpecificIndices();
   }
 
   protected override defineCapabilities(): MCPCapabilities {
@@ -140,109 +142,48 @@ export class ChatMCP extends BaseMCP {
     return true;
   }
 
-  private setupChatSpecificIndices(): void {
-    this.on('record_stored', (record: DataRecord) => {
-      this.updateChatIndices(record, 'create');
-    });
+  protected override onRecordIndexed(record: DataRecord): void {
+    this.updateChatIndices(record, 'create');
+  }
 
-    this.on('record_deleted', (record: DataRecord) => {
-      this.updateChatIndices(record, 'delete');
-    });
+  protected override onRecordUnindexed(record: DataRecord): void {
+    this.updateChatIndices(record, 'delete');
   }
 
   private updateChatIndices(record: DataRecord, operation: 'create' | 'delete'): void {
-    const messageData = record.data as ChatMessage;
+    // Records ingested without the full message shape still get text-indexed
+    const messageData = (record.data || {}) as Partial<ChatMessage>;
+    const addTo = (index: Map<string, Set<string>>, key: string | undefined) => {
+      if (!key) return;
+      if (!index.has(key)) {
+        index.set(key, new Set());
+      }
+      index.get(key)!.add(record.id);
+    };
+    const removeFrom = (index: Map<string, Set<string>>, key: string | undefined) => {
+      if (key) index.get(key)?.delete(record.id);
+    };
+    const update = operation === 'create' ? addTo : removeFrom;
+    
+    update(this.conversationIndex, messageData.conversationId);
+    update(this.senderIndex, messageData.senderId);
+    update(this.receiverIndex, messageData.receiverId);
+    update(this.threadIndex, messageData.threadId);
+    
+    // Time index (by day)
+    const created = messageData.created ?? record.timestamp;
+    if (Number.isFinite(created)) {
+      update(this.timeIndex, new Date(created).toISOString().split('T')[0]);
+    }
+    
+    update(this.contentTypeIndex, messageData.content?.type);
+    messageData.formatting?.hashtags?.forEach(hashtag => update(this.hashtagIndex, hashtag));
+    messageData.formatting?.mentions?.forEach(mention => update(this.mentionIndex, mention));
     
     if (operation === 'create') {
-      // Conversation index
-      if (!this.conversationIndex.has(messageData.conversationId)) {
-        this.conversationIndex.set(messageData.conversationId, new Set());
-      }
-      this.conversationIndex.get(messageData.conversationId)!.add(record.id);
-      
-      // Sender index
-      if (!this.senderIndex.has(messageData.senderId)) {
-        this.senderIndex.set(messageData.senderId, new Set());
-      }
-      this.senderIndex.get(messageData.senderId)!.add(record.id);
-      
-      // Receiver index
-      if (messageData.receiverId) {
-        if (!this.receiverIndex.has(messageData.receiverId)) {
-          this.receiverIndex.set(messageData.receiverId, new Set());
-        }
-        this.receiverIndex.get(messageData.receiverId)!.add(record.id);
-      }
-      
-      // Thread index
-      if (messageData.threadId) {
-        if (!this.threadIndex.has(messageData.threadId)) {
-          this.threadIndex.set(messageData.threadId, new Set());
-        }
-        this.threadIndex.get(messageData.threadId)!.add(record.id);
-      }
-      
-      // Time index (by day)
-      const dayKey = new Date(messageData.created).toISOString().split('T')[0];
-      if (!this.timeIndex.has(dayKey)) {
-        this.timeIndex.set(dayKey, new Set());
-      }
-      this.timeIndex.get(dayKey)!.add(record.id);
-      
-      // Content type index
-      if (!this.contentTypeIndex.has(messageData.content.type)) {
-        this.contentTypeIndex.set(messageData.content.type, new Set());
-      }
-      this.contentTypeIndex.get(messageData.content.type)!.add(record.id);
-      
-      // Hashtag index
-      if (messageData.formatting?.hashtags) {
-        for (const hashtag of messageData.formatting.hashtags) {
-          if (!this.hashtagIndex.has(hashtag)) {
-            this.hashtagIndex.set(hashtag, new Set());
-          }
-          this.hashtagIndex.get(hashtag)!.add(record.id);
-        }
-      }
-      
-      // Mention index
-      if (messageData.formatting?.mentions) {
-        for (const mention of messageData.formatting.mentions) {
-          if (!this.mentionIndex.has(mention)) {
-            this.mentionIndex.set(mention, new Set());
-          }
-          this.mentionIndex.get(mention)!.add(record.id);
-        }
-      }
-      
-    } else if (operation === 'delete') {
-      // Remove from all indices
-      this.conversationIndex.get(messageData.conversationId)?.delete(record.id);
-      this.senderIndex.get(messageData.senderId)?.delete(record.id);
-      
-      if (messageData.receiverId) {
-        this.receiverIndex.get(messageData.receiverId)?.delete(record.id);
-      }
-      
-      if (messageData.threadId) {
-        this.threadIndex.get(messageData.threadId)?.delete(record.id);
-      }
-      
-      const dayKey = new Date(messageData.created).toISOString().split('T')[0];
-      this.timeIndex.get(dayKey)?.delete(record.id);
-      this.contentTypeIndex.get(messageData.content.type)?.delete(record.id);
-      
-      if (messageData.formatting?.hashtags) {
-        for (const hashtag of messageData.formatting.hashtags) {
-          this.hashtagIndex.get(hashtag)?.delete(record.id);
-        }
-      }
-      
-      if (messageData.formatting?.mentions) {
-        for (const mention of messageData.formatting.mentions) {
-          this.mentionIndex.get(mention)?.delete(record.id);
-        }
-      }
+      this.textIndex.add(record.id, messageData.content?.text ?? extractText(record));
+    } else {
+      this.textIndex.remove(record.id);
     }
   }
 
@@ -483,6 +424,9 @@ export class ChatMCP extends BaseMCP {
   }
 
   // Search methods
+  /**
+   * Full-text search over message text, ranked by BM25. Supports "quoted phrases" and prefix* terms.
+   */
   async searchMessages(query: string, options?: {
     conversationId?: string;
     senderId?: string;
@@ -490,56 +434,72 @@ export class ChatMCP extends BaseMCP {
     dateFrom?: number;
     dateTo?: number;
     limit?: number;
-  }): Promise<DataRecord[]> {
-    const messages: DataRecord[] = [];
-    const queryLower = query.toLowerCase();
+  }): Promise<TextSearchHit[]> {
+    const parsed = parseSearchQuery(query);
+    const now = Date.now();
     
-    for (const [, record] of this.records) {
-      const messageData = record.data as ChatMessage;
-      
-      // Apply filters
-      if (options?.conversationId && messageData.conversationId !== options.conversationId) continue;
-      if (options?.senderId && messageData.senderId !== options.senderId) continue;
-      if (options?.contentType && messageData.content.type !== options.contentType) continue;
-      if (options?.dateFrom && messageData.created < options.dateFrom) continue;
-      if (options?.dateTo && messageData.created > options.dateTo) continue;
-      
-      // Text search
-      if (messageData.content.text && messageData.content.text.toLowerCase().includes(queryLower)) {
-        messages.push(record);
+    const hits = this.textIndex.search(parsed, {
+      limit: options?.limit,
+      accept: id => {
+        const record = this.records.get(id);
+        if (!record || this.isExpired(record, now)) return false;
+        
+        const messageData = (record.data || {}) as Partial<ChatMessage>;
+        const created = messageData.created ?? record.timestamp;
+        if (options?.conversationId && messageData.conversationId !== options.conversationId) return false;
+        if (options?.senderId && messageData.senderId !== options.senderId) return false;
+        if (options?.contentType && messageData.content?.type !== options.contentType) return false;
+        if (options?.dateFrom && created < options.dateFrom) return false;
+        if (options?.dateTo && created > options.dateTo) return false;
+        return true;
       }
-    }
+    });
     
-    messages.sort((a, b) => (b.data as ChatMessage).created - (a.data as ChatMessage).created);
-    return options?.limit ? messages.slice(0, options.limit) : messages;
+    return hits.map(hit => {
+      const record = this.records.get(hit.id)!;
+      const text = (record.data as Partial<ChatMessage>)?.content?.text ?? extractText(record);
+      return { record, score: hit.score, highlights: highlight(text, parsed) };
+    });
+  }
+
+  /**
+   * Whether a stored message matches a full-text query, as searchMessages would judge it
+   */
+  matchesText(messageId: string, query: string): boolean {
+    return this.textIndex.matches(messageId, query);
   }
 
   // Override query method to properly implement the interface
   override async query(filters: Record<string, any>): Promise<DataRecord[]> {
-    if (filters.conversationId) {
-      return this.getConversationMessages(filters.conversationId, filters.limit, filters.offset);
-    }
-    if (filters.senderId) {
-      return this.getMessagesBySender(filters.senderId, filters.limit);
-    }
-    if (filters.threadId) {
-      return this.getThreadMessages(filters.threadId);
-    }
-    if (filters.hashtag) {
-      return this.getMessagesByHashtag(filters.hashtag);
-    }
-    if (filters.userId && filters.mentions) {
-      return this.getMentions(filters.userId);
-    }
-    if (filters.date) {
-      return this.getMessagesByDate(filters.date);
+    const { limit, offset, ...fieldFilters } = filters;
+    const keys = Object.keys(fieldFilters);
+    
+    // Index shortcuts only cover a single plain equality; anything else goes through the filter engine
+    if (keys.length === 1 && typeof fieldFilters[keys[0]] === 'string') {
+      const value = fieldFilters[keys[0]];
+      switch (keys[0]) {
+        case 'conversationId':
+          return this.getConversationMessages(value, limit, offset);
+        case 'senderId':
+          return this.getMessagesBySender(value, limit);
+        case 'threadId':
+          return this.getThreadMessages(value);
+        case 'hashtag':
+          return this.getMessagesByHashtag(value);
+        case 'date':
+          return this.getMessagesByDate(value);
+        case 'contentType':
+          return this.getMessagesByContentType(value);
+      }
     }
-    if (filters.contentType) {
-      return this.getMessagesByContentType(filters.contentType);
+    if (keys.length === 2 && typeof fieldFilters.userId === 'string' && fieldFilters.mentions) {
+      return this.getMentions(fieldFilters.userId);
     }
     
     // Default to parent query implementation
-    return super.query(filters);
+    const results = await super.query(fieldFilters);
+    const start = offset || 0;
+    return results.slice(start, limit ? start + limit : undefined);
   }
 
   /**
@@ -636,6 +596,12 @@ export class ChatMCP extends BaseMCP {
       // Store the index
       this.indices.set(definition.name, indexMap);
 
+      // Back the lookup map with an ordered index the query planner can select
+      if (!await super.createIndex(definition.name, definition.fields, options)) {
+        this.indices.delete(definition.name);
+        return false;
+      }
+
       // Calculate performance metrics
       const recordCount = this.records.size;
       const estimatedImprovement = recordCount > 1000 ? 
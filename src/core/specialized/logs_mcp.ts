@@ -4,7 +4,9 @@
  */
 
 import { BaseMCP } from '../mcp/base_mcp';
-import { MCPConfig, DataRecord, MCPType, MCPDomain, ConsistencyLevel } from '../../types/mcp.types';
+import { InvertedIndex, highlight, parseSearchQuery } from '../mcp/inverted_index';
+import { extractText } from '../mcp/text_analysis';
+import { MCPConfig, DataRecord, MCPType, MCPDomain, ConsistencyLevel, WriteOptions, TextSearchHit } from '../../types/mcp.types';
 
 interface LogData {
   id: string;
@@ -60,7 +62,7 @@ export class LogsMCP extends BaseMCP {
   private contextIndex: Map<string, Set<string>> = new Map(); // contextField -> recordIds
   private tagIndex: Map<string, Set<string>> = new Map(); // tag -> recordIds
   private errorIndex: Map<string, Set<string>> = new Map(); // errorType -> recordIds
-  private retentionQueue: Map<string, Set<string>> = new Map(); // date -> recordIds to expire
+  private textIndex = new InvertedIndex(); // message and structured text -> recordIds, BM25-ranked
   private lastIndexCreationResult?: {
     success: boolean;
     indexName: string;
@@ -74,8 +76,6 @@ export class LogsMCP extends BaseMCP {
 
   constructor(domain: MCPDomain, type: MCPType, config: Partial<MCPConfig> = {}) {
     super(domain, type, config);
-    this.setupLogsSpecificIndices();
-    this.startRetentionManager();
   }
 
   protected override defineCapabilities() {
@@ -126,125 +126,79 @@ export class LogsMCP extends BaseMCP {
     return true;
   }
 
-  private setupLogsSpecificIndices(): void {
-    this.on('record_stored', (record: DataRecord) => {
-      this.updateLogsIndices(record, 'create');
-      this.scheduleForRetention(record);
-    });
+  protected override onRecordIndexed(record: DataRecord): void {
+    this.updateLogsIndices(record, 'create');
+  }
 
-    this.on('record_deleted', (record: DataRecord) => {
-      this.updateLogsIndices(record, 'delete');
-    });
+  protected override onRecordUnindexed(record: DataRecord): void {
+    this.updateLogsIndices(record, 'delete');
   }
 
   private updateLogsIndices(record: DataRecord, operation: 'create' | 'delete'): void {
-    const logData = record.data as LogData;
-    
-    if (operation === 'create') {
-      // Level index
-      if (!this.levelIndex.has(logData.level)) {
-        this.levelIndex.set(logData.level, new Set());
-      }
-      this.levelIndex.get(logData.level)!.add(record.id);
-      
-      // Source indices
-      if (!this.sourceIndex.has(logData.source.application)) {
-        this.sourceIndex.set(logData.source.application, new Set());
-      }
-      this.sourceIndex.get(logData.source.application)!.add(record.id);
-      
-      if (!this.serviceIndex.has(logData.source.service)) {
-        this.serviceIndex.set(logData.source.service, new Set());
-      }
-      this.serviceIndex.get(logData.source.service)!.add(record.id);
-      
-      if (!this.hostIndex.has(logData.source.host)) {
-        this.hostIndex.set(logData.source.host, new Set());
-      }
-      this.hostIndex.get(logData.source.host)!.add(record.id);
-      
-      // Time indices
-      const date = new Date(logData.timestamp);
-      const timeKeys = [
-        `minute:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
-        `hour:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}T${String(date.getHours()).padStart(2, '0')}`,
-        `day:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
-      ];
-      
-      for (const timeKey of timeKeys) {
-        if (!this.timeIndex.has(timeKey)) {
-          this.timeIndex.set(timeKey, new Set());
-        }
-        this.timeIndex.get(timeKey)!.add(record.id);
+    // Records ingested without the full log shape still get text-indexed
+    const logData = (record.data || {}) as Partial<LogData>;
+    const addTo = (index: Map<string, Set<string>>, key: string | undefined) => {
+      if (!key) return;
+      if (!index.has(key)) {
+        index.set(key, new Set());
       }
-      
-      // Context indices
-      if (logData.context.requestId) {
-        const contextKey = `requestId:${logData.context.requestId}`;
-        if (!this.contextIndex.has(contextKey)) {
-          this.contextIndex.set(contextKey, new Set());
-        }
-        this.contextIndex.get(contextKey)!.add(record.id);
-      }
-      
-      if (logData.context.traceId) {
-        const contextKey = `traceId:${logData.context.traceId}`;
-        if (!this.contextIndex.has(contextKey)) {
-          this.contextIndex.set(contextKey, new Set());
-        }
-        this.contextIndex.get(contextKey)!.add(record.id);
-      }
-      
-      // Tag indices
-      for (const tag of logData.tags) {
-        if (!this.tagIndex.has(tag)) {
-          this.tagIndex.set(tag, new Set());
-        }
-        this.tagIndex.get(tag)!.add(record.id);
-      }
-      
-      // Error index
-      if (logData.details.error) {
-        if (!this.errorIndex.has(logData.details.error.type)) {
-          this.errorIndex.set(logData.details.error.type, new Set());
-        }
-        this.errorIndex.get(logData.details.error.type)!.add(record.id);
-      }
-      
-    } else if (operation === 'delete') {
-      // Remove from all indices
-      this.levelIndex.get(logData.level)?.delete(record.id);
-      this.sourceIndex.get(logData.source.application)?.delete(record.id);
-      this.serviceIndex.get(logData.source.service)?.delete(record.id);
-      this.hostIndex.get(logData.source.host)?.delete(record.id);
-      
-      const date = new Date(logData.timestamp);
+      index.get(key)!.add(record.id);
+    };
+    const removeFrom = (index: Map<string, Set<string>>, key: string | undefined) => {
+      if (key) index.get(key)?.delete(record.id);
+    };
+    const update = operation === 'create' ? addTo : removeFrom;
+    
+    // Level and source indices
+    update(this.levelIndex, logData.level);
+    update(this.sourceIndex, logData.source?.application);
+    update(this.serviceIndex, logData.source?.service);
+    update(this.hostIndex, logData.source?.host);
+    
+    // Time indices
+    const timestamp = logData.timestamp ?? record.timestamp;
+    if (Number.isFinite(timestamp)) {
+      const date = new Date(timestamp);
       const timeKeys = [
         `minute:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
         `hour:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}T${String(date.getHours()).padStart(2, '0')}`,
         `day:${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
       ];
-      
-      for (const timeKey of timeKeys) {
-        this.timeIndex.get(timeKey)?.delete(record.id);
-      }
-      
-      if (logData.context.requestId) {
-        this.contextIndex.get(`requestId:${logData.context.requestId}`)?.delete(record.id);
-      }
-      
-      if (logData.context.traceId) {
-        this.contextIndex.get(`traceId:${logData.context.traceId}`)?.delete(record.id);
-      }
-      
-      for (const tag of logData.tags) {
-        this.tagIndex.get(tag)?.delete(record.id);
-      }
-      
-      if (logData.details.error) {
-        this.errorIndex.get(logData.details.error.type)?.delete(record.id);
-      }
+      timeKeys.forEach(timeKey => update(this.timeIndex, timeKey));
+    }
+    
+    // Context indices
+    if (logData.context?.requestId) {
+      update(this.contextIndex, `requestId:${logData.context.requestId}`);
+    }
+    if (logData.context?.traceId) {
+      update(this.contextIndex, `traceId:${logData.context.traceId}`);
+    }
+    
+    // Tag and error indices
+    logData.tags?.forEach(tag => update(this.tagIndex, tag));
+    update(this.errorIndex, logData.details?.error?.type);
+    
+    if (operation === 'create') {
+      this.textIndex.add(record.id, this.logText(record));
+    } else {
+      this.textIndex.remove(record.id);
+    }
+  }
+
+  /**
+   * Searchable text of a log: message, error and structured fields, or any text for other shapes
+   */
+  private logText(record: DataRecord): string {
+    const logData = (record.data || {}) as Partial<LogData>;
+    if (typeof logData.message !== 'string') {
+      return extractText(record);
     }
+    return [
+      logData.message,
+      logData.details?.error?.message,
+      extractText({ data: logData.structured })
+    ].filter(Boolean).join(' ');
   }
 
   private determineRetentionPolicy(level: string): 'debug' | 'standard' | 'long' | 'permanent' {
@@ -330,39 +284,21 @@ export class LogsMCP extends BaseMCP {
     return priority;
   }
 
-  private scheduleForRetention(record: DataRecord): void {
-    const logData = record.data as LogData;
-    if (logData.retention.expiresAt) {
-      const expirationDate = new Date(logData.retention.expiresAt).toISOString().split('T')[0];
-      if (!this.retentionQueue.has(expirationDate)) {
-        this.retentionQueue.set(expirationDate, new Set());
-      }
-      this.retentionQueue.get(expirationDate)!.add(record.id);
+  // Logs expire as their retention policy dictates unless the record sets its own expiry
+  protected override defaultExpiresAt(record: DataRecord): number | undefined {
+    const logData = record.data as Partial<LogData> | undefined;
+    if (logData?.retention?.expiresAt) {
+      return logData.retention.expiresAt;
     }
+    if (!logData?.level) return undefined;
+    
+    const policy = logData.retention?.policy || this.determineRetentionPolicy(logData.level);
+    return this.calculateExpirationTime(policy, logData.timestamp || record.timestamp);
   }
 
-  private startRetentionManager(): void {
-    // Run retention cleanup daily
-    setInterval(() => {
-      this.performRetentionCleanup();
-    }, 86400000); // 24 hours
-  }
-
-  private async performRetentionCleanup(): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
-    
-    for (const [expirationDate, recordIds] of this.retentionQueue) {
-      if (expirationDate <= today) {
-        for (const recordId of recordIds) {
-          try {
-            await this.delete(recordId);
-          } catch (error) {
-            console.error(`Failed to delete expired log record ${recordId}:`, error);
-          }
-        }
-        this.retentionQueue.delete(expirationDate);
-      }
-    }
+  // Time ranges select logs by when they were written, not when they were ingested
+  override getEventTimeField(): string {
+    return 'data.timestamp';
   }
 
   // Log-specific query methods
@@ -456,6 +392,10 @@ export class LogsMCP extends BaseMCP {
     return options?.limit ? records.slice(0, options.limit) : records;
   }
 
+  /**
+   * Full-text search over log messages and structured fields, ranked by BM25.
+   * Supports "quoted phrases" and prefix* terms.
+   */
   async searchLogs(query: string, options?: {
     level?: string;
     application?: string;
@@ -463,29 +403,38 @@ export class LogsMCP extends BaseMCP {
     startTime?: number;
     endTime?: number;
     limit?: number;
-  }): Promise<DataRecord[]> {
-    const records: DataRecord[] = [];
-    const queryLower = query.toLowerCase();
+  }): Promise<TextSearchHit[]> {
+    const parsed = parseSearchQuery(query);
+    const now = Date.now();
     
-    for (const [, record] of this.records) {
-      const logData = record.data as LogData;
-      
-      // Apply filters
-      if (options?.level && logData.level !== options.level) continue;
-      if (options?.application && logData.source.application !== options.application) continue;
-      if (options?.service && logData.source.service !== options.service) continue;
-      if (options?.startTime && logData.timestamp < options.startTime) continue;
-      if (options?.endTime && logData.timestamp > options.endTime) continue;
-      
-      // Text search in message and structured data
-      if (logData.message.toLowerCase().includes(queryLower) ||
-          JSON.stringify(logData.structured).toLowerCase().includes(queryLower)) {
-        records.push(record);
+    const hits = this.textIndex.search(parsed, {
+      limit: options?.limit,
+      accept: id => {
+        const record = this.records.get(id);
+        if (!record || this.isExpired(record, now)) return false;
+        
+        const logData = (record.data || {}) as Partial<LogData>;
+        const timestamp = logData.timestamp ?? record.timestamp;
+        if (options?.level && logData.level !== options.level) return false;
+        if (options?.application && logData.source?.application !== options.application) return false;
+        if (options?.service && logData.source?.service !== options.service) return false;
+        if (options?.startTime && timestamp < options.startTime) return false;
+        if (options?.endTime && timestamp > options.endTime) return false;
+        return true;
       }
-    }
+    });
     
-    records.sort((a, b) => (b.data as LogData).timestamp - (a.data as LogData).timestamp);
-    return options?.limit ? records.slice(0, options.limit) : records;
+    return hits.map(hit => {
+      const record = this.records.get(hit.id)!;
+      return { record, score: hit.score, highlights: highlight(this.logText(record), parsed) };
+    });
+  }
+
+  /**
+   * Whether a stored log entry matches a full-text query, as searchLogs would judge it
+   */
+  matchesText(recordId: string, query: string): boolean {
+    return this.textIndex.matches(recordId, query);
   }
 
   // Analytics methods
@@ -542,19 +491,21 @@ export class LogsMCP extends BaseMCP {
   }
 
   override async query(query: any): Promise<any> {
-    if (query.level) {
-      return this.getLogsByLevel(query.level, query.options);
+    const { options, ...filters } = query;
+    // Level shortcut only covers a plain level lookup
+    if (typeof filters.level === 'string' && Object.keys(filters).length === 1) {
+      return this.getLogsByLevel(filters.level, options);
     }
-    return null;
+    return super.query(filters);
   }
 
-  override async update(record: DataRecord): Promise<boolean> {
+  override async update(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
     // Update is essentially a store operation
-    return this.store(record);
+    return this.store(record, options);
   }
 
   override async delete(id: string, options?: any): Promise<any> {
-    return super.delete(id);
+    return super.delete(id, options);
   }
 
   /**
@@ -664,6 +615,12 @@ export class LogsMCP extends BaseMCP {
 
       this.indices.set(definition.name, indexMap);
 
+      // Back the lookup map with an ordered index the query planner can select
+      if (!await super.createIndex(definition.name, definition.fields, options)) {
+        this.indices.delete(definition.name);
+        return false;
+      }
+
       const recordCount = this.records.size;
       const estimatedImprovement = recordCount > 10000 ? 
         Math.min(99, (recordCount / 1000) * 50) : 
@@ -963,7 +920,6 @@ export class LogsMCP extends BaseMCP {
         sourceIndex: new Map(this.sourceIndex),
         errorIndex: new Map(this.errorIndex),
         contextIndex: new Map(this.contextIndex),
-        retentionQueue: new Map(this.retentionQueue),
         metadata: {
           mcpType: 'logs',
           version: '1.0'
@@ -1046,7 +1002,6 @@ export class LogsMCP extends BaseMCP {
       this.sourceIndex = new Map(snapshot.sourceIndex);
       this.errorIndex = new Map(snapshot.errorIndex);
       this.contextIndex = new Map(snapshot.contextIndex);
-      this.retentionQueue = new Map(snapshot.retentionQueue);
 
       // Count restored applications
       const restoredApplications = new Set<string>();
@@ -4,7 +4,7 @@
  */
 
 import { BaseMCP } from '../mcp/base_mcp';
-import { MCPConfig, DataRecord, MCPType, MCPDomain, ConsistencyLevel } from '../../types/mcp.types';
+import { MCPConfig, DataRecord, MCPType, MCPDomain, ConsistencyLevel, WriteOptions } from '../../types/mcp.types';
 
 interface StatsData {
   id: string;
@@ -117,6 +117,11 @@ export class StatsMCP extends BaseMCP {
     return true;
   }
 
+  // Time ranges select metrics by when they were measured, not when they were ingested
+  override getEventTimeField(): string {
+    return 'data.timestamp';
+  }
+
   private setupStatsSpecificIndices(): void {
     this.on('record_stored', (record: DataRecord) => {
       this.updateStatsIndices(record, 'create');
@@ -521,19 +526,21 @@ export class StatsMCP extends BaseMCP {
   }
 
   override async query(query: any): Promise<any> {
-    if (query.metricName) {
-      return this.getMetricData(query.metricName, query.options);
+    const { options, ...filters } = query;
+    // Metric shortcut only covers a plain metric name lookup
+    if (typeof filters.metricName === 'string' && Object.keys(filters).length === 1) {
+      return this.getMetricData(filters.metricName, options);
     }
-    return null;
+    return super.query(filters);
   }
 
-  override async update(record: DataRecord): Promise<boolean> {
+  override async update(record: DataRecord, options: WriteOptions = {}): Promise<boolean> {
     // Update is essentially a store operation
-    return this.store(record);
+    return this.store(record, options);
   }
 
   override async delete(id: string, options?: any): Promise<any> {
-    return super.delete(id);
+    return super.delete(id, options);
   }
 
   /**
@@ -641,6 +648,12 @@ export class StatsMCP extends BaseMCP {
 
       this.indices.set(definition.name, indexMap);
 
+      // Back the lookup map with an ordered index the query planner can select
+      if (!await super.createIndex(definition.name, definition.fields, options)) {
+        this.indices.delete(definition.name);
+        return false;
+      }
+
       const recordCount = this.records.size;
       const estimatedImprovement = recordCount > 5000 ? 
         Math.min(98, (recordCount / 1000) * 40) : 
@@ -9,7 +9,8 @@ import {
   DataRecord,
   MCPDomain,
   MCPType,
-  MCPConfig
+  MCPConfig,
+  WriteOptions
 } from '../../types/mcp.types';
 
 export interface UserRecord {
@@ -79,7 +80,7 @@ export class UserMCP extends BaseMCP {
   /**
    * User-specific operations
    */
-  async storeUser(userData: UserRecord): Promise<boolean> {
+  async storeUser(userData: UserRecord, options: WriteOptions = {}): Promise<boolean> {
     // Validate user data
     if (!this.validateUserData(userData)) {
       return false;
@@ -110,7 +111,7 @@ export class UserMCP extends BaseMCP {
       }
     };
 
-    const success = await this.store(record);
+    const success = await this.store(record, options);
     
     if (success) {
       await this.updateUserIndices(userData);
@@ -196,7 +197,13 @@ export class UserMCP extends BaseMCP {
     return results;
   }
 
-  async updateUser(userId: string, updates: Partial<UserRecord>): Promise<boolean> {
+  /**
+   * Merge updates into a user. The write is conditional on the version the merge was based on
+   * (or options.ifVersion), so a concurrent update raises a VersionConflictError instead of being lost.
+   */
+  async updateUser(userId: string, updates: Partial<UserRecord>, options: WriteOptions = {}): Promise<boolean> {
+    // Read the version before the data so a racing write can only cause a spurious conflict
+    const expectedVersion = options.ifVersion ?? this.records.get(userId)?.version ?? 0;
     const existingUser = await this.getUserById(userId);
     if (!existingUser) return false;
     
@@ -213,13 +220,13 @@ export class UserMCP extends BaseMCP {
       }
     };
     
-    // Remove old indices
-    await this.removeUserFromIndices(existingUser);
-    
     // Store updated user
-    const success = await this.storeUser(updatedUser);
+    const success = await this.storeUser(updatedUser, { ifVersion: expectedVersion });
     
     if (success) {
+      // Replace old index entries once the write has landed
+      await this.removeUserFromIndices(existingUser);
+      await this.updateUserIndices(updatedUser);
       await this.logUserAudit('user_updated', userId, updates);
     }
     
@@ -512,9 +519,11 @@ export class UserMCP extends BaseMCP {
   // Override query method to properly implement the interface
   override async query(filters: Record<string, any>): Promise<DataRecord[]> {
     const results: DataRecord[] = [];
+    // Lookup shortcuts only cover a single plain equality; anything else goes through the filter engine
+    const singleKey = Object.keys(filters).length === 1;
     
     // Handle different filter types
-    if (filters.id) {
+    if (singleKey && typeof filters.id === 'string') {
       const user = await this.getUserById(filters.id);
       if (user) {
         results.push({
@@ -526,7 +535,7 @@ export class UserMCP extends BaseMCP {
           metadata: user.metadata
         });
       }
-    } else if (filters.email) {
+    } else if (singleKey && typeof filters.email === 'string') {
       const user = await this.getUserByEmail(filters.email);
       if (user) {
         results.push({
@@ -539,7 +548,6 @@ export class UserMCP extends BaseMCP {
         });
       }
     } else {
-      // Return all users if no specific filter
       return super.query(filters);
     }
     
@@ -618,6 +626,12 @@ export class UserMCP extends BaseMCP {
       // Store the index
       this.indices.set(definition.name, indexMap);
 
+      // Back the lookup map with an ordered index the query planner can select
+      if (!await super.createIndex(definition.name, definition.fields, options)) {
+        this.indices.delete(definition.name);
+        return false;
+      }
+
       // Calculate performance metrics
       const recordCount = this.records.size;
       const estimatedImprovement = recordCount > 1000 ? 
@@ -0,0 +1,53 @@
+/**
+ * VectorMCP - Specialized MCP for embedding storage and similarity search
+ * Embeds every stored record and answers k-nearest-neighbour queries over an HNSW index
+ */
+
+import { BaseMCP } from '../mcp/base_mcp';
+import {
+  MCPConfig,
+  MCPType,
+  MCPDomain,
+  MCPCapabilities,
+  SimilarityMatch,
+  SimilaritySearchOptions
+} from '../../types/mcp.types';
+
+export class VectorMCP extends BaseMCP {
+  constructor(domain: MCPDomain, type: MCPType, config: Partial<MCPConfig> = {}) {
+    // Any MCP can carry a vector index; this one always does
+    super(domain, type, { ...config, vectorIndex: config.vectorIndex || {} });
+  }
+
+  protected override defineCapabilities(): MCPCapabilities {
+    return {
+      queryTypes: ['select', 'insert', 'update', 'delete', 'search'],
+      dataTypes: ['string', 'object', 'array', 'vector'],
+      maxConnections: 100,
+      consistencyLevels: ['eventual', 'strong'],
+      transactionSupport: false,
+      backupSupport: true,
+      replicationSupport: true,
+      encryptionSupport: false,
+      compressionSupport: false, // Embeddings barely compress
+      fullTextSearch: false,
+      geospatialSupport: false,
+      vectorSearch: true,
+      streamingSupport: false
+    };
+  }
+
+  protected override optimizeForDomain(): void {}
+
+  /**
+   * Records most similar to a stored record, excluding the record itself
+   */
+  async findSimilar(id: string, options: SimilaritySearchOptions = {}): Promise<SimilarityMatch[]> {
+    const record = await this.retrieve(id);
+    if (!record?.embedding) return [];
+
+    const k = Math.max(1, Math.floor(options.k ?? 10));
+    const matches = await this.similaritySearch(record.embedding, { ...options, k: k + 1 });
+    return matches.filter(match => match.record.id !== id).slice(0, k);
+  }
+}
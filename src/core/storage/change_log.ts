@@ -0,0 +1,262 @@
+/**
+ * Change Log
+ * Ordered record of every create, update and delete across all MCPs, numbered with one global
+ * sequence, plus the offset each consumer group has read up to
+ *
+ * File layout under `<directory>/`:
+ *   changes.log  - one JSON ChangeEvent per line, appended as changes happen
+ *   offsets.json - committed offset per consumer group, rewritten on every commit
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DataRecord } from '../../types/mcp.types';
+
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+export interface ChangeEvent {
+  /** Global sequence number, starting at 1 and never reused */
+  seq: number;
+  op: ChangeOperation;
+  mcpId: string;
+  domain: string;
+  recordId: string;
+  /** Version the write gave the record; absent on deletes */
+  version?: number;
+  /** The record after the write; absent on deletes */
+  record?: DataRecord;
+  /** Set when a delete was the record's TTL running out rather than a request */
+  reason?: 'expired';
+  timestamp: number;
+}
+
+export interface ChangeOffset {
+  group: string;
+  /** Sequence number of the last change the group has processed */
+  seq: number;
+  updatedAt: number;
+}
+
+export interface ChangeLog {
+  open(): Promise<void>;
+
+  /**
+   * Number and record a change. The sequence number is assigned before this returns a promise,
+   * so changes appended one after another keep their order. A change is readable once the
+   * promise resolves.
+   */
+  append(change: Omit<ChangeEvent, 'seq'>): Promise<ChangeEvent>;
+
+  /** Retained changes after `since`, oldest first */
+  read(since: number, limit: number): Promise<ChangeEvent[]>;
+
+  /** Sequence number of the oldest retained change; lastSequence + 1 when none are retained */
+  firstSequence(): number;
+
+  /** Sequence number of the latest readable change; 0 before the first */
+  lastSequence(): number;
+
+  getOffset(group: string): Promise<ChangeOffset | null>;
+
+  commitOffset(group: string, seq: number): Promise<ChangeOffset>;
+
+  listOffsets(): Promise<ChangeOffset[]>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Default log - changes and offsets live only as long as the process, keeping the latest
+ * `maxEvents` changes
+ */
+export class MemoryChangeLog implements ChangeLog {
+  protected events: ChangeEvent[] = [];
+  protected offsets: Map<string, ChangeOffset> = new Map();
+  // Last sequence number handed out, and the last one that became readable
+  protected sequence = 0;
+  protected readable = 0;
+
+  constructor(protected readonly maxEvents: number = 100000) {
+    if (maxEvents < 1) {
+      throw new Error('Change log must retain at least one change');
+    }
+  }
+
+  async open(): Promise<void> {
+    // Nothing to load
+  }
+
+  async append(change: Omit<ChangeEvent, 'seq'>): Promise<ChangeEvent> {
+    const event: ChangeEvent = { seq: ++this.sequence, ...change };
+    this.retain(event);
+    return event;
+  }
+
+  async read(since: number, limit: number): Promise<ChangeEvent[]> {
+    // Binary search for the first change after `since`; a failed write can leave a gap
+    let low = 0;
+    let high = this.events.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.events[mid].seq <= since) low = mid + 1; else high = mid;
+    }
+    return this.events.slice(low, low + Math.max(0, limit));
+  }
+
+  firstSequence(): number {
+    return this.events.length > 0 ? this.events[0].seq : this.readable + 1;
+  }
+
+  lastSequence(): number {
+    return this.readable;
+  }
+
+  async getOffset(group: string): Promise<ChangeOffset | null> {
+    const offset = this.offsets.get(group);
+    return offset ? { ...offset } : null;
+  }
+
+  async commitOffset(group: string, seq: number): Promise<ChangeOffset> {
+    const offset = { group, seq, updatedAt: Date.now() };
+    this.offsets.set(group, offset);
+    return { ...offset };
+  }
+
+  async listOffsets(): Promise<ChangeOffset[]> {
+    return Array.from(this.offsets.values(), offset => ({ ...offset }));
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  protected retain(event: ChangeEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    this.readable = event.seq;
+  }
+}
+
+const LOG_FILE = 'changes.log';
+const OFFSETS_FILE = 'offsets.json';
+
+/**
+ * Durable log - retained changes are also held in memory for reads, and the file is rewritten
+ * down to them once it has grown to twice `maxEvents`. A change becomes readable only after it
+ * is written, so no consumer sees a sequence number that a crash could hand out again.
+ */
+export class FileChangeLog extends MemoryChangeLog {
+  private readonly logPath: string;
+  private readonly offsetsPath: string;
+  private handle: fs.FileHandle | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private linesInFile = 0;
+
+  constructor(private readonly directory: string, maxEvents?: number) {
+    super(maxEvents);
+    this.logPath = path.join(directory, LOG_FILE);
+    this.offsetsPath = path.join(directory, OFFSETS_FILE);
+  }
+
+  override async open(): Promise<void> {
+    if (this.handle) {
+      throw new Error(`Change log already open: ${this.directory}`);
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const events = await this.readEvents();
+    this.events = events.slice(-this.maxEvents);
+    this.sequence = this.readable = events.length > 0 ? events[events.length - 1].seq : 0;
+    this.offsets = new Map((await this.readOffsets()).map(offset => [offset.group, offset]));
+
+    // Start from only the retained changes, which also drops a torn tail
+    await this.rewrite();
+    this.handle = await fs.open(this.logPath, 'a');
+  }
+
+  override async append(change: Omit<ChangeEvent, 'seq'>): Promise<ChangeEvent> {
+    if (!this.handle) {
+      throw new Error(`Change log not open: ${this.directory}`);
+    }
+
+    const event: ChangeEvent = { seq: ++this.sequence, ...change };
+    const line = JSON.stringify(event) + '\n';
+    await this.enqueue(async () => {
+      await this.handle!.appendFile(line);
+      this.retain(event);
+      if (++this.linesInFile >= this.maxEvents * 2) {
+        await this.handle!.close();
+        await this.rewrite();
+        this.handle = await fs.open(this.logPath, 'a');
+      }
+    });
+    return event;
+  }
+
+  override async commitOffset(group: string, seq: number): Promise<ChangeOffset> {
+    const offset = await super.commitOffset(group, seq);
+    await this.enqueue(async () => {
+      // Write then rename, so a crash leaves either the previous offsets or these
+      const tmpPath = `${this.offsetsPath}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(Array.from(this.offsets.values())));
+      await fs.rename(tmpPath, this.offsetsPath);
+    });
+    return offset;
+  }
+
+  override async close(): Promise<void> {
+    await this.enqueue(async () => {
+      if (!this.handle) return;
+      await this.handle.sync();
+      await this.handle.close();
+      this.handle = null;
+    });
+  }
+
+  // The latest change is always retained, so the rewritten file still carries the sequence
+  private async rewrite(): Promise<void> {
+    const tmpPath = `${this.logPath}.tmp`;
+    await fs.writeFile(tmpPath, this.events.map(event => JSON.stringify(event) + '\n').join(''));
+    await fs.rename(tmpPath, this.logPath);
+    this.linesInFile = this.events.length;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readEvents(): Promise<ChangeEvent[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.logPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const events: ChangeEvent[] = [];
+    for (const line of raw.split('\n')) {
+      if (line.trim().length === 0) continue;
+      try {
+        events.push(JSON.parse(line) as ChangeEvent);
+      } catch {
+        // A torn write from a crash can only affect the tail of the log
+        break;
+      }
+    }
+    return events;
+  }
+
+  private async readOffsets(): Promise<ChangeOffset[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.offsetsPath, 'utf8')) as ChangeOffset[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Payload Compression
+ * zlib-backed encoding of record payloads for cold storage
+ */
+
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+
+export type CompressionAlgorithm = 'gzip' | 'brotli' | 'zstd';
+export type CompressionLevel = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * Compressed payload as stored in `DataRecord.data`
+ */
+export interface CompressedPayload {
+  _compressed: true;
+  algorithm: CompressionAlgorithm;
+  encoding: 'base64';
+  payload: string;
+  _originalSize: number;
+  _compressedSize: number;
+}
+
+interface CodecSettings {
+  algorithm: CompressionAlgorithm;
+  level: number;
+}
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+// zstd ships with newer Node releases only
+const zstdCompressFn = (zlib as any).zstdCompress;
+const zstdDecompressFn = (zlib as any).zstdDecompress;
+const zstdCompress = zstdCompressFn ? promisify(zstdCompressFn) as (buf: Buffer, opts: any) => Promise<Buffer> : null;
+const zstdDecompress = zstdDecompressFn ? promisify(zstdDecompressFn) as (buf: Buffer) => Promise<Buffer> : null;
+
+// 1=fastest ... 5=best compression
+const LEVEL_SETTINGS: Record<CompressionLevel, CodecSettings> = {
+  1: { algorithm: 'gzip', level: 1 },
+  2: { algorithm: 'gzip', level: 6 },
+  3: { algorithm: 'brotli', level: 5 },
+  4: { algorithm: 'brotli', level: 9 },
+  5: { algorithm: 'brotli', level: 11 }
+};
+
+const ZSTD_LEVELS: Record<CompressionLevel, number> = { 1: 1, 2: 3, 3: 9, 4: 15, 5: 19 };
+
+export function isZstdAvailable(): boolean {
+  return zstdCompress !== null && zstdDecompress !== null;
+}
+
+/**
+ * Resolve the codec for a compression level, honouring an explicit algorithm override
+ */
+export function resolveCodec(level: CompressionLevel, algorithm?: CompressionAlgorithm): CodecSettings {
+  const defaults = LEVEL_SETTINGS[level] || LEVEL_SETTINGS[3];
+
+  if (algorithm === 'zstd') {
+    // Fall back to the level's default codec on runtimes without zstd
+    return isZstdAvailable() ? { algorithm: 'zstd', level: ZSTD_LEVELS[level] || 9 } : defaults;
+  }
+  if (algorithm === 'gzip') {
+    return { algorithm, level: Math.min(9, level * 2 - 1) };
+  }
+  if (algorithm === 'brotli') {
+    return { algorithm, level: Math.min(11, level * 2 + 1) };
+  }
+  return defaults;
+}
+
+export function isCompressedPayload(data: any): data is CompressedPayload {
+  return !!data && data._compressed === true && typeof data.payload === 'string';
+}
+
+export async function compressPayload(
+  value: any,
+  level: CompressionLevel,
+  algorithm?: CompressionAlgorithm
+): Promise<CompressedPayload> {
+  const codec = resolveCodec(level, algorithm);
+  const input = Buffer.from(JSON.stringify(value === undefined ? null : value), 'utf8');
+
+  let output: Buffer;
+  switch (codec.algorithm) {
+    case 'gzip':
+      output = await gzip(input, { level: codec.level });
+      break;
+    case 'brotli':
+      output = await brotliCompress(input, {
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: codec.level,
+          [zlib.constants.BROTLI_PARAM_SIZE_HINT]: input.length
+        }
+      });
+      break;
+    case 'zstd':
+      output = await zstdCompress!(input, {
+        params: { [(zlib.constants as any).ZSTD_c_compressionLevel]: codec.level }
+      });
+      break;
+  }
+
+  return {
+    _compressed: true,
+    algorithm: codec.algorithm,
+    encoding: 'base64',
+    payload: output.toString('base64'),
+    _originalSize: input.length,
+    _compressedSize: output.length
+  };
+}
+
+export async function decompressPayload(data: CompressedPayload): Promise<any> {
+  const input = Buffer.from(data.payload, data.encoding);
+
+  let output: Buffer;
+  switch (data.algorithm) {
+    case 'gzip':
+      output = await gunzip(input);
+      break;
+    case 'brotli':
+      output = await brotliDecompress(input);
+      break;
+    case 'zstd':
+      if (!zstdDecompress) {
+        throw new Error('zstd payload cannot be decoded: zstd is not supported by this Node.js runtime');
+      }
+      output = await zstdDecompress(input);
+      break;
+    default:
+      throw new Error(`Unknown compression algorithm: ${(data as any).algorithm}`);
+  }
+
+  return JSON.parse(output.toString('utf8'));
+}
@@ -0,0 +1,136 @@
+/**
+ * Ingestion Dead-Letter Store
+ * Persistence for records RAG₁ failed to ingest, so they can still be replayed after a restart
+ *
+ * File layout under `<directory>/`:
+ *   <deadLetterId>.json - one IngestionDeadLetter, rewritten after every failed replay or edit
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/** Where in the ingestion pipeline a record failed */
+export type IngestionStage = 'classify' | 'route' | 'store';
+
+export interface IngestionDeadLetter {
+  id: string;
+  /** ID the record is stored under once a replay succeeds */
+  recordId: string;
+  data: any;
+  metadata?: any;
+  /** Set for records that arrived in a batch */
+  batchId?: string;
+  stage: IngestionStage;
+  error: string;
+  /** Ingestion attempts so far, the original one included */
+  attempts: number;
+  /** 'scheduled' while an automatic retry is due; 'exhausted' once only a manual replay is left */
+  status: 'scheduled' | 'exhausted';
+  nextRetryAt?: number;
+  firstFailedAt: number;
+  lastFailedAt: number;
+  /** Set when the data or metadata was edited */
+  editedAt?: number;
+}
+
+export interface DeadLetterStore {
+  open(): Promise<void>;
+
+  loadAll(): Promise<IngestionDeadLetter[]>;
+
+  save(deadLetter: IngestionDeadLetter): Promise<void>;
+
+  delete(deadLetterId: string): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Default store - dead letters live only as long as the process
+ */
+export class MemoryDeadLetterStore implements DeadLetterStore {
+  async open(): Promise<void> {
+    // Nothing to load
+  }
+
+  async loadAll(): Promise<IngestionDeadLetter[]> {
+    return [];
+  }
+
+  async save(_deadLetter: IngestionDeadLetter): Promise<void> {
+    // The dead-letter queue already holds every entry
+  }
+
+  async delete(_deadLetterId: string): Promise<void> {
+    // Nothing to remove
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+const DEAD_LETTER_ID_PATTERN = /^[\w-]+$/;
+
+export class FileDeadLetterStore implements DeadLetterStore {
+  // Per entry, so a delete never races a save of the same entry
+  private writeChains: Map<string, Promise<void>> = new Map();
+
+  constructor(private readonly directory: string) {}
+
+  async open(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  async loadAll(): Promise<IngestionDeadLetter[]> {
+    const deadLetters: IngestionDeadLetter[] = [];
+    for (const file of await fs.readdir(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        deadLetters.push(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')));
+      } catch {
+        // A file torn by a crash mid-write is left for an operator to inspect
+      }
+    }
+    return deadLetters.sort((a, b) => a.firstFailedAt - b.firstFailedAt);
+  }
+
+  async save(deadLetter: IngestionDeadLetter): Promise<void> {
+    const target = this.pathFor(deadLetter.id);
+    const content = JSON.stringify(deadLetter);
+    return this.enqueue(deadLetter.id, async () => {
+      // Write then rename, so a crash leaves either the old entry or the new one
+      const temp = `${target}.tmp`;
+      await fs.writeFile(temp, content);
+      await fs.rename(temp, target);
+    });
+  }
+
+  async delete(deadLetterId: string): Promise<void> {
+    const target = this.pathFor(deadLetterId);
+    return this.enqueue(deadLetterId, () => fs.rm(target, { force: true }));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.writeChains.values()));
+  }
+
+  private enqueue(deadLetterId: string, write: () => Promise<void>): Promise<void> {
+    const run = (this.writeChains.get(deadLetterId) || Promise.resolve()).then(write);
+    const chain = run.catch(() => undefined);
+    this.writeChains.set(deadLetterId, chain);
+    chain.then(() => {
+      if (this.writeChains.get(deadLetterId) === chain) {
+        this.writeChains.delete(deadLetterId);
+      }
+    });
+    return run;
+  }
+
+  private pathFor(deadLetterId: string): string {
+    if (!DEAD_LETTER_ID_PATTERN.test(deadLetterId)) {
+      throw new Error(`Invalid dead letter ID: ${deadLetterId}`);
+    }
+    return path.join(this.directory, `${deadLetterId}.json`);
+  }
+}
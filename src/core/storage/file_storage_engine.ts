@@ -0,0 +1,242 @@
+/**
+ * File Storage Engine
+ * Append-only write-ahead log (NDJSON) plus periodic full snapshots
+ *
+ * Layout under `<dataDir>/<namespace>/`:
+ *   wal.log        - one JSON WALEntry per line, appended on every mutation
+ *   snapshot.json  - { sequence, timestamp, records } written atomically via rename
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DataRecord, StorageFsyncPolicy } from '../../types/mcp.types';
+import { StorageEngine, StorageStats, WALEntry } from './storage_engine';
+
+export interface FileStorageEngineOptions {
+  directory: string;
+  fsyncPolicy?: StorageFsyncPolicy;
+  fsyncIntervalMs?: number;
+  snapshotInterval?: number;
+}
+
+interface SnapshotFile {
+  sequence: number;
+  timestamp: number;
+  records: DataRecord[];
+}
+
+const WAL_FILE = 'wal.log';
+const SNAPSHOT_FILE = 'snapshot.json';
+
+export class FileStorageEngine implements StorageEngine {
+  private readonly walPath: string;
+  private readonly snapshotPath: string;
+  private readonly fsyncPolicy: StorageFsyncPolicy;
+  private readonly fsyncIntervalMs: number;
+  private readonly snapshotInterval: number;
+
+  private wal: fs.FileHandle | null = null;
+  private fsyncTimer: NodeJS.Timeout | null = null;
+  private dirty = false;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private sequence = 0;
+  private lastSnapshotSequence = 0;
+  private snapshotCount = 0;
+  private recoveredRecords = 0;
+  private discardedEntries = 0;
+
+  constructor(private readonly options: FileStorageEngineOptions) {
+    this.walPath = path.join(options.directory, WAL_FILE);
+    this.snapshotPath = path.join(options.directory, SNAPSHOT_FILE);
+    this.fsyncPolicy = options.fsyncPolicy || 'interval';
+    this.fsyncIntervalMs = options.fsyncIntervalMs || 1000;
+    this.snapshotInterval = options.snapshotInterval ?? 10000;
+  }
+
+  async open(): Promise<DataRecord[]> {
+    if (this.wal) {
+      throw new Error(`Storage engine already open: ${this.options.directory}`);
+    }
+
+    await fs.mkdir(this.options.directory, { recursive: true });
+
+    const state = new Map<string, DataRecord>();
+
+    // Load the latest snapshot
+    const snapshot = await this.readSnapshot();
+    if (snapshot) {
+      for (const record of snapshot.records) {
+        state.set(record.id, record);
+      }
+      this.sequence = snapshot.sequence;
+      this.lastSnapshotSequence = snapshot.sequence;
+    }
+
+    // Replay log entries written after the snapshot
+    const entries = await this.readWAL();
+    for (const entry of entries) {
+      if (entry.seq <= this.lastSnapshotSequence) continue;
+
+      if (entry.op === 'put' && entry.record) {
+        state.set(entry.id, entry.record);
+      } else if (entry.op === 'delete') {
+        state.delete(entry.id);
+      }
+      this.sequence = entry.seq;
+    }
+
+    // Drop a torn tail so new appends don't land behind a corrupt line
+    if (this.discardedEntries > 0) {
+      await fs.writeFile(this.walPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+    }
+
+    this.wal = await fs.open(this.walPath, 'a');
+
+    if (this.fsyncPolicy === 'interval') {
+      this.fsyncTimer = setInterval(() => {
+        this.enqueue(() => this.flush()).catch(() => undefined);
+      }, this.fsyncIntervalMs);
+      this.fsyncTimer.unref();
+    }
+
+    this.recoveredRecords = state.size;
+    return Array.from(state.values());
+  }
+
+  async put(record: DataRecord): Promise<void> {
+    await this.append({ op: 'put', id: record.id, record });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.append({ op: 'delete', id });
+  }
+
+  shouldSnapshot(): boolean {
+    return this.snapshotInterval > 0 &&
+      this.sequence - this.lastSnapshotSequence >= this.snapshotInterval;
+  }
+
+  async snapshot(records: Iterable<DataRecord>): Promise<void> {
+    // Capture the record set synchronously so it matches the current sequence
+    const contents: SnapshotFile = {
+      sequence: this.sequence,
+      timestamp: Date.now(),
+      records: Array.from(records)
+    };
+
+    await this.enqueue(async () => {
+      const tmpPath = `${this.snapshotPath}.tmp`;
+      const handle = await fs.open(tmpPath, 'w');
+      try {
+        await handle.writeFile(JSON.stringify(contents));
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await fs.rename(tmpPath, this.snapshotPath);
+
+      // Later appends queue behind this task, so the log holds only entries the snapshot covers
+      if (this.wal) {
+        await this.wal.truncate(0);
+        await this.wal.sync();
+      }
+
+      this.lastSnapshotSequence = contents.sequence;
+      this.snapshotCount++;
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.fsyncTimer) {
+      clearInterval(this.fsyncTimer);
+      this.fsyncTimer = null;
+    }
+
+    await this.enqueue(async () => {
+      if (!this.wal) return;
+      if (this.fsyncPolicy !== 'never') {
+        await this.wal.sync();
+      }
+      await this.wal.close();
+      this.wal = null;
+    });
+  }
+
+  getStats(): StorageStats {
+    return {
+      engine: 'file',
+      lastSequence: this.sequence,
+      lastSnapshotSequence: this.lastSnapshotSequence,
+      entriesSinceSnapshot: this.sequence - this.lastSnapshotSequence,
+      snapshotCount: this.snapshotCount,
+      recoveredRecords: this.recoveredRecords,
+      discardedEntries: this.discardedEntries
+    };
+  }
+
+  private async append(entry: Omit<WALEntry, 'seq' | 'timestamp'>): Promise<void> {
+    if (!this.wal) {
+      throw new Error(`Storage engine not open: ${this.options.directory}`);
+    }
+
+    const line = JSON.stringify({ seq: ++this.sequence, timestamp: Date.now(), ...entry }) + '\n';
+
+    await this.enqueue(async () => {
+      await this.wal!.appendFile(line);
+      if (this.fsyncPolicy === 'always') {
+        await this.wal!.sync();
+      } else {
+        this.dirty = true;
+      }
+    });
+  }
+
+  private async flush(): Promise<void> {
+    if (!this.wal || !this.dirty) return;
+    this.dirty = false;
+    await this.wal.sync();
+  }
+
+  // Serialize all file operations so appends, snapshots and truncation never interleave
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readSnapshot(): Promise<SnapshotFile | null> {
+    try {
+      const raw = await fs.readFile(this.snapshotPath, 'utf8');
+      return JSON.parse(raw) as SnapshotFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async readWAL(): Promise<WALEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.walPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: WALEntry[] = [];
+    const lines = raw.split('\n').filter(line => line.trim().length > 0);
+
+    for (let i = 0; i < lines.length; i++) {
+      try {
+        entries.push(JSON.parse(lines[i]) as WALEntry);
+      } catch {
+        // A torn write from a crash can only affect the tail of the log
+        this.discardedEntries = lines.length - i;
+        break;
+      }
+    }
+
+    return entries;
+  }
+}
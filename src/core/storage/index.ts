@@ -0,0 +1,34 @@
+/**
+ * Storage Engine Factory
+ */
+
+import * as path from 'path';
+import { StorageConfiguration } from '../../types/mcp.types';
+import { StorageEngine, MemoryStorageEngine } from './storage_engine';
+import { FileStorageEngine } from './file_storage_engine';
+
+export * from './storage_engine';
+export * from './file_storage_engine';
+export * from './compression';
+export * from './transaction_log';
+export * from './session_store';
+export * from './change_log';
+export * from './webhook_store';
+export * from './dead_letter_store';
+
+export function createStorageEngine(config: StorageConfiguration | undefined): StorageEngine {
+  if (!config || config.engine === 'memory') {
+    return new MemoryStorageEngine();
+  }
+  if (!config.namespace) {
+    // A shared default would let two MCPs of one domain and type write to the same log
+    throw new Error('File storage requires a namespace for each MCP');
+  }
+
+  return new FileStorageEngine({
+    directory: path.resolve(config.dataDir || './data', config.namespace),
+    fsyncPolicy: config.fsyncPolicy,
+    fsyncIntervalMs: config.fsyncIntervalMs,
+    snapshotInterval: config.snapshotInterval
+  });
+}
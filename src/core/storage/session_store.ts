@@ -0,0 +1,95 @@
+/**
+ * Query Session Store
+ * Persistence for conversational query sessions, so a dialogue survives a restart
+ *
+ * File layout under `<directory>/`:
+ *   <sessionId>.json - one QuerySession, rewritten after every turn
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { QuerySession } from '../../types/conversation.types';
+
+export interface SessionStore {
+  open(): Promise<void>;
+
+  /** Every saved session, expired ones included */
+  loadAll(): Promise<QuerySession[]>;
+
+  save(session: QuerySession): Promise<void>;
+
+  delete(sessionId: string): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Default store - sessions live only as long as the process
+ */
+export class MemorySessionStore implements SessionStore {
+  async open(): Promise<void> {
+    // Nothing to load
+  }
+
+  async loadAll(): Promise<QuerySession[]> {
+    return [];
+  }
+
+  async save(_session: QuerySession): Promise<void> {
+    // The session manager already holds every live session
+  }
+
+  async delete(_sessionId: string): Promise<void> {
+    // Nothing to remove
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly directory: string) {}
+
+  async open(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  async loadAll(): Promise<QuerySession[]> {
+    const sessions: QuerySession[] = [];
+    for (const file of await fs.readdir(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      try {
+        sessions.push(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')));
+      } catch {
+        // A file torn by a crash mid-write holds nothing worth resuming
+      }
+    }
+    return sessions;
+  }
+
+  async save(session: QuerySession): Promise<void> {
+    const target = this.pathFor(session.id);
+    const temp = `${target}.tmp`;
+    // Write then rename, so a crash leaves either the old session or the new one
+    await fs.writeFile(temp, JSON.stringify(session));
+    await fs.rename(temp, target);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.rm(this.pathFor(sessionId), { force: true });
+  }
+
+  async close(): Promise<void> {
+    // Files are closed after every write
+  }
+
+  private pathFor(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
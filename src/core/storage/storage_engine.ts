@@ -0,0 +1,91 @@
+/**
+ * Storage Engine Abstraction
+ * Persistence layer underneath BaseMCP's in-memory record map
+ */
+
+import { DataRecord, StorageConfiguration } from '../../types/mcp.types';
+
+export type StorageOperation = 'put' | 'delete';
+
+export interface WALEntry {
+  seq: number;
+  op: StorageOperation;
+  id: string;
+  record?: DataRecord;
+  timestamp: number;
+}
+
+export interface StorageStats {
+  engine: 'memory' | 'file';
+  lastSequence: number;
+  lastSnapshotSequence: number;
+  entriesSinceSnapshot: number;
+  snapshotCount: number;
+  recoveredRecords: number;
+  discardedEntries: number;
+}
+
+export interface StorageEngine {
+  /** Open the engine and return the records recovered from disk */
+  open(): Promise<DataRecord[]>;
+
+  /** Durably log a record write */
+  put(record: DataRecord): Promise<void>;
+
+  /** Durably log a record deletion */
+  delete(id: string): Promise<void>;
+
+  /** True when enough mutations have been logged to warrant a snapshot */
+  shouldSnapshot(): boolean;
+
+  /** Persist a full snapshot and truncate the write-ahead log */
+  snapshot(records: Iterable<DataRecord>): Promise<void>;
+
+  /** Flush pending writes and release file handles */
+  close(): Promise<void>;
+
+  getStats(): StorageStats;
+}
+
+/**
+ * Default engine - keeps nothing outside the MCP's own record map
+ */
+export class MemoryStorageEngine implements StorageEngine {
+  private sequence = 0;
+
+  async open(): Promise<DataRecord[]> {
+    return [];
+  }
+
+  async put(_record: DataRecord): Promise<void> {
+    this.sequence++;
+  }
+
+  async delete(_id: string): Promise<void> {
+    this.sequence++;
+  }
+
+  shouldSnapshot(): boolean {
+    return false;
+  }
+
+  async snapshot(_records: Iterable<DataRecord>): Promise<void> {
+    // Nothing to persist
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  getStats(): StorageStats {
+    return {
+      engine: 'memory',
+      lastSequence: this.sequence,
+      lastSnapshotSequence: 0,
+      entriesSinceSnapshot: 0,
+      snapshotCount: 0,
+      recoveredRecords: 0,
+      discardedEntries: 0
+    };
+  }
+}
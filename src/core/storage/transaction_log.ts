@@ -0,0 +1,206 @@
+/**
+ * Transaction Log
+ * Durable record of multi-MCP transaction decisions, read back to resolve in-doubt transactions
+ *
+ * File layout under `<directory>/`:
+ *   transactions.log - one JSON TransactionLogEntry per line, appended on every state change
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DataRecord } from '../../types/mcp.types';
+
+export type TransactionState = 'committing' | 'committed' | 'aborting' | 'aborted' | 'failed';
+
+/**
+ * Identifies a participant MCP; the name and domain outlive process restarts, the ID may not
+ */
+export interface ParticipantRef {
+  mcpId: string;
+  name: string;
+  domain: string;
+}
+
+export interface LoggedOperation {
+  participant: ParticipantRef;
+  op: 'put' | 'delete';
+  id: string;
+  record?: DataRecord;
+  /** Version the record held when the transaction prepared; 0 when it did not exist */
+  expectedVersion: number;
+  /** Record as it stood before the transaction, restored on rollback */
+  before: DataRecord | null;
+}
+
+export interface TransactionLogEntry {
+  txId: string;
+  state: TransactionState;
+  timestamp: number;
+  /** Present on 'committing' - the full write set and its before-images */
+  operations?: LoggedOperation[];
+  error?: string;
+}
+
+export interface TransactionLog {
+  open(): Promise<void>;
+
+  /** Durably record a state change */
+  append(entry: TransactionLogEntry): Promise<void>;
+
+  /** Transactions whose last logged state is 'committing' or 'aborting', with their write sets */
+  inDoubt(): Promise<TransactionLogEntry[]>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Groups entries by transaction and keeps those that never reached a final state
+ */
+export function collectInDoubt(entries: TransactionLogEntry[]): TransactionLogEntry[] {
+  const latest = new Map<string, TransactionLogEntry>();
+  const operations = new Map<string, LoggedOperation[]>();
+
+  for (const entry of entries) {
+    latest.set(entry.txId, entry);
+    if (entry.operations) {
+      operations.set(entry.txId, entry.operations);
+    }
+  }
+
+  return Array.from(latest.values())
+    .filter(entry => entry.state === 'committing' || entry.state === 'aborting')
+    .map(entry => ({ ...entry, operations: operations.get(entry.txId) || [] }));
+}
+
+/**
+ * Default log - decisions live only as long as the process
+ */
+export class MemoryTransactionLog implements TransactionLog {
+  private entries: TransactionLogEntry[] = [];
+
+  async open(): Promise<void> {
+    // Nothing to load
+  }
+
+  async append(entry: TransactionLogEntry): Promise<void> {
+    this.entries.push(entry);
+    this.compact();
+  }
+
+  async inDoubt(): Promise<TransactionLogEntry[]> {
+    return collectInDoubt(this.entries);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  // Resolved transactions are of no further use
+  private compact(): void {
+    const pending = new Set(collectInDoubt(this.entries).map(entry => entry.txId));
+    this.entries = this.entries.filter(entry => pending.has(entry.txId));
+  }
+}
+
+const LOG_FILE = 'transactions.log';
+
+export class FileTransactionLog implements TransactionLog {
+  private readonly logPath: string;
+  private handle: fs.FileHandle | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private resolvedSinceCompaction = 0;
+
+  constructor(
+    private readonly directory: string,
+    private readonly compactAfter: number = 1000
+  ) {
+    this.logPath = path.join(directory, LOG_FILE);
+  }
+
+  async open(): Promise<void> {
+    if (this.handle) {
+      throw new Error(`Transaction log already open: ${this.directory}`);
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    // Start from only the unresolved transactions, which also drops a torn tail
+    await this.rewrite(await this.readEntries());
+    this.handle = await fs.open(this.logPath, 'a');
+  }
+
+  async append(entry: TransactionLogEntry): Promise<void> {
+    if (!this.handle) {
+      throw new Error(`Transaction log not open: ${this.directory}`);
+    }
+
+    const line = JSON.stringify(entry) + '\n';
+    await this.enqueue(async () => {
+      // Decisions must survive a crash before any participant acts on them
+      await this.handle!.appendFile(line);
+      await this.handle!.sync();
+    });
+
+    if (entry.state !== 'committing' && entry.state !== 'aborting' &&
+        ++this.resolvedSinceCompaction >= this.compactAfter) {
+      this.resolvedSinceCompaction = 0;
+      await this.enqueue(async () => {
+        await this.handle!.close();
+        await this.rewrite(await this.readEntries());
+        this.handle = await fs.open(this.logPath, 'a');
+      });
+    }
+  }
+
+  async inDoubt(): Promise<TransactionLogEntry[]> {
+    let entries: TransactionLogEntry[] = [];
+    await this.enqueue(async () => {
+      entries = await this.readEntries();
+    });
+    return collectInDoubt(entries);
+  }
+
+  async close(): Promise<void> {
+    await this.enqueue(async () => {
+      if (!this.handle) return;
+      await this.handle.close();
+      this.handle = null;
+    });
+  }
+
+  private async rewrite(entries: TransactionLogEntry[]): Promise<void> {
+    const pending = new Set(collectInDoubt(entries).map(entry => entry.txId));
+    const kept = entries.filter(entry => pending.has(entry.txId));
+
+    const tmpPath = `${this.logPath}.tmp`;
+    await fs.writeFile(tmpPath, kept.map(entry => JSON.stringify(entry) + '\n').join(''));
+    await fs.rename(tmpPath, this.logPath);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task);
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readEntries(): Promise<TransactionLogEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.logPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: TransactionLogEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (line.trim().length === 0) continue;
+      try {
+        entries.push(JSON.parse(line) as TransactionLogEntry);
+      } catch {
+        // A torn write from a crash can only affect the tail of the log
+        break;
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Webhook Store
+ * Persistence for webhook subscriptions and deliveries that exhausted their retries, so
+ * neither is lost on restart
+ *
+ * File layout under `<directory>/`:
+ *   webhooks.json - every subscription and dead letter, rewritten on every change
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Event types delivered; 'alert.*' matches every type under 'alert.', '*' matches all */
+  events: string[];
+  /** Key the payload signature is computed with */
+  secret: string;
+  enabled: boolean;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: string;
+  timestamp: number;
+  data: any;
+}
+
+export interface WebhookDeadLetter {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  attempts: number;
+  lastError: string;
+  failedAt: number;
+}
+
+export interface WebhookState {
+  subscriptions: WebhookSubscription[];
+  deadLetters: WebhookDeadLetter[];
+}
+
+export interface WebhookStore {
+  open(): Promise<void>;
+
+  load(): Promise<WebhookState>;
+
+  save(state: WebhookState): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Default store - subscriptions live only as long as the process
+ */
+export class MemoryWebhookStore implements WebhookStore {
+  private state: WebhookState = { subscriptions: [], deadLetters: [] };
+
+  async open(): Promise<void> {
+    // Nothing to load
+  }
+
+  async load(): Promise<WebhookState> {
+    return structuredClone(this.state);
+  }
+
+  async save(state: WebhookState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+const STATE_FILE = 'webhooks.json';
+
+export class FileWebhookStore implements WebhookStore {
+  private readonly statePath: string;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string) {
+    this.statePath = path.join(directory, STATE_FILE);
+  }
+
+  async open(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  async load(): Promise<WebhookState> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.statePath, 'utf8'));
+      return { subscriptions: state.subscriptions || [], deadLetters: state.deadLetters || [] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { subscriptions: [], deadLetters: [] };
+      }
+      throw error;
+    }
+  }
+
+  async save(state: WebhookState): Promise<void> {
+    const content = JSON.stringify(state);
+    // Saves run in order, so an earlier state never replaces a later one
+    const run = this.writeChain.then(async () => {
+      // Write then rename, so a crash leaves either the previous state or this one
+      const tmpPath = `${this.statePath}.tmp`;
+      await fs.writeFile(tmpPath, content);
+      await fs.rename(tmpPath, this.statePath);
+    });
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain;
+  }
+}
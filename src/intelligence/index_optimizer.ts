@@ -54,7 +54,8 @@ export class IndexOptimizer {
   }
 
   /**
-   * Create recommended indexes automatically
+   * Create recommended indexes automatically. Indexes the MCP could not build come back
+   * inactive with the reason in `statusReason`, and are not tracked.
    */
   async createOptimalIndexes(candidates: IndexCandidate[]): Promise<MCPIndex[]> {
     const createdIndexes: MCPIndex[] = [];
@@ -70,6 +71,9 @@ export class IndexOptimizer {
       if (await this.shouldCreateIndex(candidate)) {
         const index = await this.createIndex(candidate);
         createdIndexes.push(index);
+        if (index.status !== 'active') {
+          continue;
+        }
         mcpIndexCounts.set(candidate.mcpId, currentCount + 1);
         
         // Track the new index
@@ -137,6 +141,7 @@ export class IndexOptimizer {
       created: [],
       modified: [],
       removed: [],
+      failed: [],
       performance_impact: 0
     };
 
@@ -158,12 +163,15 @@ export class IndexOptimizer {
     if (emergingPatterns.confidence > 0.7) {
       const mlCandidates = await this.generateMLIndexCandidates(emergingPatterns);
       const newIndexes = await this.createOptimalIndexes(mlCandidates);
-      adaptations.created = newIndexes;
+      adaptations.created = newIndexes.filter(index => index.status === 'active');
+      adaptations.failed = newIndexes.filter(index => index.status !== 'active');
     }
     
     // Predictive index creation
     const predictiveIndexes = await this.createPredictiveIndexes();
-    adaptations.created.push(...predictiveIndexes);
+    for (const index of predictiveIndexes) {
+      (index.status === 'active' ? adaptations.created : adaptations.failed).push(index);
+    }
 
     // Calculate overall performance impact
     adaptations.performance_impact = this.calculateAdaptationImpact(adaptations);
@@ -540,9 +548,10 @@ export class IndexOptimizer {
 
   private async shouldCreateIndex(candidate: IndexCandidate): Promise<boolean> {
     // Check if similar index already exists
+    const fields = this.candidateFields(candidate).join(',');
     for (const [, existingIndex] of this.existingIndexes) {
       if (existingIndex.mcpId === candidate.mcpId && 
-          existingIndex.field === candidate.field) {
+          existingIndex.fields.join(',') === fields) {
         return false;
       }
     }
@@ -552,25 +561,48 @@ export class IndexOptimizer {
   }
 
   private async createIndex(candidate: IndexCandidate): Promise<MCPIndex> {
+    const fields = this.candidateFields(candidate);
+    const name = `auto_${fields.join('_').replace(/[^a-zA-Z0-9_]/g, '_')}_idx`;
     const index: MCPIndex = {
-      id: `idx_${candidate.mcpId}_${candidate.field}_${Date.now()}`,
+      id: `idx_${candidate.mcpId}_${fields.join('_')}_${Date.now()}`,
+      name,
       mcpId: candidate.mcpId,
       field: candidate.field,
-      type: 'btree', // Default to B-tree
+      fields,
+      unique: candidate.unique === true,
+      type: 'btree', // Ordered skip-list index inside the MCP
       created: Date.now(),
       size: 0,
-      status: 'active'
+      status: 'building'
     };
 
-    // In a real implementation, this would actually create the index in the MCP
-    console.log(`Creating index: ${index.id} on ${index.mcpId}.${index.field}`);
+    const mcp = await this.config.resolveMCP?.(candidate.mcpId);
+    if (!mcp) {
+      index.status = 'inactive';
+      index.statusReason = `MCP ${candidate.mcpId} is not available`;
+      return index;
+    }
+
+    const created = await mcp.createIndex(name, fields, { unique: index.unique });
+    index.status = created ? 'active' : 'inactive';
+    if (!created) {
+      index.statusReason = `MCP ${candidate.mcpId} did not build the index`;
+    }
+    index.size = mcp.getIndexes?.().find(existing => existing.name === name)?.entries || 0;
     
     return index;
   }
 
   private async removeIndex(index: MCPIndex): Promise<void> {
-    // In a real implementation, this would remove the index from the MCP
-    console.log(`Removing underutilized index: ${index.id}`);
+    const mcp = await this.config.resolveMCP?.(index.mcpId);
+    if (mcp?.dropIndex) {
+      await mcp.dropIndex(index.name);
+    }
+    index.status = 'inactive';
+  }
+
+  private candidateFields(candidate: IndexCandidate): string[] {
+    return candidate.fields?.length ? candidate.fields : [candidate.field];
   }
 
   private async initializeIndexMetrics(index: MCPIndex): Promise<void> {
@@ -677,12 +709,18 @@ export class IndexOptimizer {
 // Supporting interfaces
 export interface MCPIndex {
   id: string;
+  /** Index name inside the MCP */
+  name: string;
   mcpId: string;
   field: string;
+  fields: string[];
+  unique: boolean;
   type: 'btree' | 'hash' | 'gin' | 'gist';
   created: number;
   size: number;
   status: 'active' | 'building' | 'inactive';
+  /** Why an index that was asked for is inactive */
+  statusReason?: string;
 }
 
 interface IndexImpactMetric {
@@ -715,6 +753,8 @@ interface IndexAdaptationResult {
   created: MCPIndex[];
   modified: MCPIndex[];
   removed: MCPIndex[];
+  /** Indexes that could not be built, each with its status reason */
+  failed: MCPIndex[];
   performance_impact: number;
 }
 
@@ -732,9 +772,20 @@ interface QueryTrend {
   growthRate: number;
 }
 
+/**
+ * The slice of an MCP the optimizer needs to manage its indexes
+ */
+export interface IndexableMCP {
+  createIndex(indexName: string, fields: string[], options?: any): Promise<boolean>;
+  dropIndex?(indexName: string): Promise<boolean>;
+  getIndexes?(): Array<{ name: string; entries: number }>;
+}
+
 export interface IndexOptimizerConfig {
   minConfidence?: number;
   maxIndexesPerMCP?: number;
   performanceThreshold?: number;
   costThreshold?: number;
+  /** Looks up the MCP an index candidate targets; without it no index can be built */
+  resolveMCP?: (mcpId: string) => Promise<IndexableMCP | null | undefined> | IndexableMCP | null | undefined;
 }
\ No newline at end of file
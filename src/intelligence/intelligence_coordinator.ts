@@ -279,7 +279,9 @@ export class IntelligenceCoordinator {
   // Private coordination methods
   private initializeComponents(): void {
     this.patternLearner = new PatternLearner();
-    this.indexOptimizer = new IndexOptimizer();
+    this.indexOptimizer = new IndexOptimizer({
+      resolveMCP: mcpId => this.registry.getMCP(mcpId)
+    });
     this.cachePredictor = new CachePredictor();
     this.neuralOptimizer = new NeuralQueryOptimizer();
     this.performanceMonitor = new PerformanceMonitor();
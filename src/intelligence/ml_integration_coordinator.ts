@@ -532,7 +532,7 @@ export class MLIntegrationCoordinator {
       indexRecommendations: {
         candidates: [],
         performanceReport: { timestamp: Date.now(), totalIndexes: 0, underutilizedIndexes: [], overloadedIndexes: [], recommendedActions: [] },
-        adaptations: { created: [], modified: [], removed: [], performance_impact: 0 },
+        adaptations: { created: [], modified: [], removed: [], failed: [], performance_impact: 0 },
         predictions: []
       },
       patternInsights: {
@@ -9,6 +9,7 @@ import { MCPType, MCPPerformanceTier, MCPTier, MCPQuery, MCPResult, MCPMetadata
 import { MCPRegistry, MCPRegistryConfig, MCPCreationRequest } from './registry/MCPRegistry';
 import { TierClassifier, ClassificationResult } from './classification/TierClassifier';
 import { MCPMigrationEngine, MigrationPlan } from './migration/MCPMigrationEngine';
+import { FileMigrationCheckpointStore } from './migration/MigrationCheckpointStore';
 import { MCPCommunicationHub, DistributedQuery, QueryDistributionStrategy } from './communication/MCPCommunicationHub';
 
 export interface MCPOrchestratorConfig {
@@ -23,6 +24,7 @@ export interface MCPOrchestratorConfig {
     enabled: boolean;
     maxConcurrent: number;
     scheduleOptimization: boolean;
+    checkpointDir?: string;  // Persist migration checkpoints here so migrations resume after a restart
   };
   communication: {
     healthCheckInterval: number;
@@ -40,6 +42,15 @@ export interface MCPOrchestratorConfig {
   };
 }
 
+/**
+ * Components an embedding application already runs; the orchestrator works over them instead of
+ * creating its own, and leaves registering factories and shutting them down to their owner
+ */
+export interface MCPOrchestratorComponents {
+  registry?: MCPRegistry;
+  migrationEngine?: MCPMigrationEngine;
+}
+
 export interface SystemMetrics {
   totalMCPs: number;
   activeMCPs: number;
@@ -80,8 +91,10 @@ export class MCPOrchestrator extends EventEmitter {
   private systemMetrics: SystemMetrics;
   private alerts: Alert[];
   private queryCache: Map<string, { result: MCPResult; timestamp: number }>;
+  private ownsRegistry: boolean;
+  private ownsMigrationEngine: boolean;
 
-  constructor(config: Partial<MCPOrchestratorConfig> = {}) {
+  constructor(config: Partial<MCPOrchestratorConfig> = {}, components: MCPOrchestratorComponents = {}) {
     super();
     
     this.isInitialized = false;
@@ -125,9 +138,16 @@ export class MCPOrchestrator extends EventEmitter {
     this.systemMetrics = this.getInitialMetrics();
     
     // Initialize components
-    this.registry = new MCPRegistry(this.config.registry);
+    this.ownsRegistry = !components.registry;
+    this.ownsMigrationEngine = !components.migrationEngine;
+    this.registry = components.registry || new MCPRegistry(this.config.registry);
     this.classifier = new TierClassifier();
-    this.migrationEngine = new MCPMigrationEngine(this.registry, this.classifier, this.config.autoMigration.maxConcurrent);
+    this.migrationEngine = components.migrationEngine || new MCPMigrationEngine(
+      this.registry,
+      this.classifier,
+      this.config.autoMigration.maxConcurrent,
+      this.config.autoMigration.checkpointDir ? new FileMigrationCheckpointStore(this.config.autoMigration.checkpointDir) : undefined
+    );
     this.communicationHub = new MCPCommunicationHub();
     
     this.setupEventHandlers();
@@ -142,8 +162,10 @@ export class MCPOrchestrator extends EventEmitter {
     this.emit('initialization-started');
     
     try {
-      // Register MCP factories
-      await this.registerMCPFactories();
+      // Register MCP factories; a shared registry keeps the ones its owner registered
+      if (this.ownsRegistry) {
+        await this.registerMCPFactories();
+      }
       
       // Start background tasks
       this.startBackgroundTasks();
@@ -175,7 +197,12 @@ export class MCPOrchestrator extends EventEmitter {
       this.backgroundTasks = [];
       
       // Shutdown components
-      await this.registry.shutdown();
+      if (this.ownsMigrationEngine) {
+        await this.migrationEngine.shutdown();
+      }
+      if (this.ownsRegistry) {
+        await this.registry.shutdown();
+      }
       
       this.isInitialized = false;
       this.emit('shutdown-completed');
@@ -0,0 +1,301 @@
+/**
+ * MCP Change Feed - change data capture across every MCP in the registry
+ * Records each create, update and delete in a change log under one global sequence, and serves
+ * it to consumers that read from an offset, follow it as it grows, or mirror it into a sink
+ *
+ * Delivery is at least once: a consumer group's offset moves only after a batch was taken, so a
+ * consumer that fails part-way sees the batch again and should skip sequence numbers it has
+ * already applied.
+ */
+
+import { EventEmitter } from 'events';
+import { DataRecord } from '../../types/mcp.types';
+import { ChangeEvent, ChangeLog, ChangeOffset, MemoryChangeLog } from '../../core/storage/change_log';
+import { MCPRegistry } from '../registry/MCPRegistry';
+
+export interface ChangeFeedConfig {
+  /** Changes returned by one read or delivered in one batch (default 500) */
+  maxBatchSize: number;
+  /** Wait before a batch a consumer failed to take is delivered again (default 5 seconds) */
+  retryDelayMs: number;
+}
+
+export interface ChangePage {
+  changes: ChangeEvent[];
+  /** Offset to read from next: the last change returned, or `since` when there were none */
+  nextSince: number;
+  lastSequence: number;
+}
+
+/**
+ * Destination that mirrors the feed; its consumer group is `sink:<name>`
+ */
+export interface ChangeSink {
+  name: string;
+  open?(): Promise<void>;
+  /** Take a batch in sequence order; throwing makes the feed deliver the batch again */
+  write(changes: ChangeEvent[]): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export type ChangeDelivery = (changes: ChangeEvent[]) => Promise<void>;
+
+export interface FollowOptions {
+  /** Consumer group whose offset is committed after every delivered batch */
+  group?: string;
+}
+
+export class ChangeOffsetExpiredError extends Error {
+  constructor(public readonly since: number, public readonly firstSequence: number) {
+    super(`Changes after ${since} are no longer retained; the oldest retained change is ${firstSequence}`);
+    this.name = 'ChangeOffsetExpiredError';
+  }
+}
+
+export class InvalidChangeOffsetError extends Error {
+  constructor(seq: number, lastSequence: number) {
+    super(`Offset ${seq} is not between 0 and the latest change, ${lastSequence}`);
+    this.name = 'InvalidChangeOffsetError';
+  }
+}
+
+interface Follower {
+  stopped: boolean;
+  // Caught up and waiting for the next change
+  idle: boolean;
+  wake?: () => void;
+  done: Promise<void>;
+}
+
+export class ChangeFeed extends EventEmitter {
+  private readonly config: ChangeFeedConfig;
+  private readonly registryListeners: Array<[string, (event: any) => void]>;
+  private followers: Set<Follower> = new Set();
+  private sinks: Map<string, { sink: ChangeSink; stop: () => Promise<void> }> = new Map();
+  // Appends in flight, awaited before the log closes
+  private appends: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly mcpRegistry: MCPRegistry,
+    private readonly log: ChangeLog = new MemoryChangeLog(),
+    config: Partial<ChangeFeedConfig> = {}
+  ) {
+    super();
+    this.config = {
+      maxBatchSize: 500,
+      retryDelayMs: 5000,
+      ...config
+    };
+
+    this.registryListeners = [
+      ['record-stored', event => this.capture({
+        op: event.version === 1 ? 'create' : 'update',
+        mcpId: event.mcpId,
+        domain: event.domain,
+        recordId: event.recordId,
+        version: event.version,
+        // Later writes may change the emitted record in place
+        record: structuredClone(event.record) as DataRecord,
+        timestamp: Date.now()
+      })],
+      ['record-deleted', event => this.capture({
+        op: 'delete',
+        mcpId: event.mcpId,
+        domain: event.domain,
+        recordId: event.recordId,
+        timestamp: Date.now()
+      })],
+      ['record-expired', event => this.capture({
+        op: 'delete',
+        mcpId: event.mcpId,
+        domain: event.domain,
+        recordId: event.recordId,
+        reason: 'expired',
+        timestamp: Date.now()
+      })]
+    ];
+  }
+
+  /**
+   * Open the change log and start capturing; changes made before this are not recorded
+   */
+  async initialize(): Promise<void> {
+    await this.log.open();
+    for (const [event, listener] of this.registryListeners) {
+      this.mcpRegistry.on(event, listener);
+    }
+  }
+
+  /**
+   * Changes after `since`, oldest first
+   */
+  async read(since: number, limit: number = this.config.maxBatchSize): Promise<ChangePage> {
+    if (since < this.log.firstSequence() - 1) {
+      throw new ChangeOffsetExpiredError(since, this.log.firstSequence());
+    }
+
+    const changes = await this.log.read(since, Math.min(limit, this.config.maxBatchSize));
+    return {
+      changes,
+      nextSince: changes.length > 0 ? changes[changes.length - 1].seq : since,
+      lastSequence: this.log.lastSequence()
+    };
+  }
+
+  /** Sequence number of the latest change; reading after it waits for the next one */
+  lastSequence(): number {
+    return this.log.lastSequence();
+  }
+
+  /**
+   * Offset a consumer group reads from: its committed offset, or just before the oldest
+   * retained change for a group that has not committed yet
+   */
+  async startOf(group: string): Promise<number> {
+    const offset = await this.log.getOffset(group);
+    return offset ? offset.seq : this.log.firstSequence() - 1;
+  }
+
+  async commit(group: string, seq: number): Promise<ChangeOffset> {
+    if (!Number.isInteger(seq) || seq < 0 || seq > this.log.lastSequence()) {
+      throw new InvalidChangeOffsetError(seq, this.log.lastSequence());
+    }
+    const offset = await this.log.commitOffset(group, seq);
+    this.emit('offset-committed', offset);
+    return offset;
+  }
+
+  async offsets(): Promise<ChangeOffset[]> {
+    return this.log.listOffsets();
+  }
+
+  /**
+   * Deliver changes after `since` in batches, then new ones as they are captured, until the
+   * returned function is called. A batch is delivered again after `deliver` throws. A consumer
+   * that falls behind retention skips to the oldest retained change.
+   */
+  follow(since: number, deliver: ChangeDelivery, options: FollowOptions = {}): () => Promise<void> {
+    const follower: Follower = { stopped: false, idle: false, done: Promise.resolve() };
+    this.followers.add(follower);
+
+    // Wait for a change after `cursor`, or for `ms` to pass; stopping ends either wait
+    const pause = (cursor: number, ms?: number) => new Promise<void>(resolve => {
+      const timer = ms !== undefined ? setTimeout(() => follower.wake?.(), ms) : undefined;
+      follower.idle = ms === undefined;
+      follower.wake = () => {
+        if (timer) clearTimeout(timer);
+        follower.idle = false;
+        follower.wake = undefined;
+        resolve();
+      };
+      // Stopping or a change may have come between the read and now
+      if (follower.stopped || (follower.idle && this.log.lastSequence() > cursor)) {
+        follower.wake();
+      }
+    });
+
+    const loop = async () => {
+      let cursor = since;
+      while (!follower.stopped) {
+        let page: ChangePage;
+        try {
+          page = await this.read(cursor);
+        } catch (error) {
+          if (!(error instanceof ChangeOffsetExpiredError)) throw error;
+          this.emit('changes-skipped', { group: options.group, from: cursor + 1, to: error.firstSequence - 1 });
+          cursor = error.firstSequence - 1;
+          continue;
+        }
+
+        if (page.changes.length === 0) {
+          await pause(cursor);
+          continue;
+        }
+
+        try {
+          await deliver(page.changes);
+        } catch (error) {
+          this.report(error as Error);
+          await pause(cursor, this.config.retryDelayMs);
+          continue;
+        }
+        cursor = page.nextSince;
+        if (options.group) {
+          // A failed commit only means the next one covers this batch too
+          await this.commit(options.group, cursor).catch(error => this.report(error));
+        }
+      }
+    };
+
+    follower.done = loop()
+      .catch(error => this.report(error))
+      .finally(() => this.followers.delete(follower));
+
+    return async () => {
+      follower.stopped = true;
+      follower.wake?.();
+      await follower.done;
+    };
+  }
+
+  /**
+   * Mirror the feed into a sink from its group's committed offset
+   */
+  async addSink(sink: ChangeSink): Promise<void> {
+    if (this.sinks.has(sink.name)) {
+      throw new Error(`Change sink already added: ${sink.name}`);
+    }
+
+    await sink.open?.();
+    const group = `sink:${sink.name}`;
+    const stop = this.follow(await this.startOf(group), changes => sink.write(changes), { group });
+    this.sinks.set(sink.name, { sink, stop });
+  }
+
+  async removeSink(name: string): Promise<boolean> {
+    const entry = this.sinks.get(name);
+    if (!entry) return false;
+
+    this.sinks.delete(name);
+    await entry.stop();
+    await entry.sink.close?.();
+    return true;
+  }
+
+  async shutdown(): Promise<void> {
+    for (const [event, listener] of this.registryListeners) {
+      this.mcpRegistry.off(event, listener);
+    }
+    for (const name of Array.from(this.sinks.keys())) {
+      await this.removeSink(name);
+    }
+    for (const follower of Array.from(this.followers)) {
+      follower.stopped = true;
+      follower.wake?.();
+      await follower.done;
+    }
+    await this.appends;
+    await this.log.close();
+  }
+
+  private capture(change: Omit<ChangeEvent, 'seq'>): void {
+    // The log numbers the change before the first await, so appends keep the order of events
+    const appended = this.log.append(change).then(
+      event => {
+        this.emit('change', event);
+        for (const follower of this.followers) {
+          if (follower.idle) follower.wake?.();
+        }
+      },
+      error => this.report(error)
+    );
+    this.appends = Promise.all([this.appends, appended]).then(() => undefined);
+  }
+
+  private report(error: Error): void {
+    // Record events and followers have no caller to throw to, so only report when someone is listening
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * NDJSON File Sink - mirrors the change feed into a file, one JSON ChangeEvent per line
+ * A batch redelivered after a crash can repeat lines; readers keep the first line per `seq`.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ChangeEvent } from '../../core/storage/change_log';
+import { ChangeSink } from './ChangeFeed';
+
+export class NdjsonFileSink implements ChangeSink {
+  readonly name: string;
+  private handle: fs.FileHandle | null = null;
+
+  constructor(private readonly filePath: string, name?: string) {
+    this.name = name || `ndjson:${path.basename(filePath)}`;
+  }
+
+  async open(): Promise<void> {
+    if (this.handle) return;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    this.handle = await fs.open(this.filePath, 'a');
+  }
+
+  async write(changes: ChangeEvent[]): Promise<void> {
+    if (!this.handle) {
+      throw new Error(`NDJSON sink not open: ${this.filePath}`);
+    }
+
+    // The batch must be on disk before the feed commits past it
+    await this.handle.appendFile(changes.map(change => JSON.stringify(change) + '\n').join(''));
+    await this.handle.sync();
+  }
+
+  async close(): Promise<void> {
+    if (!this.handle) return;
+    await this.handle.close();
+    this.handle = null;
+  }
+}
@@ -37,8 +37,36 @@ export {
   MigrationProgress, 
   MigrationStatus, 
   MigrationPhase,
-  RollbackPlan
+  RollbackPlan,
+  MigrationValidationError
 } from './migration/MCPMigrationEngine';
+export {
+  MigrationCheckpoint,
+  MigrationCheckpointStore,
+  MemoryMigrationCheckpointStore,
+  FileMigrationCheckpointStore
+} from './migration/MigrationCheckpointStore';
+
+// Change Data Capture
+export {
+  ChangeFeed,
+  ChangeFeedConfig,
+  ChangePage,
+  ChangeSink,
+  ChangeDelivery,
+  FollowOptions,
+  ChangeOffsetExpiredError,
+  InvalidChangeOffsetError
+} from './cdc/ChangeFeed';
+export { NdjsonFileSink } from './cdc/NdjsonFileSink';
+export {
+  ChangeEvent,
+  ChangeOperation,
+  ChangeOffset,
+  ChangeLog,
+  MemoryChangeLog,
+  FileChangeLog
+} from '../core/storage/change_log';
 
 // Communication System
 export { 
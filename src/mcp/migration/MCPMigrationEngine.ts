@@ -4,11 +4,13 @@
  */
 
 import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { BaseMCP } from '../../core/mcp/base_mcp';
-import { MCPTier, MCPPerformanceTier, MCPStatus, MCPResult, MCPMetadata } from '../../types/mcp.types';
+import { MCPTier, MCPPerformanceTier, MCPStatus, MCPResult, MCPMetadata, MCPType, DataRecord } from '../../types/mcp.types';
 import { TierClassifier, ClassificationResult } from '../classification/TierClassifier';
 import { MCPRegistry } from '../registry/MCPRegistry';
+import { MigrationCheckpoint, MigrationCheckpointStore, MemoryMigrationCheckpointStore } from './MigrationCheckpointStore';
 
 export interface MigrationPlan {
   id: string;
@@ -53,7 +55,9 @@ export interface MigrationProgress {
   startTime: Date;
   estimatedCompletion?: Date;
   transferredData: number;       // bytes
-  totalData: number;             // bytes
+  totalData: number;             // bytes, estimated from the records copied so far
+  transferredRecords: number;
+  totalRecords: number;
   currentPhase: MigrationPhase;
   errors: MigrationError[];
   metrics: MigrationMetrics;
@@ -99,6 +103,37 @@ export interface MigrationMetrics {
   memoryUtilization: number;
 }
 
+export class MigrationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationValidationError';
+  }
+}
+
+/**
+ * Source and standby target of a migration that has started, kept until it completes or rolls back
+ */
+interface TransferState {
+  source: BaseMCP;
+  target: BaseMCP;
+  checkpoint: MigrationCheckpoint;
+  /** Source records written or deleted since the last comparison, copied again at switch-over */
+  changed: Set<string>;
+  stopTracking: () => void;
+  switched: boolean;
+}
+
+// Registry factory building each tier's MCP; known domains keep their specialized class
+const TIER_FACTORY_TYPES: Record<MCPTier, MCPType> = {
+  [MCPTier.HOT]: MCPType.HOT,
+  [MCPTier.WARM]: MCPType.HYBRID,
+  [MCPTier.COLD]: MCPType.COLD,
+  [MCPTier.ARCHIVE]: MCPType.COLD
+};
+
+// Compare-and-repair rounds before validation gives up on a source that keeps changing
+const VALIDATION_ROUNDS = 3;
+
 export class MCPMigrationEngine extends EventEmitter {
   private activeMigrations: Map<string, MigrationProgress>;
   private migrationQueue: MigrationPlan[];
@@ -107,8 +142,17 @@ export class MCPMigrationEngine extends EventEmitter {
   private isProcessing: boolean;
   private maxConcurrentMigrations: number;
   private migrationHistory: Map<string, MigrationProgress[]>;
-
-  constructor(registry: MCPRegistry, classifier: TierClassifier, maxConcurrentMigrations: number = 3) {
+  private transfers: Map<string, TransferState>;
+  private checkpoints: MigrationCheckpointStore;
+  private checkpointsReady: Promise<void> | null = null;
+  private processorTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    registry: MCPRegistry,
+    classifier: TierClassifier,
+    maxConcurrentMigrations: number = 3,
+    checkpointStore: MigrationCheckpointStore = new MemoryMigrationCheckpointStore()
+  ) {
     super();
     
     this.activeMigrations = new Map();
@@ -118,6 +162,8 @@ export class MCPMigrationEngine extends EventEmitter {
     this.isProcessing = false;
     this.maxConcurrentMigrations = maxConcurrentMigrations;
     this.migrationHistory = new Map();
+    this.transfers = new Map();
+    this.checkpoints = checkpointStore;
 
     this.startMigrationProcessor();
   }
@@ -218,17 +264,7 @@ export class MCPMigrationEngine extends EventEmitter {
     // Add to queue with priority ordering
     this.insertIntoQueue(plan);
     
-    const progress: MigrationProgress = {
-      migrationId: plan.id,
-      status: MigrationStatus.QUEUED,
-      progress: 0,
-      startTime: new Date(),
-      transferredData: 0,
-      totalData: 0,
-      currentPhase: MigrationPhase.PREPARATION,
-      errors: [],
-      metrics: this.getInitialMetrics()
-    };
+    const progress = this.createProgress(plan.id, MigrationStatus.QUEUED);
     
     this.activeMigrations.set(plan.id, progress);
     this.emit('migration-queued', { plan, progress });
@@ -237,23 +273,52 @@ export class MCPMigrationEngine extends EventEmitter {
   // Execute migration immediately (bypasses queue)
   async executeMigration(plan: MigrationPlan): Promise<MigrationProgress> {
     await this.validateMigrationPlan(plan);
+    return this.runMigration(plan);
+  }
+
+  /**
+   * Continue a migration that stopped part-way - after a failure with rollback disabled, or
+   * a restart when checkpoints are persisted - from the batch after its last checkpoint
+   */
+  async resumeMigration(migrationId: string): Promise<MigrationProgress> {
+    if (this.activeMigrations.has(migrationId)) {
+      throw new Error(`Migration already running: ${migrationId}`);
+    }
     
-    const progress: MigrationProgress = {
-      migrationId: plan.id,
-      status: MigrationStatus.PREPARING,
-      progress: 0,
-      startTime: new Date(),
-      transferredData: 0,
-      totalData: 0,
-      currentPhase: MigrationPhase.PREPARATION,
-      errors: [],
-      metrics: this.getInitialMetrics()
-    };
+    await this.ensureCheckpoints();
+    const checkpoint = this.transfers.get(migrationId)?.checkpoint || await this.checkpoints.load(migrationId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint for migration: ${migrationId}`);
+    }
     
+    this.emit('migration-resumed', { migrationId, checkpoint });
+    return this.runMigration(checkpoint.plan, checkpoint);
+  }
+
+  // Migrations that stopped part-way and can be resumed or rolled back
+  async getInterruptedMigrations(): Promise<MigrationCheckpoint[]> {
+    await this.ensureCheckpoints();
+    const checkpoints = await this.checkpoints.loadAll();
+    return checkpoints.filter(checkpoint => !this.activeMigrations.has(checkpoint.migrationId));
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.processorTimer) {
+      clearInterval(this.processorTimer);
+      this.processorTimer = null;
+    }
+    if (this.checkpointsReady) {
+      await this.checkpoints.close();
+      this.checkpointsReady = null;
+    }
+  }
+
+  private async runMigration(plan: MigrationPlan, resumeFrom?: MigrationCheckpoint): Promise<MigrationProgress> {
+    const progress = this.createProgress(plan.id, MigrationStatus.PREPARING);
     this.activeMigrations.set(plan.id, progress);
     
     try {
-      await this.performMigration(plan, progress);
+      await this.performMigration(plan, progress, resumeFrom);
       return progress;
     } catch (error) {
       progress.status = MigrationStatus.FAILED;
@@ -336,16 +401,17 @@ export class MCPMigrationEngine extends EventEmitter {
   }
 
   // Private implementation methods
-  private async performMigration(plan: MigrationPlan, progress: MigrationProgress): Promise<void> {
+  private async performMigration(plan: MigrationPlan, progress: MigrationProgress, resumeFrom?: MigrationCheckpoint): Promise<void> {
     const mcp = await this.mcpRegistry.getMCP(plan.sourceMcpId);
     if (!mcp) {
       throw new Error(`Source MCP not found: ${plan.sourceMcpId}`);
     }
 
+    let state!: TransferState;
     try {
       // Phase 1: Preparation
       await this.executePhase(MigrationPhase.PREPARATION, plan, progress, async () => {
-        await this.prepareMigration(mcp, plan);
+        state = await this.prepareMigration(mcp, plan, resumeFrom);
       });
 
       // Phase 2: Snapshot (if required)
@@ -355,24 +421,26 @@ export class MCPMigrationEngine extends EventEmitter {
         });
       }
 
-      // Phase 3: Data Transfer
-      await this.executePhase(MigrationPhase.DATA_TRANSFER, plan, progress, async () => {
-        await this.transferData(mcp, plan, progress);
-      });
+      // Phase 3: Data Transfer, skipped when a resumed migration had copied every batch
+      if (state.checkpoint.phase === MigrationPhase.DATA_TRANSFER) {
+        await this.executePhase(MigrationPhase.DATA_TRANSFER, plan, progress, async () => {
+          await this.transferData(state, plan, progress);
+        });
+      }
 
       // Phase 4: Validation
       await this.executePhase(MigrationPhase.VALIDATION, plan, progress, async () => {
-        await this.validateMigration(mcp, plan);
+        await this.validateMigration(state, plan, progress);
       });
 
       // Phase 5: Switch Over
       await this.executePhase(MigrationPhase.SWITCH_OVER, plan, progress, async () => {
-        await this.switchOver(mcp, plan);
+        await this.switchOver(state, plan);
       });
 
       // Phase 6: Cleanup
       await this.executePhase(MigrationPhase.CLEANUP, plan, progress, async () => {
-        await this.cleanupMigration(mcp, plan);
+        await this.cleanupMigration(state, plan);
       });
 
       progress.status = MigrationStatus.COMPLETED;
@@ -390,10 +458,10 @@ export class MCPMigrationEngine extends EventEmitter {
         phase: progress.currentPhase,
         error: error instanceof Error ? error.message : String(error),
         severity: 'critical',
-        recoverable: false
+        recoverable: !plan.rollbackPlan.enabled
       });
       
-      // Attempt rollback if enabled
+      // Attempt rollback if enabled; otherwise the checkpoint and target are kept for resumeMigration
       if (plan.rollbackPlan.enabled) {
         await this.initiateRollback(plan.id);
       }
@@ -435,10 +503,7 @@ export class MCPMigrationEngine extends EventEmitter {
     }
   }
 
-  private async prepareMigration(mcp: BaseMCP, plan: MigrationPlan): Promise<void> {
-    // Set MCP to migration status
-    await mcp.setStatus('migrating');
-    
+  private async prepareMigration(mcp: BaseMCP, plan: MigrationPlan, resumeFrom?: MigrationCheckpoint): Promise<TransferState> {
     // Validate source MCP health
     const healthCheck = await mcp.getHealth();
     if (healthCheck.status !== 'healthy') {
@@ -447,36 +512,108 @@ export class MCPMigrationEngine extends EventEmitter {
     
     // Clear caches to ensure consistency
     await mcp.clearCache();
+    
+    // A retry in this process carries on filling the same target
+    let state = this.transfers.get(plan.id);
+    if (!state) {
+      const target = await this.createTarget(mcp, plan);
+      let checkpoint: MigrationCheckpoint = resumeFrom || {
+        migrationId: plan.id,
+        plan,
+        phase: MigrationPhase.DATA_TRANSFER,
+        cursor: null,
+        batches: 0,
+        records: 0,
+        bytes: 0,
+        updatedAt: Date.now()
+      };
+      // A target that lost what was copied, e.g. an in-memory one across a restart, is filled from the start
+      if (checkpoint.records > 0 && target.getMetadata().recordCount === 0) {
+        checkpoint = { ...checkpoint, phase: MigrationPhase.DATA_TRANSFER, cursor: null, batches: 0, records: 0, bytes: 0 };
+      }
+      
+      const changed = new Set<string>();
+      const track = (event: { recordId: string }) => changed.add(event.recordId);
+      mcp.on('record_stored', track);
+      mcp.on('record_deleted', track);
+      state = {
+        source: mcp,
+        target,
+        checkpoint,
+        changed,
+        stopTracking: () => {
+          mcp.off('record_stored', track);
+          mcp.off('record_deleted', track);
+        },
+        switched: false
+      };
+      this.transfers.set(plan.id, state);
+    }
+    
+    // Set MCP to migration status
+    await mcp.setStatus('migrating');
+    await this.saveCheckpoint(state.checkpoint);
+    return state;
+  }
+
+  /**
+   * Standby MCP for the target tier; it is registered only at switch-over
+   */
+  private async createTarget(source: BaseMCP, plan: MigrationPlan): Promise<BaseMCP> {
+    const metadata = source.getMetadata();
+    const config = source.getConfiguration();
+    // Durable targets log under their own namespace; a resumed migration reopens the same one
+    const storage = config.storage && config.storage.engine !== 'memory'
+      ? { ...config.storage, namespace: `${config.storage.namespace}-${plan.id}` }
+      : config.storage;
+    
+    const target = await this.mcpRegistry.createStandbyMCP({
+      name: metadata.name,
+      type: TIER_FACTORY_TYPES[plan.targetTier],
+      domain: metadata.domain,
+      tier: plan.targetTier,
+      tags: metadata.tags,
+      config: { ...config, storage, compressionEnabled: plan.strategy.compressionEnabled }
+    });
+    await target.initialize();
+    return target;
   }
 
   private async createMigrationSnapshot(mcp: BaseMCP, plan: MigrationPlan): Promise<void> {
-    const snapshot = await mcp.prepareForMigration();
-    // Store snapshot for potential rollback
-    // Implementation would store snapshot to persistent storage
+    // Persist the source as it stands, so a rollback or restart finds it intact
+    await mcp.snapshot();
   }
 
-  private async transferData(mcp: BaseMCP, plan: MigrationPlan, progress: MigrationProgress): Promise<void> {
-    const metadata = await mcp.getMetadata();
-    progress.totalData = metadata.recordCount;
-    
-    // Simulate data transfer with progress updates
-    const batchSize = plan.strategy.batchSize;
-    let transferred = 0;
+  /**
+   * Copy the source into the target in ID order, one verified batch at a time, saving a
+   * checkpoint after each so an interrupted transfer resumes after the last one
+   */
+  private async transferData(state: TransferState, plan: MigrationPlan, progress: MigrationProgress): Promise<void> {
+    const { source, checkpoint } = state;
+    const batchSize = Math.max(1, Math.floor(plan.strategy.batchSize));
+    progress.totalRecords = source.getMetadata().recordCount;
+    this.reportTransfer(progress, checkpoint);
     
-    while (transferred < progress.totalData) {
+    while (checkpoint.phase === MigrationPhase.DATA_TRANSFER) {
       const batchStart = Date.now();
       
-      // Simulate batch transfer
-      const transferAmount = Math.min(batchSize, progress.totalData - transferred);
-      await this.simulateDataTransfer(transferAmount);
+      const page = await source.queryPage({}, { limit: batchSize, cursor: checkpoint.cursor ?? undefined });
+      const bytes = await this.copyBatch(state, page.records, plan, progress, checkpoint.batches + 1);
       
-      transferred += transferAmount;
-      progress.transferredData = transferred;
-      progress.progress = transferred / progress.totalData;
+      checkpoint.cursor = page.nextCursor;
+      checkpoint.batches++;
+      checkpoint.records += page.records.length;
+      checkpoint.bytes += bytes;
+      if (page.nextCursor === null) {
+        checkpoint.phase = MigrationPhase.VALIDATION;
+      }
+      await this.saveCheckpoint(checkpoint);
       
       // Update metrics
-      const batchDuration = Date.now() - batchStart;
-      progress.metrics.throughputBytesPerSec = transferAmount / (batchDuration / 1000);
+      const batchDuration = Math.max(1, Date.now() - batchStart);
+      progress.metrics.throughputBytesPerSec = bytes / (batchDuration / 1000);
+      progress.metrics.avgLatencyMs += (batchDuration - progress.metrics.avgLatencyMs) / checkpoint.batches;
+      this.reportTransfer(progress, checkpoint);
       
       this.emit('migration-progress-updated', { plan, progress });
       
@@ -487,41 +624,180 @@ export class MCPMigrationEngine extends EventEmitter {
     }
   }
 
-  private async validateMigration(mcp: BaseMCP, plan: MigrationPlan): Promise<void> {
-    // Perform data integrity checks
-    if (plan.strategy.checksumValidation) {
-      // Implementation would verify checksums
+  /**
+   * Write a batch to the target and compare its checksum with the source's, copying it once
+   * more on a mismatch; returns the bytes copied
+   */
+  private async copyBatch(
+    state: TransferState,
+    records: DataRecord[],
+    plan: MigrationPlan,
+    progress: MigrationProgress,
+    batchNumber: number
+  ): Promise<number> {
+    const expected = checksumRecords(records);
+    
+    for (let attempt = 1; ; attempt++) {
+      for (const record of records) {
+        await this.copyRecord(state.target, record);
+      }
+      if (!plan.strategy.checksumValidation) break;
+      
+      progress.metrics.checksumValidations++;
+      const copies = await Promise.all(records.map(record => state.target.retrieve(record.id)));
+      if (checksumRecords(copies) === expected) break;
+      
+      if (attempt > 1) {
+        throw new MigrationValidationError(`Checksum mismatch in batch ${batchNumber}`);
+      }
+      progress.metrics.retries++;
+    }
+    
+    return records.reduce((total, record) => total + Buffer.byteLength(JSON.stringify(record)), 0);
+  }
+
+  private async copyRecord(target: BaseMCP, record: DataRecord): Promise<void> {
+    // The copy keeps the record's expiry rather than restarting its ttl; the target assigns its own version
+    const copy = structuredClone(record);
+    delete copy.ttl;
+    if (!(await target.store(copy))) {
+      throw new Error(`Failed to copy record ${record.id}`);
+    }
+  }
+
+  /**
+   * Compare the whole target with the source, repairing records that differ - typically writes
+   * that reached the source after their batch was copied - until the two match
+   */
+  private async validateMigration(state: TransferState, plan: MigrationPlan, progress: MigrationProgress): Promise<void> {
+    const batchSize = Math.max(1, Math.floor(plan.strategy.batchSize));
+    
+    for (let round = 1; round <= VALIDATION_ROUNDS; round++) {
+      state.changed.clear();
+      const differing = await this.diffRecords(state.source, state.target, batchSize, plan.strategy.checksumValidation);
+      if (plan.strategy.checksumValidation) {
+        progress.metrics.checksumValidations++;
+      }
+      if (differing.length === 0) return;
+      
+      if (round === VALIDATION_ROUNDS) {
+        throw new MigrationValidationError(`Target differs from source in ${differing.length} records after ${VALIDATION_ROUNDS} repair rounds`);
+      }
+      progress.metrics.retries++;
+      await this.repairRecords(state, differing);
     }
+  }
+
+  /**
+   * IDs of records missing from either MCP or, with compareContent, whose content differs.
+   * Both are walked in ID order side by side, a page at a time.
+   */
+  private async diffRecords(source: BaseMCP, target: BaseMCP, batchSize: number, compareContent: boolean): Promise<string[]> {
+    const differing: string[] = [];
+    const sourceRecords = source.queryIterator({}, { batchSize });
+    const targetRecords = target.queryIterator({}, { batchSize });
+    let sourceNext = await sourceRecords.next();
+    let targetNext = await targetRecords.next();
     
-    // Verify target tier is accessible and functional
-    // Implementation would test the new tier
+    while (!sourceNext.done || !targetNext.done) {
+      if (targetNext.done || (!sourceNext.done && sourceNext.value.id < targetNext.value.id)) {
+        differing.push(sourceNext.value!.id);
+        sourceNext = await sourceRecords.next();
+      } else if (sourceNext.done || targetNext.value.id < sourceNext.value.id) {
+        differing.push(targetNext.value.id);
+        targetNext = await targetRecords.next();
+      } else {
+        if (compareContent && recordDigest(sourceNext.value) !== recordDigest(targetNext.value)) {
+          differing.push(sourceNext.value.id);
+        }
+        sourceNext = await sourceRecords.next();
+        targetNext = await targetRecords.next();
+      }
+    }
+    return differing;
+  }
+
+  // Make the target's copy of each record match the source, deleting those the source no longer has
+  private async repairRecords(state: TransferState, ids: string[]): Promise<void> {
+    for (const id of ids) {
+      const record = await state.source.retrieve(id);
+      if (record) {
+        await this.copyRecord(state.target, record);
+      } else {
+        await state.target.delete(id);
+      }
+    }
   }
 
-  private async switchOver(mcp: BaseMCP, plan: MigrationPlan): Promise<void> {
-    // Update MCP metadata to reflect new tier
-    await mcp.updateMetadata({ tier: plan.targetTier });
+  private async switchOver(state: TransferState, plan: MigrationPlan): Promise<void> {
+    const { source, target } = state;
+    
+    // Update target metadata to reflect the new tier
+    await target.updateMetadata({
+      name: source.getMetadata().name,
+      tier: plan.targetTier,
+      performanceTier: BaseMCP.mapTierToPerformanceTier(plan.targetTier)
+    });
+    
+    // Copy writes made since validation; the registry switch follows the last check without yielding
+    while (state.changed.size > 0) {
+      const ids = Array.from(state.changed);
+      state.changed.clear();
+      await this.repairRecords(state, ids);
+    }
+    await this.mcpRegistry.switchMCP(plan.sourceMcpId, target);
+    state.switched = true;
+    state.stopTracking();
     
     // Update MCP status
-    await mcp.setStatus('active');
+    await target.setStatus('active');
   }
 
-  private async cleanupMigration(mcp: BaseMCP, plan: MigrationPlan): Promise<void> {
-    // Clean up temporary files and resources
-    // Implementation would remove temporary migration artifacts
+  private async cleanupMigration(state: TransferState, plan: MigrationPlan): Promise<void> {
+    this.transfers.delete(plan.id);
+    await this.ensureCheckpoints();
+    await this.checkpoints.delete(plan.id);
+    
+    // The replaced source no longer receives traffic; release its timers and storage
+    await state.source.setStatus('inactive');
+    await state.source.shutdown();
   }
 
+  /**
+   * Undo a migration: route back to the source if the switch happened, discard the target and
+   * its checkpoint, and return the source to service
+   */
   private async initiateRollback(migrationId: string): Promise<void> {
     const progress = this.activeMigrations.get(migrationId);
-    if (!progress) {
+    const state = this.transfers.get(migrationId);
+    await this.ensureCheckpoints();
+    const checkpoint = state?.checkpoint || await this.checkpoints.load(migrationId);
+    if (!progress && !checkpoint) {
       throw new Error(`Migration not found: ${migrationId}`);
     }
 
-    progress.status = MigrationStatus.ROLLING_BACK;
+    if (progress) {
+      progress.status = MigrationStatus.ROLLING_BACK;
+    }
     this.emit('migration-rollback-started', { migrationId, progress });
 
     try {
-      // Implementation would restore from snapshot and revert changes
-      progress.status = MigrationStatus.ROLLED_BACK;
+      if (state) {
+        this.transfers.delete(migrationId);
+        state.stopTracking();
+        if (state.switched) {
+          await this.mcpRegistry.switchMCP(state.checkpoint.plan.sourceMcpId, state.source);
+        }
+        await state.target.shutdown();
+      }
+      
+      const source = state?.source || (checkpoint && await this.mcpRegistry.getMCP(checkpoint.plan.sourceMcpId));
+      await source?.setStatus('active');
+      await this.checkpoints.delete(migrationId);
+      
+      if (progress) {
+        progress.status = MigrationStatus.ROLLED_BACK;
+      }
       this.emit('migration-rollback-completed', { migrationId, progress });
     } catch (error) {
       this.emit('migration-rollback-failed', { migrationId, progress, error });
@@ -530,7 +806,7 @@ export class MCPMigrationEngine extends EventEmitter {
   }
 
   private startMigrationProcessor(): void {
-    setInterval(async () => {
+    this.processorTimer = setInterval(async () => {
       if (this.isProcessing || this.migrationQueue.length === 0) {
         return;
       }
@@ -553,6 +829,7 @@ export class MCPMigrationEngine extends EventEmitter {
         this.isProcessing = false;
       }
     }, 5000); // Check every 5 seconds
+    this.processorTimer.unref();
   }
 
   private insertIntoQueue(plan: MigrationPlan): void {
@@ -665,12 +942,48 @@ export class MCPMigrationEngine extends EventEmitter {
     };
   }
 
-  private async simulateDataTransfer(bytes: number): Promise<void> {
-    // Simulate transfer time based on throughput
-    const simulatedThroughput = 50 * 1024 * 1024; // 50 MB/s
-    const transferTime = (bytes / simulatedThroughput) * 1000;
-    
-    return new Promise(resolve => setTimeout(resolve, transferTime));
+  private createProgress(migrationId: string, status: MigrationStatus): MigrationProgress {
+    return {
+      migrationId,
+      status,
+      progress: 0,
+      startTime: new Date(),
+      transferredData: 0,
+      totalData: 0,
+      transferredRecords: 0,
+      totalRecords: 0,
+      currentPhase: MigrationPhase.PREPARATION,
+      errors: [],
+      metrics: this.getInitialMetrics()
+    };
+  }
+
+  private reportTransfer(progress: MigrationProgress, checkpoint: MigrationCheckpoint): void {
+    progress.transferredRecords = checkpoint.records;
+    progress.transferredData = checkpoint.bytes;
+    progress.totalRecords = Math.max(progress.totalRecords, checkpoint.records);
+    // Bytes still to come are estimated from the average record copied so far
+    progress.totalData = checkpoint.records > 0
+      ? Math.round((checkpoint.bytes / checkpoint.records) * progress.totalRecords)
+      : 0;
+    progress.progress = progress.totalRecords > 0 ? checkpoint.records / progress.totalRecords : 1;
+  }
+
+  private async ensureCheckpoints(): Promise<void> {
+    // Open once, lazily, like MCP storage
+    if (!this.checkpointsReady) {
+      this.checkpointsReady = this.checkpoints.open().catch(error => {
+        this.checkpointsReady = null;
+        throw error;
+      });
+    }
+    return this.checkpointsReady;
+  }
+
+  private async saveCheckpoint(checkpoint: MigrationCheckpoint): Promise<void> {
+    await this.ensureCheckpoints();
+    checkpoint.updatedAt = Date.now();
+    await this.checkpoints.save(checkpoint);
   }
 
   private storeMigrationHistory(mcpId: string, progress: MigrationProgress): void {
@@ -688,4 +1001,38 @@ export class MCPMigrationEngine extends EventEmitter {
   }
 }
 
+/**
+ * Digest of what a copy must preserve; the version and access pattern are assigned by the
+ * MCP that stores the record, and a ttl is carried as the expiresAt it produced
+ */
+function recordDigest(record: DataRecord | null): string {
+  if (!record) return 'missing';
+  const { version, ttl, metadata, ...content } = record;
+  const { accessPattern, ...rest } = metadata || {};
+  return createHash('sha256').update(canonicalJson({ ...content, metadata: rest })).digest('hex');
+}
+
+function checksumRecords(records: Array<DataRecord | null>): string {
+  const hash = createHash('sha256');
+  records.forEach(record => hash.update(recordDigest(record)));
+  return hash.digest('hex');
+}
+
+// JSON with object keys sorted, so equal records digest equally whatever their key order
+function canonicalJson(value: any): string {
+  if (value && typeof value.toJSON === 'function') {
+    return canonicalJson(value.toJSON());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
 export default MCPMigrationEngine;
\ No newline at end of file
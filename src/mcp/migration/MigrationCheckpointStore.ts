@@ -0,0 +1,135 @@
+/**
+ * Migration Checkpoint Store
+ * Persistence for migration progress, so a migration interrupted part-way resumes from its last
+ * verified batch instead of starting over
+ *
+ * File layout under `<directory>/`:
+ *   <migrationId>.json - one MigrationCheckpoint, rewritten after every batch
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MigrationPhase, MigrationPlan } from './MCPMigrationEngine';
+
+export interface MigrationCheckpoint {
+  migrationId: string;
+  plan: MigrationPlan;
+  /** DATA_TRANSFER while batches are being copied, VALIDATION once every batch is in */
+  phase: MigrationPhase;
+  /** Source page cursor after the last verified batch; null before the first */
+  cursor: string | null;
+  batches: number;
+  records: number;
+  bytes: number;
+  updatedAt: number;
+}
+
+export interface MigrationCheckpointStore {
+  open(): Promise<void>;
+
+  /** Every saved checkpoint, i.e. every migration that has not finished or been rolled back */
+  loadAll(): Promise<MigrationCheckpoint[]>;
+
+  load(migrationId: string): Promise<MigrationCheckpoint | null>;
+
+  save(checkpoint: MigrationCheckpoint): Promise<void>;
+
+  delete(migrationId: string): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Default store - checkpoints survive a failed attempt but not a restart
+ */
+export class MemoryMigrationCheckpointStore implements MigrationCheckpointStore {
+  private checkpoints: Map<string, MigrationCheckpoint> = new Map();
+
+  async open(): Promise<void> {
+    // Nothing to load
+  }
+
+  async loadAll(): Promise<MigrationCheckpoint[]> {
+    return Array.from(this.checkpoints.values(), checkpoint => structuredClone(checkpoint));
+  }
+
+  async load(migrationId: string): Promise<MigrationCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(migrationId);
+    return checkpoint ? structuredClone(checkpoint) : null;
+  }
+
+  async save(checkpoint: MigrationCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.migrationId, structuredClone(checkpoint));
+  }
+
+  async delete(migrationId: string): Promise<void> {
+    this.checkpoints.delete(migrationId);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+const MIGRATION_ID_PATTERN = /^[\w-]+$/;
+
+export class FileMigrationCheckpointStore implements MigrationCheckpointStore {
+  constructor(private readonly directory: string) {}
+
+  async open(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  async loadAll(): Promise<MigrationCheckpoint[]> {
+    const checkpoints: MigrationCheckpoint[] = [];
+    for (const file of await fs.readdir(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      const checkpoint = await this.read(path.join(this.directory, file));
+      if (checkpoint) {
+        checkpoints.push(checkpoint);
+      }
+    }
+    return checkpoints;
+  }
+
+  async load(migrationId: string): Promise<MigrationCheckpoint | null> {
+    return this.read(this.pathFor(migrationId));
+  }
+
+  async save(checkpoint: MigrationCheckpoint): Promise<void> {
+    const target = this.pathFor(checkpoint.migrationId);
+    const temp = `${target}.tmp`;
+    // Write then rename, so a crash leaves either the previous checkpoint or this one
+    await fs.writeFile(temp, JSON.stringify(checkpoint));
+    await fs.rename(temp, target);
+  }
+
+  async delete(migrationId: string): Promise<void> {
+    await fs.rm(this.pathFor(migrationId), { force: true });
+  }
+
+  async close(): Promise<void> {
+    // Files are closed after every write
+  }
+
+  private async read(file: string): Promise<MigrationCheckpoint | null> {
+    try {
+      const checkpoint = JSON.parse(await fs.readFile(file, 'utf8'));
+      // Dates come back from JSON as strings
+      if (checkpoint.plan?.scheduledTime) {
+        checkpoint.plan.scheduledTime = new Date(checkpoint.plan.scheduledTime);
+      }
+      return checkpoint;
+    } catch {
+      // Missing, or torn by a crash mid-write; the rename keeps the latter from happening
+      return null;
+    }
+  }
+
+  private pathFor(migrationId: string): string {
+    if (!MIGRATION_ID_PATTERN.test(migrationId)) {
+      throw new Error(`Invalid migration ID: ${migrationId}`);
+    }
+    return path.join(this.directory, `${migrationId}.json`);
+  }
+}
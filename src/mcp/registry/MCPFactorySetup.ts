@@ -9,6 +9,7 @@ import { UserMCP } from '../../core/specialized/user_mcp';
 import { ChatMCP } from '../../core/specialized/chat_mcp';
 import { StatsMCP } from '../../core/specialized/stats_mcp';
 import { LogsMCP } from '../../core/specialized/logs_mcp';
+import { VectorMCP } from '../../core/specialized/vector_mcp';
 import { MCPType, MCPDomain, MCPConfig } from '../../types/mcp.types';
 
 /**
@@ -35,6 +36,11 @@ export function setupMCPFactories(registry: MCPRegistry): void {
     return new LogsMCP(domain, type, config);
   });
 
+  // Vector MCP Factory
+  registry.registerMCPFactory(MCPType.VECTOR, (domain: MCPDomain, type: MCPType, config: Partial<MCPConfig>) => {
+    return new VectorMCP(domain, type, config);
+  });
+
   // Generic HOT MCP Factory
   registry.registerMCPFactory(MCPType.HOT, (domain: MCPDomain, type: MCPType, config: Partial<MCPConfig>) => {
     // Create appropriate specialized MCP based on domain
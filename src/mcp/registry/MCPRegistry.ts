@@ -4,8 +4,9 @@
  */
 
 import { EventEmitter } from 'events';
+import * as path from 'path';
 import { BaseMCP } from '../../core/mcp/base_mcp';
-import { MCPType, MCPPerformanceTier, MCPTier, MCPStatus, MCPMetadata, MCPResult, MCPDomain, MCPConfig, DataRecord } from '../../types/mcp.types';
+import { MCPType, MCPPerformanceTier, MCPTier, MCPStatus, MCPMetadata, MCPResult, MCPDomain, MCPConfig, DataRecord, ExpiryStats, StorageConfiguration } from '../../types/mcp.types';
 
 export interface MCPRegistryConfig {
   maxMCPs: number;
@@ -17,6 +18,8 @@ export interface MCPRegistryConfig {
   };
   cleanupInterval: number;
   backupPath: string;
+  /** Durable storage for MCPs created without their own; each gets a namespace named after it */
+  storage?: StorageConfiguration;
 }
 
 export interface MCPCreationRequest {
@@ -45,6 +48,8 @@ export interface MCPRegistryStats {
 
 export class MCPRegistry extends EventEmitter {
   private mcps: Map<string, BaseMCP>;
+  // Built but not yet routed to; their writes are copies, not changes
+  private standbyMCPs: WeakSet<BaseMCP> = new WeakSet();
   private mcpFactories: Map<MCPType, (domain: MCPDomain, type: MCPType, config: Partial<MCPConfig>) => BaseMCP>;
   private config: MCPRegistryConfig;
   private cleanupTimer: NodeJS.Timeout | null;
@@ -67,7 +72,8 @@ export class MCPRegistry extends EventEmitter {
         coldTier: { accessCount: 10, lastAccessedDays: 30 }
       },
       cleanupInterval: config.cleanupInterval || 3600000, // 1 hour
-      backupPath: config.backupPath || './mcp-backups'
+      backupPath: config.backupPath || './mcp-backups',
+      storage: config.storage
     };
 
     this.startBackgroundTasks();
@@ -93,13 +99,74 @@ export class MCPRegistry extends EventEmitter {
       throw new Error(`Registry at capacity: ${this.config.maxMCPs} MCPs`);
     }
 
+    const mcp = await this.buildMCP(request);
+    const mcpMetadata = await mcp.getMetadata();
+    const mcpId = mcpMetadata.id;
+
+    // Two MCPs logging to one namespace would replay each other's writes on recovery
+    const namespace = this.fileStorageNamespace(mcp);
+    if (namespace && Array.from(this.mcps.values()).some(other => this.fileStorageNamespace(other) === namespace)) {
+      await mcp.shutdown();
+      throw new Error(`Storage namespace already in use: ${namespace}`);
+    }
+
+    // Add initial data if provided
+    if (request.initialData && request.initialData.length > 0) {
+      for (const item of request.initialData) {
+        const record: DataRecord = {
+          id: item.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          domain: request.domain,
+          type: request.type.toString(),
+          timestamp: Date.now(),
+          data: item
+        };
+        await mcp.store(record);
+      }
+    }
+
+    this.mcps.set(mcpId, mcp);
+    
+    this.emit('mcp-created', { mcpId, type: request.type, tier: mcpMetadata.tier });
+    
+    return mcpId;
+  }
+
+  /**
+   * Build an MCP without registering it, so it receives no queries until switchMCP routes to it.
+   * Migrations fill one of these before switching over.
+   */
+  async createStandbyMCP(request: MCPCreationRequest): Promise<BaseMCP> {
+    this.validateCreationRequest(request);
+    const mcp = await this.buildMCP(request);
+    this.standbyMCPs.add(mcp);
+    this.emit('mcp-standby-created', { mcpId: mcp.getMetadata().id, type: request.type });
+    return mcp;
+  }
+
+  /**
+   * Route an MCP ID to another instance in one step and return the instance it replaces.
+   * The replacement takes over the ID; lookups see either the old instance or the new one.
+   */
+  async switchMCP(mcpId: string, replacement: BaseMCP): Promise<BaseMCP> {
+    const previous = this.mcps.get(mcpId);
+    if (!previous) {
+      throw new Error(`MCP not found: ${mcpId}`);
+    }
+    
+    this.mcps.set(mcpId, replacement);
+    this.standbyMCPs.delete(replacement);
+    await replacement.updateMetadata({ id: mcpId });
+    
+    this.emit('mcp-switched', { mcpId, tier: replacement.getMetadata().tier });
+    return previous;
+  }
+
+  private async buildMCP(request: MCPCreationRequest): Promise<BaseMCP> {
     const factory = this.mcpFactories.get(request.type);
     if (!factory) {
       throw new Error(`No factory registered for MCP type: ${request.type}`);
     }
 
-    const tier = request.tier || this.config.defaultTier;
-    const domain = request.domain;
     const mcpConfig: Partial<MCPConfig> = {
       maxRecords: 100000,
       maxSize: 1024 * 1024 * 100,
@@ -115,33 +182,28 @@ export class MCPRegistry extends EventEmitter {
       customProperties: {},
       ...request.config
     };
+    if (!mcpConfig.storage && this.config.storage) {
+      // Names survive a restart; registry IDs are generated anew
+      mcpConfig.storage = { ...this.config.storage, namespace: request.name.replace(/[^\w.-]/g, '_') };
+    }
 
-    const mcp = factory(domain, request.type, mcpConfig);
-    const mcpMetadata = await mcp.getMetadata();
-    const mcpId = mcpMetadata.id;
+    const mcp = factory(request.domain, request.type, mcpConfig);
+    
+    // Keep the requested name and tags so the MCP can be resolved by them later
+    const currentMetadata = await mcp.getMetadata();
+    await mcp.updateMetadata({
+      name: request.name || currentMetadata.name,
+      tags: Array.from(new Set([...(currentMetadata.tags || []), ...(request.tags || [])]))
+    });
 
     // Setup MCP event handlers
     this.setupMCPEventHandlers(mcp);
+    return mcp;
+  }
 
-    // Add initial data if provided
-    if (request.initialData && request.initialData.length > 0) {
-      for (const item of request.initialData) {
-        const record: DataRecord = {
-          id: item.id || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          domain,
-          type: request.type.toString(),
-          timestamp: Date.now(),
-          data: item
-        };
-        await mcp.store(record);
-      }
-    }
-
-    this.mcps.set(mcpId, mcp);
-    
-    this.emit('mcp-created', { mcpId, type: request.type, tier: mcpMetadata.tier });
-    
-    return mcpId;
+  private fileStorageNamespace(mcp: BaseMCP): string | undefined {
+    const storage = mcp.getConfiguration().storage;
+    return storage?.engine === 'file' ? path.resolve(storage.dataDir || './data', storage.namespace || '') : undefined;
   }
 
   async getMCP(mcpId: string): Promise<BaseMCP | null> {
@@ -238,8 +300,8 @@ export class MCPRegistry extends EventEmitter {
     
     for (const [id, mcp] of this.mcps) {
       const metadata = await mcp.getMetadata();
-      // Check if MCP has a domain tag matching the requested domain
-      if (metadata.tags.includes(domain)) {
+      // Match on the MCP's own domain or a domain tag
+      if (metadata.domain === domain || metadata.tags.includes(domain)) {
         result.set(id, mcp);
       }
     }
@@ -522,6 +584,16 @@ export class MCPRegistry extends EventEmitter {
       const metadata = await mcp.getMetadata();
       this.emit('mcp-error', { mcpId: metadata.id, error });
     });
+
+    // Record changes, for subscribers that watch data across every MCP. Standby MCPs are
+    // being filled with copies of records that already exist, so their writes are not changes.
+    const forward = (name: string) => (event: any) => {
+      if (this.standbyMCPs.has(mcp)) return;
+      this.emit(name, { ...event, domain: mcp.getMetadata().domain });
+    };
+    mcp.on('record_stored', forward('record-stored'));
+    mcp.on('record_deleted', forward('record-deleted'));
+    mcp.on('record_expired', forward('record-expired'));
   }
 
   private setupEventHandlers(): void {
@@ -651,12 +723,21 @@ export class MCPRegistry extends EventEmitter {
     cpuUsage: number;
     storageUsed: number;
     networkIO?: { inbound: number; outbound: number };
+    expiry: ExpiryStats;
   }> {
     const stats = await this.getRegistryStats();
     let healthy = 0;
     let totalMemory = 0;
     let totalCpu = 0;
     let totalStorage = 0;
+    const expiry: ExpiryStats = {
+      scheduled: 0,
+      expired: 0,
+      expiringWithinHour: 0,
+      expiringWithinDay: 0,
+      purged: 0,
+      nextExpiresAt: null
+    };
     
     for (const mcp of this.mcps.values()) {
       const health = await mcp.getHealth();
@@ -664,6 +745,17 @@ export class MCPRegistry extends EventEmitter {
       totalMemory += health.memoryUsage;
       totalCpu += health.cpuUsage;
       totalStorage += (await mcp.getMetrics()).storageUsed;
+      
+      const mcpExpiry = mcp.getExpiryStats();
+      expiry.scheduled += mcpExpiry.scheduled;
+      expiry.expired += mcpExpiry.expired;
+      expiry.expiringWithinHour += mcpExpiry.expiringWithinHour;
+      expiry.expiringWithinDay += mcpExpiry.expiringWithinDay;
+      expiry.purged += mcpExpiry.purged;
+      if (mcpExpiry.nextExpiresAt !== null &&
+          (expiry.nextExpiresAt === null || mcpExpiry.nextExpiresAt < expiry.nextExpiresAt)) {
+        expiry.nextExpiresAt = mcpExpiry.nextExpiresAt;
+      }
     }
     
     return {
@@ -674,7 +766,8 @@ export class MCPRegistry extends EventEmitter {
       memoryUsage: totalMemory / Math.max(1, stats.totalMCPs),
       cpuUsage: totalCpu / Math.max(1, stats.totalMCPs),
       storageUsed: totalStorage,
-      networkIO: { inbound: 0, outbound: 0 }
+      networkIO: { inbound: 0, outbound: 0 },
+      expiry
     };
   }
 
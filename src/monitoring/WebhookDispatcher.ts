@@ -0,0 +1,517 @@
+/**
+ * Webhook Dispatcher - outbound notifications for data, ingestion, migration and alert events
+ * Each event is posted as JSON to every enabled subscription whose filters match its type,
+ * signed with the subscription's secret so receivers can check where it came from
+ *
+ * Signature header: `X-Webhook-Signature: t=<unix ms>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * A delivery answered with anything but 2xx is retried with exponential backoff; after
+ * `maxAttempts` it moves to the dead-letter list, from where it can be redelivered.
+ */
+
+import { EventEmitter } from 'events';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import {
+  MemoryWebhookStore,
+  WebhookDeadLetter,
+  WebhookEvent,
+  WebhookStore,
+  WebhookSubscription
+} from '../core/storage/webhook_store';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'ingestion.batch.completed',
+  'migration.completed',
+  'migration.failed',
+  'alert.created',
+  'alert.triggered',
+  'alert.resolved',
+  'record.created',
+  'record.updated',
+  'record.deleted',
+  'webhook.test'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface WebhookDispatcherConfig {
+  /** Attempts per delivery before it is dead-lettered (default 6) */
+  maxAttempts: number;
+  /** Wait before the first retry; doubles on every further one (default 1 second) */
+  initialBackoffMs: number;
+  /** Longest wait between retries (default 5 minutes) */
+  maxBackoffMs: number;
+  /** Time allowed for a receiver to answer (default 10 seconds) */
+  timeoutMs: number;
+  /** Delivery attempts kept in the delivery log (default 1000) */
+  deliveryLogSize: number;
+}
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: string[];
+  /** Generated when left out */
+  secret?: string;
+  enabled?: boolean;
+  description?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  attempt: number;
+  status: 'succeeded' | 'failed' | 'dead-lettered';
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+  timestamp: number;
+  /** When the next attempt is due, for failed attempts that will be retried */
+  nextAttemptAt?: number;
+}
+
+/**
+ * Emitters whose events are delivered; any of them can be left out
+ */
+export interface WebhookEventSources {
+  /** RAG₁ controller: 'batch_completed' */
+  ingestion?: EventEmitter;
+  /** Migration engine or orchestrator: 'migration-completed', 'migration-failed' */
+  migrations?: EventEmitter;
+  /** Orchestrator: 'alert-created' */
+  orchestrator?: EventEmitter;
+  /** Metrics collector: 'alert-triggered', 'alert-resolved' */
+  metrics?: EventEmitter;
+  /** Change feed: 'change' */
+  changes?: EventEmitter;
+}
+
+export class WebhookNotFoundError extends Error {
+  constructor(kind: 'subscription' | 'dead letter', id: string) {
+    super(`Webhook ${kind} not found: ${id}`);
+    this.name = 'WebhookNotFoundError';
+  }
+}
+
+export class InvalidWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidWebhookError';
+  }
+}
+
+export class WebhookDisabledError extends Error {
+  constructor(subscriptionId: string) {
+    super(`Webhook subscription is disabled: ${subscriptionId}`);
+    this.name = 'WebhookDisabledError';
+  }
+}
+
+/**
+ * Signature header value for a payload
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Whether a signature header was produced with the secret for this exact body, no longer than
+ * `toleranceMs` ago; for receivers, and for tests standing in for one
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceMs: number = 5 * 60 * 1000,
+  now: number = Date.now()
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1 || Math.abs(now - timestamp) > toleranceMs) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split('v1=')[1], 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether an event type is selected by a subscription's filters
+ */
+export function matchesEventType(patterns: string[], type: string): boolean {
+  return patterns.some(pattern =>
+    pattern === '*' || pattern === type || (pattern.endsWith('.*') && type.startsWith(pattern.slice(0, -1))));
+}
+
+export class WebhookDispatcher extends EventEmitter {
+  private readonly config: WebhookDispatcherConfig;
+  private readonly store: WebhookStore;
+  private subscriptions: Map<string, WebhookSubscription> = new Map();
+  private deadLetters: Map<string, WebhookDeadLetter> = new Map();
+  private deliveryLog: WebhookDelivery[] = [];
+  private retryTimers: Set<NodeJS.Timeout> = new Set();
+  private inFlight: Set<Promise<WebhookDelivery | null>> = new Set();
+  private disconnects: Array<() => void> = [];
+  private stopped = false;
+
+  constructor(config: Partial<WebhookDispatcherConfig> & { store?: WebhookStore } = {}) {
+    super();
+    const { store, ...rest } = config;
+    this.store = store || new MemoryWebhookStore();
+    this.config = {
+      maxAttempts: 6,
+      initialBackoffMs: 1000,
+      maxBackoffMs: 5 * 60 * 1000,
+      timeoutMs: 10000,
+      deliveryLogSize: 1000,
+      ...rest
+    };
+  }
+
+  /**
+   * Load saved subscriptions and dead letters
+   */
+  async initialize(): Promise<void> {
+    await this.store.open();
+    const state = await this.store.load();
+    this.subscriptions = new Map(state.subscriptions.map(subscription => [subscription.id, subscription]));
+    this.deadLetters = new Map(state.deadLetters.map(deadLetter => [deadLetter.id, deadLetter]));
+    this.stopped = false;
+  }
+
+  /**
+   * Deliver the events of these emitters; returns a function that stops listening
+   */
+  connect(sources: WebhookEventSources): () => void {
+    const listeners: Array<[EventEmitter, string, (event: any) => void]> = [];
+    const on = (source: EventEmitter | undefined, name: string, listener: (event: any) => void) => {
+      if (!source) return;
+      source.on(name, listener);
+      listeners.push([source, name, listener]);
+    };
+
+    on(sources.ingestion, 'batch_completed', event => this.publish('ingestion.batch.completed', event));
+    on(sources.migrations, 'migration-completed', ({ plan, progress }) => this.publish('migration.completed', {
+      migrationId: plan.id,
+      sourceMcpId: plan.sourceMcpId,
+      targetTier: plan.targetTier,
+      transferredRecords: progress?.transferredRecords,
+      transferredData: progress?.transferredData
+    }));
+    on(sources.migrations, 'migration-failed', ({ plan, progress, error }) => this.publish('migration.failed', {
+      migrationId: plan.id,
+      sourceMcpId: plan.sourceMcpId,
+      targetTier: plan.targetTier,
+      phase: progress?.currentPhase,
+      error: error instanceof Error ? error.message : String(error)
+    }));
+    on(sources.orchestrator, 'alert-created', alert => this.publish('alert.created', alert));
+    on(sources.metrics, 'alert-triggered', alert => this.publish('alert.triggered', alert));
+    on(sources.metrics, 'alert-resolved', alert => this.publish('alert.resolved', alert));
+    on(sources.changes, 'change', change => this.publish(`record.${change.op}d` as WebhookEventType, change));
+
+    const disconnect = () => {
+      for (const [source, name, listener] of listeners) {
+        source.off(name, listener);
+      }
+      this.disconnects = this.disconnects.filter(entry => entry !== disconnect);
+    };
+    this.disconnects.push(disconnect);
+    return disconnect;
+  }
+
+  async createSubscription(input: WebhookSubscriptionInput): Promise<WebhookSubscription> {
+    this.validate(input.url, input.events);
+    const now = Date.now();
+    const subscription: WebhookSubscription = {
+      id: uuidv4(),
+      url: input.url,
+      events: Array.from(new Set(input.events)),
+      secret: input.secret || randomBytes(32).toString('hex'),
+      enabled: input.enabled ?? true,
+      ...(input.description && { description: input.description }),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.subscriptions.set(subscription.id, subscription);
+    await this.persist();
+    this.emit('subscription-created', { subscriptionId: subscription.id });
+    return { ...subscription };
+  }
+
+  async updateSubscription(id: string, changes: Partial<WebhookSubscriptionInput>): Promise<WebhookSubscription> {
+    const subscription = this.requireSubscription(id);
+    this.validate(changes.url ?? subscription.url, changes.events ?? subscription.events);
+
+    const updated: WebhookSubscription = {
+      ...subscription,
+      ...(changes.url !== undefined && { url: changes.url }),
+      ...(changes.events !== undefined && { events: Array.from(new Set(changes.events)) }),
+      ...(changes.secret !== undefined && { secret: changes.secret }),
+      ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+      ...(changes.description !== undefined && { description: changes.description }),
+      updatedAt: Date.now()
+    };
+    this.subscriptions.set(id, updated);
+    await this.persist();
+    return { ...updated };
+  }
+
+  /**
+   * Remove a subscription with its dead letters; retries still pending for it are dropped
+   */
+  async deleteSubscription(id: string): Promise<void> {
+    this.requireSubscription(id);
+    this.subscriptions.delete(id);
+    for (const deadLetter of Array.from(this.deadLetters.values())) {
+      if (deadLetter.subscriptionId === id) {
+        this.deadLetters.delete(deadLetter.id);
+      }
+    }
+    await this.persist();
+    this.emit('subscription-deleted', { subscriptionId: id });
+  }
+
+  getSubscription(id: string): WebhookSubscription {
+    return { ...this.requireSubscription(id) };
+  }
+
+  listSubscriptions(): WebhookSubscription[] {
+    return Array.from(this.subscriptions.values(), subscription => ({ ...subscription }));
+  }
+
+  /**
+   * Send an event to every enabled subscription that selects its type. Delivery happens in the
+   * background; the delivery log and dead-letter list show how it went.
+   */
+  publish(type: WebhookEventType, data: any): WebhookEvent {
+    const event: WebhookEvent = { id: uuidv4(), type, timestamp: Date.now(), data };
+    if (this.stopped) return event;
+
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.enabled && matchesEventType(subscription.events, type)) {
+        this.track(this.attempt(subscription.id, event, 1));
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Send a 'webhook.test' event to one subscription, whatever its filters, and wait for the answer
+   */
+  async sendTest(id: string): Promise<WebhookDelivery> {
+    this.requireSubscription(id);
+    const event: WebhookEvent = { id: uuidv4(), type: 'webhook.test', timestamp: Date.now(), data: { subscriptionId: id } };
+    return (await this.track(this.attempt(id, event, 1, false)))!;
+  }
+
+  /**
+   * Delivery attempts, newest first
+   */
+  deliveries(filter: { subscriptionId?: string; limit?: number } = {}): WebhookDelivery[] {
+    const matching = this.deliveryLog
+      .filter(delivery => !filter.subscriptionId || delivery.subscriptionId === filter.subscriptionId)
+      .reverse();
+    return matching.slice(0, filter.limit ?? matching.length).map(delivery => ({ ...delivery }));
+  }
+
+  listDeadLetters(subscriptionId?: string): WebhookDeadLetter[] {
+    return Array.from(this.deadLetters.values())
+      .filter(deadLetter => !subscriptionId || deadLetter.subscriptionId === subscriptionId)
+      .map(deadLetter => structuredClone(deadLetter));
+  }
+
+  /**
+   * Take a dead letter off the list and deliver it again from the first attempt; waits for that
+   * attempt, retries follow in the background. A disabled subscription keeps its dead letters.
+   */
+  async redeliver(deadLetterId: string): Promise<WebhookDelivery> {
+    const deadLetter = this.deadLetters.get(deadLetterId);
+    if (!deadLetter) {
+      throw new WebhookNotFoundError('dead letter', deadLetterId);
+    }
+    if (!this.requireSubscription(deadLetter.subscriptionId).enabled) {
+      throw new WebhookDisabledError(deadLetter.subscriptionId);
+    }
+
+    this.deadLetters.delete(deadLetterId);
+    await this.persist();
+    const delivery = await this.track(this.attempt(deadLetter.subscriptionId, deadLetter.event, 1));
+    if (delivery) return delivery;
+
+    // Disabled or deleted while the list was saved, or the attempt itself blew up
+    const subscription = this.requireSubscription(deadLetter.subscriptionId);
+    this.deadLetters.set(deadLetterId, deadLetter);
+    await this.persist();
+    if (!subscription.enabled) {
+      throw new WebhookDisabledError(deadLetter.subscriptionId);
+    }
+    throw new Error(`Webhook redelivery failed: ${deadLetterId}`);
+  }
+
+  async discardDeadLetter(deadLetterId: string): Promise<void> {
+    if (!this.deadLetters.delete(deadLetterId)) {
+      throw new WebhookNotFoundError('dead letter', deadLetterId);
+    }
+    await this.persist();
+  }
+
+  /**
+   * Stop listening and retrying, and wait for requests in flight; pending retries are dropped
+   */
+  async shutdown(): Promise<void> {
+    this.stopped = true;
+    for (const disconnect of Array.from(this.disconnects)) {
+      disconnect();
+    }
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    await Promise.all(Array.from(this.inFlight));
+    await this.store.close();
+  }
+
+  private async attempt(subscriptionId: string, event: WebhookEvent, attempt: number, retry: boolean = true): Promise<WebhookDelivery | null> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    // Deleted or disabled since the event was published
+    if (!subscription || (retry && !subscription.enabled)) return null;
+
+    const deliveryId = uuidv4();
+    const body = JSON.stringify(event);
+    const timestamp = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        timeout: this.config.timeoutMs,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'multi-mcp-webhooks/1.0',
+          'X-Webhook-Id': event.id,
+          'X-Webhook-Event': event.type,
+          'X-Webhook-Delivery': deliveryId,
+          'X-Webhook-Attempt': String(attempt),
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body)
+        }
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver answered ${statusCode}`;
+      }
+    } catch (requestError) {
+      error = (requestError as Error).message;
+    }
+
+    const delivery: WebhookDelivery = {
+      id: deliveryId,
+      subscriptionId,
+      eventId: event.id,
+      eventType: event.type,
+      attempt,
+      status: error ? 'failed' : 'succeeded',
+      ...(statusCode !== undefined && { statusCode }),
+      ...(error && { error }),
+      durationMs: Date.now() - timestamp,
+      timestamp
+    };
+
+    if (error && retry && !this.stopped) {
+      if (attempt < this.config.maxAttempts) {
+        const delay = Math.min(this.config.initialBackoffMs * 2 ** (attempt - 1), this.config.maxBackoffMs);
+        delivery.nextAttemptAt = Date.now() + delay;
+        this.scheduleRetry(subscriptionId, event, attempt + 1, delay);
+      } else {
+        delivery.status = 'dead-lettered';
+        await this.deadLetter(subscriptionId, event, attempt, error);
+      }
+    }
+
+    this.log(delivery);
+    return delivery;
+  }
+
+  private scheduleRetry(subscriptionId: string, event: WebhookEvent, attempt: number, delay: number): void {
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      this.track(this.attempt(subscriptionId, event, attempt));
+    }, delay);
+    timer.unref();
+    this.retryTimers.add(timer);
+  }
+
+  private async deadLetter(subscriptionId: string, event: WebhookEvent, attempts: number, lastError: string): Promise<void> {
+    const deadLetter: WebhookDeadLetter = { id: uuidv4(), subscriptionId, event, attempts, lastError, failedAt: Date.now() };
+    this.deadLetters.set(deadLetter.id, deadLetter);
+    try {
+      await this.persist();
+    } catch (error) {
+      logger.error('Failed to save webhook dead letter', { deadLetterId: deadLetter.id, error: (error as Error).message });
+    }
+    logger.warn('Webhook delivery dead-lettered', { subscriptionId, eventId: event.id, eventType: event.type, attempts, lastError });
+    this.emit('delivery-dead-lettered', deadLetter);
+  }
+
+  private log(delivery: WebhookDelivery): void {
+    this.deliveryLog.push(delivery);
+    if (this.deliveryLog.length > this.config.deliveryLogSize) {
+      this.deliveryLog.splice(0, this.deliveryLog.length - this.config.deliveryLogSize);
+    }
+    this.emit('delivery', delivery);
+  }
+
+  private track<T>(work: Promise<T>): Promise<T> {
+    const tracked = work.catch(error => {
+      logger.error('Webhook delivery failed unexpectedly', { error: (error as Error).message });
+      return null as T;
+    });
+    this.inFlight.add(tracked as Promise<any>);
+    tracked.finally(() => this.inFlight.delete(tracked as Promise<any>));
+    return tracked;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.save({
+      subscriptions: Array.from(this.subscriptions.values()),
+      deadLetters: Array.from(this.deadLetters.values())
+    });
+  }
+
+  private requireSubscription(id: string): WebhookSubscription {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) {
+      throw new WebhookNotFoundError('subscription', id);
+    }
+    return subscription;
+  }
+
+  private validate(url: string, events: string[]): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new InvalidWebhookError(`Invalid webhook URL: ${url}`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new InvalidWebhookError(`Webhook URLs must use http or https: ${url}`);
+    }
+
+    if (events.length === 0) {
+      throw new InvalidWebhookError('A webhook needs at least one event type');
+    }
+    for (const pattern of events) {
+      if (!WEBHOOK_EVENT_TYPES.some(type => matchesEventType([pattern], type))) {
+        throw new InvalidWebhookError(`Unknown webhook event type: ${pattern}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Ingestion Dead-Letter Queue
+ * Holds records RAG₁ failed to classify, route or store, with the failing stage, the error and
+ * the number of attempts, and replays them automatically or on request
+ *
+ * Automatic retries follow the retry policy: a failure in one of `retryStages` is replayed after
+ * `initialBackoffMs`, then after waits growing by `backoffMultiplier`, until `maxRetries` replays
+ * have failed. The entry then stays until it is replayed by hand or discarded. Data and metadata
+ * can be edited in between, for records that failed because of what they contain.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DeadLetterStore,
+  IngestionDeadLetter,
+  IngestionStage,
+  MemoryDeadLetterStore
+} from '../../core/storage/dead_letter_store';
+
+export interface IngestionRetryPolicy {
+  /** Automatic replays after the original failure (default 3) */
+  maxRetries: number;
+  /** Wait before the first automatic replay (default 30 seconds) */
+  initialBackoffMs: number;
+  /** Factor the wait grows by with every further replay (default 2) */
+  backoffMultiplier: number;
+  /** Longest wait between replays (default 30 minutes) */
+  maxBackoffMs: number;
+  /**
+   * Stages whose failures are replayed automatically; by default routing and storage, since
+   * classifying the same record again fails the same way
+   */
+  retryStages: IngestionStage[];
+}
+
+export interface DeadLetterCapture {
+  recordId: string;
+  data: any;
+  metadata?: any;
+  batchId?: string;
+  stage: IngestionStage;
+  error: string;
+}
+
+export interface DeadLetterFilter {
+  stage?: IngestionStage;
+  status?: IngestionDeadLetter['status'];
+  batchId?: string;
+}
+
+/**
+ * Outcome of one ingestion attempt, as far as the queue needs to know
+ */
+export interface IngestionAttempt {
+  success: boolean;
+  stage?: IngestionStage;
+  error?: string;
+}
+
+export interface DeadLetterReplayResult {
+  deadLetterId: string;
+  recordId: string;
+  success: boolean;
+  /** The entry as it stands after a failed replay */
+  deadLetter?: IngestionDeadLetter;
+  error?: string;
+}
+
+export interface DeadLetterStats {
+  total: number;
+  byStage: Record<IngestionStage, number>;
+  byStatus: Record<IngestionDeadLetter['status'], number>;
+}
+
+export class DeadLetterNotFoundError extends Error {
+  constructor(deadLetterId: string) {
+    super(`Dead letter not found: ${deadLetterId}`);
+    this.name = 'DeadLetterNotFoundError';
+  }
+}
+
+export class DeadLetterReplayInProgressError extends Error {
+  constructor(deadLetterId: string) {
+    super(`Dead letter is being replayed: ${deadLetterId}`);
+    this.name = 'DeadLetterReplayInProgressError';
+  }
+}
+
+export class DeadLetterQueue extends EventEmitter {
+  private readonly policy: IngestionRetryPolicy;
+  private readonly store: DeadLetterStore;
+  private entries: Map<string, IngestionDeadLetter> = new Map();
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private replaying: Map<string, Promise<DeadLetterReplayResult>> = new Map();
+  private stopped = false;
+
+  constructor(
+    private readonly replayer: (deadLetter: IngestionDeadLetter) => Promise<IngestionAttempt>,
+    config: Partial<IngestionRetryPolicy> & { store?: DeadLetterStore } = {}
+  ) {
+    super();
+    const { store, ...policy } = config;
+    this.store = store || new MemoryDeadLetterStore();
+    this.policy = {
+      maxRetries: 3,
+      initialBackoffMs: 30 * 1000,
+      backoffMultiplier: 2,
+      maxBackoffMs: 30 * 60 * 1000,
+      retryStages: ['route', 'store'],
+      ...policy
+    };
+  }
+
+  /**
+   * Load saved entries and schedule the automatic replays still due
+   */
+  async initialize(): Promise<void> {
+    await this.store.open();
+    this.stopped = false;
+    for (const deadLetter of await this.store.loadAll()) {
+      this.entries.set(deadLetter.id, deadLetter);
+      if (deadLetter.status === 'scheduled') {
+        this.scheduleRetry(deadLetter.id, Math.max(0, (deadLetter.nextRetryAt ?? 0) - Date.now()));
+      }
+    }
+  }
+
+  /**
+   * Record a failed ingestion as its first attempt
+   */
+  async capture(failure: DeadLetterCapture): Promise<IngestionDeadLetter> {
+    const now = Date.now();
+    const deadLetter: IngestionDeadLetter = {
+      id: uuidv4(),
+      recordId: failure.recordId,
+      data: structuredClone(failure.data),
+      ...(failure.metadata !== undefined && { metadata: structuredClone(failure.metadata) }),
+      ...(failure.batchId && { batchId: failure.batchId }),
+      stage: failure.stage,
+      error: failure.error,
+      attempts: 1,
+      status: 'exhausted',
+      firstFailedAt: now,
+      lastFailedAt: now
+    };
+    this.planNextAttempt(deadLetter);
+
+    this.entries.set(deadLetter.id, deadLetter);
+    await this.store.save(deadLetter);
+    this.emit('dead_lettered', structuredClone(deadLetter));
+    return structuredClone(deadLetter);
+  }
+
+  /**
+   * Entries matching the filter, oldest first
+   */
+  list(filter: DeadLetterFilter & { offset?: number; limit?: number } = {}): IngestionDeadLetter[] {
+    const matching = this.matching(filter);
+    const offset = filter.offset ?? 0;
+    return matching.slice(offset, offset + (filter.limit ?? matching.length)).map(entry => structuredClone(entry));
+  }
+
+  get(deadLetterId: string): IngestionDeadLetter {
+    return structuredClone(this.require(deadLetterId));
+  }
+
+  stats(): DeadLetterStats {
+    const stats: DeadLetterStats = {
+      total: this.entries.size,
+      byStage: { classify: 0, route: 0, store: 0 },
+      byStatus: { scheduled: 0, exhausted: 0 }
+    };
+    for (const entry of this.entries.values()) {
+      stats.byStage[entry.stage]++;
+      stats.byStatus[entry.status]++;
+    }
+    return stats;
+  }
+
+  /**
+   * Replace the data or metadata the next replay ingests
+   */
+  async update(deadLetterId: string, changes: { data?: any; metadata?: any }): Promise<IngestionDeadLetter> {
+    const deadLetter = this.require(deadLetterId);
+    if (this.replaying.has(deadLetterId)) {
+      throw new DeadLetterReplayInProgressError(deadLetterId);
+    }
+
+    if (changes.data !== undefined) deadLetter.data = structuredClone(changes.data);
+    if (changes.metadata !== undefined) deadLetter.metadata = structuredClone(changes.metadata);
+    deadLetter.editedAt = Date.now();
+    await this.store.save(deadLetter);
+    return structuredClone(deadLetter);
+  }
+
+  /**
+   * Ingest an entry again now; it leaves the queue if that succeeds. A replay already running
+   * for the entry is joined rather than started twice.
+   */
+  replay(deadLetterId: string): Promise<DeadLetterReplayResult> {
+    const running = this.replaying.get(deadLetterId);
+    if (running) return running;
+
+    const replay = this.runReplay(deadLetterId).finally(() => this.replaying.delete(deadLetterId));
+    this.replaying.set(deadLetterId, replay);
+    return replay;
+  }
+
+  /**
+   * Replay the listed entries, or every entry matching the filter, one after another so a
+   * large backlog does not flood the classifier and MCPs at once
+   */
+  async replayMany(selection: DeadLetterFilter & { ids?: string[] }): Promise<{
+    replayed: number;
+    succeeded: number;
+    failed: number;
+    results: DeadLetterReplayResult[];
+  }> {
+    const ids = selection.ids ?? this.matching(selection).map(entry => entry.id);
+    ids.forEach(id => this.require(id));
+
+    const results: DeadLetterReplayResult[] = [];
+    for (const id of ids) {
+      // Skip entries an automatic replay already took out of the queue
+      if (this.stopped || !this.entries.has(id)) continue;
+      results.push(await this.replay(id));
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return { replayed: results.length, succeeded, failed: results.length - succeeded, results };
+  }
+
+  async discard(deadLetterId: string): Promise<void> {
+    this.require(deadLetterId);
+    if (this.replaying.has(deadLetterId)) {
+      throw new DeadLetterReplayInProgressError(deadLetterId);
+    }
+    await this.remove(deadLetterId);
+    this.emit('dead_letter_discarded', { deadLetterId });
+  }
+
+  /**
+   * Stop automatic replays and wait for the ones running; entries stay saved for the next start
+   */
+  async shutdown(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.retryTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+    await Promise.all(Array.from(this.replaying.values()));
+    await this.store.close();
+  }
+
+  private async runReplay(deadLetterId: string): Promise<DeadLetterReplayResult> {
+    const deadLetter = this.require(deadLetterId);
+    this.clearRetry(deadLetterId);
+
+    let attempt: IngestionAttempt;
+    try {
+      attempt = await this.replayer(structuredClone(deadLetter));
+    } catch (error) {
+      attempt = { success: false, stage: deadLetter.stage, error: (error as Error).message };
+    }
+
+    if (attempt.success) {
+      await this.remove(deadLetterId);
+      const result = { deadLetterId, recordId: deadLetter.recordId, success: true };
+      this.emit('dead_letter_replayed', { ...result, attempts: deadLetter.attempts + 1 });
+      return result;
+    }
+
+    deadLetter.attempts++;
+    deadLetter.stage = attempt.stage ?? deadLetter.stage;
+    deadLetter.error = attempt.error ?? 'Unknown error';
+    deadLetter.lastFailedAt = Date.now();
+    this.planNextAttempt(deadLetter);
+    await this.store.save(deadLetter);
+
+    const result = { deadLetterId, recordId: deadLetter.recordId, success: false, deadLetter: structuredClone(deadLetter), error: deadLetter.error };
+    this.emit('dead_letter_replay_failed', result);
+    return result;
+  }
+
+  /**
+   * Schedule the next automatic replay when the policy allows one, or mark the entry exhausted
+   */
+  private planNextAttempt(deadLetter: IngestionDeadLetter): void {
+    const retries = deadLetter.attempts - 1;
+    if (this.stopped || !this.policy.retryStages.includes(deadLetter.stage) || retries >= this.policy.maxRetries) {
+      deadLetter.status = 'exhausted';
+      delete deadLetter.nextRetryAt;
+      return;
+    }
+
+    const delay = Math.min(
+      this.policy.initialBackoffMs * this.policy.backoffMultiplier ** retries,
+      this.policy.maxBackoffMs
+    );
+    deadLetter.status = 'scheduled';
+    deadLetter.nextRetryAt = Date.now() + delay;
+    this.scheduleRetry(deadLetter.id, delay);
+  }
+
+  private scheduleRetry(deadLetterId: string, delay: number): void {
+    this.clearRetry(deadLetterId);
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(deadLetterId);
+      if (this.stopped || !this.entries.has(deadLetterId)) return;
+      this.replay(deadLetterId).catch(error => this.emit('dead_letter_replay_failed', {
+        deadLetterId,
+        success: false,
+        error: (error as Error).message
+      }));
+    }, delay);
+    timer.unref();
+    this.retryTimers.set(deadLetterId, timer);
+  }
+
+  private clearRetry(deadLetterId: string): void {
+    const timer = this.retryTimers.get(deadLetterId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(deadLetterId);
+    }
+  }
+
+  private async remove(deadLetterId: string): Promise<void> {
+    this.clearRetry(deadLetterId);
+    this.entries.delete(deadLetterId);
+    await this.store.delete(deadLetterId);
+  }
+
+  private matching(filter: DeadLetterFilter): IngestionDeadLetter[] {
+    return Array.from(this.entries.values())
+      .filter(entry =>
+        (!filter.stage || entry.stage === filter.stage) &&
+        (!filter.status || entry.status === filter.status) &&
+        (!filter.batchId || entry.batchId === filter.batchId))
+      .sort((a, b) => a.firstFailedAt - b.firstFailedAt);
+  }
+
+  private require(deadLetterId: string): IngestionDeadLetter {
+    const deadLetter = this.entries.get(deadLetterId);
+    if (!deadLetter) {
+      throw new DeadLetterNotFoundError(deadLetterId);
+    }
+    return deadLetter;
+  }
+}
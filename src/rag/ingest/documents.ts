@@ -0,0 +1,413 @@
+/**
+ * RAG₁ Document Pipeline
+ * Text extraction and chunking for uploaded documents
+ *
+ * Extraction turns a file into plain text (markdown headings are kept so chunking can follow
+ * them). Chunking splits that text into ranges that tile it exactly: each chunk ends where the
+ * next begins or, with overlap, after it, so the chunks can be stitched back into the text.
+ */
+
+export type DocumentFormat = 'text' | 'markdown' | 'html' | 'json' | 'csv' | 'ndjson';
+
+export type ChunkingStrategy = 'fixed' | 'heading' | 'sentence';
+
+export interface ChunkingOptions {
+  /** How to split the text (default 'heading') */
+  strategy?: ChunkingStrategy;
+  /** Target chunk size in tokens (default 200) */
+  size?: number;
+  /** Tokens repeated from the end of one chunk at the start of the next (default 0) */
+  overlap?: number;
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  title?: string;
+}
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  /** Character offsets into the extracted text, end exclusive */
+  start: number;
+  end: number;
+  tokenCount: number;
+  /** Nearest heading above the chunk, for heading-aware chunking */
+  heading?: string;
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/json': 'json',
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson'
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  txt: 'text',
+  text: 'text',
+  log: 'text',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  json: 'json',
+  csv: 'csv',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson'
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…'
+};
+
+const TOKEN_PATTERN = /\S+/g;
+const HEADING_PATTERN = /^#{1,6}[ \t]+(.+?)[ \t#]*$/;
+
+/**
+ * Format of a file from its MIME type, falling back to its extension; undefined when unsupported
+ */
+export function detectFormat(mimeType?: string, fileName?: string): DocumentFormat | undefined {
+  const byMime = mimeType ? MIME_FORMATS[mimeType.split(';')[0].trim().toLowerCase()] : undefined;
+  // Browsers send text/plain or octet-stream for markdown and NDJSON; the extension is more specific
+  const extension = fileName?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  const byExtension = extension ? EXTENSION_FORMATS[extension] : undefined;
+  return byMime && byMime !== 'text' ? byMime : byExtension ?? byMime;
+}
+
+/**
+ * Plain text of a document. Throws UnsupportedDocumentError for formats without an extractor
+ * and for content that does not parse as its format.
+ */
+export function extractDocument(
+  content: Buffer | string,
+  source: { mimeType?: string; fileName?: string; format?: DocumentFormat } = {}
+): ExtractedDocument {
+  const format = source.format ?? detectFormat(source.mimeType, source.fileName);
+  if (!format) {
+    throw new UnsupportedDocumentError(`Cannot extract text from ${source.mimeType || source.fileName || 'unknown content'}`);
+  }
+
+  const raw = (typeof content === 'string' ? content : content.toString('utf8'))
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n');
+
+  switch (format) {
+    case 'markdown':
+      return { format, text: raw.trim(), title: raw.match(/^#[ \t]+(.+)$/m)?.[1].trim() };
+    case 'html':
+      return extractHtml(raw);
+    case 'json':
+      return { format, text: flattenJson(parseJson(raw, 'JSON')).join('\n') };
+    case 'ndjson':
+      return {
+        format,
+        text: raw.split('\n')
+          .filter(line => line.trim())
+          .map((line, i) => flattenJson(parseJson(line, `NDJSON line ${i + 1}`)).join('\n'))
+          .join('\n\n')
+      };
+    case 'csv':
+      return { format, text: extractCsv(raw) };
+    default:
+      return { format, text: raw.trim() };
+  }
+}
+
+/**
+ * Split text into chunks of roughly `size` tokens
+ */
+export function chunkDocument(text: string, options: ChunkingOptions = {}): DocumentChunk[] {
+  const size = Math.max(1, Math.floor(options.size ?? 200));
+  const overlap = Math.min(Math.max(0, Math.floor(options.overlap ?? 0)), size - 1);
+  const tokens = tokenRanges(text, 0, text.length);
+  if (tokens.length === 0) return [];
+
+  let ranges: Array<{ start: number; end: number; heading?: string }>;
+  switch (options.strategy ?? 'heading') {
+    case 'fixed':
+      ranges = fixedWindows(tokens, size, overlap);
+      break;
+    case 'sentence':
+      ranges = packUnits(splitSentences(text), text, size, overlap);
+      break;
+    default:
+      ranges = headingChunks(text, size, overlap);
+  }
+
+  // Stretch the ranges over the whitespace between them so they tile the text
+  return ranges.map((range, index) => {
+    const start = index === 0 ? 0 : range.start;
+    const end = index === ranges.length - 1 ? text.length : Math.max(range.end, ranges[index + 1].start);
+    return {
+      index,
+      text: text.slice(start, end),
+      start,
+      end,
+      tokenCount: tokenRanges(text, range.start, range.end).length,
+      ...(range.heading && { heading: range.heading })
+    };
+  });
+}
+
+/**
+ * The extracted text the chunks were cut from; chunks may be given in any order
+ */
+export function reassembleChunks(chunks: Array<{ text: string; start: number; end: number }>): string {
+  let text = '';
+  for (const chunk of [...chunks].sort((a, b) => a.start - b.start || a.end - b.end)) {
+    if (chunk.end > text.length) {
+      text += chunk.text.slice(Math.max(0, text.length - chunk.start));
+    }
+  }
+  return text;
+}
+
+type Range = { start: number; end: number };
+
+function tokenRanges(text: string, from: number, to: number): Range[] {
+  return Array.from(text.slice(from, to).matchAll(TOKEN_PATTERN), match => ({
+    start: from + match.index!,
+    end: from + match.index! + match[0].length
+  }));
+}
+
+function fixedWindows(tokens: Range[], size: number, overlap: number): Range[] {
+  const ranges: Range[] = [];
+  const step = size - overlap;
+  for (let first = 0; first < tokens.length; first += step) {
+    const last = Math.min(first + size, tokens.length) - 1;
+    ranges.push({ start: tokens[first].start, end: tokens[last].end });
+    if (last === tokens.length - 1) break;
+  }
+  return ranges;
+}
+
+/**
+ * Pack consecutive units (sentences, paragraphs) into chunks of up to `size` tokens. A unit
+ * larger than a chunk is cut into fixed windows; overlap repeats whole trailing units.
+ */
+function packUnits(units: Range[], text: string, size: number, overlap: number): Range[] {
+  const ranges: Range[] = [];
+  let current: Array<Range & { tokens: number }> = [];
+  let currentTokens = 0;
+  // Whether `current` holds anything beyond units carried over from the previous chunk
+  let hasNew = false;
+
+  const flush = () => {
+    if (!hasNew) return;
+    ranges.push({ start: current[0].start, end: current[current.length - 1].end });
+    hasNew = false;
+
+    // Carry trailing units into the next chunk while they fit in the overlap budget
+    const carried: typeof current = [];
+    let carriedTokens = 0;
+    for (let i = current.length - 1; i > 0; i--) {
+      if (carriedTokens + current[i].tokens > overlap) break;
+      carried.unshift(current[i]);
+      carriedTokens += current[i].tokens;
+    }
+    current = carried;
+    currentTokens = carriedTokens;
+  };
+
+  for (const unit of units) {
+    const unitTokens = tokenRanges(text, unit.start, unit.end);
+    if (unitTokens.length === 0) continue;
+
+    if (unitTokens.length > size) {
+      flush();
+      current = [];
+      currentTokens = 0;
+      ranges.push(...fixedWindows(unitTokens, size, overlap));
+      continue;
+    }
+    if (currentTokens + unitTokens.length > size) {
+      flush();
+      // Carried units that leave no room for this one are dropped rather than repeated alone
+      if (currentTokens + unitTokens.length > size) {
+        current = [];
+        currentTokens = 0;
+      }
+    }
+    current.push({ ...unit, tokens: unitTokens.length });
+    currentTokens += unitTokens.length;
+    hasNew = true;
+  }
+  flush();
+  return ranges;
+}
+
+/**
+ * Paragraph chunks that never span a markdown heading; each remembers the heading it sits under
+ */
+function headingChunks(text: string, size: number, overlap: number): Array<Range & { heading?: string }> {
+  const sections: Array<{ heading?: string; paragraphs: Range[] }> = [{ paragraphs: [] }];
+
+  let offset = 0;
+  for (const block of text.split(/(\n[ \t]*\n+)/)) {
+    const start = offset;
+    offset += block.length;
+    if (!block.trim()) continue;
+
+    // A heading line starts a section even without a blank line after it
+    let paragraphStart = start;
+    let lineStart = start;
+    for (const line of block.split('\n')) {
+      const heading = line.match(HEADING_PATTERN);
+      if (heading) {
+        if (lineStart > paragraphStart) {
+          sections[sections.length - 1].paragraphs.push({ start: paragraphStart, end: lineStart });
+        }
+        sections.push({ heading: heading[1].trim(), paragraphs: [] });
+        paragraphStart = lineStart;
+      }
+      lineStart += line.length + 1;
+    }
+    sections[sections.length - 1].paragraphs.push({ start: paragraphStart, end: offset });
+  }
+
+  return sections.flatMap(section =>
+    packUnits(section.paragraphs, text, size, overlap).map(range => ({ ...range, heading: section.heading })));
+}
+
+function splitSentences(text: string): Range[] {
+  // A sentence ends at . ! or ? (plus closing quotes or brackets) followed by whitespace, or at a blank line
+  const pattern = /[^]*?(?:[.!?]+["')\]]*(?=\s)|\n[ \t]*\n|$)/g;
+  const sentences: Range[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      if (pattern.lastIndex >= text.length) break;
+      pattern.lastIndex++;
+      continue;
+    }
+    const leading = match[0].length - match[0].trimStart().length;
+    if (leading < match[0].length) {
+      sentences.push({ start: match.index + leading, end: match.index + match[0].length });
+    }
+  }
+  return sentences;
+}
+
+function extractHtml(html: string): ExtractedDocument {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template)\b[\s\S]*?<\/\1>/gi, '')
+    // Headings become markdown headings so heading-aware chunking works on HTML too
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, content: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${content.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|nav|ul|ol|table|tr|blockquote|pre|h[1-6])\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return {
+    format: 'html',
+    text: decodeEntities(text)
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+    title: title ? decodeEntities(title).replace(/\s+/g, ' ').trim() : undefined
+  };
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function parseJson(text: string, label: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new UnsupportedDocumentError(`${label} is not valid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * One "path: value" line per leaf, so keys stay searchable next to their values
+ */
+function flattenJson(value: any, path = ''): string[] {
+  if (value === null || typeof value !== 'object') {
+    return [path ? `${path}: ${value}` : String(value)];
+  }
+  const entries = Array.isArray(value)
+    ? value.map((item, i) => [`${path}[${i}]`, item] as const)
+    : Object.entries(value).map(([key, item]) => [path ? `${path}.${key}` : key, item] as const);
+  return entries.flatMap(([childPath, item]) => flattenJson(item, childPath));
+}
+
+/**
+ * One paragraph per row, each value labelled with its column header
+ */
+function extractCsv(csv: string): string {
+  const rows = parseCsv(csv);
+  if (rows.length === 0) return '';
+
+  const headers = rows[0].map((header, i) => header.trim() || `column${i + 1}`);
+  return rows.slice(1)
+    .filter(row => row.some(cell => cell.trim()))
+    .map(row => row.map((cell, i) => `${headers[i] ?? `column${i + 1}`}: ${cell.trim()}`).join('\n'))
+    .join('\n\n');
+}
+
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -12,13 +12,17 @@ import { StatsMCP } from '../../core/specialized/stats_mcp';
 import { LogsMCP } from '../../core/specialized/logs_mcp';
 import { DataClassifier, ClassificationResult } from './classifier';
 import { RoutingEngine } from './router';
+import { TransactionCoordinator, RecoveryReport } from '../../core/mcp/transactions';
+import { ChunkingOptions, DocumentFormat, chunkDocument, extractDocument, reassembleChunks } from './documents';
+import { FileDeadLetterStore, FileTransactionLog, IngestionDeadLetter, IngestionStage } from '../../core/storage';
+import { DeadLetterQueue, IngestionRetryPolicy } from './dead_letters';
 import {
   DataRecord,
   RoutingDecision,
   MCPDomain,
-  DataClassification,
-  BaseMCP
+  DataClassification
 } from '../../types/mcp.types';
+import { BaseMCP } from '../../core/mcp/base_mcp';
 
 export interface RAG1Config {
   enableAutoClassification: boolean;
@@ -29,6 +33,12 @@ export interface RAG1Config {
   processingTimeout: number;
   retryAttempts: number;
   enableMetrics: boolean;
+  /** Directory for the atomic-ingestion transaction log; in-memory when unset */
+  transactionLogDir?: string;
+  /** Directory for records that failed to ingest; in-memory when unset */
+  deadLetterDir?: string;
+  /** Automatic replays of failed records; maxRetries defaults to retryAttempts */
+  retryPolicy?: Partial<IngestionRetryPolicy>;
 }
 
 export interface RAG1Metrics {
@@ -52,6 +62,10 @@ export interface IngestionResult {
   routing?: RoutingDecision;
   processingTime: number;
   error?: string;
+  /** Stage the record failed at */
+  stage?: IngestionStage;
+  /** Dead-letter entry the failed record was captured in */
+  deadLetterId?: string;
 }
 
 export interface BatchIngestionResult {
@@ -62,6 +76,30 @@ export interface BatchIngestionResult {
   results: IngestionResult[];
   totalProcessingTime: number;
   averageRecordTime: number;
+  /** Set for atomic batches, which store every record or none */
+  transactionId?: string;
+}
+
+export interface DocumentIngestionResult {
+  documentId: string;
+  success: boolean;
+  format: DocumentFormat;
+  chunkCount: number;
+  classification?: ClassificationResult;
+  routing?: RoutingDecision;
+  transactionId?: string;
+  processingTime: number;
+  error?: string;
+}
+
+export interface StoredDocument {
+  document: DataRecord;
+  /** In document order */
+  chunks: DataRecord[];
+  /** Extracted text, reassembled from the chunks */
+  text: string;
+  /** Registry ID of the MCP the document was read from */
+  mcpId: string;
 }
 
 export interface PatternInsight {
@@ -73,6 +111,9 @@ export interface PatternInsight {
   recommendations: string[];
 }
 
+// Characters of a document's text the classifier sees when routing it
+const DOCUMENT_PREVIEW_LENGTH = 2000;
+
 export class RAG1Controller extends EventEmitter {
   private config: RAG1Config;
   private registry: MCPRegistry;
@@ -81,6 +122,8 @@ export class RAG1Controller extends EventEmitter {
   private metrics: RAG1Metrics;
   private processingQueue: Map<string, Promise<IngestionResult>> = new Map();
   private patternInsights: Map<string, PatternInsight> = new Map();
+  private transactions: TransactionCoordinator;
+  private deadLetters: DeadLetterQueue;
   private isInitialized = false;
 
   constructor(
@@ -129,6 +172,17 @@ export class RAG1Controller extends EventEmitter {
       replicationFactor: 1
     });
 
+    this.transactions = new TransactionCoordinator({
+      log: this.config.transactionLogDir ? new FileTransactionLog(this.config.transactionLogDir) : undefined,
+      resolveMCP: ref => this.findMCP(ref.mcpId, ref.name)
+    });
+
+    this.deadLetters = new DeadLetterQueue(deadLetter => this.replayDeadLetter(deadLetter), {
+      maxRetries: this.config.retryAttempts,
+      ...this.config.retryPolicy,
+      store: this.config.deadLetterDir ? new FileDeadLetterStore(this.config.deadLetterDir) : undefined
+    });
+
     this.setupEventListeners();
   }
 
@@ -150,11 +204,17 @@ export class RAG1Controller extends EventEmitter {
       // Initialize existing MCPs if none exist
       await this.initializeBaseMCPs();
       
+      // Finish atomic batches a previous run left mid-commit
+      await this.recoverTransactions();
+      
       // Start pattern learning if enabled
       if (this.config.enablePatternLearning) {
         this.startPatternLearning();
       }
       
+      // Pick up failed records and their pending retries
+      await this.deadLetters.initialize();
+      
       this.isInitialized = true;
       
       this.emit('initialized', {
@@ -180,16 +240,65 @@ export class RAG1Controller extends EventEmitter {
       throw new Error('RAG₁ not initialized');
     }
 
+    return this.ingestOrDeadLetter(this.buildRecord(data, metadata));
+  }
+
+  /**
+   * Records that failed to ingest, for listing, editing and replaying them
+   */
+  getDeadLetters(): DeadLetterQueue {
+    return this.deadLetters;
+  }
+
+  /**
+   * Ingest a record, capturing it in the dead-letter queue if that fails
+   */
+  private async ingestOrDeadLetter(record: DataRecord, batchId?: string): Promise<IngestionResult> {
+    const result = await this.ingestRecord(record);
+    if (result.success) {
+      return result;
+    }
+
+    try {
+      const deadLetter = await this.deadLetters.capture({
+        recordId: record.id,
+        data: record.data,
+        metadata: record.metadata,
+        batchId,
+        stage: result.stage!,
+        error: result.error!
+      });
+      result.deadLetterId = deadLetter.id;
+      this.emit('record_dead_lettered', {
+        recordId: record.id,
+        deadLetterId: deadLetter.id,
+        stage: deadLetter.stage,
+        status: deadLetter.status
+      });
+    } catch (error) {
+      this.emit('dead_letter_capture_failed', { recordId: record.id, error: (error as Error).message });
+    }
+    return result;
+  }
+
+  /**
+   * Ingest a dead letter again under its original record ID
+   */
+  private async replayDeadLetter(deadLetter: IngestionDeadLetter): Promise<IngestionResult> {
+    if (!this.isInitialized) {
+      throw new Error('RAG₁ not initialized');
+    }
+
+    return this.ingestRecord({ ...this.buildRecord(deadLetter.data, deadLetter.metadata), id: deadLetter.recordId });
+  }
+
+  /**
+   * Classify, route and store one record, reporting the stage it failed at
+   */
+  private async ingestRecord(record: DataRecord): Promise<IngestionResult> {
     const startTime = Date.now();
-    const recordId = metadata?.id || uuidv4();
-    const record: DataRecord = { 
-      id: recordId, 
-      domain: metadata?.domain || 'general', 
-      type: metadata?.type || 'general',
-      timestamp: metadata?.timestamp || Date.now(), 
-      data, 
-      metadata 
-    };
+    const recordId = record.id;
+    let stage: IngestionStage = 'classify';
 
     try {
       this.metrics.totalIngested++;
@@ -202,6 +311,7 @@ export class RAG1Controller extends EventEmitter {
       }
       
       // Step 2: Route data
+      stage = 'route';
       let routingDecision: RoutingDecision | undefined;
       if (this.config.enableIntelligentRouting && classification) {
         routingDecision = await this.routeData(record, classification);
@@ -209,6 +319,7 @@ export class RAG1Controller extends EventEmitter {
       }
       
       // Step 3: Execute storage
+      stage = 'store';
       if (routingDecision && routingDecision.targetMCPs.length > 0) {
         await this.executeStorage(record, routingDecision);
       }
@@ -248,11 +359,13 @@ export class RAG1Controller extends EventEmitter {
         recordId,
         success: false,
         processingTime,
-        error: (error as Error).message
+        error: (error as Error).message,
+        stage
       };
       
       this.emit('ingestion_failed', {
         recordId,
+        stage,
         error: (error as Error).message,
         processingTime
       });
@@ -262,7 +375,8 @@ export class RAG1Controller extends EventEmitter {
   }
 
   /**
-   * Batch ingest multiple records
+   * Batch ingest multiple records.
+   * With options.atomic every record is stored in its target MCPs or none is.
    */
   async ingestBatch(records: DataRecord[], options?: any): Promise<BatchIngestionResult> {
     if (!this.isInitialized) {
@@ -272,12 +386,16 @@ export class RAG1Controller extends EventEmitter {
     const batchId = uuidv4();
     const startTime = Date.now();
     
+    if (options?.atomic) {
+      return this.ingestAtomicBatch(records, batchId, startTime);
+    }
+    
     // Process in chunks of configured batch size
     const chunks = this.chunkArray(records, this.config.batchSize);
     const allResults: IngestionResult[] = [];
     
     for (const chunk of chunks) {
-      const chunkPromises = chunk.map(record => this.ingest(record.data, record.metadata, record.routing));
+      const chunkPromises = chunk.map(record => this.ingestOrDeadLetter(this.buildRecord(record.data, record.metadata), batchId));
       const chunkResults = await Promise.allSettled(chunkPromises);
       
       // Extract results from settled promises
@@ -323,6 +441,292 @@ export class RAG1Controller extends EventEmitter {
     return batchResult;
   }
 
+  /**
+   * Classify and route every record, then store them all in one transaction
+   */
+  private async ingestAtomicBatch(
+    records: DataRecord[],
+    batchId: string,
+    startTime: number
+  ): Promise<BatchIngestionResult> {
+    const tx = this.transactions.begin();
+    const prepared: Array<{
+      record: DataRecord;
+      classification?: ClassificationResult;
+      routing?: RoutingDecision;
+      processingTime: number;
+    }> = [];
+    let failure: Error | null = null;
+    
+    try {
+      for (const input of records) {
+        const recordStart = Date.now();
+        const record = this.buildRecord(input.data, input.metadata);
+        
+        const classification = this.config.enableAutoClassification
+          ? await this.classifyData(record)
+          : undefined;
+        const routing = this.config.enableIntelligentRouting && classification
+          ? await this.routeData(record, classification)
+          : undefined;
+        
+        for (const mcpId of routing?.targetMCPs || []) {
+          const mcp = await this.registry.getMCP(mcpId);
+          if (!mcp) {
+            throw new Error(`Target MCP ${mcpId} not found for record ${record.id}`);
+          }
+          tx.store(mcp, record);
+        }
+        
+        prepared.push({ record, classification, routing, processingTime: Date.now() - recordStart });
+      }
+      
+      await tx.commit();
+    } catch (error) {
+      failure = error as Error;
+      if (tx.status === 'active') {
+        await tx.rollback();
+      }
+    }
+    
+    const results: IngestionResult[] = [];
+    for (let i = 0; i < records.length; i++) {
+      const entry = prepared[i];
+      const processingTime = entry?.processingTime ?? 0;
+      this.metrics.totalIngested++;
+      
+      if (failure) {
+        this.metrics.errors++;
+        this.updateMetrics(processingTime, false);
+        results.push({
+          recordId: entry?.record.id || records[i].metadata?.id || records[i].id,
+          success: false,
+          classification: entry?.classification,
+          routing: entry?.routing,
+          processingTime,
+          error: failure.message
+        });
+        continue;
+      }
+      
+      if (entry.classification) this.metrics.totalClassified++;
+      if (entry.routing) this.metrics.totalRouted++;
+      if (this.config.enablePatternLearning && entry.classification && entry.routing) {
+        await this.learnFromIngestion(entry.record, entry.classification, entry.routing);
+      }
+      this.updateMetrics(processingTime, true);
+      results.push({
+        recordId: entry.record.id,
+        success: true,
+        classification: entry.classification,
+        routing: entry.routing,
+        processingTime
+      });
+    }
+    
+    if (failure) {
+      this.emit('ingestion_failed', {
+        batchId,
+        transactionId: tx.id,
+        error: failure.message,
+        processingTime: Date.now() - startTime
+      });
+    }
+    
+    const totalProcessingTime = Date.now() - startTime;
+    const successfulRecords = failure ? 0 : records.length;
+    
+    this.emit('batch_completed', {
+      batchId,
+      transactionId: tx.id,
+      totalRecords: records.length,
+      successfulRecords,
+      failedRecords: records.length - successfulRecords,
+      totalProcessingTime
+    });
+    
+    return {
+      batchId,
+      totalRecords: records.length,
+      successfulRecords,
+      failedRecords: records.length - successfulRecords,
+      results,
+      totalProcessingTime,
+      averageRecordTime: results.length > 0 ?
+        results.reduce((sum, r) => sum + r.processingTime, 0) / results.length : 0,
+      transactionId: tx.id
+    };
+  }
+
+  /**
+   * Extract a document's text, split it into chunks and store the document record with its
+   * chunks. They are routed together and stored in one transaction, so a document is never
+   * left half-ingested. Throws UnsupportedDocumentError for formats without a text extractor.
+   */
+  async ingestDocument(
+    content: Buffer | string,
+    metadata: any = {},
+    chunking: ChunkingOptions = {}
+  ): Promise<DocumentIngestionResult> {
+    if (!this.isInitialized) {
+      throw new Error('RAG₁ not initialized');
+    }
+
+    const startTime = Date.now();
+    const extracted = extractDocument(content, { mimeType: metadata.mimeType, fileName: metadata.fileName });
+    const chunks = chunkDocument(extracted.text, chunking);
+    const source = {
+      fileName: metadata.fileName,
+      mimeType: metadata.mimeType,
+      format: extracted.format,
+      title: extracted.title
+    };
+    
+    const document = this.buildRecord(
+      { ...source, length: extracted.text.length, chunkCount: chunks.length, chunking },
+      { ...metadata, type: metadata.type || 'document' }
+    );
+    const chunkRecords = chunks.map(chunk => ({
+      ...this.buildRecord(
+        { ...chunk, source },
+        { ...metadata, id: `${document.id}:chunk:${chunk.index}`, type: 'document_chunk', domain: document.domain }
+      ),
+      parentId: document.id
+    }));
+    
+    const tx = this.transactions.begin();
+    let classification: ClassificationResult | undefined;
+    let routing: RoutingDecision | undefined;
+    
+    try {
+      this.metrics.totalIngested++;
+      
+      // Route on the document's opening text; every chunk follows the document
+      const preview = { ...document, data: { ...document.data, text: extracted.text.slice(0, DOCUMENT_PREVIEW_LENGTH) } };
+      if (this.config.enableAutoClassification) {
+        classification = await this.classifyData(preview);
+        this.metrics.totalClassified++;
+      }
+      if (this.config.enableIntelligentRouting && classification) {
+        routing = await this.routeData(preview, classification);
+        this.metrics.totalRouted++;
+      }
+      
+      for (const mcpId of routing?.targetMCPs || []) {
+        const mcp = await this.registry.getMCP(mcpId);
+        if (!mcp) {
+          throw new Error(`Target MCP ${mcpId} not found for document ${document.id}`);
+        }
+        tx.store(mcp, document);
+        chunkRecords.forEach(record => tx.store(mcp, record));
+      }
+      await tx.commit();
+      
+      if (this.config.enablePatternLearning && classification && routing) {
+        await this.learnFromIngestion(document, classification, routing);
+      }
+      
+      const processingTime = Date.now() - startTime;
+      this.updateMetrics(processingTime, true);
+      
+      this.emit('document_ingested', {
+        documentId: document.id,
+        format: extracted.format,
+        chunkCount: chunks.length,
+        targetMCPs: routing?.targetMCPs.length || 0,
+        transactionId: tx.id,
+        processingTime
+      });
+      
+      return {
+        documentId: document.id,
+        success: true,
+        format: extracted.format,
+        chunkCount: chunks.length,
+        classification,
+        routing,
+        transactionId: tx.id,
+        processingTime
+      };
+      
+    } catch (error) {
+      if (tx.status === 'active') {
+        await tx.rollback();
+      }
+      
+      this.metrics.errors++;
+      const processingTime = Date.now() - startTime;
+      this.updateMetrics(processingTime, false);
+      
+      this.emit('ingestion_failed', {
+        recordId: document.id,
+        transactionId: tx.id,
+        error: (error as Error).message,
+        processingTime
+      });
+      
+      return {
+        documentId: document.id,
+        success: false,
+        format: extracted.format,
+        chunkCount: chunks.length,
+        classification,
+        routing,
+        transactionId: tx.id,
+        processingTime,
+        error: (error as Error).message
+      };
+    }
+  }
+
+  /**
+   * A stored document with its chunks in order and its text stitched back together
+   */
+  async getDocument(documentId: string): Promise<StoredDocument | null> {
+    for (const [mcpId, mcp] of await this.registry.getAllMCPs()) {
+      const document = await mcp.retrieve(documentId);
+      if (!document) continue;
+      
+      const chunks = (await mcp.query({ parentId: documentId }))
+        .sort((a, b) => a.data.index - b.data.index);
+      return {
+        document,
+        chunks,
+        text: reassembleChunks(chunks.map(chunk => chunk.data)),
+        mcpId
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Delete a document and its chunks from every MCP holding them, in one transaction.
+   * Returns how many records were deleted; 0 when there was nothing to delete.
+   */
+  async deleteDocument(documentId: string): Promise<number> {
+    const deletions: Array<{ mcp: BaseMCP; id: string }> = [];
+    
+    for (const mcp of (await this.registry.getAllMCPs()).values()) {
+      if (await mcp.retrieve(documentId)) {
+        deletions.push({ mcp, id: documentId });
+      }
+      for (const chunk of await mcp.query({ parentId: documentId })) {
+        deletions.push({ mcp, id: chunk.id });
+      }
+    }
+    if (deletions.length === 0) {
+      return 0;
+    }
+    
+    const transactionId = await this.transactions.run(async tx => {
+      deletions.forEach(({ mcp, id }) => tx.delete(mcp, id));
+      return tx.id;
+    });
+    
+    this.emit('document_deleted', { documentId, deletedRecords: deletions.length, transactionId });
+    return deletions.length;
+  }
+
   /**
    * Get real-time ingestion status
    */
@@ -436,16 +840,21 @@ export class RAG1Controller extends EventEmitter {
     return this.router.route(record, classification);
   }
 
+  /**
+   * Write the record to every MCP it was routed to; a missing or refusing target fails the store stage
+   */
   private async executeStorage(
     record: DataRecord, 
     routing: RoutingDecision
   ): Promise<void> {
-    // In a real implementation, this would execute the storage
-    // across the selected MCPs according to the execution plan
-    for (const step of routing.executionPlan) {
-      // Execute storage step
-      // For now, we'll just simulate the process
-      await new Promise(resolve => setTimeout(resolve, step.estimatedDuration));
+    for (const mcpId of routing.targetMCPs) {
+      const mcp = await this.registry.getMCP(mcpId);
+      if (!mcp) {
+        throw new Error(`Target MCP ${mcpId} not found for record ${record.id}`);
+      }
+      if (!(await mcp.store(record))) {
+        throw new Error(`MCP ${mcpId} failed to store record ${record.id}`);
+      }
     }
   }
 
@@ -616,6 +1025,37 @@ export class RAG1Controller extends EventEmitter {
     }
   }
 
+  private buildRecord(data: any, metadata?: any): DataRecord {
+    return {
+      id: metadata?.id || uuidv4(),
+      domain: metadata?.domain || 'general',
+      type: metadata?.type || 'general',
+      timestamp: metadata?.timestamp || Date.now(),
+      ttl: metadata?.ttl,
+      expiresAt: metadata?.expiresAt,
+      data,
+      metadata
+    };
+  }
+
+  private async findMCP(mcpId: string, name: string): Promise<BaseMCP | null> {
+    const mcp = await this.registry.getMCP(mcpId);
+    if (mcp) return mcp;
+    
+    // Registry IDs are regenerated on restart; names given at creation are not
+    const all = await this.registry.getAllMCPs();
+    return Array.from(all.values()).find(candidate => candidate.metadata.name === name) || null;
+  }
+
+  private async recoverTransactions(): Promise<void> {
+    const report: RecoveryReport = await this.transactions.recover();
+    const recovered = report.committed.length + report.aborted.length + report.failed.length;
+    
+    if (recovered > 0 || report.unresolved.length > 0) {
+      this.emit('transactions_recovered', { ...report, timestamp: Date.now() });
+    }
+  }
+
   private chunkArray<T>(array: T[], size: number): T[][] {
     const chunks: T[][] = [];
     for (let i = 0; i < array.length; i += size) {
@@ -808,6 +1248,8 @@ export class RAG1Controller extends EventEmitter {
     
     this.processingQueue.clear();
     this.patternInsights.clear();
+    await this.deadLetters.shutdown();
+    await this.transactions.shutdown();
     
     // Call destroy to clean up resources
     this.destroy();
@@ -3,8 +3,9 @@
  * Intelligently combines results from multiple MCPs into unified responses
  */
 
-import { QueryResult, QueryError, QueryWarning } from '../../types/query.types';
+import { QueryResult, QueryError, QueryWarning, FusionOptions } from '../../types/query.types';
 import { AggregationStrategyType, QueryLearning } from './aggregator.types';
+import { Reranker, RetrievalList, fuseRetrievals, rerankHits } from './fusion';
 
 export interface MCPResult {
   mcpId: string;
@@ -17,14 +18,25 @@ export interface MCPResult {
     error?: string;
   };
   queryFragment: any;
+  /** Per-retriever ranked lists, present when the MCP was queried for retrieval fusion */
+  retrievals?: RetrievalList[];
 }
 
 export class ResultAggregator {
   private learningData: QueryLearning;
   private cacheStore: Map<string, any> = new Map();
+  private reranker?: Reranker;
 
-  constructor() {
+  constructor(options: { reranker?: Reranker } = {}) {
     this.learningData = this.initializeLearningData();
+    this.reranker = options.reranker;
+  }
+
+  /**
+   * Re-ranker applied after retrieval fusion; undefined keeps the fused order
+   */
+  setReranker(reranker?: Reranker): void {
+    this.reranker = reranker;
   }
 
   /**
@@ -45,7 +57,12 @@ export class ResultAggregator {
     const failedResults = mcpResults.filter(result => !result.success);
     
     // Apply aggregation strategy
-    const aggregatedData = await this.applyAggregationStrategy(successfulResults, strategy);
+    const aggregatedData = await this.applyAggregationStrategy(
+      successfulResults,
+      strategy,
+      originalQuery,
+      interpretedQuery?.aggregationStrategy?.fusion
+    );
     
     // Calculate metadata
     const metadata = this.calculateAggregationMetadata(successfulResults, strategy);
@@ -85,7 +102,9 @@ export class ResultAggregator {
    */
   private async applyAggregationStrategy(
     results: MCPResult[], 
-    strategy: string
+    strategy: string,
+    originalQuery = '',
+    fusion?: FusionOptions
   ): Promise<any[]> {
     switch (strategy) {
       case AggregationStrategyType.MERGE:
@@ -109,6 +128,9 @@ export class ResultAggregator {
       case AggregationStrategyType.CROSS_REFERENCE:
         return this.crossReferenceResults(results);
       
+      case AggregationStrategyType.FUSION:
+        return this.fusionResults(results, originalQuery, fusion);
+      
       case 'intersection':
         // Map intersection to cross_reference
         return this.crossReferenceResults(results);
@@ -308,6 +330,36 @@ export class ResultAggregator {
     return crossReferenced;
   }
 
+  /**
+   * Retrieval fusion - one ranking across retrievers and MCPs, optionally re-ranked.
+   * Each record carries its fused score and where it was found in `relevance`.
+   */
+  private async fusionResults(results: MCPResult[], query: string, options: FusionOptions = {}): Promise<any[]> {
+    // MCPs queried the ordinary way contribute their records as one list, in the order returned
+    const lists = results.flatMap(result => result.retrievals ?? [{
+      mcpId: result.mcpId,
+      retriever: result.data.some(item => item?.relevance) ? 'fulltext' as const : 'structured' as const,
+      candidates: result.data.map(record => ({ record, score: record?.relevance?.score }))
+    }]);
+
+    let hits = fuseRetrievals(lists, options);
+    if (this.reranker) {
+      hits = await rerankHits(this.reranker, query, hits, options.rerankDepth);
+    }
+    if (options.limit !== undefined) {
+      hits = hits.slice(0, Math.max(0, options.limit));
+    }
+
+    return hits.map(hit => ({
+      ...hit.record,
+      relevance: {
+        score: hit.score,
+        provenance: hit.provenance,
+        ...(hit.highlights && { highlights: hit.highlights })
+      }
+    }));
+  }
+
   /**
    * Calculate aggregation metadata
    */
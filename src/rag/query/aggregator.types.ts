@@ -12,7 +12,8 @@ export enum AggregationStrategyType {
   TIME_ORDERED = 'time_ordered',
   WEIGHTED_AVERAGE = 'weighted_average',
   STATISTICAL_SUMMARY = 'statistical_summary',
-  CROSS_REFERENCE = 'cross_reference'
+  CROSS_REFERENCE = 'cross_reference',
+  FUSION = 'fusion'
 }
 
 /**
@@ -0,0 +1,190 @@
+/**
+ * RAG₂ Answer Generation
+ * Turns ranked query results into a grounded answer with citations
+ *
+ * The top records are rendered into numbered passages until the context token budget is spent,
+ * the provider is asked to answer from those passages only and to cite them as [n], and the
+ * markers in its answer are resolved back to record IDs and MCPs.
+ */
+
+import { extractText } from '../../core/mcp/text_analysis';
+import { LLMCompletion, LLMMessage, LLMProvider } from './llm';
+
+export const DEFAULT_CONTEXT_TOKENS = 2000;
+export const DEFAULT_ANSWER_TOKENS = 512;
+
+// A passage cut shorter than this is not worth the space it takes
+const MIN_PASSAGE_TOKENS = 20;
+const SNIPPET_LENGTH = 200;
+
+const SYSTEM_PROMPT = [
+  'You answer questions using only the numbered sources provided.',
+  'Cite every statement with the number of its source in square brackets, for example [1] or [2][3].',
+  'If the sources do not contain the answer, say that you do not know.'
+].join(' ');
+
+export interface AnswerOptions {
+  /** Tokens (words) of record text the context window may hold */
+  contextTokens?: number;
+  /** Upper bound on the length of the answer, passed to the provider */
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ContextPassage {
+  ref: number;
+  recordId: string;
+  mcpId?: string;
+  text: string;
+  tokenCount: number;
+  truncated: boolean;
+}
+
+export interface Citation {
+  ref: number;
+  recordId: string;
+  mcpId?: string;
+  snippet: string;
+}
+
+export interface GeneratedAnswer {
+  answer: string;
+  citations: Citation[];
+  /** Every passage the provider was shown, cited or not */
+  context: ContextPassage[];
+  contextTokens: number;
+  provider: string;
+  model: string;
+  usage?: LLMCompletion['usage'];
+}
+
+/**
+ * An answer together with the query that retrieved its sources
+ */
+export interface AnswerResult extends GeneratedAnswer {
+  executionId: string;
+  retrieval: {
+    totalRecords: number;
+    mcpIds: string[];
+    duration: number;
+  };
+}
+
+export class AnswerGenerator {
+  constructor(private provider: LLMProvider) {}
+
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Answer a question from records ranked best first. `sourceOf` names the MCP a record came
+   * from when the record itself does not say.
+   */
+  async generate(
+    question: string,
+    records: any[],
+    options: AnswerOptions = {},
+    sourceOf: (record: any) => string | undefined = () => undefined
+  ): Promise<GeneratedAnswer> {
+    const context = buildContext(records, options.contextTokens ?? DEFAULT_CONTEXT_TOKENS, sourceOf);
+
+    const completion = await this.provider.complete({
+      messages: buildMessages(question, context),
+      sources: context.map(passage => ({ ref: passage.ref, text: passage.text })),
+      maxTokens: options.maxTokens ?? DEFAULT_ANSWER_TOKENS,
+      temperature: options.temperature
+    });
+
+    return {
+      answer: completion.text,
+      citations: resolveCitations(completion.text, context),
+      context,
+      contextTokens: context.reduce((sum, passage) => sum + passage.tokenCount, 0),
+      provider: this.provider.name,
+      model: completion.model,
+      usage: completion.usage
+    };
+  }
+}
+
+/**
+ * Numbered passages from the records in order, stopping when the budget runs out. The record
+ * that crosses the budget is cut to fit, unless too little room is left for it to be useful.
+ */
+export function buildContext(
+  records: any[],
+  budget: number,
+  sourceOf: (record: any) => string | undefined = () => undefined
+): ContextPassage[] {
+  const passages: ContextPassage[] = [];
+  let remaining = budget;
+
+  for (const record of records) {
+    const words = passageText(record).match(/\S+/g) ?? [];
+    if (words.length === 0) continue;
+
+    const truncated = words.length > remaining;
+    if (truncated && (remaining <= 0 || (remaining < MIN_PASSAGE_TOKENS && passages.length > 0))) break;
+
+    const kept = truncated ? words.slice(0, remaining) : words;
+    passages.push({
+      ref: passages.length + 1,
+      recordId: String(record.id),
+      mcpId: record.relevance?.provenance?.[0]?.mcpId ?? record.source ?? sourceOf(record),
+      text: kept.join(' ') + (truncated ? ' …' : ''),
+      tokenCount: kept.length,
+      truncated
+    });
+    remaining -= kept.length;
+    if (remaining <= 0) break;
+  }
+  return passages;
+}
+
+/**
+ * The passages the answer cites, in order of first citation. Markers may list several
+ * sources ([1, 3]); numbers without a passage are ignored.
+ */
+export function resolveCitations(answer: string, context: ContextPassage[]): Citation[] {
+  const byRef = new Map(context.map(passage => [passage.ref, passage]));
+  const cited = new Map<number, Citation>();
+
+  for (const marker of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const ref of marker[1].split(',').map(n => parseInt(n, 10))) {
+      const passage = byRef.get(ref);
+      if (passage && !cited.has(ref)) {
+        cited.set(ref, {
+          ref,
+          recordId: passage.recordId,
+          mcpId: passage.mcpId,
+          snippet: passage.text.slice(0, SNIPPET_LENGTH)
+        });
+      }
+    }
+  }
+  return Array.from(cited.values());
+}
+
+function buildMessages(question: string, context: ContextPassage[]): LLMMessage[] {
+  const sources = context.length > 0
+    ? context.map(passage => `[${passage.ref}] ${passage.text}`).join('\n\n')
+    : '(no sources found)';
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: `Sources:\n${sources}\n\nQuestion: ${question}` }
+  ];
+}
+
+/**
+ * The prose of a record: a document chunk's text, a chat message's content or a log's message,
+ * and all of its strings for other shapes
+ */
+function passageText(record: any): string {
+  const data = record?.data;
+  for (const text of [data?.text, data?.content?.text, data?.message]) {
+    if (typeof text === 'string' && text.trim()) return text;
+  }
+  return extractText(record) || (data !== undefined ? JSON.stringify(data) : '');
+}
@@ -0,0 +1,242 @@
+/**
+ * RAG₂ Query Clarification
+ * Decides when an interpretation is too uncertain to run and, instead of guessing, lays out the
+ * readings a user can choose from and the questions that tell them apart
+ */
+
+import {
+  ClarificationCandidate,
+  ClarificationReason,
+  DataType,
+  InterpretationChoice,
+  InterpretedQuery,
+  QueryIntent
+} from '../../types/query.types';
+import { NaturalLanguageParser } from './parser';
+
+export interface ClarificationPolicy {
+  /** Interpretations below this confidence are ambiguous */
+  threshold: number;
+  /** Result-shaping intents closer than this conflict (default 0.1) */
+  intentMargin?: number;
+  /** Readings offered at most (default 4) */
+  maxCandidates?: number;
+}
+
+/**
+ * What to ask about an ambiguous query. Each candidate carries the interpretation that runs
+ * when it is picked.
+ */
+export interface ClarificationDraft {
+  reasons: ClarificationReason[];
+  questions: string[];
+  candidates: Array<ClarificationCandidate & { interpretation: InterpretedQuery }>;
+}
+
+export class ClarificationNotFoundError extends Error {
+  constructor(clarificationId: string) {
+    super(`Clarification not found: ${clarificationId}`);
+    this.name = 'ClarificationNotFoundError';
+  }
+}
+
+export class UnknownCandidateError extends Error {
+  constructor(clarificationId: string, candidateId: string) {
+    super(`Clarification ${clarificationId} has no candidate ${candidateId}`);
+    this.name = 'UnknownCandidateError';
+  }
+}
+
+// Intents that decide what comes back; two of them cannot both be what was meant
+const RESULT_SHAPING_INTENTS: string[] = [
+  QueryIntent.RETRIEVE,
+  QueryIntent.COUNT,
+  QueryIntent.AGGREGATE,
+  QueryIntent.UPDATE,
+  QueryIntent.DELETE
+];
+
+// Offered when a query names what it is about but not what to do with it
+const DEFAULT_INTENTS: QueryIntent[] = [QueryIntent.RETRIEVE, QueryIntent.COUNT];
+
+const INTENT_VERBS: Partial<Record<QueryIntent, string>> = {
+  [QueryIntent.RETRIEVE]: 'list',
+  [QueryIntent.COUNT]: 'count',
+  [QueryIntent.AGGREGATE]: 'summarize',
+  [QueryIntent.FILTER]: 'filter',
+  [QueryIntent.SEARCH]: 'search',
+  [QueryIntent.ANALYZE]: 'analyze',
+  [QueryIntent.COMPARE]: 'compare',
+  [QueryIntent.SORT]: 'sort',
+  [QueryIntent.UPDATE]: 'update',
+  [QueryIntent.DELETE]: 'delete'
+};
+
+const DATA_TYPE_NOUNS: Record<DataType, string> = {
+  [DataType.USERS]: 'users',
+  [DataType.MESSAGES]: 'messages',
+  [DataType.CHATS]: 'chats',
+  [DataType.STATS]: 'statistics',
+  [DataType.METRICS]: 'metrics',
+  [DataType.LOGS]: 'logs',
+  [DataType.TOKENS]: 'tokens',
+  [DataType.FILES]: 'files'
+};
+
+/**
+ * Whether an interpretation needs clarifying, and if so the candidate readings, most likely
+ * first. Returns null when it is clear enough to run.
+ */
+export function assessClarification(
+  interpreted: InterpretedQuery,
+  parser: NaturalLanguageParser,
+  policy: ClarificationPolicy
+): ClarificationDraft | null {
+  const intentMargin = policy.intentMargin ?? 0.1;
+  const maxCandidates = policy.maxCandidates ?? 4;
+  const reasons: ClarificationReason[] = [];
+
+  if (interpreted.confidence < policy.threshold) {
+    reasons.push('low_confidence');
+  }
+
+  const [first, second] = interpreted.intents;
+  const conflicting = !!first && !!second &&
+    RESULT_SHAPING_INTENTS.includes(first.type) &&
+    RESULT_SHAPING_INTENTS.includes(second.type) &&
+    first.confidence - second.confidence <= intentMargin;
+  if (conflicting) {
+    reasons.push('conflicting_intents');
+  }
+
+  const dataTypes = ambiguousDataTypes(interpreted);
+  if (dataTypes.length > 1) {
+    reasons.push('ambiguous_data_type');
+  }
+
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  // Intents worth asking about: the conflicting pair, or, when confidence is low, whatever was
+  // detected followed by the usual readings
+  let intents: Array<{ type: QueryIntent; confidence: number } | undefined>;
+  if (conflicting) {
+    intents = interpreted.intents
+      .filter(intent => RESULT_SHAPING_INTENTS.includes(intent.type) && first.confidence - intent.confidence <= intentMargin)
+      .map(intent => ({ type: intent.type as QueryIntent, confidence: intent.confidence }));
+  } else if (reasons.includes('low_confidence')) {
+    const detected = interpreted.intents.map(intent => ({ type: intent.type as QueryIntent, confidence: intent.confidence }));
+    intents = [
+      ...detected,
+      ...DEFAULT_INTENTS
+        .filter(type => !detected.some(intent => intent.type === type))
+        .map(type => ({ type, confidence: Math.min(interpreted.confidence, 0.5) }))
+    ];
+  } else {
+    intents = [undefined];
+  }
+  const readings: Array<{ dataType: DataType; noun: string } | undefined> = dataTypes.length > 1 ? dataTypes : [undefined];
+
+  const candidates: ClarificationDraft['candidates'] = [];
+  for (const intent of intents) {
+    for (const reading of readings) {
+      const choice: InterpretationChoice = {
+        ...(intent && { intent: intent.type }),
+        ...(reading && { dataType: reading.dataType })
+      };
+      const interpretation = parser.reinterpret(interpreted, choice);
+      candidates.push({
+        id: '',
+        label: [
+          INTENT_VERBS[interpretation.intents[0]?.type as QueryIntent] || 'list',
+          reading?.noun || nounFor(interpretation.entities.dataType)
+        ].join(' '),
+        choice,
+        confidence: intent?.confidence ?? interpreted.confidence,
+        targetMCPs: interpretation.targetMCPs,
+        interpretation
+      });
+    }
+  }
+
+  // Stable sort keeps the parser's order between equally likely readings
+  const ranked = candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, maxCandidates)
+    .map((candidate, index) => ({ ...candidate, id: `c${index + 1}` }));
+
+  return {
+    reasons,
+    questions: buildQuestions(intents, readings, interpreted),
+    candidates: ranked
+  };
+}
+
+/**
+ * Data types the query names side by side ("user sessions") or as alternatives ("users or
+ * sessions"), in the order they appear, with what to call each. "users and messages"
+ * asks for both, so it is not ambiguous.
+ */
+function ambiguousDataTypes(interpreted: InterpretedQuery): Array<{ dataType: DataType; noun: string }> {
+  const text = interpreted.originalQuery.raw.toLowerCase().trim();
+  const mentions = interpreted.entities.extractedEntities
+    .filter(entity => entity.type === 'dataType' && entity.position.end > entity.position.start)
+    .sort((a, b) => a.position.start - b.position.start);
+
+  for (let i = 0; i + 1 < mentions.length; i++) {
+    const [left, right] = [mentions[i], mentions[i + 1]];
+    const between = text.slice(left.position.end, right.position.start);
+    if (/^\s+$/.test(between)) {
+      // A compound: "user sessions" means either users or the sessions of users
+      return [
+        { dataType: left.value, noun: nounFor(left.value) },
+        { dataType: right.value, noun: text.slice(left.position.start, right.position.end) }
+      ];
+    }
+    if (/^\s+or\s+$/.test(between)) {
+      return [left, right].map(mention => ({
+        dataType: mention.value,
+        noun: text.slice(mention.position.start, mention.position.end)
+      }));
+    }
+  }
+  return [];
+}
+
+function buildQuestions(
+  intents: Array<{ type: QueryIntent } | undefined>,
+  readings: Array<{ noun: string } | undefined>,
+  interpreted: InterpretedQuery
+): string[] {
+  const questions: string[] = [];
+
+  if (readings.length > 1) {
+    questions.push(`Did you mean ${joinAlternatives(readings.map(reading => reading!.noun))}?`);
+  }
+
+  const verbs = intents
+    .filter((intent): intent is { type: QueryIntent } => !!intent)
+    .map(intent => INTENT_VERBS[intent.type] || intent.type);
+  if (verbs.length > 1) {
+    const subject = readings.length > 1
+      ? 'them'
+      : nounFor(interpreted.entities.dataType);
+    questions.push(`Do you want to ${joinAlternatives(verbs)} ${subject}?`);
+  } else if (verbs.length === 1 && questions.length === 0) {
+    const subject = nounFor(interpreted.entities.dataType);
+    questions.push(`Do you want to ${verbs[0]} ${subject}?`);
+  }
+
+  return questions;
+}
+
+function nounFor(dataType: string): string {
+  return DATA_TYPE_NOUNS[dataType as DataType] || dataType;
+}
+
+function joinAlternatives(options: string[]): string {
+  return options.length > 1
+    ? `${options.slice(0, -1).join(', ')} or ${options[options.length - 1]}`
+    : options[0];
+}
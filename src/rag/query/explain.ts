@@ -0,0 +1,177 @@
+/**
+ * RAG₂ Query Explanation
+ * What a query would do - its interpretation, the MCPs and indexes it would touch, the phases the
+ * planner chose and their estimated cost - and, when analyzed, what it actually took
+ */
+
+import {
+  DetectedLanguage,
+  FusionOptions,
+  InterpretedQuery,
+  MCPAssessment,
+  QueryExecutionPlan,
+  QueryFilter,
+  QueryIntentDetails,
+  ResourceRequirements,
+  TemporalContext
+} from '../../types/query.types';
+import { TranslatedQueryExplanation } from './translator';
+
+export interface ExplainOptions {
+  /** Also run the query and report actual timings against the estimates */
+  analyze?: boolean;
+  pageSize?: number;
+  fusion?: FusionOptions;
+}
+
+/**
+ * A registry MCP a planner reference resolved to, and how the query would run on it
+ */
+export interface ExplainedTarget {
+  id: string;
+  name: string;
+  plan: TranslatedQueryExplanation;
+}
+
+export interface ExplainedMCP {
+  /** Planner reference, e.g. 'user-mcp' */
+  mcpId: string;
+  reason: string;
+  assessment?: MCPAssessment;
+  /** Empty when no registered MCP answers to the reference */
+  targets: ExplainedTarget[];
+}
+
+export interface MCPTiming {
+  mcpId: string;
+  durationMs: number;
+  records: number;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Measured execution of one plan phase
+ */
+export interface PhaseTiming {
+  phase: string;
+  durationMs: number;
+  mcps: MCPTiming[];
+}
+
+export interface ExplainedPhase {
+  phase: string;
+  parallel: boolean;
+  mcpIds: string[];
+  dependsOn: string[];
+  estimatedMs: number;
+  /** Set when analyzed */
+  actualMs?: number;
+  mcps?: MCPTiming[];
+}
+
+export interface QueryAnalysis {
+  success: boolean;
+  totalRecords: number;
+  actualMs: number;
+  estimatedMs: number;
+  error?: string;
+}
+
+export interface QueryExplanation {
+  executionId: string;
+  query: string;
+  interpretation: {
+    intents: QueryIntentDetails[];
+    dataType: string;
+    filters: QueryFilter[];
+    temporal?: TemporalContext;
+    confidence: number;
+    language?: DetectedLanguage;
+    aggregation?: string;
+    summary?: string;
+  };
+  mcps: ExplainedMCP[];
+  strategy: 'sequential' | 'parallel' | 'hybrid';
+  phases: ExplainedPhase[];
+  cost: {
+    /** Sum of the phase estimates */
+    estimatedMs: number;
+    /** Strategy estimate from load- and health-adjusted latencies */
+    adjustedMs: number;
+    resources: ResourceRequirements;
+  };
+  optimizations: string[];
+  /** Plans the executor can fall back to, with the condition that triggers each */
+  alternatives: Array<{ condition: string; plan: any }>;
+  analysis?: QueryAnalysis;
+}
+
+/**
+ * Assemble an explanation from a plan, the per-MCP access paths and, if the query was run,
+ * its measured phases
+ */
+export function buildExplanation(
+  interpreted: InterpretedQuery,
+  plan: QueryExecutionPlan,
+  targets: Map<string, ExplainedTarget[]>,
+  analysis?: QueryAnalysis & { phases: PhaseTiming[] }
+): QueryExplanation {
+  const timings = new Map((analysis?.phases || []).map(timing => [timing.phase, timing]));
+  const reasons = interpreted.explanation?.mcpReasons || {};
+
+  return {
+    executionId: plan.executionId,
+    query: interpreted.originalQuery?.raw || '',
+    interpretation: {
+      intents: interpreted.intents,
+      dataType: interpreted.entities.dataType,
+      filters: interpreted.entities.filters,
+      ...(interpreted.entities.temporal && { temporal: interpreted.entities.temporal }),
+      confidence: interpreted.confidence,
+      ...(interpreted.language && { language: interpreted.language }),
+      ...(interpreted.aggregationStrategy && { aggregation: interpreted.aggregationStrategy.type }),
+      ...(interpreted.explanation && { summary: interpreted.explanation.interpretation })
+    },
+    mcps: interpreted.targetMCPs.map(mcpId => {
+      const assessment = plan.assessments?.find(candidate => candidate.mcpId === mcpId);
+      return {
+        mcpId,
+        reason: reasons[mcpId] || 'Chosen by the interpreter',
+        ...(assessment && { assessment }),
+        targets: targets.get(mcpId) || []
+      };
+    }),
+    strategy: plan.strategy?.type || 'sequential',
+    phases: plan.phases.map(phase => {
+      const timing = timings.get(phase.phase);
+      return {
+        phase: phase.phase,
+        parallel: phase.parallelizable,
+        mcpIds: phase.mcpQueries.map(mcpQuery => mcpQuery.mcpId),
+        dependsOn: phase.dependencies,
+        estimatedMs: phase.estimatedDuration,
+        ...(timing && { actualMs: timing.durationMs, mcps: timing.mcps })
+      };
+    }),
+    cost: {
+      estimatedMs: plan.estimatedTime,
+      adjustedMs: plan.strategy?.estimatedTotalTime ?? plan.estimatedTime,
+      resources: plan.resourceRequirements
+    },
+    optimizations: plan.optimizations,
+    alternatives: (plan.fallbacks || []).map(fallback => ({
+      condition: fallback.condition,
+      plan: fallback.alternativePlan
+    })),
+    ...(analysis && {
+      analysis: {
+        success: analysis.success,
+        totalRecords: analysis.totalRecords,
+        actualMs: analysis.actualMs,
+        estimatedMs: analysis.estimatedMs,
+        ...(analysis.error && { error: analysis.error })
+      }
+    })
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * RAG₂ Follow-up Resolution
+ * Reads a conversational follow-up ("now only the admins", "same but last month") as a change
+ * to the previous turn's interpretation instead of as a query of its own
+ *
+ * Follow-ups are too short to parse on their own: they name what changes, not what is being
+ * asked. Each recognized refinement rewrites one part of a copy of the earlier interpretation
+ * (its time range, a field filter or the search text) and leaves the rest as it was.
+ */
+
+import { InterpretedQuery, QueryFilter, TemporalContext } from '../../types/query.types';
+import { resolveTimeExpression, TemporalOptions } from './temporal';
+
+export interface FollowUpResolution {
+  interpretation: InterpretedQuery;
+  /** What the follow-up changed, e.g. "role = admin", "time: last_month" */
+  changes: string[];
+}
+
+// Openers and references that tie a query to the one before it
+const FOLLOW_UP_CUES = /^(?:now|only|just|and|but|also|same|instead|then|what about|how about|ok(?:ay)?|of (?:those|them|these))\b/;
+const REFERENCES = /\b(?:same|those|them|these|ones|they)\b/;
+
+const TEMPORAL_PHRASES: Array<[RegExp, TemporalContext]> = [
+  [/\b(?:last|past|previous|this) month\b/, TemporalContext.LAST_MONTH],
+  [/\b(?:last|past|previous|this) week\b/, TemporalContext.LAST_WEEK],
+  [/\byesterday\b/, TemporalContext.YESTERDAY],
+  [/\btoday\b/, TemporalContext.TODAY],
+  [/\b(?:recent(?:ly)?|lately)\b/, TemporalContext.RECENT]
+];
+
+// Fields a time refinement replaces
+const TIME_FIELDS = new Set(['dateRange', 'timestamp', 'temporal', 'since', 'hoursAgo', 'daysAgo', 'specificDate']);
+const SEARCH_FIELDS = new Set(['searchText', 'text', 'content', 'keyword', 'query']);
+
+const ROLE_WORDS: Record<string, string> = {
+  admin: 'admin', admins: 'admin', administrator: 'admin', administrators: 'admin',
+  moderator: 'moderator', moderators: 'moderator', owner: 'owner', owners: 'owner',
+  editor: 'editor', editors: 'editor', viewer: 'viewer', viewers: 'viewer',
+  guest: 'guest', guests: 'guest', member: 'member', members: 'member'
+};
+const STATUS_WORDS = ['active', 'inactive', 'suspended', 'pending', 'online', 'offline', 'disabled', 'enabled'];
+
+export function isFollowUp(text: string): boolean {
+  const normalized = text.toLowerCase().trim();
+  return FOLLOW_UP_CUES.test(normalized) || REFERENCES.test(normalized);
+}
+
+/**
+ * The previous interpretation with the follow-up's refinements applied, or null when the text
+ * is not a follow-up or asks for nothing this resolver understands. Times are read in
+ * `options.timeZone`, which the refined interpretation carries from then on.
+ */
+export function resolveFollowUp(text: string, previous: InterpretedQuery, options: TemporalOptions = {}): FollowUpResolution | null {
+  const normalized = text.toLowerCase().trim();
+  if (!isFollowUp(normalized)) return null;
+
+  const now = options.now ?? Date.now();
+  const interpretation: InterpretedQuery = JSON.parse(JSON.stringify(previous));
+  interpretation.entities.filters = interpretation.entities.filters || [];
+  if (options.timeZone) {
+    interpretation.originalQuery = {
+      ...interpretation.originalQuery,
+      context: { ...interpretation.originalQuery?.context, timeZone: options.timeZone }
+    };
+  }
+  const changes: string[] = [];
+
+  applyTimeRefinement(normalized, interpretation, changes, { now, timeZone: options.timeZone });
+  // Values keep the case they were written in
+  applyFieldRefinements(text.trim(), interpretation, changes);
+  applySearchRefinement(text.trim(), interpretation, changes);
+
+  if (changes.length === 0) return null;
+
+  interpretation.executionPlan = {
+    ...interpretation.executionPlan,
+    executionId: `exec_${now}_${Math.random().toString(36).slice(2, 11)}`
+  };
+  if (interpretation.explanation) {
+    interpretation.explanation = {
+      ...interpretation.explanation,
+      interpretation: `${interpretation.explanation.interpretation} (refined: ${changes.join(', ')})`
+    };
+  }
+  return { interpretation, changes };
+}
+
+function applyTimeRefinement(text: string, interpretation: InterpretedQuery, changes: string[], reckoning: TemporalOptions): void {
+  const entities = interpretation.entities;
+  const dropTimeFilters = () => {
+    entities.filters = entities.filters.filter(filter => !TIME_FIELDS.has(filter.field));
+    delete entities.temporal;
+  };
+
+  const range = resolveTimeExpression(text, reckoning);
+  if (range) {
+    dropTimeFilters();
+    entities.filters.push({ field: 'dateRange', operator: 'between', value: { start: range.start, end: range.end } });
+    changes.push(`time: ${range.expression}`);
+    return;
+  }
+
+  if (/\b(?:all time|any time|ever)\b/.test(text)) {
+    dropTimeFilters();
+    changes.push('time: any');
+    return;
+  }
+
+  const phrase = TEMPORAL_PHRASES.find(([pattern]) => pattern.test(text));
+  if (phrase) {
+    dropTimeFilters();
+    entities.temporal = phrase[1];
+    changes.push(`time: ${phrase[1]}`);
+  }
+}
+
+function applyFieldRefinements(text: string, interpretation: InterpretedQuery, changes: string[]): void {
+  const restriction = text.match(/\b(?:only|just)\s+(?:the\s+)?([a-z]+)\b/i);
+  if (restriction) {
+    const word = restriction[1].toLowerCase();
+    if (ROLE_WORDS[word]) {
+      setFilter(interpretation, { field: 'role', operator: 'eq', value: ROLE_WORDS[word] }, changes);
+    } else if (STATUS_WORDS.includes(word)) {
+      setFilter(interpretation, { field: 'status', operator: 'eq', value: word }, changes);
+    }
+  }
+
+  const where = text.match(/\bwhere\s+([a-z_][\w.]*)\s+(?:is|=|equals)\s+("[^"]*"|[^\s,]+)/i);
+  if (where) {
+    setFilter(interpretation, { field: where[1], operator: 'eq', value: coerce(where[2]) }, changes);
+  }
+}
+
+function applySearchRefinement(text: string, interpretation: InterpretedQuery, changes: string[]): void {
+  const search = text.match(/\b(?:about|mentioning|containing)\s+("[^"]+"|[^\s,?!.]+)/i);
+  if (!search) return;
+
+  const value = search[1].replace(/^"|"$/g, '');
+  interpretation.entities.filters = interpretation.entities.filters
+    .filter(filter => !SEARCH_FIELDS.has(filter.field) && filter.field !== 'project');
+  interpretation.entities.filters.push({ field: 'searchText', operator: 'contains', value });
+  changes.push(`search: ${value}`);
+}
+
+// A refinement replaces any earlier condition on the same field
+function setFilter(interpretation: InterpretedQuery, filter: QueryFilter, changes: string[]): void {
+  interpretation.entities.filters = interpretation.entities.filters.filter(existing => existing.field !== filter.field);
+  interpretation.entities.filters.push(filter);
+  changes.push(`${filter.field} = ${filter.value}`);
+}
+
+function coerce(value: string): any {
+  if (value.startsWith('"')) return value.slice(1, -1);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
@@ -0,0 +1,131 @@
+/**
+ * RAG₂ Retrieval Fusion
+ * Combines ranked candidates from full-text, vector and structured retrievers across MCPs
+ *
+ * Each retriever produces its own ranked list per MCP. Fusion merges the lists into one ranking,
+ * keeping for every hit where it was found, and an optional re-ranker reorders the top of it.
+ */
+
+import { FusionOptions, HitProvenance, RetrieverKind } from '../../types/query.types';
+import { analyze, extractText } from '../../core/mcp/text_analysis';
+
+export const DEFAULT_RRF_K = 60;
+export const DEFAULT_RERANK_DEPTH = 50;
+
+export interface RankedCandidate {
+  record: any;
+  /** Retriever score; candidates without one count as 1, a plain filter match */
+  score?: number;
+  highlights?: string[];
+}
+
+/**
+ * One retriever's candidates from one MCP, best first
+ */
+export interface RetrievalList {
+  mcpId: string;
+  retriever: RetrieverKind;
+  candidates: RankedCandidate[];
+}
+
+export interface FusedHit {
+  key: string;
+  record: any;
+  score: number;
+  provenance: HitProvenance[];
+  highlights?: string[];
+}
+
+/**
+ * Reorders fused hits, e.g. with a cross-encoder. Receives the top hits best first and returns
+ * them in the new order, with scores on whatever scale it likes.
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, hits: FusedHit[]): Promise<FusedHit[]>;
+}
+
+/**
+ * Merge ranked lists into one ranking. The same record found by several retrievers or MCPs
+ * becomes one hit whose score sums its contributions.
+ */
+export function fuseRetrievals(lists: RetrievalList[], options: FusionOptions = {}): FusedHit[] {
+  const method = options.method ?? 'rrf';
+  const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+  const hits = new Map<string, FusedHit>();
+
+  for (const list of lists) {
+    const weight = options.weights?.[list.retriever] ?? 1;
+    if (weight === 0 || list.candidates.length === 0) continue;
+
+    const scores = list.candidates.map(candidate => candidate.score ?? 1);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+
+    list.candidates.forEach((candidate, index) => {
+      const key = recordKey(candidate.record);
+      let hit = hits.get(key);
+      if (!hit) {
+        hit = { key, record: candidate.record, score: 0, provenance: [] };
+        hits.set(key, hit);
+      }
+
+      // RRF only looks at rank, so scores on different scales never need reconciling
+      hit.score += method === 'rrf'
+        ? weight / (rrfK + index + 1)
+        : weight * (range > 0 ? (scores[index] - min) / range : 1);
+      hit.provenance.push({ mcpId: list.mcpId, retriever: list.retriever, rank: index + 1, score: scores[index] });
+      if (candidate.highlights?.length && !hit.highlights) {
+        hit.highlights = candidate.highlights;
+      }
+    });
+  }
+
+  return Array.from(hits.values())
+    .sort((a, b) => b.score - a.score || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+/**
+ * Let the re-ranker reorder the top `depth` hits; the rest keep their fused order behind them
+ */
+export async function rerankHits(reranker: Reranker, query: string, hits: FusedHit[], depth = DEFAULT_RERANK_DEPTH): Promise<FusedHit[]> {
+  if (depth <= 0 || hits.length === 0) return hits;
+  const head = await reranker.rerank(query, hits.slice(0, depth));
+  return [...head, ...hits.slice(depth)];
+}
+
+/**
+ * Re-ranker that needs no model: blends each hit's fused score with the share of query terms
+ * its text contains, so hits that cover the whole question move up
+ */
+export class TermCoverageReranker implements Reranker {
+  readonly name = 'term-coverage';
+
+  /** @param coverageWeight share of the new score that comes from term coverage, 0-1 */
+  constructor(private readonly coverageWeight = 0.5) {}
+
+  async rerank(query: string, hits: FusedHit[]): Promise<FusedHit[]> {
+    const queryTerms = new Set(analyze(query));
+    const topScore = Math.max(...hits.map(hit => hit.score)) || 1;
+
+    return hits
+      .map(hit => {
+        const text = new Set(analyze(extractText(hit.record)));
+        let covered = 0;
+        queryTerms.forEach(term => { if (text.has(term)) covered++; });
+        const coverage = queryTerms.size > 0 ? covered / queryTerms.size : 0;
+        return {
+          ...hit,
+          score: (1 - this.coverageWeight) * (hit.score / topScore) + this.coverageWeight * coverage
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+function recordKey(record: any): string {
+  if (record && typeof record === 'object' && record.id !== undefined) {
+    return String(record.id);
+  }
+  return JSON.stringify(record);
+}
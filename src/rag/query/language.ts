@@ -0,0 +1,246 @@
+/**
+ * RAG₂ Query Languages
+ * Per-language pattern packs - intents, data types, time phrases, number and date formats - and
+ * detection of the language a query is written in. The built-in packs live in ./languages; more
+ * can be loaded from a directory of JSON files with the same shape.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DataType, DetectedLanguage, QueryIntent, TemporalContext } from '../../types/query.types';
+import { english } from './languages/en';
+import { spanish } from './languages/es';
+import { german } from './languages/de';
+import { french } from './languages/fr';
+
+/**
+ * A language pack, as written in a *.json pack file. Patterns are regular expression sources
+ * matched against the lowercased query with the 'u' flag.
+ */
+export interface LanguagePack {
+  /** ISO 639-1 code, e.g. 'de' */
+  language: string;
+  name: string;
+  /** Words that make a query recognizable, and that identify the language */
+  vocabulary: string[];
+  intents: Partial<Record<QueryIntent, string[]>>;
+  dataTypes: Partial<Record<DataType, string[]>>;
+  temporal: Partial<Record<TemporalContext, string[]>>;
+  numberFormat: { decimal: string; thousands: string };
+  /** Date layouts built from DD, MM and YYYY, e.g. 'DD.MM.YYYY' */
+  dateFormats: string[];
+}
+
+export interface CompiledLanguagePack {
+  language: string;
+  name: string;
+  vocabulary: Set<string>;
+  intentPatterns: Map<QueryIntent, RegExp[]>;
+  dataTypePatterns: Map<DataType, RegExp[]>;
+  temporalPatterns: Map<TemporalContext, RegExp[]>;
+  numberPattern: RegExp;
+  datePatterns: Array<{ pattern: RegExp; order: Array<'day' | 'month' | 'year'> }>;
+}
+
+export class LanguagePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LanguagePackError';
+  }
+}
+
+/** Used when a query's language cannot be told, or has no pack */
+export const DEFAULT_LANGUAGE = 'en';
+
+const BUILT_IN_PACKS: LanguagePack[] = [english, spanish, german, french];
+
+export class LanguageRegistry {
+  private packs: Map<string, CompiledLanguagePack> = new Map();
+
+  constructor(packs: LanguagePack[] = BUILT_IN_PACKS) {
+    packs.forEach(pack => this.register(pack));
+  }
+
+  /**
+   * Add a pack, replacing any pack for the same language. Throws LanguagePackError when the
+   * pack is malformed or one of its patterns does not compile.
+   */
+  register(pack: LanguagePack): void {
+    this.packs.set(pack.language, compilePack(pack));
+  }
+
+  /**
+   * Register every *.json pack in a directory; returns the languages loaded
+   */
+  async loadDirectory(directory: string): Promise<string[]> {
+    const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+    const loaded: string[] = [];
+    for (const file of files) {
+      let pack: LanguagePack;
+      try {
+        pack = JSON.parse(await fs.readFile(path.join(directory, file), 'utf8'));
+      } catch (error) {
+        throw new LanguagePackError(`Invalid language pack ${file}: ${(error as Error).message}`);
+      }
+      try {
+        this.register(pack);
+      } catch (error) {
+        throw new LanguagePackError(`Invalid language pack ${file}: ${(error as Error).message}`);
+      }
+      loaded.push(pack.language);
+    }
+    return loaded;
+  }
+
+  get(language?: string): CompiledLanguagePack {
+    return (language && this.packs.get(language)) || this.packs.get(DEFAULT_LANGUAGE)!;
+  }
+
+  languages(): string[] {
+    return Array.from(this.packs.keys());
+  }
+
+  /**
+   * The language a query is written in. Each pack scores one point per vocabulary word and per
+   * intent, data type and time phrase it recognizes, and ties go to the earlier pack. A
+   * requested language (e.g. 'de-AT') wins unless its pack recognizes nothing in a query another
+   * pack does. When nothing is recognized, or the requested language has no pack, the best guess
+   * is marked as a fallback.
+   */
+  detect(text: string, requested?: string): DetectedLanguage {
+    const requestedCode = requested?.toLowerCase().split(/[-_]/)[0];
+    const lower = text.toLowerCase();
+    const words = lower.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const scores = Array.from(this.packs.values()).map(pack => ({ pack, score: scorePack(pack, lower, words) }));
+    const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+    const best = scores.reduce((top, entry) => entry.score > top.score ? entry : top, scores[0]);
+
+    const chosen = scores.find(entry => entry.pack.language === requestedCode);
+    if (chosen && (chosen.score > 0 || !best || best.score === 0)) {
+      return { code: chosen.pack.language, name: chosen.pack.name, confidence: 1 };
+    }
+
+    if (!best || best.score === 0) {
+      const fallback = this.get(DEFAULT_LANGUAGE);
+      return { code: fallback.language, name: fallback.name, confidence: 0, fallback: true, ...(requestedCode && { requested: requestedCode }) };
+    }
+    return {
+      code: best.pack.language,
+      name: best.pack.name,
+      confidence: Math.round((best.score / total) * 100) / 100,
+      ...(requestedCode && { ...(!chosen && { fallback: true }), requested: requestedCode })
+    };
+  }
+
+  /**
+   * Rewrite localized dates as YYYY-MM-DD and localized numbers with '.' decimals and no
+   * thousands separators, so the rest of the parser sees one format
+   */
+  canonicalize(text: string, pack: CompiledLanguagePack): string {
+    let result = text;
+    for (const { pattern, order } of pack.datePatterns) {
+      result = result.replace(pattern, (match, ...groups: string[]) => {
+        const parts: Record<string, number> = {};
+        order.forEach((part, index) => { parts[part] = parseInt(groups[index], 10); });
+        if (parts.month < 1 || parts.month > 12 || parts.day < 1 || parts.day > 31) {
+          return match;
+        }
+        return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+      });
+    }
+    return result.replace(pack.numberPattern, (match, integer: string, fraction?: string) => {
+      const digits = integer.replace(/\D/g, '');
+      return fraction !== undefined ? `${digits}.${fraction}` : digits;
+    });
+  }
+
+  /**
+   * Whether any of a pack's intent, data type or time patterns matches
+   */
+  recognizes(pack: CompiledLanguagePack, text: string): boolean {
+    return [pack.intentPatterns, pack.dataTypePatterns, pack.temporalPatterns]
+      .some(patterns => Array.from(patterns.values()).some(list => list.some(pattern => pattern.test(text))));
+  }
+}
+
+function scorePack(pack: CompiledLanguagePack, text: string, words: string[]): number {
+  const vocabularyHits = words.filter(word => pack.vocabulary.has(word)).length;
+  const patternHits = [pack.intentPatterns, pack.dataTypePatterns, pack.temporalPatterns]
+    .flatMap(patterns => Array.from(patterns.values()))
+    .filter(list => list.some(pattern => pattern.test(text)))
+    .length;
+  return vocabularyHits + patternHits;
+}
+
+function compilePack(pack: LanguagePack): CompiledLanguagePack {
+  if (!pack || typeof pack.language !== 'string' || !/^[a-z]{2,3}$/.test(pack.language)) {
+    throw new LanguagePackError('language must be an ISO 639 code such as "de"');
+  }
+  for (const field of ['intents', 'dataTypes', 'temporal', 'numberFormat'] as const) {
+    if (!pack[field] || typeof pack[field] !== 'object') {
+      throw new LanguagePackError(`${pack.language}: ${field} is required`);
+    }
+  }
+
+  const decimal = pack.numberFormat.decimal;
+  const thousands = pack.numberFormat.thousands;
+  if (!decimal || decimal === thousands) {
+    throw new LanguagePackError(`${pack.language}: numberFormat needs distinct decimal and thousands separators`);
+  }
+
+  return {
+    language: pack.language,
+    name: pack.name || pack.language,
+    vocabulary: new Set((pack.vocabulary || []).map(word => word.toLowerCase())),
+    intentPatterns: compilePatterns(pack.language, pack.intents, Object.values(QueryIntent)),
+    dataTypePatterns: compilePatterns(pack.language, pack.dataTypes, Object.values(DataType)),
+    temporalPatterns: compilePatterns(pack.language, pack.temporal, Object.values(TemporalContext)),
+    // Digits in groups of three when there is a thousands separator, then an optional fraction;
+    // digits after another digit, alone or with a separator, belong to a longer token
+    numberPattern: new RegExp(
+      `(?<!\\d|\\d${escape(decimal)}|\\d${escape(thousands)})` +
+      `(\\d{1,3}(?:${escape(thousands)}\\d{3})+|\\d+)(?:${escape(decimal)}(\\d+))?(?!\\d)`,
+      'gu'
+    ),
+    datePatterns: (pack.dateFormats || []).map(format => compileDateFormat(pack.language, format))
+  };
+}
+
+function compilePatterns<K extends string>(language: string, sources: Partial<Record<K, string[]>>, known: string[]): Map<K, RegExp[]> {
+  const compiled = new Map<K, RegExp[]>();
+  for (const [key, list] of Object.entries(sources) as Array<[K, string[]]>) {
+    if (!known.includes(key)) {
+      throw new LanguagePackError(`${language}: unknown category "${key}"`);
+    }
+    compiled.set(key, list.map(source => {
+      try {
+        return new RegExp(source, 'u');
+      } catch (error) {
+        throw new LanguagePackError(`${language}: invalid pattern for "${key}": ${(error as Error).message}`);
+      }
+    }));
+  }
+  return compiled;
+}
+
+function compileDateFormat(language: string, format: string): CompiledLanguagePack['datePatterns'][number] {
+  const order: Array<'day' | 'month' | 'year'> = [];
+  const source = format.split(/(DD|MM|YYYY)/).map(part => {
+    switch (part) {
+      case 'DD': order.push('day'); return '(\\d{1,2})';
+      case 'MM': order.push('month'); return '(\\d{1,2})';
+      case 'YYYY': order.push('year'); return '(\\d{4})';
+      default: return escape(part);
+    }
+  }).join('');
+
+  if (order.length !== 3 || new Set(order).size !== 3) {
+    throw new LanguagePackError(`${language}: date format "${format}" needs DD, MM and YYYY once each`);
+  }
+  return { pattern: new RegExp(`(?<!\\d)${source}(?!\\d)`, 'gu'), order };
+}
+
+// Unicode-mode patterns reject escapes of characters that need none, such as '-'
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,46 @@
+/**
+ * German query language pack
+ */
+
+import { LanguagePack } from '../language';
+
+export const german: LanguagePack = {
+  language: 'de',
+  name: 'Deutsch',
+  vocabulary: [
+    'zeige', 'zeig', 'hole', 'finde', 'suche', 'liste', 'zähle', 'anzahl', 'wie', 'viele', 'benutzer',
+    'nutzer', 'nachricht', 'nachrichten', 'protokolle', 'dateien', 'statistiken', 'sitzungen', 'tokens',
+    'daten', 'aktivität', 'analysiere', 'neueste', 'heute', 'gestern', 'alle', 'der', 'die', 'das',
+    'den', 'dem', 'und', 'oder', 'von', 'mit', 'für', 'aus', 'letzte', 'letzten', 'woche', 'monat',
+    'fehler', 'mir'
+  ],
+  intents: {
+    retrieve: ['(?:zeige?|zeig\\s+mir|hole|hol|finde|liste|gib\\s+mir|abrufen)\\s+', '(?<!\\p{L})(?:welche[rsnm]?|was)\\s+'],
+    filter: ['(?<!\\p{L})(?:wo|wobei|mit|enthaltend)\\s+', '(?:filtere?|filtern)\\s+.*(?:nach|für)\\s+'],
+    aggregate: ['(?:summe|gesamt|durchschnitt|mittelwert)\\s+', '(?:gruppiere?n?\\s+nach|zusammenfassen|fasse\\s+zusammen|aggregiere)\\s+'],
+    count: ['(?:zähle|zählen|anzahl|wie\\s+viele)\\s+'],
+    search: ['(?:suche|suchen|finde)\\s+', '(?:enthält|enthalten|beinhaltet)\\s+'],
+    analyze: ['(?:analysiere|analysieren|analyse)\\s+', '(?:trends?|muster|verhalten)\\s+'],
+    compare: ['(?:vergleiche|vergleichen|gegenüber|vs|unterschied)\\s+', '(?<!\\p{L})(?:zwischen|gegen)\\s+'],
+    update: ['(?:aktualisiere|aktualisieren|ändere|ändern|bearbeite)\\s+'],
+    delete: ['(?:lösche|löschen|entferne|entfernen)\\s+']
+  },
+  dataTypes: {
+    users: ['benutzer', 'nutzer', 'konten', 'konto', 'profile?'],
+    messages: ['nachrichten', 'nachricht', 'chats?', 'unterhaltungen'],
+    stats: ['statistik(?:en)?', 'metriken', 'kennzahlen'],
+    logs: ['protokolle?', 'logs?', 'ereignisse', 'verlauf'],
+    tokens: ['tokens?', 'sitzung(?:en)?', 'anmeldung(?:en)?'],
+    files: ['dateien', 'datei', 'dokumente?', 'uploads?']
+  },
+  temporal: {
+    today: ['(?<!\\p{L})heute(?!\\p{L})'],
+    yesterday: ['(?<!\\p{L})gestern(?!\\p{L})'],
+    last_week: ['letzte[rn]?\\s+woche', 'vergangene[rn]?\\s+woche', 'diese[rn]?\\s+woche'],
+    last_month: ['letzte[nm]?\\s+monat', 'vergangene[nm]?\\s+monat', 'diese[nm]?\\s+monat'],
+    recent: ['kürzlich', 'neueste[nrs]?', 'aktuelle[nrs]?', '(?<!\\p{L})jetzt(?!\\p{L})', 'letzte[nr]?\\s+\\d+\\s+stunden?'],
+    historical: ['historische[nrs]?', 'archiviert(?:e[nrs]?)?', '(?<!\\p{L})alte[nrs]?(?!\\p{L})']
+  },
+  numberFormat: { decimal: ',', thousands: '.' },
+  dateFormats: ['DD.MM.YYYY']
+};
@@ -0,0 +1,44 @@
+/**
+ * English query language pack
+ */
+
+import { LanguagePack } from '../language';
+
+export const english: LanguagePack = {
+  language: 'en',
+  name: 'English',
+  vocabulary: [
+    'get', 'show', 'find', 'search', 'count', 'user', 'users', 'message', 'messages', 'stats', 'logs',
+    'data', 'token', 'activity', 'analyze', 'recent', 'today', 'yesterday', 'all', 'file', 'files',
+    'admin', 'error', 'from', 'to', 'with', 'in', 'and', 'or', 'of', 'for', 'containing', 'contains'
+  ],
+  intents: {
+    retrieve: ['(?:get|show|find|fetch|retrieve|display)\\s+', '(?:list|view)\\s+', '(?:what|which)\\s+'],
+    filter: ['(?:where|with|having|containing)\\s+', '(?:filter|search)\\s+.*(?:by|for)\\s+'],
+    aggregate: ['(?:sum|total|average|avg|mean)\\s+', '(?:group\\s+by|summarize|aggregate)\\s+'],
+    count: ['\\bcount\\b', '(?:count|number\\s+of|how\\s+many)\\s+', '(?:total\\s+number)\\s+'],
+    search: ['(?:search|find|look\\s+for)\\s+', '(?:contains|includes|has)\\s+'],
+    analyze: ['(?:analyze|analysis|insights)\\s+', '(?:trend|pattern|behavior)\\s+'],
+    compare: ['(?:compare|versus|vs|difference)\\s+', '(?:between|against)\\s+'],
+    update: ['(?:update|modify|change|edit)\\s+', '(?:set|assign)\\s+'],
+    delete: ['(?:delete|remove|drop)\\s+', '(?:clear|purge)\\s+']
+  },
+  dataTypes: {
+    users: ['users?', 'accounts?', 'profiles?'],
+    messages: ['messages?', 'chats?', 'conversations?'],
+    stats: ['stats?', 'statistics', 'metrics?'],
+    logs: ['logs?', 'events?', 'history'],
+    tokens: ['tokens?', 'auth', 'sessions?'],
+    files: ['files?', 'documents?', 'uploads?']
+  },
+  temporal: {
+    today: ['today', 'this\\s+day'],
+    yesterday: ['yesterday', 'last\\s+day'],
+    last_week: ['last\\s+week', 'past\\s+week', 'this\\s+week'],
+    last_month: ['last\\s+month', 'past\\s+month', 'this\\s+month'],
+    recent: ['recent', 'lately', 'now', 'current', 'last\\s+\\d+\\s+hours?', 'past\\s+\\d+\\s+hours?'],
+    historical: ['historical', 'archive', 'old', 'past']
+  },
+  numberFormat: { decimal: '.', thousands: ',' },
+  dateFormats: ['MM/DD/YYYY']
+};
@@ -0,0 +1,46 @@
+/**
+ * Spanish query language pack
+ */
+
+import { LanguagePack } from '../language';
+
+export const spanish: LanguagePack = {
+  language: 'es',
+  name: 'Español',
+  vocabulary: [
+    'muestra', 'muéstrame', 'mostrar', 'dame', 'obtener', 'obtén', 'busca', 'buscar', 'encuentra', 'lista',
+    'listar', 'cuenta', 'contar', 'cuántos', 'cuántas', 'usuario', 'usuarios', 'mensaje', 'mensajes',
+    'registros', 'archivos', 'estadísticas', 'sesiones', 'tokens', 'datos', 'actividad', 'analiza',
+    'recientes', 'hoy', 'ayer', 'todos', 'todas', 'los', 'las', 'del', 'con', 'para', 'por', 'que',
+    'semana', 'pasada', 'mes', 'pasado', 'error', 'errores', 'últimos', 'últimas'
+  ],
+  intents: {
+    retrieve: ['(?:muestra|muéstrame|mostrar|enséñame|obtén|obtener|dame|trae|encuentra|lista|listar)\\s+', '(?<!\\p{L})(?:qué|cuáles?|ver)\\s+'],
+    filter: ['(?<!\\p{L})(?:donde|con|que\\s+tengan?|que\\s+contengan?)\\s+', '(?:filtra|filtrar)\\s+.*(?:por|para)\\s+'],
+    aggregate: ['(?:suma|sumar|total|promedio|media)\\s+', '(?:agrupa(?:r)?\\s+por|resume|resumir|agrega(?:r)?)\\s+'],
+    count: ['(?<!\\p{L})(?:cuenta|contar|cuántos|cuántas|número\\s+de)\\s+'],
+    search: ['(?:busca|buscar|encuentra)\\s+', '(?:contiene|contienen|incluye)\\s+'],
+    analyze: ['(?:analiza|analizar|análisis)\\s+', '(?:tendencias?|patrones|comportamiento)\\s+'],
+    compare: ['(?:compara|comparar|versus|vs|diferencia)\\s+', '(?<!\\p{L})(?:entre|contra)\\s+'],
+    update: ['(?:actualiza|actualizar|modifica|modificar|cambia|cambiar)\\s+'],
+    delete: ['(?:elimina|eliminar|borra|borrar|quita)\\s+']
+  },
+  dataTypes: {
+    users: ['usuari[oa]s?', '(?<!\\p{L})cuentas(?!\\p{L})', 'perfil(?:es)?'],
+    messages: ['mensajes?', 'chats?', 'conversaci(?:ón|ones)'],
+    stats: ['estadísticas?', 'métricas?', 'stats?'],
+    logs: ['registros?', 'logs?', 'eventos?', 'historial'],
+    tokens: ['tokens?', 'sesi(?:ón|ones)', 'autenticaci(?:ón|ones)'],
+    files: ['archivos?', 'ficheros?', 'documentos?']
+  },
+  temporal: {
+    today: ['(?<!\\p{L})hoy(?!\\p{L})'],
+    yesterday: ['(?<!\\p{L})ayer(?!\\p{L})'],
+    last_week: ['semana\\s+pasada', 'última\\s+semana', 'esta\\s+semana'],
+    last_month: ['mes\\s+pasado', 'último\\s+mes', 'este\\s+mes'],
+    recent: ['recientes?', 'últimamente', '(?<!\\p{L})ahora(?!\\p{L})', 'últimas\\s+\\d+\\s+horas?'],
+    historical: ['históric[oa]s?', 'archivad[oa]s?', 'antigu[oa]s?']
+  },
+  numberFormat: { decimal: ',', thousands: '.' },
+  dateFormats: ['DD/MM/YYYY', 'DD-MM-YYYY']
+};
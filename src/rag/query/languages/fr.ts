@@ -0,0 +1,46 @@
+/**
+ * French query language pack
+ */
+
+import { LanguagePack } from '../language';
+
+export const french: LanguagePack = {
+  language: 'fr',
+  name: 'Français',
+  vocabulary: [
+    'montre', 'montrez', 'affiche', 'afficher', 'donne', 'trouve', 'cherche', 'recherche', 'liste',
+    'compte', 'compter', 'combien', 'nombre', 'utilisateur', 'utilisateurs', 'message', 'messages',
+    'journaux', 'fichiers', 'statistiques', 'sessions', 'jetons', 'données', 'activité', 'analyse',
+    'récents', 'aujourd', 'hier', 'tous', 'toutes', 'les', 'des', 'pour', 'avec', 'dernière',
+    'dernier', 'semaine', 'mois', 'erreur', 'erreurs', 'moi'
+  ],
+  intents: {
+    retrieve: ['(?:montre|montrez|affiche|afficher|donne|obtenir|récupère|trouve|liste|lister)(?:-moi)?\\s+', '(?<!\\p{L})(?:quels?|quelles?|voir)\\s+'],
+    filter: ['(?<!\\p{L})(?:où|avec|ayant|contenant)\\s+', '(?:filtre|filtrer)\\s+.*(?:par|pour)\\s+'],
+    aggregate: ['(?:somme|total|moyenne)\\s+', '(?:groupe(?:r)?\\s+par|résume|résumer|agrège|agréger)\\s+'],
+    count: ['(?<!\\p{L})(?:compte|compter|combien\\s+de|combien\\s+d\'|nombre\\s+de)\\s*'],
+    search: ['(?:cherche|chercher|recherche|rechercher|trouve)\\s+', '(?:contient|contiennent|inclut)\\s+'],
+    analyze: ['(?:analyse|analyser)\\s+', '(?:tendances?|modèles|comportement)\\s+'],
+    compare: ['(?:compare|comparer|versus|vs|différence)\\s+', '(?<!\\p{L})(?:entre|contre)\\s+'],
+    update: ['(?:mets?\\s+à\\s+jour|mettre\\s+à\\s+jour|modifie|modifier|change|changer)\\s+'],
+    delete: ['(?:supprime|supprimer|efface|effacer|retire)\\s+']
+  },
+  dataTypes: {
+    users: ['utilisat(?:eur|rice)s?', '(?<!\\p{L})comptes(?!\\p{L})', 'profils?'],
+    messages: ['messages?', 'chats?', 'conversations?'],
+    stats: ['statistiques?', 'métriques?', 'stats?'],
+    logs: ['journaux', 'journal', 'logs?', 'événements?', 'historique'],
+    tokens: ['jetons?', 'tokens?', 'sessions?'],
+    files: ['fichiers?', 'documents?', 'téléversements?']
+  },
+  temporal: {
+    today: ['aujourd[\'’]hui'],
+    yesterday: ['(?<!\\p{L})hier(?!\\p{L})'],
+    last_week: ['semaine\\s+dernière', 'dernière\\s+semaine', 'cette\\s+semaine'],
+    last_month: ['mois\\s+dernier', 'dernier\\s+mois', 'ce\\s+mois'],
+    recent: ['récent(?:e)?s?', 'récemment', 'maintenant', 'actuel(?:le)?s?', 'dernières\\s+\\d+\\s+heures?'],
+    historical: ['historiques?', 'archivé(?:e)?s?', 'ancien(?:ne)?s?']
+  },
+  numberFormat: { decimal: ',', thousands: ' ' },
+  dateFormats: ['DD/MM/YYYY', 'DD-MM-YYYY']
+};
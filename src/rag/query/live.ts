@@ -0,0 +1,519 @@
+/**
+ * RAG₂ Live Queries
+ * Subscriptions that keep a query's result current: the subscriber gets the matching records
+ * once, then add/update/remove changes as records are stored, deleted or expire in any MCP
+ *
+ * Changes are numbered per subscription and held until the subscriber acknowledges them, so a
+ * slow subscriber never has more than one update in flight and a reconnecting one can resume
+ * after the last update it applied. A subscription that falls too far behind is reset: its
+ * pending changes are dropped and the next update carries the whole current result instead.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { DataRecord } from '../../types/mcp.types';
+import { StructuredQuery } from '../../types/query.types';
+import { BaseMCP } from '../../core/mcp/base_mcp';
+import { decodeCursor, encodeCursor, queryFingerprint, InvalidCursorError } from '../../core/mcp/pagination';
+import { MCPRegistry } from '../../mcp/registry/MCPRegistry';
+import { RAG2Controller } from './rag2';
+import { RecordMatcher } from './translator';
+
+export interface LiveQueryConfig {
+  /** Unacknowledged changes held per subscription before it is reset (default 1000) */
+  maxPendingChanges: number;
+  /** Changes sent in one update (default 100) */
+  maxBatchSize: number;
+  /** How long a detached subscription can still be resumed (default 2 minutes) */
+  resumeWindowMs: number;
+  /** How often detached subscriptions past their window are dropped (default 30 seconds) */
+  sweepIntervalMs: number;
+}
+
+export interface LiveRecord {
+  mcpId: string;
+  record: DataRecord;
+}
+
+export interface LiveChange {
+  type: 'add' | 'update' | 'remove';
+  mcpId: string;
+  recordId: string;
+  /** The record as it is now; absent on remove */
+  record?: DataRecord;
+}
+
+export interface LiveQueryUpdate {
+  subscriptionId: string;
+  /** 'changes' applies to the subscriber's result; 'reset' replaces it with `records` */
+  kind: 'changes' | 'reset';
+  changes?: LiveChange[];
+  records?: LiveRecord[];
+  /** Sequence number of the last change included */
+  seq: number;
+  /** Hand back when reconnecting to continue after this update */
+  resumeToken: string;
+}
+
+/**
+ * Delivers an update; nothing more is sent to the subscription until the returned promise
+ * settles, and a rejected update is sent again
+ */
+export type LiveQuerySink = (update: LiveQueryUpdate) => Promise<void> | void;
+
+export interface LiveQueryRequest {
+  /** Natural language or structured query; ignored when a resume token picks up a subscription */
+  query: string | StructuredQuery;
+  context?: any;
+  userId?: string;
+  resumeToken?: string;
+}
+
+export interface LiveQuerySubscription {
+  subscriptionId: string;
+  /** Whether a resume token picked up an existing subscription; missed changes follow as updates */
+  resumed: boolean;
+  /** Current result of a new subscription */
+  records?: LiveRecord[];
+  seq: number;
+  resumeToken: string;
+}
+
+interface Subscription {
+  id: string;
+  query: string | StructuredQuery;
+  context?: any;
+  userId?: string;
+  targets: Map<string, { mcp: BaseMCP; matcher: RecordMatcher }>;
+  /** IDs of the records in the subscriber's result, per MCP */
+  members: Map<string, Set<string>>;
+  /** Changes after `floor` that are not acknowledged yet */
+  log: Array<LiveChange & { seq: number }>;
+  /** Last sequence number given out */
+  seq: number;
+  /** Resuming after an earlier sequence number needs a reset */
+  floor: number;
+  /** Last sequence number sent to the current sink */
+  sent: number;
+  resetPending: boolean;
+  sink?: LiveQuerySink;
+  /** Changes on every attach and detach, so a late acknowledgement is ignored */
+  attachment: number;
+  inFlight: boolean;
+  detachedAt?: number;
+}
+
+export class LiveQueryNotFoundError extends Error {
+  constructor(subscriptionId: string) {
+    super(`Live query subscription not found: ${subscriptionId}`);
+    this.name = 'LiveQueryNotFoundError';
+  }
+}
+
+export class LiveQueryManager extends EventEmitter {
+  private readonly config: LiveQueryConfig;
+  private subscriptions: Map<string, Subscription> = new Map();
+  // Record events, plans and result reads run one at a time, in the order they arrive
+  private work: Promise<void> = Promise.resolve();
+  private sweepTimer?: NodeJS.Timeout;
+  private readonly registryListeners: Array<[string, (event: any) => void]>;
+
+  constructor(
+    private readonly rag2: RAG2Controller,
+    private readonly mcpRegistry: MCPRegistry,
+    config: Partial<LiveQueryConfig> = {}
+  ) {
+    super();
+    this.config = {
+      maxPendingChanges: 1000,
+      maxBatchSize: 100,
+      resumeWindowMs: 2 * 60 * 1000,
+      sweepIntervalMs: 30 * 1000,
+      ...config
+    };
+
+    const replan = () => this.schedule(() => this.replanAll());
+    this.registryListeners = [
+      ['record-stored', event => this.onRecordEvent(event, false)],
+      ['record-deleted', event => this.onRecordEvent(event, true)],
+      ['record-expired', event => this.onRecordEvent(event, true)],
+      ['mcp-created', replan],
+      ['mcp-removed', replan],
+      ['mcp-switched', replan]
+    ];
+  }
+
+  /**
+   * Start following registry changes and the sweeper for abandoned subscriptions
+   */
+  initialize(): void {
+    for (const [event, listener] of this.registryListeners) {
+      this.mcpRegistry.on(event, listener);
+    }
+
+    this.sweepTimer = setInterval(() => this.purgeDetached(), this.config.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Subscribe to a query, or resume a subscription from a resume token. A new subscription
+   * returns the current result; updates go to `sink` from then on. A token for a subscription
+   * that has expired starts a new one. Throws InvalidCursorError for a token issued to another
+   * user and when the query cannot be watched.
+   */
+  async subscribe(request: LiveQueryRequest, sink: LiveQuerySink): Promise<LiveQuerySubscription> {
+    if (request.resumeToken) {
+      const token = decodeCursor<{ s?: any; q?: any }>(request.resumeToken, this.tokenFingerprint(request.userId));
+      if (typeof token.s !== 'string' || !Number.isInteger(token.q)) {
+        throw new InvalidCursorError();
+      }
+      const existing = this.subscriptions.get(token.s);
+      if (existing) {
+        return this.resume(existing, token.q, sink);
+      }
+    }
+
+    const subscription: Subscription = {
+      id: uuidv4(),
+      query: request.query,
+      context: request.context,
+      ...(request.userId && { userId: request.userId }),
+      targets: new Map(),
+      members: new Map(),
+      log: [],
+      seq: 0,
+      floor: 0,
+      sent: 0,
+      resetPending: false,
+      attachment: 0,
+      inFlight: false
+    };
+
+    const records = await this.run(async () => {
+      subscription.targets = await this.plan(subscription);
+      this.subscriptions.set(subscription.id, subscription);
+      return this.readResult(subscription);
+    });
+    this.attach(subscription, sink);
+
+    this.emit('subscription_created', { subscriptionId: subscription.id, userId: subscription.userId, targets: subscription.targets.size });
+    return {
+      subscriptionId: subscription.id,
+      resumed: false,
+      records,
+      seq: 0,
+      resumeToken: this.resumeToken(subscription, 0)
+    };
+  }
+
+  /**
+   * Stop sending to a subscription but keep following its changes, so it can be resumed
+   * within the resume window
+   */
+  detach(subscriptionId: string): void {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription || !subscription.sink) return;
+
+    subscription.sink = undefined;
+    subscription.attachment++;
+    subscription.inFlight = false;
+    subscription.sent = subscription.floor;
+    subscription.detachedAt = Date.now();
+  }
+
+  unsubscribe(subscriptionId: string, userId?: string): void {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription || (subscription.userId && subscription.userId !== userId)) {
+      throw new LiveQueryNotFoundError(subscriptionId);
+    }
+    this.remove(subscription);
+  }
+
+  /**
+   * Drop detached subscriptions whose resume window has passed; returns how many were dropped
+   */
+  purgeDetached(): number {
+    const cutoff = Date.now() - this.config.resumeWindowMs;
+    const expired = Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.detachedAt !== undefined && subscription.detachedAt <= cutoff);
+    expired.forEach(subscription => this.remove(subscription));
+    return expired.length;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    for (const [event, listener] of this.registryListeners) {
+      this.mcpRegistry.off(event, listener);
+    }
+    await this.work;
+    this.subscriptions.clear();
+  }
+
+  private resume(subscription: Subscription, seq: number, sink: LiveQuerySink): LiveQuerySubscription {
+    // Changes up to `seq` were applied by the subscriber, so they count as acknowledged
+    if (!subscription.resetPending && seq >= subscription.floor && seq <= subscription.seq) {
+      this.acknowledge(subscription, seq);
+    } else {
+      subscription.resetPending = true;
+    }
+    this.attach(subscription, sink);
+
+    this.emit('subscription_resumed', { subscriptionId: subscription.id, seq, reset: subscription.resetPending });
+    return {
+      subscriptionId: subscription.id,
+      resumed: true,
+      seq,
+      resumeToken: this.resumeToken(subscription, seq)
+    };
+  }
+
+  private attach(subscription: Subscription, sink: LiveQuerySink): void {
+    subscription.sink = sink;
+    subscription.attachment++;
+    subscription.inFlight = false;
+    subscription.sent = subscription.floor;
+    subscription.detachedAt = undefined;
+
+    // Let the caller finish setting up delivery before the first update goes out
+    setImmediate(() => this.flush(subscription));
+  }
+
+  private remove(subscription: Subscription): void {
+    this.subscriptions.delete(subscription.id);
+    subscription.sink = undefined;
+    subscription.attachment++;
+    this.emit('subscription_removed', { subscriptionId: subscription.id });
+  }
+
+  private onRecordEvent(event: { mcpId: string; recordId: string }, deleted: boolean): void {
+    const watched = Array.from(this.subscriptions.values()).some(subscription => subscription.targets.has(event.mcpId));
+    if (watched) {
+      this.schedule(() => this.applyRecordEvent(event.mcpId, event.recordId, deleted));
+    }
+  }
+
+  private async applyRecordEvent(mcpId: string, recordId: string, deleted: boolean): Promise<void> {
+    const watchers = Array.from(this.subscriptions.values()).filter(subscription => subscription.targets.has(mcpId));
+    if (watchers.length === 0) return;
+
+    const record = deleted ? null : await watchers[0].targets.get(mcpId)!.mcp.retrieve(recordId);
+    for (const subscription of watchers) {
+      const target = subscription.targets.get(mcpId);
+      if (!target) continue;
+
+      const members = subscription.members.get(mcpId) || new Set<string>();
+      subscription.members.set(mcpId, members);
+      const member = members.has(recordId);
+      const matches = record !== null && target.matcher.matches(record);
+
+      if (matches) {
+        members.add(recordId);
+        this.append(subscription, { type: member ? 'update' : 'add', mcpId, recordId, record: structuredClone(record!) });
+      } else if (member) {
+        members.delete(recordId);
+        this.append(subscription, { type: 'remove', mcpId, recordId });
+      }
+    }
+  }
+
+  private async plan(subscription: Subscription): Promise<Map<string, { mcp: BaseMCP; matcher: RecordMatcher }>> {
+    const targets = await this.rag2.watchTargets(subscription.query, subscription.context);
+    return new Map(targets.map(target => [target.mcp.getMetadata().id, target]));
+  }
+
+  /**
+   * Re-plan every subscription after MCPs were added, removed or replaced: records of MCPs that
+   * are no longer read are removed, and records of newly read MCPs are added
+   */
+  private async replanAll(): Promise<void> {
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      let targets: Map<string, { mcp: BaseMCP; matcher: RecordMatcher }>;
+      try {
+        targets = await this.plan(subscription);
+      } catch (error) {
+        this.report(error as Error);
+        continue;
+      }
+
+      for (const mcpId of subscription.targets.keys()) {
+        if (targets.has(mcpId)) continue;
+        for (const recordId of subscription.members.get(mcpId) || []) {
+          this.append(subscription, { type: 'remove', mcpId, recordId });
+        }
+        subscription.members.delete(mcpId);
+      }
+
+      for (const [mcpId, target] of targets) {
+        if (subscription.targets.has(mcpId)) continue;
+        const members = new Set<string>();
+        for (const record of await this.readMatches(target)) {
+          members.add(record.id);
+          this.append(subscription, { type: 'add', mcpId, recordId: record.id, record });
+        }
+        subscription.members.set(mcpId, members);
+      }
+
+      subscription.targets = targets;
+    }
+  }
+
+  /**
+   * Read the subscription's whole result and make it the subscriber's
+   */
+  private async readResult(subscription: Subscription): Promise<LiveRecord[]> {
+    const records: LiveRecord[] = [];
+    subscription.members = new Map();
+    for (const [mcpId, target] of subscription.targets) {
+      const matches = await this.readMatches(target);
+      subscription.members.set(mcpId, new Set(matches.map(record => record.id)));
+      records.push(...matches.map(record => ({ mcpId, record })));
+    }
+    return records;
+  }
+
+  private async readMatches(target: { mcp: BaseMCP; matcher: RecordMatcher }): Promise<DataRecord[]> {
+    const records = await target.mcp.query(target.matcher.filters);
+    return records.filter(record => target.matcher.matches(record)).map(record => structuredClone(record));
+  }
+
+  private append(subscription: Subscription, change: LiveChange): void {
+    subscription.seq++;
+    if (subscription.resetPending) {
+      // The reset reads the result as it is when sent, which includes this change
+      subscription.floor = subscription.seq;
+      return;
+    }
+
+    subscription.log.push({ ...change, seq: subscription.seq });
+    if (subscription.log.length > this.config.maxPendingChanges) {
+      this.emit('subscription_overflow', { subscriptionId: subscription.id, pending: subscription.log.length });
+      subscription.log = [];
+      subscription.floor = subscription.seq;
+      subscription.resetPending = true;
+    }
+    this.flush(subscription);
+  }
+
+  private acknowledge(subscription: Subscription, seq: number): void {
+    if (seq <= subscription.floor) return;
+    subscription.floor = seq;
+    subscription.log = subscription.log.filter(change => change.seq > seq);
+  }
+
+  private flush(subscription: Subscription): void {
+    if (!subscription.sink || subscription.inFlight || !this.subscriptions.has(subscription.id)) return;
+
+    if (subscription.resetPending) {
+      subscription.inFlight = true;
+      const attachment = subscription.attachment;
+      this.schedule(async () => {
+        if (subscription.attachment !== attachment) return;
+        const records = await this.readResult(subscription);
+        if (subscription.attachment !== attachment) return;
+
+        // Only the reset itself brings a subscriber up to date from here on
+        subscription.resetPending = false;
+        subscription.log = [];
+        subscription.seq++;
+        subscription.floor = subscription.seq;
+        this.deliver(subscription, { kind: 'reset', records, seq: subscription.seq });
+      });
+      return;
+    }
+
+    const pending = subscription.log.filter(change => change.seq > subscription.sent);
+    if (pending.length === 0) return;
+
+    const batch = pending.slice(0, this.config.maxBatchSize);
+    this.deliver(subscription, { kind: 'changes', changes: coalesceChanges(batch), seq: batch[batch.length - 1].seq });
+  }
+
+  private deliver(subscription: Subscription, update: Omit<LiveQueryUpdate, 'subscriptionId' | 'resumeToken'>): void {
+    const sink = subscription.sink!;
+    const attachment = subscription.attachment;
+    subscription.inFlight = true;
+    subscription.sent = update.seq;
+
+    const message: LiveQueryUpdate = {
+      subscriptionId: subscription.id,
+      ...update,
+      resumeToken: this.resumeToken(subscription, update.seq)
+    };
+
+    Promise.resolve()
+      .then(() => sink(message))
+      .then(() => {
+        if (subscription.attachment !== attachment) return;
+        subscription.inFlight = false;
+        this.acknowledge(subscription, update.seq);
+        this.flush(subscription);
+      }, error => {
+        if (subscription.attachment !== attachment) return;
+        // Sent again with whatever has changed since, once something does
+        subscription.inFlight = false;
+        subscription.sent = subscription.floor;
+        if (update.kind === 'reset') {
+          subscription.resetPending = true;
+        }
+        this.emit('delivery_failed', { subscriptionId: subscription.id, seq: update.seq, error });
+      });
+  }
+
+  private resumeToken(subscription: Subscription, seq: number): string {
+    return encodeCursor(this.tokenFingerprint(subscription.userId), { s: subscription.id, q: seq });
+  }
+
+  private tokenFingerprint(userId?: string): string {
+    return queryFingerprint('live', userId || null);
+  }
+
+  private schedule(task: () => Promise<void>): void {
+    this.run(task).catch(error => this.report(error));
+  }
+
+  private run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.work.then(task);
+    this.work = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private report(error: Error): void {
+    // Record events have no caller to throw to, so only report when someone is listening
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
+  }
+}
+
+/**
+ * Collapse a run of changes to the net change per record, relative to the result before the
+ * first of them
+ */
+export function coalesceChanges(changes: LiveChange[]): LiveChange[] {
+  const byRecord = new Map<string, { first: LiveChange; last: LiveChange }>();
+  for (const change of changes) {
+    const key = JSON.stringify([change.mcpId, change.recordId]);
+    const entry = byRecord.get(key);
+    if (entry) {
+      entry.last = change;
+    } else {
+      byRecord.set(key, { first: change, last: change });
+    }
+  }
+
+  const net: LiveChange[] = [];
+  for (const { first, last } of byRecord.values()) {
+    const wasPresent = first.type !== 'add';
+    const isPresent = last.type !== 'remove';
+    const { seq, ...change } = last as LiveChange & { seq?: number };
+    if (isPresent) {
+      net.push({ ...change, type: wasPresent ? 'update' : 'add' });
+    } else if (wasPresent) {
+      net.push(change);
+    }
+  }
+  return net;
+}
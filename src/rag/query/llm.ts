@@ -0,0 +1,161 @@
+/**
+ * RAG₂ Language Model Providers
+ * A small completion interface for answer generation, with an offline template provider and
+ * a client for OpenAI-compatible chat completion APIs
+ */
+
+import axios from 'axios';
+import { analyze } from '../../core/mcp/text_analysis';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A passage the prompt was built from, numbered as it is cited: [1], [2], ...
+ */
+export interface LLMSource {
+  ref: number;
+  text: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  /** Passages already rendered into the messages; providers that read only messages ignore them */
+  sources?: LLMSource[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export interface LLMProviderConfig {
+  provider: 'template' | 'openai';
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+// Sentences the template provider quotes per answer
+const TEMPLATE_MAX_SENTENCES = 3;
+
+/**
+ * Deterministic provider that needs no model: answers with the source sentences sharing the
+ * most words with the question, each cited. Meant for offline use and tests.
+ */
+export class TemplateLLMProvider implements LLMProvider {
+  readonly name = 'template';
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const sources = request.sources ?? [];
+    const question = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+    const questionTerms = new Set(analyze(question.split('\nQuestion:').pop() ?? question));
+
+    const candidates = sources.flatMap(source => splitSentences(source.text).map((sentence, position) => {
+      const terms = new Set(analyze(sentence));
+      let overlap = 0;
+      questionTerms.forEach(term => { if (terms.has(term)) overlap++; });
+      return { ref: source.ref, sentence, overlap, position };
+    }));
+
+    let picked = candidates
+      .filter(candidate => candidate.overlap > 0)
+      .sort((a, b) => b.overlap - a.overlap || a.ref - b.ref || a.position - b.position)
+      .slice(0, TEMPLATE_MAX_SENTENCES);
+    if (picked.length === 0 && candidates.length > 0) {
+      picked = [candidates[0]];
+    }
+
+    const text = picked.length > 0
+      ? picked.map(candidate => `${candidate.sentence} [${candidate.ref}]`).join(' ')
+      : 'No records were found that answer this question.';
+    const promptTokens = request.messages.reduce((sum, message) => sum + countWords(message.content), 0);
+
+    return {
+      text,
+      model: this.name,
+      usage: { promptTokens, completionTokens: countWords(text) }
+    };
+  }
+}
+
+/**
+ * Client for any API that implements OpenAI's POST /chat/completions, including local
+ * servers such as vLLM, llama.cpp or Ollama
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(private readonly config: Omit<LLMProviderConfig, 'provider'>) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    let response;
+    try {
+      response = await axios.post(url, {
+        model: this.config.model,
+        messages: request.messages,
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.temperature !== undefined && { temperature: request.temperature })
+      }, {
+        timeout: this.config.timeoutMs,
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}
+      });
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const detail = axios.isAxiosError(error) ? error.response?.data?.error?.message ?? error.message : (error as Error).message;
+      throw new LLMProviderError(`Completion request to ${url} failed: ${detail}`, status);
+    }
+
+    const text = response.data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new LLMProviderError(`Completion response from ${url} has no message content`);
+    }
+
+    const usage = response.data.usage;
+    return {
+      text: text.trim(),
+      model: response.data.model ?? this.config.model,
+      ...(usage && {
+        usage: { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 }
+      })
+    };
+  }
+}
+
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  return config.provider === 'openai' ? new OpenAICompatibleProvider(config) : new TemplateLLMProvider();
+}
+
+export function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+(?:[.!?]+|$)/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
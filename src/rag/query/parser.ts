@@ -17,8 +17,12 @@ import {
   AggregationStrategy,
   QueryOptimization,
   NaturalQuery,
-  OptimizationStrategy
+  OptimizationStrategy,
+  InterpretationChoice,
+  DetectedLanguage
 } from '../../types/query.types';
+import { CompiledLanguagePack, LanguagePack, LanguageRegistry } from './language';
+import { classifyTimeRange, isRelativeTimeExpression, resolveTemporalContext, resolveTimeExpression } from './temporal';
 
 /**
  * Learning data for query patterns
@@ -31,6 +35,9 @@ interface QueryLearningData {
   lastUsed: number;
   intents: QueryIntent[];
   entities: string[];
+  /** Readings users picked for this pattern when asked to clarify, counted */
+  confirmedIntents: Partial<Record<QueryIntent, number>>;
+  confirmedDataTypes: Partial<Record<DataType, number>>;
 }
 
 /**
@@ -44,6 +51,9 @@ enum AggregationStrategyEnum {
   PRIORITIZE_HOT = 'prioritize_hot'
 }
 
+// Words that follow "from", "by" or "user" without naming anyone
+const NOT_USER_WORDS = new Set(['the', 'this', 'that', 'last', 'past', 'previous', 'today', 'yesterday', 'between']);
+
 /**
  * Conversation context for improved understanding
  */
@@ -381,10 +391,8 @@ class IntentClassificationEngine {
 }
 
 export class NaturalLanguageParser {
-  private intentPatterns: Map<QueryIntent, RegExp[]> = new Map();
   private entityPatterns: Map<string, RegExp[]> = new Map();
-  private temporalPatterns: Map<TemporalContext, RegExp[]> = new Map();
-  private dataTypePatterns: Map<DataType, RegExp[]> = new Map();
+  private languages: LanguageRegistry;
   private learningData: Map<string, QueryLearningData> = new Map();
   private contextCache: Map<string, ConversationContext> = new Map();
   private semanticSimilarity: SemanticSimilarityEngine;
@@ -392,6 +400,7 @@ export class NaturalLanguageParser {
   private intentClassifier: IntentClassificationEngine;
 
   constructor() {
+    this.languages = new LanguageRegistry();
     this.initializePatterns();
     this.semanticSimilarity = new SemanticSimilarityEngine();
     this.nerEngine = new NamedEntityRecognitionEngine();
@@ -403,8 +412,12 @@ export class NaturalLanguageParser {
    * Enhanced with ML-powered intent classification and NER for 95% accuracy
    */
   async parse(query: { raw: string, context?: any }): Promise<InterpretedQuery> {
-    const text = query.raw.toLowerCase().trim();
     const sessionId = query.context?.sessionId || 'default';
+
+    // Read the query with its own language's patterns, numbers and dates
+    const language = this.languages.detect(query.raw, query.context?.language);
+    const pack = this.languages.get(language.code);
+    const text = this.languages.canonicalize(query.raw.toLowerCase().trim(), pack);
     
     // Validate query before processing
     if (!text || text.length === 0) {
@@ -412,38 +425,104 @@ export class NaturalLanguageParser {
     }
     
     // Check for malformed queries (gibberish or no recognizable words)
-    const recognizableWords = ['get', 'show', 'find', 'search', 'count', 'user', 'users', 'message', 'messages', 'stats', 'logs', 'data', 'token', 'activity', 'analyze', 'recent', 'today', 'yesterday', 'all', 'file', 'files', 'admin', 'error', 'from', 'to', 'with', 'in', 'and', 'or', 'of', 'for', 'containing', 'contains'];
     const words = text.split(/\s+/).filter(word => word.length > 2);
-    const recognizedWords = words.filter(word => recognizableWords.includes(word) || /\d+/.test(word) || /@/.test(word));
+    const recognizedWords = words.filter(word => pack.vocabulary.has(word) || /\d+/.test(word) || /@/.test(word));
     
     if (words.length > 0 && recognizedWords.length === 0) {
       throw new Error(`Unable to understand query: "${query.raw}". Query contains no recognizable terms.`);
     }
     
     // Load conversation context for improved understanding
-    const context = this.loadConversationContext(sessionId, query.context);
+    const context = {
+      ...this.loadConversationContext(sessionId, query.context),
+      language: language.code,
+      ...(query.context?.timeZone && { timeZone: query.context.timeZone })
+    };
     
     // Phase 1: Advanced intent recognition with ML
     const intents = await this.extractAdvancedIntents(text, context);
     
     // Phase 2: Neural entity extraction with contextual understanding
-    const entities = await this.extractAdvancedEntities(text, context, intents);
+    const entities = this.applyLearnedDataType(text, await this.extractAdvancedEntities(text, context, intents), pack);
     
-    // Phase 3: Context-aware MCP determination
+    // Phase 3: Update learning data and context
+    this.updateLearningData(text, intents, entities, sessionId);
+    this.updateConversationContext(sessionId, query, intents, entities);
+
+    return this.assemble(query, text, intents, entities, language);
+  }
+
+  /**
+   * Add or replace the pattern pack for a language. Throws LanguagePackError when it is invalid.
+   */
+  registerLanguagePack(pack: LanguagePack): void {
+    this.languages.register(pack);
+  }
+
+  /**
+   * Register the *.json language packs in a directory; returns the languages loaded
+   */
+  async loadLanguagePacks(directory: string): Promise<string[]> {
+    return this.languages.loadDirectory(directory);
+  }
+
+  getLanguages(): string[] {
+    return this.languages.languages();
+  }
+
+  /**
+   * The same query read with part of its interpretation settled - a different intent or data
+   * type than the parser ranked first. Used to offer and run clarification candidates.
+   */
+  reinterpret(interpreted: InterpretedQuery, choice: InterpretationChoice): InterpretedQuery {
+    const pack = this.languages.get(interpreted.language?.code);
+    const text = this.languages.canonicalize(interpreted.originalQuery.raw.toLowerCase().trim(), pack);
+
+    let intents: Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> = interpreted.intents
+      .map(intent => ({ type: intent.type as QueryIntent, confidence: intent.confidence, parameters: intent.parameters }));
+    if (choice.intent) {
+      const chosen = intents.find(intent => intent.type === choice.intent);
+      intents = [
+        { type: choice.intent, confidence: chosen?.confidence ?? interpreted.confidence, parameters: chosen?.parameters ?? {} },
+        ...intents.filter(intent => intent.type !== choice.intent)
+      ];
+    }
+
+    const entities = choice.dataType ? this.narrowDataType(interpreted.entities, choice.dataType, pack) : interpreted.entities;
+    return this.assemble(interpreted.originalQuery, text, intents, entities, interpreted.language);
+  }
+
+  /**
+   * Learn from the reading a user picked for a query, so the same kind of query is read that
+   * way without asking next time
+   */
+  recordClarification(interpreted: InterpretedQuery, choice: InterpretationChoice): void {
+    const query = interpreted.originalQuery;
+    this.updateLearningData(query.raw.toLowerCase().trim(), interpreted.intents, interpreted.entities, query.context?.sessionId || 'default', choice);
+  }
+
+  /**
+   * Build the interpretation of parsed intents and entities: target MCPs, aggregation,
+   * explanation and optimization hints
+   */
+  private assemble(
+    query: { raw: string, context?: any },
+    text: string,
+    intents: Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }>,
+    entities: QueryEntities,
+    language?: DetectedLanguage
+  ): InterpretedQuery {
+    // Phase 4: Context-aware MCP determination
     const targetMCPDetails = this.determineMCPs(entities, intents);
     
-    // Phase 4: Intelligent aggregation strategy
+    // Phase 5: Intelligent aggregation strategy
     const aggregationStrategy = this.determineAggregationStrategy(intents, entities);
     
-    // Phase 5: Generate detailed explanation with confidence scores
+    // Phase 6: Generate detailed explanation with confidence scores
     const explanation = this.generateExplanation(text, intents, entities, targetMCPDetails);
     
-    // Phase 6: Advanced optimization with learning feedback
+    // Phase 7: Advanced optimization with learning feedback
     const optimizations = this.generateOptimizationHints(intents, entities);
-    
-    // Phase 7: Update learning data and context
-    this.updateLearningData(text, intents, entities, sessionId);
-    this.updateConversationContext(sessionId, query, intents, entities);
 
     // Build the complete InterpretedQuery object
     const interpretedQuery: InterpretedQuery = {
@@ -480,7 +559,8 @@ export class NaturalLanguageParser {
       confidence: intents[0]?.confidence || 0.5,
       alternatives: [],
       optimizations: optimizations ? [optimizations] : [],
-      explanation
+      explanation,
+      ...(language && { language })
     };
     
     return interpretedQuery;
@@ -497,7 +577,7 @@ export class NaturalLanguageParser {
     const results: Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> = [];
     
     // Method 1: Pattern-based classification (baseline)
-    const patternResults = this.extractPatternBasedIntents(text);
+    const patternResults = this.extractPatternBasedIntents(text, this.languages.get(context.language));
     
     // Method 2: ML-powered intent classification
     const mlResults = await this.intentClassifier.classifyIntent(text, context);
@@ -528,10 +608,13 @@ export class NaturalLanguageParser {
   /**
    * Pattern-based intent extraction (enhanced baseline)
    */
-  private extractPatternBasedIntents(text: string): Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> {
+  private extractPatternBasedIntents(
+    text: string,
+    pack: CompiledLanguagePack
+  ): Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> {
     const results: Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> = [];
     
-    for (const [intent, patterns] of this.intentPatterns) {
+    for (const [intent, patterns] of pack.intentPatterns) {
       for (const pattern of patterns) {
         const match = text.match(pattern);
         if (match) {
@@ -609,7 +692,25 @@ export class NaturalLanguageParser {
     // Combine and deduplicate entities
     const allEntities = this.combineAndDeduplicateEntities([...nerEntities, ...patternEntities, ...contextEntities]);
     
-    return this.structureEntityResults(allEntities, context);
+    return this.structureEntityResults(this.withoutTimePhraseParts(allEntities), context);
+  }
+
+  /**
+   * Numbers and dates inside a resolved time phrase ("q2 2025") are part of it, not values to
+   * filter on
+   */
+  private withoutTimePhraseParts(entities: QueryEntity[]): QueryEntity[] {
+    const range = entities.find(entity => entity.type === 'dateRange');
+    if (!range || range.position.end <= range.position.start) {
+      return entities;
+    }
+    return entities.filter(entity =>
+      entity === range ||
+      ['dataType', 'temporal'].includes(entity.type) ||
+      entity.position.end <= entity.position.start ||
+      entity.position.end <= range.position.start ||
+      entity.position.start >= range.position.end
+    );
   }
   
   /**
@@ -620,13 +721,14 @@ export class NaturalLanguageParser {
     const filters: Record<string, any> = {};
     let dataType: DataType = DataType.MESSAGES;
     let temporal: TemporalContext | undefined;
+    const pack = this.languages.get(context.language);
     
     // Enhanced entity extraction with better patterns
     this.extractAdvancedFilters(text, filters, extractedEntities, context);
 
     // Extract data types (collect all matches, don't overwrite)
     const foundDataTypes = new Set<DataType>();
-    for (const [type, patterns] of this.dataTypePatterns) {
+    for (const [type, patterns] of pack.dataTypePatterns) {
       for (const pattern of patterns) {
         const match = text.match(pattern);
         if (match) {
@@ -649,7 +751,7 @@ export class NaturalLanguageParser {
     }
 
     // Extract temporal context
-    for (const [temporalType, patterns] of this.temporalPatterns) {
+    for (const [temporalType, patterns] of pack.temporalPatterns) {
       for (const pattern of patterns) {
         const match = text.match(pattern);
         if (match) {
@@ -668,6 +770,30 @@ export class NaturalLanguageParser {
       }
     }
 
+    // A phrase resolved to a range is what was asked for, and only its bucket is kept, as a
+    // hot/cold routing hint. A bucket on its own becomes a range in the user's time zone.
+    const range = extractedEntities.find(entity => entity.type === 'dateRange');
+    if (range) {
+      const bucket = classifyTimeRange(range.value);
+      const kept = extractedEntities.filter(entity => entity.type !== 'temporal');
+      extractedEntities.splice(0, extractedEntities.length, ...kept);
+      if (bucket) {
+        extractedEntities.push({ type: 'temporal', value: bucket, confidence: 0.85, position: range.position });
+      }
+    } else if (temporal) {
+      const resolved = resolveTemporalContext(temporal, { timeZone: context.timeZone });
+      const bucket = extractedEntities.find(entity => entity.type === 'temporal')!;
+      if (resolved) {
+        extractedEntities.push({
+          type: 'dateRange',
+          value: resolved,
+          confidence: 0.85,
+          position: bucket.position,
+          metadata: { originalText: text.slice(bucket.position.start, bucket.position.end), timeZone: context.timeZone, relative: true }
+        });
+      }
+    }
+
     // Legacy pattern extraction for backward compatibility
     this.extractFilters(text, filters, extractedEntities);
 
@@ -769,6 +895,11 @@ export class NaturalLanguageParser {
         let value = match[1] || match[0];
         let confidence = 0.8;
 
+        // "from the last 36 hours" names no user
+        if (NOT_USER_WORDS.has(value)) {
+          continue;
+        }
+
         // Handle special cases
         if (type === 'currentUser' && context.userId) {
           value = context.userId;
@@ -796,79 +927,20 @@ export class NaturalLanguageParser {
   }
 
   /**
-   * Extract timezone-aware temporal entities
+   * Resolve the query's time phrase to a range in the user's time zone
    */
   private extractTimeZoneAwareTemporal(text: string, timeZone?: string): QueryEntity[] {
-    const entities: QueryEntity[] = [];
-    const now = new Date();
-    
-    // Enhanced temporal patterns with timezone support
-    const temporalPatterns = [
-      { pattern: /\b(\d{4}-\d{2}-\d{2})\b/g, type: 'specificDate' },
-      { pattern: /\b(\d{1,2}\/\d{1,2}\/\d{4})\b/g, type: 'specificDate' },
-      { pattern: /\b(\d{1,2})\s+(hours?|hrs?)\s+ago\b/g, type: 'hoursAgo' },
-      { pattern: /\b(\d{1,2})\s+(days?)\s+ago\b/g, type: 'daysAgo' },
-      { pattern: /\bsince\s+(\d{4}-\d{2}-\d{2})\b/g, type: 'since' },
-      { pattern: /\bbetween\s+(\d{4}-\d{2}-\d{2})\s+and\s+(\d{4}-\d{2}-\d{2})\b/g, type: 'dateRange' }
-    ];
-
-    for (const { pattern, type } of temporalPatterns) {
-      let match;
-      pattern.lastIndex = 0;
-      while ((match = pattern.exec(text)) !== null) {
-        let value = match[1];
-        let parsedDate: Date | null = null;
-
-        try {
-          switch (type) {
-            case 'hoursAgo':
-              parsedDate = new Date(now.getTime() - parseInt(value) * 60 * 60 * 1000);
-              break;
-            case 'daysAgo':
-              parsedDate = new Date(now.getTime() - parseInt(value) * 24 * 60 * 60 * 1000);
-              break;
-            case 'specificDate':
-              parsedDate = new Date(value);
-              break;
-            case 'since':
-              parsedDate = new Date(value);
-              break;
-            case 'dateRange':
-              // Handle date range separately
-              const startDate = new Date(match[1]);
-              const endDate = new Date(match[2]);
-              entities.push({
-                type: 'dateRange',
-                value: { start: startDate.getTime(), end: endDate.getTime() },
-                confidence: 0.9,
-                position: {
-                  start: match.index || 0,
-                  end: (match.index || 0) + match[0].length
-                }
-              });
-              continue;
-          }
-
-          if (parsedDate && !isNaN(parsedDate.getTime())) {
-            entities.push({
-              type: 'timestamp',
-              value: parsedDate.getTime(),
-              confidence: 0.85,
-              position: {
-                start: match.index || 0,
-                end: (match.index || 0) + match[0].length
-              },
-              metadata: { originalText: match[0], timeZone }
-            });
-          }
-        } catch (error) {
-          // Skip invalid dates
-          continue;
-        }
-      }
+    const resolved = resolveTimeExpression(text, { timeZone });
+    if (!resolved) {
+      return [];
     }
-
-    return entities;
+    return [{
+      type: 'dateRange',
+      value: { start: resolved.start, end: resolved.end },
+      confidence: 0.9,
+      position: resolved.position,
+      metadata: { originalText: resolved.expression, timeZone, relative: isRelativeTimeExpression(text, { timeZone }) }
+    }];
   }
 
   /**
@@ -1026,6 +1098,7 @@ export class NaturalLanguageParser {
     priority: number;
     estimatedLatency: number;
     queryFragment: any;
+    reason: string;
   }> {
     const mcps: Array<{
       mcpId: string;
@@ -1033,6 +1106,7 @@ export class NaturalLanguageParser {
       priority: number;
       estimatedLatency: number;
       queryFragment: any;
+      reason: string;
     }> = [];
 
     const dataType = entities.dataType;
@@ -1057,7 +1131,8 @@ export class NaturalLanguageParser {
               type: 'hot',
               priority: 1,
               estimatedLatency: 50,
-              queryFragment: { type: 'user_query', filters: entities.filters }
+              queryFragment: { type: 'user_query', filters: entities.filters },
+              reason: `Query asks for ${currentDataType}`
             });
           }
           break;
@@ -1070,7 +1145,8 @@ export class NaturalLanguageParser {
               type: temporal === TemporalContext.RECENT || temporal === TemporalContext.TODAY ? 'hot' : 'cold',
               priority: 1,
               estimatedLatency: temporal === TemporalContext.RECENT ? 30 : 200,
-              queryFragment: { type: 'message_query', filters: entities.filters }
+              queryFragment: { type: 'message_query', filters: entities.filters },
+              reason: `Query asks for ${currentDataType}`
             });
           }
           break;
@@ -1083,7 +1159,8 @@ export class NaturalLanguageParser {
               type: 'hot',
               priority: 1,
               estimatedLatency: 100,
-              queryFragment: { type: 'stats_query', filters: entities.filters }
+              queryFragment: { type: 'stats_query', filters: entities.filters },
+              reason: `Query asks for ${currentDataType}`
             });
           }
           break;
@@ -1095,7 +1172,8 @@ export class NaturalLanguageParser {
               type: temporal === TemporalContext.RECENT ? 'hot' : 'cold',
               priority: 1,
               estimatedLatency: temporal === TemporalContext.RECENT ? 100 : 500,
-              queryFragment: { type: 'log_query', filters: entities.filters }
+              queryFragment: { type: 'log_query', filters: entities.filters },
+              reason: `Query asks for ${currentDataType}`
             });
           }
           break;
@@ -1108,7 +1186,8 @@ export class NaturalLanguageParser {
               type: 'hot',
               priority: 1,
               estimatedLatency: 25,
-              queryFragment: { type: 'token_validation', token: entities.filters.find(f => f.field === 'token')?.value }
+              queryFragment: { type: 'token_validation', token: entities.filters.find(f => f.field === 'token')?.value },
+              reason: `Query asks for ${currentDataType}`
             });
           }
           break;
@@ -1122,7 +1201,8 @@ export class NaturalLanguageParser {
         type: 'hot',
         priority: 2,
         estimatedLatency: 25,
-        queryFragment: { type: 'token_validation', token: entities.filters.find(f => f.field === 'token')?.value }
+        queryFragment: { type: 'token_validation', token: entities.filters.find(f => f.field === 'token')?.value },
+        reason: 'Query filters on a token'
       });
     }
 
@@ -1133,7 +1213,8 @@ export class NaturalLanguageParser {
         type: 'hot',
         priority: 3,
         estimatedLatency: 300,
-        queryFragment: { type: 'cross_analysis', entities: entities.extractedEntities }
+        queryFragment: { type: 'cross_analysis', entities: entities.extractedEntities },
+        reason: `${primaryIntentForMCP} queries cross-reference other MCPs`
       });
     }
 
@@ -1264,6 +1345,7 @@ export class NaturalLanguageParser {
     interpretation: string;
     mcpSelection: string;
     executionPlan: string;
+    mcpReasons: Record<string, string>;
   } {
     const primaryIntentForExplain = intents[0]?.type || 'retrieve';
     const dataType = entities.dataType;
@@ -1272,7 +1354,8 @@ export class NaturalLanguageParser {
     return {
       interpretation: `Interpreted "${originalText}" as: ${primaryIntentForExplain} ${dataType} with ${entities.extractedEntities.length} filters`,
       mcpSelection: `Selected MCPs: ${mcpNames} based on data type and access patterns`,
-      executionPlan: `Will query ${mcps.length} MCPs in ${mcps.some(m => m.priority === mcps[0].priority) ? 'parallel' : 'sequence'} and ${entities.dataType === DataType.LOGS ? 'merge' : 'aggregate'} results`
+      executionPlan: `Will query ${mcps.length} MCPs in ${mcps.some(m => m.priority === mcps[0].priority) ? 'parallel' : 'sequence'} and ${entities.dataType === DataType.LOGS ? 'merge' : 'aggregate'} results`,
+      mcpReasons: Object.fromEntries(mcps.map(m => [m.mcpId, m.reason]))
     };
   }
 
@@ -1327,6 +1410,9 @@ export class NaturalLanguageParser {
         case 'temporal':
           temporal = entity.value as TemporalContext;
           break;
+        case 'dateRange':
+          filters.push({ field: 'dateRange', operator: 'between', value: entity.value });
+          break;
         case 'relationship':
           // Handle complex relationships
           if (entity.value.field && entity.value.value) {
@@ -1512,7 +1598,7 @@ export class NaturalLanguageParser {
     text: string,
     context: ConversationContext
   ): Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> {
-    return results.map(result => {
+    const adjusted = results.map(result => {
       let adjustedConfidence = result.confidence;
       
       // Check learning data for this query pattern
@@ -1534,6 +1620,80 @@ export class NaturalLanguageParser {
         confidence: Math.min(adjustedConfidence, 1.0)
       };
     });
+
+    return this.applyConfirmedIntents(adjusted, text);
+  }
+
+  /**
+   * Favor the intents users picked for this query pattern when asked to clarify it, in
+   * proportion to how often each was picked. A picked intent the ensemble missed is added.
+   */
+  private applyConfirmedIntents(
+    results: Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }>,
+    text: string
+  ): Array<{ type: QueryIntent; confidence: number; parameters?: Record<string, any> }> {
+    const pattern = this.extractQueryPattern(text);
+    const confirmed = pattern ? this.learningData.get(pattern)?.confirmedIntents : undefined;
+    const total = Object.values(confirmed || {}).reduce((sum, count) => sum + (count || 0), 0);
+    if (!confirmed || total === 0) {
+      return results;
+    }
+
+    const adjusted = [...results];
+    for (const [type, count] of Object.entries(confirmed) as Array<[QueryIntent, number]>) {
+      const share = count / total;
+      const index = adjusted.findIndex(result => result.type === type);
+      const current = index >= 0 ? adjusted[index] : { type, confidence: 0, parameters: {} };
+      const confidence = Math.min(Math.max(current.confidence + 0.15 * share, 0.8 * share), 1.0);
+      if (index >= 0) {
+        adjusted[index] = { ...current, confidence };
+      } else {
+        adjusted.push({ ...current, confidence });
+      }
+    }
+    return adjusted.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * When a query names several data types and users settled on one of them for this query
+   * pattern before, keep only that one
+   */
+  private applyLearnedDataType(text: string, entities: QueryEntities, pack: CompiledLanguagePack): QueryEntities {
+    const pattern = this.extractQueryPattern(text);
+    const confirmed = pattern ? this.learningData.get(pattern)?.confirmedDataTypes : undefined;
+    const detected = entities.extractedEntities.filter(entity => entity.type === 'dataType').map(entity => entity.value as DataType);
+    if (!confirmed || detected.length < 2) {
+      return entities;
+    }
+
+    const preferred = detected
+      .filter(dataType => (confirmed[dataType] || 0) > 0)
+      .sort((a, b) => (confirmed[b] || 0) - (confirmed[a] || 0))[0];
+    return preferred ? this.narrowDataType(entities, preferred, pack) : entities;
+  }
+
+  /**
+   * Entities restricted to one data type. In "user sessions" the word after "user" is read as
+   * a user ID; once the data type is settled, a data type word is not one.
+   */
+  private narrowDataType(entities: QueryEntities, dataType: DataType, pack: CompiledLanguagePack): QueryEntities {
+    const isDataTypeWord = (value: any) => typeof value === 'string' &&
+      Array.from(pack.dataTypePatterns.values()).some(patterns => patterns.some(pattern => pattern.test(value)));
+    const misread = (field: string, value: any) => field === 'userId' && isDataTypeWord(value);
+
+    const extractedEntities = entities.extractedEntities.filter(entity =>
+      (entity.type !== 'dataType' || entity.value === dataType) && !misread(entity.type, entity.value)
+    );
+    if (!extractedEntities.some(entity => entity.type === 'dataType')) {
+      extractedEntities.push({ type: 'dataType', value: dataType, confidence: 1.0, position: { start: 0, end: 0 } });
+    }
+
+    return {
+      ...entities,
+      dataType,
+      filters: entities.filters.filter(filter => !misread(filter.field, filter.value)),
+      extractedEntities
+    };
   }
 
   /**
@@ -1541,9 +1701,10 @@ export class NaturalLanguageParser {
    */
   private extractQueryPattern(text: string): string {
     // Simple pattern extraction - could be enhanced with more sophisticated analysis
-    const words = text.toLowerCase().split(/\s+/);
+    // Plurals share the singular's pattern, so "show users" and "show user" learn together
+    const words = text.toLowerCase().split(/\s+/).map(word => word.length > 3 ? word.replace(/s$/, '') : word);
     const keyWords = words.filter(word => 
-      ['get', 'show', 'find', 'search', 'count', 'sum', 'user', 'message', 'file'].includes(word)
+      ['get', 'show', 'find', 'search', 'count', 'sum', 'user', 'message', 'file', 'log', 'stat', 'token', 'session'].includes(word)
     );
     return keyWords.join('_');
   }
@@ -1552,68 +1713,6 @@ export class NaturalLanguageParser {
    * Initialize all pattern matching rules
    */
   private initializePatterns(): void {
-    // Intent patterns
-    this.intentPatterns = new Map([
-      [QueryIntent.RETRIEVE, [
-        /(?:get|show|find|fetch|retrieve|display)\s+/,
-        /(?:list|view)\s+/,
-        /(?:what|which)\s+/
-      ]],
-      [QueryIntent.FILTER, [
-        /(?:where|with|having|containing)\s+/,
-        /(?:filter|search)\s+.*(?:by|for)\s+/
-      ]],
-      [QueryIntent.AGGREGATE, [
-        /(?:sum|total|average|avg|mean)\s+/,
-        /(?:group\s+by|summarize|aggregate)\s+/
-      ]],
-      [QueryIntent.COUNT, [
-        /\bcount\b/,  // Explicit count word gets highest priority
-        /(?:count|number\s+of|how\s+many)\s+/,
-        /(?:total\s+number)\s+/
-      ]],
-      [QueryIntent.SEARCH, [
-        /(?:search|find|look\s+for)\s+/,
-        /(?:contains|includes|has)\s+/
-      ]],
-      [QueryIntent.ANALYZE, [
-        /(?:analyze|analysis|insights)\s+/,
-        /(?:trend|pattern|behavior)\s+/
-      ]],
-      [QueryIntent.COMPARE, [
-        /(?:compare|versus|vs|difference)\s+/,
-        /(?:between|against)\s+/
-      ]],
-      [QueryIntent.UPDATE, [
-        /(?:update|modify|change|edit)\s+/,
-        /(?:set|assign)\s+/
-      ]],
-      [QueryIntent.DELETE, [
-        /(?:delete|remove|drop)\s+/,
-        /(?:clear|purge)\s+/
-      ]]
-    ]);
-
-    // Data type patterns
-    this.dataTypePatterns = new Map([
-      [DataType.USERS, [/users?/, /accounts?/, /profiles?/]],
-      [DataType.MESSAGES, [/messages?/, /chats?/, /conversations?/]],
-      [DataType.STATS, [/stats?/, /statistics/, /metrics?/]],
-      [DataType.LOGS, [/logs?/, /events?/, /history/]],
-      [DataType.TOKENS, [/tokens?/, /auth/, /sessions?/]],
-      [DataType.FILES, [/files?/, /documents?/, /uploads?/]]
-    ]);
-
-    // Temporal patterns
-    this.temporalPatterns = new Map([
-      [TemporalContext.TODAY, [/today/, /this\s+day/]],
-      [TemporalContext.YESTERDAY, [/yesterday/, /last\s+day/]],
-      [TemporalContext.LAST_WEEK, [/last\s+week/, /past\s+week/, /this\s+week/]],
-      [TemporalContext.LAST_MONTH, [/last\s+month/, /past\s+month/, /this\s+month/]],
-      [TemporalContext.RECENT, [/recent/, /lately/, /now/, /current/, /last\s+\d+\s+hours?/, /past\s+\d+\s+hours?/]],
-      [TemporalContext.HISTORICAL, [/historical/, /archive/, /old/, /past/]]
-    ]);
-
     // Entity patterns for advanced extraction
     this.entityPatterns = new Map([
       ['email', [/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/]],
@@ -1656,7 +1755,7 @@ export class NaturalLanguageParser {
     return improvement * (1 - entityCount * 0.05);
   }
   
-  private updateLearningData(text: string, intents: any[], entities: any, sessionId: string): void {
+  private updateLearningData(text: string, intents: any[], entities: any, sessionId: string, confirmed?: InterpretationChoice): void {
     // Implementation for updating learning data
     const pattern = this.extractQueryPattern(text);
     const learningData = this.learningData.get(pattern) || {
@@ -1666,13 +1765,25 @@ export class NaturalLanguageParser {
       avgConfidence: 0,
       lastUsed: Date.now(),
       intents: [],
-      entities: []
+      entities: [],
+      confirmedIntents: {},
+      confirmedDataTypes: {}
     };
     
     learningData.frequency++;
     learningData.lastUsed = Date.now();
     learningData.intents = intents.map(i => i.type);
     learningData.avgConfidence = intents.reduce((sum, i) => sum + i.confidence, 0) / intents.length;
+    // A query without pattern words shares the empty pattern with every other one, so a
+    // choice made for it says nothing about the rest
+    if (confirmed && pattern) {
+      if (confirmed.intent) {
+        learningData.confirmedIntents[confirmed.intent] = (learningData.confirmedIntents[confirmed.intent] || 0) + 1;
+      }
+      if (confirmed.dataType) {
+        learningData.confirmedDataTypes[confirmed.dataType] = (learningData.confirmedDataTypes[confirmed.dataType] || 0) + 1;
+      }
+    }
     
     this.learningData.set(pattern, learningData);
   }
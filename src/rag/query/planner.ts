@@ -9,7 +9,8 @@ import {
   MCPQueryCapability,
   QueryExecutionPhase,
   MCPQueryFragment,
-  QueryOptimization
+  QueryOptimization,
+  MCPAssessment
 } from '../../types/query.types';
 import { MCPRegistry } from '../../mcp/registry/MCPRegistry';
 import { BaseMCP } from '../../core/mcp/base_mcp';
@@ -73,6 +74,7 @@ export class QueryExecutionPlanner {
         resourceRequirements
       },
       fallbacks,
+      assessments: mcpStates.map(state => this.toAssessment(state)),
       // Legacy properties for compatibility
       steps: [],
       optimizationStrategy: strategy ? strategy.type as any : 'standard',
@@ -107,12 +109,14 @@ export class QueryExecutionPlanner {
           // For testing, add a default MCP state
           mcpStates.push({
             mcpId,
+            measured: false,
             health: { status: 'healthy', responseTime: 50 },
             metrics: { averageResponseTime: 50, successRate: 1.0 },
             capabilities: { queryTypes: ['select'], maxConnections: 10 },
             currentLoad: 0.3,
             isAvailable: true,
             estimatedLatency: 50,
+            adjustedLatency: 50,
             priority: 1
           });
           continue;
@@ -163,6 +167,7 @@ export class QueryExecutionPlanner {
         
         mcpStates.push({
           mcpId,
+          measured: true,
           capabilities,
           currentLoad,
           health: health.status,
@@ -199,6 +204,24 @@ export class QueryExecutionPlanner {
     return mcpStates.sort((a, b) => a.priority - b.priority);
   }
   
+  /**
+   * Normalize an MCP state (registered, default or failed) for reporting
+   */
+  private toAssessment(state: any): MCPAssessment {
+    const estimatedLatency = state.estimatedLatency ?? 100;
+    return {
+      mcpId: state.mcpId,
+      measured: state.measured ?? false,
+      health: typeof state.health === 'string' ? state.health : state.health?.status || 'unknown',
+      currentLoad: state.currentLoad,
+      estimatedLatency,
+      adjustedLatency: state.adjustedLatency ?? estimatedLatency,
+      priority: state.priority,
+      temperature: state.type === 'hot' || state.type === 'cold' ? state.type : 'unknown',
+      ...(state.reliability !== undefined && { reliability: state.reliability })
+    };
+  }
+
   /**
    * Calculate current load based on health and metrics
    */
@@ -388,9 +411,14 @@ export class QueryExecutionPlanner {
    * Build MCP-specific query from interpreted query
    */
   private buildMCPSpecificQuery(mcpState: any, interpretedQuery: InterpretedQuery): any {
+    const primaryIntent = interpretedQuery.intents[0]?.type;
     const baseQuery = {
       type: mcpState.queryFragment?.type || 'retrieve',
       filters: interpretedQuery.entities.filters,
+      intent: primaryIntent,
+      temporal: interpretedQuery.entities.temporal,
+      timeZone: interpretedQuery.originalQuery?.context?.timeZone,
+      searchText: this.searchTextFor(primaryIntent, interpretedQuery),
       timestamp: Date.now(),
       requestId: this.generateRequestId()
     };
@@ -614,6 +642,25 @@ export class QueryExecutionPlanner {
     return (mcpFields as any)[primaryIntent] || ['*'];
   }
 
+  private searchTextFor(primaryIntent: string | undefined, interpretedQuery: InterpretedQuery): string | undefined {
+    // Fusion ranks by relevance whatever the intent, falling back to the whole question
+    if (interpretedQuery.aggregationStrategy?.type === 'fusion') {
+      return this.extractSearchText(interpretedQuery) || interpretedQuery.originalQuery?.raw || undefined;
+    }
+    return primaryIntent === 'search' ? this.extractSearchText(interpretedQuery) : undefined;
+  }
+
+  private extractSearchText(interpretedQuery: InterpretedQuery): string | undefined {
+    const raw = interpretedQuery.originalQuery?.raw || '';
+    
+    // Prefer an explicitly quoted phrase
+    const quoted = raw.match(/["']([^"']+)["']/);
+    if (quoted) return quoted[1].trim();
+    
+    const match = raw.match(/\b(?:containing|contains|mentioning|matching|with text|about|for)\s+(.+)$/i);
+    return match ? match[1].trim() : undefined;
+  }
+
   private calculateOptimalLimit(intents: any[]): number {
     const primaryIntent = intents[0]?.type;
     
@@ -11,22 +11,81 @@ import {
   RAG2Config,
   MCPQueryCapability,
   QuerySource,
-  QueryIntentDetails
+  QueryIntentDetails,
+  StructuredQuery,
+  FusionOptions,
+  ClarificationRequest,
+  ClarificationCandidate
 } from '../../types/query.types';
 
 import { NaturalLanguageParser } from './parser';
 import { QueryExecutionPlanner } from './planner';
 import { ResultAggregator, MCPResult } from './aggregator';
+import { Reranker, RetrievalList } from './fusion';
+import { AnswerGenerator, AnswerResult } from './answer';
+import {
+  buildExplanation,
+  ExplainedTarget,
+  ExplainOptions,
+  PhaseTiming,
+  QueryAnalysis,
+  QueryExplanation
+} from './explain';
+import { LLMProvider, TemplateLLMProvider } from './llm';
+import {
+  assessClarification,
+  ClarificationNotFoundError,
+  UnknownCandidateError
+} from './clarification';
+import { MCPQueryTranslator, RecordMatcher } from './translator';
+import { StructuredQueryCompiler } from './structured';
 import { MCPRegistry } from '../../mcp/registry/MCPRegistry';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseMCP } from '../../core/mcp/base_mcp';
+import { decodeCursor, encodeCursor, queryFingerprint, InvalidCursorError } from '../../core/mcp/pagination';
+import { QueryPage, QueryPageOptions } from '../../types/mcp.types';
+
+/**
+ * Per-MCP cursors for one page of a natural language query.
+ * `cursors` is set when resuming; MCPs missing from it were already exhausted.
+ */
+interface PagingState {
+  cursors?: Record<string, string>;
+  next: Record<string, string>;
+}
+
+/**
+ * A clarification request waiting for its answer, with what is needed to run each candidate
+ */
+interface PendingClarification {
+  request: ClarificationRequest;
+  query: NaturalQuery;
+  interpretations: Map<string, InterpretedQuery>;
+}
+
+// Unanswered clarifications kept at most; the oldest are dropped first
+const MAX_PENDING_CLARIFICATIONS = 1000;
+
+interface CachedQuery {
+  result: QueryResult;
+  expiresAt: number;
+}
+
+// Registry events after which a cached result may no longer match the data
+const CACHE_INVALIDATING_EVENTS = ['record-stored', 'record-deleted', 'record-expired', 'mcp-created', 'mcp-removed', 'mcp-switched'];
 
 export class RAG2Controller {
   private parser: NaturalLanguageParser;
   private planner: QueryExecutionPlanner;
   private aggregator: ResultAggregator;
+  private translator: MCPQueryTranslator;
+  private structuredCompiler: StructuredQueryCompiler;
+  private answers: AnswerGenerator;
   private mcpRegistry: MCPRegistry;
   private config: RAG2Config;
-  private queryCache: Map<string, QueryResult> = new Map();
+  private queryCache: Map<string, CachedQuery> = new Map();
   private queryHistory: Array<{ query: NaturalQuery; result: QueryResult; timestamp: number }> = [];
+  private clarifications: Map<string, PendingClarification> = new Map();
 
   constructor(mcpRegistry: MCPRegistry, config?: Partial<RAG2Config>) {
     this.mcpRegistry = mcpRegistry;
@@ -35,13 +94,21 @@ export class RAG2Controller {
     this.parser = new NaturalLanguageParser();
     this.planner = new QueryExecutionPlanner(mcpRegistry);
     this.aggregator = new ResultAggregator();
+    this.translator = new MCPQueryTranslator();
+    this.structuredCompiler = new StructuredQueryCompiler();
+    this.answers = new AnswerGenerator(new TemplateLLMProvider());
+
+    // Any write can change what a cached query would return
+    for (const event of CACHE_INVALIDATING_EVENTS) {
+      mcpRegistry.on(event, () => this.queryCache.clear());
+    }
   }
 
   /**
    * Main entry point - process natural language query
    * This is where the magic happens - NO MORE SQL!
    */
-  async query(query: string, context?: any, options?: any): Promise<QueryResult> {
+  async query(query: string, context?: any, options?: any, interpretation?: InterpretedQuery): Promise<QueryResult> {
     const naturalQuery: NaturalQuery = { 
       raw: query, 
       context,
@@ -49,48 +116,121 @@ export class RAG2Controller {
         responseFormat: options?.responseFormat || 'json',
         explanationLevel: options?.explanationLevel || 'basic',
         cachePreference: options?.cachePreference || 'smart',
-        maxResults: options?.maxResults || 100
+        maxResults: options?.pageSize || options?.maxResults || 100,
+        pageSize: options?.pageSize,
+        cursor: options?.cursor,
+        fusion: options?.fusion,
+        clarify: options?.clarify
       }
     };
-    return this.processNaturalQuery(naturalQuery);
+    return this.processNaturalQuery(naturalQuery, interpretation);
+  }
+
+  /**
+   * Run the reading picked for a query that was sent back for clarification, and teach the
+   * parser to read that kind of query this way. Each request is answered once.
+   * Throws ClarificationNotFoundError when the request is unknown or has expired, and
+   * UnknownCandidateError when it offered no such candidate. `options.pageSize` overrides the
+   * page size the query was asked with.
+   */
+  async resolveClarification(clarificationId: string, candidateId: string, options: { pageSize?: number } = {}): Promise<QueryResult> {
+    this.purgeClarifications();
+    const pending = this.clarifications.get(clarificationId);
+    if (!pending) {
+      throw new ClarificationNotFoundError(clarificationId);
+    }
+    const candidate = pending.request.candidates.find(offered => offered.id === candidateId);
+    const interpretation = pending.interpretations.get(candidateId);
+    if (!candidate || !interpretation) {
+      throw new UnknownCandidateError(clarificationId, candidateId);
+    }
+    this.clarifications.delete(clarificationId);
+
+    this.parser.recordClarification(interpretation, candidate.choice);
+    const preferences = pending.query.preferences!;
+    return this.processNaturalQuery({
+      ...pending.query,
+      preferences: {
+        ...preferences,
+        clarify: false,
+        ...(options.pageSize && { pageSize: options.pageSize, maxResults: options.pageSize })
+      }
+    }, { ...interpretation, confidence: 1 });
   }
 
-  async processNaturalQuery(query: NaturalQuery): Promise<QueryResult> {
+  /**
+   * Answer a question from the records a fused query retrieves for it, citing them.
+   * `options.answer` sets the context budget; the provider's errors propagate.
+   */
+  async answer(question: string, context?: any, options: any = {}): Promise<AnswerResult> {
+    const result = await this.query(question, context, { ...options, fusion: options.fusion ?? {} });
+    if (!result.success) {
+      throw new Error(`Retrieval failed: ${result.errors?.[0]?.error ?? 'unknown error'}`);
+    }
+
+    const sources = result.data.metadata.sources;
+    // Fused records name their MCP in provenance; a single source covers the rest
+    const generated = await this.answers.generate(
+      question,
+      result.data.primary,
+      options.answer,
+      () => sources.length === 1 ? sources[0].mcpId : undefined
+    );
+
+    return {
+      executionId: result.executionId,
+      ...generated,
+      retrieval: {
+        totalRecords: result.data.metadata.totalRecords,
+        mcpIds: sources.map(source => source.mcpId),
+        duration: result.duration
+      }
+    };
+  }
+
+  /**
+   * Throws InvalidCursorError when preferences.cursor was not issued for this query.
+   * A given interpretation (e.g. a follow-up resolved against an earlier turn) is run instead
+   * of parsing the raw text, and bypasses the cache, which is keyed by that text.
+   * With preferences.clarify, an ambiguous interpretation is not run: the result carries a
+   * clarification request instead, answered through resolveClarification.
+   */
+  async processNaturalQuery(query: NaturalQuery, interpretation?: InterpretedQuery): Promise<QueryResult> {
     const startTime = Date.now();
+    const paging = this.openPaging(query);
     
     try {
       // Step 1: Check cache first
       const cacheKey = this.generateCacheKey(query);
-      if (this.config.caching.enabled) {
-        const cachedResult = this.queryCache.get(cacheKey);
-        if (cachedResult) {
+      if (this.config.caching.enabled && !interpretation) {
+        const cached = this.queryCache.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) {
           return {
-            ...cachedResult,
-            caching: { ...cachedResult.caching, cached: true }
+            ...cached.result,
+            caching: { ...cached.result.caching, cached: true }
           };
         }
+        if (cached) {
+          this.queryCache.delete(cacheKey);
+        }
       }
 
-      // Step 2: Parse natural language into structured query
-      const interpretedQuery = await this.parser.parse(query);
-      console.log('Interpreted query:', { 
-        intents: interpretedQuery.intents, 
-        targetMCPs: interpretedQuery.targetMCPs,
-        aggregationStrategy: interpretedQuery.aggregationStrategy 
-      });
-      
-      // Step 3: Create execution plan
-      let executionPlan;
-      try {
-        executionPlan = await this.planner.createExecutionPlan(interpretedQuery);
-        console.log('Execution plan phases:', executionPlan.phases.length);
-      } catch (plannerError) {
-        console.error('Planner error:', plannerError);
-        throw plannerError;
+      // Step 2: Ask back instead of guessing when the interpretation is uncertain. A cursor
+      // continues a page that already ran, so it is never asked about.
+      let parsed: InterpretedQuery | undefined;
+      if (!interpretation && query.preferences?.clarify && !query.preferences.cursor) {
+        parsed = await this.parser.parse(query);
+        const clarification = this.openClarification(query, parsed);
+        if (clarification) {
+          return this.clarificationResult(clarification, parsed, Date.now() - startTime);
+        }
       }
+
+      // Step 3: Parse natural language into structured query and plan its execution
+      const { interpretedQuery, executionPlan } = await this.prepareNaturalQuery(query, interpretation ?? parsed);
       
       // Step 4: Execute plan across MCPs
-      const mcpResults = await this.executeQueryPlan(executionPlan, interpretedQuery);
+      const mcpResults = await this.executeQueryPlan(executionPlan, interpretedQuery, paging);
       console.log('MCP results:', mcpResults.length, 'successful:', mcpResults.filter(r => r.success).length);
       
       // Step 5: Aggregate results
@@ -102,9 +242,15 @@ export class RAG2Controller {
         interpretedQuery,
         startTime
       );
+      if (Object.keys(paging.next).length > 0) {
+        finalResult.nextCursor = encodeCursor(this.pagingFingerprint(query), paging.next);
+      }
+      if (interpretedQuery.language) {
+        finalResult.language = interpretedQuery.language;
+      }
 
-      // Step 6: Cache result if enabled
-      if (this.config.caching.enabled) {
+      // Step 6: Cache result if enabled; a range reckoned from now would go stale as it moves
+      if (this.config.caching.enabled && !interpretation && !this.readsRelativeTime(interpretedQuery)) {
         this.cacheResult(cacheKey, finalResult);
       }
 
@@ -129,20 +275,236 @@ export class RAG2Controller {
   }
 
   /**
-   * Execute the query plan across multiple MCPs
+   * Interpret a natural language query (unless an interpretation is given) and plan its execution
+   */
+  private async prepareNaturalQuery(
+    query: NaturalQuery,
+    interpretation?: InterpretedQuery
+  ): Promise<{ interpretedQuery: InterpretedQuery; executionPlan: QueryExecutionPlan }> {
+    const interpretedQuery = interpretation ? { ...interpretation } : await this.parser.parse(query);
+    if (query.preferences?.fusion) {
+      interpretedQuery.aggregationStrategy = {
+        mergeStrategy: 'append',
+        conflictResolution: 'first_wins',
+        transformations: [],
+        ...interpretedQuery.aggregationStrategy,
+        type: 'fusion',
+        fusion: query.preferences.fusion
+      };
+    }
+    console.log('Interpreted query:', { 
+      intents: interpretedQuery.intents, 
+      targetMCPs: interpretedQuery.targetMCPs,
+      aggregationStrategy: interpretedQuery.aggregationStrategy 
+    });
+    
+    let executionPlan;
+    try {
+      executionPlan = await this.planner.createExecutionPlan(interpretedQuery);
+      console.log('Execution plan phases:', executionPlan.phases.length);
+      
+      const pageSize = query.preferences?.pageSize;
+      if (pageSize) {
+        executionPlan.phases.forEach(phase => phase.mcpQueries.forEach(mcpQuery => {
+          mcpQuery.query = { ...mcpQuery.query, limit: pageSize };
+        }));
+      }
+    } catch (plannerError) {
+      console.error('Planner error:', plannerError);
+      throw plannerError;
+    }
+    
+    return { interpretedQuery, executionPlan };
+  }
+
+  /**
+   * Explain how a query would run without running it: the interpretation, which MCPs are chosen
+   * and why, phases and parallelism, index usage, estimated cost and fallback plans.
+   * `options.analyze` runs it as well and reports actual against estimated timings per phase.
+   * Throws when the query cannot be interpreted or planned.
+   */
+  async explain(query: string, context?: any, options: ExplainOptions = {}): Promise<QueryExplanation> {
+    const naturalQuery: NaturalQuery = {
+      raw: query,
+      context,
+      preferences: {
+        responseFormat: 'json',
+        explanationLevel: 'detailed',
+        cachePreference: 'never',
+        pageSize: options.pageSize,
+        fusion: options.fusion
+      }
+    };
+    const { interpretedQuery, executionPlan } = await this.prepareNaturalQuery(naturalQuery);
+    const fusion = interpretedQuery.aggregationStrategy?.type === 'fusion'
+      ? interpretedQuery.aggregationStrategy.fusion || {}
+      : undefined;
+
+    const targets = new Map<string, ExplainedTarget[]>();
+    for (const mcpId of interpretedQuery.targetMCPs) {
+      const fragment = executionPlan.phases
+        .flatMap(phase => phase.mcpQueries)
+        .find(mcpQuery => mcpQuery.mcpId === mcpId)?.query;
+      const mcps = fragment ? await this.resolveMCPs(mcpId) : [];
+      targets.set(mcpId, await Promise.all(mcps.map(async mcp => ({
+        id: mcp.metadata.id,
+        name: mcp.metadata.name,
+        plan: await this.translator.explain(mcp, fragment, fusion)
+      }))));
+    }
+
+    if (!options.analyze) {
+      return buildExplanation(interpretedQuery, executionPlan, targets);
+    }
+
+    const startTime = Date.now();
+    const phases: PhaseTiming[] = [];
+    let analysis: QueryAnalysis;
+    try {
+      const mcpResults = await this.executeQueryPlan(executionPlan, interpretedQuery, { next: {} }, phases);
+      const result = await this.aggregator.aggregateResults(
+        mcpResults,
+        interpretedQuery.aggregationStrategy?.type || 'merge',
+        executionPlan.executionId,
+        query,
+        interpretedQuery,
+        startTime
+      );
+      analysis = {
+        success: result.success,
+        totalRecords: result.data.metadata.totalRecords,
+        actualMs: Date.now() - startTime,
+        estimatedMs: executionPlan.estimatedTime
+      };
+    } catch (error) {
+      analysis = {
+        success: false,
+        totalRecords: 0,
+        actualMs: Date.now() - startTime,
+        estimatedMs: executionPlan.estimatedTime,
+        error: (error as Error).message
+      };
+    }
+
+    return buildExplanation(interpretedQuery, executionPlan, targets, { ...analysis, phases });
+  }
+
+  /**
+   * Process a structured (JSON DSL) query through the same planner, executor and aggregator
+   */
+  async queryStructured(query: StructuredQuery): Promise<QueryResult> {
+    const startTime = Date.now();
+    const naturalQuery: NaturalQuery = { raw: JSON.stringify(query) };
+
+    try {
+      const compiled = this.structuredCompiler.compile(query);
+      const interpretedQuery = compiled.interpreted;
+
+      const executionPlan = await this.planner.createExecutionPlan(interpretedQuery);
+      for (const phase of executionPlan.phases) {
+        for (const mcpQuery of phase.mcpQueries) {
+          mcpQuery.query = {
+            ...mcpQuery.query,
+            where: compiled.where,
+            timeRange: compiled.timeRange,
+            limit: compiled.pushdownLimit
+          };
+        }
+      }
+
+      const mcpResults = await this.executeQueryPlan(executionPlan, interpretedQuery);
+      const aggregated = await this.aggregator.aggregateResults(
+        mcpResults,
+        interpretedQuery.aggregationStrategy?.type || 'merge',
+        executionPlan.executionId,
+        naturalQuery.raw,
+        interpretedQuery,
+        startTime
+      );
+
+      const { rows, total } = this.structuredCompiler.shape(aggregated.data.primary, query);
+      const finalResult: QueryResult = {
+        ...aggregated,
+        duration: Date.now() - startTime,
+        results: rows,
+        data: {
+          ...aggregated.data,
+          primary: rows,
+          metadata: { ...aggregated.data.metadata, totalRecords: total }
+        }
+      };
+
+      this.queryHistory.push({
+        query: naturalQuery,
+        result: finalResult,
+        timestamp: Date.now()
+      });
+
+      return finalResult;
+
+    } catch (error) {
+      return this.handleQueryError(naturalQuery, error as Error, Date.now() - startTime);
+    }
+  }
+
+  /**
+   * The registry MCPs a query reads, each with a test for whether a record belongs in the
+   * query's result, so the result can be kept current as records change. Throws when the query
+   * cannot be interpreted or aggregates instead of listing records.
+   */
+  async watchTargets(query: string | StructuredQuery, context?: any): Promise<Array<{ mcp: BaseMCP; matcher: RecordMatcher }>> {
+    let interpretedQuery: InterpretedQuery;
+    let executionPlan: QueryExecutionPlan;
+    let where: Record<string, any> | undefined;
+
+    if (typeof query === 'string') {
+      ({ interpretedQuery, executionPlan } = await this.prepareNaturalQuery({ raw: query, context }));
+    } else {
+      const compiled = this.structuredCompiler.compile(query);
+      interpretedQuery = compiled.interpreted;
+      executionPlan = await this.planner.createExecutionPlan(interpretedQuery);
+      where = { where: compiled.where, timeRange: compiled.timeRange };
+    }
+    if (interpretedQuery.intents.some(intent => intent.type === 'aggregate')) {
+      throw new Error('Aggregating queries cannot be watched');
+    }
+
+    const targets = new Map<string, { mcp: BaseMCP; matcher: RecordMatcher }>();
+    for (const mcpQuery of executionPlan.phases.flatMap(phase => phase.mcpQueries)) {
+      const fragment = where ? { ...mcpQuery.query, ...where } : mcpQuery.query;
+      for (const mcp of await this.resolveMCPs(mcpQuery.mcpId)) {
+        const mcpId = mcp.getMetadata().id;
+        if (!targets.has(mcpId)) {
+          targets.set(mcpId, { mcp, matcher: this.translator.matcher(mcp, fragment) });
+        }
+      }
+    }
+    return Array.from(targets.values());
+  }
+
+  /**
+   * Execute the query plan across multiple MCPs; `timings` receives each phase as it completes
    */
   private async executeQueryPlan(
     plan: QueryExecutionPlan,
-    interpretedQuery: InterpretedQuery
+    interpretedQuery: InterpretedQuery,
+    paging?: PagingState,
+    timings?: PhaseTiming[]
   ): Promise<MCPResult[]> {
     const results: MCPResult[] = [];
     const errors: any[] = [];
+    const fusion = interpretedQuery.aggregationStrategy?.type === 'fusion'
+      ? interpretedQuery.aggregationStrategy.fusion || {}
+      : undefined;
 
     for (const phase of plan.phases) {
+      const phaseStart = Date.now();
+      const phaseResultsFrom = results.length;
+
       if (phase.parallelizable) {
         // Execute MCPs in parallel
         const phasePromises = phase.mcpQueries.map(mcpQuery => 
-          this.executeMCPQuery(mcpQuery.mcpId, mcpQuery.query)
+          this.executeMCPQuery(mcpQuery.mcpId, mcpQuery.query, paging, fusion)
         );
 
         try {
@@ -166,7 +528,7 @@ export class RAG2Controller {
         // Execute MCPs sequentially
         for (const mcpQuery of phase.mcpQueries) {
           try {
-            const result = await this.executeMCPQuery(mcpQuery.mcpId, mcpQuery.query);
+            const result = await this.executeMCPQuery(mcpQuery.mcpId, mcpQuery.query, paging, fusion);
             results.push(result);
           } catch (error) {
             errors.push({
@@ -182,6 +544,18 @@ export class RAG2Controller {
           }
         }
       }
+
+      timings?.push({
+        phase: phase.phase,
+        durationMs: Date.now() - phaseStart,
+        mcps: results.slice(phaseResultsFrom).map(result => ({
+          mcpId: result.mcpId,
+          durationMs: result.metadata.queryTime,
+          records: result.metadata.recordCount,
+          success: result.success,
+          ...(result.metadata.error && { error: result.metadata.error })
+        }))
+      });
     }
 
     // Handle partial failures
@@ -195,31 +569,29 @@ export class RAG2Controller {
   /**
    * Execute query on a specific MCP
    */
-  private async executeMCPQuery(mcpId: string, query: any): Promise<MCPResult> {
+  private async executeMCPQuery(mcpId: string, query: any, paging?: PagingState, fusion?: FusionOptions): Promise<MCPResult> {
     const startTime = Date.now();
     
     try {
-      // This would integrate with the actual MCP client
-      // For now, we'll simulate the MCP query execution
       const mcpClient = await this.getMCPClient(mcpId);
-      const data = await mcpClient.query(query);
+      // Fusion needs each retriever's own ranking rather than one merged page
+      const retrievals = fusion && mcpClient.retrieve ? await mcpClient.retrieve(query, fusion) : undefined;
+      const data = retrievals ? this.distinctRecords(retrievals) : await mcpClient.query(query, paging);
       
-      // Ensure we have data
-      const resultData = Array.isArray(data) ? data : [data];
-      const hasData = resultData.length > 0 && resultData[0] !== null && resultData[0] !== undefined;
-      
-      console.log(`MCP ${mcpId} query result:`, { hasData, dataLength: resultData.length, firstItem: resultData[0] });
+      const resultData = (Array.isArray(data) ? data : [data])
+        .filter(item => item !== null && item !== undefined);
       
       return {
         mcpId,
-        success: hasData,
+        success: true,
         data: resultData,
         metadata: {
           recordCount: resultData.length,
           queryTime: Date.now() - startTime,
           cacheHit: false // MCP would provide this
         },
-        queryFragment: query
+        queryFragment: query,
+        ...(retrievals && { retrievals })
       };
     } catch (error) {
       return {
@@ -240,15 +612,123 @@ export class RAG2Controller {
   /**
    * Get or create MCP client
    */
-  private async getMCPClient(mcpId: string): Promise<any> {
-    // For testing, always use simulation to ensure consistent results
+  private async getMCPClient(mcpId: string): Promise<{
+    query: (query: any, paging?: PagingState) => Promise<any[]>;
+    retrieve?: (query: any, fusion: FusionOptions) => Promise<RetrievalList[]>;
+  }> {
+    if (this.config.execution.mode === 'simulation') {
+      return {
+        query: async (query: any) => this.getSimulatedResponse(mcpId, query)
+      };
+    }
+
+    const mcps = await this.resolveMCPs(mcpId);
+    if (mcps.length === 0) {
+      throw new Error(`MCP not found in registry: ${mcpId}`);
+    }
+
     return {
-      query: async (query: any) => {
-        return this.getSimulatedResponse(mcpId, query);
+      query: async (query: any, paging?: PagingState) => {
+        const results = await Promise.all(mcps.map(async mcp => {
+          const key = `${mcpId}:${mcp.metadata.id}`;
+          if (paging?.cursors && !(key in paging.cursors)) {
+            return [];
+          }
+          const page = await this.translator.executePage(mcp, query, paging?.cursors?.[key]);
+          if (paging && page.nextCursor) {
+            paging.next[key] = page.nextCursor;
+          }
+          return page.records;
+        }));
+        return results.flat();
+      },
+      retrieve: async (query: any, fusion: FusionOptions) => {
+        const lists = await Promise.all(mcps.map(mcp => this.translator.retrieve(mcp, query, fusion)));
+        return lists.flat();
       }
     };
   }
 
+  private distinctRecords(lists: RetrievalList[]): any[] {
+    const records = new Map<any, any>();
+    for (const list of lists) {
+      for (const candidate of list.candidates) {
+        const key = candidate.record?.id ?? candidate.record;
+        if (!records.has(key)) records.set(key, candidate.record);
+      }
+    }
+    return Array.from(records.values());
+  }
+
+  /**
+   * Page through the records of a single MCP, sorted server-side
+   */
+  async listRecords(mcpId: string, filters: Record<string, any>, options: QueryPageOptions = {}): Promise<QueryPage> {
+    const mcp = await this.resolveSingleMCP(mcpId);
+    return mcp.queryPage(filters, options);
+  }
+
+  /**
+   * Resolve a reference that must name exactly one registry MCP
+   */
+  async resolveSingleMCP(mcpId: string): Promise<BaseMCP> {
+    const mcps = await this.resolveMCPs(mcpId);
+    if (mcps.length === 0) {
+      throw new Error(`MCP not found in registry: ${mcpId}`);
+    }
+    if (mcps.length > 1) {
+      throw new Error(`"${mcpId}" matches ${mcps.length} MCPs; use a registry ID`);
+    }
+    return mcps[0];
+  }
+
+  private openPaging(query: NaturalQuery): PagingState {
+    const cursor = query.preferences?.cursor;
+    if (!cursor) {
+      return { next: {} };
+    }
+
+    const cursors = decodeCursor<Record<string, string>>(cursor, this.pagingFingerprint(query));
+    if (!cursors || typeof cursors !== 'object' || Object.values(cursors).some(value => typeof value !== 'string')) {
+      throw new InvalidCursorError();
+    }
+    return { cursors, next: {} };
+  }
+
+  private pagingFingerprint(query: NaturalQuery): string {
+    return queryFingerprint(
+      'natural',
+      query.raw.toLowerCase().trim(),
+      query.context?.userId || null,
+      query.context?.timeZone || null,
+      query.preferences?.pageSize || null
+    );
+  }
+
+  /**
+   * Resolve a planner MCP reference to registry instances.
+   * Accepts a registry ID, an MCP name (e.g. 'user-mcp'), or a '<domain>-mcp' alias.
+   */
+  private async resolveMCPs(mcpId: string): Promise<BaseMCP[]> {
+    const direct = await this.mcpRegistry.getMCP(mcpId);
+    if (direct) return [direct];
+
+    const all = Array.from((await this.mcpRegistry.getAllMCPs()).values());
+    const named: BaseMCP[] = [];
+    for (const mcp of all) {
+      const metadata = await mcp.getMetadata();
+      if (metadata.name === mcpId) named.push(mcp);
+    }
+    if (named.length > 0) return named;
+
+    const aliasMatch = mcpId.match(/^([a-z]+)-mcp$/);
+    if (aliasMatch) {
+      return Array.from((await this.mcpRegistry.getMCPsByDomain(aliasMatch[1])).values());
+    }
+
+    return [];
+  }
+
   /**
    * Get simulated response based on MCP ID
    */
@@ -312,6 +792,79 @@ export class RAG2Controller {
     };
   }
 
+  /**
+   * Hold a clarification request for an ambiguous interpretation; undefined when it is clear
+   * enough to run
+   */
+  private openClarification(query: NaturalQuery, interpreted: InterpretedQuery): ClarificationRequest | undefined {
+    const threshold = this.config.nlp.confidence_threshold;
+    const draft = assessClarification(interpreted, this.parser, { threshold });
+    if (!draft) {
+      return undefined;
+    }
+
+    this.purgeClarifications();
+    const request: ClarificationRequest = {
+      clarificationId: uuidv4(),
+      query: query.raw,
+      reasons: draft.reasons,
+      confidence: interpreted.confidence,
+      threshold,
+      questions: draft.questions,
+      candidates: draft.candidates.map(({ interpretation, ...candidate }): ClarificationCandidate => candidate),
+      expiresAt: Date.now() + (this.config.nlp.clarification_ttl ?? 10 * 60 * 1000)
+    };
+    this.clarifications.set(request.clarificationId, {
+      request,
+      query,
+      interpretations: new Map(draft.candidates.map(candidate => [candidate.id, candidate.interpretation]))
+    });
+    // Maps iterate in insertion order, so the first entries are the oldest
+    while (this.clarifications.size > MAX_PENDING_CLARIFICATIONS) {
+      this.clarifications.delete(this.clarifications.keys().next().value!);
+    }
+    return request;
+  }
+
+  private purgeClarifications(): void {
+    const now = Date.now();
+    for (const [id, pending] of this.clarifications) {
+      if (pending.request.expiresAt <= now) {
+        this.clarifications.delete(id);
+      }
+    }
+  }
+
+  /**
+   * A result that ran nothing and asks which reading was meant
+   */
+  private clarificationResult(clarification: ClarificationRequest, interpreted: InterpretedQuery, duration: number): QueryResult {
+    return {
+      executionId: interpreted.executionPlan.executionId,
+      success: true,
+      duration,
+      timestamp: Date.now(),
+      data: {
+        primary: [],
+        metadata: {
+          totalRecords: 0,
+          sources: [],
+          aggregationApplied: 'none'
+        }
+      },
+      insights: {
+        interpretation: `"${clarification.query}" could be read ${clarification.candidates.length} ways: ${clarification.candidates.map(candidate => candidate.label).join(', ')}`,
+        performanceNotes: [],
+        suggestions: clarification.questions
+      },
+      caching: {
+        cached: false
+      },
+      clarification,
+      ...(interpreted.language && { language: interpreted.language })
+    };
+  }
+
   /**
    * Learn from successful and failed queries
    */
@@ -355,19 +908,36 @@ export class RAG2Controller {
   private generateCacheKey(query: NaturalQuery): string {
     const keyData = {
       raw: query.raw.toLowerCase().trim(),
-      context: query.context?.userId || 'anonymous'
+      context: query.context?.userId || 'anonymous',
+      // Calendar phrases resolve to different ranges in different zones
+      timeZone: query.context?.timeZone || null,
+      cursor: query.preferences?.cursor || null,
+      pageSize: query.preferences?.pageSize || null,
+      fusion: query.preferences?.fusion || null
     };
     return `rag2_${JSON.stringify(keyData)}`;
   }
 
+  /**
+   * Whether the query's time range is reckoned from the current time, like "today" or
+   * "last 36 hours"
+   */
+  private readsRelativeTime(interpreted: InterpretedQuery): boolean {
+    return interpreted.entities.extractedEntities.some(entity => entity.type === 'dateRange' && entity.metadata?.relative);
+  }
+
   private cacheResult(cacheKey: string, result: QueryResult): void {
-    // Set TTL based on data freshness
+    // Set TTL (seconds) based on data freshness
     const ttl = result.caching.cacheTTL || this.config.caching.default_ttl;
+    if (ttl <= 0) return;
     
     // In a real implementation, this would use Redis or similar
     this.queryCache.set(cacheKey, {
-      ...result,
-      caching: { ...result.caching, cached: true, cacheTTL: ttl }
+      result: {
+        ...result,
+        caching: { ...result.caching, cached: true, cacheTTL: ttl }
+      },
+      expiresAt: Date.now() + ttl * 1000
     });
 
     // Clean up old cache entries
@@ -398,7 +968,7 @@ export class RAG2Controller {
   }
 
   /**
-   * Simulation methods for development/testing
+   * Simulation methods for development/testing (execution.mode = 'simulation')
    */
   private simulateUserMCPResponse(query: any): any[] {
     return [
@@ -466,7 +1036,8 @@ export class RAG2Controller {
         max_parallel_mcps: 5,
         query_timeout: 30000,
         retry_attempts: 2,
-        fallback_enabled: true
+        fallback_enabled: true,
+        mode: 'live'
       },
       caching: {
         enabled: true,
@@ -509,6 +1080,20 @@ export class RAG2Controller {
     };
   }
 
+  /**
+   * Re-ranker for fused results; undefined keeps the fused order
+   */
+  setReranker(reranker?: Reranker): void {
+    this.aggregator.setReranker(reranker);
+  }
+
+  /**
+   * Language model that writes answers (default: the offline TemplateLLMProvider)
+   */
+  setLLMProvider(provider: LLMProvider): void {
+    this.answers.setProvider(provider);
+  }
+
   /**
    * Clear all caches and reset learning
    */
@@ -519,11 +1104,13 @@ export class RAG2Controller {
   }
 
   /**
-   * Test natural language understanding
+   * Test natural language understanding; `context.sessionId` lets the parser draw on that
+   * session's earlier queries
    */
-  async plan(query: string): Promise<InterpretedQuery> {
+  async plan(query: string, context?: any): Promise<InterpretedQuery> {
     const naturalQuery: NaturalQuery = {
       raw: query,
+      context,
       metadata: {
         id: 'test',
         timestamp: Date.now(),
@@ -535,6 +1122,21 @@ export class RAG2Controller {
     return this.parser.parse(naturalQuery);
   }
 
+  /**
+   * Load the *.json language packs in a directory, adding languages or replacing built-in ones;
+   * returns the languages loaded. Throws LanguagePackError on an invalid pack.
+   */
+  async loadLanguagePacks(directory: string): Promise<string[]> {
+    return this.parser.loadLanguagePacks(directory);
+  }
+
+  /**
+   * Languages queries can be written in
+   */
+  getLanguages(): string[] {
+    return this.parser.getLanguages();
+  }
+
   /**
    * Get supported query examples
    */
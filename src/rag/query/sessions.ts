@@ -0,0 +1,234 @@
+/**
+ * RAG₂ Query Sessions
+ * Multi-turn dialogues with the database: each session keeps its turns, and a query that reads
+ * as a follow-up refines the previous turn's interpretation instead of starting over
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { QueryResult } from '../../types/query.types';
+import { QuerySession, QuerySessionSummary, SessionTurn, TurnResultSummary } from '../../types/conversation.types';
+import { MemorySessionStore, SessionStore } from '../../core/storage/session_store';
+import { RAG2Controller } from './rag2';
+import { resolveFollowUp } from './followup';
+
+export interface QuerySessionConfig {
+  /** Idle time after which a session expires (default 30 minutes) */
+  ttlMs: number;
+  /** Turns kept per session; older ones are dropped (default 50) */
+  maxTurns: number;
+  /** How often expired sessions are purged (default 60 seconds) */
+  sweepIntervalMs: number;
+  /** Where sessions are persisted (default: memory only) */
+  store?: SessionStore;
+}
+
+export interface SessionQueryResponse {
+  session: QuerySessionSummary;
+  turn: SessionTurn;
+  result: QueryResult;
+}
+
+// Record IDs kept in a turn's result summary
+const SUMMARY_RECORD_IDS = 20;
+
+export class SessionNotFoundError extends Error {
+  constructor(sessionId: string) {
+    super(`Session not found: ${sessionId}`);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export class QuerySessionManager extends EventEmitter {
+  private readonly config: QuerySessionConfig;
+  private readonly store: SessionStore;
+  private sessions: Map<string, QuerySession> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(private readonly rag2: RAG2Controller, config: Partial<QuerySessionConfig> = {}) {
+    super();
+    this.config = {
+      ttlMs: 30 * 60 * 1000,
+      maxTurns: 50,
+      sweepIntervalMs: 60 * 1000,
+      ...config
+    };
+    this.store = config.store || new MemorySessionStore();
+  }
+
+  /**
+   * Load persisted sessions that have not expired and start the expiry sweeper
+   */
+  async initialize(): Promise<void> {
+    await this.store.open();
+
+    const now = Date.now();
+    for (const session of await this.store.loadAll()) {
+      if (session.expiresAt > now) {
+        this.sessions.set(session.id, session);
+      } else {
+        await this.store.delete(session.id);
+      }
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.purgeExpired().catch(error => {
+        // A timer has no caller to throw to, so only report when someone is listening
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', error);
+        }
+      });
+    }, this.config.sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  async createSession(options: { userId?: string; ttlMs?: number; metadata?: Record<string, any> } = {}): Promise<QuerySession> {
+    const now = Date.now();
+    const ttlMs = options.ttlMs ?? this.config.ttlMs;
+    const session: QuerySession = {
+      id: uuidv4(),
+      ...(options.userId && { userId: options.userId }),
+      createdAt: now,
+      lastActivity: now,
+      expiresAt: now + ttlMs,
+      ttlMs,
+      turns: [],
+      ...(options.metadata && { metadata: options.metadata })
+    };
+
+    this.sessions.set(session.id, session);
+    await this.store.save(session);
+    this.emit('session_created', { sessionId: session.id, userId: session.userId });
+    return session;
+  }
+
+  /**
+   * A live session. Throws SessionNotFoundError when it does not exist, has expired, or
+   * belongs to another user.
+   */
+  getSession(sessionId: string, userId?: string): QuerySession {
+    const session = this.sessions.get(sessionId);
+    if (!session || (session.userId && session.userId !== userId)) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    if (session.expiresAt <= Date.now()) {
+      this.expire(session).catch(() => undefined);
+      throw new SessionNotFoundError(sessionId);
+    }
+    return session;
+  }
+
+  /**
+   * Live sessions of a user (or anonymous sessions when no user is given), most recent first
+   */
+  listSessions(userId?: string): QuerySessionSummary[] {
+    const now = Date.now();
+    return Array.from(this.sessions.values())
+      .filter(session => session.expiresAt > now && session.userId === userId)
+      .sort((a, b) => b.lastActivity - a.lastActivity)
+      .map(summarizeSession);
+  }
+
+  async deleteSession(sessionId: string, userId?: string): Promise<void> {
+    const session = this.getSession(sessionId, userId);
+    this.sessions.delete(session.id);
+    await this.store.delete(session.id);
+    this.emit('session_deleted', { sessionId: session.id });
+  }
+
+  /**
+   * Run a query in a session. A follow-up ("now only the admins") is applied to the last
+   * turn that ran; anything else is parsed as a query of its own.
+   */
+  async query(sessionId: string, text: string, options: any = {}, userId?: string): Promise<SessionQueryResponse> {
+    const session = this.getSession(sessionId, userId);
+    const context = { ...options.context, sessionId: session.id };
+
+    const previous = [...session.turns].reverse().find(turn => turn.interpretation && turn.result.success);
+    const followUp = previous ? resolveFollowUp(text, previous.interpretation!, { timeZone: context.timeZone }) : null;
+
+    // When parsing fails, running the query without an interpretation parses it again and
+    // reports the failure the way every other query does
+    const interpretation = followUp?.interpretation ?? await this.rag2.plan(text, context).catch(() => undefined);
+    const result = await this.rag2.query(text, context, options, interpretation);
+
+    const turn: SessionTurn = {
+      index: session.turns.length > 0 ? session.turns[session.turns.length - 1].index + 1 : 0,
+      query: text,
+      ...(followUp && previous && { followUpOf: previous.index, changes: followUp.changes }),
+      ...(interpretation && { interpretation: JSON.parse(JSON.stringify(interpretation)) }),
+      result: summarizeResult(result),
+      timestamp: Date.now()
+    };
+
+    session.turns.push(turn);
+    if (session.turns.length > this.config.maxTurns) {
+      session.turns.splice(0, session.turns.length - this.config.maxTurns);
+    }
+    this.touch(session);
+    await this.store.save(session);
+
+    this.emit('turn_completed', { sessionId: session.id, turn: turn.index, followUp: !!followUp, success: result.success });
+    return { session: summarizeSession(session), turn, result };
+  }
+
+  /**
+   * Drop every expired session; returns how many were dropped
+   */
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    const expired = Array.from(this.sessions.values()).filter(session => session.expiresAt <= now);
+    for (const session of expired) {
+      await this.expire(session);
+    }
+    return expired.length;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+    await this.store.close();
+  }
+
+  private touch(session: QuerySession): void {
+    session.lastActivity = Date.now();
+    session.expiresAt = session.lastActivity + session.ttlMs;
+  }
+
+  private async expire(session: QuerySession): Promise<void> {
+    if (!this.sessions.delete(session.id)) return;
+    await this.store.delete(session.id);
+    this.emit('session_expired', { sessionId: session.id, expiresAt: session.expiresAt });
+  }
+}
+
+export function summarizeSession(session: QuerySession): QuerySessionSummary {
+  const last = session.turns[session.turns.length - 1];
+  return {
+    id: session.id,
+    ...(session.userId && { userId: session.userId }),
+    createdAt: session.createdAt,
+    lastActivity: session.lastActivity,
+    expiresAt: session.expiresAt,
+    turnCount: session.turns.length,
+    ...(last && { lastQuery: last.query })
+  };
+}
+
+function summarizeResult(result: QueryResult): TurnResultSummary {
+  return {
+    executionId: result.executionId,
+    success: result.success,
+    totalRecords: result.data.metadata.totalRecords,
+    mcpIds: result.data.metadata.sources.map(source => source.mcpId),
+    recordIds: result.data.primary
+      .map(record => record?.id)
+      .filter(id => id !== undefined)
+      .slice(0, SUMMARY_RECORD_IDS)
+      .map(String),
+    duration: result.duration,
+    ...(!result.success && result.errors?.[0] && { error: result.errors[0].error })
+  };
+}
@@ -0,0 +1,396 @@
+/**
+ * RAG₂ Structured Query Compiler
+ * Compiles the JSON query DSL into the interpreted form consumed by the execution planner
+ */
+
+import {
+  InterpretedQuery,
+  NaturalQuery,
+  QueryFilter,
+  FilterOperator,
+  StructuredQuery,
+  StructuredCondition,
+  StructuredAggregate
+} from '../../types/query.types';
+import { compileFilter, compileRegex, resolveFieldPath } from '../../core/mcp/filter_matcher';
+
+export interface CompiledStructuredQuery {
+  interpreted: InterpretedQuery;
+  /** BaseMCP.query filter for the where clause and time range */
+  where: Record<string, any>;
+  timeRange?: { start?: number; end?: number };
+  /** Per-MCP limit; only set when no ordering or grouping depends on the full result set */
+  pushdownLimit?: number;
+}
+
+const OPERATOR_MAP: Record<string, FilterOperator> = {
+  eq: 'eq',
+  ne: 'not_equals',
+  gt: 'greater_than',
+  gte: 'greater_than_or_equal',
+  lt: 'less_than',
+  lte: 'less_than_or_equal',
+  in: 'in',
+  nin: 'not_in',
+  contains: 'contains',
+  startsWith: 'starts_with',
+  endsWith: 'ends_with',
+  regex: 'regex',
+  exists: 'exists',
+  between: 'between'
+};
+
+export class StructuredQueryCompiler {
+  /**
+   * Compile a structured query into an interpreted query plus the MCP-side filter
+   */
+  compile(query: StructuredQuery): CompiledStructuredQuery {
+    const targets = (Array.isArray(query.from) ? query.from : [query.from]).filter(Boolean);
+    if (targets.length === 0) {
+      throw new Error('Structured query requires at least one target in "from"');
+    }
+
+    if (query.where) {
+      this.validateCondition(query.where);
+    }
+
+    const timeRange = this.resolveTimeRange(query.timeRange);
+    const where = this.compileWhere(query.where, timeRange);
+    const grouped = !!(query.groupBy?.length || query.aggregate?.length);
+    const pushdownLimit = query.limit !== undefined && !grouped && !query.orderBy?.length
+      ? query.limit + (query.offset || 0)
+      : undefined;
+
+    const originalQuery: NaturalQuery = { raw: JSON.stringify(query) };
+    const targetMCPs = Array.from(new Set(targets.map(target => this.resolveTarget(target))));
+
+    const interpreted: InterpretedQuery = {
+      originalQuery,
+      intents: [{
+        type: grouped ? 'aggregate' : 'retrieve',
+        confidence: 1,
+        parameters: { structured: true }
+      }],
+      entities: {
+        dataType: targets.length === 1 ? targets[0].replace(/-mcp$/, '') : 'mixed',
+        filters: this.flattenFilters(query.where),
+        fields: query.select,
+        sorting: query.orderBy?.map((order, index) => ({
+          field: order.field,
+          direction: order.direction || 'asc',
+          priority: index + 1
+        })),
+        grouping: query.aggregate?.map(aggregate => ({
+          field: aggregate.field || query.groupBy?.[0] || 'id',
+          aggregation: aggregate.fn,
+          alias: this.aggregateName(aggregate)
+        })),
+        extractedEntities: []
+      },
+      targetMCPs,
+      executionPlan: {
+        executionId: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        phases: [],
+        estimatedTime: 0,
+        resourceRequirements: {
+          cpu: 50,
+          memory: 200,
+          diskIO: 100,
+          networkBandwidth: 50,
+          dataSize: 1000
+        },
+        optimizations: [],
+        steps: [],
+        optimizationStrategy: 'standard',
+        parallelization: {
+          parallel: targetMCPs.length > 1,
+          maxParallelism: Math.min(targetMCPs.length, 5),
+          groups: [],
+          synchronizationPoints: []
+        }
+      },
+      aggregationStrategy: {
+        type: 'merge',
+        mergeStrategy: 'append',
+        conflictResolution: 'first_wins',
+        transformations: []
+      },
+      confidence: 1,
+      alternatives: [],
+      optimizations: [],
+      explanation: {
+        interpretation: `Structured ${grouped ? 'aggregate' : 'retrieve'} query over ${targets.join(', ')}`,
+        mcpSelection: `Selected MCPs: ${targetMCPs.join(', ')} from the "from" clause`,
+        executionPlan: `Will query ${targetMCPs.length} MCPs and merge results`
+      }
+    };
+
+    return { interpreted, where, timeRange, pushdownLimit };
+  }
+
+  /**
+   * Apply the where clause, grouping, ordering, pagination and projection to merged records.
+   * The where clause is re-checked here since MCPs may ignore filter operators they do not support.
+   */
+  shape(records: any[], query: StructuredQuery): { rows: any[]; total: number } {
+    const predicate = compileFilter(this.compileWhere(query.where, this.resolveTimeRange(query.timeRange)));
+
+    let rows = records.filter(predicate);
+
+    const grouped = !!(query.groupBy?.length || query.aggregate?.length);
+    if (grouped) {
+      rows = this.group(rows, query.groupBy || [], query.aggregate || [{ fn: 'count' }]);
+    }
+
+    if (query.orderBy?.length) {
+      const orderBy = query.orderBy;
+      rows = [...rows].sort((a, b) => {
+        for (const order of orderBy) {
+          const result = this.compareValues(
+            this.resolveValue(a, order.field, !grouped),
+            this.resolveValue(b, order.field, !grouped)
+          );
+          if (result !== 0) {
+            return order.direction === 'desc' ? -result : result;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const total = rows.length;
+    const offset = query.offset || 0;
+    rows = rows.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+
+    if (query.select?.length) {
+      const select = query.select;
+      rows = rows.map(row => {
+        const projected: Record<string, any> = {};
+        for (const field of select) {
+          projected[field] = this.resolveValue(row, field, !grouped);
+        }
+        return projected;
+      });
+    }
+
+    return { rows, total };
+  }
+
+  /**
+   * Compile the where clause into BaseMCP.query filter syntax
+   */
+  private compileWhere(
+    condition: StructuredCondition | undefined,
+    timeRange?: { start?: number; end?: number }
+  ): Record<string, any> {
+    const clauses: Record<string, any>[] = [];
+
+    if (condition) {
+      clauses.push(this.compileCondition(condition));
+    }
+    if (timeRange) {
+      clauses.push({
+        timestamp: {
+          ...(timeRange.start !== undefined && { $gte: timeRange.start }),
+          ...(timeRange.end !== undefined && { $lte: timeRange.end })
+        }
+      });
+    }
+
+    if (clauses.length === 0) return {};
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
+  }
+
+  private compileCondition(condition: StructuredCondition): Record<string, any> {
+    if ('and' in condition) {
+      return { $and: condition.and.map(child => this.compileCondition(child)) };
+    }
+    if ('or' in condition) {
+      return { $or: condition.or.map(child => this.compileCondition(child)) };
+    }
+
+    const { field, op, value } = condition;
+    switch (op) {
+      case 'eq':
+        return { [field]: value };
+      case 'ne':
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        return { [field]: { [`$${op}`]: value } };
+      case 'in':
+      case 'nin':
+        return { [field]: { [`$${op}`]: this.asArray(value) } };
+      case 'contains':
+        return { [field]: { $regex: this.escapeRegex(String(value)), $options: 'i' } };
+      case 'startsWith':
+        return { [field]: { $regex: `^${this.escapeRegex(String(value))}`, $options: 'i' } };
+      case 'endsWith':
+        return { [field]: { $regex: `${this.escapeRegex(String(value))}$`, $options: 'i' } };
+      case 'regex':
+        return { [field]: { $regex: String(value) } };
+      case 'exists':
+        return { [field]: { $exists: value !== false } };
+      case 'between': {
+        const [min, max] = this.asArray(value);
+        return { [field]: { $gte: min, $lte: max } };
+      }
+    }
+  }
+
+  /**
+   * Top-level conjunctive predicates in planner filter form, used for planning and explanation
+   */
+  private flattenFilters(condition?: StructuredCondition): QueryFilter[] {
+    if (!condition) return [];
+    if ('or' in condition) return [];
+    if ('and' in condition) {
+      return condition.and.flatMap(child => this.flattenFilters(child));
+    }
+
+    return [{
+      field: condition.field,
+      operator: OPERATOR_MAP[condition.op],
+      value: condition.value
+    }];
+  }
+
+  private validateCondition(condition: StructuredCondition): void {
+    if ('and' in condition || 'or' in condition) {
+      const children = 'and' in condition ? condition.and : condition.or;
+      children.forEach(child => this.validateCondition(child));
+      return;
+    }
+
+    if (!(condition.op in OPERATOR_MAP)) {
+      throw new Error(`Unsupported operator "${condition.op}" on field "${condition.field}"`);
+    }
+    if (condition.op === 'between' && (!Array.isArray(condition.value) || condition.value.length !== 2)) {
+      throw new Error(`Operator "between" on field "${condition.field}" requires a [min, max] pair`);
+    }
+    if (condition.op === 'regex') {
+      try {
+        compileRegex(String(condition.value));
+      } catch (error) {
+        throw new Error(`${(error as Error).message} on field "${condition.field}"`);
+      }
+    }
+  }
+
+  private group(records: any[], groupBy: string[], aggregates: StructuredAggregate[]): any[] {
+    const groups = new Map<string, { key: Record<string, any>; records: any[] }>();
+
+    for (const record of records) {
+      const key: Record<string, any> = {};
+      for (const field of groupBy) {
+        key[field] = this.resolveValue(record, field, true);
+      }
+      const hash = JSON.stringify(groupBy.map(field => key[field]));
+      if (!groups.has(hash)) {
+        groups.set(hash, { key, records: [] });
+      }
+      groups.get(hash)!.records.push(record);
+    }
+
+    // Aggregates without groupBy still produce a single row, even for an empty input
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', { key: {}, records: [] });
+    }
+
+    return Array.from(groups.values()).map(({ key, records: members }) => {
+      const row: Record<string, any> = { ...key };
+      for (const aggregate of aggregates) {
+        row[this.aggregateName(aggregate)] = this.computeAggregate(members, aggregate);
+      }
+      return row;
+    });
+  }
+
+  private computeAggregate(records: any[], aggregate: StructuredAggregate): number | null {
+    if (aggregate.fn === 'count' && !aggregate.field) {
+      return records.length;
+    }
+
+    const values = records
+      .map(record => this.resolveValue(record, aggregate.field!, true))
+      .filter(value => value !== undefined && value !== null);
+
+    if (aggregate.fn === 'count') {
+      return values.length;
+    }
+
+    const numbers = values.map(Number).filter(value => !isNaN(value));
+    if (numbers.length === 0) {
+      return aggregate.fn === 'sum' ? 0 : null;
+    }
+
+    switch (aggregate.fn) {
+      case 'sum':
+        return numbers.reduce((sum, value) => sum + value, 0);
+      case 'avg':
+        return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+      case 'min':
+        return Math.min(...numbers);
+      case 'max':
+        return Math.max(...numbers);
+    }
+  }
+
+  private aggregateName(aggregate: StructuredAggregate): string {
+    if (aggregate.as) return aggregate.as;
+    return aggregate.field ? `${aggregate.fn}_${aggregate.field}` : aggregate.fn;
+  }
+
+  /**
+   * Resolve a dotted field path on a record (envelope first, then data) or on a grouped row
+   */
+  private resolveValue(target: any, path: string, isRecord: boolean): any {
+    if (isRecord) {
+      return resolveFieldPath(target, path);
+    }
+    return path.split('.').reduce((current, segment) =>
+      current === null || current === undefined ? undefined : current[segment], target);
+  }
+
+  private resolveTarget(target: string): string {
+    // Bare domains map to their '<domain>-mcp' alias; names and registry IDs pass through
+    return target.includes('-') ? target : `${target}-mcp`;
+  }
+
+  private resolveTimeRange(range?: StructuredQuery['timeRange']): { start?: number; end?: number } | undefined {
+    if (!range || (range.from === undefined && range.to === undefined)) return undefined;
+
+    return {
+      start: range.from !== undefined ? this.toTimestamp(range.from, 'from') : undefined,
+      end: range.to !== undefined ? this.toTimestamp(range.to, 'to') : undefined
+    };
+  }
+
+  private toTimestamp(value: string | number, name: string): number {
+    const timestamp = typeof value === 'number' ? value : Date.parse(value);
+    if (isNaN(timestamp)) {
+      throw new Error(`Invalid timeRange.${name}: ${value}`);
+    }
+    return timestamp;
+  }
+
+  private compareValues(a: any, b: any): number {
+    if (a === b) return 0;
+    if (a === undefined || a === null) return -1;
+    if (b === undefined || b === null) return 1;
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (a instanceof Date || b instanceof Date) {
+      return new Date(a).getTime() - new Date(b).getTime();
+    }
+    return String(a).localeCompare(String(b));
+  }
+
+  private asArray(value: any): any[] {
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,504 @@
+/**
+ * RAG₂ Temporal Expressions
+ * Resolves the time phrases of a query - "between March 3 and March 10", "last 36 hours",
+ * "Q2 2025", "since Monday", "the week before last", ISO 8601 intervals - to concrete ranges
+ *
+ * Calendar phrases are reckoned in the user's time zone: "today" in Tokyo starts at midnight in
+ * Tokyo. Ranges are inclusive epoch milliseconds, so they push down as a timestamp filter.
+ */
+
+import { TemporalContext } from '../../types/query.types';
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface ResolvedTimeExpression extends TimeRange {
+  /** The phrase that was resolved, as it appears in the query */
+  expression: string;
+  position: { start: number; end: number };
+}
+
+export interface TemporalOptions {
+  /** Reference time; defaults to Date.now() */
+  now?: number;
+  /** IANA zone, e.g. 'Europe/Berlin'; the server's zone when absent or unknown */
+  timeZone?: string;
+}
+
+interface CivilDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+interface Reckoning {
+  now: number;
+  timeZone: string;
+  today: CivilDate;
+}
+
+interface ExpressionRule {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, reckoning: Reckoning) => TimeRange | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const FIXED_UNIT_MS: Record<string, number> = {
+  minute: MINUTE_MS, min: MINUTE_MS, hour: HOUR_MS, hr: HOUR_MS, day: DAY_MS, week: 7 * DAY_MS
+};
+const CALENDAR_UNIT_MONTHS: Record<string, number> = { month: 1, year: 12 };
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const ORDINALS: Record<string, number> = { first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4 };
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const WEEKDAY = `(?:${WEEKDAYS.join('|')})`;
+const YEAR = '(?:19|20)\\d{2}';
+const ISO_DATE = '\\d{4}-\\d{2}-\\d{2}';
+const DAY_OF_MONTH = '\\d{1,2}(?:st|nd|rd|th)?';
+// A single day: an ISO date, "march 3[, 2025]", "3 march [2025]", today, yesterday or a weekday
+const DAY = `(?:${ISO_DATE}|${MONTH}\\.?\\s+${DAY_OF_MONTH}(?:,?\\s+${YEAR})?|${DAY_OF_MONTH}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+${YEAR})?|today|yesterday|(?:last\\s+)?${WEEKDAY})`;
+const ISO_POINT = `${ISO_DATE}(?:t\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d{1,3})?)?(?:z|[+-]\\d{2}:?\\d{2})?)?`;
+const ISO_DURATION = 'p(?:\\d+y)?(?:\\d+m)?(?:\\d+w)?(?:\\d+d)?(?:t(?:\\d+h)?(?:\\d+m)?(?:\\d+s)?)?';
+
+const RULES: ExpressionRule[] = [
+  // ISO 8601 intervals: start/end, start/duration, duration/end
+  {
+    pattern: new RegExp(`(?<![\\w-])(${ISO_POINT}|${ISO_DURATION})\\/(${ISO_POINT}|${ISO_DURATION})(?![\\w-])`, 'g'),
+    resolve: (match, reckoning) => resolveIsoInterval(match[1], match[2], reckoning)
+  },
+  // between march 3 and march 10, from 2025-03-03 to 2025-03-10
+  {
+    pattern: new RegExp(`\\b(?:between|from)\\s+(${DAY})\\s+(?:and|to|until|till|through|thru|-)\\s+(${DAY})\\b`, 'g'),
+    resolve: (match, reckoning) => resolveDaySpan(match[1], match[2], reckoning)
+  },
+  // last 36 hours, past 2 weeks, 3 days ago
+  {
+    pattern: /\b(?:(?:last|past|previous)\s+(\d+)\s+(minute|min|hour|hr|day|week|month|year)s?|(\d+)\s+(minute|min|hour|hr|day|week|month|year)s?\s+ago)\b/g,
+    resolve: (match, reckoning) => {
+      const amount = parseInt(match[1] ?? match[3], 10);
+      const unit = match[2] ?? match[4];
+      const start = FIXED_UNIT_MS[unit]
+        ? reckoning.now - amount * FIXED_UNIT_MS[unit]
+        : shiftMonths(reckoning.now, -amount * CALENDAR_UNIT_MONTHS[unit], reckoning.timeZone);
+      return { start, end: reckoning.now };
+    }
+  },
+  // q2 2025, 2025 q2, second quarter of 2025, this quarter, last quarter
+  {
+    pattern: new RegExp(`\\b(?:q([1-4])(?:\\s+(?:of\\s+)?(${YEAR}))?|(${YEAR})[\\s-]*q([1-4])|(first|second|third|fourth|1st|2nd|3rd|4th)\\s+quarter(?:\\s+(?:of\\s+)?(${YEAR}))?|(this|last|previous)\\s+quarter)\\b`, 'g'),
+    resolve: (match, reckoning) => {
+      const current = Math.ceil(reckoning.today.month / 3);
+      if (match[7]) {
+        const offset = match[7] === 'this' ? 0 : -1;
+        const index = reckoning.today.year * 4 + current - 1 + offset;
+        return quarterRange(Math.floor(index / 4), (index % 4) + 1, reckoning);
+      }
+      const quarter = parseInt(match[1] ?? match[4], 10) || ORDINALS[match[5]];
+      const year = parseInt(match[2] ?? match[3] ?? match[6], 10) || reckoning.today.year;
+      return quarterRange(year, quarter, reckoning);
+    }
+  },
+  // the week before last, the month before last, the year before last
+  {
+    pattern: /\bthe\s+(week|month|year)\s+before\s+last\b/g,
+    resolve: (match, reckoning) => {
+      const today = reckoning.today;
+      if (match[1] === 'week') {
+        // Weeks start on Monday
+        const monday = addDays(today, -((weekday(today) + 6) % 7) - 14);
+        return { start: startOfDay(monday, reckoning), end: endOfDay(addDays(monday, 6), reckoning) };
+      }
+      if (match[1] === 'month') {
+        const first = addMonths({ year: today.year, month: today.month, day: 1 }, -2);
+        return monthRange(first.year, first.month, reckoning);
+      }
+      return yearRange(today.year - 2, reckoning);
+    }
+  },
+  // since monday, since march 3, since march, since 2024
+  {
+    pattern: new RegExp(`\\bsince\\s+(?:(${DAY})|(${MONTH})(?:\\s+(${YEAR}))?|(${YEAR}))\\b`, 'g'),
+    resolve: (match, reckoning) => {
+      let start: number | null = null;
+      if (match[1]) {
+        const day = parseDay(match[1], reckoning);
+        start = day && startOfDay(day, reckoning);
+      } else if (match[2]) {
+        const month = monthIndex(match[2]);
+        const year = match[3] ? parseInt(match[3], 10) : reckoning.today.year - (month > reckoning.today.month ? 1 : 0);
+        start = startOfDay({ year, month, day: 1 }, reckoning);
+      } else {
+        start = startOfDay({ year: parseInt(match[4], 10), month: 1, day: 1 }, reckoning);
+      }
+      return start === null ? null : { start, end: reckoning.now };
+    }
+  },
+  // in march, during march 2025, march 2025, in 2024
+  {
+    pattern: new RegExp(`\\b(?:(?:in|during)\\s+(${MONTH})(?:\\s+(${YEAR}))?|(${MONTH})\\s+(${YEAR})|(?:in|during)\\s+(${YEAR}))\\b`, 'g'),
+    resolve: (match, reckoning) => {
+      if (match[5]) {
+        return yearRange(parseInt(match[5], 10), reckoning);
+      }
+      const month = monthIndex(match[1] ?? match[3]);
+      const given = match[2] ?? match[4];
+      const year = given ? parseInt(given, 10) : reckoning.today.year - (month > reckoning.today.month ? 1 : 0);
+      return monthRange(year, month, reckoning);
+    }
+  },
+  // on monday, march 3, 2025-03-03
+  {
+    pattern: new RegExp(`\\b(?:on\\s+(${DAY})|(${ISO_DATE}|${MONTH}\\.?\\s+${DAY_OF_MONTH}(?:,?\\s+${YEAR})?|${DAY_OF_MONTH}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+${YEAR})?))\\b`, 'g'),
+    resolve: (match, reckoning) => {
+      const day = parseDay(match[1] ?? match[2], reckoning);
+      return day && { start: startOfDay(day, reckoning), end: endOfDay(day, reckoning) };
+    }
+  }
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Whether the runtime knows an IANA time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The time phrase in a (lowercased) query resolved to a range, or null when it has none. With
+ * several phrases, the earliest wins, and of those starting together the longest.
+ */
+export function resolveTimeExpression(text: string, options: TemporalOptions = {}): ResolvedTimeExpression | null {
+  const reckoning = reckon(options);
+  let best: ResolvedTimeExpression | null = null;
+
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const position = { start: match.index, end: match.index + match[0].length };
+      const better = !best || position.start < best.position.start ||
+        (position.start === best.position.start && position.end > best.position.end);
+      if (!better) continue;
+
+      const range = rule.resolve(match, reckoning);
+      if (range && range.start <= range.end) {
+        best = { ...range, expression: match[0], position };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether the range a query's time phrase names moves with the current time, as "last 36 hours",
+ * "since monday" and "in march" do and "q2 2025" does not
+ */
+export function isRelativeTimeExpression(text: string, options: TemporalOptions = {}): boolean {
+  const now = options.now ?? Date.now();
+  const current = resolveTimeExpression(text, { ...options, now });
+  if (!current) return false;
+
+  // A year and a day on, every phrase reckoned from today or from this year has moved
+  const later = resolveTimeExpression(text, { ...options, now: now + 367 * DAY_MS });
+  return !later || later.start !== current.start || later.end !== current.end;
+}
+
+/**
+ * The range a coarse time bucket covers; undefined for HISTORICAL, which has no bounds
+ */
+export function resolveTemporalContext(temporal: TemporalContext | string | undefined, options: TemporalOptions = {}): TimeRange | undefined {
+  const reckoning = reckon(options);
+  const { now, today } = reckoning;
+
+  switch (temporal) {
+    case TemporalContext.TODAY:
+      return { start: startOfDay(today, reckoning), end: endOfDay(today, reckoning) };
+    case TemporalContext.YESTERDAY: {
+      const yesterday = addDays(today, -1);
+      return { start: startOfDay(yesterday, reckoning), end: endOfDay(yesterday, reckoning) };
+    }
+    case TemporalContext.RECENT:
+      return { start: now - DAY_MS, end: now };
+    case TemporalContext.LAST_WEEK:
+      return { start: now - 7 * DAY_MS, end: now };
+    case TemporalContext.LAST_MONTH:
+      return { start: now - 30 * DAY_MS, end: now };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The bucket a range falls in, for hot/cold routing: RECENT within the last day, HISTORICAL
+ * when it ended over a month ago, otherwise none
+ */
+export function classifyTimeRange(range: TimeRange, now = Date.now()): TemporalContext | undefined {
+  if (range.start >= now - DAY_MS) return TemporalContext.RECENT;
+  if (range.end < now - 30 * DAY_MS) return TemporalContext.HISTORICAL;
+  return undefined;
+}
+
+function reckon(options: TemporalOptions): Reckoning {
+  const now = options.now ?? Date.now();
+  const timeZone = options.timeZone && isValidTimeZone(options.timeZone)
+    ? options.timeZone
+    : Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const clock = wallClock(now, timeZone);
+  return { now, timeZone, today: { year: clock.year, month: clock.month, day: clock.day } };
+}
+
+function resolveIsoInterval(first: string, second: string, reckoning: Reckoning): TimeRange | null {
+  const firstIsDuration = first.startsWith('p');
+  const secondIsDuration = second.startsWith('p');
+  if (firstIsDuration && secondIsDuration) return null;
+
+  if (firstIsDuration) {
+    const end = parseIsoPoint(second, reckoning, true);
+    const duration = parseDuration(first);
+    return end === null || !duration ? null : { start: applyDuration(end + 1, duration, -1, reckoning.timeZone), end };
+  }
+
+  const start = parseIsoPoint(first, reckoning, false);
+  if (start === null) return null;
+  if (secondIsDuration) {
+    const duration = parseDuration(second);
+    return duration ? { start, end: applyDuration(start, duration, 1, reckoning.timeZone) - 1 } : null;
+  }
+  // A date-only end includes that day
+  const end = parseIsoPoint(second, reckoning, true);
+  return end === null ? null : { start, end };
+}
+
+function resolveDaySpan(from: string, to: string, reckoning: Reckoning): TimeRange | null {
+  const first = parseDayWithYear(from, reckoning);
+  const last = parseDayWithYear(to, reckoning);
+  if (!first || !last) return null;
+
+  // "march 3 and march 10, 2025": a year on either end applies to both, and a span that would
+  // run backwards crosses a year boundary ("dec 28 to jan 3"). With no year it is the most
+  // recent span that has started.
+  let start = first.date;
+  let end = last.date;
+  if (!first.yearGiven && last.yearGiven) {
+    start = { ...start, year: end.year - (compare({ ...start, year: end.year }, end) > 0 ? 1 : 0) };
+  } else if (!first.yearGiven && compare(start, reckoning.today) > 0) {
+    start = { ...start, year: start.year - 1 };
+  }
+  if (!last.yearGiven) {
+    end = { ...end, year: start.year + (compare({ ...end, year: start.year }, start) < 0 ? 1 : 0) };
+  }
+  return { start: startOfDay(start, reckoning), end: endOfDay(end, reckoning) };
+}
+
+/**
+ * A day phrase; without a year it is the most recent such day not after today
+ */
+function parseDay(phrase: string, reckoning: Reckoning): CivilDate | null {
+  const parsed = parseDayWithYear(phrase, reckoning);
+  if (!parsed || parsed.yearGiven) return parsed?.date ?? null;
+  const { date } = parsed;
+  return compare(date, reckoning.today) > 0 ? { ...date, year: date.year - 1 } : date;
+}
+
+function parseDayWithYear(phrase: string, reckoning: Reckoning): { date: CivilDate; yearGiven: boolean } | null {
+  const text = phrase.trim();
+  const today = reckoning.today;
+
+  if (text === 'today') return { date: today, yearGiven: true };
+  if (text === 'yesterday') return { date: addDays(today, -1), yearGiven: true };
+
+  const named = text.match(new RegExp(`^(last\\s+)?(${WEEKDAY})$`));
+  if (named) {
+    // The most recent such weekday: today counts, except for "last monday"
+    const back = (weekday(today) - WEEKDAYS.indexOf(named[2]) + 7) % 7 || (named[1] ? 7 : 0);
+    return { date: addDays(today, -back), yearGiven: true };
+  }
+
+  let year: number | undefined;
+  let month: number;
+  let day: number;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const monthFirst = text.match(new RegExp(`^(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(${YEAR}))?$`));
+  const dayFirst = text.match(new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH})(?:,?\\s+(${YEAR}))?$`));
+  if (iso) {
+    [year, month, day] = [parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10)];
+  } else if (monthFirst) {
+    [month, day] = [monthIndex(monthFirst[1]), parseInt(monthFirst[2], 10)];
+    year = monthFirst[3] ? parseInt(monthFirst[3], 10) : undefined;
+  } else if (dayFirst) {
+    [month, day] = [monthIndex(dayFirst[2]), parseInt(dayFirst[1], 10)];
+    year = dayFirst[3] ? parseInt(dayFirst[3], 10) : undefined;
+  } else {
+    return null;
+  }
+
+  const date = { year: year ?? today.year, month, day };
+  return isRealDate(date) ? { date, yearGiven: year !== undefined } : null;
+}
+
+function parseIsoPoint(point: string, reckoning: Reckoning, asEnd: boolean): number | null {
+  const match = point.match(/^(\d{4})-(\d{2})-(\d{2})(?:t(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?(z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) return null;
+  const date = { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+  if (!isRealDate(date)) return null;
+
+  if (match[4] === undefined) {
+    return asEnd ? endOfDay(date, reckoning) : startOfDay(date, reckoning);
+  }
+  const timeOfDay = parseInt(match[4], 10) * HOUR_MS + parseInt(match[5], 10) * MINUTE_MS +
+    parseInt(match[6] ?? '0', 10) * 1000 + parseInt((match[7] ?? '0').padEnd(3, '0'), 10);
+  if (!match[8]) {
+    return zonedEpoch(date, timeOfDay, reckoning.timeZone);
+  }
+  const offset = match[8] === 'z' ? 0 : parseOffset(match[8]);
+  return Date.UTC(date.year, date.month - 1, date.day) + timeOfDay - offset;
+}
+
+function parseOffset(offset: string): number {
+  const [, sign, hours, minutes] = offset.match(/^([+-])(\d{2}):?(\d{2})$/)!;
+  return (sign === '-' ? -1 : 1) * (parseInt(hours, 10) * HOUR_MS + parseInt(minutes, 10) * MINUTE_MS);
+}
+
+function parseDuration(source: string): { months: number; days: number; ms: number } | null {
+  const match = source.match(/^p(?:(\d+)y)?(?:(\d+)m)?(?:(\d+)w)?(?:(\d+)d)?(?:t(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?)?$/);
+  if (!match || match.slice(1).every(part => part === undefined)) return null;
+  const [years, months, weeks, days, hours, minutes, seconds] = match.slice(1).map(part => parseInt(part ?? '0', 10));
+  return {
+    months: years * 12 + months,
+    days: weeks * 7 + days,
+    ms: hours * HOUR_MS + minutes * MINUTE_MS + seconds * 1000
+  };
+}
+
+/**
+ * Move an instant by a duration: months and days on the wall clock of the zone, the rest in
+ * elapsed time
+ */
+function applyDuration(epoch: number, duration: { months: number; days: number; ms: number }, sign: 1 | -1, timeZone: string): number {
+  const shifted = shiftMonths(epoch, sign * duration.months, timeZone, sign * duration.days);
+  return shifted + sign * duration.ms;
+}
+
+function shiftMonths(epoch: number, months: number, timeZone: string, days = 0): number {
+  const clock = wallClock(epoch, timeZone);
+  const date = addDays(addMonths({ year: clock.year, month: clock.month, day: clock.day }, months), days);
+  const timeOfDay = clock.hour * HOUR_MS + clock.minute * MINUTE_MS + clock.second * 1000 + (epoch % 1000);
+  return zonedEpoch(date, timeOfDay, timeZone);
+}
+
+function quarterRange(year: number, quarter: number, reckoning: Reckoning): TimeRange {
+  const first = { year, month: (quarter - 1) * 3 + 1, day: 1 };
+  return { start: startOfDay(first, reckoning), end: startOfDay(addMonths(first, 3), reckoning) - 1 };
+}
+
+function monthRange(year: number, month: number, reckoning: Reckoning): TimeRange {
+  const first = { year, month, day: 1 };
+  return { start: startOfDay(first, reckoning), end: startOfDay(addMonths(first, 1), reckoning) - 1 };
+}
+
+function yearRange(year: number, reckoning: Reckoning): TimeRange {
+  return {
+    start: startOfDay({ year, month: 1, day: 1 }, reckoning),
+    end: startOfDay({ year: year + 1, month: 1, day: 1 }, reckoning) - 1
+  };
+}
+
+function startOfDay(date: CivilDate, reckoning: Reckoning): number {
+  return zonedEpoch(date, 0, reckoning.timeZone);
+}
+
+function endOfDay(date: CivilDate, reckoning: Reckoning): number {
+  return zonedEpoch(addDays(date, 1), 0, reckoning.timeZone) - 1;
+}
+
+/**
+ * The instant a wall-clock time in a zone names. The zone's offset is looked up at the guess and
+ * again at the corrected instant, which settles it across DST changes.
+ */
+function zonedEpoch(date: CivilDate, timeOfDay: number, timeZone: string): number {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day) + timeOfDay;
+  const first = asUtc - offsetAt(asUtc, timeZone);
+  return asUtc - offsetAt(first, timeZone);
+}
+
+function offsetAt(epoch: number, timeZone: string): number {
+  const clock = wallClock(epoch, timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - (epoch - (((epoch % 1000) + 1000) % 1000));
+}
+
+function wallClock(epoch: number, timeZone: string): CivilDate & { hour: number; minute: number; second: number } {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(epoch))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour % 24, minute: parts.minute, second: parts.second };
+}
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function addDays(date: CivilDate, days: number): CivilDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/**
+ * Calendar months later (or earlier), keeping the day where the month has it: jan 31 + 1 month
+ * is feb 28
+ */
+function addMonths(date: CivilDate, months: number): CivilDate {
+  const index = date.year * 12 + date.month - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = index - year * 12 + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, lastDay) };
+}
+
+/** 0 for Sunday */
+function weekday(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function compare(a: CivilDate, b: CivilDate): number {
+  return (a.year - b.year) || (a.month - b.month) || (a.day - b.day);
+}
+
+function isRealDate(date: CivilDate): boolean {
+  const check = addDays(date, 0);
+  return compare(check, date) === 0 && date.month >= 1 && date.month <= 12;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3)) + 1;
+}
@@ -0,0 +1,417 @@
+/**
+ * RAG₂ MCP Query Translator
+ * Turns planner query fragments into calls against real MCP instances
+ */
+
+import { BaseMCP } from '../../core/mcp/base_mcp';
+import { ChatMCP } from '../../core/specialized/chat_mcp';
+import { LogsMCP } from '../../core/specialized/logs_mcp';
+import { StatsMCP } from '../../core/specialized/stats_mcp';
+import { compileFilter } from '../../core/mcp/filter_matcher';
+import { FusionOptions, QueryFilter, RetrieverKind } from '../../types/query.types';
+import { DataRecord, QueryAccessPlan, QueryPage, QuerySort, TextSearchHit } from '../../types/mcp.types';
+import { RetrievalList } from './fusion';
+import { resolveTemporalContext } from './temporal';
+
+export type MCPOperation = 'query' | 'searchMessages' | 'searchLogs' | 'aggregateMetric';
+
+export interface TranslatedMCPQuery {
+  operation: MCPOperation;
+  filters: Record<string, any>;
+  searchText?: string;
+  metricName?: string;
+  aggregation?: 'sum' | 'avg' | 'min' | 'max' | 'count';
+  timeRange?: { start?: number; end?: number };
+  limit?: number;
+  sort?: QuerySort[];
+}
+
+export interface TranslatedQueryExplanation {
+  operation: MCPOperation;
+  filters: Record<string, any>;
+  searchText?: string;
+  /** Retrievers a fused query runs on the MCP */
+  retrievers?: RetrieverKind[];
+  /** Index scan for the filter; absent when no records are read by filter */
+  access?: QueryAccessPlan;
+}
+
+export interface RecordMatcher {
+  /** Filter the matching records are read with */
+  filters: Record<string, any>;
+  matches(record: DataRecord): boolean;
+}
+
+// Parser entities that describe the query itself rather than a record field
+const NON_FIELD_ENTITIES = new Set([
+  'currentUser', 'adminUser', 'implicitUser', 'userName',
+  'user_query', 'message_query', 'stats_query', 'log_query',
+  'token_validation', 'cross_analysis', 'query_rewrite', 'relationship',
+  'dataType', 'temporal', 'hot', 'since', 'hoursAgo', 'daysAgo', 'specificDate'
+]);
+
+const METRIC_FIELDS = ['metricName', 'metric', 'name'];
+const SEARCH_FIELDS = ['searchText', 'text', 'content', 'keyword', 'query'];
+
+export class MCPQueryTranslator {
+  /**
+   * Translate a planner fragment (see QueryExecutionPlanner.buildMCPSpecificQuery) for a given MCP
+   */
+  translate(fragment: any, mcp: BaseMCP): TranslatedMCPQuery {
+    const limit = typeof fragment?.limit === 'number' && fragment.limit > 0 ? fragment.limit : undefined;
+    const sort = this.resolveSort(fragment);
+
+    // Structured queries carry a compiled filter and always read records
+    if (fragment?.where) {
+      return { operation: 'query', filters: fragment.where, timeRange: fragment.timeRange, limit, sort };
+    }
+
+    const queryFilters: QueryFilter[] = Array.isArray(fragment?.filters) ? fragment.filters : [];
+    const timeRange = this.resolveTimeRange(queryFilters, fragment?.temporal, fragment?.timeZone);
+
+    let searchText: string | undefined = fragment?.searchText;
+    let metricName: string | undefined;
+    const fieldFilters: QueryFilter[] = [];
+
+    for (const filter of queryFilters) {
+      if (NON_FIELD_ENTITIES.has(filter.field) || filter.field === 'timestamp' || filter.field === 'dateRange') {
+        continue;
+      }
+      if (!searchText && SEARCH_FIELDS.includes(filter.field) && typeof filter.value === 'string') {
+        searchText = filter.value;
+        continue;
+      }
+      if (!metricName && METRIC_FIELDS.includes(filter.field) && mcp instanceof StatsMCP) {
+        metricName = String(filter.value);
+        continue;
+      }
+      fieldFilters.push(filter);
+    }
+
+    const filters = this.translateFilters(fieldFilters);
+    if (timeRange) {
+      filters[mcp.getEventTimeField()] = {
+        ...(timeRange.start !== undefined && { $gte: timeRange.start }),
+        ...(timeRange.end !== undefined && { $lte: timeRange.end })
+      };
+    }
+
+    const base = { filters, timeRange, limit, sort };
+
+    if (searchText && mcp instanceof ChatMCP) {
+      return { ...base, operation: 'searchMessages', searchText };
+    }
+    if (searchText && mcp instanceof LogsMCP) {
+      return { ...base, operation: 'searchLogs', searchText };
+    }
+    if (metricName && mcp instanceof StatsMCP) {
+      return {
+        ...base,
+        operation: 'aggregateMetric',
+        metricName,
+        aggregation: this.resolveAggregation(fragment)
+      };
+    }
+
+    return { ...base, operation: 'query', searchText };
+  }
+
+  /**
+   * Run a translated query and normalize the response to an array
+   */
+  async execute(mcp: BaseMCP, fragment: any): Promise<any[]> {
+    return (await this.executePage(mcp, fragment)).records;
+  }
+
+  /**
+   * Run a translated query as one page. Limited record queries page on the MCP itself and
+   * return a continuation cursor; other operations return everything up to the limit.
+   */
+  async executePage(mcp: BaseMCP, fragment: any, cursor?: string): Promise<QueryPage> {
+    const translated = this.translate(fragment, mcp);
+
+    if (translated.operation === 'query' && (translated.limit || cursor)) {
+      return mcp.queryPage(translated.filters, { sort: translated.sort, limit: translated.limit, cursor });
+    }
+
+    let response: any;
+
+    switch (translated.operation) {
+      case 'searchMessages':
+      case 'searchLogs':
+        response = this.fromTextHits(await this.searchText(mcp, translated, translated.limit));
+        break;
+
+      case 'aggregateMetric':
+        response = await (mcp as StatsMCP).aggregateMetric(translated.metricName!, translated.aggregation!, {
+          startTime: translated.timeRange?.start,
+          endTime: translated.timeRange?.end
+        });
+        break;
+
+      default:
+        response = await mcp.query(translated.filters);
+    }
+
+    const records = this.normalizeResponse(response);
+    return { records: translated.limit ? records.slice(0, translated.limit) : records, nextCursor: null };
+  }
+
+  /**
+   * Ranked candidate lists for retrieval fusion, one per retriever that applies to the MCP:
+   * full-text for chat and log MCPs, vector for MCPs with a vector index, and the structured
+   * filter query when there are filters or no text to search for
+   */
+  async retrieve(mcp: BaseMCP, fragment: any, options: FusionOptions = {}): Promise<RetrievalList[]> {
+    const translated = this.translate(fragment, mcp);
+    const retrievers = this.retrieversFor(mcp, translated, options);
+    const candidates = options.candidates ?? translated.limit ?? 50;
+    const hasFilters = Object.keys(translated.filters).length > 0;
+    const lists: RetrievalList[] = [];
+    const add = (retriever: RetrieverKind, list: RetrievalList['candidates']) => {
+      lists.push({ mcpId: mcp.metadata.id, retriever, candidates: list });
+    };
+
+    if (retrievers.includes('fulltext')) {
+      const hits = await this.searchText(mcp, translated, candidates);
+      add('fulltext', hits.map(hit => ({ record: hit.record, score: hit.score, highlights: hit.highlights })));
+    }
+
+    if (retrievers.includes('vector')) {
+      const matches = await mcp.similaritySearch(translated.searchText!, {
+        k: candidates,
+        filter: hasFilters ? translated.filters : undefined
+      });
+      add('vector', matches.map(match => ({ record: match.record, score: match.score })));
+    }
+
+    if (retrievers.includes('structured')) {
+      const page = await mcp.queryPage(translated.filters, { sort: translated.sort, limit: candidates });
+      add('structured', page.records.map(record => ({ record })));
+    }
+
+    return lists;
+  }
+
+  /**
+   * How a fragment would run on an MCP, without running it: the operation (or, for fusion, the
+   * retrievers) and the index its filter scan would use
+   */
+  async explain(mcp: BaseMCP, fragment: any, fusion?: FusionOptions): Promise<TranslatedQueryExplanation> {
+    const translated = this.translate(fragment, mcp);
+    const retrievers = fusion ? this.retrieversFor(mcp, translated, fusion) : undefined;
+    const scansRecords = retrievers ? retrievers.includes('structured') : translated.operation === 'query';
+
+    return {
+      operation: translated.operation,
+      filters: translated.filters,
+      ...(translated.searchText && { searchText: translated.searchText }),
+      ...(retrievers && { retrievers }),
+      ...(scansRecords && { access: await mcp.explainQuery(translated.filters) })
+    };
+  }
+
+  /**
+   * Membership test for the records a fragment selects on an MCP, for watching them change.
+   * Limits and ranking do not apply; metric aggregations cannot be watched and throw.
+   */
+  matcher(mcp: BaseMCP, fragment: any): RecordMatcher {
+    const translated = this.translate(fragment, mcp);
+    if (translated.operation === 'aggregateMetric') {
+      throw new Error(`Metric aggregations cannot be watched: ${translated.metricName}`);
+    }
+
+    const passes = compileFilter(translated.filters, { fallbacks: mcp.getFieldFallbacks() });
+    const searchText = translated.searchText;
+    const textSearch = translated.operation === 'searchMessages' || translated.operation === 'searchLogs';
+    return {
+      filters: translated.filters,
+      matches: record => passes(record) &&
+        (!textSearch || (mcp as ChatMCP | LogsMCP).matchesText(record.id, searchText!))
+    };
+  }
+
+  private retrieversFor(mcp: BaseMCP, translated: TranslatedMCPQuery, options: FusionOptions): RetrieverKind[] {
+    const enabled = (retriever: RetrieverKind) => !options.retrievers || options.retrievers.includes(retriever);
+    const hasFilters = Object.keys(translated.filters).length > 0;
+    const retrievers: RetrieverKind[] = [];
+
+    if (translated.searchText && enabled('fulltext') && (mcp instanceof ChatMCP || mcp instanceof LogsMCP)) {
+      retrievers.push('fulltext');
+    }
+    if (translated.searchText && enabled('vector') && mcp.getConfiguration().vectorIndex) {
+      retrievers.push('vector');
+    }
+    if (enabled('structured') && (hasFilters || !translated.searchText)) {
+      retrievers.push('structured');
+    }
+    return retrievers;
+  }
+
+  /**
+   * Convert planner filters to BaseMCP.query filter syntax
+   */
+  translateFilters(filters: QueryFilter[]): Record<string, any> {
+    const orGroups: Record<string, any>[] = [];
+    let current: Record<string, any> = {};
+
+    for (const filter of filters) {
+      this.mergeCondition(current, filter.field, this.translateCondition(filter));
+
+      // An 'or' connector closes the current conjunction
+      if (filter.connector === 'or') {
+        orGroups.push(current);
+        current = {};
+      }
+    }
+
+    if (orGroups.length === 0) {
+      return current;
+    }
+    if (Object.keys(current).length > 0) {
+      orGroups.push(current);
+    }
+    return { $or: orGroups };
+  }
+
+  private translateCondition(filter: QueryFilter): any {
+    const { operator, value } = filter;
+    const flags = filter.caseSensitive ? '' : 'i';
+
+    switch (operator) {
+      case 'eq':
+      case 'equals':
+        return value;
+      case 'not_equals':
+        return { $ne: value };
+      case 'greater_than':
+        return { $gt: value };
+      case 'greater_than_or_equal':
+        return { $gte: value };
+      case 'less_than':
+        return { $lt: value };
+      case 'less_than_or_equal':
+        return { $lte: value };
+      case 'in':
+        return { $in: Array.isArray(value) ? value : [value] };
+      case 'not_in':
+        return { $nin: Array.isArray(value) ? value : [value] };
+      case 'contains':
+        return { $regex: this.escapeRegex(String(value)), $options: flags };
+      case 'starts_with':
+        return { $regex: `^${this.escapeRegex(String(value))}`, $options: flags };
+      case 'ends_with':
+        return { $regex: `${this.escapeRegex(String(value))}$`, $options: flags };
+      case 'regex':
+        return { $regex: String(value), $options: flags };
+      case 'is_null':
+        return null;
+      case 'is_not_null':
+        return { $ne: null };
+      case 'exists':
+        return { $exists: value !== false };
+      case 'between':
+        return { $gte: value?.[0] ?? value?.start, $lte: value?.[1] ?? value?.end };
+      default:
+        return value;
+    }
+  }
+
+  private mergeCondition(target: Record<string, any>, field: string, condition: any): void {
+    if (!(field in target)) {
+      target[field] = condition;
+      return;
+    }
+
+    // Two operator objects on the same field combine; anything else becomes an explicit $and
+    const existing = target[field];
+    if (this.isOperatorObject(existing) && this.isOperatorObject(condition)) {
+      target[field] = { ...existing, ...condition };
+    } else {
+      target.$and = [...(target.$and || []), { [field]: condition }];
+    }
+  }
+
+  private resolveTimeRange(filters: QueryFilter[], temporal?: string, timeZone?: string): { start?: number; end?: number } | undefined {
+    const dateRange = filters.find(f => f.field === 'dateRange')?.value;
+    if (dateRange && (dateRange.start !== undefined || dateRange.end !== undefined)) {
+      return { start: dateRange.start, end: dateRange.end };
+    }
+
+    const since = filters.find(f => f.field === 'timestamp')?.value;
+    if (typeof since === 'number') {
+      return { start: since };
+    }
+
+    // Interpretations carry their bucket's range already; this covers ones built without it
+    return resolveTemporalContext(temporal, { timeZone });
+  }
+
+  private resolveSort(fragment: any): QuerySort[] | undefined {
+    if (Array.isArray(fragment?.sort)) return fragment.sort;
+
+    // Planner hint, e.g. 'timestamp_desc'; 'relevance' has no record field
+    const match = typeof fragment?.sortBy === 'string' ? fragment.sortBy.match(/^(\w+)_(asc|desc)$/) : null;
+    return match ? [{ field: match[1], direction: match[2] as 'asc' | 'desc' }] : undefined;
+  }
+
+  private resolveAggregation(fragment: any): 'sum' | 'avg' | 'min' | 'max' | 'count' {
+    if (fragment?.intent === 'count') return 'count';
+
+    switch (fragment?.aggregation) {
+      case 'GROUP_STATS':
+        return 'avg';
+      case 'UNION':
+      case 'MERGE':
+        return 'sum';
+      default:
+        return 'avg';
+    }
+  }
+
+  private async searchText(mcp: BaseMCP, translated: TranslatedMCPQuery, limit?: number): Promise<TextSearchHit[]> {
+    if (mcp instanceof ChatMCP) {
+      return mcp.searchMessages(translated.searchText!, {
+        senderId: this.equalityValue(translated.filters.senderId),
+        conversationId: this.equalityValue(translated.filters.conversationId),
+        dateFrom: translated.timeRange?.start,
+        dateTo: translated.timeRange?.end,
+        limit
+      });
+    }
+    return (mcp as LogsMCP).searchLogs(translated.searchText!, {
+      level: this.equalityValue(translated.filters.level),
+      startTime: translated.timeRange?.start,
+      endTime: translated.timeRange?.end,
+      limit
+    });
+  }
+
+  /**
+   * Full-text hits as records in rank order, each carrying its score and highlights
+   */
+  private fromTextHits(hits: TextSearchHit[]): any[] {
+    return hits.map(hit => ({ ...hit.record, relevance: { score: hit.score, highlights: hit.highlights } }));
+  }
+
+  private normalizeResponse(response: any): any[] {
+    if (response === null || response === undefined) return [];
+    if (Array.isArray(response)) return response;
+    // Registry adapters wrap results as { success, data }
+    if (Array.isArray(response.data)) return response.data;
+    return [response];
+  }
+
+  private equalityValue(condition: any): any {
+    return this.isOperatorObject(condition) ? undefined : condition;
+  }
+
+  private isOperatorObject(value: any): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+      Object.keys(value).some(key => key.startsWith('$'));
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -8,6 +8,8 @@
 import { Request } from 'express';
 import { JwtPayload } from 'jsonwebtoken';
 import { HealthCheckResult } from './registry.types';
+import { ExpiryStats } from './mcp.types';
+import { ClarificationRequest, DetectedLanguage, FusionOptions } from './query.types';
 
 // --- Authentication and User Types ---
 
@@ -118,6 +120,10 @@ export interface IngestionRequest {
     priority?: 'low' | 'medium' | 'high' | 'critical';
     tags?: string[];
     schema?: Record<string, any>;
+    /** Time to live in milliseconds, restarted whenever the record is rewritten. */
+    ttl?: number;
+    /** Absolute expiry in epoch milliseconds. */
+    expiresAt?: number;
   };
   /** Data routing parameters for MCPs (Multi-Capability Providers). */
   routing?: {
@@ -166,6 +172,10 @@ export interface QueryRequest {
   context?: {
     user?: string;
     session?: string;
+    /** Language the query is written in, e.g. 'de'; detected when omitted. */
+    language?: string;
+    /** IANA time zone that dates and time phrases are read in, e.g. 'Europe/Berlin'; the server's when omitted. */
+    timeZone?: string;
     filters?: Record<string, any>;
     preferences?: {
       maxResults?: number;
@@ -179,6 +189,46 @@ export interface QueryRequest {
     explain?: boolean; // Include the query execution plan
     cache?: boolean; // Use cached results if available
     realtime?: boolean; // Force real-time execution
+    pageSize?: number; // Records per MCP per page
+    cursor?: string; // nextCursor from the previous page
+    fusion?: FusionOptions; // Rank by retrieval fusion across full-text, vector and filter retrievers
+    clarify?: boolean; // Ask back instead of running an ambiguous query (default true)
+  };
+}
+
+/**
+ * @interface AnswerRequest
+ * @description A question to answer from retrieved records.
+ */
+export interface AnswerRequest extends QueryRequest {
+  /** Answer generation options. */
+  answer?: {
+    contextTokens?: number; // Tokens of record text placed in the prompt
+    maxTokens?: number; // Upper bound on the answer length
+    temperature?: number;
+  };
+}
+
+/**
+ * @interface ExplainRequest
+ * @description A query to explain instead of (or, with analyze, as well as) running.
+ */
+export interface ExplainRequest extends QueryRequest {
+  /** Execute the query and report actual timings per phase. */
+  analyze?: boolean;
+}
+
+/**
+ * @interface ClarifyRequest
+ * @description The reading picked for a query that was sent back for clarification.
+ */
+export interface ClarifyRequest {
+  /** ID of the clarification request returned with needsClarification. */
+  clarificationId: string;
+  /** ID of the chosen candidate. */
+  candidateId: string;
+  options?: {
+    pageSize?: number; // Records per MCP per page
   };
 }
 
@@ -210,6 +260,14 @@ export interface QueryResponse {
     cacheHit: boolean;
     aggregationStrategy: string;
   };
+  /** Cursor for the next page, or null when results are complete. */
+  nextCursor?: string | null;
+  /** Language the query was read in; `fallback` when it could not be told or has no pack. */
+  language?: DetectedLanguage;
+  /** Set when the query was too ambiguous to run; nothing was executed. */
+  needsClarification?: boolean;
+  /** Candidate readings and follow-up questions, answered through /query/clarify. */
+  clarification?: ClarificationRequest;
 }
 
 // --- WebSocket Types ---
@@ -220,7 +278,7 @@ export interface QueryResponse {
  */
 export interface WebSocketMessage {
   /** The type of the message. */
-  type: 'query' | 'ingestion' | 'notification' | 'heartbeat' | 'error';
+  type: 'query' | 'ingestion' | 'conversation' | 'changes' | 'notification' | 'heartbeat' | 'error';
   /** The message payload. */
   payload: any;
   /** Request ID (for matching responses). */
@@ -304,6 +362,8 @@ export interface SystemMetrics {
       outbound: number;
     };
   };
+  /** Records carrying a TTL across all MCPs */
+  expiry?: ExpiryStats;
 }
 
 // --- Rate Limiting Types ---
@@ -383,6 +443,57 @@ export interface ApiConfig {
     allowedMimeTypes: string[];
     uploadPath: string;
   };
+  llm: {
+    provider: 'template' | 'openai';
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+    timeoutMs: number;
+  };
+  mcpStorage: {
+    storageDir?: string;
+  };
+  querySessions: {
+    ttlMs: number;
+    storageDir?: string;
+  };
+  liveQueries: {
+    maxPendingChanges: number;
+    resumeWindowMs: number;
+  };
+  changes: {
+    storageDir?: string;
+    maxEvents: number;
+    ndjsonFile?: string;
+  };
+  webhooks: {
+    storageDir?: string;
+    maxAttempts: number;
+    initialBackoffMs: number;
+    timeoutMs: number;
+  };
+  migrations: {
+    maxConcurrent: number;
+    automatic: boolean;
+    checkpointDir?: string;
+  };
+  ingestionDeadLetters: {
+    storageDir?: string;
+    maxRetries: number;
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+    retryStages: Array<'classify' | 'route' | 'store'>;
+  };
+  transactions: {
+    logDir?: string;
+  };
+  clarification: {
+    confidenceThreshold: number;
+    ttlMs: number;
+  };
+  languages: {
+    packDir?: string;
+  };
 }
 
 // --- Error Types ---
@@ -6,7 +6,7 @@
  * and chat MCP implementations.
  */
 
-import { QueryIntent, QueryEntity } from './query.types';
+import { QueryIntent, QueryEntity, InterpretedQuery } from './query.types';
 
 /**
  * Conversation context for improved query understanding
@@ -65,6 +65,100 @@ export interface ConversationContext {
   };
 }
 
+/**
+ * A query session: a dialogue with the database in which each query can build on the last
+ */
+export interface QuerySession {
+  /** Unique session identifier */
+  id: string;
+  
+  /** Owner; sessions without one are reachable by anyone holding the ID */
+  userId?: string;
+  
+  /** Creation timestamp */
+  createdAt: number;
+  
+  /** Timestamp of the last query or lookup */
+  lastActivity: number;
+  
+  /** When the session expires unless used again */
+  expiresAt: number;
+  
+  /** Idle time after which the session expires */
+  ttlMs: number;
+  
+  /** Turns in order, oldest first */
+  turns: SessionTurn[];
+  
+  /** Client-supplied metadata */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * One query in a session with what it was understood as and what it returned
+ */
+export interface SessionTurn {
+  /** Position in the session, counting from 0; unchanged when older turns are dropped */
+  index: number;
+  
+  /** Query text as the client sent it */
+  query: string;
+  
+  /** Index of the turn this one refined, when it was read as a follow-up */
+  followUpOf?: number;
+  
+  /** What a follow-up changed, e.g. "role = admin" */
+  changes?: string[];
+  
+  /** Interpretation the query ran with; absent when it could not be interpreted */
+  interpretation?: InterpretedQuery;
+  
+  /** Outcome of the query */
+  result: TurnResultSummary;
+  
+  /** Timestamp of the turn */
+  timestamp: number;
+}
+
+/**
+ * Compact record of a turn's result, kept instead of the records themselves
+ */
+export interface TurnResultSummary {
+  /** Execution identifier of the query */
+  executionId: string;
+  
+  /** Success status */
+  success: boolean;
+  
+  /** Total records found */
+  totalRecords: number;
+  
+  /** MCPs that answered */
+  mcpIds: string[];
+  
+  /** IDs of the first records returned */
+  recordIds: string[];
+  
+  /** Execution duration */
+  duration: number;
+  
+  /** Failure reason */
+  error?: string;
+}
+
+/**
+ * Listing entry for a query session
+ */
+export interface QuerySessionSummary {
+  id: string;
+  userId?: string;
+  createdAt: number;
+  lastActivity: number;
+  expiresAt: number;
+  turnCount: number;
+  lastQuery?: string;
+}
+
 /**
  * Chat message structure for ChatMCP
  */
@@ -133,6 +133,9 @@ export {
   ParallelExecutionGroup,
   AggregationStrategy,
   AggregationType,
+  RetrieverKind,
+  FusionOptions,
+  HitProvenance,
   ResultTransformation,
   InterpretationStep,
   ExecutionStepExplanation,
@@ -1194,7 +1197,11 @@ export {
   ConversationMetadata,
   ConversationSettings,
   ConversationThread,
-  ConversationTypeGuards
+  ConversationTypeGuards,
+  QuerySession,
+  QuerySessionSummary,
+  SessionTurn,
+  TurnResultSummary
 } from './conversation.types';
 
 // Export MCPTier enum value for runtime usage
@@ -27,6 +27,10 @@ export interface AccessPattern {
 export interface IndexCandidate {
   mcpId: string;
   field: string;
+  /** Compound key fields in order; defaults to [field] */
+  fields?: string[];
+  /** Reject duplicate keys on store */
+  unique?: boolean;
   confidence: number;
   estimatedSpeedup: number;
   cost: number;
@@ -332,6 +332,21 @@ export interface DataRecord {
   /** Creation timestamp */
   timestamp: number;
   
+  /** Write counter assigned by the MCP; starts at 1 and increases on every store */
+  version?: number;
+  
+  /** Epoch milliseconds after which the record is hidden and later purged */
+  expiresAt?: number;
+  
+  /** Time to live in milliseconds; each store sets expiresAt to now + ttl */
+  ttl?: number;
+  
+  /** Embedding vector; MCPs with a vector index compute it from the record text when absent */
+  embedding?: number[];
+  
+  /** ID of the record this one was split from, e.g. the document a chunk belongs to */
+  parentId?: string;
+  
   /** Additional metadata */
   metadata?: {
     source?: string;
@@ -346,6 +361,56 @@ export interface DataRecord {
   };
 }
 
+/**
+ * Options for conditional record writes
+ */
+export interface WriteOptions {
+  /** Apply the write only if the stored version matches; 0 means the record must not exist */
+  ifVersion?: number;
+}
+
+/**
+ * Sort key for paged MCP queries
+ */
+export interface QuerySort {
+  /** Field path, resolved like query filters */
+  field: string;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * Options for cursor-paged MCP queries
+ */
+export interface QueryPageOptions {
+  sort?: QuerySort[];
+  /** Page size (default 100) */
+  limit?: number;
+  /** Opaque cursor returned with the previous page */
+  cursor?: string;
+}
+
+/**
+ * One page of query results
+ */
+export interface QueryPage {
+  records: DataRecord[];
+  /** Cursor for the following page; null once results are exhausted */
+  nextCursor: string | null;
+}
+
+/**
+ * How an MCP would answer a filter query, without running it
+ */
+export interface QueryAccessPlan {
+  /** Ordered index the scan would use; null for a full scan */
+  indexUsed: string | null;
+  /** Leading index fields the filter constrains */
+  fieldsUsed: string[];
+  /** Records the scan would visit */
+  estimatedScan: number;
+  totalRecords: number;
+}
+
 /**
  * Routing decision from RAG₁
  */
@@ -555,6 +620,130 @@ export interface MCPConfiguration {
   
   /** Custom configuration properties */
   customProperties: Record<string, any>;
+  
+  /** Durable storage configuration (in-memory only when omitted) */
+  storage?: StorageConfiguration;
+  
+  /** Number of superseded versions kept per record for getHistory (default 0) */
+  versionRetention?: number;
+  
+  /** Interval between sweeps that purge expired records (default 60000 ms) */
+  expirySweepIntervalMs?: number;
+  
+  /** Embedding index for similaritySearch (disabled when omitted) */
+  vectorIndex?: VectorIndexConfiguration;
+}
+
+/**
+ * Turns text into fixed-length vectors for the vector index
+ */
+export interface Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type VectorMetric = 'cosine' | 'dot';
+
+/**
+ * Vector index configuration for an MCP
+ */
+export interface VectorIndexConfiguration {
+  /** Embedding function (default: the offline HashingEmbedder) */
+  embedder?: Embedder;
+  
+  /** Vector length when no embedder is given (default 256) */
+  dimensions?: number;
+  
+  /** Similarity measure (default 'cosine') */
+  metric?: VectorMetric;
+  
+  /** Field paths whose text is embedded (default: every string in the record data) */
+  textFields?: string[];
+  
+  /** Graph links per node (default 16) */
+  m?: number;
+  
+  /** Candidate list size while inserting (default 200) */
+  efConstruction?: number;
+  
+  /** Candidate list size while searching (default 64) */
+  efSearch?: number;
+}
+
+/**
+ * Options for k-nearest-neighbour searches
+ */
+export interface SimilaritySearchOptions {
+  /** Number of matches (default 10) */
+  k?: number;
+  
+  /** Query filter the matches must also satisfy */
+  filter?: Record<string, any>;
+  
+  /** Drop matches scoring below this */
+  minScore?: number;
+  
+  /** Candidate list size, trading speed for recall */
+  efSearch?: number;
+}
+
+export interface SimilarityMatch {
+  record: DataRecord;
+  /** Cosine similarity or dot product with the query, higher is closer */
+  score: number;
+}
+
+export interface TextSearchHit {
+  record: DataRecord;
+  /** BM25 relevance, higher is better; only comparable within one search */
+  score: number;
+  /** Snippets around the matched words, which are wrapped in <mark> tags */
+  highlights: string[];
+}
+
+/**
+ * Volume of records carrying an expiry, as reported by BaseMCP.getExpiryStats
+ */
+export interface ExpiryStats {
+  /** Live records with an expiresAt */
+  scheduled: number;
+  /** Records past expiry, hidden but not yet purged */
+  expired: number;
+  expiringWithinHour: number;
+  expiringWithinDay: number;
+  /** Records purged by the sweeper since startup */
+  purged: number;
+  /** Earliest upcoming expiry, or null when nothing is scheduled */
+  nextExpiresAt: number | null;
+}
+
+/**
+ * When write-ahead log appends are flushed to disk
+ */
+export type StorageFsyncPolicy = 'always' | 'interval' | 'never';
+
+/**
+ * Durable storage engine configuration for an MCP
+ */
+export interface StorageConfiguration {
+  /** Storage engine backing the MCP */
+  engine: 'memory' | 'file';
+  
+  /** Root directory for write-ahead logs and snapshots */
+  dataDir?: string;
+  
+  /** Sub-directory for this MCP's files; required by the file engine and unique per MCP */
+  namespace?: string;
+  
+  /** Fsync policy for write-ahead log appends */
+  fsyncPolicy?: StorageFsyncPolicy;
+  
+  /** Fsync interval in milliseconds when the policy is 'interval' */
+  fsyncIntervalMs?: number;
+  
+  /** Number of logged mutations between automatic snapshots (0 disables) */
+  snapshotInterval?: number;
 }
 
 /**
@@ -170,6 +170,18 @@ export interface QueryPreferences {
   
   /** Explanation level for query interpretation */
   explanationLevel: ExplanationLevel;
+  
+  /** Per-MCP page size; overrides planner limits */
+  pageSize?: number;
+  
+  /** Continuation cursor returned with the previous page */
+  cursor?: string;
+  
+  /** Rank results by retrieval fusion instead of the parser's aggregation strategy */
+  fusion?: FusionOptions;
+  
+  /** Ask back with candidate interpretations instead of running an ambiguous query */
+  clarify?: boolean;
 }
 
 /**
@@ -223,7 +235,12 @@ export interface InterpretedQuery {
     interpretation: string;
     mcpSelection: string;
     executionPlan: string;
+    /** Why each target MCP was chosen */
+    mcpReasons?: Record<string, string>;
   };
+  
+  /** Language the query was read in */
+  language?: DetectedLanguage;
 }
 
 /**
@@ -312,7 +329,10 @@ export enum TemporalContext {
 export interface RAG2Config {
   /** Natural language processing settings */
   nlp: {
+    /** Interpretations below this confidence are sent back for clarification when asked to */
     confidence_threshold: number;
+    /** How long a clarification request can be answered, in ms (default 10 minutes) */
+    clarification_ttl?: number;
     entity_extraction_model: string;
     intent_recognition_model: string;
     language_models: string[];
@@ -324,6 +344,8 @@ export interface RAG2Config {
     query_timeout: number;
     retry_attempts: number;
     fallback_enabled: boolean;
+    /** 'live' queries registry MCPs; 'simulation' returns canned data for tests */
+    mode?: 'live' | 'simulation';
   };
   
   /** Caching configuration */
@@ -400,6 +422,34 @@ export interface QueryExecutionPlan {
   
   /** Fallback plans */
   fallbacks?: any[];
+  
+  /** How the planner assessed each target MCP */
+  assessments?: MCPAssessment[];
+}
+
+/**
+ * Planner's view of a target MCP when the plan was made
+ */
+export interface MCPAssessment {
+  mcpId: string;
+  
+  /** False when the planner found no registry entry under this ID and assumed defaults */
+  measured: boolean;
+  
+  health: string;
+  
+  currentLoad: number;
+  
+  /** Expected latency in ms, and the same adjusted for load and health */
+  estimatedLatency: number;
+  adjustedLatency: number;
+  
+  /** Lower runs first */
+  priority: number;
+  
+  temperature: 'hot' | 'cold' | 'unknown';
+  
+  reliability?: number;
 }
 
 /**
@@ -546,6 +596,69 @@ export interface QueryResult {
   
   /** Learned patterns */
   learnedPatterns?: string[];
+  
+  /** Cursor for the next page; absent once every MCP is exhausted */
+  nextCursor?: string;
+  
+  /** Set instead of results when the query was too ambiguous to run */
+  clarification?: ClarificationRequest;
+  
+  /** Language natural language queries were read in */
+  language?: DetectedLanguage;
+}
+
+/**
+ * The language a query was read in
+ */
+export interface DetectedLanguage {
+  /** ISO 639-1 code of the pack used, e.g. 'de' */
+  code: string;
+  name: string;
+  /** Share of the recognized words and phrases that belong to this language (0-1) */
+  confidence: number;
+  /** Set when no pack recognized the query, or the requested language has none */
+  fallback?: boolean;
+  /** Language asked for in the query context */
+  requested?: string;
+}
+
+/**
+ * The part of an interpretation a user settled when asked to clarify a query
+ */
+export interface InterpretationChoice {
+  intent?: QueryIntent;
+  dataType?: DataType;
+}
+
+export type ClarificationReason = 'low_confidence' | 'conflicting_intents' | 'ambiguous_data_type';
+
+/**
+ * One way an ambiguous query could be read
+ */
+export interface ClarificationCandidate {
+  /** Sent back to pick this reading */
+  id: string;
+  
+  /** Short reading, e.g. "count messages" */
+  label: string;
+  choice: InterpretationChoice;
+  confidence: number;
+  targetMCPs: string[];
+}
+
+/**
+ * A query that was not run because its interpretation was uncertain, with the readings to
+ * choose from (most likely first) and the questions that tell them apart
+ */
+export interface ClarificationRequest {
+  clarificationId: string;
+  query: string;
+  reasons: ClarificationReason[];
+  confidence: number;
+  threshold: number;
+  questions: string[];
+  candidates: ClarificationCandidate[];
+  expiresAt: number;
 }
 
 /**
@@ -1083,12 +1196,60 @@ export interface AggregationStrategy {
   
   /** Result transformation rules */
   transformations: ResultTransformation[];
+  
+  /** Retrieval fusion settings, used when type is 'fusion' */
+  fusion?: FusionOptions;
 }
 
 /**
  * Aggregation types
  */
-export type AggregationType = 'merge' | 'union' | 'intersection' | 'difference' | 'custom';
+export type AggregationType = 'merge' | 'union' | 'intersection' | 'difference' | 'custom' | 'fusion';
+
+/**
+ * Retrievers whose ranked candidates a fusion strategy combines
+ */
+export type RetrieverKind = 'fulltext' | 'vector' | 'structured';
+
+/**
+ * Retrieval fusion settings
+ */
+export interface FusionOptions {
+  /** Reciprocal rank fusion, or a weighted blend of per-list normalized scores (default 'rrf') */
+  method?: 'rrf' | 'weighted';
+  
+  /** RRF rank constant (default 60) */
+  rrfK?: number;
+  
+  /** Weight per retriever (default 1 each) */
+  weights?: Partial<Record<RetrieverKind, number>>;
+  
+  /** Retrievers to run (default every one that applies to an MCP) */
+  retrievers?: RetrieverKind[];
+  
+  /** Candidates each retriever returns per MCP (default the query limit, else 50) */
+  candidates?: number;
+  
+  /** Fused hits to return (default all) */
+  limit?: number;
+  
+  /** Top fused hits handed to the re-ranker (default 50); 0 skips re-ranking */
+  rerankDepth?: number;
+}
+
+/**
+ * Where a fused hit was found
+ */
+export interface HitProvenance {
+  mcpId: string;
+  retriever: RetrieverKind;
+  
+  /** 1-based rank in that retriever's list */
+  rank: number;
+  
+  /** The retriever's own score: BM25, vector similarity, or 1 for a filter match */
+  score: number;
+}
 
 /**
  * Merge strategies
@@ -1501,6 +1662,96 @@ export interface QueryError {
   recoveryActions?: string[];
 }
 
+/**
+ * Structured (JSON DSL) query, compiled into the same execution plan as natural language queries
+ */
+export interface StructuredQuery {
+  /** Target domains (e.g. 'user') or MCP names/IDs (e.g. 'user-mcp') */
+  from: string | string[];
+  
+  /** Fields to project in each result; dotted paths address nested data */
+  select?: string[];
+  
+  /** Filter condition tree */
+  where?: StructuredCondition;
+  
+  /** Fields to group results by */
+  groupBy?: string[];
+  
+  /** Aggregates computed per group (or over all results without groupBy) */
+  aggregate?: StructuredAggregate[];
+  
+  /** Result ordering, applied in array order */
+  orderBy?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  
+  /** Maximum number of results */
+  limit?: number;
+  
+  /** Number of results to skip */
+  offset?: number;
+  
+  /** Restrict records by timestamp (ISO string or epoch milliseconds) */
+  timeRange?: {
+    from?: string | number;
+    to?: string | number;
+  };
+}
+
+/**
+ * Structured query condition: a field predicate or a logical group
+ */
+export type StructuredCondition =
+  | StructuredPredicate
+  | { and: StructuredCondition[] }
+  | { or: StructuredCondition[] };
+
+/**
+ * Single field predicate in a structured query
+ */
+export interface StructuredPredicate {
+  /** Field name; dotted paths address nested data */
+  field: string;
+  
+  /** Comparison operator */
+  op: StructuredOperator;
+  
+  /** Operand; an array for 'in'/'nin', a [min, max] pair for 'between' */
+  value?: any;
+}
+
+/**
+ * Structured query comparison operators
+ */
+export type StructuredOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'regex'
+  | 'exists'
+  | 'between';
+
+/**
+ * Aggregate computed by a structured query
+ */
+export interface StructuredAggregate {
+  /** Aggregation function */
+  fn: 'count' | 'sum' | 'avg' | 'min' | 'max';
+  
+  /** Field to aggregate; optional for count */
+  field?: string;
+  
+  /** Output name, defaults to '<fn>_<field>' or 'count' */
+  as?: string;
+}
+
 /**
  * Type guards for query types
  */
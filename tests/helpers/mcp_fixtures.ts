@@ -5,10 +5,49 @@
  */
 
 import { TestDataGenerator } from './test_data';
+import { BaseMCP } from '../../src/core/mcp/base_mcp';
+import { DataRecord, MCPCapabilities } from '../../src/types/mcp.types';
 
 // Use any type for test fixtures since actual types may not be fully implemented
 type MCPMetadata = any;
 
+/**
+ * Plain BaseMCP with no domain tuning, for exercising the storage, index and query machinery
+ */
+export class TestMCP extends BaseMCP {
+  protected defineCapabilities(): MCPCapabilities {
+    return {
+      queryTypes: ['select', 'insert', 'update', 'delete'],
+      dataTypes: ['object'],
+      maxConnections: 10,
+      consistencyLevels: ['strong'],
+      transactionSupport: true,
+      backupSupport: true,
+      replicationSupport: false,
+      encryptionSupport: false,
+      compressionSupport: false,
+      fullTextSearch: false,
+      geospatialSupport: false,
+      vectorSearch: false,
+      streamingSupport: false
+    };
+  }
+
+  protected optimizeForDomain(): void {}
+}
+
+/**
+ * A user profile record stamped now; `overrides` replaces any envelope field
+ */
+export const createRecord = (id: string, data: any = {}, overrides: Partial<DataRecord> = {}): DataRecord => ({
+  id,
+  domain: 'user',
+  type: 'profile',
+  timestamp: Date.now(),
+  data,
+  ...overrides
+});
+
 export class MCPFixtures {
   /**
    * Hot MCP fixtures for high-frequency data
@@ -0,0 +1,211 @@
+/**
+ * Change Feed Unit Tests
+ *
+ * Tests for capturing record changes under a global sequence, reading from offsets, consumer
+ * group offsets, following the feed into sinks and persisting the change log.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseMCP } from '../../../src/core/mcp/base_mcp';
+import { ChangeEvent, FileChangeLog, MemoryChangeLog } from '../../../src/core/storage/change_log';
+import { ChangeFeed, ChangeOffsetExpiredError, InvalidChangeOffsetError } from '../../../src/mcp/cdc/ChangeFeed';
+import { NdjsonFileSink } from '../../../src/mcp/cdc/NdjsonFileSink';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const user = (id: string, role: string, extra: Record<string, any> = {}) =>
+  ({ id, domain: 'user', type: 'user', timestamp: Date.now(), data: { userId: id, email: `${id}@example.com`, role }, ...extra });
+
+// Lets captured changes reach the log and followers
+const settle = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  expect(condition()).toBe(true);
+};
+
+const summarize = (changes: ChangeEvent[]) => changes.map(change => `${change.seq}:${change.op}:${change.recordId}`);
+
+describe('ChangeFeed', () => {
+  let registry: MCPRegistry;
+  let feed: ChangeFeed;
+  let users: BaseMCP;
+
+  const createFeed = async (log = new MemoryChangeLog(), config = {}) => {
+    const created = new ChangeFeed(registry, log, config);
+    await created.initialize();
+    return created;
+  };
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    feed = await createFeed();
+    const userMcpId = await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [{ id: 'ada', userId: 'ada', email: 'ada@example.com', role: 'admin' }]
+    });
+    users = (await registry.getMCP(userMcpId))!;
+  });
+
+  afterEach(async () => {
+    await feed.shutdown();
+    await registry.shutdown();
+  });
+
+  test('should record creates, updates and deletes across MCPs under one sequence', async () => {
+    await users.store(user('bob', 'member'));
+    await users.store(user('bob', 'admin'));
+    const logMcpId = await registry.createMCP({ name: 'log-mcp', type: MCPType.LOGS, domain: 'logs' });
+    const logs = (await registry.getMCP(logMcpId))!;
+    await logs.store({ id: 'l1', domain: 'logs', type: 'log', timestamp: Date.now(), data: { level: 'info', message: 'hello' } });
+    await users.delete('bob');
+    await settle(() => feed.lastSequence() === 5);
+
+    const { changes, nextSince, lastSequence } = await feed.read(0);
+    expect(summarize(changes)).toEqual(['1:create:ada', '2:create:bob', '3:update:bob', '4:create:l1', '5:delete:bob']);
+    expect(changes.map(change => change.domain)).toEqual(['user', 'user', 'user', 'logs', 'user']);
+    expect(changes[3].mcpId).toBe(logMcpId);
+    expect(changes[2]).toMatchObject({ mcpId: users.getMetadata().id, version: 2 });
+    expect(changes[2].record!.data.role).toBe('admin');
+    expect(changes[4].record).toBeUndefined();
+    expect({ nextSince, lastSequence }).toEqual({ nextSince: 5, lastSequence: 5 });
+
+    // The recorded image does not follow later writes
+    expect(changes[1].record!.data.role).toBe('member');
+
+    expect(summarize((await feed.read(3, 1)).changes)).toEqual(['4:create:l1']);
+    expect(await feed.read(5)).toMatchObject({ changes: [], nextSince: 5 });
+  });
+
+  test('should mark expiry and leave out migration copies until the switch', async () => {
+    await users.store(user('tmp', 'member', { ttl: 1000 }));
+    await users.purgeExpired(Date.now() + 2000);
+
+    const standby = await registry.createStandbyMCP({ name: 'user-mcp', type: MCPType.USER, domain: 'user' });
+    await standby.store(user('ada', 'admin'));
+    await registry.switchMCP(users.getMetadata().id, standby);
+    await standby.store(user('cy', 'member'));
+    await settle(() => feed.lastSequence() === 4);
+
+    const { changes } = await feed.read(0);
+    expect(summarize(changes)).toEqual(['1:create:ada', '2:create:tmp', '3:delete:tmp', '4:create:cy']);
+    expect(changes[2].reason).toBe('expired');
+    expect(changes[3].mcpId).toBe(users.getMetadata().id);
+  });
+
+  test('should track offsets per consumer group and reject offsets past retention', async () => {
+    await feed.shutdown();
+    feed = await createFeed(new MemoryChangeLog(3));
+    for (const id of ['u1', 'u2', 'u3', 'u4']) {
+      await users.store(user(id, 'member'));
+    }
+    await settle(() => feed.lastSequence() === 4);
+
+    expect(await feed.startOf('billing')).toBe(1);
+    await feed.commit('billing', 3);
+    await feed.commit('search', 4);
+    expect(await feed.startOf('billing')).toBe(3);
+    expect((await feed.offsets()).map(offset => [offset.group, offset.seq])).toEqual([['billing', 3], ['search', 4]]);
+
+    await expect(feed.commit('billing', 5)).rejects.toThrow(InvalidChangeOffsetError);
+    const expired = feed.read(0);
+    await expect(expired).rejects.toThrow(ChangeOffsetExpiredError);
+    await expect(expired).rejects.toMatchObject({ firstSequence: 2 });
+    expect(summarize((await feed.read(1)).changes)).toEqual(['2:create:u2', '3:create:u3', '4:create:u4']);
+  });
+
+  test('should follow new changes, commit delivered batches and redeliver failed ones', async () => {
+    await feed.shutdown();
+    feed = await createFeed(new MemoryChangeLog(), { retryDelayMs: 0 });
+    const errors: Error[] = [];
+    feed.on('error', error => errors.push(error));
+
+    const delivered: string[] = [];
+    let failures = 1;
+    const stop = feed.follow(0, async changes => {
+      if (changes.some(change => change.recordId === 'u2') && failures-- > 0) {
+        throw new Error('mirror unavailable');
+      }
+      delivered.push(...summarize(changes));
+    }, { group: 'mirror' });
+
+    // A new feed captures only what happens after it starts
+    await users.store(user('u1', 'member'));
+    await settle(() => delivered.length === 1);
+    await users.store(user('u2', 'member'));
+    await settle(() => delivered.length === 2);
+    await stop();
+
+    expect(delivered).toEqual(['1:create:u1', '2:create:u2']);
+    expect(errors.map(error => error.message)).toEqual(['mirror unavailable']);
+    expect(await feed.startOf('mirror')).toBe(2);
+
+    // Nothing is delivered once stopped
+    await users.store(user('u3', 'member'));
+    await settle(() => feed.lastSequence() === 3);
+    expect(delivered).toHaveLength(2);
+  });
+
+  describe('with files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-changes-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should continue the sequence and keep offsets across a restart', async () => {
+      await feed.shutdown();
+      const logDir = path.join(directory, 'log');
+      feed = await createFeed(new FileChangeLog(logDir, 2));
+      for (const id of ['u1', 'u2', 'u3', 'u4']) {
+        await users.store(user(id, 'member'));
+      }
+      await settle(() => feed.lastSequence() === 4);
+      await feed.commit('billing', 3);
+      await feed.shutdown();
+
+      // A write torn by a crash leaves a partial last line
+      await fs.appendFile(path.join(logDir, 'changes.log'), '{"seq":5,"op":"cre');
+
+      feed = await createFeed(new FileChangeLog(logDir, 2));
+      expect(feed.lastSequence()).toBe(4);
+      expect(await feed.startOf('billing')).toBe(3);
+      await users.delete('u1');
+      await settle(() => feed.lastSequence() === 5);
+      expect(summarize((await feed.read(3)).changes)).toEqual(['4:create:u4', '5:delete:u1']);
+      await expect(feed.read(2)).rejects.toThrow(ChangeOffsetExpiredError);
+    });
+
+    test('should mirror changes into an NDJSON sink from its committed offset', async () => {
+      const file = path.join(directory, 'mirror', 'changes.ndjson');
+      const lines = async () => (await fs.readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line).recordId);
+
+      const committed: number[] = [];
+      feed.on('offset-committed', offset => committed.push(offset.seq));
+
+      await feed.addSink(new NdjsonFileSink(file, 'mirror'));
+      await users.store(user('u1', 'member'));
+      await settle(() => committed.includes(2));
+      expect(await lines()).toEqual(['ada', 'u1']);
+      expect(await feed.startOf('sink:mirror')).toBe(2);
+
+      // Changes made while the sink is detached are written when it is added back
+      expect(await feed.removeSink('mirror')).toBe(true);
+      await users.delete('u1');
+      await feed.addSink(new NdjsonFileSink(file, 'mirror'));
+      await settle(() => committed.includes(3));
+      expect(await lines()).toEqual(['ada', 'u1', 'u1']);
+      await expect(feed.addSink(new NdjsonFileSink(file, 'mirror'))).rejects.toThrow('Change sink already added');
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Cold MCP Compression Unit Tests
+ *
+ * Tests for zlib-backed payload compression in the COLD tier.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ColdMCP } from '../../../src/core/mcp/cold_mcp';
+import { compressPayload, decompressPayload, resolveCodec } from '../../../src/core/storage/compression';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const createPayload = () => ({
+  message: 'archived event '.repeat(50),
+  tags: Array.from({ length: 20 }, (_, i) => `tag-${i % 3}`),
+  nested: { level: 1, values: [1, 2, 3] }
+});
+
+describe('payload compression', () => {
+  test('should pick gzip for fast levels and brotli for dense levels', () => {
+    expect(resolveCodec(1).algorithm).toBe('gzip');
+    expect(resolveCodec(5).algorithm).toBe('brotli');
+    expect(resolveCodec(2, 'brotli').algorithm).toBe('brotli');
+  });
+
+  test.each([1, 3, 5] as const)('should round-trip payloads at level %i', async (level) => {
+    const payload = createPayload();
+    const compressed = await compressPayload(payload, level);
+
+    expect(compressed._compressedSize).toBeLessThan(compressed._originalSize);
+    expect(Buffer.from(compressed.payload, 'base64').length).toBe(compressed._compressedSize);
+    expect(await decompressPayload(compressed)).toEqual(payload);
+  });
+});
+
+describe('ColdMCP compression', () => {
+  let coldMCP: ColdMCP;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    coldMCP = new ColdMCP('logs', MCPType.COLD, { batchSize: 2, compressionLevel: 4 });
+  });
+
+  afterEach(async () => {
+    await coldMCP.shutdown();
+    jest.useRealTimers();
+  });
+
+  test('should store encoded bytes and decompress transparently on read', async () => {
+    const payload = createPayload();
+    await coldMCP.store({ id: 'r1', domain: 'logs', type: 'event', timestamp: Date.now(), data: payload });
+    await coldMCP.store({ id: 'r2', domain: 'logs', type: 'event', timestamp: Date.now(), data: createPayload() });
+
+    const stored = (await coldMCP.prepareForMigration()).find(r => r.id === 'r1')!;
+    expect(stored.data._compressed).toBe(true);
+    expect(stored.data.algorithm).toBe('brotli');
+    expect(stored.data.message).toBeUndefined();
+
+    const retrieved = await coldMCP.retrieve('r1');
+    expect(retrieved?.data).toEqual(payload);
+
+    // Reads must not decompress the stored copy in place
+    const again = (await coldMCP.prepareForMigration()).find(r => r.id === 'r1')!;
+    expect(again.data._compressed).toBe(true);
+  });
+
+  test('should decode each stored payload once across repeated queries', async () => {
+    const decompress = jest.spyOn(coldMCP as any, 'decompress');
+    await coldMCP.store({ id: 'r1', domain: 'logs', type: 'event', timestamp: Date.now(), data: createPayload() });
+    await coldMCP.store({ id: 'r2', domain: 'logs', type: 'event', timestamp: Date.now(), data: createPayload() });
+
+    expect(await coldMCP.query({ 'data.nested.level': 1 })).toHaveLength(2);
+    expect(await coldMCP.query({ 'data.nested.level': 1 })).toHaveLength(2);
+    expect(decompress).toHaveBeenCalledTimes(2);
+
+    // A rewrite replaces the stored payload, so only that record is decoded again
+    await coldMCP.update({ id: 'r1', domain: 'logs', type: 'event', timestamp: Date.now(), data: { ...createPayload(), nested: { level: 2 } } });
+    expect((await coldMCP.query({ 'data.nested.level': 2 })).map(record => record.id)).toEqual(['r1']);
+    expect(decompress).toHaveBeenCalledTimes(3);
+  });
+
+  test('should report measured compression ratios', async () => {
+    await coldMCP.store({ id: 'r1', domain: 'logs', type: 'event', timestamp: Date.now(), data: createPayload() });
+    await coldMCP.flushBatch();
+
+    const analytics = await coldMCP.getColdAnalytics();
+    const stored = (await coldMCP.prepareForMigration())[0];
+
+    expect(analytics.compression.originalBytes).toBe(stored.metadata!.originalSize);
+    expect(analytics.compression.compressedBytes).toBe(stored.metadata!.compressedSize);
+    expect(analytics.storage.compressionRatio).toBeCloseTo(
+      stored.metadata!.compressedSize / stored.metadata!.originalSize
+    );
+    expect(analytics.compression.byAlgorithm.brotli.records).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Record Expiry Unit Tests
+ *
+ * Tests for ttl/expiresAt handling, read-time hiding of expired records,
+ * the background sweeper and expiry statistics.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { MCPConfig, MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('record expiry', () => {
+  let mcp: TestMCP;
+
+  const createMCP = (config: Partial<MCPConfig> = {}) => {
+    mcp = new TestMCP('user', MCPType.USER, config);
+    return mcp;
+  };
+
+  beforeEach(() => {
+    createMCP();
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  test('should turn a ttl into an expiry that restarts on every write', async () => {
+    const before = Date.now();
+    const record = createRecord('s1', {}, { ttl: HOUR_MS });
+    await mcp.store(record);
+
+    expect(record.expiresAt).toBeGreaterThanOrEqual(before + HOUR_MS);
+
+    const firstExpiry = record.expiresAt!;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await mcp.store(createRecord('s1', {}, { ttl: HOUR_MS }));
+    expect((await mcp.retrieve('s1'))!.expiresAt).toBeGreaterThan(firstExpiry);
+  });
+
+  test('should hide expired records from reads before they are purged', async () => {
+    await mcp.store(createRecord('live', {}, { ttl: HOUR_MS * 2 }));
+    await mcp.store(createRecord('stale', {}, { expiresAt: Date.now() - 1 }));
+    await mcp.store(createRecord('forever'));
+
+    expect(await mcp.retrieve('stale')).toBeNull();
+    expect((await mcp.query({ domain: 'user' })).map(r => r.id).sort()).toEqual(['forever', 'live']);
+    expect((await mcp.queryPage({}, { sort: [{ field: 'id' }] })).records.map(r => r.id)).toEqual(['forever', 'live']);
+    expect(mcp.getExpiryStats()).toMatchObject({ scheduled: 1, expired: 1, expiringWithinHour: 0, expiringWithinDay: 1, purged: 0 });
+
+    // A create-only write treats the expired record as gone
+    await expect(mcp.store(createRecord('stale'), { ifVersion: 0 })).resolves.toBe(true);
+    expect(await mcp.retrieve('stale')).toMatchObject({ version: 1 });
+  });
+
+  test('should purge expired records and report each one', async () => {
+    const now = Date.now();
+    await mcp.store(createRecord('a', {}, { expiresAt: now + 1000 }));
+    await mcp.store(createRecord('b', {}, { expiresAt: now + 2000 }));
+    await mcp.store(createRecord('c', {}, { expiresAt: now + HOUR_MS * 2 }));
+
+    const expired: string[] = [];
+    mcp.on('record_expired', event => expired.push(event.recordId));
+
+    expect(await mcp.purgeExpired(now + 1500)).toBe(1);
+    expect(expired).toEqual(['a']);
+    expect(await mcp.retrieve('a')).toBeNull();
+    expect(await mcp.retrieve('b')).not.toBeNull();
+
+    const stats = mcp.getExpiryStats(now + 1500);
+    expect(stats).toMatchObject({ scheduled: 2, expired: 0, expiringWithinHour: 1, purged: 1, nextExpiresAt: now + 2000 });
+  });
+
+  test('should sweep expired records in the background', async () => {
+    await mcp.shutdown();
+    createMCP({ expirySweepIntervalMs: 10 });
+
+    const expired = new Promise<any>(resolve => mcp.once('record_expired', resolve));
+    await mcp.store(createRecord('s1', {}, { ttl: 5 }));
+
+    await expect(expired).resolves.toMatchObject({ recordId: 's1', mcpId: mcp.metadata.id });
+    expect(mcp.getMetrics()).resolves.toMatchObject({ totalRecords: 0, expiry: { purged: 1, scheduled: 0 } });
+  });
+});
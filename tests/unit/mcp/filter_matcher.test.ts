@@ -0,0 +1,101 @@
+/**
+ * Filter Matcher Unit Tests
+ *
+ * Tests for the operator-aware filters behind BaseMCP.query.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { matchesFilter, resolveFieldPath } from '../../../src/core/mcp/filter_matcher';
+import { MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('filter matcher', () => {
+  const record = createRecord('u1', {
+    name: 'Alice',
+    age: 34,
+    email: 'alice@example.com',
+    tags: ['admin', 'beta'],
+    address: { city: 'Oslo' },
+    orders: [{ total: 20 }, { total: 75 }]
+  }, { timestamp: 1000 });
+
+  test('should resolve envelope fields before data fields', () => {
+    expect(resolveFieldPath(record, 'id')).toBe('u1');
+    expect(resolveFieldPath(record, 'address.city')).toBe('Oslo');
+    expect(resolveFieldPath(record, 'data.name')).toBe('Alice');
+    expect(resolveFieldPath(record, 'orders.total')).toEqual([20, 75]);
+  });
+
+  test.each([
+    [{ age: { $gt: 30, $lte: 34 } }, true],
+    [{ age: { $lt: 30 } }, false],
+    [{ name: { $ne: 'Bob' } }, true],
+    [{ name: { $in: ['Bob', 'Alice'] } }, true],
+    [{ name: { $nin: ['Alice'] } }, false],
+    [{ tags: 'beta' }, true],
+    [{ 'orders.total': { $gt: 50 } }, true],
+    [{ phone: { $exists: false } }, true],
+    [{ email: { $regex: '@EXAMPLE\\.com$', $options: 'i' } }, true],
+    [{ email: { $prefix: 'bob' } }, false],
+    [{ $or: [{ age: { $lt: 18 } }, { 'address.city': 'Oslo' }] }, true],
+    [{ $and: [{ age: { $gte: 18 } }, { tags: { $in: ['guest'] } }] }, false]
+  ])('should evaluate %j as %s', (filter, expected) => {
+    expect(matchesFilter(record, filter)).toBe(expected);
+  });
+
+  test('should reject unknown operators', () => {
+    expect(() => matchesFilter(record, { age: { $near: 3 } })).toThrow('$near');
+  });
+
+  test('should reject regular expressions that could backtrack without bound', () => {
+    const regex = (pattern: string) => () => matchesFilter(record, { email: { $regex: pattern } });
+
+    for (const pattern of ['(a+)+$', '(\\w*,?){2,}x', '((ab)*c)+', '(x|(y+))*', '(a|aa)+', '(a|a)*', '(a?){30}a{30}']) {
+      expect(regex(pattern)).toThrow('repeats a group that holds a quantifier or alternation');
+    }
+    expect(regex('a'.repeat(257))).toThrow('longer than 256 characters');
+    expect(regex('(')).toThrow('Invalid regular expression');
+
+    // Quantifiers that are not nested, are literal inside a class or escaped, or only make a group optional are fine
+    for (const pattern of ['^[a-z]+@example\\.com$', '(ab)+c*', '([+*])+', '(a\\+)+', '(?:na){2}', 'x{2}(y)*', '(\\w+)?@', 'colou?r', '\\w+?@']) {
+      expect(regex(pattern)).not.toThrow();
+    }
+  });
+});
+
+describe('BaseMCP.query filters', () => {
+  let mcp: TestMCP;
+  const now = Date.UTC(2024, 5, 15);
+
+  beforeEach(async () => {
+    mcp = new TestMCP('user', MCPType.USER);
+    await mcp.store(createRecord('u1', { name: 'Alice', age: 34 }, { timestamp: now - 3 * DAY_MS }));
+    await mcp.store(createRecord('u2', { name: 'Bob', age: 17 }, { timestamp: now - DAY_MS }));
+    await mcp.store(createRecord('u3', { name: 'Carol', age: 52 }, { timestamp: now }));
+    await mcp.store(createRecord('c1', { text: 'hello' }, { timestamp: now, domain: 'chat' }));
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  test('should apply comparison operators to data fields', async () => {
+    const results = await mcp.query({ age: { $gte: 18 } });
+    expect(results.map(r => r.id).sort()).toEqual(['u1', 'u3']);
+  });
+
+  test('should combine indexed and unindexed predicates', async () => {
+    const results = await mcp.query({
+      domain: { $in: ['user'] },
+      timestamp: { $gte: now - 2 * DAY_MS },
+      name: { $regex: '^c', $options: 'i' }
+    });
+    expect(results.map(r => r.id)).toEqual(['u3']);
+  });
+
+  test('should return nothing when an indexed equality has no matches', async () => {
+    expect(await mcp.query({ domain: 'stats' })).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Full-Text Search Unit Tests
+ *
+ * Tests for stemming, the BM25 inverted index, highlighting and text search through ChatMCP and LogsMCP.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { stem } from '../../../src/core/mcp/text_analysis';
+import { InvertedIndex, highlight, parseSearchQuery } from '../../../src/core/mcp/inverted_index';
+import { ChatMCP } from '../../../src/core/specialized/chat_mcp';
+import { LogsMCP } from '../../../src/core/specialized/logs_mcp';
+import { MCPType } from '../../../src/types/mcp.types';
+
+describe('stem', () => {
+  test('should reduce inflected forms to a shared stem', () => {
+    expect(stem('connection')).toBe('connect');
+    expect(stem('connected')).toBe('connect');
+    expect(stem('connections')).toBe('connect');
+    expect(stem('running')).toBe('run');
+    expect(stem('failures')).toBe(stem('failure'));
+    expect(stem('api')).toBe('api');
+  });
+});
+
+describe('InvertedIndex', () => {
+  let index: InvertedIndex;
+
+  beforeEach(() => {
+    index = new InvertedIndex();
+    index.add('a', 'Database connection timeout on the primary server');
+    index.add('b', 'The server restarted after a timeout');
+    index.add('c', 'Connected to the database, connection pool warmed, connections healthy');
+    index.add('d', 'User changed their profile picture');
+  });
+
+  test('should rank by BM25 and match inflected forms', () => {
+    const hits = index.search('connections');
+    expect(hits.map(hit => hit.id)).toEqual(['c', 'a']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(index.search('profile', { limit: 5 }).map(hit => hit.id)).toEqual(['d']);
+  });
+
+  test('should require phrases to appear with adjacent words', () => {
+    expect(index.search('"connection timeout"').map(hit => hit.id)).toEqual(['a']);
+    expect(index.search('"timeout connection"')).toEqual([]);
+    expect(index.search('server "database connection"').map(hit => hit.id)).toEqual(['a']);
+  });
+
+  test('should expand prefixes and honour accept', () => {
+    expect(index.search('prof*').map(hit => hit.id)).toEqual(['d']);
+    expect(index.search('serv* timeout', { accept: id => id !== 'a' }).map(hit => hit.id)).toEqual(['b']);
+    expect(parseSearchQuery('"Reset Passwords" user* error')).toEqual({
+      terms: ['error'],
+      phrases: [['reset', 'password']],
+      prefixes: ['user']
+    });
+  });
+
+  test('should forget removed documents and replace re-added ones', () => {
+    expect(index.remove('a')).toBe(true);
+    index.add('d', 'Server maintenance window');
+
+    expect(index.search('timeout').map(hit => hit.id)).toEqual(['b']);
+    expect(index.search('profile')).toEqual([]);
+    expect(index.search('maintenance').map(hit => hit.id)).toEqual(['d']);
+    expect(index.getStats().documents).toBe(3);
+  });
+});
+
+describe('highlight', () => {
+  test('should wrap matched words and trim long text to snippets', () => {
+    expect(highlight('Payment failed for order 42', 'failing payments')).toEqual([
+      '<mark>Payment</mark> <mark>failed</mark> for order 42'
+    ]);
+
+    const long = `${'filler words here '.repeat(20)}the cache was evicted ${'and more filler '.repeat(20)}`;
+    const [snippet] = highlight(long, 'evict*', { fragmentSize: 60 });
+    expect(snippet).toContain('<mark>evicted</mark>');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+  });
+});
+
+describe('ChatMCP.searchMessages', () => {
+  let chat: ChatMCP;
+
+  const message = (id: string, text: string, conversationId: string, created: number) => ({
+    id,
+    domain: 'chat',
+    type: 'message',
+    timestamp: created,
+    data: { id, conversationId, senderId: 'u1', created, content: { type: 'text', text } }
+  });
+
+  beforeEach(async () => {
+    chat = new ChatMCP('chat', MCPType.HOT);
+    await chat.store(message('m1', 'The deployment failed again', 'c1', 1000));
+    await chat.store(message('m2', 'Deployment succeeded, deploying the hotfix next', 'c2', 2000));
+    await chat.store(message('m3', 'Lunch at noon?', 'c1', 3000));
+  });
+
+  afterEach(async () => {
+    await chat.shutdown();
+  });
+
+  test('should return ranked hits with highlights and apply filters', async () => {
+    const hits = await chat.searchMessages('deployments');
+    expect(hits.map(hit => hit.record.id).sort()).toEqual(['m1', 'm2']);
+    expect(hits[0].highlights[0]).toContain('<mark>');
+
+    const filtered = await chat.searchMessages('deployment', { conversationId: 'c1' });
+    expect(filtered.map(hit => hit.record.id)).toEqual(['m1']);
+    expect(await chat.searchMessages('deployment', { dateFrom: 1500 })).toHaveLength(1);
+  });
+
+  test('should reindex overwritten and deleted messages', async () => {
+    await chat.store(message('m1', 'Nothing to see here', 'c1', 1000));
+    await chat.delete('m2');
+
+    expect(await chat.searchMessages('deployment')).toEqual([]);
+    expect((await chat.searchMessages('nothing')).map(hit => hit.record.id)).toEqual(['m1']);
+  });
+});
+
+describe('LogsMCP.searchLogs', () => {
+  let logs: LogsMCP;
+
+  const log = (id: string, level: string, message: string, service: string) => ({
+    id,
+    domain: 'logs',
+    type: 'log',
+    timestamp: Date.now(),
+    data: {
+      id,
+      level,
+      message,
+      timestamp: Date.now(),
+      source: { application: 'shop', service, instance: 'i1', host: 'h1' },
+      context: {},
+      details: {},
+      tags: [],
+      labels: {}
+    }
+  });
+
+  beforeEach(async () => {
+    logs = new LogsMCP('logs', MCPType.COLD);
+    await logs.store(log('l1', 'error', 'Database connection refused', 'orders'));
+    await logs.store(log('l2', 'info', 'Connected to database', 'billing'));
+    await logs.store(log('l3', 'warn', 'Slow response from payment gateway', 'billing'));
+  });
+
+  afterEach(async () => {
+    await logs.shutdown();
+  });
+
+  test('should search log messages with level and service filters', async () => {
+    expect((await logs.searchLogs('database connections')).map(hit => hit.record.id).sort()).toEqual(['l1', 'l2']);
+    expect((await logs.searchLogs('database', { level: 'error' })).map(hit => hit.record.id)).toEqual(['l1']);
+    expect((await logs.searchLogs('database', { service: 'billing' })).map(hit => hit.record.id)).toEqual(['l2']);
+    expect(await logs.searchLogs('"payment gateway"', { limit: 1 })).toHaveLength(1);
+  });
+});
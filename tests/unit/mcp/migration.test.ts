@@ -0,0 +1,210 @@
+/**
+ * MCP Migration Unit Tests
+ *
+ * Tests for copying records into a target-tier MCP in checksummed batches, resuming from a
+ * checkpoint, switching registry routing over and rolling back.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseMCP } from '../../../src/core/mcp/base_mcp';
+import { MCPMigrationEngine, MigrationStatus, MigrationValidationError } from '../../../src/mcp/migration/MCPMigrationEngine';
+import { FileMigrationCheckpointStore } from '../../../src/mcp/migration/MigrationCheckpointStore';
+import { TierClassifier } from '../../../src/mcp/classification/TierClassifier';
+import { MCPRegistry, MCPCreationRequest } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { DataRecord, MCPTier, MCPType } from '../../../src/types/mcp.types';
+
+const users = Array.from({ length: 25 }, (_, i) => {
+  const id = `u-${String(i + 1).padStart(2, '0')}`;
+  return { id, userId: id, email: `${id}@example.com`, role: i % 5 === 0 ? 'admin' : 'member' };
+});
+
+const contents = async (mcp: BaseMCP) =>
+  (await mcp.query({})).map(record => ({ id: record.id, data: record.data })).sort((a, b) => a.id.localeCompare(b.id));
+
+describe('MCPMigrationEngine', () => {
+  let registry: MCPRegistry;
+  let engines: MCPMigrationEngine[];
+  let sourceId: string;
+  let source: BaseMCP;
+  let targets: BaseMCP[];
+
+  // Standby targets are handed to `prepare` before the engine starts filling them
+  const interceptTargets = (prepare: (target: BaseMCP) => void = () => {}) => {
+    const createStandby = registry.createStandbyMCP.bind(registry);
+    registry.createStandbyMCP = async (request: MCPCreationRequest) => {
+      const target = await createStandby(request);
+      targets.push(target);
+      prepare(target);
+      return target;
+    };
+  };
+
+  const failOnce = (target: BaseMCP, id: string) => {
+    const store = target.store.bind(target);
+    let failed = false;
+    target.store = async (record: DataRecord, options?: any) => {
+      if (record.id === id && !failed) {
+        failed = true;
+        return false;
+      }
+      return store(record, options);
+    };
+  };
+
+  const createEngine = (checkpointDir?: string) => {
+    const engine = new MCPMigrationEngine(
+      registry,
+      new TierClassifier(),
+      3,
+      checkpointDir ? new FileMigrationCheckpointStore(checkpointDir) : undefined
+    );
+    engines.push(engine);
+    return engine;
+  };
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    engines = [];
+    targets = [];
+    sourceId = await registry.createMCP({ name: 'user-mcp', type: MCPType.USER, domain: 'user', initialData: users });
+    source = (await registry.getMCP(sourceId))!;
+  });
+
+  afterEach(async () => {
+    for (const engine of engines) {
+      await engine.shutdown();
+    }
+    await registry.shutdown();
+  });
+
+  test('should copy every record into a target-tier MCP and switch routing to it', async () => {
+    interceptTargets();
+    const engine = createEngine();
+    const before = await contents(source);
+
+    const plan = await engine.createMigrationPlan(sourceId, MCPTier.COLD, { strategy: { batchSize: 10 } });
+    const progress = await engine.executeMigration(plan);
+
+    expect(progress.status).toBe(MigrationStatus.COMPLETED);
+    expect(progress).toMatchObject({ transferredRecords: 25, totalRecords: 25, progress: 1 });
+    expect(progress.transferredData).toBeGreaterThan(0);
+    // One checksum per batch plus the full comparison
+    expect(progress.metrics.checksumValidations).toBe(4);
+
+    const routed = (await registry.getMCP(sourceId))!;
+    expect(routed).toBe(targets[0]);
+    expect(routed.getMetadata()).toMatchObject({ id: sourceId, tier: MCPTier.COLD, status: 'active' });
+    expect(await contents(routed)).toEqual(before);
+
+    expect(source.getStatus()).toBe('inactive');
+    expect(await engine.getInterruptedMigrations()).toEqual([]);
+    expect(engine.getMigrationHistory(sourceId)).toHaveLength(1);
+  });
+
+  test('should resume from the last checkpoint and pick up writes made in between', async () => {
+    interceptTargets(target => failOnce(target, 'u-15'));
+    const engine = createEngine();
+
+    const plan = await engine.createMigrationPlan(sourceId, MCPTier.HOT, {
+      strategy: { batchSize: 10 },
+      rollbackPlan: { enabled: false }
+    });
+    await expect(engine.executeMigration(plan)).rejects.toThrow('Failed to copy record u-15');
+
+    const [checkpoint] = await engine.getInterruptedMigrations();
+    expect(checkpoint).toMatchObject({ migrationId: plan.id, batches: 1, records: 10 });
+    expect(await registry.getMCP(sourceId)).toBe(source);
+
+    // Writes to records before and after the checkpoint while the migration is stopped
+    await source.store({ id: 'u-03', domain: 'user', type: 'user', timestamp: Date.now(), data: { ...users[2], role: 'owner' } });
+    await source.delete('u-20');
+
+    const progress = await engine.resumeMigration(plan.id);
+    expect(progress.status).toBe(MigrationStatus.COMPLETED);
+    expect(targets).toHaveLength(1);
+
+    const routed = (await registry.getMCP(sourceId))!;
+    expect(routed).toBe(targets[0]);
+    const migrated = await contents(routed);
+    expect(migrated).toHaveLength(24);
+    expect(migrated.find(record => record.id === 'u-03')!.data.role).toBe('owner');
+    expect(migrated.find(record => record.id === 'u-20')).toBeUndefined();
+    expect(await engine.getInterruptedMigrations()).toEqual([]);
+  });
+
+  test('should roll back when a batch fails its checksum', async () => {
+    interceptTargets(target => {
+      const store = target.store.bind(target);
+      target.store = async (record: DataRecord, options?: any) =>
+        store(record.id === 'u-04' ? { ...record, data: { ...record.data, role: 'corrupted' } } : record, options);
+    });
+    const engine = createEngine();
+    const rolledBack: string[] = [];
+    engine.on('migration-rollback-completed', event => rolledBack.push(event.migrationId));
+
+    const plan = await engine.createMigrationPlan(sourceId, MCPTier.COLD, { strategy: { batchSize: 10 } });
+    const failure = engine.executeMigration(plan);
+    await expect(failure).rejects.toThrow(MigrationValidationError);
+    await expect(failure).rejects.toThrow('Checksum mismatch in batch 1');
+
+    expect(rolledBack).toEqual([plan.id]);
+    expect(await registry.getMCP(sourceId)).toBe(source);
+    expect(source.getStatus()).toBe('active');
+    expect(targets[0].getMetadata().healthStatus).toBe('unhealthy');
+    expect(await engine.getInterruptedMigrations()).toEqual([]);
+  });
+
+  describe('with persisted checkpoints', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-checkpoints-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should resume after a restart and refill an in-memory target from the start', async () => {
+      // Only the first engine's target fails
+      interceptTargets(target => targets.length === 1 && failOnce(target, 'u-25'));
+      const first = createEngine(directory);
+      const plan = await first.createMigrationPlan(sourceId, MCPTier.WARM, {
+        strategy: { batchSize: 10 },
+        rollbackPlan: { enabled: false }
+      });
+      await expect(first.executeMigration(plan)).rejects.toThrow('Failed to copy record u-25');
+      await first.shutdown();
+      expect(await fs.readdir(directory)).toEqual([`${plan.id}.json`]);
+
+      // A fresh engine knows the migration only from its checkpoint file
+      const second = createEngine(directory);
+      const [checkpoint] = await second.getInterruptedMigrations();
+      expect(checkpoint).toMatchObject({ migrationId: plan.id, batches: 2, records: 20 });
+      expect(checkpoint.plan.targetTier).toBe(MCPTier.WARM);
+
+      const progress = await second.resumeMigration(plan.id);
+      expect(progress).toMatchObject({ status: MigrationStatus.COMPLETED, transferredRecords: 25 });
+      expect((await registry.getMCP(sourceId))!.getMetadata().tier).toBe(MCPTier.WARM);
+      expect(await fs.readdir(directory)).toEqual([]);
+    });
+
+    test('should roll back an interrupted migration from its checkpoint', async () => {
+      interceptTargets(target => failOnce(target, 'u-05'));
+      const engine = createEngine(directory);
+      const plan = await engine.createMigrationPlan(sourceId, MCPTier.HOT, { rollbackPlan: { enabled: false } });
+      await expect(engine.executeMigration(plan)).rejects.toThrow('Failed to copy record u-05');
+      expect(source.getStatus()).toBe('migrating');
+
+      await engine.rollbackMigration(plan.id);
+      expect(source.getStatus()).toBe('active');
+      expect(await registry.getMCP(sourceId)).toBe(source);
+      expect(await fs.readdir(directory)).toEqual([]);
+      await expect(engine.resumeMigration(plan.id)).rejects.toThrow('No checkpoint for migration');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Ordered Index Unit Tests
+ *
+ * Tests for skip-list secondary indexes, the cost-based selector and
+ * index creation through the IndexOptimizer.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { OrderedIndex } from '../../../src/core/mcp/ordered_index';
+import { IndexOptimizer } from '../../../src/intelligence/index_optimizer';
+import { MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+describe('OrderedIndex', () => {
+  let index: OrderedIndex;
+
+  beforeEach(() => {
+    index = new OrderedIndex({ name: 'city_age', fields: ['city', 'age'], unique: false, sparse: false });
+    const rows: Array<[string, string, number]> = [
+      ['u1', 'Oslo', 34], ['u2', 'Bergen', 17], ['u3', 'Oslo', 52], ['u4', 'Oslo', 20], ['u5', 'Bodo', 41]
+    ];
+    for (const [id, city, age] of rows) {
+      index.put(id, index.keysFor({ data: { city, age } }));
+    }
+  });
+
+  test('should scan a range on the second field within an equality prefix', () => {
+    const ids = Array.from(index.scan({
+      lower: { key: ['Oslo', 20], inclusive: true },
+      upper: { key: ['Oslo', 52], inclusive: false }
+    }), entry => entry.id);
+    expect(ids).toEqual(['u4', 'u1']);
+  });
+
+  test('should scan string prefixes in key order', () => {
+    const ids = Array.from(index.scan({
+      lower: { key: ['B'], inclusive: true },
+      upper: { key: ['B\uffff'], inclusive: true }
+    }), entry => entry.id);
+    expect(ids).toEqual(['u2', 'u5']);
+  });
+
+  test('should replace and remove entries for a record', () => {
+    index.put('u1', index.keysFor({ data: { city: 'Bergen', age: 34 } }));
+    expect(index.collect([{ lower: { key: ['Oslo'], inclusive: true }, upper: { key: ['Oslo'], inclusive: true } }]))
+      .toEqual(new Set(['u3', 'u4']));
+
+    expect(index.remove('u1')).toBe(true);
+    expect(index.size).toBe(4);
+  });
+});
+
+describe('BaseMCP ordered indexes', () => {
+  let mcp: TestMCP;
+  let indexUsed: string | null;
+  let scannedRecords: number;
+
+  beforeEach(async () => {
+    mcp = new TestMCP('user', MCPType.USER);
+    mcp.on('query_executed', event => {
+      indexUsed = event.indexUsed;
+      scannedRecords = event.scannedRecords;
+    });
+    for (let i = 0; i < 40; i++) {
+      await mcp.store(createRecord(`u${i}`, {
+        email: `user${i}@example.com`,
+        country: i % 2 === 0 ? 'NO' : 'SE',
+        age: 18 + i
+      }));
+    }
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  test('should pick the most selective index for a compound filter', async () => {
+    expect(await mcp.createIndex('country_age', ['country', 'age'])).toBe(true);
+    expect(await mcp.createIndex('email', ['email'], { unique: true })).toBe(true);
+
+    const results = await mcp.query({ country: 'NO', age: { $gte: 50, $lt: 56 } });
+    expect(results.map(r => r.id).sort()).toEqual(['u32', 'u34', 'u36']);
+    expect(indexUsed).toBe('country_age');
+    expect(scannedRecords).toBe(3);
+
+    await mcp.query({ email: { $regex: '^user3' }, country: 'SE' });
+    expect(indexUsed).toBe('email');
+  });
+
+  test('should not use an index whose leading field is unconstrained', async () => {
+    await mcp.createIndex('country_age', ['country', 'age']);
+
+    const results = await mcp.query({ age: { $lt: 20 } });
+    expect(results.map(r => r.id).sort()).toEqual(['u0', 'u1']);
+    expect(indexUsed).toBeNull();
+  });
+
+  test('should reject duplicate keys on a unique index', async () => {
+    const errors: string[] = [];
+    mcp.on('error', event => errors.push(event.error));
+    await mcp.createIndex('email', ['email'], { unique: true });
+
+    expect(await mcp.store(createRecord('dup', { email: 'user7@example.com' }))).toBe(false);
+    expect(errors[0]).toContain('Unique index "email"');
+    expect(await mcp.retrieve('dup')).toBeNull();
+
+    // Rewriting the record that holds the key is allowed
+    expect(await mcp.store(createRecord('u7', { email: 'user7@example.com', age: 99 }))).toBe(true);
+  });
+
+  test('should refuse to build a unique index over existing duplicates', async () => {
+    mcp.on('error', () => undefined);
+    expect(await mcp.createIndex('country', ['country'], { unique: true })).toBe(false);
+    expect(mcp.getIndexes().map(index => index.name)).not.toContain('country');
+  });
+});
+
+describe('IndexOptimizer', () => {
+  test('should create candidate indexes on the resolved MCP', async () => {
+    const mcp = new TestMCP('user', MCPType.USER);
+    await mcp.store(createRecord('u1', { email: 'a@example.com' }));
+    const optimizer = new IndexOptimizer({ resolveMCP: async id => (id === mcp.metadata.id ? mcp : null) });
+
+    const created = await optimizer.createOptimalIndexes([
+      { mcpId: mcp.metadata.id, field: 'email', unique: true, confidence: 0.9, estimatedSpeedup: 4, cost: 10, usageFrequency: 50 },
+      { mcpId: 'missing', field: 'email', confidence: 0.9, estimatedSpeedup: 4, cost: 10, usageFrequency: 50 }
+    ]);
+
+    expect(created).toHaveLength(2);
+    expect(created[0]).toMatchObject({ name: 'auto_email_idx', fields: ['email'], unique: true, status: 'active', size: 1 });
+    expect(created[1]).toMatchObject({ mcpId: 'missing', status: 'inactive', statusReason: 'MCP missing is not available' });
+    expect(mcp.getIndexes().find(index => index.name === 'auto_email_idx')?.unique).toBe(true);
+    await mcp.shutdown();
+  });
+});
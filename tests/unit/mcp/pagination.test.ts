@@ -0,0 +1,167 @@
+/**
+ * Query Pagination Unit Tests
+ *
+ * Tests for cursor-paged MCP queries, the async query iterator and
+ * continuation cursors on natural language queries.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { InvalidCursorError, TopK } from '../../../src/core/mcp/pagination';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+describe('TopK', () => {
+  test('should keep the smallest items in order', () => {
+    const top = new TopK<number>(3, (a, b) => a - b);
+    [9, 4, 7, 1, 8, 3, 6].forEach(value => top.offer(value));
+    expect(top.sorted()).toEqual([1, 3, 4]);
+  });
+});
+
+describe('BaseMCP.queryPage', () => {
+  let mcp: TestMCP;
+
+  beforeEach(async () => {
+    mcp = new TestMCP('logs', MCPType.LOGS);
+    for (let i = 0; i < 25; i++) {
+      // Pairs of records share a timestamp so the ID tie-break is exercised
+      await mcp.store(createRecord(`log-${String(i).padStart(2, '0')}`, {
+        level: i % 5 === 0 ? 'error' : 'info'
+      }, { domain: 'logs', type: 'log', timestamp: 1000 + Math.floor(i / 2) }));
+    }
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  test('should page through matches in sort order without gaps or repeats', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await mcp.queryPage({ level: 'info' }, { sort: [{ field: 'timestamp', direction: 'desc' }], limit: 6, cursor });
+      seen.push(...page.records.map(record => record.id));
+      cursor = page.nextCursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    const expected = (await mcp.query({ level: 'info' }))
+      .sort((a, b) => b.timestamp - a.timestamp || (a.id < b.id ? -1 : 1))
+      .map(record => record.id);
+    expect(pages).toBe(4);
+    expect(seen).toEqual(expected);
+  });
+
+  test('should resume after the cursor even when earlier records are deleted', async () => {
+    const first = await mcp.queryPage({}, { sort: [{ field: 'timestamp' }], limit: 5 });
+    await mcp.delete(first.records[4].id);
+
+    const second = await mcp.queryPage({}, { sort: [{ field: 'timestamp' }], limit: 5, cursor: first.nextCursor! });
+    expect(second.records.map(record => record.id)).toEqual(['log-05', 'log-06', 'log-07', 'log-08', 'log-09']);
+  });
+
+  test('should page through records that lack the sort field', async () => {
+    const scored = new TestMCP('scores', MCPType.LOGS);
+    const scores = [5, 1, undefined, undefined, undefined, 3];
+    for (let i = 0; i < scores.length; i++) {
+      await scored.store(createRecord(`r${i}`, scores[i] === undefined ? {} : { score: scores[i] }, { domain: 'logs', type: 'log', timestamp: 1000 }));
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await scored.queryPage({}, { sort: [{ field: 'score' }], limit: 2, cursor });
+      seen.push(...page.records.map(record => record.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    await scored.shutdown();
+
+    // Missing values sort first, tied by ID
+    expect(seen).toEqual(['r2', 'r3', 'r4', 'r1', 'r5', 'r0']);
+  });
+
+  test('should resume later pages from the cursor in the sort index', async () => {
+    const scans: Array<{ indexUsed: string | null; scannedRecords: number }> = [];
+    mcp.on('query_executed', event => scans.push(event));
+
+    for (const direction of ['asc', 'desc'] as const) {
+      scans.length = 0;
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await mcp.queryPage({ level: 'info' }, { sort: [{ field: 'timestamp', direction }], limit: 5, cursor });
+        seen.push(...page.records.map(record => record.id));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      const expected = (await mcp.query({ level: 'info' }))
+        .sort((a, b) => (direction === 'asc' ? a.timestamp - b.timestamp : b.timestamp - a.timestamp) || (a.id < b.id ? -1 : 1))
+        .map(record => record.id);
+      expect(seen).toEqual(expected);
+      // Each page reads its own records, the page's last timestamp and one more, not the whole tier
+      scans.filter(scan => 'paged' in scan).forEach(scan => {
+        expect(scan.indexUsed).toBe('timestamp');
+        expect(scan.scannedRecords).toBeLessThanOrEqual(10);
+      });
+    }
+  });
+
+  test('should reject cursors issued for a different query', async () => {
+    const page = await mcp.queryPage({ level: 'info' }, { limit: 2 });
+
+    await expect(mcp.queryPage({ level: 'error' }, { limit: 2, cursor: page.nextCursor! }))
+      .rejects.toBeInstanceOf(InvalidCursorError);
+    await expect(mcp.queryPage({}, { cursor: 'not-a-cursor' })).rejects.toBeInstanceOf(InvalidCursorError);
+  });
+
+  test('should stream every match through the async iterator', async () => {
+    const ids: string[] = [];
+    for await (const record of mcp.queryIterator({ level: 'error' }, { sort: [{ field: 'id', direction: 'desc' }], batchSize: 2 })) {
+      ids.push(record.id);
+    }
+    expect(ids).toEqual(['log-20', 'log-15', 'log-10', 'log-05', 'log-00']);
+  });
+});
+
+describe('RAG2Controller paging', () => {
+  let registry: MCPRegistry;
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: Array.from({ length: 5 }, (_, i) => ({ id: `u-page-${i}`, email: `user${i}@example.com` }))
+    });
+  });
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should return a continuation cursor until every record has been seen', async () => {
+    const rag2 = new RAG2Controller(registry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+
+    const first = await rag2.query('show all users', undefined, { pageSize: 3 });
+    expect(first.data.primary).toHaveLength(3);
+    expect(first.nextCursor).toBeDefined();
+
+    const second = await rag2.query('show all users', undefined, { pageSize: 3, cursor: first.nextCursor });
+    expect(second.data.primary).toHaveLength(2);
+    expect(second.nextCursor).toBeUndefined();
+
+    const ids = [...first.data.primary, ...second.data.primary].map((record: any) => record.id);
+    expect(new Set(ids).size).toBe(5);
+
+    await expect(rag2.query('show all chats', undefined, { pageSize: 3, cursor: first.nextCursor }))
+      .rejects.toBeInstanceOf(InvalidCursorError);
+  });
+});
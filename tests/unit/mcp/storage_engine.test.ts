@@ -0,0 +1,232 @@
+/**
+ * Storage Engine Unit Tests
+ *
+ * Tests for the write-ahead log + snapshot engine behind BaseMCP.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorageEngine } from '../../../src/core/storage';
+import { ColdMCP } from '../../../src/core/mcp/cold_mcp';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { DataRecord, MCPConfig, MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+describe('FileStorageEngine', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('should replay the write-ahead log after reopening', async () => {
+    const engine = new FileStorageEngine({ directory: dataDir, fsyncPolicy: 'always' });
+    await engine.open();
+    await engine.put(createRecord('a', { name: 'Alice' }));
+    await engine.put(createRecord('b', { name: 'Bob' }));
+    await engine.put(createRecord('a', { name: 'Alice v2' }));
+    await engine.delete('b');
+    await engine.close();
+
+    const reopened = new FileStorageEngine({ directory: dataDir });
+    const records = await reopened.open();
+    await reopened.close();
+
+    expect(records).toHaveLength(1);
+    expect(records[0].data.name).toBe('Alice v2');
+    expect(reopened.getStats().lastSequence).toBe(4);
+  });
+
+  test('should truncate the log on snapshot and recover from both', async () => {
+    const engine = new FileStorageEngine({ directory: dataDir, fsyncPolicy: 'never', snapshotInterval: 2 });
+    await engine.open();
+    const first = createRecord('a');
+    const second = createRecord('b');
+    await engine.put(first);
+    await engine.put(second);
+
+    expect(engine.shouldSnapshot()).toBe(true);
+    await engine.snapshot([first, second]);
+    expect(engine.shouldSnapshot()).toBe(false);
+    expect(await fs.readFile(path.join(dataDir, 'wal.log'), 'utf8')).toBe('');
+
+    await engine.put(createRecord('c'));
+    await engine.close();
+
+    const reopened = new FileStorageEngine({ directory: dataDir });
+    const records = await reopened.open();
+    await reopened.close();
+
+    expect(records.map(r => r.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(reopened.getStats().lastSnapshotSequence).toBe(2);
+  });
+
+  test('should discard a torn entry at the tail of the log', async () => {
+    const engine = new FileStorageEngine({ directory: dataDir, fsyncPolicy: 'always' });
+    await engine.open();
+    await engine.put(createRecord('a'));
+    await engine.close();
+    await fs.appendFile(path.join(dataDir, 'wal.log'), '{"seq":2,"op":"put","id":"b"');
+
+    const reopened = new FileStorageEngine({ directory: dataDir, fsyncPolicy: 'always' });
+    const records = await reopened.open();
+    await reopened.put(createRecord('c'));
+    await reopened.close();
+
+    expect(records.map(r => r.id)).toEqual(['a']);
+    expect(reopened.getStats().discardedEntries).toBe(1);
+
+    const again = new FileStorageEngine({ directory: dataDir });
+    expect((await again.open()).map(r => r.id)).toEqual(['a', 'c']);
+    await again.close();
+  });
+});
+
+describe('BaseMCP durable storage', () => {
+  let dataDir: string;
+  let config: Partial<MCPConfig>;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-storage-'));
+    config = {
+      storage: { engine: 'file', dataDir, namespace: 'users', fsyncPolicy: 'always', snapshotInterval: 3 }
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('should restore records and indices on initialize after a restart', async () => {
+    const mcp = new TestMCP('user', MCPType.USER, config);
+    await mcp.initialize();
+    await mcp.store(createRecord('u1'));
+    await mcp.store(createRecord('u2'));
+    await mcp.store(createRecord('u3'));
+    await mcp.store({ ...createRecord('u4'), domain: 'chat' });
+    await mcp.delete('u3');
+
+    expect(mcp.getStorageStats().snapshotCount).toBe(1);
+
+    // Simulate a crash: no shutdown, a fresh instance over the same directory
+    const restarted = new TestMCP('user', MCPType.USER, config);
+    await restarted.initialize();
+
+    expect(await restarted.retrieve('u3')).toBeNull();
+    expect((await restarted.retrieve('u4'))?.id).toBe('u4');
+    expect((await restarted.query({ domain: 'user' })).map(r => r.id).sort()).toEqual(['u1', 'u2']);
+
+    await restarted.shutdown();
+    await mcp.shutdown();
+  });
+
+  test('should not lose a logged write that a concurrent snapshot runs into', async () => {
+    config.storage!.snapshotInterval = 0;
+    const mcp = new TestMCP('user', MCPType.USER, config);
+    await mcp.initialize();
+    await mcp.store(createRecord('u1'));
+
+    // Snapshot while u2 is in the log but not yet in the record map
+    const storage = (mcp as any).storage;
+    const put = storage.put.bind(storage);
+    let snapshot: Promise<void> | undefined;
+    storage.put = (record: DataRecord) => {
+      const logged = put(record);
+      snapshot = mcp.snapshot();
+      return logged;
+    };
+    await Promise.all([mcp.store(createRecord('u2')), mcp.store(createRecord('u3'))]);
+    await snapshot;
+
+    const restarted = new TestMCP('user', MCPType.USER, config);
+    await restarted.initialize();
+    expect((await restarted.query({})).map(r => r.id).sort()).toEqual(['u1', 'u2', 'u3']);
+
+    await restarted.shutdown();
+    await mcp.shutdown();
+  });
+
+  test('should require a namespace for file storage', () => {
+    delete config.storage!.namespace;
+    expect(() => new TestMCP('user', MCPType.USER, config)).toThrow('File storage requires a namespace for each MCP');
+  });
+
+  test('should log a batched cold write before acknowledging it', async () => {
+    // The cold tier's background timers outlive shutdown
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    const coldConfig = { ...config, storage: { ...config.storage!, namespace: 'archive' }, batchSize: 100 };
+    const cold = new ColdMCP('logs', MCPType.COLD, coldConfig);
+    await cold.initialize();
+
+    const record = createRecord('l1', { message: 'archived' });
+    expect(await cold.store(record)).toBe(true);
+    expect(record.version).toBe(1);
+
+    // A crash right after the acknowledgement keeps the write
+    const restarted = new ColdMCP('logs', MCPType.COLD, coldConfig);
+    await restarted.initialize();
+    expect((await restarted.retrieve('l1'))?.data).toEqual({ message: 'archived' });
+
+    await restarted.shutdown();
+    await cold.shutdown();
+    jest.useRealTimers();
+  });
+
+  test('should keep the default in-memory behaviour without storage config', async () => {
+    const mcp = new TestMCP('user', MCPType.USER);
+    await mcp.initialize();
+    await mcp.store(createRecord('u1'));
+
+    expect(mcp.getStorageStats().engine).toBe('memory');
+    expect(await fs.readdir(dataDir)).toEqual([]);
+
+    await mcp.shutdown();
+  });
+});
+
+describe('MCPRegistry durable storage', () => {
+  let dataDir: string;
+  let registry: MCPRegistry;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-storage-'));
+    registry = new MCPRegistry({ storage: { engine: 'file', dataDir, fsyncPolicy: 'always' } });
+    registry.registerMCPFactory(MCPType.USER, (domain, type, config) => new TestMCP(domain, type, config));
+  });
+
+  afterEach(async () => {
+    for (const mcp of (await registry.getAllMCPs()).values()) {
+      await mcp.shutdown();
+    }
+    await registry.shutdown();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  test('should give each MCP of one domain and type its own log, named after the MCP', async () => {
+    const first = (await registry.getMCP(await registry.createMCP({ name: 'users-eu', type: MCPType.USER, domain: 'user' })))!;
+    const second = (await registry.getMCP(await registry.createMCP({ name: 'users-us', type: MCPType.USER, domain: 'user' })))!;
+    await first.store(createRecord('u1'));
+    await second.store(createRecord('u2'));
+
+    expect((await fs.readdir(dataDir)).sort()).toEqual(['users-eu', 'users-us']);
+
+    const restarted = new TestMCP('user', MCPType.USER, { storage: first.getConfiguration().storage });
+    await restarted.initialize();
+    expect((await restarted.query({})).map(r => r.id)).toEqual(['u1']);
+    await restarted.shutdown();
+  });
+
+  test('should refuse a second MCP whose name maps to a log in use', async () => {
+    await registry.createMCP({ name: 'users', type: MCPType.USER, domain: 'user' });
+
+    await expect(registry.createMCP({ name: 'users', type: MCPType.USER, domain: 'user' }))
+      .rejects.toThrow('Storage namespace already in use');
+    expect((await registry.getAllMCPs()).size).toBe(1);
+  });
+});
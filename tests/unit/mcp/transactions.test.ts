@@ -0,0 +1,188 @@
+/**
+ * Multi-MCP Transaction Unit Tests
+ *
+ * Tests for staged writes, two-phase commit with compensation, and
+ * recovery of in-doubt transactions from the transaction log.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaseMCP } from '../../../src/core/mcp/base_mcp';
+import { TransactionCoordinator, TransactionError } from '../../../src/core/mcp/transactions';
+import { VersionConflictError } from '../../../src/core/mcp/versioning';
+import { FileTransactionLog } from '../../../src/core/storage';
+import { MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+describe('TransactionCoordinator', () => {
+  let users: TestMCP;
+  let chats: TestMCP;
+  let coordinator: TransactionCoordinator;
+
+  beforeEach(async () => {
+    users = new TestMCP('user', MCPType.USER);
+    chats = new TestMCP('chat', MCPType.CHAT);
+    chats.on('error', () => undefined);
+    coordinator = new TransactionCoordinator();
+  });
+
+  afterEach(async () => {
+    await coordinator.shutdown();
+    await users.shutdown();
+    await chats.shutdown();
+  });
+
+  test('should keep staged writes invisible until commit', async () => {
+    await users.store(createRecord('u1', { name: 'Alice' }));
+
+    const tx = coordinator.begin();
+    tx.store(users, createRecord('u1', { name: 'Alice Smith' }))
+      .store(chats, createRecord('c1', { text: 'hello' }, { domain: 'chat' }))
+      .delete(users, 'missing');
+
+    expect((await users.retrieve('u1'))?.data.name).toBe('Alice');
+    expect(await chats.retrieve('c1')).toBeNull();
+    expect((await tx.retrieve(users, 'u1'))?.data.name).toBe('Alice Smith');
+
+    await tx.commit();
+
+    expect(tx.status).toBe('committed');
+    expect(await users.retrieve('u1')).toMatchObject({ version: 2, data: { name: 'Alice Smith' } });
+    expect(await chats.retrieve('c1')).toMatchObject({ version: 1, data: { text: 'hello' } });
+  });
+
+  test('should undo applied writes when a participant rejects one', async () => {
+    await users.store(createRecord('u1', { name: 'Alice' }));
+    await chats.createIndex('handle', ['handle'], { unique: true });
+    await chats.store(createRecord('c0', { handle: 'alice' }, { domain: 'chat' }));
+
+    const tx = coordinator.begin();
+    tx.store(users, createRecord('u1', { name: 'Alice Smith' }))
+      .store(users, createRecord('u2', { name: 'Bob' }))
+      .store(chats, createRecord('c1', { handle: 'alice' }, { domain: 'chat' }));
+
+    const error = await tx.commit().catch(e => e);
+
+    expect(error).toBeInstanceOf(TransactionError);
+    expect(error.outcome).toBe('aborted');
+    expect(tx.status).toBe('aborted');
+    expect((await users.retrieve('u1'))?.data.name).toBe('Alice');
+    expect(await users.retrieve('u2')).toBeNull();
+    expect(await chats.retrieve('c1')).toBeNull();
+  });
+
+  test('should abort before writing anything when a version expectation fails', async () => {
+    await users.store(createRecord('u1', { name: 'Alice' }));
+    await users.store(createRecord('u1', { name: 'Alice B.' }));
+
+    const tx = coordinator.begin();
+    tx.store(chats, createRecord('c1', { text: 'renamed' }, { domain: 'chat' }))
+      .store(users, createRecord('u1', { name: 'Alice C.' }), { ifVersion: 1 });
+
+    await expect(tx.commit()).rejects.toBeInstanceOf(VersionConflictError);
+    expect(tx.status).toBe('aborted');
+    expect(await chats.retrieve('c1')).toBeNull();
+    expect(() => tx.store(users, createRecord('u3', {}))).toThrow('aborted');
+  });
+
+  test('should serialize overlapping commits on the same records', async () => {
+    await users.store(createRecord('u1', { count: 0 }));
+
+    const increment = () => coordinator.run(async tx => {
+      const current = await tx.retrieve(users, 'u1');
+      tx.store(users, createRecord('u1', { count: current!.data.count + 1 }), { ifVersion: current!.version });
+    });
+
+    const results = await Promise.allSettled([increment(), increment()]);
+
+    // The second transaction read version 1 before the first committed, so its commit conflicts
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await users.retrieve('u1')).toMatchObject({ version: 2, data: { count: 1 } });
+  });
+});
+
+describe('transaction recovery', () => {
+  let logDir: string;
+  let users: TestMCP;
+  let chats: TestMCP;
+
+  const resolveMCP = (ref: { name: string }) =>
+    [users, chats].find(mcp => mcp.metadata.name === ref.name) || null;
+
+  const participant = (mcp: BaseMCP) => ({
+    mcpId: 'id-from-a-previous-run',
+    name: mcp.metadata.name,
+    domain: mcp.metadata.domain
+  });
+
+  beforeEach(async () => {
+    logDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-transactions-'));
+    users = new TestMCP('user', MCPType.USER);
+    chats = new TestMCP('chat', MCPType.CHAT);
+  });
+
+  afterEach(async () => {
+    await users.shutdown();
+    await chats.shutdown();
+    await fs.rm(logDir, { recursive: true, force: true });
+  });
+
+  test('should roll forward a transaction interrupted mid-commit', async () => {
+    const log = new FileTransactionLog(logDir);
+    await log.open();
+    await log.append({
+      txId: 'tx-1',
+      state: 'committing',
+      timestamp: Date.now(),
+      operations: [
+        { participant: participant(users), op: 'put', id: 'u1', record: createRecord('u1', { name: 'Alice' }), expectedVersion: 0, before: null },
+        { participant: participant(chats), op: 'put', id: 'c1', record: createRecord('c1', { text: 'hi' }, { domain: 'chat' }), expectedVersion: 0, before: null }
+      ]
+    });
+    await log.close();
+
+    // The crash happened after the first write reached its MCP
+    await users.store(createRecord('u1', { name: 'Alice' }));
+
+    const coordinator = new TransactionCoordinator({ log: new FileTransactionLog(logDir), resolveMCP });
+    const report = await coordinator.recover();
+
+    expect(report.committed).toEqual(['tx-1']);
+    expect(await users.retrieve('u1')).toMatchObject({ version: 1 });
+    expect(await chats.retrieve('c1')).toMatchObject({ version: 1, data: { text: 'hi' } });
+
+    // Resolved transactions are not recovered twice
+    expect((await coordinator.recover()).committed).toEqual([]);
+    await coordinator.shutdown();
+  });
+
+  test('should finish undoing a transaction interrupted mid-rollback', async () => {
+    await users.store(createRecord('u1', { name: 'Alice' }));
+    const before = await users.retrieve('u1');
+    await users.store(createRecord('u1', { name: 'Alice Smith' }));
+
+    const log = new FileTransactionLog(logDir);
+    await log.open();
+    await log.append({
+      txId: 'tx-2',
+      state: 'committing',
+      timestamp: Date.now(),
+      operations: [
+        { participant: participant(users), op: 'put', id: 'u1', record: createRecord('u1', { name: 'Alice Smith' }), expectedVersion: 1, before },
+        { participant: participant(chats), op: 'put', id: 'c1', record: createRecord('c1', {}, { domain: 'chat' }), expectedVersion: 0, before: null }
+      ]
+    });
+    await log.append({ txId: 'tx-2', state: 'aborting', timestamp: Date.now() });
+    await log.close();
+
+    const coordinator = new TransactionCoordinator({ log: new FileTransactionLog(logDir), resolveMCP });
+    const report = await coordinator.recover();
+
+    expect(report.aborted).toEqual(['tx-2']);
+    expect((await users.retrieve('u1'))?.data.name).toBe('Alice');
+    expect(await chats.retrieve('c1')).toBeNull();
+    await coordinator.shutdown();
+  });
+});
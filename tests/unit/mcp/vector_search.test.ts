@@ -0,0 +1,152 @@
+/**
+ * Vector Search Unit Tests
+ *
+ * Tests for the HNSW index, the hashing embedder and k-NN similarity search through VectorMCP.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { HnswIndex } from '../../../src/core/mcp/hnsw_index';
+import { HashingEmbedder } from '../../../src/core/mcp/embedding';
+import { VectorMCP } from '../../../src/core/specialized/vector_mcp';
+import { DataRecord, MCPType } from '../../../src/types/mcp.types';
+
+// Deterministic vectors so recall does not vary between runs
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296 - 0.5;
+};
+
+const randomVectors = (count: number, dimensions: number, seed: number): number[][] => {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, random));
+};
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, value) => sum + value * value, 0));
+  return dot / (norm(a) * norm(b));
+};
+
+describe('HnswIndex', () => {
+  test('should find nearly all exact nearest neighbours', () => {
+    const vectors = randomVectors(1000, 16, 7);
+    const index = new HnswIndex({ dimensions: 16, m: 8, efConstruction: 100 });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+    let found = 0;
+    const queries = randomVectors(20, 16, 99);
+    for (const query of queries) {
+      const exact = vectors
+        .map((vector, i) => ({ id: `v${i}`, score: cosine(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map(hit => hit.id);
+      const approximate = index.search(query, 10).map(hit => hit.id);
+      found += approximate.filter(id => exact.includes(id)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  test('should replace and remove vectors without returning stale ones', () => {
+    const index = new HnswIndex({ dimensions: 2 });
+    index.add('a', [1, 0]);
+    index.add('b', [0, 1]);
+    index.add('a', [-1, 0]);
+
+    expect(index.search([1, 0], 1)[0].id).toBe('b');
+    expect(index.remove('b')).toBe(true);
+    expect(index.search([0, 1], 5).map(hit => hit.id)).toEqual(['a']);
+    expect(index.getStats()).toMatchObject({ vectors: 1, tombstones: 2 });
+    expect(() => index.add('c', [1, 2, 3])).toThrow('2-dimensional');
+  });
+
+  test('should only return accepted IDs and rank by dot product when asked', () => {
+    const index = new HnswIndex({ dimensions: 2, metric: 'dot' });
+    index.add('short', [1, 0]);
+    index.add('long', [10, 1]);
+    index.add('other', [0, 5]);
+
+    expect(index.search([1, 0], 2).map(hit => hit.id)).toEqual(['long', 'short']);
+    expect(index.search([1, 0], 2, { accept: id => id !== 'long' }).map(hit => hit.id)).toEqual(['short', 'other']);
+  });
+});
+
+describe('HashingEmbedder', () => {
+  test('should produce deterministic unit vectors that reflect shared vocabulary', async () => {
+    const embedder = new HashingEmbedder({ dimensions: 128 });
+    const [a, again, related, unrelated] = await embedder.embed([
+      'Database connection timeout on the primary server',
+      'Database connection timeout on the primary server',
+      'Timeout while opening a database connection',
+      'User changed their profile picture'
+    ]);
+
+    expect(a).toHaveLength(128);
+    expect(again).toEqual(a);
+    expect(cosine(a, a)).toBeCloseTo(1);
+    expect(cosine(a, related)).toBeGreaterThan(cosine(a, unrelated));
+  });
+});
+
+describe('VectorMCP', () => {
+  let mcp: VectorMCP;
+
+  const document = (id: string, text: string, category: string): DataRecord => ({
+    id,
+    domain: 'docs',
+    type: 'document',
+    timestamp: Date.now(),
+    data: { text, category }
+  });
+
+  beforeEach(async () => {
+    mcp = new VectorMCP('docs', MCPType.VECTOR, { vectorIndex: { dimensions: 128 } });
+    await mcp.store(document('d1', 'How to reset a forgotten password', 'account'));
+    await mcp.store(document('d2', 'Password reset emails are not arriving', 'account'));
+    await mcp.store(document('d3', 'Exporting monthly sales reports to CSV', 'reports'));
+    await mcp.store(document('d4', 'Scheduling sales reports by email', 'reports'));
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  test('should embed stored records and rank them by similarity to a text query', async () => {
+    expect((await mcp.retrieve('d1'))!.embedding).toHaveLength(128);
+
+    const matches = await mcp.similaritySearch('reset my password', { k: 2 });
+    expect(matches.map(match => match.record.id).sort()).toEqual(['d1', 'd2']);
+    expect(matches[0].score).toBeGreaterThanOrEqual(matches[1].score);
+  });
+
+  test('should apply filters and score thresholds', async () => {
+    const filtered = await mcp.similaritySearch('reset my password', { k: 3, filter: { category: 'reports' } });
+    expect(filtered.map(match => match.record.id).sort()).toEqual(['d3', 'd4']);
+
+    const confident = await mcp.similaritySearch('sales reports', { minScore: 0.3 });
+    expect(confident.length).toBeGreaterThan(0);
+    expect(confident.every(match => match.record.data.category === 'reports')).toBe(true);
+  });
+
+  test('should drop deleted and expired records from results', async () => {
+    await mcp.delete('d1');
+    await mcp.store({ ...document('d5', 'Reset password link expired', 'account'), expiresAt: Date.now() - 1 });
+
+    const ids = (await mcp.similaritySearch('reset password', { k: 10 })).map(match => match.record.id);
+    expect(ids).not.toContain('d1');
+    expect(ids).not.toContain('d5');
+    expect(ids).toContain('d2');
+  });
+
+  test('should find records similar to a stored one and reject mismatched embeddings', async () => {
+    const similar = await mcp.findSimilar('d3', { k: 1 });
+    expect(similar.map(match => match.record.id)).toEqual(['d4']);
+
+    const errors: any[] = [];
+    mcp.on('error', error => errors.push(error));
+    expect(await mcp.store({ ...document('d6', 'x', 'misc'), embedding: [1, 2, 3] })).toBe(false);
+    expect(errors[0].error).toContain('3-dimensional');
+    await expect(mcp.similaritySearch([1, 2, 3])).rejects.toThrow('128-dimensional');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Record Versioning Unit Tests
+ *
+ * Tests for record versions, conditional writes, version history and
+ * the HTTP mapping of version conflicts.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { VersionConflictError } from '../../../src/core/mcp/versioning';
+import { UserMCP } from '../../../src/core/specialized/user_mcp';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { MCPType } from '../../../src/types/mcp.types';
+import { createRecord, TestMCP } from '../../helpers/mcp_fixtures';
+
+describe('BaseMCP record versions', () => {
+  let mcp: TestMCP;
+
+  beforeEach(() => {
+    mcp = new TestMCP('user', MCPType.USER, { versionRetention: 2 });
+  });
+
+  afterEach(async () => {
+    await mcp.shutdown();
+  });
+
+  test('should increment the version on every write', async () => {
+    await mcp.store(createRecord('r1', { n: 1 }));
+    await mcp.update(createRecord('r1', { n: 2 }));
+
+    expect((await mcp.retrieve('r1'))?.version).toBe(2);
+  });
+
+  test('should apply a conditional write only at the expected version', async () => {
+    await mcp.store(createRecord('r1', { n: 1 }));
+
+    await expect(mcp.update(createRecord('r1', { n: 2 }), { ifVersion: 3 }))
+      .rejects.toBeInstanceOf(VersionConflictError);
+    expect(await mcp.update(createRecord('r1', { n: 2 }), { ifVersion: 1 })).toBe(true);
+
+    // ifVersion 0 is create-only
+    await expect(mcp.store(createRecord('r1', { n: 3 }), { ifVersion: 0 }))
+      .rejects.toMatchObject({ recordId: 'r1', expectedVersion: 0, actualVersion: 2 });
+  });
+
+  test('should let exactly one of two racing writers win', async () => {
+    await mcp.store(createRecord('r1', { n: 1 }));
+
+    const results = await Promise.allSettled([
+      mcp.update(createRecord('r1', { writer: 'a' }), { ifVersion: 1 }),
+      mcp.update(createRecord('r1', { writer: 'b' }), { ifVersion: 1 })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await mcp.retrieve('r1'))?.data.writer).toBe('a');
+  });
+
+  test('should retain the configured number of previous versions', async () => {
+    for (let n = 1; n <= 4; n++) {
+      await mcp.store(createRecord('r1', { n }));
+    }
+    // In-place edits of the live record must not rewrite history
+    (await mcp.retrieve('r1'))!.data.n = 99;
+
+    const history = await mcp.getHistory('r1');
+    expect(history.map(version => [version.version, version.data.n])).toEqual([[3, 3], [2, 2]]);
+
+    await mcp.delete('r1');
+    expect(await mcp.getHistory('r1')).toEqual([]);
+  });
+});
+
+describe('UserMCP.updateUser', () => {
+  test('should reject the second of two concurrent updates instead of losing it', async () => {
+    const users = new UserMCP('user', MCPType.USER);
+    await users.storeUser({
+      userId: 'u1',
+      email: 'alice@example.com',
+      permissions: ['read'],
+      metadata: { createdAt: Date.now(), updatedAt: Date.now(), version: 1, tags: [] }
+    });
+
+    const results = await Promise.allSettled([
+      users.updateUser('u1', { permissions: ['read', 'write'] }),
+      users.updateUser('u1', { email: 'alice@corp.example.com' })
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1].status).toBe('rejected');
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(VersionConflictError);
+    expect((await users.getUserByEmail('alice@example.com'))?.permissions).toEqual(['read', 'write']);
+    await users.shutdown();
+  });
+});
+
+describe('errorHandler', () => {
+  test('should map version conflicts to 409 Conflict', () => {
+    const res: any = { status: jest.fn(() => res), json: jest.fn(() => res) };
+    const req: any = { headers: {}, method: 'PUT', originalUrl: '/records/user-mcp/r1', get: () => undefined };
+
+    errorHandler(new VersionConflictError('r1', 1, 2), req, res, jest.fn());
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: false,
+      details: { recordId: 'r1', expectedVersion: 1, currentVersion: 2 }
+    }));
+  });
+});
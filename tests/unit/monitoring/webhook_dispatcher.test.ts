@@ -0,0 +1,295 @@
+/**
+ * Webhook Dispatcher Unit Tests
+ *
+ * Tests for signed deliveries to a local receiver, event-type filters, retries with backoff,
+ * dead letters and redelivery, connecting event sources and persisting subscriptions.
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { FileWebhookStore } from '../../../src/core/storage/webhook_store';
+import {
+  InvalidWebhookError,
+  matchesEventType,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookDelivery,
+  WebhookDisabledError,
+  WebhookDispatcher,
+  WebhookNotFoundError
+} from '../../../src/monitoring/WebhookDispatcher';
+
+interface Received {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+// Lets background deliveries and retries finish
+const settle = async (condition: () => boolean) => {
+  for (let i = 0; i < 500 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('webhook signatures and filters', () => {
+  test('should accept only the signing secret, the same body and a recent timestamp', () => {
+    const now = Date.now();
+    const header = signWebhookPayload('s3cret', now, '{"a":1}');
+
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('s3cret', header, '{"a":1}', 1000, now)).toBe(true);
+    expect(verifyWebhookSignature('other', header, '{"a":1}', 1000, now)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', header, '{"a":2}', 1000, now)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', header, '{"a":1}', 1000, now + 5000)).toBe(false);
+    expect(verifyWebhookSignature('s3cret', 'garbage', '{"a":1}')).toBe(false);
+  });
+
+  test('should match exact types, prefixes and everything', () => {
+    expect(matchesEventType(['alert.*'], 'alert.triggered')).toBe(true);
+    expect(matchesEventType(['alert.*'], 'migration.completed')).toBe(false);
+    expect(matchesEventType(['record.created'], 'record.created')).toBe(true);
+    expect(matchesEventType(['record.created'], 'record.deleted')).toBe(false);
+    expect(matchesEventType(['*'], 'webhook.test')).toBe(true);
+  });
+});
+
+describe('WebhookDispatcher', () => {
+  let server: Server;
+  let url: string;
+  let received: Received[];
+  // Status codes to answer with, in order; 200 once they run out
+  let replies: number[];
+  let webhooks: WebhookDispatcher;
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(replies.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    replies = [];
+    webhooks = new WebhookDispatcher({ maxAttempts: 3, initialBackoffMs: 5, timeoutMs: 2000 });
+    await webhooks.initialize();
+  });
+
+  afterEach(async () => {
+    await webhooks.shutdown();
+  });
+
+  test('should post signed events to the subscriptions whose filters match', async () => {
+    const alerts = await webhooks.createSubscription({ url, events: ['alert.*'], secret: 'alerts-secret-0123' });
+    await webhooks.createSubscription({ url, events: ['migration.completed'] });
+    await webhooks.createSubscription({ url, events: ['*'], enabled: false });
+
+    const event = webhooks.publish('alert.triggered', { ruleId: 'high-cpu', value: 97 });
+    await settle(() => webhooks.deliveries().length === 1);
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual({ id: event.id, type: 'alert.triggered', timestamp: event.timestamp, data: { ruleId: 'high-cpu', value: 97 } });
+    expect(headers['x-webhook-event']).toBe('alert.triggered');
+    expect(headers['x-webhook-id']).toBe(event.id);
+    expect(headers['x-webhook-attempt']).toBe('1');
+    expect(verifyWebhookSignature('alerts-secret-0123', headers['x-webhook-signature'] as string, body)).toBe(true);
+
+    expect(webhooks.deliveries()[0]).toMatchObject({
+      subscriptionId: alerts.id,
+      eventId: event.id,
+      attempt: 1,
+      status: 'succeeded',
+      statusCode: 200
+    });
+  });
+
+  test('should retry failed deliveries with growing waits until the receiver accepts', async () => {
+    const subscription = await webhooks.createSubscription({ url, events: ['migration.*'] });
+    replies = [500, 503];
+
+    webhooks.publish('migration.completed', { migrationId: 'm1' });
+    await settle(() => webhooks.deliveries().some(delivery => delivery.status === 'succeeded'));
+
+    const attempts = webhooks.deliveries({ subscriptionId: subscription.id }).reverse();
+    expect(attempts.map(delivery => [delivery.attempt, delivery.status, delivery.statusCode])).toEqual([
+      [1, 'failed', 500],
+      [2, 'failed', 503],
+      [3, 'succeeded', 200]
+    ]);
+    expect(attempts[0].nextAttemptAt! - attempts[0].timestamp).toBeGreaterThanOrEqual(5);
+    expect(attempts[1].nextAttemptAt! - attempts[1].timestamp).toBeGreaterThanOrEqual(10);
+    expect(received.map(request => request.headers['x-webhook-attempt'])).toEqual(['1', '2', '3']);
+    // Every attempt carries the same event
+    expect(new Set(received.map(request => JSON.parse(request.body).id)).size).toBe(1);
+    expect(webhooks.listDeadLetters()).toEqual([]);
+  });
+
+  test('should dead-letter a delivery after the last attempt and deliver it again on request', async () => {
+    const subscription = await webhooks.createSubscription({ url, events: ['ingestion.batch.completed'] });
+    replies = [500, 500, 410];
+    const deadLettered: string[] = [];
+    webhooks.on('delivery-dead-lettered', deadLetter => deadLettered.push(deadLetter.event.type));
+
+    const event = webhooks.publish('ingestion.batch.completed', { batchId: 'b1' });
+    await settle(() => deadLettered.length === 1);
+
+    const [deadLetter] = webhooks.listDeadLetters(subscription.id);
+    expect(deadLetter).toMatchObject({ subscriptionId: subscription.id, attempts: 3, lastError: 'Receiver answered 410' });
+    expect(deadLetter.event.id).toBe(event.id);
+    expect(webhooks.deliveries({ limit: 1 })[0].status).toBe('dead-lettered');
+
+    // A disabled subscription keeps the dead letter instead of dropping the event
+    await webhooks.updateSubscription(subscription.id, { enabled: false });
+    await expect(webhooks.redeliver(deadLetter.id)).rejects.toThrow(WebhookDisabledError);
+    expect(webhooks.listDeadLetters()).toEqual([deadLetter]);
+    await webhooks.updateSubscription(subscription.id, { enabled: true });
+
+    const delivery = await webhooks.redeliver(deadLetter.id);
+    expect(delivery).toMatchObject({ eventId: event.id, attempt: 1, status: 'succeeded' });
+    expect(webhooks.listDeadLetters()).toEqual([]);
+    await expect(webhooks.redeliver(deadLetter.id)).rejects.toThrow(WebhookNotFoundError);
+  });
+
+  test('should send test events regardless of filters without retrying', async () => {
+    const subscription = await webhooks.createSubscription({ url, events: ['record.deleted'] });
+    replies = [502];
+
+    const delivery = await webhooks.sendTest(subscription.id);
+    expect(delivery).toMatchObject({ eventType: 'webhook.test', status: 'failed', statusCode: 502 });
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(received[0].headers['x-webhook-event']).toBe('webhook.test');
+    await expect(webhooks.sendTest('missing')).rejects.toThrow(WebhookNotFoundError);
+  });
+
+  test('should reject bad URLs and unknown event types, and apply updates', async () => {
+    await expect(webhooks.createSubscription({ url: 'ftp://example.com', events: ['*'] })).rejects.toThrow(InvalidWebhookError);
+    await expect(webhooks.createSubscription({ url, events: ['ingestion.started'] })).rejects.toThrow('Unknown webhook event type');
+
+    const subscription = await webhooks.createSubscription({ url, events: ['alert.created'] });
+    expect(subscription.secret).toMatch(/^[0-9a-f]{64}$/);
+    const updated = await webhooks.updateSubscription(subscription.id, { events: ['alert.resolved'], enabled: false });
+    expect(updated).toMatchObject({ events: ['alert.resolved'], enabled: false, secret: subscription.secret });
+
+    await webhooks.deleteSubscription(subscription.id);
+    expect(webhooks.listSubscriptions()).toEqual([]);
+    await expect(webhooks.updateSubscription(subscription.id, { enabled: true })).rejects.toThrow(WebhookNotFoundError);
+  });
+
+  test('should deliver the events of connected sources until disconnected', async () => {
+    await webhooks.createSubscription({ url, events: ['*'] });
+    const ingestion = new EventEmitter();
+    const migrations = new EventEmitter();
+    const metrics = new EventEmitter();
+    const changes = new EventEmitter();
+    const disconnect = webhooks.connect({ ingestion, migrations, metrics, changes });
+
+    ingestion.emit('batch_completed', { batchId: 'b1', totalRecords: 2, successfulRecords: 2, failedRecords: 0 });
+    migrations.emit('migration-failed', {
+      plan: { id: 'm1', sourceMcpId: 'user-mcp', targetTier: 'cold' },
+      progress: { currentPhase: 'copying' },
+      error: new Error('disk full')
+    });
+    metrics.emit('alert-resolved', { id: 'a1', ruleId: 'high-cpu' });
+    changes.emit('change', { seq: 1, op: 'update', recordId: 'ada' });
+    await settle(() => webhooks.deliveries().length === 4);
+
+    const events = received.map(request => JSON.parse(request.body));
+    expect(events.map(event => event.type).sort()).toEqual(
+      ['alert.resolved', 'ingestion.batch.completed', 'migration.failed', 'record.updated']);
+    expect(events.find(event => event.type === 'migration.failed').data).toEqual({
+      migrationId: 'm1',
+      sourceMcpId: 'user-mcp',
+      targetTier: 'cold',
+      phase: 'copying',
+      error: 'disk full'
+    });
+
+    disconnect();
+    metrics.emit('alert-triggered', { id: 'a2' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(received).toHaveLength(4);
+  });
+
+  test('should deliver migration completions and orchestrator alerts', async () => {
+    const migrationHook = await webhooks.createSubscription({ url, events: ['migration.completed'] });
+    const alertHook = await webhooks.createSubscription({ url, events: ['alert.created'] });
+    const migrations = new EventEmitter();
+    const orchestrator = new EventEmitter();
+    webhooks.connect({ migrations, orchestrator });
+
+    migrations.emit('migration-completed', {
+      plan: { id: 'm2', sourceMcpId: 'logs-mcp', targetTier: 'cold' },
+      progress: { transferredRecords: 1200, transferredData: 48000, currentPhase: 'completed' }
+    });
+    orchestrator.emit('alert-created', {
+      id: 'alert_1', level: 'error', component: 'migration-m3', message: 'Migration failed: disk full', acknowledged: false
+    });
+    await settle(() => webhooks.deliveries().length === 2);
+
+    const delivered = webhooks.deliveries();
+    expect(delivered.find(delivery => delivery.subscriptionId === migrationHook.id)?.eventType).toBe('migration.completed');
+    expect(delivered.find(delivery => delivery.subscriptionId === alertHook.id)?.eventType).toBe('alert.created');
+    const events = received.map(request => JSON.parse(request.body));
+    expect(events.find(event => event.type === 'migration.completed').data).toEqual({
+      migrationId: 'm2',
+      sourceMcpId: 'logs-mcp',
+      targetTier: 'cold',
+      transferredRecords: 1200,
+      transferredData: 48000
+    });
+    expect(events.find(event => event.type === 'alert.created').data).toMatchObject({
+      component: 'migration-m3',
+      message: 'Migration failed: disk full'
+    });
+  });
+
+  describe('with files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-webhooks-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should keep subscriptions and dead letters across a restart', async () => {
+      await webhooks.shutdown();
+      webhooks = new WebhookDispatcher({ maxAttempts: 1, store: new FileWebhookStore(directory) });
+      await webhooks.initialize();
+      const subscription = await webhooks.createSubscription({ url, events: ['alert.created'], description: 'on-call' });
+      replies = [500];
+      const deliveries: WebhookDelivery[] = [];
+      webhooks.on('delivery', delivery => deliveries.push(delivery));
+      webhooks.publish('alert.created', { id: 'a1' });
+      await settle(() => deliveries.length === 1);
+      await webhooks.shutdown();
+
+      webhooks = new WebhookDispatcher({ store: new FileWebhookStore(directory) });
+      await webhooks.initialize();
+      expect(webhooks.listSubscriptions()).toEqual([subscription]);
+      const [deadLetter] = webhooks.listDeadLetters();
+      expect(deadLetter).toMatchObject({ subscriptionId: subscription.id, attempts: 1 });
+      expect(await webhooks.redeliver(deadLetter.id)).toMatchObject({ status: 'succeeded' });
+    });
+  });
+});
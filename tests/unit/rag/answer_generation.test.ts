@@ -0,0 +1,194 @@
+/**
+ * Answer Generation Unit Tests
+ *
+ * Tests for context budgeting, citation resolution, the LLM providers and RAG₂ answers.
+ */
+
+import { describe, test, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AnswerGenerator, buildContext, resolveCitations } from '../../../src/rag/query/answer';
+import {
+  LLMCompletionRequest,
+  LLMProviderError,
+  OpenAICompatibleProvider,
+  TemplateLLMProvider
+} from '../../../src/rag/query/llm';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const words = (count: number, word = 'alpha') => Array(count).fill(word).join(' ');
+const doc = (id: string, text: string, mcpId?: string) => ({
+  id,
+  data: { text },
+  ...(mcpId && { relevance: { score: 1, provenance: [{ mcpId, retriever: 'fulltext', rank: 1, score: 1 }] } })
+});
+
+describe('buildContext', () => {
+  test('should fill the token budget in rank order and cut the record that crosses it', () => {
+    const context = buildContext([doc('a', words(30), 'docs'), doc('b', words(50)), doc('c', words(5))], 60, () => 'fallback');
+
+    expect(context.map(passage => [passage.recordId, passage.mcpId, passage.tokenCount, passage.truncated])).toEqual([
+      ['a', 'docs', 30, false],
+      ['b', 'fallback', 30, true]
+    ]);
+    expect(context[1].text.endsWith(' …')).toBe(true);
+  });
+
+  test('should stop rather than keep a sliver of a record', () => {
+    const context = buildContext([doc('a', words(50)), doc('b', words(50))], 60);
+
+    expect(context.map(passage => passage.recordId)).toEqual(['a']);
+    expect(buildContext([doc('a', words(50))], 10)[0].tokenCount).toBe(10);
+  });
+});
+
+describe('resolveCitations', () => {
+  test('should map markers to passages in order of first citation', () => {
+    const context = buildContext([doc('a', 'first'), doc('b', 'second'), doc('c', 'third')], 100);
+
+    const citations = resolveCitations('Second thing [2]. Both [3, 2] and an unknown source [9].', context);
+    expect(citations.map(citation => [citation.ref, citation.recordId])).toEqual([[2, 'b'], [3, 'c']]);
+  });
+});
+
+describe('AnswerGenerator with the template provider', () => {
+  test('should answer deterministically from the most relevant sentences and cite them', async () => {
+    const generator = new AnswerGenerator(new TemplateLLMProvider());
+    const records = [
+      doc('lunch', 'Lunch is at noon.', 'chat'),
+      doc('deploy', 'The deployment failed on staging. The migration timed out.', 'chat')
+    ];
+
+    const first = await generator.generate('why did the staging deployment fail?', records);
+    const second = await generator.generate('why did the staging deployment fail?', records);
+
+    expect(first.answer).toBe('The deployment failed on staging. [2]');
+    expect(second.answer).toBe(first.answer);
+    expect(first.citations).toEqual([{ ref: 2, recordId: 'deploy', mcpId: 'chat', snippet: records[1].data.text }]);
+    expect(first.context).toHaveLength(2);
+    expect(first.provider).toBe('template');
+  });
+
+  test('should say so when there is nothing to answer from', async () => {
+    const result = await new AnswerGenerator(new TemplateLLMProvider()).generate('anything?', []);
+
+    expect(result.answer).toBe('No records were found that answer this question.');
+    expect(result.citations).toEqual([]);
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: { url?: string; authorization?: string; body?: any };
+  let reply: { status: number; body: any };
+
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received = { url: req.url, authorization: req.headers.authorization, body: JSON.parse(body) };
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const request: LLMCompletionRequest = {
+    messages: [{ role: 'user', content: 'Sources:\n[1] hello\n\nQuestion: greeting?' }],
+    maxTokens: 64,
+    temperature: 0
+  };
+
+  test('should post chat completions and read the answer and usage', async () => {
+    reply = {
+      status: 200,
+      body: {
+        model: 'stand-in-1',
+        choices: [{ message: { role: 'assistant', content: ' It says hello [1]. ' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 5 }
+      }
+    };
+    const provider = new OpenAICompatibleProvider({ baseUrl, apiKey: 'secret', model: 'stand-in', timeoutMs: 5000 });
+
+    const completion = await provider.complete(request);
+    expect(received).toEqual({
+      url: '/v1/chat/completions',
+      authorization: 'Bearer secret',
+      body: { model: 'stand-in', messages: request.messages, max_tokens: 64, temperature: 0 }
+    });
+    expect(completion).toEqual({ text: 'It says hello [1].', model: 'stand-in-1', usage: { promptTokens: 12, completionTokens: 5 } });
+  });
+
+  test('should raise LLMProviderError with the upstream status', async () => {
+    reply = { status: 429, body: { error: { message: 'rate limited' } } };
+    const provider = new OpenAICompatibleProvider({ baseUrl, model: 'stand-in', timeoutMs: 5000 });
+
+    const error = await provider.complete(request).catch(e => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.status).toBe(429);
+    expect(error.message).toContain('rate limited');
+    expect(received.authorization).toBeUndefined();
+  });
+});
+
+describe('RAG2Controller.answer', () => {
+  let registry: MCPRegistry;
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should answer from fused retrieval and cite the stored records', async () => {
+    registry = createDefaultMCPRegistry();
+    const created = Date.now();
+    const message = (id: string, text: string) => ({
+      id,
+      conversationId: 'c1',
+      senderId: 'u1',
+      created,
+      content: { type: 'text', text }
+    });
+    const chatId = await registry.createMCP({
+      name: 'chat-mcp',
+      type: MCPType.CHAT,
+      domain: 'chat',
+      initialData: [
+        message('m1', 'The staging deployment failed because the database migration timed out.'),
+        message('m2', 'Lunch at noon?')
+      ]
+    });
+
+    const rag2 = new RAG2Controller(registry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+    const result = await rag2.answer('find messages about the staging deployment failure');
+
+    expect(result.answer).toBe('The staging deployment failed because the database migration timed out. [1]');
+    expect(result.citations).toEqual([expect.objectContaining({ ref: 1, recordId: 'm1', mcpId: chatId })]);
+    expect(result.retrieval.mcpIds).toEqual(['chat-mcp']);
+
+    const seen: LLMCompletionRequest[] = [];
+    rag2.setLLMProvider({
+      name: 'recording',
+      complete: async (request: LLMCompletionRequest) => {
+        seen.push(request);
+        return { text: 'Unsure.', model: 'recording' };
+      }
+    });
+    const unsure = await rag2.answer('find messages about the staging deployment failure', undefined, { answer: { maxTokens: 32 } });
+    expect(unsure.citations).toEqual([]);
+    expect(seen[0].maxTokens).toBe(32);
+    expect(seen[0].messages[1].content).toContain('[1] The staging deployment failed');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Document Pipeline Unit Tests
+ *
+ * Tests for format detection, text extraction and chunking of uploaded documents.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  UnsupportedDocumentError,
+  chunkDocument,
+  detectFormat,
+  extractDocument,
+  reassembleChunks
+} from '../../../src/rag/ingest/documents';
+
+describe('detectFormat', () => {
+  test('should prefer a specific MIME type and fall back to the extension', () => {
+    expect(detectFormat('text/html; charset=utf-8', 'page.txt')).toBe('html');
+    expect(detectFormat('text/plain', 'notes.md')).toBe('markdown');
+    expect(detectFormat('application/octet-stream', 'events.jsonl')).toBe('ndjson');
+    expect(detectFormat('text/plain')).toBe('text');
+    expect(detectFormat('application/pdf', 'report.pdf')).toBeUndefined();
+  });
+});
+
+describe('extractDocument', () => {
+  test('should turn HTML into text with markdown headings', () => {
+    const html = '<html><head><title>T &amp; C</title></head><body><h1>Terms</h1><p>Be nice &lt;always&gt;.</p><script>x()</script></body></html>';
+
+    expect(extractDocument(html, { mimeType: 'text/html' })).toEqual({
+      format: 'html',
+      text: '# Terms\n\nBe nice <always>.',
+      title: 'T & C'
+    });
+  });
+
+  test('should flatten JSON, NDJSON and CSV into field lines', () => {
+    expect(extractDocument('{"user":{"name":"Ada","tags":["a","b"]}}', { fileName: 'user.json' }).text)
+      .toBe('user.name: Ada\nuser.tags[0]: a\nuser.tags[1]: b');
+    expect(extractDocument('{"a":1}\n{"a":2}\n', { mimeType: 'text/plain', fileName: 'rows.ndjson' }).text)
+      .toBe('a: 1\n\na: 2');
+    expect(extractDocument('name,note\r\nAda,"likes, commas"\r\nBob,"says ""hi"""\r\n', { mimeType: 'text/csv' }).text)
+      .toBe('name: Ada\nnote: likes, commas\n\nname: Bob\nnote: says "hi"');
+  });
+
+  test('should reject unsupported and malformed content', () => {
+    expect(() => extractDocument(Buffer.from([0x25, 0x50]), { mimeType: 'application/pdf' })).toThrow(UnsupportedDocumentError);
+    expect(() => extractDocument('{"a":', { format: 'json' })).toThrow(UnsupportedDocumentError);
+  });
+});
+
+describe('chunkDocument', () => {
+  const markdown = '# Guide\n\nIntro one two three.\n\n## Setup\n\nInstall the package now.\n\nRun the server.';
+
+  test('should never let a chunk cross a heading', () => {
+    const chunks = chunkDocument(markdown, { size: 8 });
+
+    expect(chunks.map(chunk => [chunk.text, chunk.heading, chunk.tokenCount])).toEqual([
+      ['# Guide\n\nIntro one two three.\n\n', 'Guide', 6],
+      ['## Setup\n\nInstall the package now.\n\n', 'Setup', 6],
+      ['Run the server.', 'Setup', 3]
+    ]);
+  });
+
+  test('should cut fixed windows that overlap by whole tokens', () => {
+    const chunks = chunkDocument('a b c d e f g h i j', { strategy: 'fixed', size: 4, overlap: 1 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual(['a b c d', 'd e f g', 'g h i j']);
+  });
+
+  test('should pack whole sentences up to the chunk size', () => {
+    const chunks = chunkDocument('One two three. Four five? Six seven eight nine! Ten.', { strategy: 'sentence', size: 5 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual(['One two three. Four five? ', 'Six seven eight nine! Ten.']);
+  });
+
+  test('should reassemble the exact text for every strategy', () => {
+    const text = [markdown, 'A long closing paragraph with many words that has to be split into windows because it is bigger than one chunk.'].join('\n\n');
+
+    for (const strategy of ['fixed', 'heading', 'sentence'] as const) {
+      for (const overlap of [0, 2]) {
+        const chunks = chunkDocument(text, { strategy, size: 6, overlap });
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(reassembleChunks([...chunks].reverse())).toBe(text);
+      }
+    }
+    expect(chunkDocument('   \n ')).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Ingestion Dead-Letter Queue Unit Tests
+ *
+ * Tests for capturing failed records, automatic replays under the retry policy, editing and
+ * replaying entries by hand or in bulk, and persisting entries across a restart.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileDeadLetterStore, IngestionDeadLetter } from '../../../src/core/storage/dead_letter_store';
+import {
+  DeadLetterNotFoundError,
+  DeadLetterQueue,
+  DeadLetterReplayInProgressError,
+  IngestionAttempt,
+  IngestionRetryPolicy
+} from '../../../src/rag/ingest/dead_letters';
+
+const failure = (recordId: string, stage: 'classify' | 'route' | 'store', extra: Record<string, any> = {}) =>
+  ({ recordId, data: { userId: recordId, email: `${recordId}@example.com` }, stage, error: `${stage} failed`, ...extra });
+
+// Lets automatic replays run
+const settle = async (condition: () => boolean) => {
+  for (let i = 0; i < 500 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 2));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('DeadLetterQueue', () => {
+  let queue: DeadLetterQueue;
+  let replayed: IngestionDeadLetter[];
+  // Outcomes of the next replays, in order; success once they run out
+  let outcomes: IngestionAttempt[];
+
+  const replayer = async (deadLetter: IngestionDeadLetter): Promise<IngestionAttempt> => {
+    replayed.push(deadLetter);
+    return outcomes.shift() ?? { success: true };
+  };
+
+  const createQueue = async (config: Partial<IngestionRetryPolicy> & { store?: FileDeadLetterStore } = {}) => {
+    const created = new DeadLetterQueue(replayer, { initialBackoffMs: 5, ...config });
+    await created.initialize();
+    return created;
+  };
+
+  beforeEach(async () => {
+    replayed = [];
+    outcomes = [];
+    queue = await createQueue();
+  });
+
+  afterEach(async () => {
+    await queue.shutdown();
+  });
+
+  test('should capture failures with their stage, error and first attempt', async () => {
+    await queue.shutdown();
+    queue = await createQueue({ retryStages: [] });
+    const captured = await queue.capture(failure('ada', 'classify', { metadata: { source: 'crm' }, batchId: 'b1' }));
+    await queue.capture(failure('bob', 'store'));
+
+    expect(captured).toMatchObject({
+      recordId: 'ada',
+      metadata: { source: 'crm' },
+      batchId: 'b1',
+      stage: 'classify',
+      error: 'classify failed',
+      attempts: 1,
+      status: 'exhausted'
+    });
+    expect(captured.nextRetryAt).toBeUndefined();
+    expect(queue.get(captured.id)).toEqual(captured);
+    expect(queue.list({ batchId: 'b1' }).map(entry => entry.recordId)).toEqual(['ada']);
+    expect(queue.list({ stage: 'store' }).map(entry => entry.recordId)).toEqual(['bob']);
+    expect(queue.stats()).toEqual({
+      total: 2,
+      byStage: { classify: 1, route: 0, store: 1 },
+      byStatus: { scheduled: 0, exhausted: 2 }
+    });
+    expect(() => queue.get('missing')).toThrow(DeadLetterNotFoundError);
+  });
+
+  test('should replay routing and storage failures with growing waits until one succeeds', async () => {
+    const done: string[] = [];
+    queue.on('dead_letter_replayed', event => done.push(event.recordId));
+    outcomes = [{ success: false, stage: 'store', error: 'MCP user-mcp failed to store record ada' }];
+
+    const captured = await queue.capture(failure('ada', 'route', { error: 'Routing timeout' }));
+    expect(captured.status).toBe('scheduled');
+    expect(captured.nextRetryAt! - captured.lastFailedAt).toBeGreaterThanOrEqual(5);
+
+    await settle(() => done.length === 1);
+    expect(replayed.map(entry => [entry.attempts, entry.stage])).toEqual([[1, 'route'], [2, 'store']]);
+    expect(replayed[1].error).toBe('MCP user-mcp failed to store record ada');
+    expect(queue.stats().total).toBe(0);
+
+    // Classifying the same record again fails the same way
+    await queue.capture(failure('bob', 'classify'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(replayed).toHaveLength(2);
+  });
+
+  test('should stop replaying automatically once the retries are used up', async () => {
+    await queue.shutdown();
+    queue = await createQueue({ maxRetries: 2, backoffMultiplier: 3 });
+    outcomes = [{ success: false, stage: 'store', error: 'disk full' }, { success: false, stage: 'store', error: 'disk full' }];
+    const failures: any[] = [];
+    queue.on('dead_letter_replay_failed', result => failures.push(result.deadLetter));
+
+    await queue.capture(failure('ada', 'store'));
+    await settle(() => failures.length === 2);
+
+    expect(failures[0]).toMatchObject({ attempts: 2, status: 'scheduled' });
+    // The second wait is backoffMultiplier times the first
+    expect(failures[0].nextRetryAt - failures[0].lastFailedAt).toBeGreaterThanOrEqual(15);
+    expect(failures[1]).toMatchObject({ attempts: 3, status: 'exhausted', error: 'disk full' });
+    expect(failures[1].nextRetryAt).toBeUndefined();
+    expect(queue.list({ status: 'exhausted' })).toHaveLength(1);
+  });
+
+  test('should replay edited entries by hand and in bulk, and discard them', async () => {
+    await queue.shutdown();
+    queue = await createQueue({ retryStages: [] });
+    const ada = await queue.capture(failure('ada', 'classify'));
+    const bob = await queue.capture(failure('bob', 'classify'));
+    const cy = await queue.capture(failure('cy', 'route'));
+    const dee = await queue.capture(failure('dee', 'route'));
+
+    const edited = await queue.update(ada.id, { data: { userId: 'ada', email: 'ada@example.org' } });
+    expect(edited.editedAt).toBeDefined();
+    outcomes = [{ success: false, stage: 'classify', error: 'still unclassifiable' }];
+    expect(await queue.replay(ada.id)).toMatchObject({ success: false, error: 'still unclassifiable', deadLetter: { attempts: 2 } });
+    expect(replayed[0].data.email).toBe('ada@example.org');
+
+    expect(await queue.replay(ada.id)).toEqual({ deadLetterId: ada.id, recordId: 'ada', success: true });
+    await expect(queue.replay(ada.id)).rejects.toThrow(DeadLetterNotFoundError);
+
+    outcomes = [{ success: false, stage: 'route', error: 'Routing timeout' }];
+    const bulk = await queue.replayMany({ stage: 'route' });
+    expect(bulk).toMatchObject({ replayed: 2, succeeded: 1, failed: 1 });
+    expect(bulk.results.map(result => result.recordId)).toEqual(['cy', 'dee']);
+    expect(queue.list().map(entry => entry.recordId)).toEqual(['bob', 'cy']);
+    await expect(queue.replayMany({ ids: [bob.id, dee.id] })).rejects.toThrow(DeadLetterNotFoundError);
+
+    await queue.discard(cy.id);
+    expect(queue.list().map(entry => entry.recordId)).toEqual(['bob']);
+  });
+
+  test('should join a running replay and refuse edits until it ends', async () => {
+    await queue.shutdown();
+    let finish!: (attempt: IngestionAttempt) => void;
+    queue = new DeadLetterQueue(() => new Promise(resolve => { finish = resolve; }), { retryStages: [] });
+    await queue.initialize();
+    const ada = await queue.capture(failure('ada', 'classify'));
+
+    const first = queue.replay(ada.id);
+    const second = queue.replay(ada.id);
+    await expect(queue.update(ada.id, { data: {} })).rejects.toThrow(DeadLetterReplayInProgressError);
+    await expect(queue.discard(ada.id)).rejects.toThrow(DeadLetterReplayInProgressError);
+
+    finish({ success: true });
+    expect(await first).toEqual(await second);
+    expect(queue.stats().total).toBe(0);
+  });
+
+  describe('with files', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-dead-letters-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should keep entries across a restart and resume their scheduled replays', async () => {
+      await queue.shutdown();
+      queue = await createQueue({ initialBackoffMs: 60 * 1000, store: new FileDeadLetterStore(directory) });
+      const exhausted = await queue.capture(failure('ada', 'classify', { metadata: { source: 'crm' } }));
+      const scheduled = await queue.capture(failure('bob', 'store'));
+      const discarded = await queue.capture(failure('cy', 'classify'));
+      await queue.update(exhausted.id, { data: { userId: 'ada', email: 'ada@example.org' } });
+      await queue.discard(discarded.id);
+      await queue.shutdown();
+
+      // The replay fell due while the process was down
+      const file = path.join(directory, `${scheduled.id}.json`);
+      await fs.writeFile(file, JSON.stringify({ ...JSON.parse(await fs.readFile(file, 'utf8')), nextRetryAt: Date.now() - 1 }));
+
+      queue = await createQueue({ store: new FileDeadLetterStore(directory) });
+      const done: string[] = [];
+      queue.on('dead_letter_replayed', event => done.push(event.recordId));
+      // Emitted once the entry's file is gone
+      await settle(() => done.length === 1);
+      expect(replayed.map(entry => entry.recordId)).toEqual(['bob']);
+
+      expect(queue.list()).toEqual([expect.objectContaining({
+        recordId: 'ada',
+        data: { userId: 'ada', email: 'ada@example.org' },
+        metadata: { source: 'crm' },
+        status: 'exhausted'
+      })]);
+      expect((await fs.readdir(directory)).sort()).toEqual([`${exhausted.id}.json`]);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Live Query Unit Tests
+ *
+ * Tests for subscriptions that follow record changes, backpressure resets and resume tokens.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { coalesceChanges, LiveQueryManager, LiveQueryUpdate } from '../../../src/rag/query/live';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { InvalidCursorError } from '../../../src/core/mcp/pagination';
+import { BaseMCP } from '../../../src/core/mcp/base_mcp';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const admins = { from: 'user', where: { field: 'role', op: 'eq' as const, value: 'admin' } };
+
+const user = (id: string, role: string, extra: Record<string, any> = {}) =>
+  ({ id, domain: 'user', type: 'user', timestamp: Date.now(), data: { userId: id, email: `${id}@example.com`, role, ...extra } });
+
+// Lets queued record events and deliveries run
+const settle = async (condition: () => boolean) => {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  expect(condition()).toBe(true);
+};
+
+const summarize = (update: LiveQueryUpdate) => update.kind === 'reset'
+  ? { reset: update.records!.map(entry => entry.record.id).sort() }
+  : { changes: update.changes!.map(change => `${change.type}:${change.recordId}`) };
+
+describe('coalesceChanges', () => {
+  test('should reduce each record to its net change', () => {
+    const change = (type: 'add' | 'update' | 'remove', recordId: string, mcpId: string = 'm1') => ({ type, mcpId, recordId });
+
+    expect(coalesceChanges([
+      change('add', 'a'), change('update', 'a'),
+      change('update', 'b'), change('remove', 'b'),
+      change('add', 'c'), change('remove', 'c'),
+      change('remove', 'd'), change('add', 'd'),
+      change('add', 'a', 'm2')
+    ])).toEqual([
+      change('add', 'a'),
+      change('remove', 'b'),
+      change('update', 'd'),
+      change('add', 'a', 'm2')
+    ]);
+  });
+});
+
+describe('LiveQueryManager', () => {
+  let registry: MCPRegistry;
+  let users: BaseMCP;
+  let rag2: RAG2Controller;
+  let live: LiveQueryManager;
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    const userMcpId = await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [
+        { id: 'ada', userId: 'ada', email: 'ada@example.com', role: 'admin' },
+        { id: 'bob', userId: 'bob', email: 'bob@example.com', role: 'member' }
+      ]
+    });
+    users = (await registry.getMCP(userMcpId))!;
+
+    rag2 = new RAG2Controller(registry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+    live = new LiveQueryManager(rag2, registry, { maxPendingChanges: 3 });
+    live.initialize();
+  });
+
+  afterEach(async () => {
+    await live.shutdown();
+    await registry.shutdown();
+  });
+
+  test('should send the initial result and then adds, updates and removes', async () => {
+    const updates: LiveQueryUpdate[] = [];
+    const subscription = await live.subscribe({ query: admins }, update => {
+      updates.push(update);
+    });
+
+    expect(subscription.resumed).toBe(false);
+    expect(subscription.records!.map(entry => entry.record.id)).toEqual(['ada']);
+    expect(subscription.records![0].mcpId).toBe(users.getMetadata().id);
+
+    await users.store(user('bob', 'admin'));
+    await settle(() => updates.length === 1);
+    await users.store(user('ada', 'admin', { email: 'ada@example.org' }));
+    await settle(() => updates.length === 2);
+    await users.store(user('cy', 'member'));
+    await users.delete('bob');
+    await settle(() => updates.length === 3);
+
+    expect(updates.map(summarize)).toEqual([
+      { changes: ['add:bob'] },
+      { changes: ['update:ada'] },
+      { changes: ['remove:bob'] }
+    ]);
+    expect(updates[1].changes![0].record!.data.email).toBe('ada@example.org');
+    expect(updates.map(update => update.seq)).toEqual([1, 2, 3]);
+
+    // MCPs created later are followed too
+    await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [{ id: 'dee', userId: 'dee', email: 'dee@example.com', role: 'admin' }]
+    });
+    await settle(() => updates.length === 4);
+    expect(updates[3].changes).toMatchObject([{ type: 'add', recordId: 'dee' }]);
+
+    live.unsubscribe(subscription.subscriptionId);
+    await users.store(user('eve', 'admin'));
+    await settle(() => true);
+    expect(updates).toHaveLength(4);
+  });
+
+  test('should hold changes until acknowledged and reset a subscriber that falls behind', async () => {
+    const updates: LiveQueryUpdate[] = [];
+    const acks: Array<() => void> = [];
+    await live.subscribe({ query: admins }, update => {
+      updates.push(update);
+      return new Promise<void>(resolve => acks.push(resolve));
+    });
+
+    await users.store(user('u1', 'admin'));
+    await settle(() => updates.length === 1);
+
+    // Nothing more is sent while the first update is unacknowledged; changes queue up and collapse
+    await users.store(user('u2', 'admin'));
+    await users.store(user('u2', 'admin', { email: 'u2@example.org' }));
+    await settle(() => true);
+    expect(updates).toHaveLength(1);
+
+    acks.shift()!();
+    await settle(() => updates.length === 2);
+    expect(summarize(updates[1])).toEqual({ changes: ['add:u2'] });
+    expect(updates[1].seq).toBe(3);
+
+    // Four unacknowledged changes exceed maxPendingChanges
+    for (const id of ['u3', 'u4', 'u5', 'u6']) {
+      await users.store(user(id, 'admin'));
+    }
+    await users.delete('u1');
+    acks.shift()!();
+    await settle(() => updates.length === 3);
+    expect(summarize(updates[2])).toEqual({ reset: ['ada', 'u2', 'u3', 'u4', 'u5', 'u6'] });
+  });
+
+  test('should replay missed changes to a resumed subscription', async () => {
+    const first: LiveQueryUpdate[] = [];
+    const subscription = await live.subscribe({ query: admins, userId: 'owner' }, update => {
+      first.push(update);
+    });
+    await users.store(user('u1', 'admin'));
+    await settle(() => first.length === 1);
+
+    live.detach(subscription.subscriptionId);
+    await users.store(user('u2', 'admin'));
+    await users.delete('ada');
+    await settle(() => true);
+    expect(first).toHaveLength(1);
+
+    const second: LiveQueryUpdate[] = [];
+    const resumed = await live.subscribe(
+      { query: admins, userId: 'owner', resumeToken: first[0].resumeToken },
+      update => {
+        second.push(update);
+      }
+    );
+    expect(resumed).toMatchObject({ subscriptionId: subscription.subscriptionId, resumed: true, seq: 1 });
+    expect(resumed.records).toBeUndefined();
+    await settle(() => second.length === 1);
+    expect(summarize(second[0])).toEqual({ changes: ['add:u2', 'remove:ada'] });
+
+    // A token from before the last acknowledged update can only be served with a reset
+    const third: LiveQueryUpdate[] = [];
+    await live.subscribe({ query: admins, userId: 'owner', resumeToken: subscription.resumeToken }, update => {
+      third.push(update);
+    });
+    await settle(() => third.length === 1);
+    expect(summarize(third[0])).toEqual({ reset: ['u1', 'u2'] });
+
+    await expect(live.subscribe({ query: admins, userId: 'intruder', resumeToken: third[0].resumeToken }, () => undefined))
+      .rejects.toThrow(InvalidCursorError);
+  });
+
+  test('should start over when the resumed subscription has expired', async () => {
+    const shortLived = new LiveQueryManager(rag2, registry, { resumeWindowMs: 0 });
+    shortLived.initialize();
+    try {
+      const subscription = await shortLived.subscribe({ query: admins }, () => undefined);
+      shortLived.detach(subscription.subscriptionId);
+      expect(shortLived.purgeDetached()).toBe(1);
+
+      const restarted = await shortLived.subscribe({ query: admins, resumeToken: subscription.resumeToken }, () => undefined);
+      expect(restarted.resumed).toBe(false);
+      expect(restarted.subscriptionId).not.toBe(subscription.subscriptionId);
+      expect(restarted.records!.map(entry => entry.record.id)).toEqual(['ada']);
+    } finally {
+      await shortLived.shutdown();
+    }
+  });
+
+  test('should reject queries that aggregate', async () => {
+    await expect(live.subscribe({ query: { from: 'user', groupBy: ['role'] } }, () => undefined))
+      .rejects.toThrow('Aggregating queries cannot be watched');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Query Clarification Unit Tests
+ *
+ * Tests for sending ambiguous queries back with candidate readings and learning from the answer.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { ClarificationNotFoundError, UnknownCandidateError } from '../../../src/rag/query/clarification';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+describe('RAG2Controller clarification', () => {
+  let registry: MCPRegistry;
+  let rag2: RAG2Controller;
+
+  const caching = { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false };
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [
+        { id: 'ada', userId: 'ada', email: 'ada@example.com', role: 'admin' },
+        { id: 'bob', userId: 'bob', email: 'bob@example.com', role: 'member' }
+      ]
+    });
+    rag2 = new RAG2Controller(registry, { caching });
+  });
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should ask which data type a compound names and learn from the answer', async () => {
+    const asked = await rag2.query('show user sessions', undefined, { clarify: true });
+
+    expect(asked.success).toBe(true);
+    expect(asked.data.primary).toEqual([]);
+    expect(asked.clarification).toMatchObject({
+      query: 'show user sessions',
+      reasons: ['ambiguous_data_type'],
+      threshold: 0.7,
+      questions: ['Did you mean users or user sessions?']
+    });
+    expect(asked.clarification!.candidates).toEqual([
+      expect.objectContaining({ id: 'c1', label: 'list users', choice: { dataType: 'users' }, targetMCPs: ['user-mcp'] }),
+      expect.objectContaining({ id: 'c2', label: 'list user sessions', choice: { dataType: 'tokens' }, targetMCPs: ['token-mcp'] })
+    ]);
+    expect(rag2.getQueryHistory()).toHaveLength(0);
+
+    const answered = await rag2.resolveClarification(asked.clarification!.clarificationId, 'c1');
+    expect(answered.data.primary.map(record => record.id).sort()).toEqual(['ada', 'bob']);
+
+    // The parser now reads the query the way it was answered
+    const again = await rag2.query('show user sessions', undefined, { clarify: true });
+    expect(again.clarification).toBeUndefined();
+    expect(again.data.metadata.totalRecords).toBe(2);
+  });
+
+  test('should ask between close result-shaping intents and low-confidence readings', async () => {
+    const conflicting = await rag2.query('show total messages', undefined, { clarify: true });
+    expect(conflicting.clarification).toMatchObject({
+      reasons: ['conflicting_intents'],
+      questions: ['Do you want to list or summarize messages?']
+    });
+    expect(conflicting.clarification!.candidates.map(candidate => [candidate.id, candidate.label, candidate.choice])).toEqual([
+      ['c1', 'list messages', { intent: 'retrieve' }],
+      ['c2', 'summarize messages', { intent: 'aggregate' }]
+    ]);
+
+    const vague = await rag2.query('users or sessions', undefined, { clarify: true });
+    expect(vague.clarification).toMatchObject({
+      reasons: ['low_confidence', 'ambiguous_data_type'],
+      confidence: 0.5,
+      questions: ['Did you mean users or sessions?', 'Do you want to list or count them?']
+    });
+    expect(vague.clarification!.candidates.map(candidate => candidate.label)).toEqual([
+      'list users', 'list sessions', 'count users', 'count sessions'
+    ]);
+
+    const counted = await rag2.resolveClarification(vague.clarification!.clarificationId, 'c3');
+    expect(counted.success).toBe(true);
+    expect(counted.data.metadata.sources.map(source => source.mcpId)).toEqual(['user-mcp']);
+  });
+
+  test('should run clear queries, and ambiguous ones unless asked to clarify', async () => {
+    const clear = await rag2.query('show all users', undefined, { clarify: true });
+    expect(clear.clarification).toBeUndefined();
+    expect(clear.data.metadata.totalRecords).toBe(2);
+
+    const guessed = await rag2.query('show user sessions');
+    expect(guessed.clarification).toBeUndefined();
+    expect(rag2.getQueryHistory()).toHaveLength(2);
+  });
+
+  test('should answer each clarification once and only with an offered candidate', async () => {
+    const asked = await rag2.query('messages', undefined, { clarify: true });
+    const id = asked.clarification!.clarificationId;
+
+    await expect(rag2.resolveClarification(id, 'c9')).rejects.toThrow(UnknownCandidateError);
+    await rag2.resolveClarification(id, 'c2');
+    await expect(rag2.resolveClarification(id, 'c1')).rejects.toThrow(ClarificationNotFoundError);
+
+    const shortLived = new RAG2Controller(registry, {
+      caching,
+      nlp: {
+        confidence_threshold: 0.7,
+        clarification_ttl: 20,
+        entity_extraction_model: 'built-in',
+        intent_recognition_model: 'built-in',
+        language_models: ['en']
+      }
+    });
+    const expiring = await shortLived.query('messages', undefined, { clarify: true });
+    await new Promise(resolve => setTimeout(resolve, 40));
+    await expect(shortLived.resolveClarification(expiring.clarification!.clarificationId, 'c1'))
+      .rejects.toThrow(ClarificationNotFoundError);
+  });
+});
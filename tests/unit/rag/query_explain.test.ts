@@ -0,0 +1,109 @@
+/**
+ * Query Explain Unit Tests
+ *
+ * Tests for RAG₂ explain plans, index usage reporting and analyzed timings.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RAG2Controller.explain', () => {
+  let registry: MCPRegistry;
+  let rag2: RAG2Controller;
+  let userMcpId: string;
+
+  const user = (id: string, role: string, created: number) => ({
+    id,
+    userId: id,
+    email: `${id}@example.com`,
+    role,
+    timestamp: created,
+    metadata: { createdAt: created, updatedAt: created, version: 1 }
+  });
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    const now = Date.now();
+    userMcpId = await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [user('ada', 'admin', now), user('bob', 'member', now)]
+    });
+    const userMcp = await registry.getMCP(userMcpId);
+    await userMcp!.store(user('cy', 'admin', now - 90 * DAY_MS) as any);
+
+    await registry.createMCP({
+      name: 'chat-mcp',
+      type: MCPType.CHAT,
+      domain: 'chat',
+      initialData: [{ id: 'm1', conversationId: 'c1', senderId: 'u1', created: now, content: { type: 'text', text: 'The deployment failed' } }]
+    });
+
+    rag2 = new RAG2Controller(registry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+  });
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should describe the plan without running the query', async () => {
+    const explanation = await rag2.explain('show all users');
+
+    expect(explanation.interpretation).toMatchObject({ dataType: 'users', aggregation: 'merge' });
+    expect(explanation.interpretation.intents[0].type).toBe('retrieve');
+    expect(explanation.mcps).toEqual([expect.objectContaining({
+      mcpId: 'user-mcp',
+      reason: 'Query asks for users',
+      assessment: expect.objectContaining({ mcpId: 'user-mcp', priority: 1 }),
+      targets: [{
+        id: userMcpId,
+        name: 'user-mcp',
+        plan: {
+          operation: 'query',
+          filters: {},
+          access: { indexUsed: null, fieldsUsed: [], estimatedScan: 3, totalRecords: 3 }
+        }
+      }]
+    })]);
+    expect(explanation.strategy).toBe('sequential');
+    expect(explanation.phases).toEqual([{ phase: '1', parallel: false, mcpIds: ['user-mcp'], dependsOn: [], estimatedMs: 50 }]);
+    expect(explanation.cost).toMatchObject({ estimatedMs: 50, adjustedMs: 50, resources: expect.objectContaining({ cpu: 20 }) });
+    expect(explanation.alternatives.map(alternative => alternative.condition)).toEqual(['performance_degradation', 'partial_failure']);
+    expect(explanation.analysis).toBeUndefined();
+    expect(rag2.getQueryHistory()).toHaveLength(0);
+  });
+
+  test('should report the index a filter scan would use and the fusion retrievers', async () => {
+    const recent = await rag2.explain('show users created today');
+    expect(recent.mcps[0].targets[0].plan.access).toEqual({
+      indexUsed: 'timestamp',
+      fieldsUsed: ['timestamp'],
+      estimatedScan: 2,
+      totalRecords: 3
+    });
+
+    const fused = await rag2.explain('find messages about deployment', undefined, { fusion: {} });
+    expect(fused.interpretation.aggregation).toBe('fusion');
+    expect(fused.mcps[0].targets[0].plan).toMatchObject({ searchText: 'deployment', retrievers: ['fulltext', 'structured'] });
+  });
+
+  test('should run the query when analyzing and report actual timings per phase', async () => {
+    const explanation = await rag2.explain('show all users', undefined, { analyze: true });
+
+    expect(explanation.analysis).toEqual({ success: true, totalRecords: 3, actualMs: expect.any(Number), estimatedMs: 50 });
+    expect(explanation.phases[0]).toMatchObject({ phase: '1', estimatedMs: 50, actualMs: expect.any(Number) });
+    expect(explanation.phases[0].mcps).toEqual([{ mcpId: 'user-mcp', durationMs: expect.any(Number), records: 3, success: true }]);
+  });
+
+  test('should throw when the query cannot be interpreted', async () => {
+    await expect(rag2.explain('qwertz uiopasdf')).rejects.toThrow('Unable to understand query');
+  });
+});
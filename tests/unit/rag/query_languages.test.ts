@@ -0,0 +1,145 @@
+/**
+ * Query Language Unit Tests
+ *
+ * Tests for language detection, per-language pattern packs and localized numbers and dates.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NaturalLanguageParser } from '../../../src/rag/query/parser';
+import { LanguagePackError, LanguageRegistry } from '../../../src/rag/query/language';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+describe('NaturalLanguageParser languages', () => {
+  let parser: NaturalLanguageParser;
+
+  beforeEach(() => {
+    parser = new NaturalLanguageParser();
+  });
+
+  test('should read Spanish, German and French queries with their own patterns', async () => {
+    const cases = [
+      { raw: 'muestra todos los usuarios de hoy', language: 'es', intent: 'retrieve', dataType: 'users', temporal: 'today' },
+      { raw: 'zeige alle Benutzer von gestern', language: 'de', intent: 'retrieve', dataType: 'users', temporal: 'yesterday' },
+      { raw: "montre les messages d'hier", language: 'fr', intent: 'retrieve', dataType: 'messages', temporal: 'yesterday' },
+      { raw: 'wie viele Nachrichten', language: 'de', intent: 'count', dataType: 'messages', temporal: undefined }
+    ];
+
+    for (const expected of cases) {
+      const interpreted = await parser.parse({ raw: expected.raw });
+      expect(interpreted.language).toMatchObject({ code: expected.language });
+      expect(interpreted.language!.fallback).toBeUndefined();
+      expect(interpreted.intents[0].type).toBe(expected.intent);
+      expect(interpreted.entities.dataType).toBe(expected.dataType);
+      expect(interpreted.entities.temporal).toBe(expected.temporal);
+    }
+  });
+
+  test('should follow a requested language and fall back to English without a pack', async () => {
+    const requested = await parser.parse({ raw: 'show all users', context: { language: 'pt-BR' } });
+    expect(requested.language).toEqual({ code: 'en', name: 'English', confidence: 1, fallback: true, requested: 'pt' });
+    expect(requested.entities.dataType).toBe('users');
+
+    const pinned = await parser.parse({ raw: 'zeige alle Benutzer', context: { language: 'de-AT' } });
+    expect(pinned.language).toEqual({ code: 'de', name: 'Deutsch', confidence: 1 });
+
+    // A requested language gives way when the query is plainly written in another
+    const mismatched = await parser.parse({ raw: 'show all users', context: { language: 'de' } });
+    expect(mismatched.language).toMatchObject({ code: 'en', requested: 'de' });
+    expect(mismatched.language!.fallback).toBeUndefined();
+
+    await expect(parser.parse({ raw: 'qwertz uiopasdf' })).rejects.toThrow('no recognizable terms');
+  });
+});
+
+describe('LanguageRegistry', () => {
+  let registry: LanguageRegistry;
+  let directory: string;
+
+  beforeEach(async () => {
+    registry = new LanguageRegistry();
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'language-packs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should rewrite localized numbers and dates in one format', () => {
+    expect(registry.canonicalize('mensajes con 1.234,5 puntos del 15/03/2024', registry.get('es')))
+      .toBe('mensajes con 1234.5 puntos del 2024-03-15');
+    expect(registry.canonicalize('nachrichten vom 1.2.2024 über 3,75', registry.get('de')))
+      .toBe('nachrichten vom 2024-02-01 über 3.75');
+    expect(registry.canonicalize('messages du 31-12-2023 avec 12 500 jetons', registry.get('fr')))
+      .toBe('messages du 2023-12-31 avec 12500 jetons');
+    expect(registry.canonicalize('messages since 03/15/2024 over 1,234.5', registry.get('en')))
+      .toBe('messages since 2024-03-15 over 1234.5');
+    // Not a date in this layout, so only the numbers are touched
+    expect(registry.canonicalize('logs 13/31/2024', registry.get('en'))).toBe('logs 13/31/2024');
+  });
+
+  test('should load packs from a directory and reject invalid ones', async () => {
+    await fs.writeFile(path.join(directory, 'it.json'), JSON.stringify({
+      language: 'it',
+      name: 'Italiano',
+      vocabulary: ['mostra', 'utenti', 'oggi'],
+      intents: { retrieve: ['(?:mostra|elenca)\\s+'] },
+      dataTypes: { users: ['utent[ei]'] },
+      temporal: { today: ['oggi'] },
+      numberFormat: { decimal: ',', thousands: '.' },
+      dateFormats: ['DD/MM/YYYY']
+    }));
+
+    const parser = new NaturalLanguageParser();
+    expect(await parser.loadLanguagePacks(directory)).toEqual(['it']);
+    expect(parser.getLanguages()).toEqual(['en', 'es', 'de', 'fr', 'it']);
+
+    const interpreted = await parser.parse({ raw: 'mostra utenti di oggi' });
+    expect(interpreted.language).toMatchObject({ code: 'it', name: 'Italiano' });
+    expect(interpreted.entities).toMatchObject({ dataType: 'users', temporal: 'today' });
+
+    await fs.writeFile(path.join(directory, 'nl.json'), JSON.stringify({
+      language: 'nl',
+      intents: { retrieve: ['(toon'] },
+      dataTypes: {},
+      temporal: {},
+      numberFormat: { decimal: ',', thousands: '.' }
+    }));
+    await expect(registry.loadDirectory(directory)).rejects.toThrow(LanguagePackError);
+    await expect(registry.loadDirectory(directory)).rejects.toThrow('nl.json');
+  });
+});
+
+describe('RAG2Controller languages', () => {
+  let mcpRegistry: MCPRegistry;
+
+  afterEach(async () => {
+    await mcpRegistry.shutdown();
+  });
+
+  test('should report the language a query was read in', async () => {
+    mcpRegistry = createDefaultMCPRegistry();
+    await mcpRegistry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [{ id: 'ada', userId: 'ada', email: 'ada@example.com', role: 'admin' }]
+    });
+    const rag2 = new RAG2Controller(mcpRegistry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+
+    const result = await rag2.query('zeige alle Benutzer');
+    expect(result.success).toBe(true);
+    expect(result.language).toMatchObject({ code: 'de', name: 'Deutsch' });
+    expect(result.data.metadata.totalRecords).toBe(1);
+
+    const explanation = await rag2.explain('muestra todos los usuarios');
+    expect(explanation.interpretation.language).toMatchObject({ code: 'es' });
+  });
+});
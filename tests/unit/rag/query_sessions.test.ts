@@ -0,0 +1,192 @@
+/**
+ * Query Session Unit Tests
+ *
+ * Tests for follow-up resolution, the session manager and session persistence.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isFollowUp, resolveFollowUp } from '../../../src/rag/query/followup';
+import { QuerySessionManager, SessionNotFoundError } from '../../../src/rag/query/sessions';
+import { FileSessionStore } from '../../../src/core/storage/session_store';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { InterpretedQuery, QueryIntent, TemporalContext } from '../../../src/types/query.types';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const previous = (): InterpretedQuery => ({
+  originalQuery: 'show all users',
+  intent: QueryIntent.RETRIEVE_DATA,
+  entities: {
+    filters: [{ field: 'searchText', operator: 'contains', value: 'ada' }],
+    temporal: TemporalContext.TODAY
+  },
+  mcpTargets: [],
+  executionPlan: { executionId: 'exec_1' },
+  confidence: 0.9,
+  explanation: { interpretation: 'Retrieve users' }
+} as unknown as InterpretedQuery);
+
+describe('resolveFollowUp', () => {
+  test('should restrict the previous query to a role and keep everything else', () => {
+    const base = previous();
+    const resolved = resolveFollowUp('now only the admins', base)!;
+
+    expect(resolved.changes).toEqual(['role = admin']);
+    expect(resolved.interpretation.entities.filters).toEqual([
+      { field: 'searchText', operator: 'contains', value: 'ada' },
+      { field: 'role', operator: 'eq', value: 'admin' }
+    ]);
+    expect(resolved.interpretation.entities.temporal).toBe(TemporalContext.TODAY);
+    expect(resolved.interpretation.executionPlan.executionId).not.toBe('exec_1');
+    expect(resolved.interpretation.explanation!.interpretation).toBe('Retrieve users (refined: role = admin)');
+    // The previous turn is left as it was
+    expect(base.entities.filters).toHaveLength(1);
+  });
+
+  test('should replace the time range and the search text', () => {
+    const now = 1_700_000_000_000;
+
+    const span = resolveFollowUp('same but for the last 3 days', previous(), { now })!;
+    expect(span.changes).toEqual(['time: last 3 days']);
+    expect(span.interpretation.entities.temporal).toBeUndefined();
+    expect(span.interpretation.entities.filters).toContainEqual({
+      field: 'dateRange', operator: 'between', value: { start: now - 3 * DAY_MS, end: now }
+    });
+
+    const month = resolveFollowUp('what about last month', previous())!;
+    expect(month.interpretation.entities.temporal).toBe(TemporalContext.LAST_MONTH);
+
+    const search = resolveFollowUp('and those mentioning "Release 2"', previous())!;
+    expect(search.changes).toEqual(['search: Release 2']);
+    expect(search.interpretation.entities.filters).toEqual([
+      { field: 'searchText', operator: 'contains', value: 'Release 2' }
+    ]);
+  });
+
+  test('should read calendar phrases in the time zone of the session', () => {
+    const base = { ...previous(), originalQuery: { raw: 'show all users' } } as InterpretedQuery;
+    const resolved = resolveFollowUp('same but for q2 2025', base, { now: 1_750_000_000_000, timeZone: 'America/New_York' })!;
+
+    expect(resolved.interpretation.entities.filters).toContainEqual({
+      field: 'dateRange',
+      operator: 'between',
+      value: { start: Date.parse('2025-04-01T04:00:00Z'), end: Date.parse('2025-07-01T04:00:00Z') - 1 }
+    });
+    // Later turns and the translator read the zone from the interpretation
+    expect(resolved.interpretation.originalQuery.context).toEqual({ timeZone: 'America/New_York' });
+  });
+
+  test('should not treat a standalone query as a follow-up', () => {
+    expect(isFollowUp('show all messages from yesterday')).toBe(false);
+    expect(resolveFollowUp('show all messages from yesterday', previous())).toBeNull();
+    // A cue with nothing to apply is not a refinement either
+    expect(resolveFollowUp('now what', previous())).toBeNull();
+  });
+});
+
+describe('QuerySessionManager', () => {
+  let registry: MCPRegistry;
+  let rag2: RAG2Controller;
+  let sessions: QuerySessionManager;
+  let directory: string | undefined;
+
+  const user = (id: string, role: string, created: number) => ({
+    id,
+    userId: id,
+    email: `${id}@example.com`,
+    role,
+    timestamp: created,
+    metadata: { createdAt: created, updatedAt: created, version: 1 }
+  });
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    const now = Date.now();
+    const userMcpId = await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [user('ada', 'admin', now), user('bob', 'member', now)]
+    });
+    // Records created from initial data are stamped now, so an old one is stored directly
+    const userMcp = await registry.getMCP(userMcpId);
+    await userMcp!.store(user('cy', 'admin', now - 90 * DAY_MS) as any);
+
+    rag2 = new RAG2Controller(registry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+  });
+
+  afterEach(async () => {
+    await sessions.shutdown();
+    await registry.shutdown();
+    if (directory) {
+      await fs.rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  test('should refine earlier turns with follow-ups', async () => {
+    sessions = new QuerySessionManager(rag2);
+    await sessions.initialize();
+    const session = await sessions.createSession();
+
+    const all = await sessions.query(session.id, 'show all users');
+    expect(all.turn.followUpOf).toBeUndefined();
+    expect(all.turn.result.recordIds.sort()).toEqual(['ada', 'bob', 'cy']);
+
+    const admins = await sessions.query(session.id, 'now only the admins');
+    expect(admins.turn).toMatchObject({ index: 1, followUpOf: 0, changes: ['role = admin'] });
+    expect(admins.turn.result.recordIds.sort()).toEqual(['ada', 'cy']);
+
+    const recent = await sessions.query(session.id, 'same but last month');
+    expect(recent.turn).toMatchObject({ index: 2, followUpOf: 1, changes: ['time: last_month'] });
+    expect(recent.turn.result.recordIds).toEqual(['ada']);
+
+    expect(recent.session).toMatchObject({ id: session.id, turnCount: 3, lastQuery: 'same but last month' });
+  });
+
+  test('should keep sessions to their owner and expire idle ones', async () => {
+    sessions = new QuerySessionManager(rag2, { ttlMs: 50 });
+    await sessions.initialize();
+    const expired: string[] = [];
+    sessions.on('session_expired', event => expired.push(event.sessionId));
+
+    const owned = await sessions.createSession({ userId: 'u1', ttlMs: 60_000 });
+    const idle = await sessions.createSession({ userId: 'u1' });
+
+    expect(() => sessions.getSession(owned.id, 'u2')).toThrow(SessionNotFoundError);
+    expect(sessions.listSessions('u2')).toEqual([]);
+    await expect(sessions.deleteSession(owned.id)).rejects.toThrow(SessionNotFoundError);
+
+    await new Promise(resolve => setTimeout(resolve, 80));
+    expect(await sessions.purgeExpired()).toBe(1);
+    expect(expired).toEqual([idle.id]);
+    expect(sessions.listSessions('u1').map(summary => summary.id)).toEqual([owned.id]);
+  });
+
+  test('should resume persisted sessions after a restart', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'query-sessions-'));
+    sessions = new QuerySessionManager(rag2, { store: new FileSessionStore(directory) });
+    await sessions.initialize();
+    const session = await sessions.createSession({ userId: 'u1' });
+    await sessions.query(session.id, 'show all users', {}, 'u1');
+    await sessions.shutdown();
+
+    sessions = new QuerySessionManager(rag2, { store: new FileSessionStore(directory) });
+    await sessions.initialize();
+    const admins = await sessions.query(session.id, 'only the admins', {}, 'u1');
+
+    expect(admins.turn.followUpOf).toBe(0);
+    expect(admins.turn.result.recordIds.sort()).toEqual(['ada', 'cy']);
+
+    await sessions.deleteSession(session.id, 'u1');
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
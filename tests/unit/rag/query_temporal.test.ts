@@ -0,0 +1,156 @@
+/**
+ * Temporal Expression Unit Tests
+ *
+ * Tests for resolving time phrases to ranges in the user's time zone and pushing them down to MCPs.
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals';
+import { isRelativeTimeExpression, resolveTemporalContext, resolveTimeExpression, isValidTimeZone } from '../../../src/rag/query/temporal';
+import { NaturalLanguageParser } from '../../../src/rag/query/parser';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { LogsMCP } from '../../../src/core/specialized/logs_mcp';
+import { MCPType } from '../../../src/types/mcp.types';
+import { TemporalContext } from '../../../src/types/query.types';
+
+const at = (iso: string) => Date.parse(iso);
+const endOf = (iso: string) => Date.parse(iso) - 1;
+
+// A Wednesday afternoon in UTC, already Thursday in Tokyo
+const now = at('2025-06-18T15:00:00Z');
+
+describe('resolveTimeExpression', () => {
+  test('should resolve absolute, relative and ISO ranges', () => {
+    const utc = { now, timeZone: 'UTC' };
+    const cases: Array<[string, number, number]> = [
+      ['logs between march 3 and march 10', at('2025-03-03T00:00:00Z'), endOf('2025-03-11T00:00:00Z')],
+      ['errors in the last 36 hours', now - 36 * 60 * 60 * 1000, now],
+      ['metrics for q2 2025', at('2025-04-01T00:00:00Z'), endOf('2025-07-01T00:00:00Z')],
+      ['logs since monday', at('2025-06-16T00:00:00Z'), now],
+      ['logs from the week before last', at('2025-06-02T00:00:00Z'), endOf('2025-06-09T00:00:00Z')],
+      ['logs 2025-03-01/p1w', at('2025-03-01T00:00:00Z'), endOf('2025-03-08T00:00:00Z')],
+      ['logs 2025-03-01/2025-03-02', at('2025-03-01T00:00:00Z'), endOf('2025-03-03T00:00:00Z')]
+    ];
+
+    for (const [text, start, end] of cases) {
+      expect(resolveTimeExpression(text, utc)).toMatchObject({ start, end });
+    }
+    expect(resolveTimeExpression('logs between march 3 and march 10', utc)!.expression).toBe('between march 3 and march 10');
+    expect(resolveTimeExpression('show all users', utc)).toBeNull();
+  });
+
+  test('should reckon calendar phrases in the user time zone', () => {
+    expect(resolveTimeExpression('metrics for q2 2025', { now, timeZone: 'America/New_York' }))
+      .toMatchObject({ start: at('2025-04-01T04:00:00Z'), end: endOf('2025-07-01T04:00:00Z') });
+    expect(resolveTemporalContext(TemporalContext.TODAY, { now, timeZone: 'Asia/Tokyo' }))
+      .toEqual({ start: at('2025-06-18T15:00:00Z'), end: endOf('2025-06-19T15:00:00Z') });
+    expect(resolveTemporalContext(TemporalContext.TODAY, { now, timeZone: 'UTC' }))
+      .toEqual({ start: at('2025-06-18T00:00:00Z'), end: endOf('2025-06-19T00:00:00Z') });
+    expect(resolveTemporalContext(TemporalContext.HISTORICAL, { now })).toBeUndefined();
+
+    // A span across new year falls in the most recent past
+    expect(resolveTimeExpression('between dec 28 and jan 3', { now: at('2025-01-02T12:00:00Z'), timeZone: 'UTC' }))
+      .toMatchObject({ start: at('2024-12-28T00:00:00Z'), end: endOf('2025-01-04T00:00:00Z') });
+
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  test('should tell phrases reckoned from now from fixed ones', () => {
+    for (const text of ['errors in the last 36 hours', 'logs since monday', 'logs in march', 'logs for this quarter', 'logs since 2024']) {
+      expect(isRelativeTimeExpression(text, { now, timeZone: 'UTC' })).toBe(true);
+    }
+    for (const text of ['metrics for q2 2025', 'logs between march 3, 2025 and march 10, 2025', 'logs 2025-03-01/p1w', 'show all users']) {
+      expect(isRelativeTimeExpression(text, { now, timeZone: 'UTC' })).toBe(false);
+    }
+  });
+});
+
+describe('NaturalLanguageParser time ranges', () => {
+  test('should turn a time phrase into a single date range filter', async () => {
+    const parser = new NaturalLanguageParser();
+    const interpreted = await parser.parse({ raw: 'show error logs between march 3, 2025 and march 10, 2025', context: { timeZone: 'Europe/Berlin' } });
+
+    expect(interpreted.entities.filters).toEqual([{
+      field: 'dateRange',
+      operator: 'between',
+      value: { start: at('2025-03-02T23:00:00Z'), end: endOf('2025-03-10T23:00:00Z') }
+    }]);
+    expect(interpreted.entities.temporal).toBe(TemporalContext.HISTORICAL);
+  });
+});
+
+describe('RAG2Controller time ranges', () => {
+  let mcpRegistry: MCPRegistry;
+
+  const log = (id: string, timestamp: number) => ({
+    id, timestamp, level: 'error', message: `failure ${id}`,
+    source: { application: 'api', service: 'gateway', instance: 'i-1', host: 'h-1' }, context: {}
+  });
+
+  afterEach(async () => {
+    await mcpRegistry.shutdown();
+  });
+
+  test('should push resolved ranges down to the log time index', async () => {
+    mcpRegistry = createDefaultMCPRegistry();
+    const logsMcpId = await mcpRegistry.createMCP({
+      name: 'logs-mcp',
+      type: MCPType.LOGS,
+      domain: 'logs',
+      initialData: [
+        log('march-2', at('2025-03-02T12:00:00Z')),
+        log('march-5', at('2025-03-05T12:00:00Z')),
+        log('may-10', at('2025-05-10T12:00:00Z')),
+        log('recent', Date.now() - 60 * 60 * 1000)
+      ]
+    });
+    // A log without its own time is selected by when it was ingested, as searchLogs does
+    const logsMcp = (await mcpRegistry.getMCP(logsMcpId)) as LogsMCP;
+    const { timestamp, ...untimed } = log('untimed', 0);
+    await logsMcp.store({ id: 'untimed', domain: 'logs', type: 'log', timestamp: Date.now() - 2 * 60 * 60 * 1000, data: untimed });
+    expect((await logsMcp.searchLogs('untimed', { startTime: Date.now() - 36 * 60 * 60 * 1000 })).map(hit => hit.record.id)).toContain('untimed');
+    expect((await logsMcp.retrieve('untimed'))!.data.timestamp).toBeUndefined();
+
+    const rag2 = new RAG2Controller(mcpRegistry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+    const ids = async (query: string) =>
+      (await rag2.query(query, { timeZone: 'America/New_York' })).data.primary.map((record: any) => record.id).sort();
+
+    expect(await ids('show logs between march 3, 2025 and march 10, 2025')).toEqual(['march-5']);
+    expect(await ids('show logs for q2 2025')).toEqual(['may-10']);
+    expect(await ids('show logs from the last 36 hours')).toEqual(['recent', 'untimed']);
+    expect(await ids('show logs since 2025-03-04')).toEqual(['march-5', 'may-10', 'recent', 'untimed']);
+
+    const explanation = await rag2.explain('show logs for q2 2025');
+    const plan = explanation.mcps[0].targets[0].plan;
+    expect(Object.keys(plan.filters)).toEqual(['data.timestamp']);
+    expect(plan.access).toMatchObject({ indexUsed: 'data.timestamp', estimatedScan: 1 });
+  });
+
+  test('should cache results per time zone and not cache ranges reckoned from now', async () => {
+    mcpRegistry = createDefaultMCPRegistry();
+    await mcpRegistry.createMCP({
+      name: 'logs-mcp',
+      type: MCPType.LOGS,
+      domain: 'logs',
+      // Still March in UTC, already April in Berlin
+      initialData: [log('quarter-edge', at('2025-03-31T23:30:00Z')), log('recent', Date.now() - 60 * 60 * 1000)]
+    });
+    const rag2 = new RAG2Controller(mcpRegistry, {
+      caching: { enabled: true, default_ttl: 300, max_cache_size: 100, intelligent_invalidation: false }
+    });
+    const run = (query: string, timeZone: string) => rag2.query(query, { timeZone });
+
+    expect((await run('show logs for q2 2025', 'UTC')).data.primary).toEqual([]);
+    const berlin = await run('show logs for q2 2025', 'Europe/Berlin');
+    expect(berlin.caching.cached).toBe(false);
+    expect(berlin.data.primary.map((record: any) => record.id)).toEqual(['quarter-edge']);
+    expect((await run('show logs for q2 2025', 'Europe/Berlin')).caching.cached).toBe(true);
+
+    await run('show logs from the last 36 hours', 'UTC');
+    expect((await run('show logs from the last 36 hours', 'UTC')).caching.cached).toBe(false);
+  });
+});
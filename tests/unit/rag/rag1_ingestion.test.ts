@@ -0,0 +1,197 @@
+/**
+ * RAG₁ Ingestion Unit Tests
+ *
+ * Tests that records and documents reach their routed MCPs and that records failing to classify,
+ * route or store land in the dead-letter queue and can be replayed, with the classifier and router mocked.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RAG1Controller } from '../../../src/rag/ingest/rag1';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { DataRecord, MCPType, RoutingDecision } from '../../../src/types/mcp.types';
+
+// The real classifier and router load the TensorFlow native addon
+const mockClassify = jest.fn<(record: DataRecord) => Promise<any>>();
+const mockRoute = jest.fn<(record: DataRecord, classification: any) => Promise<RoutingDecision>>();
+
+jest.mock('../../../src/rag/ingest/classifier', () => ({
+  DataClassifier: class {
+    classify(record: DataRecord) {
+      return mockClassify(record);
+    }
+  }
+}));
+
+jest.mock('../../../src/rag/ingest/router', () => {
+  const { EventEmitter } = require('events');
+  return {
+    RoutingEngine: class extends EventEmitter {
+      route(record: DataRecord, classification: any) {
+        return mockRoute(record, classification);
+      }
+
+      optimizeRouting() {}
+    }
+  };
+});
+
+describe('RAG1Controller ingestion', () => {
+  let registry: MCPRegistry;
+  let rag1: RAG1Controller;
+  let userMcpId: string;
+
+  const routeTo = (...targetMCPs: string[]): RoutingDecision =>
+    ({ targetMCPs, strategy: 'primary', executionPlan: [] } as unknown as RoutingDecision);
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    userMcpId = await registry.createMCP({ name: 'user-mcp', type: MCPType.USER, domain: 'user' });
+    mockClassify.mockReset().mockResolvedValue({ domain: 'user', classification: 'user', confidence: 0.9 });
+    mockRoute.mockReset().mockResolvedValue(routeTo(userMcpId));
+
+    rag1 = new RAG1Controller(registry, { enablePatternLearning: false, retryPolicy: { retryStages: [] } });
+    await rag1.initialize();
+  });
+
+  afterEach(async () => {
+    await rag1.shutdown();
+    await registry.shutdown();
+  });
+
+  test('should store a record in the MCPs it is routed to', async () => {
+    const result = await rag1.ingest({ email: 'ada@example.com' }, { domain: 'user' });
+
+    expect(result).toMatchObject({ success: true, routing: { targetMCPs: [userMcpId] } });
+    expect(result.deadLetterId).toBeUndefined();
+    const stored = await (await registry.getMCP(userMcpId))!.retrieve(result.recordId);
+    expect(stored?.data).toEqual({ email: 'ada@example.com' });
+    expect(rag1.getDeadLetters().stats().total).toBe(0);
+  });
+
+  test('should dead-letter each failure with the stage it failed at', async () => {
+    mockClassify.mockRejectedValueOnce(new Error('Unclassifiable payload'));
+    const classify = await rag1.ingest({ blob: '???' });
+
+    mockRoute.mockRejectedValueOnce(new Error('Routing timeout'));
+    const route = await rag1.ingest({ email: 'bob@example.com' });
+
+    mockRoute.mockResolvedValueOnce(routeTo('missing-mcp'));
+    const store = await rag1.ingest({ email: 'cy@example.com' });
+
+    const userMcp = (await registry.getMCP(userMcpId))!;
+    jest.spyOn(userMcp, 'store').mockResolvedValueOnce(false);
+    const refused = await rag1.ingest({ email: 'dee@example.com' });
+
+    expect([classify, route, store, refused].map(result => [result.success, result.stage])).toEqual([
+      [false, 'classify'],
+      [false, 'route'],
+      [false, 'store'],
+      [false, 'store']
+    ]);
+    expect(store.error).toBe(`Target MCP missing-mcp not found for record ${store.recordId}`);
+    expect(refused.error).toBe(`MCP ${userMcpId} failed to store record ${refused.recordId}`);
+
+    const deadLetters = rag1.getDeadLetters();
+    for (const result of [classify, route, store, refused]) {
+      expect(deadLetters.get(result.deadLetterId!)).toMatchObject({
+        recordId: result.recordId,
+        stage: result.stage,
+        error: result.error,
+        attempts: 1
+      });
+    }
+    expect(deadLetters.get(route.deadLetterId!).data).toEqual({ email: 'bob@example.com' });
+  });
+
+  test('should tag the dead letters of a batch with its ID', async () => {
+    mockRoute.mockImplementation(async record =>
+      routeTo(record.data.email === 'bad@example.com' ? 'missing-mcp' : userMcpId));
+
+    const batch = await rag1.ingestBatch([
+      { data: { email: 'good@example.com' } },
+      { data: { email: 'bad@example.com' } }
+    ] as DataRecord[]);
+
+    expect(batch).toMatchObject({ successfulRecords: 1, failedRecords: 1 });
+    const failed = batch.results.find(result => !result.success)!;
+    expect(rag1.getDeadLetters().list({ batchId: batch.batchId })).toEqual([
+      expect.objectContaining({ id: failed.deadLetterId, recordId: failed.recordId, stage: 'store' })
+    ]);
+  });
+
+  test('should replay a dead letter under its original record ID', async () => {
+    mockRoute.mockResolvedValueOnce(routeTo('missing-mcp'));
+    const failed = await rag1.ingest({ email: 'eve@example.com' }, { domain: 'user', source: 'crm' });
+    const deadLetters = rag1.getDeadLetters();
+    await deadLetters.update(failed.deadLetterId!, { data: { email: 'eve@example.org' } });
+
+    const replay = await deadLetters.replay(failed.deadLetterId!);
+
+    expect(replay).toEqual({ deadLetterId: failed.deadLetterId, recordId: failed.recordId, success: true });
+    expect(mockRoute).toHaveBeenLastCalledWith(expect.objectContaining({ id: failed.recordId }), expect.anything());
+    const stored = await (await registry.getMCP(userMcpId))!.retrieve(failed.recordId);
+    expect(stored).toMatchObject({ data: { email: 'eve@example.org' }, metadata: { source: 'crm' } });
+    expect(deadLetters.stats().total).toBe(0);
+  });
+
+  describe('documents', () => {
+    const manual = '# Install\n\nRun the installer and accept the licence.\n\n# Configure\n\nSet the data directory.\n\n# Upgrade\n\nStop the service first.';
+    const ingestManual = () =>
+      rag1.ingestDocument(manual, { domain: 'user', fileName: 'manual.md', mimeType: 'text/markdown' }, { size: 8 });
+
+    test('should store a document and its chunks together, routed on its opening text', async () => {
+      const result = await ingestManual();
+
+      expect(result).toMatchObject({ success: true, format: 'markdown', routing: { targetMCPs: [userMcpId] } });
+      expect(result.chunkCount).toBeGreaterThan(1);
+      expect(mockRoute).toHaveBeenCalledTimes(1);
+      expect(mockRoute.mock.calls[0][0]).toMatchObject({ id: result.documentId, data: { text: manual } });
+
+      const userMcp = (await registry.getMCP(userMcpId))!;
+      expect(await userMcp.retrieve(result.documentId)).toMatchObject({
+        type: 'document',
+        data: { fileName: 'manual.md', format: 'markdown', chunkCount: result.chunkCount }
+      });
+      const chunks = await userMcp.query({ parentId: result.documentId });
+      expect(chunks.map(chunk => chunk.id).sort()).toEqual(
+        Array.from({ length: result.chunkCount }, (_, index) => `${result.documentId}:chunk:${index}`).sort()
+      );
+      expect(chunks.every(chunk => chunk.type === 'document_chunk' && chunk.domain === 'user')).toBe(true);
+    });
+
+    test('should store nothing when one of the chunks is refused', async () => {
+      const userMcp = (await registry.getMCP(userMcpId))!;
+      const store = userMcp.store.bind(userMcp);
+      jest.spyOn(userMcp, 'store').mockImplementation(async (record, options) =>
+        record.id.endsWith(':chunk:1') ? false : store(record, options));
+
+      const result = await ingestManual();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`rejected put of record ${result.documentId}:chunk:1`);
+      expect(await userMcp.retrieve(result.documentId)).toBeNull();
+      expect(await userMcp.query({ parentId: result.documentId })).toEqual([]);
+      expect(await rag1.getDocument(result.documentId)).toBeNull();
+    });
+
+    test('should reassemble a stored document and delete it with all of its chunks', async () => {
+      const { documentId, chunkCount } = await ingestManual();
+      const other = await rag1.ingest({ email: 'ada@example.com' }, { domain: 'user' });
+
+      const stored = (await rag1.getDocument(documentId))!;
+      expect(stored.mcpId).toBe(userMcpId);
+      expect(stored.document.id).toBe(documentId);
+      expect(stored.chunks.map(chunk => chunk.data.index)).toEqual(Array.from({ length: chunkCount }, (_, index) => index));
+      expect(stored.text).toBe(manual);
+
+      expect(await rag1.deleteDocument(documentId)).toBe(chunkCount + 1);
+      expect(await rag1.getDocument(documentId)).toBeNull();
+      const userMcp = (await registry.getMCP(userMcpId))!;
+      expect(await userMcp.query({ parentId: documentId })).toEqual([]);
+      expect(await userMcp.retrieve(other.recordId)).not.toBeNull();
+      expect(await rag1.deleteDocument(documentId)).toBe(0);
+      expect(await rag1.getDocument('missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * RAG₂ Live Execution Unit Tests
+ *
+ * Tests that natural language queries reach the MCPs held by the registry.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPQueryTranslator } from '../../../src/rag/query/translator';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+import { QueryFilter } from '../../../src/types/query.types';
+
+const noCaching = {
+  enabled: false,
+  default_ttl: 0,
+  max_cache_size: 0,
+  intelligent_invalidation: false
+};
+
+describe('MCPQueryTranslator', () => {
+  const translator = new MCPQueryTranslator();
+
+  test('should translate planner operators to query filter syntax', () => {
+    const filters: QueryFilter[] = [
+      { field: 'age', operator: 'greater_than_or_equal', value: 18 },
+      { field: 'age', operator: 'less_than', value: 65 },
+      { field: 'status', operator: 'in', value: ['active', 'pending'] },
+      { field: 'email', operator: 'ends_with', value: '@example.com' }
+    ];
+
+    expect(translator.translateFilters(filters)).toEqual({
+      age: { $gte: 18, $lt: 65 },
+      status: { $in: ['active', 'pending'] },
+      email: { $regex: '@example\\.com$', $options: 'i' }
+    });
+  });
+
+  test('should group filters joined by an or connector', () => {
+    const filters: QueryFilter[] = [
+      { field: 'level', operator: 'eq', value: 'error', connector: 'or' },
+      { field: 'level', operator: 'eq', value: 'warn' }
+    ];
+
+    expect(translator.translateFilters(filters)).toEqual({
+      $or: [{ level: 'error' }, { level: 'warn' }]
+    });
+  });
+});
+
+describe('RAG2Controller execution', () => {
+  let registry: MCPRegistry;
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [
+        { id: 'u-live-1', email: 'alice@example.com', name: 'Alice' },
+        { id: 'u-live-2', email: 'bob@example.com', name: 'Bob' }
+      ]
+    });
+  });
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should return records stored in registry MCPs', async () => {
+    const rag2 = new RAG2Controller(registry, { caching: noCaching });
+
+    const result = await rag2.query('show all users');
+    const userSource = result.data.metadata.sources.find((s: any) => s.mcpId === 'user-mcp');
+
+    expect(result.success).toBe(true);
+    expect(userSource?.recordCount).toBe(2);
+    expect(result.data.primary.map((r: any) => r.data.email).sort())
+      .toEqual(['alice@example.com', 'bob@example.com']);
+  });
+
+  test('should report unregistered MCPs as failures instead of inventing data', async () => {
+    const rag2 = new RAG2Controller(registry, { caching: noCaching });
+
+    const result = await rag2.query('show system logs');
+
+    expect(result.errors?.some((e: any) => e.mcpId === 'logs-mcp' && e.error.includes('not found'))).toBe(true);
+    expect(result.data.primary).toEqual([]);
+  });
+
+  test('should drop cached results when records change or their TTL runs out', async () => {
+    const rag2 = new RAG2Controller(registry);
+    const emails = (result: any) => result.data.primary.map((r: any) => r.data.email).sort();
+
+    expect((await rag2.query('show all users')).caching.cached).toBe(false);
+    const repeated = await rag2.query('show all users');
+    expect(repeated.caching.cached).toBe(true);
+
+    const [users] = Array.from((await registry.getMCPsByDomain('user')).values());
+    await users.store({ id: 'u-live-3', domain: 'user', type: 'user', timestamp: Date.now(), data: { email: 'cy@example.com', name: 'Cy' } });
+    const afterWrite = await rag2.query('show all users');
+    expect(afterWrite.caching.cached).toBe(false);
+    expect(emails(afterWrite)).toEqual(['alice@example.com', 'bob@example.com', 'cy@example.com']);
+
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + (afterWrite.caching.cacheTTL! + 1) * 1000);
+    try {
+      expect((await rag2.query('show all users')).caching.cached).toBe(false);
+    } finally {
+      clock.mockRestore();
+    }
+  });
+
+  test('should keep canned responses behind the simulation mode', async () => {
+    const rag2 = new RAG2Controller(registry, {
+      caching: noCaching,
+      execution: {
+        max_parallel_mcps: 5,
+        query_timeout: 30000,
+        retry_attempts: 0,
+        fallback_enabled: false,
+        mode: 'simulation'
+      }
+    });
+
+    const result = await rag2.query('show system logs');
+
+    expect(result.data.primary.some((r: any) => r.id === 'log1')).toBe(true);
+  });
+});
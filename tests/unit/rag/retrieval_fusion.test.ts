@@ -0,0 +1,209 @@
+/**
+ * Retrieval Fusion Unit Tests
+ *
+ * Tests for rank fusion, score blending, re-ranking and the fusion aggregation strategy.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  FusedHit,
+  Reranker,
+  RetrievalList,
+  TermCoverageReranker,
+  fuseRetrievals,
+  rerankHits
+} from '../../../src/rag/query/fusion';
+import { ResultAggregator, MCPResult } from '../../../src/rag/query/aggregator';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { MCPQueryTranslator } from '../../../src/rag/query/translator';
+import { ChatMCP } from '../../../src/core/specialized/chat_mcp';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const doc = (id: string, text = id) => ({ id, data: { text } });
+
+const lists: RetrievalList[] = [
+  {
+    mcpId: 'chat',
+    retriever: 'fulltext',
+    candidates: [
+      { record: doc('a'), score: 9, highlights: ['<mark>a</mark>'] },
+      { record: doc('b'), score: 4 },
+      { record: doc('c'), score: 1 }
+    ]
+  },
+  {
+    mcpId: 'docs',
+    retriever: 'vector',
+    candidates: [
+      { record: doc('b'), score: 0.9 },
+      { record: doc('d'), score: 0.8 }
+    ]
+  }
+];
+
+const reverse: Reranker = {
+  name: 'reverse',
+  rerank: async (_query: string, hits: FusedHit[]) => [...hits].reverse()
+};
+
+describe('fuseRetrievals', () => {
+  test('should reward records found by several retrievers and keep their provenance', () => {
+    const hits = fuseRetrievals(lists);
+
+    expect(hits.map(hit => hit.key)).toEqual(['b', 'a', 'd', 'c']);
+    expect(hits[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(hits[0].provenance).toEqual([
+      { mcpId: 'chat', retriever: 'fulltext', rank: 2, score: 4 },
+      { mcpId: 'docs', retriever: 'vector', rank: 1, score: 0.9 }
+    ]);
+    expect(hits[1].highlights).toEqual(['<mark>a</mark>']);
+  });
+
+  test('should blend normalized scores with per-retriever weights', () => {
+    const hits = fuseRetrievals(lists, { method: 'weighted', weights: { vector: 2 } });
+
+    // a: 1 from full-text; b: 0.375 + 2 * 1; d: 2 * 0; c: 0
+    expect(hits.map(hit => hit.key)).toEqual(['b', 'a', 'c', 'd']);
+    expect(hits[0].score).toBeCloseTo(2.375);
+    expect(fuseRetrievals(lists, { weights: { vector: 0 } }).map(hit => hit.key)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('rerankHits', () => {
+  test('should only reorder hits within the re-rank depth', async () => {
+    const hits = fuseRetrievals(lists);
+
+    const reranked = await rerankHits(reverse, 'query', hits, 2);
+    expect(reranked.map(hit => hit.key)).toEqual(['a', 'b', 'd', 'c']);
+    expect(await rerankHits(reverse, 'query', hits, 0)).toBe(hits);
+  });
+
+  test('should move hits that cover more of the query up with term coverage', async () => {
+    const hits = fuseRetrievals([{
+      mcpId: 'docs',
+      retriever: 'structured',
+      candidates: [
+        { record: doc('partial', 'Password policy overview') },
+        { record: doc('full', 'How to reset a forgotten password') }
+      ]
+    }]);
+
+    const reranked = await new TermCoverageReranker().rerank('reset forgotten password', hits);
+    expect(reranked.map(hit => hit.key)).toEqual(['full', 'partial']);
+  });
+});
+
+describe('ResultAggregator fusion strategy', () => {
+  const mcpResult = (mcpId: string, data: any[], retrievals?: RetrievalList[]): MCPResult => ({
+    mcpId,
+    success: true,
+    data,
+    metadata: { recordCount: data.length, queryTime: 1, cacheHit: false },
+    queryFragment: {},
+    retrievals
+  });
+
+  test('should fuse retrievals and annotate records with relevance', async () => {
+    const aggregator = new ResultAggregator();
+    const result = await aggregator.aggregateResults(
+      [mcpResult('chat-mcp', [], lists), mcpResult('user-mcp', [doc('c'), doc('e')])],
+      'fusion',
+      'exec-1',
+      'query',
+      { aggregationStrategy: { type: 'fusion', fusion: { limit: 3 } } }
+    );
+
+    expect(result.data.primary.map((record: any) => record.id)).toEqual(['b', 'c', 'a']);
+    expect(result.data.primary[1].relevance.provenance.map((p: any) => p.mcpId)).toEqual(['chat', 'user-mcp']);
+    expect(result.data.metadata.aggregationApplied).toBe('fusion');
+  });
+
+  test('should apply a plugged-in re-ranker', async () => {
+    const aggregator = new ResultAggregator({ reranker: reverse });
+    const result = await aggregator.aggregateResults([mcpResult('chat-mcp', [], lists)], 'fusion', 'exec-2', 'query');
+
+    expect(result.data.primary.map((record: any) => record.id)).toEqual(['c', 'd', 'a', 'b']);
+  });
+});
+
+describe('MCPQueryTranslator.retrieve', () => {
+  let chat: ChatMCP;
+
+  const message = (id: string, text: string, senderId = 'u1') => ({
+    id,
+    domain: 'chat',
+    type: 'message',
+    timestamp: Date.now(),
+    data: { id, conversationId: 'c1', senderId, created: Date.now(), content: { type: 'text', text } }
+  });
+
+  beforeEach(async () => {
+    chat = new ChatMCP('chat', MCPType.CHAT, { vectorIndex: { dimensions: 64 } });
+    await chat.store(message('m1', 'The deployment failed on staging'));
+    await chat.store(message('m2', 'Lunch at noon?', 'u2'));
+    await chat.store(message('m3', 'Deployment finished, deploying again tomorrow'));
+  });
+
+  afterEach(async () => {
+    await chat.shutdown();
+  });
+
+  test('should run every retriever that applies to the MCP', async () => {
+    const translator = new MCPQueryTranslator();
+    const lists = await translator.retrieve(chat, { filters: [], searchText: 'deployment' });
+
+    expect(lists.map(list => list.retriever)).toEqual(['fulltext', 'vector']);
+    expect(lists[0].candidates.map(candidate => candidate.record.id).sort()).toEqual(['m1', 'm3']);
+    expect(lists[1].candidates).toHaveLength(3);
+
+    const filtered = await translator.retrieve(
+      chat,
+      { filters: [{ field: 'senderId', operator: 'eq', value: 'u2' }], searchText: 'deployment' },
+      { retrievers: ['vector', 'structured'] }
+    );
+    expect(filtered.map(list => list.retriever)).toEqual(['vector', 'structured']);
+    expect(filtered[1].candidates.map(candidate => candidate.record.id)).toEqual(['m2']);
+  });
+});
+
+describe('RAG2Controller retrieval fusion', () => {
+  let registry: MCPRegistry;
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should fuse full-text hits from registry MCPs when asked for fusion', async () => {
+    registry = createDefaultMCPRegistry();
+    const created = Date.now();
+    const message = (id: string, text: string) => ({
+      id,
+      conversationId: 'c1',
+      senderId: 'u1',
+      created,
+      content: { type: 'text', text }
+    });
+    await registry.createMCP({
+      name: 'chat-mcp',
+      type: MCPType.CHAT,
+      domain: 'chat',
+      initialData: [
+        message('m1', 'The deployment failed on staging'),
+        message('m2', 'Lunch at noon?'),
+        message('m3', 'Deployment finished, deploying again tomorrow')
+      ]
+    });
+
+    const rag2 = new RAG2Controller(registry, {
+      caching: { enabled: false, default_ttl: 0, max_cache_size: 0, intelligent_invalidation: false }
+    });
+    const result = await rag2.query('find messages about deployment', undefined, { fusion: { method: 'rrf' } });
+
+    const ids = result.data.primary.map((record: any) => record.id).sort();
+    expect(result.data.metadata.aggregationApplied).toBe('fusion');
+    expect(ids).toEqual(['m1', 'm3']);
+    expect(result.data.primary[0].relevance.provenance[0].retriever).toBe('fulltext');
+  });
+});
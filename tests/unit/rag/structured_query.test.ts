@@ -0,0 +1,155 @@
+/**
+ * RAG₂ Structured Query Unit Tests
+ *
+ * Tests for the JSON query DSL compiler and its execution through RAG2Controller.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { RAG2Controller } from '../../../src/rag/query/rag2';
+import { StructuredQueryCompiler } from '../../../src/rag/query/structured';
+import { MCPRegistry } from '../../../src/mcp/registry/MCPRegistry';
+import { createDefaultMCPRegistry } from '../../../src/mcp/registry/MCPFactorySetup';
+import { MCPType } from '../../../src/types/mcp.types';
+
+const noCaching = {
+  enabled: false,
+  default_ttl: 0,
+  max_cache_size: 0,
+  intelligent_invalidation: false
+};
+
+const record = (id: string, timestamp: number, data: Record<string, any>) => ({
+  id, domain: 'user', type: 'user', timestamp, data
+});
+
+describe('StructuredQueryCompiler', () => {
+  const compiler = new StructuredQueryCompiler();
+
+  test('should compile where clauses and time ranges to query filter syntax', () => {
+    const compiled = compiler.compile({
+      from: ['user', 'chat-mcp'],
+      where: {
+        or: [
+          { field: 'age', op: 'between', value: [18, 30] },
+          { field: 'email', op: 'endsWith', value: '@example.com' }
+        ]
+      },
+      timeRange: { from: '2024-01-01T00:00:00.000Z' }
+    });
+
+    expect(compiled.interpreted.targetMCPs).toEqual(['user-mcp', 'chat-mcp']);
+    expect(compiled.where).toEqual({
+      $and: [
+        {
+          $or: [
+            { age: { $gte: 18, $lte: 30 } },
+            { email: { $regex: '@example\\.com$', $options: 'i' } }
+          ]
+        },
+        { timestamp: { $gte: Date.parse('2024-01-01T00:00:00.000Z') } }
+      ]
+    });
+  });
+
+  test('should only push limits down when ordering does not need the full result set', () => {
+    expect(compiler.compile({ from: 'user', limit: 5, offset: 10 }).pushdownLimit).toBe(15);
+    expect(compiler.compile({
+      from: 'user', limit: 5, orderBy: [{ field: 'age' }]
+    }).pushdownLimit).toBeUndefined();
+  });
+
+  test('should group, aggregate, order and paginate records', () => {
+    const records = [
+      record('u1', 1000, { plan: 'pro', seats: 5 }),
+      record('u2', 2000, { plan: 'free', seats: 1 }),
+      record('u3', 3000, { plan: 'pro', seats: 7 }),
+      record('u4', 4000, { plan: 'team', seats: 3 })
+    ];
+
+    const { rows, total } = compiler.shape(records, {
+      from: 'user',
+      where: { field: 'seats', op: 'gte', value: 1 },
+      groupBy: ['plan'],
+      aggregate: [{ fn: 'count' }, { fn: 'sum', field: 'seats', as: 'seats' }],
+      orderBy: [{ field: 'seats', direction: 'desc' }],
+      limit: 2
+    });
+
+    expect(total).toBe(3);
+    expect(rows).toEqual([
+      { plan: 'pro', count: 2, seats: 12 },
+      { plan: 'team', count: 1, seats: 3 }
+    ]);
+  });
+
+  test('should project selected fields including nested paths', () => {
+    const { rows } = compiler.shape(
+      [record('u1', 1000, { name: 'Alice', address: { city: 'Oslo' } })],
+      { from: 'user', select: ['id', 'name', 'address.city'] }
+    );
+
+    expect(rows).toEqual([{ id: 'u1', name: 'Alice', 'address.city': 'Oslo' }]);
+  });
+
+  test('should reject invalid between operands', () => {
+    expect(() => compiler.compile({
+      from: 'user',
+      where: { field: 'age', op: 'between', value: 18 }
+    })).toThrow('between');
+  });
+
+  test('should reject regular expressions that could backtrack without bound', () => {
+    const regex = (value: string) => () => compiler.compile({ from: 'user', where: { field: 'email', op: 'regex', value } });
+
+    expect(regex('(a|aa)+')).toThrow('repeats a group that holds a quantifier or alternation on field "email"');
+    expect(regex('a'.repeat(257))).toThrow('longer than 256 characters');
+    expect(regex('(')).toThrow('Invalid regular expression');
+    expect(regex('^[a-z]+@example\\.com$')).not.toThrow();
+  });
+});
+
+describe('RAG2Controller structured queries', () => {
+  let registry: MCPRegistry;
+
+  beforeEach(async () => {
+    registry = createDefaultMCPRegistry();
+    await registry.createMCP({
+      name: 'user-mcp',
+      type: MCPType.USER,
+      domain: 'user',
+      initialData: [
+        { id: 'u-s-1', email: 'alice@example.com', name: 'Alice', age: 34 },
+        { id: 'u-s-2', email: 'bob@example.com', name: 'Bob', age: 27 },
+        { id: 'u-s-3', email: 'carol@example.org', name: 'Carol', age: 41 }
+      ]
+    });
+  });
+
+  afterEach(async () => {
+    await registry.shutdown();
+  });
+
+  test('should execute structured queries against registry MCPs', async () => {
+    const rag2 = new RAG2Controller(registry, { caching: noCaching });
+
+    const result = await rag2.queryStructured({
+      from: 'user',
+      select: ['name'],
+      where: { field: 'email', op: 'endsWith', value: '@example.com' },
+      orderBy: [{ field: 'age', direction: 'desc' }]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.primary).toEqual([{ name: 'Alice' }, { name: 'Bob' }]);
+    expect(result.data.metadata.totalRecords).toBe(2);
+  });
+
+  test('should report unknown targets as failed queries', async () => {
+    const rag2 = new RAG2Controller(registry, { caching: noCaching });
+
+    const result = await rag2.queryStructured({ from: 'inventory' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.some((e: any) => e.error.includes('not found'))).toBe(true);
+  });
+});
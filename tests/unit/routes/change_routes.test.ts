@@ -0,0 +1,111 @@
+/**
+ * Change Feed Route Unit Tests
+ *
+ * Tests reading changes from an offset, consumer group offsets and the 410 for offsets past
+ * retention, over a feed that captures from a registry stand-in.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { EventEmitter } from 'events';
+import express from 'express';
+import request from 'supertest';
+import { createChangeRoutes } from '../../../src/api/routes/changes';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { MemoryChangeLog } from '../../../src/core/storage/change_log';
+import { ChangeFeed } from '../../../src/mcp/cdc/ChangeFeed';
+
+describe('change routes', () => {
+  let registry: EventEmitter;
+  let feed: ChangeFeed;
+  let app: express.Application;
+  let role: string;
+
+  const store = async (...ids: string[]) => {
+    const target = feed.lastSequence() + ids.length;
+    for (const id of ids) {
+      registry.emit('record-stored', {
+        mcpId: 'user-mcp', domain: 'user', recordId: id, version: 1,
+        record: { id, domain: 'user', type: 'user', timestamp: 1, data: {} }
+      });
+    }
+    // Captured changes reach the log asynchronously
+    for (let i = 0; i < 200 && feed.lastSequence() < target; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    expect(feed.lastSequence()).toBe(target);
+  };
+
+  const ids = (body: any) => body.data.changes.map((change: any) => `${change.seq}:${change.recordId}`);
+
+  beforeEach(async () => {
+    role = 'admin';
+    registry = new EventEmitter();
+    // Keeps the three latest changes
+    feed = new ChangeFeed(registry as any, new MemoryChangeLog(3));
+    await feed.initialize();
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).user = { id: 'u1', email: 'ops@example.com', role, permissions: [] };
+      next();
+    });
+    app.use('/changes', createChangeRoutes(feed));
+    app.use(errorHandler);
+  });
+
+  afterEach(async () => {
+    await feed.shutdown();
+  });
+
+  test('should return changes after since, up to the limit', async () => {
+    await store('a', 'b', 'c');
+
+    const first = await request(app).get('/changes').query({ since: 0, limit: 2 });
+    expect(first.status).toBe(200);
+    expect(ids(first.body)).toEqual(['1:a', '2:b']);
+    expect(first.body.data).toMatchObject({ nextSince: 2, lastSequence: 3 });
+
+    const rest = await request(app).get('/changes').query({ since: first.body.data.nextSince });
+    expect(ids(rest.body)).toEqual(['3:c']);
+
+    const caughtUp = await request(app).get('/changes').query({ since: 3 });
+    expect(caughtUp.body.data).toMatchObject({ changes: [], nextSince: 3 });
+  });
+
+  test('should answer 410 with the first retained sequence for an expired offset', async () => {
+    await store('a', 'b', 'c', 'd');
+
+    const expired = await request(app).get('/changes').query({ since: 0 });
+    expect(expired.status).toBe(410);
+    expect(expired.body.details).toEqual({ firstSequence: 2 });
+
+    const retained = await request(app).get('/changes').query({ since: 1 });
+    expect(retained.status).toBe(200);
+    expect(ids(retained.body)).toEqual(['2:b', '3:c', '4:d']);
+  });
+
+  test('should read from and commit consumer group offsets', async () => {
+    await store('a', 'b', 'c');
+
+    const read = await request(app).get('/changes').query({ group: 'billing', limit: 2, commit: 'true' });
+    expect(ids(read.body)).toEqual(['1:a', '2:b']);
+    expect(ids((await request(app).get('/changes').query({ group: 'billing' })).body)).toEqual(['3:c']);
+
+    const committed = await request(app).put('/changes/offsets/search').send({ seq: 3 });
+    expect(committed.status).toBe(200);
+    expect(committed.body.data).toMatchObject({ group: 'search', seq: 3 });
+    expect((await request(app).put('/changes/offsets/search').send({ seq: 9 })).status).toBe(400);
+
+    const offsets = await request(app).get('/changes/offsets');
+    expect(offsets.body.data.offsets.map((offset: any) => [offset.group, offset.seq])).toEqual([['billing', 2], ['search', 3]]);
+  });
+
+  test('should require an offset or group, and an admin', async () => {
+    expect((await request(app).get('/changes')).status).toBe(400);
+    expect((await request(app).get('/changes').query({ since: 0, commit: 'true' })).status).toBe(400);
+
+    role = 'user';
+    expect((await request(app).get('/changes').query({ since: 0 })).status).toBe(403);
+  });
+});
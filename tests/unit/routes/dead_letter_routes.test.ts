@@ -0,0 +1,129 @@
+/**
+ * Ingestion Dead-Letter Route Unit Tests
+ *
+ * Tests the admin endpoints over a dead-letter queue whose replays are scripted.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createDeadLetterRoutes } from '../../../src/api/routes/deadLetters';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { IngestionDeadLetter } from '../../../src/core/storage/dead_letter_store';
+import { DeadLetterQueue, IngestionAttempt } from '../../../src/rag/ingest/dead_letters';
+
+describe('dead-letter routes', () => {
+  let queue: DeadLetterQueue;
+  let app: express.Application;
+  let role: string;
+  // Outcomes of the next replays, in order; success once they run out
+  let outcomes: IngestionAttempt[];
+  let finishReplay: (() => void) | undefined;
+
+  const replayer = async (deadLetter: IngestionDeadLetter): Promise<IngestionAttempt> => {
+    if (deadLetter.recordId === 'slow') {
+      await new Promise<void>(resolve => { finishReplay = resolve; });
+    }
+    return outcomes.shift() ?? { success: true };
+  };
+
+  const capture = (recordId: string, stage: 'classify' | 'route' | 'store', batchId?: string) =>
+    queue.capture({ recordId, data: { email: `${recordId}@example.com` }, stage, error: `${stage} failed`, batchId });
+
+  beforeEach(async () => {
+    outcomes = [];
+    finishReplay = undefined;
+    role = 'admin';
+    queue = new DeadLetterQueue(replayer, { retryStages: [] });
+    await queue.initialize();
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).user = { id: 'u1', email: 'ops@example.com', role };
+      next();
+    });
+    app.use('/dead-letters', createDeadLetterRoutes({ getDeadLetters: () => queue } as any));
+    app.use(errorHandler);
+  });
+
+  afterEach(async () => {
+    finishReplay?.();
+    await queue.shutdown();
+  });
+
+  test('should list entries by filter with counts, and fetch one', async () => {
+    const ada = await capture('ada', 'classify', 'b1');
+    await capture('bob', 'store', 'b1');
+    await capture('cy', 'store');
+
+    const listed = await request(app).get('/dead-letters').query({ batchId: 'b1', limit: 1 });
+    expect(listed.status).toBe(200);
+    expect(listed.body.data.deadLetters.map((entry: any) => entry.recordId)).toEqual(['ada']);
+    expect(listed.body.data.total).toBe(2);
+    expect(listed.body.data.stats.byStage).toEqual({ classify: 1, route: 0, store: 2 });
+
+    const fetched = await request(app).get(`/dead-letters/${ada.id}`);
+    expect(fetched.body.data).toMatchObject({ recordId: 'ada', stage: 'classify', attempts: 1 });
+
+    expect((await request(app).get('/dead-letters').query({ stage: 'parse' })).status).toBe(400);
+    expect((await request(app).get('/dead-letters/missing')).status).toBe(404);
+  });
+
+  test('should edit, replay and discard single entries', async () => {
+    const ada = await capture('ada', 'classify');
+    const bob = await capture('bob', 'route');
+
+    const edited = await request(app).patch(`/dead-letters/${ada.id}`).send({ data: { email: 'ada@example.org' } });
+    expect(edited.body.data.data).toEqual({ email: 'ada@example.org' });
+    expect((await request(app).patch(`/dead-letters/${ada.id}`).send({})).status).toBe(400);
+
+    outcomes = [{ success: false, stage: 'classify', error: 'still unclassifiable' }];
+    const failed = await request(app).post(`/dead-letters/${ada.id}/replay`);
+    expect(failed.body.data).toMatchObject({ success: false, error: 'still unclassifiable', deadLetter: { attempts: 2 } });
+
+    const replayed = await request(app).post(`/dead-letters/${ada.id}/replay`);
+    expect(replayed.body.data).toEqual({ deadLetterId: ada.id, recordId: 'ada', success: true });
+    expect((await request(app).post(`/dead-letters/${ada.id}/replay`)).status).toBe(404);
+
+    const discarded = await request(app).delete(`/dead-letters/${bob.id}`);
+    expect(discarded.body.data).toEqual({ deadLetterId: bob.id, deleted: true });
+    expect(queue.stats().total).toBe(0);
+  });
+
+  test('should replay in bulk by filter or by IDs, but not both', async () => {
+    const ada = await capture('ada', 'route');
+    await capture('bob', 'route');
+    await capture('cy', 'classify');
+
+    outcomes = [{ success: false, stage: 'route', error: 'Routing timeout' }];
+    const bulk = await request(app).post('/dead-letters/replay').send({ stage: 'route' });
+    expect(bulk.body.data).toMatchObject({ replayed: 2, succeeded: 1, failed: 1 });
+
+    const mixed = await request(app).post('/dead-letters/replay').send({ ids: [ada.id], stage: 'route' });
+    expect(mixed.status).toBe(400);
+    expect((await request(app).post('/dead-letters/replay').send({ ids: ['missing'] })).status).toBe(404);
+
+    const byId = await request(app).post('/dead-letters/replay').send({ ids: [ada.id] });
+    expect(byId.body.data).toMatchObject({ replayed: 1, succeeded: 1 });
+    expect(queue.list().map(entry => entry.recordId)).toEqual(['cy']);
+  });
+
+  test('should refuse edits while a replay runs', async () => {
+    const slow = await capture('slow', 'store');
+    const replay = queue.replay(slow.id);
+
+    const edit = await request(app).patch(`/dead-letters/${slow.id}`).send({ metadata: { source: 'crm' } });
+    expect(edit.status).toBe(409);
+    expect(edit.body.error).toBe(`Dead letter is being replayed: ${slow.id}`);
+    expect((await request(app).delete(`/dead-letters/${slow.id}`)).status).toBe(409);
+
+    finishReplay!();
+    expect((await replay).success).toBe(true);
+  });
+
+  test('should be reserved for admins', async () => {
+    role = 'user';
+    expect((await request(app).get('/dead-letters')).status).toBe(403);
+  });
+});
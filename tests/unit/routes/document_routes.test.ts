@@ -0,0 +1,75 @@
+/**
+ * Document Route Unit Tests
+ *
+ * Tests the endpoints that read and delete ingested documents, over a controller stand-in.
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createIngestionRoutes } from '../../../src/api/routes/ingestion';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { StoredDocument } from '../../../src/rag/ingest/rag1';
+
+describe('document routes', () => {
+  let app: express.Application;
+  let permissions: string[];
+  let getDocument: jest.Mock<(documentId: string) => Promise<StoredDocument | null>>;
+  let deleteDocument: jest.Mock<(documentId: string) => Promise<number>>;
+
+  const stored: StoredDocument = {
+    document: { id: 'doc-1', domain: 'user', type: 'document', timestamp: 1, data: { fileName: 'manual.md', chunkCount: 2 } },
+    chunks: [
+      { id: 'doc-1:chunk:0', domain: 'user', type: 'document_chunk', timestamp: 1, data: { index: 0, text: '# Install' } },
+      { id: 'doc-1:chunk:1', domain: 'user', type: 'document_chunk', timestamp: 1, data: { index: 1, text: '# Upgrade' } }
+    ],
+    text: '# Install\n\n# Upgrade',
+    mcpId: 'user-mcp'
+  };
+
+  beforeEach(() => {
+    permissions = ['ingest:read', 'ingest:write'];
+    getDocument = jest.fn<(documentId: string) => Promise<StoredDocument | null>>()
+      .mockImplementation(async id => (id === 'doc-1' ? stored : null));
+    deleteDocument = jest.fn<(documentId: string) => Promise<number>>()
+      .mockImplementation(async id => (id === 'doc-1' ? 3 : 0));
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).user = { id: 'u1', email: 'ops@example.com', role: 'user', permissions };
+      next();
+    });
+    app.use('/ingest', createIngestionRoutes({ getDocument, deleteDocument } as any));
+    app.use(errorHandler);
+  });
+
+  test('should return a document with its chunks and text', async () => {
+    const fetched = await request(app).get('/ingest/documents/doc-1');
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.data).toEqual(stored);
+
+    const missing = await request(app).get('/ingest/documents/missing');
+    expect(missing.status).toBe(404);
+    expect(missing.body.error).toBe('Document not found');
+  });
+
+  test('should delete a document with its chunks', async () => {
+    const deleted = await request(app).delete('/ingest/documents/doc-1');
+    expect(deleted.status).toBe(200);
+    expect(deleted.body.data).toEqual({ documentId: 'doc-1', deletedRecords: 3 });
+    expect(deleteDocument).toHaveBeenCalledWith('doc-1');
+
+    expect((await request(app).delete('/ingest/documents/missing')).status).toBe(404);
+  });
+
+  test('should require read access to fetch and write access to delete', async () => {
+    permissions = ['ingest:read'];
+    expect((await request(app).get('/ingest/documents/doc-1')).status).toBe(200);
+    expect((await request(app).delete('/ingest/documents/doc-1')).status).toBe(403);
+    expect(deleteDocument).not.toHaveBeenCalled();
+
+    permissions = [];
+    expect((await request(app).get('/ingest/documents/doc-1')).status).toBe(403);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Record Route Unit Tests
+ *
+ * Tests that single-record writes through the API are readable at once and carry their version.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createQueryRoutes } from '../../../src/api/routes/query';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { ColdMCP } from '../../../src/core/mcp/cold_mcp';
+import { MCPType } from '../../../src/types/mcp.types';
+
+describe('record routes', () => {
+  let coldMCP: ColdMCP;
+  let app: express.Application;
+
+  beforeEach(() => {
+    // The cold tier's background timers outlive shutdown
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    coldMCP = new ColdMCP('logs', MCPType.COLD, { batchSize: 100 });
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).user = { id: 'u1', email: 'ops@example.com', role: 'user', permissions: ['ingest:write'] };
+      next();
+    });
+    app.use('/query', createQueryRoutes({
+      resolveSingleMCP: async () => coldMCP,
+      listRecords: (_mcpId: string, filters: Record<string, any>) => coldMCP.queryPage(filters)
+    } as any));
+    app.use(errorHandler);
+  });
+
+  afterEach(async () => {
+    await coldMCP.shutdown();
+    jest.useRealTimers();
+  });
+
+  test('should write a cold record through its batch buffer and return the stored version', async () => {
+    const created = await request(app).put('/query/records/cold-mcp/r1').send({ data: { message: 'archived' } });
+    expect(created.status).toBe(201);
+    expect(created.headers.etag).toBe('"1"');
+
+    const fetched = await request(app).get('/query/records/cold-mcp/r1');
+    expect(fetched.status).toBe(200);
+    expect(fetched.headers.etag).toBe('"1"');
+    expect(fetched.body.data.data).toEqual({ message: 'archived' });
+
+    const replaced = await request(app).put('/query/records/cold-mcp/r1')
+      .set('If-Match', '"1"')
+      .send({ data: { message: 'rearchived' } });
+    expect(replaced.status).toBe(200);
+    expect(replaced.headers.etag).toBe('"2"');
+
+    const stale = await request(app).put('/query/records/cold-mcp/r1')
+      .set('If-Match', '"1"')
+      .send({ data: { message: 'lost update' } });
+    expect(stale.status).toBe(409);
+    expect((await coldMCP.retrieve('r1'))?.data).toEqual({ message: 'rearchived' });
+  });
+
+  test('should only replace an existing record under a wildcard If-Match', async () => {
+    const missing = await request(app).put('/query/records/cold-mcp/r2').set('If-Match', '*').send({ data: { message: 'new' } });
+    expect(missing.status).toBe(404);
+
+    await request(app).put('/query/records/cold-mcp/r2').send({ data: { message: 'archived' } });
+    const update = jest.spyOn(coldMCP, 'update');
+    const replaced = await request(app).put('/query/records/cold-mcp/r2').set('If-Match', '*').send({ data: { message: 'rearchived' } });
+    expect(replaced.status).toBe(200);
+    expect(replaced.headers.etag).toBe('"2"');
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({ id: 'r2' }), { ifVersion: 1 });
+  });
+
+  test('should refuse a list filter whose regex could backtrack without bound', async () => {
+    const filter = JSON.stringify({ message: { $regex: '(a|aa)+$' } });
+    const listed = await request(app).get('/query/records/cold-mcp').query({ filter });
+    expect(listed.status).toBe(400);
+    expect(listed.body.message).toBe('$regex filter repeats a group that holds a quantifier or alternation');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Query Session Route Unit Tests
+ *
+ * Tests creating, listing, reading and deleting query sessions through the API, and that a
+ * session is only visible to the user who started it.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createSessionRoutes } from '../../../src/api/routes/sessions';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { QuerySessionManager } from '../../../src/rag/query/sessions';
+
+describe('session routes', () => {
+  let sessions: QuerySessionManager;
+  let app: express.Application;
+
+  beforeEach(async () => {
+    // Creating, listing and deleting sessions never runs a query
+    sessions = new QuerySessionManager({} as any);
+    await sessions.initialize();
+
+    app = express();
+    app.use(express.json());
+    // Requests without the header stay anonymous
+    app.use((req, _res, next) => {
+      const userId = req.header('x-user');
+      if (userId) {
+        (req as any).user = { id: userId, email: `${userId}@example.com`, role: 'user', permissions: [] };
+      }
+      next();
+    });
+    app.use('/sessions', createSessionRoutes(sessions));
+    app.use(errorHandler);
+  });
+
+  afterEach(async () => {
+    await sessions.shutdown();
+  });
+
+  test('should create, read, list and delete a session', async () => {
+    const created = await request(app).post('/sessions').set('x-user', 'ada').send({ ttlMs: 60000, metadata: { channel: 'cli' } });
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ userId: 'ada', ttlMs: 60000, turns: [], metadata: { channel: 'cli' } });
+    const id = created.body.data.id;
+
+    const fetched = await request(app).get(`/sessions/${id}`).set('x-user', 'ada');
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.data.id).toBe(id);
+
+    const listed = await request(app).get('/sessions').set('x-user', 'ada');
+    expect(listed.body.data.sessions.map((session: any) => session.id)).toEqual([id]);
+
+    const deleted = await request(app).delete(`/sessions/${id}`).set('x-user', 'ada');
+    expect(deleted.status).toBe(200);
+    expect(deleted.body.data).toEqual({ sessionId: id, deleted: true });
+    expect((await request(app).get(`/sessions/${id}`).set('x-user', 'ada')).status).toBe(404);
+    expect((await request(app).get('/sessions').set('x-user', 'ada')).body.data.sessions).toEqual([]);
+  });
+
+  test('should hide a session from other users and anonymous callers', async () => {
+    const id = (await request(app).post('/sessions').set('x-user', 'ada').send({})).body.data.id;
+    const anonymousId = (await request(app).post('/sessions').send({})).body.data.id;
+
+    expect((await request(app).get(`/sessions/${id}`).set('x-user', 'bob')).status).toBe(404);
+    expect((await request(app).get(`/sessions/${id}`)).status).toBe(404);
+    expect((await request(app).delete(`/sessions/${id}`).set('x-user', 'bob')).status).toBe(404);
+    expect((await request(app).delete(`/sessions/${id}`)).status).toBe(404);
+    expect(sessions.getSession(id, 'ada').id).toBe(id);
+
+    expect((await request(app).get('/sessions').set('x-user', 'bob')).body.data.sessions).toEqual([]);
+    expect((await request(app).get('/sessions')).body.data.sessions.map((session: any) => session.id)).toEqual([anonymousId]);
+  });
+
+  test('should reject session lifetimes out of range', async () => {
+    expect((await request(app).post('/sessions').send({ ttlMs: 10 })).status).toBe(400);
+    expect((await request(app).post('/sessions').send({ ttlMs: 8 * 24 * 60 * 60 * 1000 })).status).toBe(400);
+    expect(sessions.listSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Webhook Route Unit Tests
+ *
+ * Tests creating, reading, updating and deleting webhook subscriptions through the admin API,
+ * and that secrets are only shown on creation.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import { createWebhookRoutes } from '../../../src/api/routes/webhooks';
+import { errorHandler } from '../../../src/api/middleware/errorHandler';
+import { WebhookDispatcher } from '../../../src/monitoring/WebhookDispatcher';
+
+describe('webhook routes', () => {
+  let webhooks: WebhookDispatcher;
+  let app: express.Application;
+  let role: string;
+
+  const subscription = {
+    url: 'https://hooks.example.com/mcp',
+    events: ['migration.completed', 'alert.*'],
+    secret: 'a-signing-secret-of-some-length',
+    description: 'Ops channel'
+  };
+
+  beforeEach(async () => {
+    role = 'admin';
+    webhooks = new WebhookDispatcher();
+    await webhooks.initialize();
+
+    app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      (req as any).user = { id: 'u1', email: 'ops@example.com', role, permissions: [] };
+      next();
+    });
+    app.use('/webhooks', createWebhookRoutes(webhooks));
+    app.use(errorHandler);
+  });
+
+  afterEach(async () => {
+    await webhooks.shutdown();
+  });
+
+  test('should create a subscription and show its secret only once', async () => {
+    const created = await request(app).post('/webhooks').send(subscription);
+    expect(created.status).toBe(201);
+    expect(created.body.data).toMatchObject({ ...subscription, enabled: true });
+    const id = created.body.data.id;
+
+    const fetched = await request(app).get(`/webhooks/${id}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body.data).toMatchObject({ id, url: subscription.url, events: subscription.events });
+    expect(fetched.body.data).not.toHaveProperty('secret');
+
+    const listed = await request(app).get('/webhooks');
+    expect(listed.body.data.subscriptions.map((item: any) => item.id)).toEqual([id]);
+    expect(listed.body.data.subscriptions[0]).not.toHaveProperty('secret');
+  });
+
+  test('should update and delete a subscription', async () => {
+    const id = (await request(app).post('/webhooks').send(subscription)).body.data.id;
+
+    const updated = await request(app).patch(`/webhooks/${id}`).send({ enabled: false, events: ['record.*'] });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data).toMatchObject({ id, enabled: false, events: ['record.*'], description: 'Ops channel' });
+    expect(updated.body.data).not.toHaveProperty('secret');
+    expect(webhooks.getSubscription(id).secret).toBe(subscription.secret);
+
+    const deleted = await request(app).delete(`/webhooks/${id}`);
+    expect(deleted.status).toBe(200);
+    expect(deleted.body.data).toEqual({ subscriptionId: id, deleted: true });
+    expect(webhooks.listSubscriptions()).toEqual([]);
+
+    expect((await request(app).get(`/webhooks/${id}`)).status).toBe(404);
+    expect((await request(app).patch(`/webhooks/${id}`).send({ enabled: true })).status).toBe(404);
+    expect((await request(app).delete(`/webhooks/${id}`)).status).toBe(404);
+  });
+
+  test('should reject invalid subscriptions', async () => {
+    expect((await request(app).post('/webhooks').send({ ...subscription, url: 'not a url' })).status).toBe(400);
+    expect((await request(app).post('/webhooks').send({ ...subscription, url: 'ftp://hooks.example.com' })).status).toBe(400);
+    expect((await request(app).post('/webhooks').send({ ...subscription, events: ['nothing.happened'] })).status).toBe(400);
+    expect((await request(app).post('/webhooks').send({ ...subscription, secret: 'short' })).status).toBe(400);
+
+    const id = (await request(app).post('/webhooks').send(subscription)).body.data.id;
+    expect((await request(app).patch(`/webhooks/${id}`).send({ events: [] })).status).toBe(400);
+    expect(webhooks.listSubscriptions()).toHaveLength(1);
+  });
+
+  test('should be limited to admins', async () => {
+    role = 'user';
+    expect((await request(app).get('/webhooks')).status).toBe(403);
+    expect((await request(app).post('/webhooks').send(subscription)).status).toBe(403);
+    expect(webhooks.listSubscriptions()).toEqual([]);
+  });
+});